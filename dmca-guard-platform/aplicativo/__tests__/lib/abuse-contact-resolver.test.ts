@@ -0,0 +1,202 @@
+import { AbuseContactResolver, RdapFetcher, DnsLookup } from '@/lib/abuse-contact-resolver'
+import { DmcaContactDetector } from '@/lib/dmca-contact-detector'
+import axios from 'axios'
+import * as cheerio from 'cheerio'
+
+import domainPirateExample from '../fixtures/rdap/domain-pirate-example.json'
+import ipArinCloudflare from '../fixtures/rdap/ip-arin-cloudflare.json'
+import ipRipeNoAbuse from '../fixtures/rdap/ip-ripe-no-abuse.json'
+import autnumAs64500 from '../fixtures/rdap/autnum-as64500.json'
+
+jest.mock('axios', () => ({
+  get: jest.fn().mockRejectedValue(new Error('blocked'))
+}))
+
+jest.mock('cheerio', () => ({
+  load: jest.fn()
+}))
+
+const RDAP_FIXTURES: Record<string, any> = {
+  'https://rdap.org/domain/pirate-example.com': domainPirateExample,
+  'https://rdap.org/ip/104.21.5.10': ipArinCloudflare,
+  'https://rdap.org/ip/185.220.101.7': ipRipeNoAbuse,
+  'https://rdap.org/autnum/64500': autnumAs64500
+}
+
+const fixtureFetcher = jest.fn<ReturnType<RdapFetcher>, Parameters<RdapFetcher>>(
+  async (url) => RDAP_FIXTURES[url] ?? null
+)
+
+const makeDns = (ip: string, asnRecord?: string): DnsLookup => ({
+  resolve4: jest.fn().mockResolvedValue([ip]),
+  resolveTxt: jest.fn().mockImplementation(async () => {
+    if (!asnRecord) throw new Error('ENOTFOUND')
+    return [[asnRecord]]
+  })
+})
+
+describe('AbuseContactResolver', () => {
+  beforeEach(() => {
+    fixtureFetcher.mockClear()
+  })
+
+  it('should map a URL to IP, ASN, hosting organisation and registrar', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10', '13335 | 104.16.0.0/13 | US | arin | 2014-03-28')
+    })
+
+    const result = await resolver.resolve('https://www.pirate-example.com/videos/123')
+
+    expect(result).toMatchObject({
+      domain: 'pirate-example.com',
+      ip: '104.21.5.10',
+      asn: 13335,
+      hostingOrganization: 'Cloudflare, Inc.',
+      registrar: 'NameCheap, Inc.',
+      registrarIanaId: '1068'
+    })
+    expect(result.candidates.map(c => [c.email, c.role, c.source])).toEqual([
+      ['abuse@cloudflare.com', 'HOSTING', 'RDAP_IP'],
+      ['abuse@namecheap.com', 'REGISTRAR', 'RDAP_DOMAIN']
+    ])
+    // Contatos administrativos não são tratados como abuso
+    expect(result.candidates.some(c => c.email === 'rir@cloudflare.com')).toBe(false)
+  })
+
+  it('should fall back to the ASN record when the IP network has no abuse contact', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('185.220.101.7', '64500 | 185.220.100.0/22 | NL | ripencc | 2017-11-02')
+    })
+
+    const hosting = await resolver.findHostingAbuseContacts('files.offshore.example')
+    const result = await resolver.resolve('files.offshore.example')
+
+    expect(hosting).toEqual(['abuse@offshore-hosting.example'])
+    expect(result.asn).toBe(64500)
+    expect(result.hostingOrganization).toBe('Offshore Hosting Ltd')
+    expect(result.hostingCountry).toBe('NL')
+    expect(result.registrar).toBeNull()
+    expect(fixtureFetcher).toHaveBeenCalledWith('https://rdap.org/autnum/64500')
+  })
+
+  it('should use the ARIN origin AS when the DNS ASN lookup fails', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10')
+    })
+
+    const result = await resolver.resolve('pirate-example.com')
+
+    expect(result.asn).toBe(13335)
+  })
+
+  it('should look up the registered domain for subdomains', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10')
+    })
+
+    const registrar = await resolver.findRegistrarAbuseContacts('cdn.pirate-example.com')
+
+    expect(registrar).toEqual(['abuse@namecheap.com'])
+    expect(fixtureFetcher).toHaveBeenCalledWith('https://rdap.org/domain/cdn.pirate-example.com')
+    expect(fixtureFetcher).toHaveBeenCalledWith('https://rdap.org/domain/pirate-example.com')
+  })
+
+  it('should cache results per domain', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10')
+    })
+
+    await Promise.all([
+      resolver.resolve('https://pirate-example.com/a'),
+      resolver.resolve('https://www.pirate-example.com/b')
+    ])
+    await resolver.findHostingAbuseContacts('pirate-example.com')
+
+    expect(fixtureFetcher).toHaveBeenCalledTimes(2) // domain + ip
+  })
+
+  it('should survive RDAP failures', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: jest.fn().mockRejectedValue(new Error('HTTP 503')),
+      dns: makeDns('104.21.5.10')
+    })
+
+    const result = await resolver.resolve('pirate-example.com')
+
+    expect(result.ip).toBe('104.21.5.10')
+    expect(result.candidates).toEqual([])
+  })
+
+  it('should not keep a failed RDAP lookup cached', async () => {
+    const flakyFetcher = jest.fn<ReturnType<RdapFetcher>, Parameters<RdapFetcher>>()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockImplementation(async (url) => RDAP_FIXTURES[url] ?? null)
+    const resolver = new AbuseContactResolver({
+      fetcher: flakyFetcher,
+      dns: makeDns('104.21.5.10'),
+      failureCacheTtlMs: 0
+    })
+
+    const failed = await resolver.resolve('pirate-example.com')
+    const retried = await resolver.resolve('pirate-example.com')
+    await resolver.resolve('pirate-example.com')
+
+    expect(failed.candidates).toEqual([])
+    expect(retried.candidates.map(c => c.email)).toEqual(expect.arrayContaining(['abuse@cloudflare.com']))
+    expect(flakyFetcher).toHaveBeenCalledTimes(4) // domain + ip, duas vezes; a terceira vem do cache
+  })
+})
+
+describe('DmcaContactDetector fallback contacts', () => {
+  it('should rank RDAP abuse contacts above the guessed abuse@ address', async () => {
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10')
+    })
+    const detector = new DmcaContactDetector(resolver)
+
+    const contact = await detector.findDmcaContact('https://pirate-example.com/videos/123')
+
+    expect(contact.email).toBe('abuse@cloudflare.com')
+    expect(contact.confidence).toBeGreaterThan(30)
+    expect(contact.additionalEmails).toEqual([
+      'abuse@namecheap.com',
+      'abuse@pirate-example.com',
+      'contact@pirate-example.com',
+      'legal@pirate-example.com'
+    ])
+    expect(contact.candidates?.map(c => c.source)).toEqual([
+      'RDAP_IP',
+      'RDAP_DOMAIN',
+      'DOMAIN_GUESS',
+      'DOMAIN_GUESS',
+      'DOMAIN_GUESS'
+    ])
+  })
+
+  it('should return RDAP candidates when the pages load but list no contact', async () => {
+    ;(axios.get as jest.Mock).mockResolvedValue({ status: 200, data: '<html><body>Welcome</body></html>' })
+    ;(cheerio.load as jest.Mock).mockReturnValue({ text: () => 'welcome' })
+    const resolver = new AbuseContactResolver({
+      fetcher: fixtureFetcher,
+      dns: makeDns('104.21.5.10')
+    })
+    const detector = new DmcaContactDetector(resolver)
+
+    try {
+      const contact = await detector.findDmcaContact('https://pirate-example.com/videos/123')
+
+      expect(contact.email).toBe('abuse@cloudflare.com')
+      expect(contact.detectedMethod).toBe('RDAP abuse contact')
+      expect(contact.candidates?.[0].source).toBe('RDAP_IP')
+    } finally {
+      ;(axios.get as jest.Mock).mockRejectedValue(new Error('blocked'))
+    }
+  })
+})
@@ -0,0 +1,137 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    violationHistory: { findMany: jest.fn() },
+    detectedContent: { findMany: jest.fn() },
+    violationPatternSet: { findFirst: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn()
+  }
+}))
+
+import { prisma } from '@/lib/prisma'
+import { HistoricalViolation, minePatternSet, pathTemplate, registrableDomain, scoreUrl } from '@/lib/analysis/pattern-mining'
+import { HistoricalAnalyzer } from '@/lib/analysis/historical-analyzer'
+
+const addresses: Record<string, string> = {
+  'laraleaks.to': '185.1.2.10',
+  'hotleaks.to': '185.1.2.20',
+  'voxleaks.cc': '185.1.2.30',
+  'other.example': '93.0.0.1'
+}
+const resolveHost = async (host: string) => addresses[host] ?? null
+
+function violation(url: string, title: string, day: number): HistoricalViolation {
+  return { url, title, source: 'violation_history', detectedAt: new Date(Date.UTC(2026, 0, day)) }
+}
+
+// Quatro fóruns de leak com a mesma estrutura de tópico, dois blogs no blogspot e um site sem relação
+const history: HistoricalViolation[] = [
+  violation('https://forum.laraleaks.to/threads/lara-vox-pack.101/', 'Lara Vox leaked pack', 1),
+  violation('https://laraleaks.to/threads/lara-vox-mega-folder.102/', 'Lara Vox mega leaked', 2),
+  violation('https://voxleaks.cc/threads/lara-vox-full-set.7/', 'lara vox leaked set', 3),
+  violation('https://hotleaks.to/threads/lara-vox-pics-now.55/', 'Lara Vox leaked', 4),
+  violation('https://laravox.blogspot.com/2026/01/post.html', 'Lara Vox blog', 5),
+  violation('https://voxfans.blogspot.com/2026/02/more.html', 'fans', 6),
+  violation('https://other.example/page/1', 'random', 7)
+]
+
+describe('pattern mining helpers', () => {
+  it('turns paths into templates and hosts into registrable domains', () => {
+    expect(pathTemplate('https://x.to/threads/lara-vox-pack.123/page-2')).toBe('/threads/{slug}.{n}/page-{n}')
+    expect(pathTemplate('https://x.to/v/9f86d081884c7d65/a/b/c/d')).toBe('/v/{id}/a/b/*')
+    expect(registrableDomain('https://forum.laraleaks.to/x')).toBe('laraleaks.to')
+    expect(registrableDomain('https://www.site.com.br/x')).toBe('site.com.br')
+    expect(registrableDomain('https://laravox.blogspot.com/')).toBe('laravox.blogspot.com')
+  })
+})
+
+describe('minePatternSet', () => {
+  it('mines path templates, domain n-grams, TLDs, hosting clusters and keyword pairs', async () => {
+    const set = await minePatternSet([...history, history[0]], { resolveHost })
+
+    expect(set.totalUrls).toBe(7)
+    expect(set.pathTemplates[0]).toMatchObject({ template: '/threads/{slug}.{n}', urls: 4, domains: 3, keywords: ['threads'] })
+    expect(set.domainNgrams[0]).toMatchObject({ ngram: 'leaks', domains: 3 })
+    expect(set.domainNgrams.map(ngram => ngram.ngram)).not.toContain('eaks')
+    expect(set.tlds[0]).toMatchObject({ tld: 'to', domains: 2, urls: 3 })
+    expect(set.tlds.map(tld => tld.tld)).not.toContain('blogspot.com')
+    expect(set.hostingClusters).toEqual(expect.arrayContaining([
+      expect.objectContaining({ key: '185.1.2.0/24', kind: 'network', domains: expect.arrayContaining(['laraleaks.to', 'hotleaks.to', 'voxleaks.cc']) }),
+      expect.objectContaining({ key: 'blogspot.com', kind: 'platform', urls: 2 })
+    ]))
+    expect(set.keywordPairs[0]).toMatchObject({ terms: ['lara', 'vox'], support: 5 })
+    expect(set.keywordPairs.every(pair => pair.lift > 1)).toBe(true)
+  })
+
+  it('scores an unseen URL by the patterns it matches', async () => {
+    const set = await minePatternSet(history, { resolveHost })
+
+    const risky = scoreUrl('https://newleaks.to/threads/lara-vox-bundle-x.999/', set)
+    expect(risky.matches.map(match => match.kind)).toEqual(['path', 'ngram', 'tld', 'keyword'])
+    expect(risky.score).toBeGreaterThan(0.8)
+
+    expect(scoreUrl('https://example.org/about', set)).toEqual({ score: 0, matches: [] })
+    expect(scoreUrl('https://laraleaks.to/anything', set).matches[0]).toMatchObject({ kind: 'domain', pattern: 'laraleaks.to' })
+  })
+})
+
+describe('HistoricalAnalyzer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.$transaction as jest.Mock).mockImplementation(async (arg) =>
+      typeof arg === 'function' ? arg(prisma) : Promise.all(arg)
+    )
+    ;(prisma.violationPatternSet.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'set-new', createdAt: new Date(), ...data }))
+    ;(prisma.violationHistory.findMany as jest.Mock).mockResolvedValue(
+      history.slice(0, 4).map(({ url, title, detectedAt }) => ({ url, title, detectedAt }))
+    )
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue(
+      history.slice(4).map(({ url, title, detectedAt }, index) => ({
+        infringingUrl: url,
+        title,
+        keywordSource: 'lara vox',
+        platform: index === 0 ? 'csv_import' : 'website',
+        detectedAt
+      }))
+    )
+  })
+
+  it('mines the history into a new active version when there is no recent set', async () => {
+    ;(prisma.violationPatternSet.findFirst as jest.Mock)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ version: 1 })
+    const analyzer = new HistoricalAnalyzer('user-1', { resolveHost })
+
+    const patterns = await analyzer.analyzePatterns()
+    const predictions = await analyzer.predictLikelyDomains([
+      'https://example.org/about',
+      'https://newleaks.to/threads/lara-vox-bundle-x.999/'
+    ])
+
+    expect(prisma.violationHistory.findMany).toHaveBeenCalledTimes(1)
+    expect(prisma.detectedContent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'user-1' })
+    }))
+    expect(prisma.violationPatternSet.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', isActive: true },
+      data: { isActive: false }
+    })
+    const saved = (prisma.violationPatternSet.create as jest.Mock).mock.calls[0][0].data
+    expect(saved).toMatchObject({ userId: 'user-1', version: 2, isActive: true, totalUrls: 7 })
+    expect(saved.patterns.sources).toEqual({ violation_history: 4, detected_content: 2, import: 1 })
+
+    expect(patterns.slice(0, 4).map(pattern => pattern.kind)).toEqual(['ngram', 'path', 'keyword', 'hosting'])
+    expect(predictions).toHaveLength(1)
+    expect(predictions[0]).toMatchObject({ url: 'https://newleaks.to/threads/lara-vox-bundle-x.999/', riskLevel: 'HIGH' })
+  })
+
+  it('reuses a recent active set without reading the history again', async () => {
+    const set = await minePatternSet(history, { resolveHost })
+    ;(prisma.violationPatternSet.findFirst as jest.Mock).mockResolvedValue({ version: 3, isActive: true, createdAt: new Date(), patterns: set })
+    const analyzer = new HistoricalAnalyzer('user-1', { resolveHost })
+
+    expect(await analyzer.topTlds(2)).toEqual(['to', 'cc'])
+    expect(await analyzer.calculateSimilarity('https://laraleaks.to/new')).toBeGreaterThan(0.7)
+    expect(prisma.violationHistory.findMany).not.toHaveBeenCalled()
+    expect(prisma.violationPatternSet.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,182 @@
+jest.mock('@/lib/services/reference-image.service', () => ({
+  referenceImageService: { matchImages: jest.fn() }
+}))
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    brandProfile: { findFirst: jest.fn() },
+    detectedContent: { findMany: jest.fn() }
+  }
+}))
+
+import { prisma } from '@/lib/prisma'
+import { referenceImageService } from '@/lib/services/reference-image.service'
+import { detectionRuleService } from '@/lib/services/detection-rule.service'
+import { ViolationDetector } from '@/lib/detection/violation-detector'
+import {
+  applyRulesToBreakdown,
+  compileRules,
+  evaluateCondition,
+  evaluateRules,
+  parseRuleExpression,
+  RuleSubject,
+  usesOnlyUrlFields
+} from '@/lib/detection/detection-rules'
+import { computeScoreBreakdown } from '@/lib/detection/violation-scoring'
+import { BrandProfile, PageContent } from '@/lib/agents/types'
+
+const subject: RuleSubject = {
+  url: 'https://www.leaks.example/vip/lara-vox?page=2',
+  title: 'Lara Vox VIP pack',
+  description: 'Conteúdo exclusivo',
+  text: 'Download do pack completo no mega',
+  images: ['https://cdn.leaks.example/lara-01.jpg'],
+  links: ['https://mega.nz/folder/abc', 'https://leaks.example/']
+}
+
+const brandProfile: BrandProfile = {
+  id: 'bp1',
+  name: 'Lara Vox',
+  userId: 'user-1',
+  keywords: ['laravox'],
+  variations: [],
+  excludeKeywords: [],
+  riskThreshold: 0,
+  industries: [],
+  contentTypes: [],
+  protectedContent: []
+}
+
+const leakPage: PageContent = {
+  url: 'https://leaks.example/vip/lara-vox-pack',
+  title: 'Lara Vox leaked pack',
+  description: 'Lara Vox exclusive content free download',
+  bodyText: 'Lara Vox leaked folder. Lara Vox onlyfans leak with mega link. laravox full video uncensored.',
+  images: ['https://leaks.example/img/lara-vox-leaked-01.jpg'],
+  links: [],
+  metadata: {},
+  scrapedAt: new Date(),
+  size: 1024,
+  responseTime: 200
+}
+
+const matches = (expression: string) => evaluateCondition(parseRuleExpression(expression), subject)
+
+describe('detection rule language', () => {
+  it('evaluates conditions over url, page and link features', () => {
+    expect(matches('domain endsWith "leaks.example" and path contains "/vip/"')).toBe(true)
+    expect(matches('domain is "leaks.example"')).toBe(true)
+    expect(matches('title contains "cosplay tutorial" or text matches "pack\\\\s+completo"')).toBe(true)
+    expect(matches('linkUrl startsWith "https://mega.nz" and imageCount >= 1')).toBe(true)
+    expect(matches('not (linkCount > 1) or domain in ["other.example", "x.example"]')).toBe(false)
+    expect(matches('title contains "VIP" AND description is "conteúdo EXCLUSIVO"')).toBe(true)
+  })
+
+  it('rejects invalid expressions with the position of the problem', () => {
+    expect(() => parseRuleExpression('domain contains')).toThrow('Esperado texto entre aspas no fim da regra')
+    expect(() => parseRuleExpression('host is "x"')).toThrow('Campo desconhecido "host"')
+    expect(() => parseRuleExpression('imageCount contains "x"')).toThrow('Operador inválido para imageCount')
+    expect(() => parseRuleExpression('path matches "(["')).toThrow('Expressão regular inválida')
+    expect(() => parseRuleExpression('(domain is "x"')).toThrow('Esperado ")"')
+    expect(() => parseRuleExpression('text matches "(a+)+$"')).toThrow('quantificadores aninhados')
+    expect(() => parseRuleExpression('text matches "((ab)*c)*"')).toThrow('quantificadores aninhados')
+    expect(() => parseRuleExpression('text matches "(x)\\\\1"')).toThrow('referências a grupos')
+    expect(() => parseRuleExpression(`text matches "${'a'.repeat(201)}"`)).toThrow('mais de 200 caracteres')
+    expect(() => parseRuleExpression('text matches "(a|aa)+$"')).toThrow('alternativas em grupo repetido')
+    expect(() => parseRuleExpression('text matches "(\\\\w|\\\\d)+x"')).toThrow('alternativas em grupo repetido')
+    expect(() => parseRuleExpression('text matches "(?:a|A)*b"')).toThrow('alternativas em grupo repetido')
+    expect(() => parseRuleExpression('text matches "(vip|premium) pack[s+]*"')).not.toThrow()
+    expect(() => parseRuleExpression('text matches "(?:x|-|\\\\.)+ pack"')).not.toThrow()
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const compiled = compileRules([
+      { id: 'r1', name: 'quebrada', expression: 'domain is', action: 'BOOST' },
+      { id: 'r2', name: 'ok', expression: 'domain is "x"', action: 'BOOST' }
+    ])
+    expect(compiled.map(rule => rule.id)).toEqual(['r2'])
+    expect(compileRules([{ id: 'r3', name: 'regex', expression: 'title matches "vip"', action: 'BOOST' }])[0].condition)
+      .toMatchObject({ pattern: /vip/i })
+  })
+
+  it('knows which rules can be decided from the url alone', () => {
+    expect(usesOnlyUrlFields(parseRuleExpression('domain is "x" and not path contains "/blog/"'))).toBe(true)
+    expect(usesOnlyUrlFields(parseRuleExpression('domain is "x" and text contains "y"'))).toBe(false)
+  })
+
+  it('adjusts the score and records the fired rules in the breakdown', () => {
+    const rules = compileRules([
+      { id: 'vip', name: 'Área VIP', expression: 'path contains "/vip/"', action: 'BOOST', amount: 30 },
+      { id: 'tutorial', name: 'Tutorial', expression: 'text contains "tutorial"', action: 'AUTO_IGNORE' },
+      { id: 'mega', name: 'Link mega', expression: 'linkUrl contains "mega.nz"', action: 'SUPPRESS' }
+    ])
+    const fired = evaluateRules(rules, subject)
+    const breakdown = applyRulesToBreakdown(computeScoreBreakdown({ brandMentions: { value: 100, details: [] } }), fired)
+
+    expect(fired).toEqual([
+      { ruleId: 'vip', name: 'Área VIP', action: 'BOOST', amount: 30 },
+      { ruleId: 'mega', name: 'Link mega', action: 'SUPPRESS', amount: 20 }
+    ])
+    expect(breakdown.score).toBe(45)
+    expect(breakdown.riskLevel).toBe('MEDIUM')
+    expect(breakdown.rules).toBe(fired)
+    expect(breakdown.decision).toBeNull()
+  })
+})
+
+describe('ViolationDetector with detection rules', () => {
+  beforeEach(() => {
+    ;(referenceImageService.matchImages as jest.Mock).mockResolvedValue([])
+  })
+
+  it('lets auto-ignore drop a detection and auto-confirm bypass the minimum score', async () => {
+    const ignored = await new ViolationDetector({
+      ...brandProfile,
+      detectionRules: [{ id: 'r1', name: 'Leaks conhecidos', expression: 'domain is "leaks.example"', action: 'AUTO_IGNORE' }]
+    }).analyzeContent(leakPage)
+    expect(ignored).toBeNull()
+
+    const confirmed = await new ViolationDetector({
+      ...brandProfile,
+      scoringConfig: { minScore: 100 },
+      detectionRules: [{ id: 'r2', name: 'Área VIP', expression: 'path startsWith "/vip/"', action: 'AUTO_CONFIRM' }]
+    }).analyzeContent(leakPage)
+    expect(confirmed).not.toBeNull()
+    expect(confirmed!.scoreBreakdown).toMatchObject({
+      decision: 'CONFIRM',
+      rules: [{ ruleId: 'r2', name: 'Área VIP', action: 'AUTO_CONFIRM' }]
+    })
+    expect(confirmed!.detectionMethod).toContain('detection-rules')
+    expect(confirmed!.metadata.rulesFired).toEqual(['Área VIP'])
+  })
+
+  it('skips urls matched by url-only auto-ignore rules', () => {
+    const detector = new ViolationDetector({
+      ...brandProfile,
+      detectionRules: [
+        { id: 'r1', name: 'Blog oficial', expression: 'domain is "laravox.com"', action: 'AUTO_IGNORE' },
+        { id: 'r2', name: 'Tutorial', expression: 'text contains "tutorial"', action: 'AUTO_IGNORE' }
+      ]
+    })
+
+    expect(detector.isIgnoredUrl('https://laravox.com/posts/1')).toBe(true)
+    expect(detector.isIgnoredUrl('https://leaks.example/tutorial')).toBe(false)
+  })
+})
+
+describe('detectionRuleService.testAgainstHistory', () => {
+  it('counts matches by review outcome', async () => {
+    ;(prisma.brandProfile.findFirst as jest.Mock).mockResolvedValue({ id: 'bp1' })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      { id: 'c1', infringingUrl: 'https://leaks.example/vip/1', title: 'VIP 1', description: null, imagesFound: [], status: 'DMCA_SENT', isConfirmed: false },
+      { id: 'c2', infringingUrl: 'https://leaks.example/vip/2', title: 'VIP 2', description: null, imagesFound: [], status: 'FALSE_POSITIVE', isConfirmed: false },
+      { id: 'c3', infringingUrl: 'https://leaks.example/vip/3', title: 'VIP 3', description: null, imagesFound: [], status: 'DETECTED', isConfirmed: false },
+      { id: 'c4', infringingUrl: 'https://other.example/vip/4', title: 'Outro', description: null, imagesFound: [], status: 'DMCA_SENT', isConfirmed: true }
+    ])
+
+    const report = await detectionRuleService.testAgainstHistory('user-1', 'bp1', 'domain is "leaks.example" and path contains "/vip/"')
+
+    expect(report).toMatchObject({ evaluated: 4, matched: 3, confirmed: 1, falsePositives: 1, unreviewed: 1 })
+    expect(report.samples.map(sample => sample.id)).toEqual(['c1', 'c2', 'c3'])
+    await expect(detectionRuleService.testAgainstHistory('user-1', 'bp1', 'domain ~ "x"'))
+      .rejects.toMatchObject({ name: 'DetectionRuleError', status: 400 })
+  })
+})
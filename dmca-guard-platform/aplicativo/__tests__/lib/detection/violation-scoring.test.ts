@@ -0,0 +1,125 @@
+jest.mock('@/lib/services/reference-image.service', () => ({
+  referenceImageService: { matchImages: jest.fn() }
+}))
+
+import { referenceImageService } from '@/lib/services/reference-image.service'
+import { ViolationDetector } from '@/lib/detection/violation-detector'
+import {
+  computeScoreBreakdown,
+  DEFAULT_SCORING_CONFIG,
+  resolveScoringConfig,
+  scoringConfigSchema
+} from '@/lib/detection/violation-scoring'
+import { BrandProfile, PageContent } from '@/lib/agents/types'
+
+const brandProfile: BrandProfile = {
+  id: 'bp1',
+  name: 'Lara Vox',
+  userId: 'user-1',
+  keywords: ['laravox'],
+  variations: ['lara.vox'],
+  excludeKeywords: [],
+  riskThreshold: 0,
+  industries: [],
+  contentTypes: [],
+  protectedContent: []
+}
+
+const leakPage: PageContent = {
+  url: 'https://leaks.example/lara-vox-pack',
+  title: 'Lara Vox leaked pack',
+  description: 'Lara Vox exclusive content free download',
+  bodyText: 'Lara Vox leaked folder. Lara Vox onlyfans leak with mega link. laravox full video uncensored.',
+  images: ['https://leaks.example/img/lara-vox-leaked-01.jpg', 'https://leaks.example/img/banner.png'],
+  links: [],
+  metadata: {},
+  scrapedAt: new Date(),
+  size: 1024,
+  responseTime: 200
+}
+
+describe('computeScoreBreakdown', () => {
+  it('reports each signal with its weight and contribution', () => {
+    const breakdown = computeScoreBreakdown({
+      brandMentions: { value: 80, details: ['Lara Vox'] },
+      pageType: { value: 100, details: ['leak'] }
+    })
+
+    const brand = breakdown.signals.find(signal => signal.key === 'brandMentions')!
+    expect(brand).toMatchObject({ rawValue: 80, weight: 0.35, contribution: 28, details: ['Lara Vox'] })
+    expect(breakdown.signals).toHaveLength(6)
+    expect(breakdown.score).toBe(36)
+    expect(breakdown.riskLevel).toBe('LOW')
+    expect(breakdown.overriddenBy).toBeNull()
+  })
+
+  it('lets a recognised reference image set the score on its own', () => {
+    const breakdown = computeScoreBreakdown({ referenceImages: { value: 92, details: ['foto.jpg (92%)'] } })
+
+    expect(breakdown.score).toBe(92)
+    expect(breakdown.riskLevel).toBe('CRITICAL')
+    expect(breakdown.overriddenBy).toBe('referenceImages')
+
+    const withoutOverride = computeScoreBreakdown(
+      { referenceImages: { value: 92, details: [] } },
+      { ...DEFAULT_SCORING_CONFIG, referenceImageOverride: false }
+    )
+    expect(withoutOverride.score).toBe(13.8)
+  })
+})
+
+describe('resolveScoringConfig', () => {
+  it('merges the brand configuration over the defaults', () => {
+    const config = resolveScoringConfig({ weights: { pageType: 0.3 }, thresholds: { critical: 90 } })
+
+    expect(config.weights).toEqual({ ...DEFAULT_SCORING_CONFIG.weights, pageType: 0.3 })
+    expect(config.thresholds).toEqual({ medium: 40, high: 60, critical: 90 })
+    expect(config.minScore).toBe(40)
+  })
+
+  it('falls back to the defaults for invalid stored configuration', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(resolveScoringConfig({ thresholds: { medium: 70, high: 50 } })).toBe(DEFAULT_SCORING_CONFIG)
+    expect(resolveScoringConfig(null)).toBe(DEFAULT_SCORING_CONFIG)
+    expect(scoringConfigSchema.safeParse({ weights: { unknown: 1 } }).success).toBe(false)
+  })
+})
+
+describe('ViolationDetector scoring', () => {
+  beforeEach(() => {
+    ;(referenceImageService.matchImages as jest.Mock).mockResolvedValue([])
+  })
+
+  it('returns the signal breakdown with the result', async () => {
+    const result = await new ViolationDetector(brandProfile).analyzeContent(leakPage)
+
+    expect(result).not.toBeNull()
+    const breakdown = result!.scoreBreakdown!
+    expect(result!.confidence).toBe(Math.round(breakdown.score))
+    expect(result!.riskLevel).toBe(breakdown.riskLevel)
+    expect(breakdown.signals.map(signal => signal.key)).toEqual([
+      'brandMentions', 'suspiciousTerms', 'suspiciousImages', 'referenceImages', 'pageContext', 'pageType'
+    ])
+    expect(breakdown.signals.find(signal => signal.key === 'brandMentions')!.details).toEqual(['Lara Vox', 'laravox'])
+    expect(breakdown.signals.find(signal => signal.key === 'suspiciousImages')!.rawValue).toBe(50)
+    expect(breakdown.signals.find(signal => signal.key === 'pageType')).toMatchObject({ rawValue: 100, details: ['leak'] })
+    const total = breakdown.signals.reduce((sum, signal) => sum + signal.contribution, 0)
+    expect(breakdown.score).toBeCloseTo(Math.min(100, total), 1)
+  })
+
+  it('applies the weights and thresholds configured on the brand profile', async () => {
+    const base = await new ViolationDetector(brandProfile).analyzeContent(leakPage)
+    const strict = await new ViolationDetector({
+      ...brandProfile,
+      scoringConfig: { weights: { brandMentions: 0.1 }, thresholds: { medium: 10, high: 20, critical: 30 }, minScore: 10 }
+    }).analyzeContent(leakPage)
+
+    expect(strict!.scoreBreakdown!.signals[0]).toMatchObject({ key: 'brandMentions', weight: 0.1 })
+    expect(strict!.confidence).toBeLessThan(base!.confidence)
+    expect(strict!.riskLevel).toBe('CRITICAL')
+
+    const unreachable = await new ViolationDetector({ ...brandProfile, scoringConfig: { minScore: 100 } }).analyzeContent(leakPage)
+    expect(unreachable).toBeNull()
+  })
+})
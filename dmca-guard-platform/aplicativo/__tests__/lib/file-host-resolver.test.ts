@@ -0,0 +1,247 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+
+import { FileHostResolver, PageFetcher } from '@/lib/file-host-resolver'
+import { DmcaContactDetector } from '@/lib/dmca-contact-detector'
+import { AbuseContactResolver } from '@/lib/abuse-contact-resolver'
+
+jest.mock('axios', () => ({
+  get: jest.fn().mockRejectedValue(new Error('blocked'))
+}))
+
+jest.mock('cheerio', () => ({
+  load: jest.fn()
+}))
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, '../fixtures/file-hosts', name), 'utf8')
+
+type Reply = { status?: number; location?: string; fixture?: string; body?: string }
+
+const makeFetcher = (replies: Record<string, Reply>) =>
+  jest.fn<ReturnType<PageFetcher>, Parameters<PageFetcher>>(async (request) => {
+    const reply = replies[request.url]
+    if (!reply) throw new Error(`unexpected request ${request.url}`)
+    return {
+      url: request.url,
+      status: reply.status ?? (reply.location ? 301 : 200),
+      location: reply.location ?? null,
+      body: reply.fixture ? fixture(reply.fixture) : reply.body ?? ''
+    }
+  })
+
+describe('FileHostResolver adapters', () => {
+  it('reads name and size from a MediaFire download page', async () => {
+    const url = 'https://www.mediafire.com/file/q8w3e5r7t9y1u2i/Curso_Completo_Modulo1.zip/file'
+    const resolver = new FileHostResolver({ fetchPage: makeFetcher({ [url]: { fixture: 'mediafire-file.html' } }) })
+
+    const result = await resolver.resolve(url)
+
+    expect(result).toMatchObject({
+      adapter: 'mediafire',
+      kind: 'file_host',
+      fileId: 'q8w3e5r7t9y1u2i',
+      fileName: 'Curso_Completo_Modulo1.zip',
+      sizeBytes: Math.round(12.5 * 1024 ** 2),
+      availability: 'AVAILABLE'
+    })
+    expect(result.contact?.email).toBe('abuse@mediafire.com')
+  })
+
+  it('treats the MediaFire copyright errno redirect as a DMCA removal', async () => {
+    const url = 'https://www.mediafire.com/file/q8w3e5r7t9y1u2i/file'
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({ [url]: { location: 'https://www.mediafire.com/error.php?errno=378&origin=download' } })
+    })
+
+    const result = await resolver.resolve(url)
+
+    expect(result.availability).toBe('REMOVED_DMCA')
+    expect(result.evidence[0]).toContain('errno=378')
+  })
+
+  it('reads KrakenFiles and Bunkr pages and recognises a removal notice', async () => {
+    const kraken = 'https://krakenfiles.com/view/Ab12Cd34Ef/file.html'
+    const bunkr = 'https://bunkr.si/f/video-vazado-01-Zx9'
+    const bunkrRemoved = 'https://bunkr.si/f/video-vazado-02-Zx8'
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({
+        [kraken]: { fixture: 'krakenfiles-file.html' },
+        [bunkr]: { fixture: 'bunkr-file.html' },
+        [bunkrRemoved]: { fixture: 'bunkr-removed.html' }
+      })
+    })
+
+    await expect(resolver.resolve(kraken)).resolves.toMatchObject({
+      fileId: 'Ab12Cd34Ef',
+      fileName: 'pack-exclusivo-2026.rar',
+      sizeBytes: Math.round(1.2 * 1024 ** 3),
+      availability: 'AVAILABLE'
+    })
+    await expect(resolver.resolve(bunkr)).resolves.toMatchObject({
+      fileName: 'video-vazado-01.mp4',
+      sizeBytes: Math.round(348.7 * 1024 ** 2),
+      availability: 'AVAILABLE'
+    })
+    await expect(resolver.resolve(bunkrRemoved)).resolves.toMatchObject({ availability: 'REMOVED_DMCA', fileName: null })
+  })
+
+  it('queries the MEGA, Pixeldrain and Gofile APIs instead of the JS pages', async () => {
+    const fetchPage = makeFetcher({
+      'https://g.api.mega.co.nz/cs?id=0': { fixture: 'mega-file.json' },
+      'https://pixeldrain.com/api/file/aB3dE5fG/info': { fixture: 'pixeldrain-info.json' },
+      'https://pixeldrain.com/api/file/zZ9yY8xX/info': { status: 403, fixture: 'pixeldrain-blocked.json' },
+      'https://api.gofile.io/contents/Gone11': { status: 404, fixture: 'gofile-notfound.json' }
+    })
+    const resolver = new FileHostResolver({ fetchPage })
+
+    await expect(resolver.resolve('https://mega.nz/file/Qw3rTy12#chave-do-link')).resolves.toMatchObject({
+      fileId: 'Qw3rTy12',
+      sizeBytes: 734003200,
+      availability: 'AVAILABLE'
+    })
+    expect(JSON.parse(fetchPage.mock.calls[0][0].init?.body as string)).toEqual([{ a: 'g', p: 'Qw3rTy12' }])
+
+    await expect(resolver.resolve('https://pixeldrain.com/u/aB3dE5fG')).resolves.toMatchObject({
+      fileName: 'colecao-completa.7z',
+      sizeBytes: 2147483648,
+      availability: 'AVAILABLE'
+    })
+    await expect(resolver.resolve('https://pixeldrain.com/u/zZ9yY8xX')).resolves.toMatchObject({ availability: 'REMOVED_DMCA' })
+    await expect(resolver.resolve('https://gofile.io/d/Gone11')).resolves.toMatchObject({ availability: 'REMOVED' })
+  })
+
+  it('maps the MEGA blocked code to a DMCA removal', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({ 'https://g.api.mega.co.nz/cs?id=0': { fixture: 'mega-blocked.json' } })
+    })
+
+    const result = await resolver.resolve('https://mega.nz/file/Qw3rTy12#chave-do-link')
+
+    expect(result.availability).toBe('REMOVED_DMCA')
+    expect(result.contact?.email).toBe('copyright@mega.nz')
+  })
+
+  it('does not trust API responses in an unexpected shape', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({
+        'https://g.api.mega.co.nz/cs?id=0': { body: '[{"s":"734003200"}]' },
+        'https://api.gofile.io/contents/Xy7Qp2': { body: '{"status":"ok","data":{"type":"folder","children":[1,2]}}' }
+      })
+    })
+
+    await expect(resolver.resolve('https://mega.nz/file/Qw3rTy12#chave-do-link')).resolves.toMatchObject({
+      availability: 'UNKNOWN',
+      sizeBytes: null
+    })
+    await expect(resolver.resolve('https://gofile.io/d/Xy7Qp2')).resolves.toMatchObject({ availability: 'UNKNOWN' })
+  })
+
+  it('returns UNKNOWN with evidence when the host cannot be reached', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: jest.fn().mockRejectedValue(new Error('ETIMEDOUT'))
+    })
+
+    const result = await resolver.resolve('https://krakenfiles.com/view/Ab12Cd34Ef/file.html')
+
+    expect(result.availability).toBe('UNKNOWN')
+    expect(result.evidence[0]).toContain('ETIMEDOUT')
+  })
+})
+
+describe('FileHostResolver shorteners', () => {
+  it('follows a shortener chain down to the file host', async () => {
+    const fetchPage = makeFetcher({
+      'https://bit.ly/3xLeak': { location: 'https://sh.st/Zq81' },
+      'https://sh.st/Zq81': { fixture: 'shortest-interstitial.html' },
+      'https://api.gofile.io/contents/Xy7Qp2': { fixture: 'gofile-folder.json' }
+    })
+    const resolver = new FileHostResolver({ fetchPage })
+
+    const result = await resolver.resolve('https://bit.ly/3xLeak')
+
+    expect(result.chain).toEqual(['https://bit.ly/3xLeak', 'https://sh.st/Zq81'])
+    expect(result).toMatchObject({
+      finalUrl: 'https://gofile.io/d/Xy7Qp2',
+      adapter: 'gofile',
+      fileName: 'pack-fotos.zip',
+      sizeBytes: 524288000,
+      availability: 'AVAILABLE'
+    })
+  })
+
+  it('decodes targets carried in the link without fetching the shortener', async () => {
+    const fetchPage = makeFetcher({})
+    const resolver = new FileHostResolver({ fetchPage })
+    const target = 'https://www.mediafire.com/file/q8w3e5r7t9y1u2i/Curso_Completo_Modulo1.zip/file'
+
+    const viaOuo = await resolver.followShorteners(`https://ouo.io/qs/Ab3dE?s=${encodeURIComponent(target)}`)
+    const viaLinkvertise = await resolver.followShorteners(
+      `https://linkvertise.com/123456/dynamic?r=${Buffer.from(target).toString('base64')}`
+    )
+
+    expect(viaOuo.finalUrl).toBe(target)
+    expect(viaLinkvertise.finalUrl).toBe(target)
+    expect(fetchPage).not.toHaveBeenCalled()
+  })
+
+  it('reads meta refresh targets and stops at captcha-protected pages', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({
+        'https://tinyurl.com/curso-leak': { fixture: 'shortener-meta-refresh.html' },
+        'https://ouo.io/Ab3dE': { fixture: 'ouo-captcha.html' }
+      })
+    })
+
+    const refreshed = await resolver.followShorteners('https://tinyurl.com/curso-leak')
+    const captcha = await resolver.resolve('https://ouo.io/Ab3dE')
+
+    expect(refreshed.finalUrl).toBe('https://www.mediafire.com/file/q8w3e5r7t9y1u2i/Curso_Completo_Modulo1.zip/file')
+    expect(captcha).toMatchObject({ finalUrl: 'https://ouo.io/Ab3dE', kind: 'shortener', availability: 'UNKNOWN' })
+    expect(captcha.contact?.email).toBe('abuse@ouo.io')
+  })
+
+  it('reports a shortener disabled for abuse as removed', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({ 'https://bit.ly/3xLeak': { location: 'https://bitly.com/a/warning?hash=3xLeak' } })
+    })
+
+    await expect(resolver.resolve('https://bit.ly/3xLeak')).resolves.toMatchObject({
+      availability: 'REMOVED_DMCA',
+      chain: []
+    })
+  })
+})
+
+describe('DmcaContactDetector file host contacts', () => {
+  const abuseResolver = new AbuseContactResolver({
+    fetcher: jest.fn().mockResolvedValue(null),
+    dns: { resolve4: jest.fn().mockRejectedValue(new Error('ENOTFOUND')), resolveTxt: jest.fn() }
+  })
+
+  it('uses the registry contact of the host behind a shortener', async () => {
+    const resolver = new FileHostResolver({
+      fetchPage: makeFetcher({ 'https://bit.ly/3xLeak': { location: 'https://pixeldrain.com/u/aB3dE5fG' } })
+    })
+    const detector = new DmcaContactDetector(abuseResolver, resolver)
+
+    const contact = await detector.findDmcaContact('https://bit.ly/3xLeak')
+
+    expect(contact).toMatchObject({
+      email: 'abuse@pixeldrain.com',
+      contactPage: 'https://pixeldrain.com/abuse',
+      detectedMethod: 'File host registry: pixeldrain (via bit.ly)',
+      confidence: 90
+    })
+  })
+
+  it('falls back to the page scan when the host publishes no contact', async () => {
+    const fetchPage = jest.fn()
+    const detector = new DmcaContactDetector(abuseResolver, new FileHostResolver({ fetchPage }))
+
+    const contact = await detector.findDmcaContact('https://bunkr.si/f/video-vazado-01-Zx9')
+
+    expect(contact.detectedMethod).not.toContain('File host registry')
+    expect(fetchPage).not.toHaveBeenCalled()
+  })
+})
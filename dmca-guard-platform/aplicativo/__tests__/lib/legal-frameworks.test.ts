@@ -0,0 +1,88 @@
+import { renderTemplate } from '@/lib/dmca-template-engine'
+import {
+  LEGAL_FRAMEWORKS,
+  countryFromHostname,
+  detectJurisdiction,
+  validateNoticeFields,
+  validateTemplateForFramework
+} from '@/lib/legal-frameworks'
+import { JurisdictionService } from '@/lib/services/jurisdiction.service'
+
+const fields = {
+  senderName: 'Maria Silva',
+  senderEmail: 'maria@example.com',
+  workDescription: 'Curso de Fotografia',
+  infringingUrls: ['https://pirate.example/curso'],
+  explanation: 'Reprodução integral do curso sem autorização do titular.'
+}
+
+describe('jurisdiction detection', () => {
+  it('should map ccTLDs to countries', () => {
+    expect(countryFromHostname('www.site.com.br')).toBe('BR')
+    expect(countryFromHostname('files.example.co.uk')).toBe('GB')
+    expect(countryFromHostname('shop.eu')).toBe('EU')
+    expect(countryFromHostname('pirate.com')).toBeNull()
+  })
+
+  it('should prefer the manual choice, then the ccTLD, then the hosting country', () => {
+    expect(detectJurisdiction('https://site.de/x', { override: 'UK_ECOMMERCE' }))
+      .toEqual({ framework: 'UK_ECOMMERCE', country: 'DE', source: 'MANUAL' })
+    expect(detectJurisdiction('https://site.com.br/x', { hostingCountry: 'US' }))
+      .toEqual({ framework: 'BR_MARCO_CIVIL', country: 'BR', source: 'TLD' })
+    expect(detectJurisdiction('https://pirate.com/x', { hostingCountry: 'nl' }))
+      .toEqual({ framework: 'EU_DSA', country: 'NL', source: 'HOSTING_COUNTRY' })
+    expect(detectJurisdiction('https://pirate.tv/x', { hostingCountry: 'RU' }))
+      .toEqual({ framework: 'US_DMCA', country: 'TV', source: 'DEFAULT' })
+  })
+
+  it('should only query RDAP when the TLD does not decide', async () => {
+    const resolver = { resolve: jest.fn().mockResolvedValue({ hostingCountry: 'FR' }) }
+    const service = new JurisdictionService(resolver as any)
+
+    await expect(service.detect('https://site.fr/x')).resolves.toMatchObject({ framework: 'EU_DSA', source: 'TLD' })
+    expect(resolver.resolve).not.toHaveBeenCalled()
+
+    await expect(service.detect('https://pirate.com/x')).resolves.toMatchObject({ framework: 'EU_DSA', country: 'FR' })
+    expect(resolver.resolve).toHaveBeenCalledWith('https://pirate.com/x')
+  })
+})
+
+describe('mandatory notice fields', () => {
+  it('should require an explanation for DSA notices and an address for UK notices', () => {
+    expect(validateNoticeFields('US_DMCA', 'DMCA', { ...fields, explanation: null }).valid).toBe(true)
+    expect(validateNoticeFields('EU_DSA', 'DMCA', { ...fields, explanation: ' ' }).missing).toEqual(['explanation'])
+    expect(validateNoticeFields('UK_ECOMMERCE', 'DMCA', fields).missing).toEqual(['senderAddress'])
+  })
+
+  it('should require the depicted person and standing for Marco Civil art. 21 notices', () => {
+    const result = validateNoticeFields('BR_MARCO_CIVIL', 'PRIVACY_VIOLATION', fields)
+
+    expect(result.missing).toEqual(['affectedPersonName', 'requesterRole'])
+    expect(result.errors[0]).toBe('Nome da pessoa retratada é obrigatório(a) em Marco Civil da Internet (Brasil)')
+  })
+
+  it('should accept every built-in notice for its own framework', () => {
+    for (const framework of Object.values(LEGAL_FRAMEWORKS)) {
+      for (const notice of Object.values(framework.notices)) {
+        expect(validateTemplateForFramework(framework.id, 'DMCA', notice.subject, notice.body)).toEqual([])
+      }
+    }
+    const marcoCivil = LEGAL_FRAMEWORKS.BR_MARCO_CIVIL.notices.pt
+    expect(validateTemplateForFramework('BR_MARCO_CIVIL', 'PRIVACY_VIOLATION', marcoCivil.subject, marcoCivil.body)).toEqual([])
+  })
+
+  it('should switch the Marco Civil notice to art. 21 for intimate content', () => {
+    const { subject, body } = LEGAL_FRAMEWORKS.BR_MARCO_CIVIL.notices.pt
+    const context = {
+      userName: 'Ana Souza',
+      userEmail: 'ana@example.com',
+      infringingUrlList: '- https://pirate.example/video',
+      affectedPersonName: 'Ana Souza',
+      requesterRole: 'pessoa retratada no material'
+    }
+
+    expect(renderTemplate(subject, context)).toContain('art. 21 da Lei 12.965/2014')
+    expect(renderTemplate(body, context)).toContain('Pessoa retratada: Ana Souza')
+    expect(renderTemplate(body, { ...context, affectedPersonName: '' })).toContain('Lei 9.610/1998')
+  })
+})
@@ -0,0 +1,173 @@
+import { MonitoringScanScheduler, planScheduledRun, getEffectiveScanFrequency } from '@/lib/scheduler/monitoring-scan-scheduler'
+import { prisma } from '@/lib/prisma'
+import { fairQueueManager } from '@/lib/services/security/fair-queue-manager'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    monitoringSession: {
+      findMany: jest.fn(),
+      updateMany: jest.fn()
+    },
+    knownSite: {
+      findMany: jest.fn()
+    },
+    agentEvent: {
+      create: jest.fn()
+    },
+    agentMetric: {
+      create: jest.fn()
+    }
+  }
+}))
+
+jest.mock('@/lib/services/security/fair-queue-manager', () => ({
+  fairQueueManager: {
+    enqueueScan: jest.fn()
+  }
+}))
+
+const HOUR = 60 * 60 * 1000
+
+describe('planScheduledRun', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+
+  it('should enqueue a due idle session and advance nextScanAt by its frequency', () => {
+    const decision = planScheduledRun({
+      status: 'IDLE',
+      scanFrequency: 24,
+      lastScanAt: new Date(now.getTime() - 25 * HOUR),
+      nextScanAt: new Date(now.getTime() - HOUR)
+    }, 'BASIC', now)
+
+    expect(decision.action).toBe('ENQUEUE')
+    expect(decision.missedRuns).toBe(0)
+    expect(decision.nextScanAt.getTime()).toBe(now.getTime() + 24 * HOUR)
+  })
+
+  it('should raise the frequency to the plan minimum', () => {
+    expect(getEffectiveScanFrequency(2, 'BASIC')).toBe(24)
+    expect(getEffectiveScanFrequency(2, 'PREMIUM')).toBe(2)
+    expect(getEffectiveScanFrequency(24, 'FREE')).toBe(168)
+
+    const decision = planScheduledRun({
+      status: 'IDLE',
+      scanFrequency: 2,
+      lastScanAt: new Date(now.getTime() - 3 * HOUR),
+      nextScanAt: new Date(now.getTime() - HOUR)
+    }, 'BASIC', now)
+
+    expect(decision.action).toBe('SKIP')
+    expect(decision.reason).toBe('PLAN_MIN_FREQUENCY')
+    expect(decision.nextScanAt.getTime()).toBe(now.getTime() + 21 * HOUR)
+  })
+
+  it('should count missed runs when the session is overdue by several periods', () => {
+    const decision = planScheduledRun({
+      status: 'IDLE',
+      scanFrequency: 24,
+      lastScanAt: null,
+      nextScanAt: new Date(now.getTime() - 3 * 24 * HOUR - HOUR)
+    }, 'BASIC', now)
+
+    expect(decision.action).toBe('ENQUEUE')
+    expect(decision.missedRuns).toBe(3)
+  })
+
+  it('should skip sessions that are already running', () => {
+    const decision = planScheduledRun({
+      status: 'RUNNING',
+      scanFrequency: 24,
+      lastScanAt: null,
+      nextScanAt: now
+    }, 'BASIC', now)
+
+    expect(decision.action).toBe('SKIP')
+    expect(decision.reason).toBe('ALREADY_RUNNING')
+  })
+})
+
+describe('MonitoringScanScheduler.runDueScans', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  let scheduler: MonitoringScanScheduler
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    scheduler = new MonitoringScanScheduler()
+    ;(prisma.knownSite.findMany as jest.Mock).mockResolvedValue([{ id: 'site-1' }])
+    ;(prisma.monitoringSession.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(fairQueueManager.enqueueScan as jest.Mock).mockResolvedValue({ status: 'PROCESSING' })
+  })
+
+  it('should enqueue due sessions through the fair queue', async () => {
+    ;(prisma.monitoringSession.findMany as jest.Mock).mockResolvedValue([{
+      id: 'session-1',
+      userId: 'user-1',
+      brandProfileId: 'brand-1',
+      status: 'IDLE',
+      scanFrequency: 24,
+      lastScanAt: null,
+      nextScanAt: new Date(now.getTime() - HOUR),
+      user: { planType: 'BASIC' }
+    }])
+
+    const result = await scheduler.runDueScans(now)
+
+    expect(result.enqueued).toBe(1)
+    expect(fairQueueManager.enqueueScan).toHaveBeenCalledWith({
+      userId: 'user-1',
+      userPlan: 'BASIC',
+      siteIds: ['site-1'],
+      metadata: {
+        brandProfileId: 'brand-1',
+        monitoringSessionId: 'session-1',
+        source: 'scheduler'
+      }
+    })
+    expect(prisma.monitoringSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', nextScanAt: new Date(now.getTime() - HOUR) },
+      data: { nextScanAt: new Date(now.getTime() + 24 * HOUR), lastScanAt: now }
+    })
+  })
+
+  it('should not enqueue a session claimed by another instance', async () => {
+    ;(prisma.monitoringSession.findMany as jest.Mock).mockResolvedValue([{
+      id: 'session-1',
+      userId: 'user-1',
+      brandProfileId: 'brand-1',
+      status: 'IDLE',
+      scanFrequency: 24,
+      lastScanAt: null,
+      nextScanAt: new Date(now.getTime() - HOUR),
+      user: { planType: 'BASIC' }
+    }])
+    ;(prisma.monitoringSession.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+
+    const result = await scheduler.runDueScans(now)
+
+    expect(result.enqueued).toBe(0)
+    expect(fairQueueManager.enqueueScan).not.toHaveBeenCalled()
+  })
+
+  it('should record skipped runs', async () => {
+    ;(prisma.monitoringSession.findMany as jest.Mock).mockResolvedValue([{
+      id: 'session-1',
+      userId: 'user-1',
+      brandProfileId: 'brand-1',
+      status: 'RUNNING',
+      scanFrequency: 24,
+      lastScanAt: null,
+      nextScanAt: new Date(now.getTime() - HOUR),
+      user: { planType: 'BASIC' }
+    }])
+
+    const result = await scheduler.runDueScans(now)
+
+    expect(result.skipped).toBe(1)
+    expect(prisma.agentEvent.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        type: 'SCHEDULED_SCAN_SKIPPED',
+        sessionId: 'session-1'
+      })
+    }))
+  })
+})
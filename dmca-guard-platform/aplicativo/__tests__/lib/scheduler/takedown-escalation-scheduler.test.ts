@@ -0,0 +1,209 @@
+import {
+  TakedownEscalationScheduler,
+  planEscalationStep,
+  DEFAULT_ESCALATION_POLICY,
+  EscalationContactResolver
+} from '@/lib/scheduler/takedown-escalation-scheduler'
+import { prisma } from '@/lib/prisma'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    takedownRequest: {
+      findMany: jest.fn(),
+      updateMany: jest.fn()
+    },
+    notification: {
+      create: jest.fn()
+    },
+    takedownEmailMessage: {
+      upsert: jest.fn()
+    },
+    agentMetric: {
+      create: jest.fn()
+    }
+  }
+}))
+
+jest.mock('@/lib/services/takedown-mailer', () => ({
+  sendTakedownEmail: jest.fn()
+}))
+
+jest.mock('@/lib/services/takedown-timeline.service', () => ({
+  recordTimelineEvent: jest.fn()
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('planEscalationStep', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const baseState = {
+    status: 'SENT',
+    sentAt: new Date(now.getTime() - 3 * DAY),
+    escalationTier: 0,
+    tierContactedAt: null,
+    followUpSentAt: null,
+    escalationStoppedAt: null
+  }
+
+  it('should wait until the follow-up delay has passed', () => {
+    expect(planEscalationStep(baseState, DEFAULT_ESCALATION_POLICY, now).action).toBe('NONE')
+  })
+
+  it('should send a single follow-up after N days', () => {
+    const state = { ...baseState, sentAt: new Date(now.getTime() - 8 * DAY) }
+
+    expect(planEscalationStep(state, DEFAULT_ESCALATION_POLICY, now).action).toBe('FOLLOW_UP')
+    expect(planEscalationStep(
+      { ...state, followUpSentAt: new Date(now.getTime() - DAY) },
+      DEFAULT_ESCALATION_POLICY,
+      now
+    ).action).toBe('NONE')
+  })
+
+  it('should escalate after M days since the current tier was contacted', () => {
+    const state = {
+      ...baseState,
+      sentAt: new Date(now.getTime() - 30 * DAY),
+      escalationTier: 1,
+      tierContactedAt: new Date(now.getTime() - 15 * DAY),
+      followUpSentAt: new Date(now.getTime() - 7 * DAY)
+    }
+
+    expect(planEscalationStep(state, DEFAULT_ESCALATION_POLICY, now).action).toBe('ESCALATE')
+  })
+
+  it('should report an exhausted chain after the registrar tier', () => {
+    const state = {
+      ...baseState,
+      escalationTier: 3,
+      tierContactedAt: new Date(now.getTime() - 15 * DAY)
+    }
+
+    expect(planEscalationStep(state, DEFAULT_ESCALATION_POLICY, now).action).toBe('EXHAUSTED')
+  })
+
+  it('should ignore acknowledged or stopped takedowns', () => {
+    const overdue = { ...baseState, sentAt: new Date(now.getTime() - 20 * DAY) }
+
+    expect(planEscalationStep({ ...overdue, status: 'ACKNOWLEDGED' }, DEFAULT_ESCALATION_POLICY, now).action).toBe('NONE')
+    expect(planEscalationStep({ ...overdue, escalationStoppedAt: now }, DEFAULT_ESCALATION_POLICY, now).action).toBe('NONE')
+  })
+})
+
+describe('TakedownEscalationScheduler.runEscalations', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const sendEmail = jest.fn()
+  const resolver: EscalationContactResolver = {
+    findHostingAbuseContacts: jest.fn().mockResolvedValue(['abuse@host.example']),
+    findRegistrarAbuseContacts: jest.fn().mockResolvedValue([])
+  }
+
+  const makeTakedown = (overrides: Record<string, any> = {}) => ({
+    id: 'takedown-1',
+    userId: 'user-1',
+    status: 'SENT',
+    subject: 'DMCA Takedown Notice',
+    message: '<p>notice</p>',
+    trackingToken: 'DG-TEST2345',
+    user: { email: 'owner@example.com' },
+    sentAt: new Date(now.getTime() - 8 * DAY),
+    escalationTier: 0,
+    tierContactedAt: new Date(now.getTime() - 8 * DAY),
+    followUpSentAt: null,
+    escalationStoppedAt: null,
+    detectedContent: {
+      title: 'Leaked set',
+      infringingUrl: 'https://www.pirate.example/post/1',
+      dmcaContactInfo: {
+        email: 'dmca@pirate.example',
+        additionalEmails: ['DMCA@pirate.example', 'legal@pirate.example']
+      }
+    },
+    ...overrides
+  })
+
+  let scheduler: TakedownEscalationScheduler
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    sendEmail.mockResolvedValue({ id: 'email-1' })
+    ;(prisma.takedownRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    scheduler = new TakedownEscalationScheduler(DEFAULT_ESCALATION_POLICY, resolver, sendEmail)
+  })
+
+  it('should send a follow-up to the current tier and record it on the timeline', async () => {
+    ;(prisma.takedownRequest.findMany as jest.Mock).mockResolvedValue([makeTakedown()])
+
+    const result = await scheduler.runEscalations(now)
+
+    expect(result.followUps).toBe(1)
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['dmca@pirate.example'],
+      subject: 'Follow-up: DMCA Takedown Notice [Ref: DG-TEST2345]',
+      replyTo: 'owner@example.com',
+      category: 'TAKEDOWN_FOLLOW_UP',
+      takedownRequestId: 'takedown-1',
+      headers: { 'Message-ID': expect.stringMatching(/^<takedown\.takedown-1\..+>$/) }
+    }), undefined)
+    expect(prisma.takedownEmailMessage.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ takedownRequestId: 'takedown-1', direction: 'OUTBOUND' })
+    }))
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'FOLLOW_UP_SENT', expect.objectContaining({
+      tier: 0,
+      recipients: ['dmca@pirate.example']
+    }))
+  })
+
+  it('should escalate to additional emails without repeating the primary contact', async () => {
+    ;(prisma.takedownRequest.findMany as jest.Mock).mockResolvedValue([makeTakedown({
+      tierContactedAt: new Date(now.getTime() - 15 * DAY),
+      followUpSentAt: new Date(now.getTime() - 7 * DAY)
+    })])
+
+    const result = await scheduler.runEscalations(now)
+
+    expect(result.escalations).toBe(1)
+    expect(prisma.takedownRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'takedown-1', escalationTier: 0, escalationStoppedAt: null },
+      data: { escalationTier: 1, tierContactedAt: now, followUpSentAt: null }
+    })
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: ['legal@pirate.example'] }), undefined)
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'ESCALATED', expect.objectContaining({ tier: 1 }))
+  })
+
+  it('should skip tiers without contacts and stop after the registrar', async () => {
+    ;(prisma.takedownRequest.findMany as jest.Mock).mockResolvedValue([makeTakedown({
+      escalationTier: 2,
+      tierContactedAt: new Date(now.getTime() - 15 * DAY)
+    })])
+
+    const result = await scheduler.runEscalations(now)
+
+    expect(result.exhausted).toBe(1)
+    expect(sendEmail).not.toHaveBeenCalled()
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'TIER_SKIPPED', expect.objectContaining({ tier: 3 }))
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'ESCALATION_EXHAUSTED', expect.anything())
+  })
+
+  it('should roll back the escalation when the email fails', async () => {
+    sendEmail.mockRejectedValue(new Error('smtp down'))
+    const takedown = makeTakedown({
+      escalationTier: 1,
+      tierContactedAt: new Date(now.getTime() - 15 * DAY)
+    })
+    ;(prisma.takedownRequest.findMany as jest.Mock).mockResolvedValue([takedown])
+
+    const result = await scheduler.runEscalations(now)
+
+    expect(result.sendFailures).toBe(1)
+    expect(prisma.takedownRequest.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'takedown-1', escalationTier: 2, tierContactedAt: now },
+      data: { escalationTier: 1, tierContactedAt: takedown.tierContactedAt, followUpSentAt: null }
+    })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'SEND_FAILED', expect.objectContaining({
+      tier: 2,
+      recipients: ['abuse@host.example']
+    }))
+  })
+})
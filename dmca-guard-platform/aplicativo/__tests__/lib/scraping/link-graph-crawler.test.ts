@@ -0,0 +1,148 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    detectedContent: { findMany: jest.fn(), findFirst: jest.fn(), create: jest.fn(), update: jest.fn() }
+  }
+}))
+jest.mock('@/lib/extraction/content-extractor', () => ({ ContentExtractor: jest.fn() }))
+jest.mock('@/lib/scraping/smart-scraper', () => ({ SmartScraper: jest.fn() }))
+jest.mock('@/lib/services/content-fingerprint.service', () => ({ contentFingerprintService: { enqueueCapture: jest.fn() } }))
+jest.mock('@/lib/services/content-cluster.service', () => ({ contentClusterService: { enqueueFingerprint: jest.fn() } }))
+jest.mock('@/lib/services/confidence-calibration.service', () => ({ confidenceCalibrationService: { enqueueCalibration: jest.fn() } }))
+
+import { prisma } from '@/lib/prisma'
+import { contentClusterService } from '@/lib/services/content-cluster.service'
+import { classifyLink, LinkGraphCrawler } from '@/lib/scraping/link-graph-crawler'
+
+const seed = {
+  id: 'seed',
+  userId: 'user-1',
+  brandProfileId: 'bp1',
+  monitoringSessionId: 'ms1',
+  infringingUrl: 'https://forum.leaks.to/threads/lara-vox-pack.1/',
+  confidence: 80
+}
+
+// Tópico do fórum com file hosts, encurtadores e um espelho que leva a outro espelho
+const pages: Record<string, { title: string; bodyText: string; links: string[] }> = {
+  [seed.infringingUrl]: {
+    title: 'Lara Vox pack',
+    bodyText: 'download lara vox pack',
+    links: [
+      'https://forum.leaks.to/threads/other.2/',
+      'https://mega.nz/file/abc#key',
+      'https://mega.nz/file/known',
+      'https://bit.ly/xyz',
+      'https://ouo.io/gate',
+      'https://mirror.example/lara-vox-pack',
+      'https://blocked.example/laravox',
+      'https://news.example/article'
+    ]
+  },
+  'https://mirror.example/lara-vox-pack': {
+    title: 'Lara Vox pack mirror',
+    bodyText: 'mirror of the lara vox pack',
+    links: ['https://pixeldrain.com/u/xyz', 'https://deeper.example/lara-vox-2']
+  },
+  'https://deeper.example/lara-vox-2': {
+    title: 'Lara Vox part 2',
+    bodyText: 'lara vox',
+    links: ['https://www.mediafire.com/file/zzz']
+  }
+}
+
+function crawler(unreachable: string[] = []) {
+  return new LinkGraphCrawler({
+    extractor: {
+      extractContent: jest.fn(async (url: string) => {
+        if (unreachable.includes(url)) throw new Error(`ECONNRESET ${url}`)
+        return {
+          url,
+          description: '',
+          images: [],
+          metadata: {},
+          ...(pages[url] ?? { title: '', bodyText: '', links: [] })
+        }
+      })
+    },
+    scraper: { checkRobotsPermission: jest.fn(async (url: string) => !url.includes('blocked')) },
+    resolveRedirect: jest.fn(async (url: string) => (url === 'https://bit.ly/xyz' ? 'https://gofile.io/d/Qw12' : null))
+  })
+}
+
+describe('classifyLink', () => {
+  it('recognises file hosts and shorteners by host', () => {
+    expect(classifyLink('https://www.mediafire.com/file/zzz')).toEqual({ kind: 'file_host', host: 'mediafire' })
+    expect(classifyLink('https://bunkrr.su/a/xyz')).toEqual({ kind: 'file_host', host: 'bunkr' })
+    expect(classifyLink('https://ouo.press/abc')).toEqual({ kind: 'shortener', host: 'ouo' })
+    expect(classifyLink('https://notmega.nz.example/x')).toEqual({ kind: 'page' })
+  })
+})
+
+describe('LinkGraphCrawler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    let created = 0
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([seed])
+    ;(prisma.detectedContent.findFirst as jest.Mock).mockImplementation(async ({ where }) =>
+      where.infringingUrl === 'https://mega.nz/file/known' ? { id: 'existing' } : null
+    )
+    ;(prisma.detectedContent.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: `child-${++created}`,
+      userId: data.userId,
+      brandProfileId: data.brandProfileId,
+      monitoringSessionId: data.monitoringSessionId,
+      infringingUrl: data.infringingUrl,
+      confidence: data.confidence
+    }))
+  })
+
+  it('follows confirmed pages to file hosts and mirrors up to the configured depth', async () => {
+    const result = await crawler().crawlFromConfirmed('user-1', 'bp1', { name: 'Lara Vox' }, { maxDepth: 2, delayMs: 0 })
+
+    expect(result.children.map(({ url, kind, parentContentId, depth }) => ({ url, kind, parentContentId, depth }))).toEqual([
+      { url: 'https://mega.nz/file/abc#key', kind: 'file_host', parentContentId: 'seed', depth: 1 },
+      { url: 'https://gofile.io/d/Qw12', kind: 'file_host', parentContentId: 'seed', depth: 1 },
+      { url: 'https://ouo.io/gate', kind: 'shortener', parentContentId: 'seed', depth: 1 },
+      { url: 'https://mirror.example/lara-vox-pack', kind: 'mirror', parentContentId: 'seed', depth: 1 },
+      { url: 'https://pixeldrain.com/u/xyz', kind: 'file_host', parentContentId: 'child-4', depth: 2 },
+      { url: 'https://deeper.example/lara-vox-2', kind: 'mirror', parentContentId: 'child-4', depth: 2 }
+    ])
+    expect(result).toMatchObject({ seeds: 1, pagesVisited: 3, blockedByRobots: 1, shortenersResolved: 1, childrenCreated: 6 })
+
+    expect(prisma.detectedContent.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        infringingUrl: 'https://gofile.io/d/Qw12',
+        platform: 'gofile',
+        monitoringSessionId: 'ms1',
+        parentContentId: 'seed',
+        linkKind: 'file_host',
+        confidence: 80,
+        description: `Link encontrado em ${seed.infringingUrl} via https://bit.ly/xyz`
+      })
+    }))
+    expect(contentClusterService.enqueueFingerprint).toHaveBeenCalledTimes(2)
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({ where: { id: 'seed' }, data: { linksCrawledAt: expect.any(Date) } })
+  })
+
+  it('keeps to the domain budget but still records the file host links it found', async () => {
+    const result = await crawler().crawlFromConfirmed('user-1', 'bp1', { name: 'Lara Vox' }, { maxDomains: 1, delayMs: 0 })
+
+    expect(result.domainsVisited).toBe(1)
+    expect(result.skippedByBudget).toBe(1)
+    expect(result.children.map(child => child.kind)).toEqual(['file_host', 'file_host', 'shortener'])
+  })
+
+  it('keeps following the other links when one page fails to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await crawler(['https://mirror.example/lara-vox-pack'])
+      .crawlFromConfirmed('user-1', 'bp1', { name: 'Lara Vox' }, { maxDepth: 2, delayMs: 0 })
+
+    expect(result.children.map(child => child.url)).toEqual([
+      'https://mega.nz/file/abc#key',
+      'https://gofile.io/d/Qw12',
+      'https://ouo.io/gate'
+    ])
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({ where: { id: 'seed' }, data: { linksCrawledAt: expect.any(Date) } })
+  })
+})
@@ -0,0 +1,159 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    brandProfile: { findFirst: jest.fn() },
+    detectedContent: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    calibrationModel: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}))
+
+import { prisma } from '@/lib/prisma'
+import { LabeledSample, trainCalibrationModel, withRunningHistory } from '@/lib/learning/confidence-calibration'
+import { ConfidenceCalibrationService } from '@/lib/services/confidence-calibration.service'
+
+// Páginas de leak em um domínio, fan art com o nome da marca em outro; o detector dá confiança alta às duas
+function reviewedDetections(count: number) {
+  return Array.from({ length: count }, (_, index) => {
+    const leak = index % 2 === 0
+    return {
+      id: `c${index}`,
+      userId: 'user-1',
+      brandProfileId: 'bp1',
+      infringingUrl: leak ? `https://leaks.example/post/${index}` : `https://fanart.example/art/${index}`,
+      confidence: 60 + (index % 7) * 5,
+      rawConfidence: null,
+      similarity: null,
+      faceMatchConfidence: null,
+      imagesFound: leak ? ['https://leaks.example/a.jpg'] : [],
+      platform: 'website',
+      contentType: 'OTHER',
+      keywordSource: leak ? 'lara vox leak' : 'lara vox',
+      detectedAt: new Date(Date.UTC(2026, 0, 1) + index * 3600_000),
+      status: leak ? 'DMCA_SENT' : 'FALSE_POSITIVE',
+      isConfirmed: leak
+    }
+  })
+}
+
+function labeled(rows: ReturnType<typeof reviewedDetections>): LabeledSample[] {
+  return rows.map(row => ({
+    id: row.id,
+    url: row.infringingUrl,
+    confidence: row.confidence,
+    similarity: null,
+    faceMatchConfidence: null,
+    imageCount: row.imagesFound.length,
+    platform: row.platform,
+    contentType: row.contentType,
+    keywordSource: row.keywordSource,
+    detectedAt: row.detectedAt,
+    label: row.status === 'FALSE_POSITIVE' ? 0 : 1
+  }))
+}
+
+describe('trainCalibrationModel', () => {
+  it('learns from reviewer decisions and beats the raw confidence on the held-out set', () => {
+    const trained = trainCalibrationModel(labeled(reviewedDetections(60)))
+
+    expect(trained.trainingSize).toBe(48)
+    expect(trained.holdoutSize).toBe(12)
+    expect(trained.features).toEqual(expect.arrayContaining(['confidence', 'domainConfirmRate', 'platform:website', 'contentType:OTHER']))
+    expect(trained.weights).toHaveLength(trained.features.length)
+    expect(trained.metrics.baseline).toMatchObject({ precision: 0.5, recall: 1 })
+    expect(trained.metrics.model.precision).toBe(1)
+    expect(trained.metrics.model.recall).toBe(1)
+  })
+
+  it('builds each sample history from earlier decisions only', () => {
+    const history = withRunningHistory(labeled(reviewedDetections(6)))
+
+    expect(history[0].history.domain).toEqual({ confirmed: 0, dismissed: 0 })
+    expect(history[4].history.domain).toEqual({ confirmed: 2, dismissed: 0 })
+    expect(history[5].history.keyword).toEqual({ confirmed: 0, dismissed: 2 })
+  })
+})
+
+describe('ConfidenceCalibrationService', () => {
+  const service = new ConfidenceCalibrationService()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.$transaction as jest.Mock).mockImplementation(async (arg) =>
+      typeof arg === 'function' ? arg(prisma) : Promise.all(arg)
+    )
+    ;(prisma.calibrationModel.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'model-new', createdAt: new Date(), ...data }))
+  })
+
+  it('refuses to train without enough reviewed detections of both kinds', async () => {
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue(
+      reviewedDetections(40).filter(row => row.status !== 'FALSE_POSITIVE')
+    )
+
+    await expect(service.train('user-1')).rejects.toMatchObject({ name: 'CalibrationError', status: 422 })
+    expect(prisma.calibrationModel.create).not.toHaveBeenCalled()
+  })
+
+  it('stores a new active version and keeps the previous one for rollback', async () => {
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue(reviewedDetections(60))
+    ;(prisma.calibrationModel.findFirst as jest.Mock).mockResolvedValue({ version: 2 })
+
+    const model = await service.train('user-1')
+
+    expect(prisma.calibrationModel.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', brandProfileId: null, isActive: true },
+      data: { isActive: false }
+    })
+    expect(model).toMatchObject({ userId: 'user-1', brandProfileId: null, version: 3, isActive: true, trainingSize: 48, holdoutSize: 12 })
+    expect(model.metrics).toMatchObject({ model: { precision: 1, recall: 1 } })
+  })
+
+  it('rolls back to the version before the active one', async () => {
+    ;(prisma.calibrationModel.findFirst as jest.Mock)
+      .mockResolvedValueOnce({ id: 'model-3', version: 3, isActive: true })
+      .mockResolvedValueOnce({ id: 'model-2', version: 2, isActive: false })
+    ;(prisma.calibrationModel.update as jest.Mock).mockResolvedValue({ id: 'model-2', version: 2, isActive: true })
+
+    const restored = await service.rollback('user-1')
+
+    expect(prisma.calibrationModel.findFirst).toHaveBeenLastCalledWith({
+      where: { userId: 'user-1', brandProfileId: null, version: { lt: 3 } },
+      orderBy: { version: 'desc' }
+    })
+    expect(prisma.calibrationModel.update).toHaveBeenCalledWith({ where: { id: 'model-2' }, data: { isActive: true } })
+    expect(restored.version).toBe(2)
+
+    ;(prisma.calibrationModel.findFirst as jest.Mock).mockResolvedValue(null)
+    await expect(service.rollback('user-1')).rejects.toMatchObject({ name: 'CalibrationError', status: 404 })
+  })
+
+  it('recalibrates a new detection with the active model and keeps the raw confidence', async () => {
+    const trained = trainCalibrationModel(labeled(reviewedDetections(60)))
+    const history = reviewedDetections(60)
+    const calibrator = new ConfidenceCalibrationService()
+
+    ;(prisma.calibrationModel.findFirst as jest.Mock).mockImplementation(async ({ where }) =>
+      where.brandProfileId === null ? { id: 'model-1', brandProfileId: null, ...trained } : null
+    )
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      ...history[0],
+      id: 'new',
+      infringingUrl: 'https://fanart.example/art/new',
+      keywordSource: 'lara vox',
+      confidence: 90,
+      status: 'DETECTED',
+      isConfirmed: false,
+      detectedAt: new Date(Date.UTC(2026, 1, 1))
+    })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockImplementation(async ({ where }) =>
+      history.filter(row => where.keywordSource ? row.keywordSource === where.keywordSource.equals : row.infringingUrl.includes(where.infringingUrl.contains))
+    )
+
+    const confidence = await calibrator.calibrateDetectedContent('new')
+
+    expect(confidence).toBeLessThan(50)
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({
+      where: { id: 'new' },
+      data: { rawConfidence: 90, confidence, calibrationModelId: 'model-1' }
+    })
+  })
+})
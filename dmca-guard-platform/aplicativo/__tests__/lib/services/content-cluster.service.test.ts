@@ -0,0 +1,147 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    detectedContent: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    contentCluster: { create: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() }
+  }
+}))
+jest.mock('@/lib/extraction/content-extractor', () => ({ ContentExtractor: jest.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { computeTextFingerprint, isNearDuplicate, minhash, minhashSimilarity } from '@/lib/content-fingerprint/minhash'
+import { normalizeText } from '@/lib/content-fingerprint/fingerprint'
+import { ContentClusterService } from '@/lib/services/content-cluster.service'
+
+const POST = 'Pack completo da criadora com mais de duzentas fotos e quarenta videos exclusivos ' +
+  'atualizado hoje com o conteudo da semana link direto sem anuncios baixe antes que removam ' +
+  'o arquivo tem dois gigas e a senha esta no primeiro comentario do topico'
+const MIRROR = `Forum Leaks Brasil ${POST} responda para ver o link e deixe seu obrigado`
+const OTHER = 'Tutorial de como configurar o roteador de casa para melhorar o sinal do wifi ' +
+  'mudando o canal e a largura de banda e posicionando a antena longe de paredes e micro-ondas'
+
+function extractorFor(pages: Record<string, string>) {
+  return {
+    extractContent: jest.fn(async (url: string) => ({
+      url,
+      title: '',
+      description: '',
+      bodyText: pages[url] ?? '',
+      images: [],
+      links: [],
+      metadata: {},
+      textFingerprint: computeTextFingerprint(pages[url] ?? '')
+    }))
+  }
+}
+
+describe('minhash', () => {
+  it('estimates high similarity for mirrored copies and low for unrelated text', () => {
+    const original = minhash(normalizeText(POST))!
+    const mirror = minhash(normalizeText(MIRROR))!
+    const other = minhash(normalizeText(OTHER))!
+
+    expect(original).toHaveLength(64)
+    expect(minhashSimilarity(original, mirror)).toBeGreaterThanOrEqual(0.5)
+    expect(minhashSimilarity(original, other)).toBeLessThan(0.1)
+    expect(minhash('texto curto')).toBeNull()
+  })
+
+  it('flags near duplicates by either fingerprint', () => {
+    expect(isNearDuplicate(computeTextFingerprint(POST), computeTextFingerprint(MIRROR))).toBe(true)
+    expect(isNearDuplicate(computeTextFingerprint(POST), computeTextFingerprint(OTHER))).toBe(false)
+    expect(isNearDuplicate({ simhash: null, minhash: null }, computeTextFingerprint(POST))).toBe(false)
+  })
+})
+
+describe('ContentClusterService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      id: 'dc-new',
+      userId: 'user-1',
+      brandProfileId: 'bp1',
+      infringingUrl: 'https://forum-b.example/t/9',
+      title: 'Pack vazado',
+      description: null
+    })
+  })
+
+  it('stores the page fingerprints and opens a cluster with the mirrored detection', async () => {
+    const original = computeTextFingerprint(POST)
+    const other = computeTextFingerprint(OTHER)
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      { id: 'dc-1', clusterId: null, textSimhash: original.simhash, textMinhash: original.minhash },
+      { id: 'dc-2', clusterId: null, textSimhash: other.simhash, textMinhash: other.minhash }
+    ])
+    ;(prisma.contentCluster.create as jest.Mock).mockResolvedValue({ id: 'cl-1' })
+
+    const service = new ContentClusterService({ extractor: extractorFor({ 'https://forum-b.example/t/9': MIRROR }) })
+    const clusterId = await service.fingerprintDetectedContent('dc-new')
+
+    expect(clusterId).toBe('cl-1')
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({
+      where: { id: 'dc-new' },
+      data: { textSimhash: expect.stringMatching(/^[0-9a-f]{16}$/), textMinhash: expect.any(Array) }
+    })
+    expect(prisma.contentCluster.create).toHaveBeenCalledWith({
+      data: { userId: 'user-1', brandProfileId: 'bp1', title: 'Pack vazado' }
+    })
+    expect(prisma.detectedContent.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['dc-new', 'dc-1'] } },
+      data: { clusterId: 'cl-1' }
+    })
+  })
+
+  it('merges clusters bridged by the new detection into the oldest one', async () => {
+    const fingerprint = computeTextFingerprint(POST)
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      { id: 'dc-1', clusterId: 'cl-new', textSimhash: fingerprint.simhash, textMinhash: fingerprint.minhash },
+      { id: 'dc-2', clusterId: 'cl-old', textSimhash: fingerprint.simhash, textMinhash: fingerprint.minhash }
+    ])
+    ;(prisma.contentCluster.findMany as jest.Mock).mockResolvedValue([{ id: 'cl-old' }, { id: 'cl-new' }])
+
+    const clusterId = await new ContentClusterService({ extractor: extractorFor({}) })
+      .assignCluster({ id: 'dc-new', userId: 'user-1', brandProfileId: 'bp1', title: 'Pack' }, fingerprint)
+
+    expect(clusterId).toBe('cl-old')
+    expect(prisma.detectedContent.updateMany).toHaveBeenCalledWith({ where: { clusterId: { in: ['cl-new'] } }, data: { clusterId: 'cl-old' } })
+    expect(prisma.contentCluster.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['cl-new'] } } })
+    expect(prisma.contentCluster.create).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the search snippet when the page has no text', async () => {
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      id: 'dc-new', userId: 'user-1', brandProfileId: 'bp1', infringingUrl: 'https://down.example/x', title: 'Pack vazado', description: POST
+    })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([])
+
+    const clusterId = await new ContentClusterService({ extractor: extractorFor({}) }).fingerprintDetectedContent('dc-new')
+
+    expect(clusterId).toBeNull()
+    expect((prisma.detectedContent.update as jest.Mock).mock.calls[0][0].data.textSimhash).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('confirms every member still under review in one step', async () => {
+    ;(prisma.contentCluster.findFirst as jest.Mock).mockResolvedValue({ id: 'cl-1' })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([{ id: 'dc-1' }, { id: 'dc-2' }])
+
+    const result = await new ContentClusterService({ extractor: extractorFor({}) }).reviewCluster('user-1', 'cl-1', 'CONFIRM')
+
+    expect(result.detectedContentIds).toEqual(['dc-1', 'dc-2'])
+    expect(prisma.detectedContent.findMany).toHaveBeenCalledWith({
+      where: { clusterId: 'cl-1', userId: 'user-1', status: { notIn: ['DMCA_SENT', 'PENDING_REVIEW', 'DELISTED'] } },
+      select: { id: true }
+    })
+    expect(prisma.detectedContent.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['dc-1', 'dc-2'] } },
+      data: expect.objectContaining({ isConfirmed: true, status: 'REVIEWED', reviewedBy: 'user-1' })
+    })
+  })
+
+  it('rejects clusters of another user', async () => {
+    ;(prisma.contentCluster.findFirst as jest.Mock).mockResolvedValue(null)
+
+    await expect(new ContentClusterService({ extractor: extractorFor({}) }).reviewCluster('user-2', 'cl-1', 'DISMISS'))
+      .rejects.toMatchObject({ name: 'ContentClusterError', status: 404 })
+    expect(prisma.detectedContent.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,177 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    detectedContent: { findUnique: jest.fn() },
+    contentFingerprint: { upsert: jest.fn(), findFirst: jest.fn() }
+  }
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  classifyRedirect,
+  compareFingerprints,
+  extractPageText,
+  PageSnapshot
+} from '@/lib/content-fingerprint/fingerprint'
+import { ContentFingerprintService, FingerprintFetcher, FingerprintResponse } from '@/lib/services/content-fingerprint.service'
+
+const ARTICLE = 'Ensaio exclusivo da criadora vazado sem autorização com quarenta fotos em alta resolução e dois vídeos completos disponíveis para download gratuito sem cadastro nesta página até o fim da semana'
+
+function snapshot(overrides: Partial<PageSnapshot> = {}): PageSnapshot {
+  return {
+    url: 'https://pirate.example/posts/ensaio-vazado',
+    finalUrl: 'https://pirate.example/posts/ensaio-vazado',
+    httpStatus: 200,
+    title: 'Ensaio vazado',
+    normalizedText: extractPageText(`<p>${ARTICLE}</p>`).normalizedText,
+    imageHashes: [{ url: 'https://cdn.pirate.example/1.jpg', sha256: 'aaa' }, { url: 'https://cdn.pirate.example/2.jpg', sha256: 'bbb' }],
+    ...overrides
+  }
+}
+
+function fakeFetcher(pages: Record<string, { status?: number; url?: string; contentType: string; body: string | Buffer }>): FingerprintFetcher {
+  return jest.fn(async (url: string) => {
+    const page = pages[url]
+    if (!page) throw new Error(`unexpected fetch ${url}`)
+    const body = Buffer.isBuffer(page.body) ? page.body : Buffer.from(page.body)
+    return {
+      status: page.status ?? 200,
+      url: page.url ?? url,
+      headers: new Headers({ 'content-type': page.contentType }),
+      arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.length)
+    } as unknown as FingerprintResponse
+  })
+}
+
+describe('fingerprint comparison', () => {
+  it('normalizes text and drops scripts, menus and footers', () => {
+    const { title, normalizedText } = extractPageText(
+      '<html><head><title>Vídeo Ação</title><script>var x = 1</script></head>' +
+      '<body><nav>Início Contato</nav><h1>Coração, São Paulo!</h1><footer>© site</footer></body></html>'
+    )
+
+    expect(title).toBe('Vídeo Ação')
+    expect(normalizedText).toBe('video acao coracao sao paulo')
+  })
+
+  it('classifies redirects to the home and search pages', () => {
+    const original = 'https://pirate.example/posts/ensaio-vazado'
+
+    expect(classifyRedirect(original, 'https://www.pirate.example/posts/ensaio-vazado/')).toBeNull()
+    expect(classifyRedirect(original, 'https://pirate.example/')).toBe('HOME')
+    expect(classifyRedirect(original, 'https://pirate.example/index.php')).toBe('HOME')
+    expect(classifyRedirect(original, 'https://pirate.example/?s=ensaio')).toBe('SEARCH')
+    expect(classifyRedirect(original, 'https://pirate.example/search/ensaio')).toBe('SEARCH')
+    expect(classifyRedirect(original, 'https://pirate.example/posts/outro')).toBe('OTHER_PAGE')
+  })
+
+  it('keeps content online when the detected images are still served', () => {
+    const comparison = compareFingerprints(snapshot(), snapshot({
+      normalizedText: 'pagina redesenhada sem o texto antigo',
+      imageHashes: [{ url: 'https://mirror.example/x.jpg', sha256: 'bbb' }]
+    }))
+
+    expect(comparison).toMatchObject({ verdict: 'STILL_ONLINE', reason: 'CONTENT_MATCH', matchedImages: 1, originalImages: 2 })
+    expect(comparison.confidence).toBe(88)
+  })
+
+  it('detects a soft-404 that keeps HTTP 200 but drops the detected text and images', () => {
+    const comparison = compareFingerprints(snapshot(), snapshot({
+      normalizedText: 'ops esta pagina nao existe mais volte para a pagina inicial',
+      imageHashes: [{ url: 'https://cdn.pirate.example/banner.jpg', sha256: 'zzz' }]
+    }))
+
+    expect(comparison).toMatchObject({ verdict: 'REMOVED', reason: 'CONTENT_CHANGED', textSimilarity: 0 })
+    expect(comparison.confidence).toBe(90)
+  })
+
+  it('treats a redirect to the home page as removal even when thumbnails remain', () => {
+    const comparison = compareFingerprints(snapshot(), snapshot({
+      finalUrl: 'https://pirate.example/',
+      normalizedText: 'ultimos posts ensaio vazado outros ensaios',
+      imageHashes: [{ url: 'https://cdn.pirate.example/1.jpg', sha256: 'aaa' }]
+    }))
+
+    expect(comparison).toMatchObject({ verdict: 'REMOVED', reason: 'REDIRECT_TO_LANDING', redirect: 'HOME', confidence: 92 })
+  })
+
+  it('is inconclusive when only part of the text remains', () => {
+    const original = snapshot({ imageHashes: [] })
+    const words = original.normalizedText.split(' ')
+    const comparison = compareFingerprints(original, snapshot({
+      imageHashes: [],
+      normalizedText: words.slice(0, Math.floor(words.length * 0.45)).join(' ')
+    }))
+
+    expect(comparison).toMatchObject({ verdict: 'INCONCLUSIVE', reason: 'INSUFFICIENT_SIGNAL', confidence: 50 })
+  })
+})
+
+describe('ContentFingerprintService', () => {
+  const bigImage = Buffer.alloc(8192, 7)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('captures text, content images and the final URL, skipping logos and tiny images', async () => {
+    const fetcher = fakeFetcher({
+      'https://pirate.example/p/1': {
+        url: 'https://pirate.example/posts/ensaio-vazado',
+        contentType: 'text/html; charset=utf-8',
+        body: `<html><head><title>Ensaio</title></head><body><img src="/logo.png"><img src="/pixel.gif"><p>${ARTICLE}</p>` +
+          '<img src="https://cdn.pirate.example/1.jpg"><img src="/tiny.jpg"></body></html>'
+      },
+      'https://cdn.pirate.example/1.jpg': { contentType: 'image/jpeg', body: bigImage },
+      'https://pirate.example/tiny.jpg': { contentType: 'image/jpeg', body: Buffer.alloc(100) }
+    })
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({ infringingUrl: 'https://pirate.example/p/1' })
+    ;(prisma.contentFingerprint.upsert as jest.Mock).mockImplementation(async ({ create }) => create)
+
+    const fingerprint = await new ContentFingerprintService({ fetcher }).capture('dc1')
+
+    expect(fingerprint).toMatchObject({
+      detectedContentId: 'dc1',
+      url: 'https://pirate.example/p/1',
+      finalUrl: 'https://pirate.example/posts/ensaio-vazado',
+      httpStatus: 200,
+      title: 'Ensaio',
+      imageHashes: [{ url: 'https://cdn.pirate.example/1.jpg', sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }]
+    })
+    expect(fingerprint!.normalizedText).toContain('ensaio exclusivo da criadora')
+    expect(fetcher).not.toHaveBeenCalledWith('https://pirate.example/logo.png', expect.anything())
+  })
+
+  it('does not fingerprint pages that are already gone', async () => {
+    const fetcher = fakeFetcher({ 'https://pirate.example/gone': { status: 404, contentType: 'text/html', body: 'Not found' } })
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({ infringingUrl: 'https://pirate.example/gone' })
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    expect(await new ContentFingerprintService({ fetcher }).capture('dc1')).toBeNull()
+    expect(prisma.contentFingerprint.upsert).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('reports removal when a direct media link stops serving the detected file', async () => {
+    const fetcher = fakeFetcher({
+      'https://files.example/leak.jpg': { url: 'https://files.example/removed', contentType: 'text/html', body: '<p>Arquivo removido</p>' }
+    })
+    const service = new ContentFingerprintService({ fetcher })
+
+    const comparison = await service.compare({
+      id: 'fp1',
+      detectedContentId: 'dc1',
+      url: 'https://files.example/leak.jpg',
+      finalUrl: 'https://files.example/leak.jpg',
+      httpStatus: 200,
+      title: null,
+      normalizedText: '',
+      textHash: '',
+      imageHashes: [{ url: 'https://files.example/leak.jpg', sha256: 'abc' }],
+      capturedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })
+
+    expect(comparison).toMatchObject({ verdict: 'REMOVED', reason: 'CONTENT_CHANGED', matchedImages: 0, redirect: 'OTHER_PAGE' })
+  })
+})
@@ -0,0 +1,178 @@
+import {
+  CounterNoticeService,
+  addBusinessDays,
+  businessDaysUntil,
+  computeRestoreWindow,
+  evaluateCounterNoticeChecklist
+} from '@/lib/services/counter-notice.service'
+import { prisma } from '@/lib/prisma'
+import { notificationService } from '@/lib/services/notification.service'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    counterNotice: { create: jest.fn(), update: jest.fn(), updateMany: jest.fn(), findMany: jest.fn(), findUnique: jest.fn() },
+    takedownRequest: { findUnique: jest.fn(), update: jest.fn() }
+  }
+}))
+
+jest.mock('@/lib/services/notification.service', () => ({
+  notificationService: { create: jest.fn() },
+  NotificationType: {
+    COUNTER_NOTICE_RECEIVED: 'COUNTER_NOTICE_RECEIVED',
+    COUNTER_NOTICE_DEADLINE: 'COUNTER_NOTICE_DEADLINE'
+  }
+}))
+
+jest.mock('@/lib/services/takedown-timeline.service', () => ({
+  recordTimelineEvent: jest.fn(),
+  stopEscalationChain: jest.fn()
+}))
+
+const COMPLETE_TEXT = `I have a good faith belief that the material at https://host.example/video/1 was removed
+as a result of mistake or misidentification. I swear under penalty of perjury that this is true.
+I consent to the jurisdiction of the Federal District Court for my address and will accept service of process
+from the person who provided the original notification. /s/ John Uploader`
+
+const intake = {
+  senderName: 'John Uploader',
+  senderEmail: 'john@uploader.example',
+  senderAddress: '1 Main St, Springfield',
+  senderPhone: '+1 555 0100',
+  noticeText: COMPLETE_TEXT
+}
+
+describe('restore window', () => {
+  it('should count business days and skip weekends', () => {
+    // Quinta-feira, 3 de julho de 2025
+    const receivedAt = new Date('2025-07-03T15:00:00Z')
+
+    expect(addBusinessDays(receivedAt, 2).toISOString()).toBe('2025-07-07T15:00:00.000Z')
+    expect(computeRestoreWindow(receivedAt)).toEqual({
+      restoreEarliestAt: new Date('2025-07-17T15:00:00Z'),
+      restoreDeadlineAt: new Date('2025-07-23T15:00:00Z')
+    })
+    expect(businessDaysUntil(receivedAt, new Date('2025-07-17T15:00:00Z'))).toBe(10)
+    expect(businessDaysUntil(new Date('2025-07-24T00:00:00Z'), new Date('2025-07-23T15:00:00Z'))).toBe(0)
+  })
+
+  it('should detect the §512(g)(3) elements and honour manual overrides', () => {
+    expect(Object.values(evaluateCounterNoticeChecklist(intake)).every(Boolean)).toBe(true)
+
+    const missing = evaluateCounterNoticeChecklist({ senderName: 'Anon', noticeText: 'Please put my video back, it is mine.' })
+    expect(missing).toEqual({
+      SIGNATURE: false,
+      MATERIAL_IDENTIFICATION: false,
+      GOOD_FAITH_STATEMENT: false,
+      CONTACT_INFORMATION: false,
+      JURISDICTION_CONSENT: false,
+      SERVICE_OF_PROCESS: false
+    })
+    expect(evaluateCounterNoticeChecklist(intake, { SIGNATURE: false }).SIGNATURE).toBe(false)
+  })
+})
+
+describe('CounterNoticeService', () => {
+  const receivedAt = new Date('2025-07-03T15:00:00Z')
+  const service = new CounterNoticeService(3)
+
+  const openNotice = (overrides: Record<string, any> = {}) => ({
+    id: 'cn-1',
+    takedownRequestId: 'takedown-1',
+    userId: 'user-1',
+    status: 'AWAITING_DECISION',
+    receivedAt,
+    checklist: {},
+    deadlineNotifiedAt: null,
+    ...computeRestoreWindow(receivedAt),
+    ...overrides
+  }) as any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.counterNotice.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'cn-1', ...data }))
+    ;(prisma.counterNotice.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.counterNotice.findUnique as jest.Mock).mockImplementation(async ({ where }) => ({ id: where.id }))
+    ;(prisma.takedownRequest.findUnique as jest.Mock).mockResolvedValue({ status: 'REMOVED' })
+  })
+
+  it('should start the restore countdown for a complete counter-notice', async () => {
+    const notice = await service.create({ id: 'takedown-1', userId: 'user-1' }, { ...intake, receivedAt })
+
+    expect(notice).toMatchObject({
+      status: 'AWAITING_DECISION',
+      isValid: true,
+      restoreEarliestAt: new Date('2025-07-17T15:00:00Z'),
+      restoreDeadlineAt: new Date('2025-07-23T15:00:00Z')
+    })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'COUNTER_NOTICE_RECEIVED', expect.anything())
+    expect(stopEscalationChain).toHaveBeenCalledWith('takedown-1', expect.any(String), { counterNoticeId: 'cn-1' })
+    expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      type: 'COUNTER_NOTICE_RECEIVED',
+      takedownRequestId: 'takedown-1'
+    }))
+  })
+
+  it('should not run the clock while elements are missing', async () => {
+    const notice = await service.create(
+      { id: 'takedown-1', userId: 'user-1' },
+      { senderName: 'Anon', noticeText: 'Please put my video back, it is mine.', receivedAt }
+    )
+
+    expect(notice).toMatchObject({ status: 'RECEIVED', isValid: false })
+    expect(notice.restoreDeadlineAt).toBeUndefined()
+  })
+
+  it('should keep the content down when the owner files suit', async () => {
+    const now = new Date('2025-07-10T12:00:00Z')
+
+    await service.decide(openNotice(), 'FILE_SUIT', { lawsuitReference: '1:25-cv-01234' }, now)
+
+    expect(prisma.counterNotice.updateMany).toHaveBeenCalledWith({
+      where: { id: 'cn-1', status: { in: ['RECEIVED', 'AWAITING_DECISION'] } },
+      data: expect.objectContaining({ status: 'SUIT_FILED', decision: 'FILE_SUIT', lawsuitReference: '1:25-cv-01234' })
+    })
+    expect(prisma.takedownRequest.update).not.toHaveBeenCalled()
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'COUNTER_NOTICE_RESOLVED', expect.anything())
+    await expect(service.decide(openNotice(), 'FILE_SUIT', {}, now)).rejects.toThrow('número do processo')
+  })
+
+  it('should mark the takedown RESTORED when the claim is withdrawn', async () => {
+    const now = new Date('2025-07-10T12:00:00Z')
+
+    await service.decide(openNotice(), 'WITHDRAW', {}, now)
+
+    expect(prisma.takedownRequest.update).toHaveBeenCalledWith({
+      where: { id: 'takedown-1' },
+      data: { status: 'RESTORED', resolvedAt: now }
+    })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'STATUS_CHANGED', expect.objectContaining({
+      metadata: expect.objectContaining({ from: 'REMOVED', to: 'RESTORED' })
+    }))
+  })
+
+  it('should remind before the window opens and restore after the deadline lapses', async () => {
+    ;(prisma.counterNotice.findMany as jest.Mock).mockResolvedValue([
+      openNotice({ id: 'cn-soon' }),
+      openNotice({ id: 'cn-lapsed', takedownRequestId: 'takedown-2', ...computeRestoreWindow(new Date('2025-06-20T15:00:00Z')) })
+    ])
+
+    // Segunda-feira, 14/07: faltam 3 dias úteis para 17/07
+    const result = await service.processDeadlines(new Date('2025-07-14T15:00:00Z'))
+
+    expect(result).toEqual({ reminders: 1, restored: 1 })
+    expect(prisma.counterNotice.updateMany).toHaveBeenCalledWith({
+      where: { id: 'cn-soon', deadlineNotifiedAt: null },
+      data: { deadlineNotifiedAt: new Date('2025-07-14T15:00:00Z') }
+    })
+    expect(prisma.counterNotice.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'cn-lapsed', status: { in: ['RECEIVED', 'AWAITING_DECISION'] } },
+      data: expect.objectContaining({ status: 'RESTORED', decision: 'ALLOW_RESTORE' })
+    }))
+    expect(prisma.takedownRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'takedown-2' }
+    }))
+    expect(notificationService.create).toHaveBeenCalledTimes(2)
+  })
+})
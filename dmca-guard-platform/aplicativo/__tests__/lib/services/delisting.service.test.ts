@@ -0,0 +1,183 @@
+import {
+  DelistingService,
+  buildDelistingCsv,
+  buildDelistingPayload,
+  canTransitionDelisting
+} from '@/lib/services/delisting.service'
+import { SearchClient, normalizeUrlForComparison } from '@/lib/integrations/search-client'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    detectedContent: { findMany: jest.fn(), updateMany: jest.fn() },
+    delistingRequest: { create: jest.fn(), update: jest.fn(), findMany: jest.fn() },
+    delistingItem: { findMany: jest.fn(), update: jest.fn(), count: jest.fn() },
+    $transaction: jest.fn()
+  }
+}))
+
+const owner = { name: 'Ana Souza', email: 'ana@example.com', phone: null }
+const work = {
+  title: 'Ana Souza',
+  description: 'Ensaio fotográfico "Verão", 2024',
+  authorizedUrls: ['https://anasouza.example/verao']
+}
+
+describe('delisting payloads', () => {
+  it('should build a Google CSV with one infringing URL per row and escaped values', () => {
+    const csv = buildDelistingCsv('GOOGLE', work, ['https://pirate.example/a', 'https://pirate.example/b'])
+
+    expect(csv.split('\n')).toEqual([
+      'Location of infringing material,Where can we see an authorized example of the work,Identify and describe the copyrighted work',
+      'https://pirate.example/a,https://anasouza.example/verao,"Ensaio fotográfico ""Verão"", 2024"',
+      'https://pirate.example/b,https://anasouza.example/verao,"Ensaio fotográfico ""Verão"", 2024"'
+    ])
+  })
+
+  it('should use the Bing column layout', () => {
+    const csv = buildDelistingCsv('BING', work, ['https://pirate.example/a'])
+
+    expect(csv.split('\n')[1]).toBe('https://pirate.example/a,Ana Souza,https://anasouza.example/verao')
+  })
+
+  it('should map the batch to the fields of each engine form', () => {
+    const now = new Date('2025-07-01T12:00:00Z')
+    const google = buildDelistingPayload('GOOGLE', owner, work, ['https://pirate.example/a'], now)
+    const bing = buildDelistingPayload('BING', owner, work, ['https://pirate.example/a'], now)
+
+    expect(google.formUrl).toContain('google.com')
+    expect(google.formFields['Location of infringing material']).toBe('https://pirate.example/a')
+    expect(google.formFields['Signed on this date of']).toBe('2025-07-01')
+    expect(bing.formFields['Infringing URLs']).toBe('https://pirate.example/a')
+    expect(bing.formFields['Title of copyrighted work']).toBe('Ana Souza')
+  })
+
+  it('should only allow user transitions from open batches', () => {
+    expect(canTransitionDelisting('PENDING', 'SUBMITTED')).toBe(true)
+    expect(canTransitionDelisting('SUBMITTED', 'REJECTED')).toBe(true)
+    expect(canTransitionDelisting('DELISTED', 'CANCELLED')).toBe(false)
+    expect(canTransitionDelisting('SUBMITTED', 'SUBMITTED')).toBe(false)
+  })
+})
+
+describe('DelistingService', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const isUrlIndexed = jest.fn()
+  let service: DelistingService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new DelistingService({ isUrlIndexed }, { minHoursBeforeCheck: 24, checkIntervalHours: 24 })
+    ;(prisma.$transaction as jest.Mock).mockResolvedValue([])
+    ;(prisma.delistingRequest.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: `req-${data.engine}`, ...data }))
+  })
+
+  it('should batch confirmed content per engine, skipping URLs already in an active batch', async () => {
+    const brandProfile = { id: 'brand-1', brandName: 'Ana Souza', description: null, officialUrls: ['https://anasouza.example'] }
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue(owner)
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      { id: 'c1', brandProfileId: 'brand-1', infringingUrl: 'https://pirate.example/1', brandProfile, delistingItems: [] },
+      {
+        id: 'c2',
+        brandProfileId: 'brand-1',
+        infringingUrl: 'https://pirate.example/2',
+        brandProfile,
+        delistingItems: [{ delistingRequest: { engine: 'GOOGLE' } }]
+      }
+    ])
+
+    const created = await service.createBatches('user-1', { engines: ['GOOGLE', 'BING'] })
+
+    expect(created).toHaveLength(2)
+    const [googleCall, bingCall] = (prisma.delistingRequest.create as jest.Mock).mock.calls.map(([args]) => args.data)
+    expect(googleCall.items.create).toEqual([{ detectedContentId: 'c1', url: 'https://pirate.example/1' }])
+    expect(bingCall.items.create.map((item: any) => item.detectedContentId)).toEqual(['c1', 'c2'])
+    expect(prisma.detectedContent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'user-1', isConfirmed: true })
+    }))
+  })
+
+  it('should mark content DELISTED once the search engine no longer returns the URL', async () => {
+    ;(prisma.delistingItem.findMany as jest.Mock).mockResolvedValue([
+      { id: 'i1', detectedContentId: 'c1', url: 'https://pirate.example/1' },
+      { id: 'i2', detectedContentId: 'c2', url: 'https://pirate.example/2' }
+    ])
+    isUrlIndexed.mockImplementation(async (url: string) => url.endsWith('/2'))
+    ;(prisma.delistingItem.count as jest.Mock)
+      .mockResolvedValueOnce(2) // total
+      .mockResolvedValueOnce(1) // removidas
+
+    const result = await service.verifyBatch({ id: 'req-1', engine: 'BING', status: 'SUBMITTED' } as any, now)
+
+    expect(isUrlIndexed).toHaveBeenCalledWith('https://pirate.example/1', 'bing')
+    expect(result).toMatchObject({ checked: 2, delisted: 1, errors: 0 })
+    expect(prisma.detectedContent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'c1', status: { notIn: ['DELISTED', 'FALSE_POSITIVE'] } },
+      data: { status: 'DELISTED' }
+    })
+    expect(prisma.delistingRequest.update).toHaveBeenCalledWith({
+      where: { id: 'req-1' },
+      data: { status: 'PARTIALLY_DELISTED', lastCheckedAt: now }
+    })
+  })
+
+  it('should complete the batch when every URL is gone and keep search errors on the item', async () => {
+    ;(prisma.delistingItem.findMany as jest.Mock).mockResolvedValue([
+      { id: 'i1', detectedContentId: 'c1', url: 'https://pirate.example/1' },
+      { id: 'i2', detectedContentId: 'c2', url: 'https://pirate.example/2' }
+    ])
+    isUrlIndexed
+      .mockResolvedValueOnce(false)
+      .mockRejectedValueOnce(new Error('SERPER_API_KEY não configurada'))
+    ;(prisma.delistingItem.count as jest.Mock).mockResolvedValue(2)
+
+    const result = await service.verifyBatch({ id: 'req-1', engine: 'GOOGLE', status: 'PARTIALLY_DELISTED' } as any, now)
+
+    expect(result.errors).toBe(1)
+    expect(prisma.delistingItem.update).toHaveBeenCalledWith({
+      where: { id: 'i2' },
+      data: { lastCheckedAt: now, lastError: 'SERPER_API_KEY não configurada' }
+    })
+    expect(prisma.delistingRequest.update).toHaveBeenCalledWith({
+      where: { id: 'req-1' },
+      data: { status: 'DELISTED', lastCheckedAt: now, completedAt: now }
+    })
+  })
+})
+
+describe('SearchClient.isUrlIndexed', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    process.env.SERPER_API_KEY = 'serper-key'
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ organic: [{ title: 'Leak', link: 'http://www.pirate.example/leak/?b=2&a=1#top' }] })
+    })
+  })
+
+  afterEach(() => {
+    delete process.env.SERPER_API_KEY
+    global.fetch = originalFetch
+  })
+
+  it('should ignore protocol, www, trailing slash, fragment and query order', () => {
+    expect(normalizeUrlForComparison('https://pirate.example/leak?a=1&b=2'))
+      .toBe(normalizeUrlForComparison('http://www.Pirate.example/leak/?b=2&a=1#top'))
+    expect(normalizeUrlForComparison('https://pirate.example/v%C3%ADdeo')).toBe('pirate.example/vídeo')
+    expect(normalizeUrlForComparison('https://pirate.example/leak?a=1')).not.toBe(normalizeUrlForComparison('https://pirate.example/leak?a=2'))
+  })
+
+  it('should find the URL in any of the first 100 results of a site: query on its path', async () => {
+    const indexed = await new SearchClient().isUrlIndexed('https://pirate.example/leak?a=1&b=2', 'google')
+
+    expect(indexed).toBe(true)
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+    expect(body).toMatchObject({ q: 'site:pirate.example/leak', num: 100 })
+  })
+
+  it('should report a URL missing from the results as not indexed', async () => {
+    await expect(new SearchClient().isUrlIndexed('https://pirate.example/other', 'google')).resolves.toBe(false)
+  })
+})
@@ -0,0 +1,190 @@
+import { renderTemplate, TemplateSyntaxError, validateTemplate } from '@/lib/dmca-template-engine'
+import { DmcaTemplateService } from '@/lib/services/dmca-template.service'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    dmcaTemplate: { findMany: jest.fn(), findFirst: jest.fn() },
+    dmcaTemplateVersion: { findUnique: jest.fn() }
+  }
+}))
+
+const noticeData = {
+  user: { name: 'Maria Silva', email: 'maria@example.com', phone: null },
+  content: {
+    title: 'Curso de Fotografia',
+    infringingUrl: 'https://www.pirate.example/curso',
+    platform: 'website',
+    detectedAt: new Date('2025-06-01T12:00:00Z'),
+    brandProfile: { brandName: 'Foto Pro', description: 'Curso completo', officialUrls: ['https://fotopro.example'] }
+  },
+  contactEmail: 'dmca@pirate.example'
+}
+
+const makeTemplate = (overrides: Record<string, any> = {}) => ({
+  id: 'template-1',
+  userId: 'user-1',
+  name: 'Meu template',
+  language: 'pt',
+  takedownType: 'DMCA',
+  legalFramework: 'US_DMCA',
+  subject: 'Remoção em {domain}',
+  body: 'Olá {contactName}, remova {infringingUrl} ({contentTitle}).{#if userPhone} Tel: {userPhone}{#else} Sem telefone{/if} {userName} <{userEmail}>',
+  isDefault: true,
+  isActive: true,
+  version: 3,
+  ...overrides
+}) as any
+
+describe('template engine', () => {
+  it('should render variables and conditionals', () => {
+    const source = 'Olá {userName}{#if !userPhone} (sem telefone){/if}{#if brandName}, marca {brandName}{/if}'
+
+    expect(renderTemplate(source, { userName: 'Maria', brandName: 'Foto Pro' }))
+      .toBe('Olá Maria (sem telefone), marca Foto Pro')
+  })
+
+  it('should leave braces that are not placeholders untouched', () => {
+    expect(renderTemplate('JSON: { "a": 1 } {userName}', { userName: 'Maria' })).toBe('JSON: { "a": 1 } Maria')
+  })
+
+  it('should report unknown variables and unbalanced blocks', () => {
+    const result = validateTemplate('{process} {#if userName}aberto {#else}a{#else}b')
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      'Variável desconhecida: {process}',
+      '{#else} fora de um bloco {#if}',
+      '1 bloco(s) {#if} sem {/if}'
+    ])
+    expect(() => renderTemplate('{/if}', {})).toThrow(TemplateSyntaxError)
+  })
+})
+
+describe('DmcaTemplateService', () => {
+  let service: DmcaTemplateService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new DmcaTemplateService()
+  })
+
+  it('should prefer the user default over the system default', async () => {
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([
+      makeTemplate({ id: 'system', userId: null }),
+      makeTemplate()
+    ])
+
+    const notice = await service.renderNotice('user-1', { takedownType: 'DMCA' }, noticeData)
+
+    expect(prisma.dmcaTemplate.findMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ takedownType: 'DMCA', legalFramework: 'US_DMCA', language: 'pt', isDefault: true })
+    })
+    expect(notice).toMatchObject({
+      subject: 'Remoção em pirate.example',
+      body: 'Olá DMCA Team, remova https://www.pirate.example/curso (Curso de Fotografia). Sem telefone Maria Silva <maria@example.com>',
+      templateId: 'template-1',
+      templateVersion: 3
+    })
+  })
+
+  it('should report the language of an explicitly chosen template', async () => {
+    ;(prisma.dmcaTemplate.findFirst as jest.Mock).mockResolvedValue(makeTemplate({ language: 'en', subject: 'Removal at {domain}' }))
+
+    const notice = await service.renderNotice('user-1', { language: 'pt', templateId: 'template-1' }, noticeData)
+
+    expect(notice).toMatchObject({ subject: 'Removal at pirate.example', language: 'en' })
+  })
+
+  it('should fall back to the built-in notice when no template is configured', async () => {
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([])
+
+    const notice = await service.renderNotice('user-1', { takedownType: 'TRADEMARK_INFRINGEMENT' }, noticeData)
+
+    expect(notice.templateId).toBeNull()
+    expect(notice.body).toContain('https://www.pirate.example/curso')
+    expect(notice.body).toContain('Maria Silva')
+  })
+
+  it('should cite the evidence package in the built-in notice', async () => {
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([])
+    const evidence = { id: 'pkg-1', capturedAt: new Date('2026-03-02T10:15:00Z'), manifestHash: 'a'.repeat(64) }
+
+    const notice = await service.renderNotice('user-1', { legalFramework: 'US_DMCA' }, { ...noticeData, evidence })
+    const withoutEvidence = await service.renderNotice('user-1', { legalFramework: 'US_DMCA' }, noticeData)
+
+    expect(notice.body).toContain(`capturada em 2026-03-02 10:15 UTC (pacote de evidências pkg-1, SHA-256 do manifesto ${'a'.repeat(64)})`)
+    expect(withoutEvidence.body).not.toContain('pacote de evidências')
+  })
+
+  it('should cite the earlier notice in repeat-infringement notices', async () => {
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([])
+    const repeatOf = { takedownRequestId: 'td-1', url: 'https://www.pirate.example/curso-antigo', sentAt: new Date('2026-02-10T09:00:00Z') }
+
+    const notice = await service.renderNotice('user-1', { legalFramework: 'EU_DSA', language: 'en' }, { ...noticeData, repeatOf })
+
+    expect(notice.body).toContain('Repeat infringement: this same material was the subject of our notice of 2026-02-10 (reference td-1)')
+    expect(notice.body).toContain('concerning https://www.pirate.example/curso-antigo')
+  })
+
+  it('should reject a selected template the user cannot access', async () => {
+    ;(prisma.dmcaTemplate.findFirst as jest.Mock).mockResolvedValue(null)
+
+    await expect(service.renderNotice('user-1', { templateId: 'other' }, noticeData))
+      .rejects.toThrow('Template DMCA não encontrado')
+  })
+
+  it('should store a new version only when subject or body change', async () => {
+    const tx = {
+      dmcaTemplate: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(makeTemplate({ version: 4 }))
+      },
+      dmcaTemplateVersion: { create: jest.fn() }
+    }
+    ;(prisma.$transaction as jest.Mock).mockImplementation(callback => callback(tx))
+
+    await service.update(makeTemplate(), { body: 'Novo corpo de {userName} ({userEmail}) para {infringingUrl}: {contentDescription}', changeNote: 'ajuste' }, 'user-1')
+
+    expect(tx.dmcaTemplate.updateMany).toHaveBeenCalledWith({
+      where: { id: 'template-1', version: 3 },
+      data: expect.objectContaining({ version: { increment: 1 } })
+    })
+    expect(tx.dmcaTemplateVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ templateId: 'template-1', version: 4, changeNote: 'ajuste', createdById: 'user-1' })
+    })
+
+    tx.dmcaTemplateVersion.create.mockClear()
+    await service.update(makeTemplate(), { name: 'Renomeado' }, 'user-1')
+
+    expect(tx.dmcaTemplateVersion.create).not.toHaveBeenCalled()
+  })
+
+  it('should refuse to save templates with syntax errors', async () => {
+    await expect(service.update(makeTemplate(), { body: 'Olá {senha}' }, 'user-1'))
+      .rejects.toThrow(TemplateSyntaxError)
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should refuse templates that omit elements required by their legal framework', async () => {
+    const error = await service.update(makeTemplate(), { legalFramework: 'UK_ECOMMERCE' }, 'user-1').catch(e => e)
+
+    expect(error).toBeInstanceOf(TemplateSyntaxError)
+    expect(error.errors).toEqual([
+      expect.stringContaining('Endereço do notificante'),
+      expect.stringContaining('Justificativa da ilicitude')
+    ])
+  })
+
+  it('should render the built-in notice of the selected framework', async () => {
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([])
+
+    const notice = await service.renderNotice('user-1', { legalFramework: 'EU_DSA', language: 'en' }, noticeData)
+
+    expect(notice.subject).toContain('Article 16 of the Digital Services Act')
+    expect(notice.body).toContain('https://www.pirate.example/curso')
+    expect(notice.body).toContain('reproduces, without the rights holder\'s authorization, the protected work "Curso completo"')
+    expect(notice.noticeFields).toMatchObject({ senderName: 'Maria Silva', originalUrl: 'https://fotopro.example' })
+  })
+})
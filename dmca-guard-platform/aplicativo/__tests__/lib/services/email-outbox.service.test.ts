@@ -0,0 +1,229 @@
+import {
+  EmailOutboxService,
+  computeRetryDelay,
+  getRecipientDomain
+} from '@/lib/services/email-outbox.service'
+import { EmailTransportError, resolveTransportType } from '@/lib/services/email-transports'
+import { prisma } from '@/lib/prisma'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    emailOutbox: { upsert: jest.fn(), findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn(), count: jest.fn() },
+    emailDeliveryLog: { create: jest.fn() },
+    takedownRequest: { updateMany: jest.fn() }
+  }
+}))
+
+jest.mock('@/lib/services/takedown-timeline.service', () => ({
+  recordTimelineEvent: jest.fn()
+}))
+
+const now = new Date('2025-07-01T12:00:00Z')
+
+const makeEntry = (overrides: Record<string, any> = {}) => ({
+  id: 'outbox-1',
+  idempotencyKey: 'takedown:takedown-1:notice:initial',
+  userId: 'user-1',
+  takedownRequestId: 'takedown-1',
+  category: 'TAKEDOWN_NOTICE',
+  transport: 'RESEND',
+  fromAddress: null,
+  toAddresses: ['dmca@pirate.example'],
+  recipientDomain: 'pirate.example',
+  replyTo: 'owner@example.com',
+  subject: 'DMCA Takedown Notice [Ref: DG-TEST2345]',
+  html: '<p>notice</p>',
+  text: null,
+  headers: { 'Message-ID': '<takedown.takedown-1.abc@dmca-guard.local>' },
+  status: 'PENDING',
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: now,
+  lockedAt: null,
+  ...overrides
+}) as any
+
+describe('outbox helpers', () => {
+  const env = process.env
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  it('should back off exponentially up to the cap', () => {
+    expect(computeRetryDelay(1, 1000, 10_000)).toBe(1000)
+    expect(computeRetryDelay(3, 1000, 10_000)).toBe(4000)
+    expect(computeRetryDelay(10, 1000, 10_000)).toBe(10_000)
+  })
+
+  it('should throttle on the first recipient domain', () => {
+    expect(getRecipientDomain(['DMCA@Pirate.example', 'abuse@host.example'])).toBe('pirate.example')
+    expect(getRecipientDomain([])).toBe('unknown')
+  })
+
+  it('should pick the transport per category before the global default', () => {
+    process.env = { ...env, EMAIL_TRANSPORT: 'smtp', TAKEDOWN_EMAIL_TRANSPORT: 'GMAIL', NOTIFICATION_EMAIL_TRANSPORT: '' }
+
+    expect(resolveTransportType('TAKEDOWN_NOTICE')).toBe('GMAIL')
+    expect(resolveTransportType('NOTIFICATION')).toBe('SMTP')
+  })
+})
+
+describe('EmailOutboxService', () => {
+  const transport = { type: 'RESEND' as const, send: jest.fn() }
+  let service: EmailOutboxService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new EmailOutboxService({ domainLimit: 2, transportResolver: () => transport })
+    ;(prisma.emailOutbox.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.emailOutbox.count as jest.Mock).mockResolvedValue(0)
+  })
+
+  it('should store the email once per idempotency key', async () => {
+    await service.enqueue({
+      idempotencyKey: 'notification:n-1',
+      category: 'NOTIFICATION',
+      to: 'owner@example.com',
+      subject: 'Hello',
+      html: '<p>hi</p>',
+      transport: 'FILE'
+    })
+
+    expect(prisma.emailOutbox.upsert).toHaveBeenCalledWith({
+      where: { idempotencyKey: 'notification:n-1' },
+      create: expect.objectContaining({
+        transport: 'FILE',
+        toAddresses: ['owner@example.com'],
+        recipientDomain: 'example.com'
+      }),
+      update: {}
+    })
+  })
+
+  it('should claim, send and log the delivery', async () => {
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([makeEntry()])
+    transport.send.mockResolvedValue({ providerMessageId: 're_123' })
+
+    const result = await service.processDue(now)
+
+    expect(result).toMatchObject({ processed: 1, sent: 1 })
+    expect(prisma.emailOutbox.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'outbox-1' }),
+      data: { status: 'SENDING', lockedAt: now, attempts: { increment: 1 } }
+    })
+    expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['dmca@pirate.example'],
+      idempotencyKey: 'takedown:takedown-1:notice:initial',
+      headers: { 'Message-ID': '<takedown.takedown-1.abc@dmca-guard.local>' }
+    }))
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'outbox-1' },
+      data: expect.objectContaining({ status: 'SENT', sentAt: now, providerMessageId: 're_123' })
+    })
+    expect(prisma.emailDeliveryLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ outboxId: 'outbox-1', attempt: 1, status: 'SENT', transport: 'RESEND' })
+    })
+  })
+
+  it('should schedule a retry with backoff after a transient failure', async () => {
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([makeEntry({ status: 'FAILED', attempts: 1 })])
+    transport.send.mockRejectedValue(new EmailTransportError('Resend: rate limited'))
+
+    const result = await service.processDue(now)
+
+    expect(result.retried).toBe(1)
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'outbox-1' },
+      data: {
+        status: 'FAILED',
+        lockedAt: null,
+        lastError: 'Resend: rate limited',
+        nextAttemptAt: new Date(now.getTime() + 2 * 60 * 1000)
+      }
+    })
+    expect(recordTimelineEvent).not.toHaveBeenCalled()
+  })
+
+  it('should give up on permanent errors and fail the takedown notice', async () => {
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([makeEntry()])
+    transport.send.mockRejectedValue(new EmailTransportError('Resend: invalid recipient', true))
+
+    const result = await service.processDue(now)
+
+    expect(result.dead).toBe(1)
+    expect(prisma.emailOutbox.update).toHaveBeenCalledWith({
+      where: { id: 'outbox-1' },
+      data: expect.objectContaining({ status: 'DEAD' })
+    })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'SEND_FAILED', expect.objectContaining({
+      recipients: ['dmca@pirate.example'],
+      metadata: expect.objectContaining({ outboxId: 'outbox-1', attempts: 1 })
+    }))
+    expect(prisma.takedownRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'takedown-1', status: 'SENT' },
+      data: { status: 'FAILED' }
+    })
+  })
+
+  it('should defer emails once a recipient domain hits its limit', async () => {
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([
+      makeEntry({ id: 'outbox-1' }),
+      makeEntry({ id: 'outbox-2' }),
+      makeEntry({ id: 'outbox-3' })
+    ])
+    ;(prisma.emailOutbox.count as jest.Mock).mockResolvedValue(1)
+    transport.send.mockResolvedValue({ providerMessageId: 're_123' })
+
+    const result = await service.processDue(now)
+
+    expect(result).toMatchObject({ sent: 1, throttled: 2 })
+    expect(transport.send).toHaveBeenCalledTimes(1)
+    expect(prisma.emailOutbox.updateMany).toHaveBeenCalledWith({
+      where: { id: 'outbox-2', status: 'PENDING' },
+      data: { nextAttemptAt: new Date(now.getTime() + 60 * 1000) }
+    })
+    expect(prisma.emailDeliveryLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ outboxId: 'outbox-3', status: 'THROTTLED' })
+    })
+  })
+
+  it('should never mark a delivered email as failed when the bookkeeping write throws', async () => {
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([makeEntry()])
+    ;(prisma.emailOutbox.update as jest.Mock).mockRejectedValueOnce(new Error('connection reset'))
+    transport.send.mockResolvedValue({ providerMessageId: 're_123' })
+
+    const result = await service.processDue(now)
+
+    expect(result).toMatchObject({ sent: 1, retried: 0, dead: 0 })
+    expect(prisma.emailOutbox.update).toHaveBeenCalledTimes(1)
+    expect(prisma.emailOutbox.update).not.toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: expect.stringMatching(/FAILED|DEAD/) })
+    }))
+  })
+
+  it('should requeue stale sends only on deduplicating transports and hold the rest for review', async () => {
+    const dedupingService = new EmailOutboxService({
+      transportResolver: (type) => ({ type, send: transport.send, deduplicates: type === 'RESEND' })
+    })
+    ;(prisma.emailOutbox.findMany as jest.Mock).mockResolvedValue([])
+
+    const result = await dedupingService.processDue(now)
+    const staleBefore = new Date(now.getTime() - 10 * 60 * 1000)
+
+    expect(result.stalled).toBe(1)
+    expect(prisma.emailOutbox.updateMany).toHaveBeenCalledWith({
+      where: { status: 'SENDING', lockedAt: { lt: staleBefore }, transport: { notIn: ['RESEND'] } },
+      data: expect.objectContaining({ status: 'NEEDS_REVIEW', lockedAt: null })
+    })
+    expect(prisma.emailOutbox.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        OR: [
+          expect.objectContaining({ status: { in: ['PENDING', 'FAILED'] } }),
+          { status: 'SENDING', lockedAt: { lt: staleBefore }, transport: { in: ['RESEND'] } }
+        ]
+      }
+    }))
+  })
+})
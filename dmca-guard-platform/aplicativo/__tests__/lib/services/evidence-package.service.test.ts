@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import JSZip from 'jszip'
+import {
+  EvidenceFetcher,
+  EvidencePackageService,
+  EvidenceResponse,
+  extractImageUrls
+} from '@/lib/services/evidence-package.service'
+import { chainArtifacts, verifyChain } from '@/lib/evidence-package/manifest'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    detectedContent: { findUnique: jest.fn() },
+    evidencePackage: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+    evidenceArtifact: { createMany: jest.fn() }
+  }
+}))
+
+const mockPrisma = prisma as any
+
+function fakeResponse(status: number, headers: Record<string, string>, body: string | Buffer): EvidenceResponse {
+  const entries = Object.entries(headers)
+  return {
+    status,
+    statusText: status === 200 ? 'OK' : 'Found',
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+      forEach: (callback: (value: string, name: string) => void) => entries.forEach(([name, value]) => callback(value, name))
+    },
+    arrayBuffer: async () => {
+      const buffer = Buffer.isBuffer(body) ? body : Buffer.from(body)
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length)
+    }
+  } as unknown as EvidenceResponse
+}
+
+const PAGE = `<html><head><meta property="og:image" content="/cover.jpg"></head>
+<body><img src="https://cdn.pirate.example/leak.png"><img src="data:image/gif;base64,R0lGOD"></body></html>`
+
+const pages: Record<string, () => EvidenceResponse> = {
+  'https://pirate.example/leak': () => fakeResponse(301, { location: '/leak/full' }, ''),
+  'https://pirate.example/leak/full': () => fakeResponse(200, { 'content-type': 'text/html; charset=utf-8', 'content-encoding': 'gzip' }, PAGE),
+  'https://pirate.example/cover.jpg': () => fakeResponse(200, { 'content-type': 'image/jpeg' }, Buffer.from([0xff, 0xd8, 0xff, 0x01])),
+  'https://cdn.pirate.example/leak.png': () => fakeResponse(200, { 'content-type': 'image/png' }, Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+}
+
+const fetcher: EvidenceFetcher = async (url) => {
+  const page = pages[url]
+  if (!page) throw new Error(`fetch failed: ${url}`)
+  return page()
+}
+
+describe('extractImageUrls', () => {
+  it('resolves relative and og:image URLs and skips data URIs', () => {
+    expect(extractImageUrls(PAGE, 'https://pirate.example/leak/full')).toEqual([
+      'https://pirate.example/cover.jpg',
+      'https://cdn.pirate.example/leak.png'
+    ])
+  })
+})
+
+describe('EvidencePackageService', () => {
+  let storageDir: string
+  let stored: any
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'))
+    stored = { id: 'pkg1', detectedContentId: 'dc1', userId: 'u1', url: 'https://pirate.example/leak', ephemeralKey: false }
+
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma))
+    mockPrisma.evidenceArtifact.createMany.mockImplementation(async ({ data }: any) => {
+      stored.artifacts = data
+      return { count: data.length }
+    })
+    mockPrisma.evidencePackage.update.mockImplementation(async ({ data }: any) => {
+      stored = { ...stored, ...data }
+      return stored
+    })
+  })
+
+  afterEach(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true })
+  })
+
+  const service = (screenshot = jest.fn().mockResolvedValue(Buffer.from('png'))) =>
+    new EvidencePackageService({ fetcher, screenshot, storageDir })
+
+  it('captures page, redirects, headers, images and screenshot into a hash-chained, signed manifest', async () => {
+    const evidencePackage = await service().capture('pkg1')
+
+    expect(evidencePackage.status).toBe('COMPLETE')
+    expect(evidencePackage.finalUrl).toBe('https://pirate.example/leak/full')
+    expect(stored.artifacts.map((artifact: any) => artifact.kind)).toEqual(['WARC', 'HEADERS', 'IMAGE', 'IMAGE', 'SCREENSHOT'])
+    expect(stored.artifacts[0].previousHash).toBe('0'.repeat(64))
+    expect(stored.artifacts[1].previousHash).toBe(stored.artifacts[0].chainHash)
+    expect(evidencePackage.rootHash).toBe(stored.artifacts[4].chainHash)
+
+    const warc = await fs.readFile(path.join(storageDir, 'pkg1', 'page.warc'), 'utf8')
+    expect(warc).toContain('WARC-Target-URI: https://pirate.example/leak')
+    expect(warc).toContain('HTTP/1.1 301 Found')
+    expect(warc).toContain('WARC-Target-URI: https://cdn.pirate.example/leak.png')
+    // Corpo gravado já decodificado
+    expect(warc).not.toContain('content-encoding: gzip')
+
+    const headers = JSON.parse(await fs.readFile(path.join(storageDir, 'pkg1', 'headers.json'), 'utf8'))
+    expect(headers.map((hop: any) => hop.status)).toEqual([301, 200])
+
+    const verification = await service().verify({ ...stored, artifacts: stored.artifacts })
+    expect(verification).toEqual(expect.objectContaining({ valid: true, manifestHashMatches: true, signatureValid: true }))
+  })
+
+  it('detects a tampered artifact on verification', async () => {
+    await service().capture('pkg1')
+    await fs.writeFile(path.join(storageDir, 'pkg1', 'images', '02.png'), Buffer.from('edited'))
+
+    const verification = await service().verify({ ...stored, artifacts: stored.artifacts })
+
+    expect(verification.valid).toBe(false)
+    expect(verification.chain).toEqual(expect.objectContaining({ brokenAt: 4, reason: 'Conteúdo alterado: images/02.png' }))
+    expect(verification.signatureValid).toBe(true)
+  })
+
+  it('rejects a manifest edited after signing', async () => {
+    await service().capture('pkg1')
+    const manifest = { ...stored.manifest, url: 'https://other.example' }
+
+    const verification = await service().verify({ ...stored, manifest, artifacts: stored.artifacts })
+
+    expect(verification.manifestHashMatches).toBe(false)
+    expect(verification.signatureValid).toBe(false)
+  })
+
+  it('marks the package PARTIAL when the screenshot fails', async () => {
+    const evidencePackage = await service(jest.fn().mockRejectedValue(new Error('Chromium indisponível'))).capture('pkg1')
+
+    expect(evidencePackage.status).toBe('PARTIAL')
+    expect(evidencePackage.errorMessage).toContain('Chromium indisponível')
+    expect(stored.artifacts.map((artifact: any) => artifact.kind)).not.toContain('SCREENSHOT')
+  })
+
+  it('marks the package FAILED when the page cannot be fetched', async () => {
+    stored.url = 'https://offline.example/'
+
+    await expect(service().capture('pkg1')).rejects.toThrow('fetch failed')
+    expect(mockPrisma.evidencePackage.update).toHaveBeenLastCalledWith({
+      where: { id: 'pkg1' },
+      data: { status: 'FAILED', errorMessage: 'fetch failed: https://offline.example/' }
+    })
+  })
+
+  it('marks the package FAILED when saving the artifacts fails after the fetch', async () => {
+    mockPrisma.$transaction.mockRejectedValue(new Error('deadlock detected'))
+
+    await expect(service().capture('pkg1')).rejects.toThrow('deadlock detected')
+    expect(mockPrisma.evidencePackage.update).toHaveBeenLastCalledWith({
+      where: { id: 'pkg1' },
+      data: { status: 'FAILED', errorMessage: 'deadlock detected' }
+    })
+  })
+
+  it('caps the page body and marks the package PARTIAL', async () => {
+    const big = `<html><body>${'x'.repeat(2048)}</body></html>`
+    const capped = new EvidencePackageService({
+      fetcher: async () => fakeResponse(200, { 'content-type': 'text/plain' }, big),
+      screenshot: jest.fn().mockResolvedValue(null),
+      storageDir,
+      maxPageBytes: 1024
+    })
+
+    const evidencePackage = await capped.capture('pkg1')
+
+    expect(evidencePackage.status).toBe('PARTIAL')
+    expect(evidencePackage.errorMessage).toContain('Página truncada em 1024 bytes')
+    const warc = await fs.readFile(path.join(storageDir, 'pkg1', 'page.warc'), 'utf8')
+    expect(warc).not.toContain('</body>')
+  })
+
+  it('exports a ZIP with manifest, signature and artifacts', async () => {
+    await service().capture('pkg1')
+
+    const zip = await JSZip.loadAsync(await service().exportZip({ ...stored, artifacts: stored.artifacts }))
+
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining([
+      'manifest.json', 'manifest.sig.json', 'README.txt', 'artifacts/page.warc', 'artifacts/screenshot.png'
+    ]))
+    const signature = JSON.parse(await zip.file('manifest.sig.json')!.async('string'))
+    expect(signature).toEqual(expect.objectContaining({ manifestSha256: stored.manifestHash, signature: stored.signature }))
+  })
+
+  it('reuses an existing package unless forced', async () => {
+    mockPrisma.evidencePackage.findFirst.mockResolvedValue({ id: 'existing', status: 'COMPLETE' })
+
+    await expect(service().requestCapture('dc1', 'u1')).resolves.toEqual({ id: 'existing', status: 'COMPLETE' })
+    expect(mockPrisma.evidencePackage.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('verifyChain', () => {
+  it('detects reordered links', () => {
+    const capturedAt = new Date('2026-01-01T00:00:00Z')
+    const artifacts = chainArtifacts([
+      { kind: 'WARC', fileName: 'page.warc', mimeType: 'application/warc', content: Buffer.from('a'), capturedAt },
+      { kind: 'HEADERS', fileName: 'headers.json', mimeType: 'application/json', content: Buffer.from('b'), capturedAt }
+    ])
+
+    expect(verifyChain(artifacts).valid).toBe(true)
+    expect(verifyChain([
+      { ...artifacts[1], sequence: 1 },
+      { ...artifacts[0], sequence: 2 }
+    ])).toEqual(expect.objectContaining({ valid: false, brokenAt: 1 }))
+  })
+})
@@ -0,0 +1,197 @@
+import {
+  GroupedTakedownService,
+  getDomainKey,
+  getHostKey,
+  groupContentsByHost
+} from '@/lib/services/grouped-takedown.service'
+import { generateDmcaNotice } from '@/lib/dmca-templates'
+import { prisma } from '@/lib/prisma'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn() },
+    detectedContent: { findMany: jest.fn() },
+    dmcaTemplate: { findMany: jest.fn().mockResolvedValue([]), findFirst: jest.fn() },
+    takedownRequest: { findUnique: jest.fn(), update: jest.fn() },
+    takedownRequestItem: { update: jest.fn(), updateMany: jest.fn(), count: jest.fn() }
+  }
+}))
+
+jest.mock('@/lib/services/jurisdiction.service', () => ({
+  jurisdictionService: { detect: jest.fn().mockResolvedValue({ framework: 'US_DMCA', country: null, source: 'DEFAULT' }) }
+}))
+
+jest.mock('@/lib/services/evidence-package.service', () => ({
+  evidencePackageService: { findLatestForContent: jest.fn().mockResolvedValue(null) }
+}))
+
+jest.mock('@/lib/services/takedown-timeline.service', () => ({
+  recordTimelineEvent: jest.fn(),
+  stopEscalationChain: jest.fn()
+}))
+
+const content = (id: string, infringingUrl: string) => ({
+  id,
+  infringingUrl,
+  title: `Leak ${id}`,
+  brandProfile: { description: 'Conteúdo exclusivo', officialUrls: ['https://official.example'] }
+})
+
+describe('grouping', () => {
+  it('should derive host and registrable domain keys', () => {
+    expect(getHostKey('https://www.Pirate.example/video/1')).toBe('pirate.example')
+    expect(getDomainKey('https://cdn2.forum.com.br/a')).toBe('forum.com.br')
+    expect(getDomainKey('https://files.pirate.example/a')).toBe('pirate.example')
+    expect(getDomainKey('http://10.0.0.1/a')).toBe('10.0.0.1')
+    expect(getHostKey('not a url')).toBeNull()
+  })
+
+  it('should group by host or domain preserving order', () => {
+    const contents = [
+      content('1', 'https://a.pirate.example/1'),
+      content('2', 'https://b.pirate.example/2'),
+      content('3', 'https://a.pirate.example/3')
+    ]
+
+    expect(Array.from(groupContentsByHost(contents, 'HOST').entries()).map(([key, group]) => [key, group.map(c => c.id)]))
+      .toEqual([['a.pirate.example', ['1', '3']], ['b.pirate.example', ['2']]])
+    expect(groupContentsByHost(contents, 'DOMAIN').get('pirate.example')?.map(c => c.id)).toEqual(['1', '2', '3'])
+  })
+
+  it('should render every URL in the notice', () => {
+    const notice = generateDmcaNotice('en', {
+      userName: 'Owner',
+      userEmail: 'owner@example.com',
+      infringingUrl: 'https://pirate.example/1',
+      infringingUrls: ['https://pirate.example/1', 'https://pirate.example/2'],
+      contentDescription: 'Exclusive content'
+    })
+
+    expect(notice.subject).toContain('(2 URLs)')
+    expect(notice.body).toContain('1. https://pirate.example/1')
+    expect(notice.body).toContain('2. https://pirate.example/2')
+  })
+})
+
+describe('GroupedTakedownService', () => {
+  const service = new GroupedTakedownService()
+  const tx = {
+    takedownRequest: { create: jest.fn() },
+    detectedContent: { updateMany: jest.fn() }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(tx))
+    tx.takedownRequest.create.mockImplementation(async ({ data }) => ({ id: `takedown-${data.groupKey}`, ...data }))
+  })
+
+  it('should create one takedown per host with an item per URL', async () => {
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ name: 'Owner', email: 'owner@example.com', phone: null })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      content('1', 'https://pirate.example/1'),
+      content('2', 'https://lonely.example/2'),
+      content('3', 'https://www.pirate.example/3')
+    ])
+
+    const created = await service.createGroupedTakedowns('user-1', { scope: 'HOST' })
+
+    expect(created).toHaveLength(1)
+    expect(tx.takedownRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        detectedContentId: '1',
+        scope: 'HOST',
+        groupKey: 'pirate.example',
+        items: {
+          create: [
+            { detectedContentId: '1', url: 'https://pirate.example/1' },
+            { detectedContentId: '3', url: 'https://www.pirate.example/3' }
+          ]
+        }
+      })
+    })
+    expect(tx.detectedContent.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['1', '3'] } },
+      data: expect.objectContaining({ status: 'DMCA_SENT' })
+    })
+  })
+
+  it('should stop creating takedowns when the plan quota runs out', async () => {
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ name: 'Owner', email: 'owner@example.com', phone: null })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      content('1', 'https://pirate.example/1'),
+      content('2', 'https://pirate.example/2'),
+      content('3', 'https://leaks.example/3'),
+      content('4', 'https://leaks.example/4')
+    ])
+
+    const created = await service.createGroupedTakedowns('user-1', { scope: 'HOST', maxTakedowns: 1 })
+
+    expect(created.map(takedown => takedown.groupKey)).toEqual(['pirate.example'])
+    expect(tx.takedownRequest.create).toHaveBeenCalledTimes(1)
+    expect(tx.detectedContent.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['1', '2'] } },
+      data: expect.objectContaining({ status: 'DMCA_SENT' })
+    })
+  })
+
+  it('should reject an incomplete notice before creating any takedown', async () => {
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ name: '', email: 'owner@example.com', phone: null })
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([
+      content('1', 'https://pirate.example/1'),
+      content('2', 'https://pirate.example/2')
+    ])
+
+    await expect(service.createGroupedTakedowns('user-1', { scope: 'HOST' })).rejects.toMatchObject({
+      name: 'GroupedNoticeValidationError',
+      groupKey: 'pirate.example',
+      legalFramework: 'US_DMCA',
+      missing: ['senderName']
+    })
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('should move to PARTIALLY_REMOVED and then REMOVED as URLs come down', async () => {
+    const now = new Date('2025-07-10T12:00:00Z')
+    ;(prisma.takedownRequestItem.update as jest.Mock).mockResolvedValue({ takedownRequestId: 'takedown-1' })
+    ;(prisma.takedownRequest.findUnique as jest.Mock).mockResolvedValue({ status: 'SENT', acknowledgedAt: null })
+    ;(prisma.takedownRequestItem.count as jest.Mock).mockResolvedValueOnce(3).mockResolvedValueOnce(1)
+
+    const partial = await service.recordItemVerification('item-1', 'CONTENT_REMOVED', now)
+
+    expect(prisma.takedownRequestItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: expect.objectContaining({ status: 'REMOVED', lastRemovalStatus: 'CONTENT_REMOVED', removedAt: now })
+    })
+    expect(partial).toEqual({ total: 3, removed: 1, pending: 2, status: 'PARTIALLY_REMOVED' })
+    expect(prisma.takedownRequest.update).toHaveBeenCalledWith({
+      where: { id: 'takedown-1' },
+      data: { status: 'PARTIALLY_REMOVED', resolvedAt: null, acknowledgedAt: now }
+    })
+    expect(stopEscalationChain).not.toHaveBeenCalled()
+
+    ;(prisma.takedownRequest.findUnique as jest.Mock).mockResolvedValue({ status: 'PARTIALLY_REMOVED', acknowledgedAt: now })
+    ;(prisma.takedownRequestItem.count as jest.Mock).mockResolvedValueOnce(3).mockResolvedValueOnce(3)
+
+    const done = await service.recordItemVerification('item-3', 'CONTENT_BLOCKED', now)
+
+    expect(done?.status).toBe('REMOVED')
+    expect(recordTimelineEvent).toHaveBeenLastCalledWith('takedown-1', 'STATUS_CHANGED', expect.objectContaining({
+      metadata: expect.objectContaining({ from: 'PARTIALLY_REMOVED', to: 'REMOVED' })
+    }))
+    expect(stopEscalationChain).toHaveBeenCalledWith('takedown-1', expect.any(String), { totalUrls: 3 })
+  })
+
+  it('should leave rejected takedowns alone', async () => {
+    ;(prisma.takedownRequest.findUnique as jest.Mock).mockResolvedValue({ status: 'REJECTED', acknowledgedAt: null })
+    ;(prisma.takedownRequestItem.count as jest.Mock).mockResolvedValueOnce(2).mockResolvedValueOnce(2)
+
+    const summary = await service.updateItemStatus('takedown-1', ['item-1', 'item-2'], 'REMOVED')
+
+    expect(summary?.status).toBe('REJECTED')
+    expect(prisma.takedownRequest.update).not.toHaveBeenCalled()
+  })
+})
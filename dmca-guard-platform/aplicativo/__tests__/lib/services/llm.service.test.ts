@@ -0,0 +1,128 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    llmUsage: { findUnique: jest.fn(), upsert: jest.fn() }
+  }
+}))
+
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { FixtureProvider, LlmProvider, LlmProviderError, createProvidersFromEnv } from '@/lib/integrations/llm-providers'
+import { extractJson, LlmService, TextAnalysisSchema } from '@/lib/services/llm.service'
+
+function failingProvider(name: string, error = new LlmProviderError(`${name} fora do ar`, name)): LlmProvider & { complete: jest.Mock } {
+  return { name, model: `${name}-model`, complete: jest.fn().mockRejectedValue(error) }
+}
+
+describe('LlmService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ planType: 'BASIC', email: 'user@example.com' })
+    ;(prisma.llmUsage.findUnique as jest.Mock).mockResolvedValue(null)
+  })
+
+  it('fails over to the next provider when one is down', async () => {
+    const down = failingProvider('gemini')
+    const fixture = new FixtureProvider([{ match: 'olá', response: 'resposta do fixture' }])
+    const service = new LlmService({ providers: [down, fixture] })
+
+    const response = await service.generateText('olá mundo')
+
+    expect(response).toMatchObject({ text: 'resposta do fixture', provider: 'fixture', cached: false })
+    expect(down.complete).toHaveBeenCalledTimes(1)
+
+    // Em espera após a falha: o provedor seguinte é tentado primeiro
+    await service.generateText('olá de novo')
+    expect(down.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it('validates structured output and moves on when a provider returns something else', async () => {
+    const broken = new FixtureProvider([], 'Não consigo responder em JSON')
+    const good = new FixtureProvider([], '```json\n{"riskScore": 82, "violationType": "LEAKED_CONTENT", "keyFindings": ["pack completo"]}\n```')
+    const service = new LlmService({ providers: [broken, good] })
+
+    const { data, provider } = await service.generateObject(TextAnalysisSchema, 'analise a página')
+
+    expect(provider).toBe('fixture')
+    expect(good.requests[0].json).toBe(true)
+    expect(data).toMatchObject({
+      riskScore: 82,
+      violationType: 'LEAKED_CONTENT',
+      recommendedAction: 'NEEDS_HUMAN_REVIEW',
+      keyFindings: ['pack completo'],
+      confidence: 0.5
+    })
+  })
+
+  it('raises instead of inventing an analysis when every provider fails', async () => {
+    const service = new LlmService({ providers: [failingProvider('gemini'), failingProvider('ollama')] })
+
+    await expect(service.generateObject(TextAnalysisSchema, 'analise')).rejects.toMatchObject({
+      name: 'LlmUnavailableError',
+      status: 503,
+      failures: ['gemini: gemini fora do ar', 'ollama: ollama fora do ar']
+    })
+    await expect(new LlmService({ providers: [new FixtureProvider([], { category: 'X' })] })
+      .generateObject(z.object({ category: z.enum(['A', 'B']) }), 'classifique'))
+      .rejects.toMatchObject({ name: 'LlmOutputError' })
+  })
+
+  it('answers repeated prompts from the cache', async () => {
+    const fixture = new FixtureProvider([], { riskScore: 10 })
+    const service = new LlmService({ providers: [fixture] })
+
+    await service.generateObject(TextAnalysisSchema, 'mesmo prompt', { userId: 'user-1' })
+    const second = await service.generateObject(TextAnalysisSchema, 'mesmo prompt', { userId: 'user-1' })
+    await service.generateObject(TextAnalysisSchema, 'mesmo prompt', { cache: false })
+
+    expect(second.cached).toBe(true)
+    expect(second.data.riskScore).toBe(10)
+    expect(fixture.requests).toHaveLength(2)
+    expect(prisma.llmUsage.upsert).toHaveBeenCalledTimes(1)
+  })
+
+  it('records token usage for the current month', async () => {
+    const service = new LlmService({ providers: [new FixtureProvider([], 'ok')] })
+
+    const response = await service.generateText('conte os tokens', { userId: 'user-1' })
+
+    const period = new Date().toISOString().slice(0, 7)
+    expect(prisma.llmUsage.upsert).toHaveBeenCalledWith({
+      where: { userId_period: { userId: 'user-1', period } },
+      create: expect.objectContaining({ userId: 'user-1', period, totalTokens: response.usage.totalTokens, requests: 1 }),
+      update: expect.objectContaining({ totalTokens: { increment: response.usage.totalTokens }, requests: { increment: 1 } })
+    })
+  })
+
+  it('blocks calls once the plan budget is spent', async () => {
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ planType: 'FREE', email: 'user@example.com' })
+    ;(prisma.llmUsage.findUnique as jest.Mock).mockResolvedValue({ totalTokens: 50000 })
+    const fixture = new FixtureProvider([], 'ok')
+
+    await expect(new LlmService({ providers: [fixture] }).generateText('mais um', { userId: 'user-1' }))
+      .rejects.toMatchObject({ name: 'LlmBudgetExceededError', status: 429 })
+    expect(fixture.requests).toHaveLength(0)
+  })
+})
+
+describe('llm providers', () => {
+  it('builds the configured providers in LLM_PROVIDERS order', () => {
+    const providers = createProvidersFromEnv({
+      LLM_PROVIDERS: 'openai,gemini',
+      GEMINI_API_KEY: 'key',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+      OPENAI_COMPATIBLE_MODEL: 'llama3.1'
+    } as unknown as NodeJS.ProcessEnv)
+
+    expect(providers.map(provider => [provider.name, provider.model])).toEqual([
+      ['openai-compatible', 'llama3.1'],
+      ['gemini', 'gemini-1.5-flash-8b']
+    ])
+    expect(createProvidersFromEnv({} as unknown as NodeJS.ProcessEnv)).toEqual([])
+  })
+
+  it('extracts JSON wrapped in prose', () => {
+    expect(extractJson('Claro! {"a": [1, 2]} Espero ter ajudado')).toEqual({ a: [1, 2] })
+    expect(() => extractJson('sem json')).toThrow('Resposta não contém JSON')
+  })
+})
@@ -0,0 +1,144 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    brandProfile: { findFirst: jest.fn() },
+    referenceImage: { create: jest.fn(), findMany: jest.fn() },
+    detectedContent: { findUnique: jest.fn(), update: jest.fn() }
+  }
+}))
+jest.mock('@/lib/extraction/content-extractor', () => ({ ContentExtractor: jest.fn() }))
+
+import sharp from 'sharp'
+import { prisma } from '@/lib/prisma'
+import { comparePerceptualHashes, computeImageFingerprint, REFERENCE_CROPS } from '@/lib/content-fingerprint/perceptual-hash'
+import { FingerprintFetcher, FingerprintResponse } from '@/lib/services/content-fingerprint.service'
+import { ReferenceImageError, ReferenceImageService } from '@/lib/services/reference-image.service'
+
+// Cena sintética: gradientes, um retângulo e um círculo cujas posições variam com a semente
+function scene(seed: number, width = 320, height = 240): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3
+      const inBox = x > width * (0.2 + seed * 0.1) && x < width * 0.6 && y > height * 0.3 && y < height * (0.8 - seed * 0.2)
+      const inCircle = (x - width * (0.75 - seed * 0.4)) ** 2 + (y - height * 0.3) ** 2 < (height * 0.18) ** 2
+      pixels[i] = inBox ? 220 : (x * (seed + 1) * 255 / width) % 256
+      pixels[i + 1] = inCircle ? 30 : (y * 255 / height)
+      pixels[i + 2] = inBox ? 40 : 128 + seed * 60
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer()
+}
+
+function fakeFetcher(images: Record<string, Buffer>): FingerprintFetcher {
+  return jest.fn(async (url: string) => {
+    const body = images[url]
+    return {
+      status: body ? 200 : 404,
+      url,
+      headers: new Headers({ 'content-type': body ? 'image/jpeg' : 'text/html' }),
+      arrayBuffer: async () => (body ?? Buffer.alloc(0)).buffer.slice(body?.byteOffset ?? 0, (body?.byteOffset ?? 0) + (body?.length ?? 0))
+    } as unknown as FingerprintResponse
+  })
+}
+
+describe('perceptual hashes', () => {
+  let original: Buffer
+
+  beforeAll(async () => {
+    original = await scene(0)
+  })
+
+  it('matches resized and re-encoded copies', async () => {
+    const reference = await computeImageFingerprint(original, REFERENCE_CROPS)
+    const copy = await computeImageFingerprint(await sharp(original).resize(160).jpeg({ quality: 60 }).toBuffer())
+
+    expect(reference.pHash).toMatch(/^[0-9a-f]{16}$/)
+    expect(comparePerceptualHashes(reference, copy)).toMatchObject({ crop: 'full', similarity: expect.any(Number) })
+    expect(comparePerceptualHashes(reference, copy)!.pHashDistance).toBeLessThanOrEqual(4)
+  })
+
+  it('matches cropped copies through the stored crop variants', async () => {
+    const reference = await computeImageFingerprint(original, REFERENCE_CROPS)
+    const borders = await computeImageFingerprint(await sharp(original).extract({ left: 16, top: 12, width: 288, height: 216 }).jpeg().toBuffer())
+    const watermarkBand = await computeImageFingerprint(await sharp(original).extract({ left: 0, top: 24, width: 320, height: 216 }).toBuffer())
+
+    expect(comparePerceptualHashes({ pHash: reference.pHash, dHash: reference.dHash }, borders)).toBeNull()
+    expect(comparePerceptualHashes(reference, borders)).toMatchObject({ crop: 'center-90' })
+    expect(comparePerceptualHashes(reference, watermarkBand)).toMatchObject({ crop: 'trim-top' })
+  })
+
+  it('does not match a different image', async () => {
+    const reference = await computeImageFingerprint(original, REFERENCE_CROPS)
+    const other = await computeImageFingerprint(await scene(1))
+
+    expect(comparePerceptualHashes(reference, other)).toBeNull()
+  })
+})
+
+describe('ReferenceImageService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('stores only the hashes of an uploaded reference image', async () => {
+    ;(prisma.brandProfile.findFirst as jest.Mock).mockResolvedValue({ id: 'bp1' })
+    ;(prisma.referenceImage.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'ref-1', ...data }))
+
+    const reference = await new ReferenceImageService({ extractor: { extractContent: jest.fn() } })
+      .register('user-1', 'bp1', { image: await scene(0), mimeType: 'image/png', title: 'Capa' })
+
+    expect(reference).toMatchObject({
+      profileId: 'bp1',
+      title: 'Capa',
+      pHash: expect.stringMatching(/^[0-9a-f]{16}$/),
+      dHash: expect.stringMatching(/^[0-9a-f]{16}$/),
+      width: 320,
+      height: 240
+    })
+    expect((reference as any).cropHashes).toHaveLength(REFERENCE_CROPS.length)
+  })
+
+  it('rejects unsupported files', async () => {
+    const service = new ReferenceImageService({ extractor: { extractContent: jest.fn() } })
+    ;(prisma.brandProfile.findFirst as jest.Mock).mockResolvedValue({ id: 'bp1' })
+
+    await expect(service.register('user-1', 'bp1', { image: Buffer.from('GIF89a'), mimeType: 'image/gif' }))
+      .rejects.toThrow(ReferenceImageError)
+    await expect(service.register('user-1', 'bp1', { image: Buffer.from('não é imagem'), mimeType: 'image/png' }))
+      .rejects.toThrow('Arquivo não é uma imagem válida')
+    expect(prisma.referenceImage.create).not.toHaveBeenCalled()
+  })
+
+  it('records similarity and the matching images of a detected page', async () => {
+    const original = await scene(0)
+    const reference = await computeImageFingerprint(original, REFERENCE_CROPS)
+    ;(prisma.referenceImage.findMany as jest.Mock).mockResolvedValue([
+      { id: 'ref-1', pHash: reference.pHash, dHash: reference.dHash, cropHashes: reference.crops }
+    ])
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      brandProfileId: 'bp1',
+      infringingUrl: 'https://pirate.example/p/1',
+      thumbnailUrl: null,
+      similarity: 0.6
+    })
+    const extractor = {
+      extractContent: jest.fn().mockResolvedValue({
+        images: ['https://cdn.pirate.example/logo.png', 'https://cdn.pirate.example/a.jpg', 'https://cdn.pirate.example/b.jpg']
+      })
+    }
+    const fetcher = fakeFetcher({
+      'https://cdn.pirate.example/a.jpg': await sharp(original).resize(200).jpeg({ quality: 70 }).toBuffer(),
+      'https://cdn.pirate.example/b.jpg': await sharp(await scene(1)).jpeg().toBuffer()
+    })
+
+    const matches = await new ReferenceImageService({ fetcher, extractor: extractor as any, minImageBytes: 0 })
+      .matchDetectedContent('dc1')
+
+    expect(matches).toEqual([expect.objectContaining({ imageUrl: 'https://cdn.pirate.example/a.jpg', referenceImageId: 'ref-1' })])
+    expect(fetcher).not.toHaveBeenCalledWith('https://cdn.pirate.example/logo.png', expect.anything())
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({
+      where: { id: 'dc1' },
+      data: { similarity: matches[0].similarity, imagesFound: ['https://cdn.pirate.example/a.jpg'] }
+    })
+  })
+})
@@ -0,0 +1,151 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    brandProfile: { findFirst: jest.fn() },
+    referenceVideo: { create: jest.fn(), findMany: jest.fn() },
+    videoFingerprintMatch: { upsert: jest.fn() },
+    detectedContent: { findUnique: jest.fn(), update: jest.fn() }
+  }
+}))
+
+import { prisma } from '@/lib/prisma'
+import { extractKeyframes, FfmpegRunner, matchFrameSequences } from '@/lib/content-fingerprint/video-keyframes'
+import { FingerprintFetcher, FingerprintResponse } from '@/lib/services/content-fingerprint.service'
+import { extractVideoCandidates, ReferenceVideoService } from '@/lib/services/reference-video.service'
+
+const SIZE = 64
+
+// Quadro sintético 64x64 em tons de cinza: blocos 8x8 com brilho pseudoaleatório pela semente
+function frame(seed: number): Buffer {
+  const pixels = Buffer.alloc(SIZE * SIZE)
+  let state = seed * 7919 + 17
+  const blocks = Array.from({ length: 64 }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return 30 + (state % 196)
+  })
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      pixels[y * SIZE + x] = blocks[Math.floor(y / 8) * 8 + Math.floor(x / 8)]
+    }
+  }
+  return pixels
+}
+
+function fakeRunner(videos: Record<string, Buffer[]>): FfmpegRunner {
+  return jest.fn(async (args: string[]) => {
+    if (args[0] === '-version') return { stdout: Buffer.from('ffmpeg version 6.1'), stderr: '' }
+    const frames = videos[args[args.indexOf('-i') + 1]]
+    if (!frames) throw new Error('ffmpeg terminou com código 1: No such file')
+    return { stdout: Buffer.concat(frames), stderr: 'Input #0, mov,mp4\n  Duration: 00:00:40.00, start: 0.000000' }
+  })
+}
+
+const seeds = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i)
+
+describe('video keyframes', () => {
+  it('hashes each sampled frame and skips flat frames', async () => {
+    const runner = fakeRunner({ 'clip.mp4': [frame(1), Buffer.alloc(SIZE * SIZE, 0), frame(2)] })
+
+    const keyframes = await extractKeyframes('clip.mp4', { runner, intervalSeconds: 2 })
+
+    expect(keyframes.durationSeconds).toBe(40)
+    expect(keyframes.frames.map(f => f.t)).toEqual([0, 4])
+    expect(keyframes.frames[0].pHash).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('finds the reference segment inside a longer video with its timestamps', async () => {
+    const reference = await extractKeyframes('ref.mp4', { runner: fakeRunner({ 'ref.mp4': seeds(0, 20).map(frame) }) })
+    const candidate = await extractKeyframes('leak.mp4', {
+      runner: fakeRunner({ 'leak.mp4': [...seeds(100, 103), ...seeds(5, 13), ...seeds(200, 202)].map(frame) })
+    })
+
+    const match = matchFrameSequences(reference.frames, candidate.frames, { frameInterval: 2 })
+
+    expect(match).not.toBeNull()
+    expect(match!.segments).toEqual([{ referenceStart: 10, referenceEnd: 24, candidateStart: 6, candidateEnd: 20, frames: 8 }])
+    expect(match!.score).toBeCloseTo(8 / 13)
+  })
+
+  it('does not match unrelated videos', async () => {
+    const reference = await extractKeyframes('ref.mp4', { runner: fakeRunner({ 'ref.mp4': seeds(0, 20).map(frame) }) })
+    const other = await extractKeyframes('other.mp4', { runner: fakeRunner({ 'other.mp4': seeds(300, 320).map(frame) }) })
+
+    expect(matchFrameSequences(reference.frames, other.frames, { frameInterval: 2 })).toBeNull()
+  })
+})
+
+describe('extractVideoCandidates', () => {
+  it('collects video sources and previews from the page', () => {
+    const html = `
+      <meta property="og:video" content="https://cdn.pirate.example/og.mp4">
+      <meta property="og:image" content="/previews/og.jpg">
+      <video src="/v/1.mp4" poster="/previews/1.jpg"><source src="/v/1.webm" type="video/webm"></video>
+      <a href="/download/movie.mkv?token=1">baixar</a>
+      <a href="/sobre">sobre</a>
+      <video src="blob:https://pirate.example/abc"></video>`
+
+    expect(extractVideoCandidates(html, 'https://pirate.example/watch/1')).toEqual({
+      videos: [
+        'https://pirate.example/v/1.mp4',
+        'https://pirate.example/v/1.webm',
+        'https://cdn.pirate.example/og.mp4',
+        'https://pirate.example/download/movie.mkv?token=1'
+      ],
+      thumbnails: ['https://pirate.example/previews/1.jpg', 'https://pirate.example/previews/og.jpg']
+    })
+  })
+})
+
+describe('ReferenceVideoService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('refuses registration when ffmpeg is not installed', async () => {
+    ;(prisma.brandProfile.findFirst as jest.Mock).mockResolvedValue({ id: 'bp1' })
+    const runner = jest.fn().mockRejectedValue(new Error('ENOENT'))
+
+    await expect(new ReferenceVideoService({ runner }).register('user-1', 'bp1', { video: Buffer.from('x'), mimeType: 'video/mp4' }))
+      .rejects.toMatchObject({ name: 'ReferenceVideoError', status: 503 })
+    expect(prisma.referenceVideo.create).not.toHaveBeenCalled()
+  })
+
+  it('records the matching segments of a video found on the detected page', async () => {
+    const reference = await extractKeyframes('ref.mp4', { runner: fakeRunner({ 'ref.mp4': seeds(0, 20).map(frame) }) })
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      brandProfileId: 'bp1',
+      infringingUrl: 'https://pirate.example/watch/1',
+      thumbnailUrl: null,
+      similarity: 0.4
+    })
+    ;(prisma.referenceVideo.findMany as jest.Mock).mockResolvedValue([
+      { id: 'rv1', frames: reference.frames, frameInterval: 2 }
+    ])
+    ;(prisma.videoFingerprintMatch.upsert as jest.Mock).mockImplementation(async ({ create }) => ({ id: 'vm1', ...create }))
+
+    const fetcher: FingerprintFetcher = jest.fn(async (url: string) => ({
+      status: 200,
+      url,
+      headers: new Headers({ 'content-type': 'text/html; charset=utf-8' }),
+      arrayBuffer: async () => {
+        const body = Buffer.from('<video src="/v/leak.mp4"></video>')
+        return body.buffer.slice(body.byteOffset, body.byteOffset + body.length)
+      }
+    } as unknown as FingerprintResponse))
+    const runner = fakeRunner({ 'https://pirate.example/v/leak.mp4': seeds(4, 16).map(frame) })
+
+    const matches = await new ReferenceVideoService({ fetcher, runner, intervalSeconds: 2 }).matchDetectedContent('dc1')
+
+    expect(matches).toEqual([expect.objectContaining({
+      detectedContentId: 'dc1',
+      referenceVideoId: 'rv1',
+      candidateUrl: 'https://pirate.example/v/leak.mp4',
+      source: 'VIDEO',
+      matchedFrames: 12,
+      segments: [{ referenceStart: 8, referenceEnd: 30, candidateStart: 0, candidateEnd: 22, frames: 12 }]
+    })])
+    expect(prisma.detectedContent.update).toHaveBeenCalledWith({
+      where: { id: 'dc1' },
+      data: { similarity: 1 }
+    })
+  })
+})
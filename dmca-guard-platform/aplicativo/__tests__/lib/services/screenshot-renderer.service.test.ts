@@ -0,0 +1,161 @@
+import sharp from 'sharp'
+import {
+  blurImageRegions,
+  ScreenshotRenderer,
+  VIEWPORT_PRESETS
+} from '@/lib/services/screenshot-renderer.service'
+import { ObjectStorage } from '@/lib/services/object-storage'
+
+// Listras verticais pretas e brancas de 1px: o blur vira cinza, o resto continua 0 ou 255
+async function stripes(width: number, height: number): Promise<Buffer> {
+  const raw = Buffer.alloc(width * height * 3)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      raw.fill(x % 2 === 0 ? 0 : 255, (y * width + x) * 3, (y * width + x) * 3 + 3)
+    }
+  }
+  return sharp(raw, { raw: { width, height, channels: 3 } }).png().toBuffer()
+}
+
+async function pixel(image: Buffer, x: number, y: number): Promise<number> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true })
+  return data[(y * info.width + x) * info.channels]
+}
+
+function fakePage(image: Buffer, overrides: Record<string, jest.Mock> = {}) {
+  return {
+    setViewport: jest.fn(),
+    setUserAgent: jest.fn(),
+    goto: jest.fn().mockResolvedValue({ status: () => 200 }),
+    $$eval: jest.fn().mockResolvedValue([]),
+    evaluate: jest.fn().mockResolvedValue(800),
+    screenshot: jest.fn().mockResolvedValue(image),
+    url: jest.fn().mockReturnValue('https://pirate.example/final'),
+    close: jest.fn().mockResolvedValue(undefined),
+    ...overrides
+  }
+}
+
+function rendererFor(page: ReturnType<typeof fakePage>, storage?: ObjectStorage) {
+  const browser = { newPage: jest.fn().mockResolvedValue(page), close: jest.fn(), connected: true }
+  return {
+    browser,
+    renderer: new ScreenshotRenderer({
+      launcher: jest.fn().mockResolvedValue(browser),
+      storage: storage ? () => storage : undefined,
+      thumbnailWidth: 50
+    })
+  }
+}
+
+describe('blurImageRegions', () => {
+  it('blurs only inside the region and ignores regions outside the image', async () => {
+    const image = await stripes(100, 40)
+
+    const blurred = await blurImageRegions(image, [
+      { x: 20, y: 10, width: 30, height: 20 },
+      { x: 500, y: 500, width: 10, height: 10 }
+    ])
+
+    const inside = await pixel(blurred, 35, 20)
+    expect(inside).toBeGreaterThan(60)
+    expect(inside).toBeLessThan(200)
+    expect([0, 255]).toContain(await pixel(blurred, 80, 35))
+  })
+})
+
+describe('ScreenshotRenderer', () => {
+  it('applies the viewport preset and user agent and closes the page', async () => {
+    const page = fakePage(await stripes(40, 20))
+    const { renderer } = rendererFor(page)
+
+    const result = await renderer.render('https://pirate.example/leak', { viewport: 'mobile' })
+
+    expect(page.setViewport).toHaveBeenCalledWith(VIEWPORT_PRESETS.mobile)
+    expect(page.setUserAgent).toHaveBeenCalledWith(expect.stringContaining('iPhone'))
+    expect(page.goto).toHaveBeenCalledWith('https://pirate.example/leak', expect.objectContaining({ timeout: 30000 }))
+    expect(result).toMatchObject({ width: 40, height: 20, httpStatus: 200, finalUrl: 'https://pirate.example/final', loadTimedOut: false })
+    expect(page.close).toHaveBeenCalled()
+  })
+
+  it('still captures the page when loading times out', async () => {
+    const timeout = Object.assign(new Error('Navigation timeout of 5000 ms exceeded'), { name: 'TimeoutError' })
+    const page = fakePage(await stripes(40, 20), { goto: jest.fn().mockRejectedValue(timeout) })
+    const { renderer } = rendererFor(page)
+
+    const result = await renderer.render('https://slow.example', { timeoutMs: 5000 })
+
+    expect(result.loadTimedOut).toBe(true)
+    expect(result.httpStatus).toBeNull()
+    expect(page.screenshot).toHaveBeenCalled()
+  })
+
+  it('blurs elements matched by selector, scaled by the device pixel ratio', async () => {
+    const page = fakePage(await stripes(200, 100), {
+      $$eval: jest.fn().mockResolvedValue([{ x: 10, y: 10, width: 20, height: 10 }])
+    })
+    const { renderer } = rendererFor(page)
+
+    const result = await renderer.render('https://pirate.example', {
+      viewport: { width: 100, height: 50, deviceScaleFactor: 2 },
+      blurSelectors: ['img', 'video']
+    })
+
+    expect(page.$$eval).toHaveBeenCalledWith('img,video', expect.any(Function), false)
+    const inside = await pixel(result.image, 40, 30)
+    expect(inside).toBeGreaterThan(60)
+    expect(inside).toBeLessThan(200)
+    expect([0, 255]).toContain(await pixel(result.image, 15, 30))
+  })
+
+  it('clips very long full-page captures', async () => {
+    const page = fakePage(await stripes(40, 20), { evaluate: jest.fn().mockResolvedValue(50000) })
+    const { renderer } = rendererFor(page)
+
+    await renderer.render('https://infinite.example', { fullPage: true })
+
+    expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({
+      clip: { x: 0, y: 0, width: VIEWPORT_PRESETS.laptop.width, height: 15000 },
+      captureBeyondViewport: true
+    }))
+  })
+
+  it('stores the image and a thumbnail in the storage backend', async () => {
+    const objects = new Map<string, { body: Buffer; contentType: string }>()
+    const storage: ObjectStorage = {
+      driver: 'local',
+      put: jest.fn(async (key, body, contentType) => { objects.set(key, { body, contentType }) }),
+      get: jest.fn(),
+      delete: jest.fn()
+    }
+    const { renderer } = rendererFor(fakePage(await stripes(200, 100)), storage)
+
+    const stored = await renderer.renderToStorage('https://pirate.example', 'removal-proofs/td1/2026')
+
+    expect(stored).toMatchObject({ path: 'removal-proofs/td1/2026.png', thumbnailPath: 'removal-proofs/td1/2026.thumb.jpg' })
+    expect(objects.get(stored.path)?.contentType).toBe('image/png')
+    const thumbnail = await sharp(objects.get(stored.thumbnailPath)!.body).metadata()
+    expect(thumbnail).toMatchObject({ format: 'jpeg', width: 50, height: 25 })
+  })
+
+  it('reuses the browser and relaunches it after a disconnect', async () => {
+    const page = fakePage(await stripes(10, 10))
+    const { renderer, browser } = rendererFor(page)
+    const launcher = (renderer as any).launcher as jest.Mock
+
+    await renderer.render('https://a.example')
+    await renderer.render('https://b.example')
+    expect(launcher).toHaveBeenCalledTimes(1)
+
+    browser.connected = false
+    await renderer.render('https://c.example')
+    expect(launcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('refuses to render without a configured browser', async () => {
+    const renderer = new ScreenshotRenderer({ executablePath: '' })
+
+    expect(renderer.isAvailable()).toBe(false)
+    await expect(renderer.render('https://pirate.example')).rejects.toThrow('Chromium não configurado')
+  })
+})
@@ -0,0 +1,248 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    detectedContent: { findUnique: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+    staydownWatch: { upsert: jest.fn(), updateMany: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    staydownMatch: { create: jest.fn() },
+    knownSite: { findFirst: jest.fn(), create: jest.fn() },
+    takedownRequest: { create: jest.fn() },
+    user: { findUnique: jest.fn() },
+    dmcaTemplate: { findMany: jest.fn() }
+  }
+}))
+jest.mock('@/lib/agents/KnownSitesAgent', () => ({ KnownSitesAgent: jest.fn() }))
+jest.mock('@/lib/services/notification.service', () => ({
+  notificationService: { create: jest.fn() },
+  NotificationType: { STAYDOWN_REUPLOAD: 'STAYDOWN_REUPLOAD' }
+}))
+jest.mock('@/lib/services/takedown-timeline.service', () => ({ recordTimelineEvent: jest.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { extractPageText, PageSnapshot } from '@/lib/content-fingerprint/fingerprint'
+import { hammingDistance, simhash } from '@/lib/content-fingerprint/simhash'
+import { ContentFingerprintService } from '@/lib/services/content-fingerprint.service'
+import { notificationService } from '@/lib/services/notification.service'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+import {
+  candidateFromSnapshot,
+  fileNameFromUrl,
+  scoreReupload,
+  StaydownFingerprint,
+  StaydownService
+} from '@/lib/services/staydown.service'
+
+const ARTICLE = 'Ensaio exclusivo da criadora vazado sem autorização com quarenta fotos em alta resolução e dois vídeos completos disponíveis para download gratuito sem cadastro nesta página até o fim da semana'
+const TEXT = extractPageText(`<p>${ARTICLE}</p>`).normalizedText
+
+function snapshot(overrides: Partial<PageSnapshot> = {}): PageSnapshot {
+  return {
+    url: 'https://pirate.example/p/9921/ensaio-vazado',
+    finalUrl: 'https://pirate.example/p/9921/ensaio-vazado',
+    httpStatus: 200,
+    title: 'Ensaio vazado da criadora',
+    normalizedText: TEXT,
+    imageHashes: [],
+    ...overrides
+  }
+}
+
+const watched: StaydownFingerprint = {
+  title: 'Ensaio vazado da criadora',
+  textSimhash: simhash(TEXT),
+  imageHashes: [{ url: 'https://cdn.pirate.example/1.jpg', sha256: 'aaa' }],
+  fileNames: ['ensaio-vazado']
+}
+
+describe('staydown matching', () => {
+  it('computes near-duplicate SimHashes for lightly edited text', () => {
+    const edited = simhash(`${TEXT} compartilhe com os amigos`)!
+
+    expect(simhash(TEXT)).toMatch(/^[0-9a-f]{16}$/)
+    expect(hammingDistance(simhash(TEXT)!, edited)).toBeLessThanOrEqual(8)
+    expect(simhash('texto curto')).toBeNull()
+    expect(() => hammingDistance('ab', 'abc')).toThrow()
+  })
+
+  it('extracts file names that identify the upload and ignores generic ones', () => {
+    expect(fileNameFromUrl('https://files.example/f/a1b2/Ensaio%20Vazado.MP4')).toBe('ensaio vazado.mp4')
+    expect(fileNameFromUrl('https://pirate.example/watch')).toBeNull()
+    expect(fileNameFromUrl('https://pirate.example/p/12345')).toBeNull()
+  })
+
+  it('scores identical images and text as a re-upload', () => {
+    const match = scoreReupload(watched, candidateFromSnapshot(snapshot({
+      imageHashes: [{ url: 'https://cdn.pirate.example/novo.jpg', sha256: 'aaa' }]
+    })))
+
+    expect(match.score).toBe(0.99)
+    expect(match.signals).toEqual([
+      'Imagens idênticas às do conteúdo removido: 1/1',
+      'Texto quase idêntico (SimHash a 0 bits)',
+      'Mesmo nome de arquivo: ensaio-vazado',
+      'Título semelhante (100%)'
+    ])
+  })
+
+  it('does not flag unrelated pages that only share a similar title', () => {
+    const match = scoreReupload(watched, candidateFromSnapshot(snapshot({
+      url: 'https://pirate.example/p/1/outro-post',
+      normalizedText: 'outro post qualquer com conteudo totalmente diferente sobre viagens e praias do nordeste brasileiro',
+      imageHashes: [{ url: 'https://cdn.pirate.example/x.jpg', sha256: 'zzz' }]
+    })))
+
+    expect(match.score).toBe(0.6)
+  })
+})
+
+describe('StaydownService', () => {
+  const fingerprints = { snapshot: jest.fn(), enqueueCapture: jest.fn() }
+  const searcher = jest.fn()
+  let service: StaydownService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new StaydownService({
+      searcher,
+      fingerprints: fingerprints as unknown as ContentFingerprintService,
+      watchDays: 90,
+      scanIntervalHours: 24
+    })
+  })
+
+  it('watches removed content using its stored fingerprint', async () => {
+    const now = new Date('2026-05-01T00:00:00Z')
+    ;(prisma.detectedContent.findUnique as jest.Mock).mockResolvedValue({
+      id: 'dc1',
+      userId: 'user-1',
+      title: 'Detecção',
+      infringingUrl: 'https://www.pirate.example/p/1/ensaio-vazado',
+      contentFingerprint: { title: 'Ensaio vazado da criadora', normalizedText: TEXT, imageHashes: watched.imageHashes }
+    })
+    ;(prisma.staydownWatch.upsert as jest.Mock).mockImplementation(async ({ create }) => create)
+
+    const watch = await service.watch('dc1', 'td1', now)
+
+    expect(watch).toMatchObject({
+      detectedContentId: 'dc1',
+      takedownRequestId: 'td1',
+      host: 'pirate.example',
+      title: 'Ensaio vazado da criadora',
+      textSimhash: simhash(TEXT),
+      fileNames: ['ensaio-vazado'],
+      status: 'ACTIVE',
+      expiresAt: new Date('2026-07-30T00:00:00Z'),
+      nextScanAt: new Date('2026-05-02T00:00:00Z')
+    })
+  })
+
+  it('drafts a repeat-infringement notice for a re-upload found on the same host', async () => {
+    const now = new Date('2026-05-10T00:00:00Z')
+    const original = {
+      id: 'dc1',
+      userId: 'user-1',
+      brandProfileId: 'bp1',
+      monitoringSessionId: 'ms1',
+      title: 'Ensaio vazado',
+      contentType: 'IMAGE',
+      platform: 'website',
+      infringingUrl: 'https://pirate.example/p/1/ensaio-vazado'
+    }
+    const previous = {
+      id: 'td1',
+      requestType: 'DMCA',
+      legalFramework: 'US_DMCA',
+      dmcaTemplateId: null,
+      priority: 5,
+      jurisdictionCountry: 'US',
+      jurisdictionSource: 'RDAP',
+      language: 'en',
+      noticeFields: null,
+      sentAt: new Date('2026-03-15T10:00:00Z'),
+      createdAt: new Date('2026-03-14T10:00:00Z')
+    }
+    ;(prisma.staydownWatch.updateMany as jest.Mock)
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 })
+    ;(prisma.staydownWatch.findMany as jest.Mock).mockResolvedValue([{
+      id: 'w1',
+      nextScanAt: new Date('2026-05-09T00:00:00Z'),
+      userId: 'user-1',
+      detectedContentId: 'dc1',
+      host: 'pirate.example',
+      ...watched,
+      detectedContent: original,
+      takedownRequest: previous
+    }])
+    ;(prisma.knownSite.findFirst as jest.Mock).mockResolvedValue({ id: 'site-1', baseUrl: 'https://pirate.example' })
+    searcher.mockResolvedValue([{
+      url: 'https://pirate.example/search?q=ensaio',
+      links: [
+        'https://pirate.example/p/1/ensaio-vazado',
+        'https://pirate.example/',
+        'https://other.example/p/3/ensaio-vazado',
+        'https://pirate.example/p/2/ensaio-vazado-2',
+        'https://pirate.example/p/4/receitas'
+      ]
+    }])
+    ;(prisma.detectedContent.findMany as jest.Mock).mockResolvedValue([])
+    fingerprints.snapshot.mockImplementation(async (url: string) => url.endsWith('receitas')
+      ? snapshot({ url, title: 'Receitas de bolo', normalizedText: 'receitas de bolo de cenoura com cobertura de chocolate para o lanche da tarde', imageHashes: [] })
+      : snapshot({ url, imageHashes: [{ url: 'https://cdn.pirate.example/2.jpg', sha256: 'aaa' }] }))
+    ;(prisma.detectedContent.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      id: 'dc2',
+      ...data,
+      brandProfile: { brandName: 'Foto Pro', description: 'Ensaio completo', officialUrls: ['https://fotopro.example'] }
+    }))
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ name: 'Maria Silva', email: 'maria@example.com' })
+    ;(prisma.dmcaTemplate.findMany as jest.Mock).mockResolvedValue([])
+    ;(prisma.takedownRequest.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: 'td2', ...data }))
+
+    const result = await service.scanDue(now)
+
+    expect(result).toEqual({ scanned: 1, reuploads: 1, failed: 0, expired: 0 })
+    expect(prisma.staydownWatch.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'w1', status: 'ACTIVE', nextScanAt: new Date('2026-05-09T00:00:00Z') },
+      data: { lastScannedAt: now, nextScanAt: new Date('2026-05-11T00:00:00Z') }
+    })
+    expect(searcher).toHaveBeenCalledWith('user-1', expect.objectContaining({ id: 'site-1' }), ['Ensaio vazado da criadora', 'ensaio vazado'])
+    expect(fingerprints.snapshot).toHaveBeenCalledTimes(2)
+    expect(prisma.detectedContent.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ infringingUrl: 'https://pirate.example/p/2/ensaio-vazado-2', brandProfileId: 'bp1', priority: 'HIGH' })
+    }))
+
+    const draft = (prisma.takedownRequest.create as jest.Mock).mock.calls[0][0].data
+    expect(draft).toMatchObject({ detectedContentId: 'dc2', reuploadOfId: 'td1', status: 'PENDING', jurisdictionCountry: 'US', language: 'en' })
+    expect(draft.message).toContain('Repeat infringement: this same material was the subject of our notice of 2026-03-15 (reference td1)')
+    expect(draft.message).toContain('https://pirate.example/p/1/ensaio-vazado')
+
+    expect(prisma.staydownMatch.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ watchId: 'w1', detectedContentId: 'dc2', takedownRequestId: 'td2', score: 0.99 })
+    })
+    expect(prisma.staydownWatch.update).toHaveBeenCalledWith({
+      where: { id: 'w1' },
+      data: { reuploadCount: { increment: 1 }, lastReuploadAt: now }
+    })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('td1', 'REUPLOAD_DETECTED', expect.objectContaining({
+      metadata: expect.objectContaining({ draftTakedownRequestId: 'td2' })
+    }))
+    expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'STAYDOWN_REUPLOAD', takedownRequestId: 'td2' }))
+    expect(fingerprints.enqueueCapture).toHaveBeenCalledWith('dc2')
+  })
+
+  it('skips a watch another worker already claimed', async () => {
+    const now = new Date('2026-05-10T00:00:00Z')
+    ;(prisma.staydownWatch.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+    ;(prisma.staydownWatch.findMany as jest.Mock).mockResolvedValue([{
+      id: 'w1',
+      userId: 'user-1',
+      detectedContentId: 'dc1',
+      host: 'pirate.example',
+      nextScanAt: new Date('2026-05-09T00:00:00Z'),
+      ...watched
+    }])
+
+    const result = await service.scanDue(now)
+
+    expect(result).toEqual({ scanned: 0, reuploads: 0, failed: 0, expired: 0 })
+    expect(searcher).not.toHaveBeenCalled()
+  })
+})
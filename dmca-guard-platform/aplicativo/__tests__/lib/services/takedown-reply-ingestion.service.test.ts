@@ -0,0 +1,233 @@
+import {
+  TakedownReplyIngestionService,
+  classifyReplyByRules,
+  nextStatusForReply,
+  statusCategoryForReply,
+  stripQuotedReply
+} from '@/lib/services/takedown-reply-ingestion.service'
+import { extractTrackingToken, formatTrackedSubject } from '@/lib/services/takedown-correspondence.service'
+import { prisma } from '@/lib/prisma'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+import { GmailInboxMessage } from '@/lib/services/gmail-secure'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    takedownRequest: { findFirst: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn() },
+    takedownEmailMessage: { findFirst: jest.fn(), create: jest.fn() },
+    userIntegration: { findMany: jest.fn() },
+    notification: { create: jest.fn() }
+  }
+}))
+
+jest.mock('@/lib/services/gmail-secure', () => ({
+  gmailService: { fetchRecentMessages: jest.fn() }
+}))
+
+jest.mock('@/lib/services/llm.service', () => ({
+  llmService: { isConfigured: jest.fn(() => false), generateObject: jest.fn() }
+}))
+
+jest.mock('@/lib/services/takedown-timeline.service', () => ({
+  recordTimelineEvent: jest.fn(),
+  stopEscalationChain: jest.fn()
+}))
+
+const makeReply = (overrides: Partial<GmailInboxMessage> = {}): GmailInboxMessage => ({
+  id: 'gmail-1',
+  threadId: 'thread-1',
+  messageId: '<reply-1@host.example>',
+  inReplyTo: null,
+  references: [],
+  from: 'Abuse Desk <Abuse@Host.example>',
+  to: ['owner@example.com'],
+  subject: 'Re: DMCA Takedown Notice [Ref: DG-TEST2345]',
+  date: new Date('2025-07-02T10:00:00Z'),
+  text: 'Hello,\n\nThe reported content has been removed.\n\nOn Mon, Jul 1, 2025 Owner wrote:\n> Please remove https://pirate.example/1',
+  ...overrides
+})
+
+describe('reply classification', () => {
+  it('should round-trip the tracking token through the subject', () => {
+    const subject = formatTrackedSubject('DMCA Takedown Notice', 'DG-TEST2345')
+
+    expect(subject).toBe('DMCA Takedown Notice [Ref: DG-TEST2345]')
+    expect(formatTrackedSubject(subject, 'DG-TEST2345')).toBe(subject)
+    expect(extractTrackingToken(`RE: ${subject.toLowerCase()}`)).toBe('DG-TEST2345')
+    expect(extractTrackingToken('no token here')).toBeNull()
+  })
+
+  it('should ignore quoted history when classifying', () => {
+    const text = 'We are reviewing your request.\n\nOn Mon, Jul 1, 2025 Owner wrote:\n> has been removed?'
+
+    expect(stripQuotedReply(text)).toBe('We are reviewing your request.')
+    expect(classifyReplyByRules('Re: notice', text)).toMatchObject({ category: 'IN_REVIEW', confidence: 0.9 })
+  })
+
+  it('should recognise English and Portuguese replies', () => {
+    expect(classifyReplyByRules('', 'We have removed the material.').category).toBe('REMOVED')
+    expect(classifyReplyByRules('', 'O conteúdo foi removido do servidor.').category).toBe('REMOVED')
+    expect(classifyReplyByRules('', 'We decline to take action, this is fair use.').category).toBe('REJECTED')
+    expect(classifyReplyByRules('', 'Recebemos sua solicitação, protocolo 123.').category).toBe('ACKNOWLEDGED')
+    expect(classifyReplyByRules('Automatic reply: notice', 'I am out of the office until Monday.').category).toBe('AUTO_REPLY')
+    expect(classifyReplyByRules('', 'The content will not be removed.').category).toBe('REJECTED')
+    expect(classifyReplyByRules('', 'ok').category).toBe('UNKNOWN')
+  })
+
+  it('should hold ambiguous removal or refusal phrases for review', () => {
+    const deadline = classifyReplyByRules('', 'If this is not removed within 48 hours we will escalate.')
+    const policy = classifyReplyByRules('', 'Our policy: fair use claims are reviewed by our legal team.')
+
+    expect(deadline).toMatchObject({ category: 'REJECTED', confidence: 0.5 })
+    expect(statusCategoryForReply(deadline)).toBe('IN_REVIEW')
+    expect(statusCategoryForReply(policy)).toBe('IN_REVIEW')
+    expect(statusCategoryForReply({ ...deadline, llmAgreed: true })).toBe('REJECTED')
+    expect(statusCategoryForReply(classifyReplyByRules('', 'We have removed the material.'))).toBe('REMOVED')
+  })
+
+  it('should not read a negated removal as REMOVED', () => {
+    const notYet = classifyReplyByRules('', 'The content has not been removed yet.')
+    const notDisabled = classifyReplyByRules('', 'Access has not been disabled.')
+
+    expect(notYet).toMatchObject({ category: 'IN_REVIEW', matchedRule: 'not-removed', confidence: 0.5 })
+    expect(notDisabled).toMatchObject({ category: 'IN_REVIEW', matchedRule: 'not-removed', confidence: 0.5 })
+    expect(classifyReplyByRules('', "The video hasn't been taken down.").category).toBe('IN_REVIEW')
+    expect(classifyReplyByRules('', 'O conteúdo ainda não foi removido.').category).toBe('IN_REVIEW')
+    expect(statusCategoryForReply(notYet)).toBe('IN_REVIEW')
+    expect(statusCategoryForReply(notDisabled)).toBe('IN_REVIEW')
+  })
+
+  it('should read an explicit refusal with the refuse rule', () => {
+    expect(classifyReplyByRules('', 'We will not remove this video.'))
+      .toMatchObject({ category: 'REJECTED', matchedRule: 'refuse', confidence: 0.9 })
+    expect(classifyReplyByRules('', 'The content will not be removed.'))
+      .toMatchObject({ category: 'REJECTED', matchedRule: 'refuse', confidence: 0.9 })
+    expect(classifyReplyByRules('', "We won't disable access to this page."))
+      .toMatchObject({ category: 'REJECTED', matchedRule: 'refuse', confidence: 0.9 })
+  })
+
+  it('should never move the status backwards or out of a final state', () => {
+    expect(nextStatusForReply('SENT', 'ACKNOWLEDGED')).toBe('ACKNOWLEDGED')
+    expect(nextStatusForReply('IN_REVIEW', 'ACKNOWLEDGED')).toBeNull()
+    expect(nextStatusForReply('IN_REVIEW', 'REMOVED')).toBe('REMOVED')
+    expect(nextStatusForReply('REMOVED', 'REJECTED')).toBeNull()
+    expect(nextStatusForReply('SENT', 'AUTO_REPLY')).toBeNull()
+  })
+})
+
+describe('TakedownReplyIngestionService', () => {
+  const fetchRecentMessages = jest.fn()
+  const aiClassifier = { classify: jest.fn() }
+  let service: TakedownReplyIngestionService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new TakedownReplyIngestionService({ fetchRecentMessages }, aiClassifier)
+    ;(prisma.takedownEmailMessage.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.takedownRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+  })
+
+  it('should match by token, store the reply and move the takedown to REMOVED', async () => {
+    ;(prisma.takedownRequest.findFirst as jest.Mock).mockResolvedValue({ id: 'takedown-1', status: 'SENT' })
+
+    const outcome = await service.processReply('user-1', makeReply())
+
+    expect(outcome).toBe('STATUS_UPDATED')
+    expect(prisma.takedownRequest.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { trackingToken: 'DG-TEST2345', userId: 'user-1' }
+    }))
+    expect(prisma.takedownEmailMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        takedownRequestId: 'takedown-1',
+        direction: 'INBOUND',
+        gmailMessageId: 'gmail-1',
+        fromAddress: 'abuse@host.example',
+        category: 'REMOVED',
+        classifiedBy: 'RULES',
+        matchedBy: 'TOKEN'
+      })
+    })
+    expect(prisma.takedownRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'takedown-1', status: 'SENT' },
+      data: expect.objectContaining({ status: 'REMOVED', resolvedAt: expect.any(Date), acknowledgedAt: expect.any(Date) })
+    })
+    expect(stopEscalationChain).toHaveBeenCalledWith('takedown-1', expect.any(String), { category: 'REMOVED' })
+    expect(recordTimelineEvent).toHaveBeenCalledWith('takedown-1', 'REPLY_RECEIVED', expect.anything())
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', type: 'takedown_reply' })
+    })
+    expect(aiClassifier.classify).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to In-Reply-To when the subject lost the token', async () => {
+    ;(prisma.takedownEmailMessage.findFirst as jest.Mock)
+      .mockResolvedValueOnce({ takedownRequest: { id: 'takedown-2', status: 'SENT' } }) // outbound
+      .mockResolvedValueOnce(null) // dedup
+    aiClassifier.classify.mockResolvedValue({ category: 'ACKNOWLEDGED', confidence: 0.85, classifiedBy: 'LLM' })
+
+    const outcome = await service.processReply('user-1', makeReply({
+      subject: 'Your ticket',
+      text: 'Thanks.',
+      inReplyTo: '<takedown.takedown-2.abc@dmca-guard.local>'
+    }))
+
+    expect(outcome).toBe('STATUS_UPDATED')
+    expect(prisma.takedownEmailMessage.findFirst).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      where: {
+        direction: 'OUTBOUND',
+        messageId: { in: ['<takedown.takedown-2.abc@dmca-guard.local>'] },
+        takedownRequest: { userId: 'user-1' }
+      }
+    }))
+    expect(prisma.takedownEmailMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ matchedBy: 'MESSAGE_ID', category: 'ACKNOWLEDGED', classifiedBy: 'LLM' })
+    })
+  })
+
+  it('should move an ambiguous refusal to IN_REVIEW unless the LLM agrees', async () => {
+    ;(prisma.takedownRequest.findFirst as jest.Mock).mockResolvedValue({ id: 'takedown-1', status: 'SENT' })
+    const reply = makeReply({ text: 'If this is not removed within 48 hours we will escalate.' })
+
+    aiClassifier.classify.mockResolvedValueOnce({ category: 'IN_REVIEW', confidence: 0.4, classifiedBy: 'LLM' })
+    await service.processReply('user-1', reply)
+    expect(prisma.takedownRequest.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'takedown-1', status: 'SENT' },
+      data: expect.objectContaining({ status: 'IN_REVIEW' })
+    })
+
+    aiClassifier.classify.mockResolvedValueOnce({ category: 'REJECTED', confidence: 0.7, classifiedBy: 'LLM' })
+    await service.processReply('user-1', { ...reply, id: 'gmail-2' })
+    expect(prisma.takedownRequest.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'takedown-1', status: 'SENT' },
+      data: expect.objectContaining({ status: 'REJECTED', resolvedAt: expect.any(Date) })
+    })
+  })
+
+  it('should keep auto-replies in the history without touching status or escalation', async () => {
+    ;(prisma.takedownRequest.findFirst as jest.Mock).mockResolvedValue({ id: 'takedown-1', status: 'SENT' })
+
+    const outcome = await service.processReply('user-1', makeReply({
+      subject: 'Automatic reply: DMCA Takedown Notice [Ref: DG-TEST2345]',
+      text: 'I am out of the office until Monday.'
+    }))
+
+    expect(outcome).toBe('STORED')
+    expect(prisma.takedownRequest.updateMany).not.toHaveBeenCalled()
+    expect(stopEscalationChain).not.toHaveBeenCalled()
+    expect(prisma.notification.create).not.toHaveBeenCalled()
+  })
+
+  it('should skip replies that were already ingested or do not belong to a takedown', async () => {
+    ;(prisma.takedownRequest.findFirst as jest.Mock).mockResolvedValue({ id: 'takedown-1', status: 'SENT' })
+    ;(prisma.takedownEmailMessage.findFirst as jest.Mock).mockResolvedValue({ id: 'message-1' })
+    fetchRecentMessages.mockResolvedValue([
+      makeReply(),
+      makeReply({ id: 'gmail-2', subject: 'Newsletter', text: 'Hello', messageId: null })
+    ])
+
+    const result = await service.ingestForUser('user-1')
+
+    expect(fetchRecentMessages).toHaveBeenCalledWith('user-1', expect.objectContaining({ query: '-from:me' }))
+    expect(result).toMatchObject({ fetched: 2, matched: 0, duplicates: 1, errors: 0 })
+    expect(prisma.takedownEmailMessage.create).not.toHaveBeenCalled()
+  })
+})
@@ -55,6 +55,7 @@ describe('OwnershipValidationService', () => {
       dangerousKeywords: [],
       keywordConfig: null,
       lastKeywordUpdate: null,
+      scoringConfig: null,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date()
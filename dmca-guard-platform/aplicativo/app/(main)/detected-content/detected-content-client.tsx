@@ -42,7 +42,7 @@ import { toast } from 'sonner';
 import { format } from 'date-fns';
 import {
   CheckCircle, XCircle, Send, Shield, Info, AlertTriangle, Mail, MoreHorizontal,
-  Edit, Trash2, Check, X, Users, Archive, ChevronDown
+  Edit, Trash2, Check, X, Users, Archive, ChevronDown, Layers
 } from 'lucide-react';
 import { AutoDmcaWidget } from '@/components/dmca/auto-dmca-widget';
 
@@ -76,6 +76,28 @@ interface DetectedContent {
   monitoringSession?: {
     name: string;
   };
+  clusterId?: string | null;
+  clusterSize?: number;
+}
+
+interface ContentClusterMember {
+  id: string;
+  title: string;
+  infringingUrl: string;
+  platform: string;
+  status: string;
+  isConfirmed: boolean;
+  detectedAt: string;
+  takedownRequests: { id: string; status: string }[];
+  takedownItems: { takedownRequestId: string; status: string }[];
+}
+
+interface ContentCluster {
+  id: string;
+  title: string;
+  size: number;
+  brandProfile: BrandProfileMin;
+  members: ContentClusterMember[];
 }
 
 const ITEMS_PER_PAGE = 10;
@@ -131,6 +153,11 @@ export default function DetectedContentClient() {
   const [isAutoDmcaModalOpen, setIsAutoDmcaModalOpen] = useState(false)
   const [selectedContentForAutoDmca, setSelectedContentForAutoDmca] = useState<DetectedContent | null>(null)
 
+  // Cluster (mirrored copies) modal states
+  const [isClusterModalOpen, setIsClusterModalOpen] = useState(false)
+  const [selectedCluster, setSelectedCluster] = useState<ContentCluster | null>(null)
+  const [isProcessingCluster, setIsProcessingCluster] = useState(false)
+
   // Watch selected items to show/hide batch actions
   useEffect(() => {
     setIsBatchActionsVisible(selectedItems.size > 0)
@@ -353,6 +380,74 @@ export default function DetectedContentClient() {
     setIsAutoDmcaModalOpen(true)
   }
 
+  // Cluster functions
+  const openClusterModal = async (clusterId: string) => {
+    setSelectedCluster(null)
+    setIsClusterModalOpen(true)
+    try {
+      const response = await fetch(`/api/detected-content/clusters/${clusterId}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Erro ao carregar grupo')
+      }
+      setSelectedCluster(await response.json())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Erro ao carregar grupo')
+      setIsClusterModalOpen(false)
+    }
+  }
+
+  const handleClusterReview = async (action: 'CONFIRM' | 'DISMISS') => {
+    if (!selectedCluster) return
+
+    setIsProcessingCluster(true)
+    try {
+      const response = await fetch(`/api/detected-content/clusters/${selectedCluster.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Erro ao revisar grupo')
+      }
+
+      toast.success(result.message)
+      setIsClusterModalOpen(false)
+      fetchDetectedContent(currentPage)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Erro ao revisar grupo')
+    } finally {
+      setIsProcessingCluster(false)
+    }
+  }
+
+  const handleClusterTakedowns = async () => {
+    if (!selectedCluster) return
+
+    setIsProcessingCluster(true)
+    try {
+      // Uma notificação por host com todas as cópias do grupo nele
+      const response = await fetch('/api/takedown-requests/grouped', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope: 'HOST', clusterId: selectedCluster.id, minUrls: 1 })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Erro ao gerar takedowns agrupados')
+      }
+
+      toast.success(`${result.total} notificação(ões) agrupada(s) criada(s)`)
+      setIsClusterModalOpen(false)
+      fetchDetectedContent(currentPage)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Erro ao gerar takedowns agrupados')
+    } finally {
+      setIsProcessingCluster(false)
+    }
+  }
+
   const handleTakedownSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedContentForTakedown) {
@@ -540,6 +635,17 @@ export default function DetectedContentClient() {
                 <TableCell>
                   <div className="font-medium">{content.title}</div>
                   <div className="text-xs text-muted-foreground">{content.platform}</div>
+                  {content.clusterId && (content.clusterSize ?? 0) > 1 && (
+                    <Badge
+                      variant="secondary"
+                      className="mt-1 w-fit cursor-pointer"
+                      onClick={() => openClusterModal(content.clusterId!)}
+                      title="Cópias quase idênticas em outros sites"
+                    >
+                      <Layers size={12} className="mr-1" />
+                      {content.clusterSize} espelhos
+                    </Badge>
+                  )}
                 </TableCell>
                 <TableCell>
                   <a
@@ -895,6 +1001,90 @@ export default function DetectedContentClient() {
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Cluster Modal */}
+      <Dialog open={isClusterModalOpen} onOpenChange={setIsClusterModalOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Espelhos do mesmo conteúdo</DialogTitle>
+            <DialogDescription>
+              Páginas com texto quase idêntico. Revise o grupo inteiro de uma vez ou gere uma notificação por host.
+            </DialogDescription>
+          </DialogHeader>
+          {!selectedCluster ? (
+            <div className="flex items-center justify-center h-32">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{selectedCluster.title}</span>
+                <Badge variant="outline" className="flex items-center w-fit">
+                  <Shield size={12} className="mr-1 text-muted-foreground"/>
+                  {selectedCluster.brandProfile.brandName}
+                </Badge>
+                <Badge variant="secondary">{selectedCluster.size} páginas</Badge>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Detectado Em</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedCluster.members.map(member => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <a
+                          href={member.infringingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline truncate max-w-sm block"
+                          title={member.infringingUrl}
+                        >
+                          {member.infringingUrl}
+                        </a>
+                        <div className="text-xs text-muted-foreground">{member.platform}</div>
+                      </TableCell>
+                      <TableCell>{format(new Date(member.detectedAt), "dd/MM/yyyy HH:mm")}</TableCell>
+                      <TableCell>
+                        <StatusBadge
+                          status={member.takedownRequests[0]?.status ?? member.takedownItems[0]?.status ?? member.status}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <DialogFooter className="gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handleClusterReview('DISMISS')}
+                  disabled={isProcessingCluster}
+                >
+                  <XCircle size={14} className="mr-1" /> Descartar grupo
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleClusterReview('CONFIRM')}
+                  disabled={isProcessingCluster}
+                >
+                  <CheckCircle size={14} className="mr-1" /> Confirmar grupo
+                </Button>
+                <Button
+                  onClick={handleClusterTakedowns}
+                  disabled={isProcessingCluster}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  <Mail size={14} className="mr-1" /> Takedowns agrupados
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </motion.div>
   )
 }
\ No newline at end of file
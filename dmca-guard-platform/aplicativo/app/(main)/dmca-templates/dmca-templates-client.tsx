@@ -0,0 +1,588 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/loading-spinner'
+import { FileText, History, Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface DmcaTemplate {
+  id: string
+  name: string
+  description?: string | null
+  language: string
+  takedownType: string
+  legalFramework: string
+  subject: string
+  body: string
+  isDefault: boolean
+  isSystem: boolean
+  version: number
+  updatedAt: string
+}
+
+interface TemplateVersion {
+  id: string
+  version: number
+  changeNote?: string | null
+  createdAt: string
+}
+
+interface DetectedContentOption {
+  id: string
+  title: string
+  infringingUrl: string
+}
+
+interface PreviewResult {
+  subject: string
+  body: string
+  validation: {
+    subject: { valid: boolean; errors: string[] }
+    body: { valid: boolean; errors: string[] }
+  }
+  frameworkErrors: string[]
+}
+
+interface EditorState {
+  name: string
+  description: string
+  language: string
+  takedownType: string
+  legalFramework: string
+  subject: string
+  body: string
+  isDefault: boolean
+  changeNote: string
+}
+
+const TAKEDOWN_TYPE_LABELS: Record<string, string> = {
+  DMCA: 'DMCA',
+  CEASE_AND_DESIST: 'Notificação extrajudicial',
+  COPYRIGHT_CLAIM: 'Reivindicação de direitos autorais',
+  TRADEMARK_INFRINGEMENT: 'Violação de marca',
+  PRIVACY_VIOLATION: 'Violação de privacidade',
+  OTHER: 'Outro'
+}
+
+const LEGAL_FRAMEWORK_LABELS: Record<string, string> = {
+  US_DMCA: 'DMCA (EUA)',
+  EU_DSA: 'DSA art. 16 (UE)',
+  BR_MARCO_CIVIL: 'Marco Civil (Brasil)',
+  UK_ECOMMERCE: 'E-Commerce Regs. (Reino Unido)'
+}
+
+const EMPTY_EDITOR: EditorState = {
+  name: '',
+  description: '',
+  language: 'pt',
+  takedownType: 'DMCA',
+  legalFramework: 'US_DMCA',
+  subject: '',
+  body: '',
+  isDefault: false,
+  changeNote: ''
+}
+
+export default function DmcaTemplatesClient() {
+  const [templates, setTemplates] = useState<DmcaTemplate[]>([])
+  const [variables, setVariables] = useState<Record<string, string>>({})
+  const [contents, setContents] = useState<DetectedContentOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [selected, setSelected] = useState<DmcaTemplate | null>(null)
+  const [canEdit, setCanEdit] = useState(true)
+  const [editor, setEditor] = useState<EditorState>(EMPTY_EDITOR)
+  const [versions, setVersions] = useState<TemplateVersion[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [previewContentId, setPreviewContentId] = useState<string>('')
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dmca-templates')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.data)
+        setVariables(data.variables)
+      } else {
+        toast.error('Erro ao carregar templates')
+      }
+    } catch (error) {
+      toast.error('Erro ao carregar templates')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+    fetch('/api/detected-content?limit=20')
+      .then(response => (response.ok ? response.json() : { data: [] }))
+      .then(data => setContents(data.data ?? []))
+      .catch(() => setContents([]))
+  }, [fetchTemplates])
+
+  // Pré-visualização ao vivo, com atraso para não chamar a API a cada tecla
+  useEffect(() => {
+    if (!editor.subject && !editor.body) {
+      setPreview(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/dmca-templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            subject: editor.subject,
+            body: editor.body,
+            language: editor.language,
+            takedownType: editor.takedownType,
+            legalFramework: editor.legalFramework,
+            detectedContentId: previewContentId || undefined
+          })
+        })
+        const data = await response.json()
+        if (response.ok) {
+          setPreview(data)
+          setPreviewError(null)
+        } else {
+          setPreview(null)
+          setPreviewError(data.error || 'Erro ao gerar pré-visualização')
+        }
+      } catch (error) {
+        setPreviewError('Erro ao gerar pré-visualização')
+      }
+    }, 500)
+
+    return () => clearTimeout(timeout)
+  }, [editor.subject, editor.body, editor.language, editor.takedownType, editor.legalFramework, previewContentId])
+
+  const selectTemplate = async (template: DmcaTemplate) => {
+    try {
+      const response = await fetch(`/api/dmca-templates/${template.id}`)
+      if (!response.ok) {
+        toast.error('Erro ao carregar template')
+        return
+      }
+      const data = await response.json()
+      setSelected(data)
+      setCanEdit(data.canEdit)
+      setVersions(data.versions)
+      setEditor({
+        name: data.name,
+        description: data.description ?? '',
+        language: data.language,
+        takedownType: data.takedownType,
+        legalFramework: data.legalFramework,
+        subject: data.subject,
+        body: data.body,
+        isDefault: data.isDefault,
+        changeNote: ''
+      })
+    } catch (error) {
+      toast.error('Erro ao carregar template')
+    }
+  }
+
+  const startNewTemplate = (base?: DmcaTemplate) => {
+    setSelected(null)
+    setCanEdit(true)
+    setVersions([])
+    setEditor(base
+      ? { ...EMPTY_EDITOR, name: `${base.name} (cópia)`, language: base.language, takedownType: base.takedownType, legalFramework: base.legalFramework, subject: base.subject, body: base.body }
+      : EMPTY_EDITOR)
+  }
+
+  const insertVariable = (name: string) => {
+    const token = `{${name}}`
+    const textarea = bodyRef.current
+    if (!textarea) {
+      setEditor(prev => ({ ...prev, body: prev.body + token }))
+      return
+    }
+    const { selectionStart, selectionEnd } = textarea
+    setEditor(prev => ({
+      ...prev,
+      body: prev.body.slice(0, selectionStart) + token + prev.body.slice(selectionEnd)
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const { changeNote, description, ...fields } = editor
+      const payload = selected
+        ? { ...fields, description: description || undefined, changeNote: changeNote || undefined }
+        : { ...fields, description: description || undefined }
+
+      const response = await fetch(selected ? `/api/dmca-templates/${selected.id}` : '/api/dmca-templates', {
+        method: selected ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const details = Array.isArray(data.details) && typeof data.details[0] === 'string' ? `: ${data.details.join('; ')}` : ''
+        toast.error(`${data.error || 'Erro ao salvar template'}${details}`)
+        return
+      }
+
+      toast.success(selected ? `Template salvo (versão ${data.version})` : 'Template criado com sucesso')
+      await fetchTemplates()
+      await selectTemplate({ ...data, isSystem: data.userId === null })
+    } catch (error) {
+      toast.error('Erro ao salvar template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Tem certeza que deseja remover o template "${selected.name}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/dmca-templates/${selected.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Template removido com sucesso')
+        startNewTemplate()
+        fetchTemplates()
+      } else {
+        toast.error('Erro ao remover template')
+      }
+    } catch (error) {
+      toast.error('Erro ao remover template')
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    if (!selected || !confirm(`Restaurar a versão ${version}? O conteúdo atual será mantido no histórico.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/dmca-templates/${selected.id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      })
+      if (response.ok) {
+        const data = await response.json()
+        toast.success(`Versão ${version} restaurada como versão ${data.version}`)
+        await selectTemplate({ ...data, isSystem: data.userId === null })
+        fetchTemplates()
+      } else {
+        toast.error('Erro ao restaurar versão')
+      }
+    } catch (error) {
+      toast.error('Erro ao restaurar versão')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  const validationErrors = preview
+    ? [...preview.validation.subject.errors, ...preview.validation.body.errors, ...preview.frameworkErrors]
+    : []
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      {/* Lista de templates */}
+      <Card className="lg:col-span-3">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Templates</CardTitle>
+          <Button size="sm" onClick={() => startNewTemplate()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Novo
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {templates.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhum template cadastrado. O texto padrão será usado.</p>
+          )}
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => selectTemplate(template)}
+              className={`w-full text-left rounded-md border p-3 transition-colors hover:bg-muted ${selected?.id === template.id ? 'border-primary bg-muted' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="font-medium text-sm truncate">{template.name}</span>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                <Badge variant="outline">{TAKEDOWN_TYPE_LABELS[template.takedownType] ?? template.takedownType}</Badge>
+                <Badge variant="outline">{LEGAL_FRAMEWORK_LABELS[template.legalFramework] ?? template.legalFramework}</Badge>
+                <Badge variant="outline">{template.language.toUpperCase()}</Badge>
+                {template.isDefault && <Badge>Padrão</Badge>}
+                {template.isSystem && <Badge variant="secondary">Sistema</Badge>}
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Editor */}
+      <Card className="lg:col-span-5">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {selected ? `${selected.name} · v${selected.version}` : 'Novo template'}
+          </CardTitle>
+          <CardDescription>
+            {canEdit
+              ? 'Use {variavel} para inserir dados e {#if variavel}...{#else}...{/if} para trechos condicionais.'
+              : 'Template do sistema: somente leitura. Duplique para personalizar.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Nome</Label>
+              <Input
+                id="template-name"
+                value={editor.name}
+                disabled={!canEdit}
+                onChange={(e) => setEditor(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo de solicitação</Label>
+              <Select
+                value={editor.takedownType}
+                disabled={!canEdit}
+                onValueChange={(value) => setEditor(prev => ({ ...prev, takedownType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TAKEDOWN_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Regime jurídico</Label>
+              <Select
+                value={editor.legalFramework}
+                disabled={!canEdit}
+                onValueChange={(value) => setEditor(prev => ({ ...prev, legalFramework: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LEGAL_FRAMEWORK_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Idioma</Label>
+              <Select
+                value={editor.language}
+                disabled={!canEdit}
+                onValueChange={(value) => setEditor(prev => ({ ...prev, language: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pt">Português</SelectItem>
+                  <SelectItem value="en">English</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <input
+                id="template-default"
+                type="checkbox"
+                checked={editor.isDefault}
+                disabled={!canEdit}
+                onChange={(e) => setEditor(prev => ({ ...prev, isDefault: e.target.checked }))}
+              />
+              <Label htmlFor="template-default">Usar como padrão para este tipo, regime e idioma</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-subject">Assunto</Label>
+            <Input
+              id="template-subject"
+              value={editor.subject}
+              disabled={!canEdit}
+              onChange={(e) => setEditor(prev => ({ ...prev, subject: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Corpo</Label>
+            <Textarea
+              id="template-body"
+              ref={bodyRef}
+              rows={16}
+              className="font-mono text-sm"
+              value={editor.body}
+              disabled={!canEdit}
+              onChange={(e) => setEditor(prev => ({ ...prev, body: e.target.value }))}
+            />
+          </div>
+
+          {canEdit && (
+            <div className="space-y-2">
+              <Label>Variáveis disponíveis</Label>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(variables).map(([name, description]) => (
+                  <Button
+                    key={name}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    title={description}
+                    onClick={() => insertVariable(name)}
+                  >
+                    {`{${name}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canEdit && selected && (
+            <div className="space-y-2">
+              <Label htmlFor="template-change-note">Nota da alteração (opcional)</Label>
+              <Input
+                id="template-change-note"
+                value={editor.changeNote}
+                onChange={(e) => setEditor(prev => ({ ...prev, changeNote: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {canEdit && (
+              <Button onClick={handleSave} disabled={isSaving || validationErrors.length > 0}>
+                <Save className="h-4 w-4 mr-2" />
+                {isSaving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            )}
+            {selected && (
+              <Button variant="outline" onClick={() => startNewTemplate(selected)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Duplicar
+              </Button>
+            )}
+            {selected && canEdit && (
+              <Button variant="destructive" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remover
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pré-visualização e histórico */}
+      <div className="lg:col-span-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pré-visualização</CardTitle>
+            <CardDescription>Renderizada com os dados de um conteúdo detectado real</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={previewContentId} onValueChange={setPreviewContentId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Conteúdo detectado mais recente" />
+              </SelectTrigger>
+              <SelectContent>
+                {contents.map(content => (
+                  <SelectItem key={content.id} value={content.id}>
+                    {content.title} — {content.infringingUrl}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {validationErrors.length > 0 && (
+              <div className="rounded-md border border-destructive p-3 text-sm text-destructive space-y-1">
+                {validationErrors.map(error => <p key={error}>{error}</p>)}
+              </div>
+            )}
+            {previewError && <p className="text-sm text-muted-foreground">{previewError}</p>}
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">{preview.subject}</p>
+                <pre className="whitespace-pre-wrap text-xs rounded-md bg-muted p-3 max-h-[480px] overflow-auto">
+                  {preview.body}
+                </pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Histórico de versões
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center justify-between rounded-md border p-2">
+                  <div>
+                    <p className="text-sm font-medium">
+                      v{version.version}
+                      {version.version === selected.version && <Badge className="ml-2">Atual</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(version.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                      {version.changeNote ? ` · ${version.changeNote}` : ''}
+                    </p>
+                  </div>
+                  {canEdit && version.version !== selected.version && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRestore(version.version)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restaurar
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
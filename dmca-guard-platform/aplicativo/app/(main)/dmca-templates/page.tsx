@@ -0,0 +1,21 @@
+import { Footer } from '@/components/footer';
+import DmcaTemplatesClient from './dmca-templates-client';
+
+export default function DmcaTemplatesPage() {
+  return (
+    <>
+      <main className="container mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">
+            Templates de Notificação
+          </h1>
+          <p className="text-muted-foreground">
+            Crie e versione os textos usados nas notificações de remoção, por tipo de solicitação e idioma.
+          </p>
+        </div>
+        <DmcaTemplatesClient />
+      </main>
+      <Footer />
+    </>
+  );
+}
@@ -32,6 +32,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { RemovalProofDisplay } from '@/components/takedown/RemovalProofDisplay';
 
 
 // Interfaces - ensure these match the actual API response structure
@@ -390,6 +391,14 @@ const fetchTakedownRequests = useCallback(async (page: number = 1, signal?: Abor
                   </div>
                 </fieldset>
 
+                {/* Provas de remoção (screenshots e verificações) depois do envio */}
+                {selectedTakedownRequest.status !== 'PENDING' && (
+                  <RemovalProofDisplay
+                    takedownRequestId={selectedTakedownRequest.id}
+                    url={selectedTakedownRequest.detectedContent.infringingUrl}
+                  />
+                )}
+
                 {/* Editable fields */}
                 <div className="space-y-2">
                   <Label htmlFor="editableSubject">Assunto do Email</Label>
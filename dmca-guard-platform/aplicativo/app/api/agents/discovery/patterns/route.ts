@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { HistoricalAnalyzer } from '@/lib/analysis/historical-analyzer'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/agents/discovery/patterns
+ * Versões dos padrões minerados do histórico de violações, com o conjunto ativo completo
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const [versions, active] = await Promise.all([
+      prisma.violationPatternSet.findMany({
+        where: { userId: session.user.id },
+        select: { id: true, version: true, isActive: true, totalUrls: true, createdAt: true },
+        orderBy: { version: 'desc' }
+      }),
+      prisma.violationPatternSet.findFirst({
+        where: { userId: session.user.id, isActive: true },
+        orderBy: { version: 'desc' }
+      })
+    ])
+
+    return NextResponse.json({ versions, active })
+  } catch (error) {
+    console.error('Erro ao buscar padrões de violação:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/agents/discovery/patterns
+ * Minerar novamente o histórico e ativar a nova versão
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const patternSet = await new HistoricalAnalyzer(session.user.id).mine()
+
+    await createAuditLog(
+      session.user.id,
+      'violation_patterns_mine',
+      'violation_pattern_set',
+      { violationPatternSetId: patternSet.id, version: patternSet.version, totalUrls: patternSet.totalUrls },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(patternSet, { status: 201 })
+  } catch (error) {
+    console.error('Erro ao minerar padrões de violação:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -13,7 +13,10 @@ const StartDiscoverySchema = z.object({
     enableHistoricalAnalysis: z.boolean().optional(),
     searchProviders: z.array(z.enum(['serper', 'google', 'bing'])).optional(),
     concurrency: z.number().min(1).max(10).optional(),
-    respectRateLimits: z.boolean().optional()
+    respectRateLimits: z.boolean().optional(),
+    enableLinkCrawl: z.boolean().optional(),
+    linkCrawlDepth: z.number().min(1).max(4).optional(),
+    linkCrawlDomainBudget: z.number().min(1).max(100).optional()
   }).optional()
 })
 
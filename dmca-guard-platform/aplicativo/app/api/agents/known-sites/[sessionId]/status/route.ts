@@ -125,7 +125,8 @@ export async function GET(
           riskLevel: v.riskLevel,
           confidence: v.aiConfidence,
           detectedAt: v.detectedAt,
-          site: v.knownSite?.domain
+          site: v.knownSite?.domain,
+          scoreBreakdown: v.scoreBreakdown
         }))
       },
       activity: {
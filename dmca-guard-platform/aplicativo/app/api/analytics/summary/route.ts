@@ -60,7 +60,8 @@ export async function GET(request: NextRequest) {
       successfulTakedowns,
       activeBrandProfiles,
       activeMonitoringSessions,
-      recentNotifications
+      recentNotifications,
+      counterNoticesByStatus
     ] = await Promise.all([
       // Total de conteúdo detectado
       prisma.detectedContent.count({
@@ -117,6 +118,13 @@ export async function GET(request: NextRequest) {
           userId: session.user.id,
           isRead: false
         }
+      }),
+
+      // Contranotificações agrupadas por status
+      prisma.counterNotice.groupBy({
+        by: ['status'],
+        where: { userId: session.user.id },
+        _count: true
       })
     ])
 
@@ -132,7 +140,8 @@ export async function GET(request: NextRequest) {
       'ACKNOWLEDGED': 'Confirmado',
       'REMOVED': 'Removido',
       'REJECTED': 'Rejeitado',
-      'FAILED': 'Falhou'
+      'FAILED': 'Falhou',
+      'RESTORED': 'Restaurado'
     }
 
     const takedownsByStatusFormatted = takedownsByStatus.reduce((acc, item) => {
@@ -141,6 +150,12 @@ export async function GET(request: NextRequest) {
       return acc
     }, {} as Record<string, number>)
 
+    const counterNotices = counterNoticesByStatus.reduce((acc, item) => {
+      acc.byStatus[item.status] = item._count
+      acc.total += item._count
+      return acc
+    }, { total: 0, byStatus: {} as Record<string, number> })
+
     // Calcular eficácia (baseada na cobertura e taxa de sucesso)
     const coverage = detectedContentLast30Days
     const effectiveness = Math.round((successRate + Math.min(coverage / 10, 100)) / 2)
@@ -161,6 +176,14 @@ export async function GET(request: NextRequest) {
       
       // Distribuição por status
       takedownsByStatus: takedownsByStatusFormatted,
+
+      // Contranotificações (§512(g))
+      counterNotices: {
+        ...counterNotices,
+        disputeRate: totalTakedownRequests > 0
+          ? Math.round((counterNotices.total / totalTakedownRequests) * 100)
+          : 0
+      },
       
       // Métricas calculadas
       effectiveness,
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { updateDetectionRuleSchema } from '@/lib/validations'
+import { detectionRuleService } from '@/lib/services/detection-rule.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id, ruleId } = await params
+    const input = updateDetectionRuleSchema.parse(await request.json())
+    const rule = await detectionRuleService.update(session.user.id, id, ruleId, input)
+
+    await createAuditLog(
+      session.user.id,
+      'detection_rule_update',
+      'detection_rule',
+      { detectionRuleId: ruleId, brandProfileId: id, changes: input },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(rule)
+  } catch (error: any) {
+    console.error('Erro ao atualizar regra de detecção:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'DetectionRuleError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id, ruleId } = await params
+    const removed = await detectionRuleService.remove(session.user.id, id, ruleId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Regra de detecção não encontrada' }, { status: 404 })
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'detection_rule_delete',
+      'detection_rule',
+      { detectionRuleId: ruleId, brandProfileId: id },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Erro ao remover regra de detecção:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { createDetectionRuleSchema } from '@/lib/validations'
+import { detectionRuleService } from '@/lib/services/detection-rule.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const profile = await prisma.brandProfile.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true }
+    })
+    if (!profile) {
+      return NextResponse.json({ error: 'Perfil de marca não encontrado' }, { status: 404 })
+    }
+
+    const rules = await detectionRuleService.list(session.user.id, id)
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error('Erro ao buscar regras de detecção:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const input = createDetectionRuleSchema.parse(await request.json())
+    const rule = await detectionRuleService.create(session.user.id, id, input)
+
+    await createAuditLog(
+      session.user.id,
+      'detection_rule_create',
+      'detection_rule',
+      { detectionRuleId: rule.id, brandProfileId: id, action: rule.action, expression: rule.expression },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error: any) {
+    console.error('Erro ao criar regra de detecção:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'DetectionRuleError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
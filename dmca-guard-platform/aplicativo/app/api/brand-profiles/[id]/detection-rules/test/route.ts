@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { testDetectionRuleSchema } from '@/lib/validations'
+import { detectionRuleService } from '@/lib/services/detection-rule.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Simular uma expressão nas detecções anteriores do perfil antes de salvar a regra
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { expression, limit } = testDetectionRuleSchema.parse(await request.json())
+    const report = await detectionRuleService.testAgainstHistory(session.user.id, id, expression, limit)
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Erro ao testar regra de detecção:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'DetectionRuleError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
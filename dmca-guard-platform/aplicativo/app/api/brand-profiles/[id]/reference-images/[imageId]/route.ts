@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { referenceImageService } from '@/lib/services/reference-image.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id, imageId } = await params
+    const removed = await referenceImageService.remove(session.user.id, id, imageId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Imagem de referência não encontrada' }, { status: 404 })
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'reference_image_delete',
+      'reference_image',
+      { referenceImageId: imageId, brandProfileId: id },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Erro ao remover imagem de referência:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { referenceImageService } from '@/lib/services/reference-image.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const profile = await prisma.brandProfile.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true }
+    })
+    if (!profile) {
+      return NextResponse.json({ error: 'Perfil de marca não encontrado' }, { status: 404 })
+    }
+
+    const images = await referenceImageService.list(session.user.id, id)
+
+    return NextResponse.json(images)
+  } catch (error) {
+    console.error('Erro ao buscar imagens de referência:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * Upload multipart (campo "image", opcional "title"); só os hashes perceptuais são guardados
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('image')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Envie a imagem no campo "image"' }, { status: 400 })
+    }
+
+    const title = formData.get('title')
+    const reference = await referenceImageService.register(session.user.id, id, {
+      image: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type,
+      title: typeof title === 'string' && title.trim() ? title.trim().slice(0, 100) : file.name.slice(0, 100)
+    })
+
+    await createAuditLog(
+      session.user.id,
+      'reference_image_create',
+      'reference_image',
+      { referenceImageId: reference.id, brandProfileId: id },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(reference, { status: 201 })
+  } catch (error: any) {
+    console.error('Erro ao cadastrar imagem de referência:', error)
+
+    if (error.name === 'ReferenceImageError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { referenceVideoService } from '@/lib/services/reference-video.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; videoId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id, videoId } = await params
+    const removed = await referenceVideoService.remove(session.user.id, id, videoId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Vídeo de referência não encontrado' }, { status: 404 })
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'reference_video_delete',
+      'reference_video',
+      { referenceVideoId: videoId, brandProfileId: id },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Erro ao remover vídeo de referência:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
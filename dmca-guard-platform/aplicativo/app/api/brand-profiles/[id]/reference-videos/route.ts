@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { referenceVideoService } from '@/lib/services/reference-video.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const profile = await prisma.brandProfile.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true }
+    })
+    if (!profile) {
+      return NextResponse.json({ error: 'Perfil de marca não encontrado' }, { status: 404 })
+    }
+
+    const videos = await referenceVideoService.list(session.user.id, id)
+
+    return NextResponse.json(videos)
+  } catch (error) {
+    console.error('Erro ao buscar vídeos de referência:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * Upload multipart (campo "video", opcional "title"); só os hashes dos quadros-chave são guardados
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('video')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Envie o vídeo no campo "video"' }, { status: 400 })
+    }
+
+    const title = formData.get('title')
+    const reference = await referenceVideoService.register(session.user.id, id, {
+      video: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type,
+      title: typeof title === 'string' && title.trim() ? title.trim().slice(0, 100) : file.name.slice(0, 100)
+    })
+
+    await createAuditLog(
+      session.user.id,
+      'reference_video_create',
+      'reference_video',
+      { referenceVideoId: reference.id, brandProfileId: id },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    const { frames, ...summary } = reference
+    return NextResponse.json(summary, { status: 201 })
+  } catch (error: any) {
+    console.error('Erro ao cadastrar vídeo de referência:', error)
+
+    if (error.name === 'ReferenceVideoError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
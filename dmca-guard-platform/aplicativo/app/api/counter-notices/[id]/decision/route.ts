@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { counterNoticeDecisionSchema } from '@/lib/validations'
+import { OPEN_COUNTER_NOTICE_STATUSES, counterNoticeService } from '@/lib/services/counter-notice.service'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { decision, notes, lawsuitReference } = counterNoticeDecisionSchema.parse(body)
+
+    const counterNotice = await prisma.counterNotice.findFirst({
+      where: { id, userId: session.user.id }
+    })
+
+    if (!counterNotice) {
+      return NextResponse.json({ error: 'Contranotificação não encontrada' }, { status: 404 })
+    }
+
+    const updated = OPEN_COUNTER_NOTICE_STATUSES.includes(counterNotice.status)
+      ? await counterNoticeService.decide(counterNotice, decision, { notes, lawsuitReference })
+      : null
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Contranotificação já encerrada (${counterNotice.status})` },
+        { status: 409 }
+      )
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'counter_notice_decision',
+      'counter_notice',
+      { counterNoticeId: id, takedownRequestId: counterNotice.takedownRequestId, decision, lawsuitReference },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(updated)
+
+  } catch (error: any) {
+    console.error('Erro ao registrar decisão da contranotificação:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { updateCounterNoticeSchema } from '@/lib/validations'
+import {
+  COUNTER_NOTICE_ELEMENTS,
+  CounterNoticeChecklist,
+  OPEN_COUNTER_NOTICE_STATUSES,
+  counterNoticeService,
+  getRestoreCountdown
+} from '@/lib/services/counter-notice.service'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const counterNotice = await prisma.counterNotice.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        takedownRequest: {
+          select: {
+            id: true,
+            status: true,
+            subject: true,
+            sentAt: true,
+            detectedContent: {
+              select: { id: true, title: true, infringingUrl: true }
+            }
+          }
+        }
+      }
+    })
+
+    if (!counterNotice) {
+      return NextResponse.json({ error: 'Contranotificação não encontrada' }, { status: 404 })
+    }
+
+    const checklist = counterNotice.checklist as CounterNoticeChecklist
+
+    return NextResponse.json({
+      ...counterNotice,
+      checklistItems: COUNTER_NOTICE_ELEMENTS.map(element => ({
+        ...element,
+        satisfied: !!checklist[element.key]
+      })),
+      countdown: getRestoreCountdown(counterNotice)
+    })
+
+  } catch (error) {
+    console.error('Erro ao buscar contranotificação:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { checklist } = updateCounterNoticeSchema.parse(body)
+
+    const counterNotice = await prisma.counterNotice.findFirst({
+      where: { id, userId: session.user.id }
+    })
+
+    if (!counterNotice) {
+      return NextResponse.json({ error: 'Contranotificação não encontrada' }, { status: 404 })
+    }
+
+    if (!OPEN_COUNTER_NOTICE_STATUSES.includes(counterNotice.status)) {
+      return NextResponse.json(
+        { error: `Contranotificação já encerrada (${counterNotice.status})` },
+        { status: 409 }
+      )
+    }
+
+    const updated = await counterNoticeService.updateChecklist(counterNotice, checklist)
+
+    await createAuditLog(
+      session.user.id,
+      'counter_notice_checklist_update',
+      'counter_notice',
+      { counterNoticeId: id, checklist, isValid: updated.isValid },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ ...updated, countdown: getRestoreCountdown(updated) })
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar contranotificação:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
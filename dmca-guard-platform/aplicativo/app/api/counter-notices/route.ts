@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getRestoreCountdown } from '@/lib/services/counter-notice.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const status = searchParams.get('status')
+
+    const where: any = {
+      userId: session.user.id
+    }
+
+    if (status) {
+      where.status = status.toUpperCase()
+    }
+
+    const [counterNotices, total] = await Promise.all([
+      prisma.counterNotice.findMany({
+        where,
+        include: {
+          takedownRequest: {
+            select: {
+              id: true,
+              status: true,
+              detectedContent: {
+                select: { title: true, infringingUrl: true }
+              }
+            }
+          }
+        },
+        // Prazos mais próximos primeiro
+        orderBy: [
+          { restoreDeadlineAt: { sort: 'asc', nulls: 'last' } },
+          { receivedAt: 'desc' }
+        ],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.counterNotice.count({ where })
+    ])
+
+    return NextResponse.json({
+      counterNotices: counterNotices.map(notice => ({
+        ...notice,
+        countdown: getRestoreCountdown(notice)
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+
+  } catch (error) {
+    console.error('Erro ao buscar contranotificações:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
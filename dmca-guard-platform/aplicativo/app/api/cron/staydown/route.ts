@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { ApiResponse } from '@/lib/api-response'
+import { getStaydownScheduler } from '@/lib/scheduler/staydown-scheduler'
+
+// This should be called by your cron service (e.g., Vercel Cron, GitHub Actions, etc.)
+// Recommended frequency: Every hour (not needed when ENABLE_STAYDOWN_SCHEDULER=true)
+
+export async function GET(request: NextRequest) {
+  // Verify the request is from an authorized source
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+  
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return ApiResponse.unauthorized('Invalid cron secret')
+  }
+  
+  const startTime = Date.now()
+  
+  try {
+    console.log('[API] Starting staydown cron job at', new Date().toISOString())
+    
+    const result = await getStaydownScheduler().runCycle()
+    
+    return ApiResponse.success({
+      message: 'Staydown job completed successfully',
+      startedAt: new Date(startTime).toISOString(),
+      completedAt: new Date().toISOString(),
+      result
+    }, {
+      jobType: 'staydown',
+      executionTime: Date.now() - startTime
+    })
+  } catch (error) {
+    console.error('[API] Staydown cron job failed:', error)
+    
+    return ApiResponse.serverError(
+      error instanceof Error ? error : new Error('Unknown error'),
+      process.env.NODE_ENV === 'development'
+    )
+  }
+}
+
+// Also support POST for some cron services
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const format = new URL(request.url).searchParams.get('format') || 'csv'
+
+    const delistingRequest = await prisma.delistingRequest.findFirst({
+      where: { id, userId: session.user.id },
+      select: { engine: true, payload: true, csv: true, createdAt: true }
+    })
+
+    if (!delistingRequest) {
+      return NextResponse.json({ error: 'Solicitação de delisting não encontrada' }, { status: 404 })
+    }
+
+    const filename = `delisting-${delistingRequest.engine.toLowerCase()}-${id}`
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(delistingRequest.payload, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`
+        }
+      })
+    }
+
+    return new NextResponse(delistingRequest.csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Erro ao exportar solicitação de delisting:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
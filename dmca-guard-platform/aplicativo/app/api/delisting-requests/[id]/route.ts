@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { updateDelistingRequestSchema } from '@/lib/validations'
+import { canTransitionDelisting, delistingService } from '@/lib/services/delisting.service'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const delistingRequest = await prisma.delistingRequest.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        brandProfile: {
+          select: { id: true, brandName: true }
+        },
+        items: {
+          include: {
+            detectedContent: {
+              select: { id: true, title: true, status: true }
+            }
+          },
+          orderBy: { url: 'asc' }
+        }
+      }
+    })
+
+    if (!delistingRequest) {
+      return NextResponse.json({ error: 'Solicitação de delisting não encontrada' }, { status: 404 })
+    }
+
+    return NextResponse.json(delistingRequest)
+
+  } catch (error) {
+    console.error('Erro ao buscar solicitação de delisting:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { status, externalReference } = updateDelistingRequestSchema.parse(body)
+
+    const delistingRequest = await prisma.delistingRequest.findFirst({
+      where: { id, userId: session.user.id }
+    })
+
+    if (!delistingRequest) {
+      return NextResponse.json({ error: 'Solicitação de delisting não encontrada' }, { status: 404 })
+    }
+
+    if (!canTransitionDelisting(delistingRequest.status, status)) {
+      return NextResponse.json(
+        { error: `Não é possível alterar o status de ${delistingRequest.status} para ${status}` },
+        { status: 409 }
+      )
+    }
+
+    const updated = await delistingService.updateStatus(delistingRequest, status, externalReference)
+
+    await createAuditLog(
+      session.user.id,
+      'delisting_request_status_update',
+      'delisting_request',
+      { delistingRequestId: id, from: delistingRequest.status, to: status, externalReference },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(updated)
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar solicitação de delisting:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
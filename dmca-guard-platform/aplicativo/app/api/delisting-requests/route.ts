@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { createDelistingRequestSchema } from '@/lib/validations'
+import { delistingService } from '@/lib/services/delisting.service'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const status = searchParams.get('status')
+    const engine = searchParams.get('engine')
+
+    const where: any = {
+      userId: session.user.id
+    }
+
+    if (status) {
+      where.status = status.toUpperCase()
+    }
+
+    if (engine) {
+      where.engine = engine.toUpperCase()
+    }
+
+    const [delistingRequests, total] = await Promise.all([
+      prisma.delistingRequest.findMany({
+        where,
+        select: {
+          id: true,
+          engine: true,
+          status: true,
+          externalReference: true,
+          submittedAt: true,
+          lastCheckedAt: true,
+          completedAt: true,
+          createdAt: true,
+          brandProfile: {
+            select: {
+              id: true,
+              brandName: true
+            }
+          },
+          _count: {
+            select: { items: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.delistingRequest.count({ where })
+    ])
+
+    return NextResponse.json({
+      data: delistingRequests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+
+  } catch (error) {
+    console.error('Erro ao buscar solicitações de delisting:', error)
+    return NextResponse.json(
+      { error: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = createDelistingRequestSchema.parse(body)
+
+    const delistingRequests = await delistingService.createBatches(session.user.id, validatedData)
+
+    if (delistingRequests.length === 0) {
+      return NextResponse.json(
+        { error: 'Nenhum conteúdo confirmado disponível para delisting' },
+        { status: 422 }
+      )
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'delisting_request_create',
+      'delisting_request',
+      {
+        delistingRequestIds: delistingRequests.map(r => r.id),
+        engines: validatedData.engines,
+        brandProfileId: validatedData.brandProfileId
+      },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ data: delistingRequests }, { status: 201 })
+
+  } catch (error: any) {
+    console.error('Erro ao criar solicitação de delisting:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { createAuditLog, getClientIP } from '@/lib/audit'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
 
 export const dynamic = 'force-dynamic'
 
@@ -39,6 +40,11 @@ export async function POST(
       }
     })
 
+    // Capturar a página como evidência enquanto ela ainda está no ar
+    await evidencePackageService.requestCapture(id, session.user.id).catch(error => {
+      console.error('Erro ao iniciar captura de evidências:', error)
+    })
+
     // Log de auditoria
     await createAuditLog(
       session.user.id,
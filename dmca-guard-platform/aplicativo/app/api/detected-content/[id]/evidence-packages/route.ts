@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Pacotes de evidências capturados para o conteúdo
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const packages = await prisma.evidencePackage.findMany({
+      where: { detectedContentId: id, userId: session.user.id },
+      select: {
+        id: true,
+        url: true,
+        finalUrl: true,
+        status: true,
+        capturedAt: true,
+        manifestHash: true,
+        rootHash: true,
+        signatureAlgorithm: true,
+        ephemeralKey: true,
+        errorMessage: true,
+        createdAt: true,
+        artifacts: {
+          select: { sequence: true, kind: true, fileName: true, mimeType: true, size: true, sha256: true, capturedAt: true },
+          orderBy: { sequence: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ packages })
+
+  } catch (error) {
+    console.error('Erro ao listar pacotes de evidências:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * Capturar novamente a página (ex.: conteúdo confirmado antes da captura automática)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const detectedContent = await prisma.detectedContent.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, title: true }
+    })
+
+    if (!detectedContent) {
+      return NextResponse.json({ error: 'Conteúdo não encontrado' }, { status: 404 })
+    }
+
+    const evidencePackage = await evidencePackageService.requestCapture(id, session.user.id, { force: true })
+
+    await createAuditLog(
+      session.user.id,
+      'evidence_capture_request',
+      'evidence_package',
+      { detectedContentId: id, evidencePackageId: evidencePackage.id, title: detectedContent.title },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(evidencePackage, { status: 202 })
+
+  } catch (error) {
+    console.error('Erro ao solicitar captura de evidências:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
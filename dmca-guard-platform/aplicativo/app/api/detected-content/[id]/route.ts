@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { createAuditLog, getClientIP } from '@/lib/audit'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
 import { z } from 'zod'
 
 export const dynamic = 'force-dynamic'
@@ -161,6 +162,12 @@ export async function PATCH(
       }
     })
 
+    if (dataToUpdate.confirmedAt) {
+      await evidencePackageService.requestCapture(id, session.user.id).catch(error => {
+        console.error('Erro ao iniciar captura de evidências:', error)
+      })
+    }
+
     // Log de auditoria
     await createAuditLog(
       session.user.id,
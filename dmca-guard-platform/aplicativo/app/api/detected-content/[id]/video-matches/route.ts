@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Trechos de vídeos de referência encontrados no conteúdo (vídeos e prévias da página)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const matches = await prisma.videoFingerprintMatch.findMany({
+      where: { detectedContentId: id, detectedContent: { userId: session.user.id } },
+      select: {
+        id: true,
+        candidateUrl: true,
+        source: true,
+        score: true,
+        matchedFrames: true,
+        segments: true,
+        updatedAt: true,
+        referenceVideo: { select: { id: true, title: true, durationSeconds: true } }
+      },
+      orderBy: { score: 'desc' }
+    })
+
+    return NextResponse.json({ matches })
+
+  } catch (error) {
+    console.error('Erro ao listar correspondências de vídeo:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { rollbackCalibrationSchema } from '@/lib/validations'
+import { confidenceCalibrationService } from '@/lib/services/confidence-calibration.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Voltar para a versão anterior do modelo de calibração (ou para a versão informada)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { brandProfileId, version } = rollbackCalibrationSchema.parse(await request.json().catch(() => ({})))
+    const model = await confidenceCalibrationService.rollback(session.user.id, brandProfileId ?? null, version)
+
+    await createAuditLog(
+      session.user.id,
+      'calibration_model_rollback',
+      'calibration_model',
+      { calibrationModelId: model.id, brandProfileId: model.brandProfileId, version: model.version },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(model)
+  } catch (error: any) {
+    console.error('Erro ao restaurar modelo de calibração:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'CalibrationError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { trainCalibrationSchema } from '@/lib/validations'
+import { confidenceCalibrationService } from '@/lib/services/confidence-calibration.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Versões do modelo de calibração (?brandProfileId=; sem ele, o modelo do usuário), com as métricas de validação
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const brandProfileId = request.nextUrl.searchParams.get('brandProfileId')
+    const versions = await confidenceCalibrationService.listVersions(session.user.id, brandProfileId)
+
+    return NextResponse.json(versions)
+  } catch (error) {
+    console.error('Erro ao buscar modelos de calibração:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * Treinar e ativar nova versão com as detecções já revisadas
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { brandProfileId } = trainCalibrationSchema.parse(await request.json().catch(() => ({})))
+    const model = await confidenceCalibrationService.train(session.user.id, brandProfileId ?? null)
+
+    await createAuditLog(
+      session.user.id,
+      'calibration_model_train',
+      'calibration_model',
+      { calibrationModelId: model.id, brandProfileId: model.brandProfileId, version: model.version, metrics: model.metrics },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(model, { status: 201 })
+  } catch (error: any) {
+    console.error('Erro ao treinar modelo de calibração:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'CalibrationError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { reviewContentClusterSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { contentClusterService } from '@/lib/services/content-cluster.service'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const cluster = await contentClusterService.getCluster(session.user.id, id)
+
+    return NextResponse.json(cluster)
+  } catch (error: any) {
+    console.error('Erro ao buscar grupo de conteúdo:', error)
+
+    if (error.name === 'ContentClusterError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+/**
+ * Confirmar ou descartar todos os conteúdos do grupo ainda em revisão
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { action } = reviewContentClusterSchema.parse(await request.json())
+
+    const result = await contentClusterService.reviewCluster(session.user.id, id, action)
+
+    if (action === 'CONFIRM') {
+      // Capturar as páginas como evidência enquanto ainda estão no ar
+      for (const detectedContentId of result.detectedContentIds) {
+        await evidencePackageService.requestCapture(detectedContentId, session.user.id).catch(error => {
+          console.error(`Erro ao iniciar captura de evidências de ${detectedContentId}:`, error)
+        })
+      }
+    }
+
+    await createAuditLog(
+      session.user.id,
+      action === 'CONFIRM' ? 'content_cluster_confirm' : 'content_cluster_dismiss',
+      'content_cluster',
+      { clusterId: id, detectedContentIds: result.detectedContentIds },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({
+      ...result,
+      processed: result.detectedContentIds.length,
+      message: `${result.detectedContentIds.length} conteúdo(s) ${action === 'CONFIRM' ? 'confirmado(s)' : 'descartado(s)'}`
+    })
+  } catch (error: any) {
+    console.error('Erro ao revisar grupo de conteúdo:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'ContentClusterError') {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
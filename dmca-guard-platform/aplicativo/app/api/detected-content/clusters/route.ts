@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { contentClusterService } from '@/lib/services/content-cluster.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Grupos de conteúdos quase idênticos (mesmo post espelhado em vários sites)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clusters = await contentClusterService.listClusters(session.user.id, {
+      brandProfileId: searchParams.get('brandProfileId') || undefined,
+      take: Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    })
+
+    return NextResponse.json({ clusters })
+
+  } catch (error) {
+    console.error('Erro ao listar grupos de conteúdo:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
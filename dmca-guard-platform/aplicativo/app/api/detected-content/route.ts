@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { contentFingerprintService } from '@/lib/services/content-fingerprint.service'
+import { referenceImageService } from '@/lib/services/reference-image.service'
+import { referenceVideoService } from '@/lib/services/reference-video.service'
+import { contentClusterService } from '@/lib/services/content-cluster.service'
+import { confidenceCalibrationService } from '@/lib/services/confidence-calibration.service'
 
 export const dynamic = 'force-dynamic'
 
@@ -72,6 +77,12 @@ export async function GET(request: NextRequest) {
             orderBy: { createdAt: 'desc' },
             take: 1
           },
+          cluster: {
+            select: {
+              id: true,
+              _count: { select: { members: true } }
+            }
+          },
           _count: {
             select: {
               takedownRequests: true
@@ -90,7 +101,8 @@ export async function GET(request: NextRequest) {
       ...content,
       url: content.infringingUrl, // Mapear para interface
       createdAt: content.detectedAt || content.createdAt, // Compatibilidade de data
-      takedownRequest: content.takedownRequests?.[0] || null // Pegar primeiro takedown se existir
+      takedownRequest: content.takedownRequests?.[0] || null, // Pegar primeiro takedown se existir
+      clusterSize: content.cluster?._count.members ?? 0
     }));
 
     return NextResponse.json({
@@ -152,6 +164,16 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Impressão digital da página para a verificação de remoção
+    contentFingerprintService.enqueueCapture(detectedContent.id)
+    // Imagens e vídeos da página contra as referências do perfil
+    referenceImageService.enqueueMatch(detectedContent.id)
+    referenceVideoService.enqueueMatch(detectedContent.id)
+    // Espelhos do mesmo post, revisados em grupo
+    contentClusterService.enqueueFingerprint(detectedContent.id)
+    // Confiança recalibrada pelas revisões anteriores do usuário
+    confidenceCalibrationService.enqueueCalibration(detectedContent.id)
+
     // Criar notificação
     await prisma.notification.create({
       data: {
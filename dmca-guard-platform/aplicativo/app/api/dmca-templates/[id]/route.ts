@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { updateDmcaTemplateSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { dmcaTemplateService } from '@/lib/services/dmca-template.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const template = await dmcaTemplateService.findAccessible(id, session.user.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+    }
+
+    const versions = await dmcaTemplateService.listVersions(id)
+
+    return NextResponse.json({
+      ...template,
+      isSystem: template.userId === null,
+      canEdit: dmcaTemplateService.canEdit(template, session.user),
+      versions
+    })
+  } catch (error) {
+    console.error('Erro ao buscar template DMCA:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const changes = updateDmcaTemplateSchema.parse(await request.json())
+
+    const template = await dmcaTemplateService.findAccessible(id, session.user.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+    }
+    if (!dmcaTemplateService.canEdit(template, session.user)) {
+      return NextResponse.json({ error: 'Sem permissão para alterar este template' }, { status: 403 })
+    }
+
+    const updated = await dmcaTemplateService.update(template, changes, session.user.id)
+
+    await createAuditLog(
+      session.user.id,
+      'dmca_template_update',
+      'dmca_template',
+      { templateId: id, fromVersion: template.version, toVersion: updated.version },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Erro ao atualizar template DMCA:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'TemplateSyntaxError') {
+      return NextResponse.json({ error: 'Template inválido', details: error.errors }, { status: 400 })
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'Já existe um template com este nome e idioma' }, { status: 409 })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const template = await dmcaTemplateService.findAccessible(id, session.user.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+    }
+    if (!dmcaTemplateService.canEdit(template, session.user)) {
+      return NextResponse.json({ error: 'Sem permissão para remover este template' }, { status: 403 })
+    }
+
+    await dmcaTemplateService.archive(template)
+
+    await createAuditLog(
+      session.user.id,
+      'dmca_template_delete',
+      'dmca_template',
+      { templateId: id, name: template.name },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ message: 'Template removido com sucesso' })
+  } catch (error) {
+    console.error('Erro ao remover template DMCA:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
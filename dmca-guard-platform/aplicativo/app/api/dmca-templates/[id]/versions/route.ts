@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { restoreDmcaTemplateVersionSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { dmcaTemplateService } from '@/lib/services/dmca-template.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const template = await dmcaTemplateService.findAccessible(id, session.user.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+    }
+
+    const versions = await dmcaTemplateService.listVersions(id)
+
+    return NextResponse.json({ currentVersion: template.version, data: versions })
+  } catch (error) {
+    console.error('Erro ao buscar versões do template DMCA:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { version } = restoreDmcaTemplateVersionSchema.parse(await request.json())
+
+    const template = await dmcaTemplateService.findAccessible(id, session.user.id)
+    if (!template) {
+      return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+    }
+    if (!dmcaTemplateService.canEdit(template, session.user)) {
+      return NextResponse.json({ error: 'Sem permissão para alterar este template' }, { status: 403 })
+    }
+
+    const restored = await dmcaTemplateService.restoreVersion(template, version, session.user.id)
+    if (!restored) {
+      return NextResponse.json({ error: 'Versão não encontrada' }, { status: 404 })
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'dmca_template_restore_version',
+      'dmca_template',
+      { templateId: id, restoredVersion: version, newVersion: restored.version },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(restored)
+  } catch (error: any) {
+    console.error('Erro ao restaurar versão do template DMCA:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { dmcaTemplateGenerator } from '@/lib/dmca-template-generator'
+import { groupContentsByHost } from '@/lib/services/grouped-takedown.service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -112,7 +113,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { detectedContentIds, customMessage } = body
+    const { detectedContentIds, customMessage, groupBy } = body
 
     if (!detectedContentIds || !Array.isArray(detectedContentIds)) {
       return NextResponse.json(
@@ -121,6 +122,13 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    if (groupBy && groupBy !== 'HOST' && groupBy !== 'DOMAIN') {
+      return NextResponse.json(
+        { error: 'groupBy must be HOST or DOMAIN' },
+        { status: 400 }
+      )
+    }
+
     console.log(`🔧 Generating bulk DMCA templates for ${detectedContentIds.length} items`)
 
     // Get all detected content with DMCA contact info
@@ -153,6 +161,52 @@ export async function PUT(request: NextRequest) {
     const templates = []
     const errors = []
 
+    // One notice per host/domain listing every URL
+    if (groupBy) {
+      for (const [groupKey, group] of Array.from(groupContentsByHost(detectedContents, groupBy))) {
+        const contactEmail = group.find(content => content.dmcaContactInfo?.email)?.dmcaContactInfo?.email
+
+        if (!contactEmail) {
+          errors.push(...group.map(content => ({
+            detectedContentId: content.id,
+            error: 'No DMCA contact email available'
+          })))
+          continue
+        }
+
+        const template = dmcaTemplateGenerator.generateGroupedTemplate(group, contactEmail, userInfo, customMessage)
+
+        templates.push({
+          groupKey,
+          detectedContentIds: group.map(content => content.id),
+          template: {
+            subject: template.subject,
+            body: template.body,
+            isUrgent: template.isUrgent,
+            recipientEmail: contactEmail
+          },
+          metadata: {
+            contentUrls: group.map(content => content.infringingUrl),
+            platform: group[0].platform,
+            priority: group[0].priority
+          }
+        })
+      }
+
+      console.log(`✅ Generated ${templates.length} grouped DMCA templates, ${errors.length} errors`)
+
+      return NextResponse.json({
+        success: true,
+        templates,
+        errors,
+        summary: {
+          total: detectedContentIds.length,
+          groups: templates.length,
+          failed: errors.length
+        }
+      })
+    }
+
     for (const content of detectedContents) {
       try {
         const contactEmail = content.dmcaContactInfo?.email
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { previewDmcaTemplateSchema } from '@/lib/validations'
+import { buildTemplateContext, dmcaTemplateService } from '@/lib/services/dmca-template.service'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Pré-visualizar um template com os dados de um conteúdo detectado real do usuário
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const data = previewDmcaTemplateSchema.parse(await request.json())
+
+    let source = { subject: data.subject ?? '', body: data.body ?? '' }
+    let language = data.language ?? 'pt'
+    let takedownType = data.takedownType ?? 'DMCA'
+    let legalFramework = data.legalFramework ?? 'US_DMCA'
+    if (data.templateId) {
+      const template = await dmcaTemplateService.findAccessible(data.templateId, session.user.id)
+      if (!template) {
+        return NextResponse.json({ error: 'Template não encontrado' }, { status: 404 })
+      }
+      source = { subject: data.subject ?? template.subject, body: data.body ?? template.body }
+      language = data.language ?? (template.language === 'en' ? 'en' : 'pt')
+      takedownType = data.takedownType ?? template.takedownType
+      legalFramework = data.legalFramework ?? template.legalFramework
+    }
+
+    const [user, detectedContent] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.user.id } }),
+      prisma.detectedContent.findFirst({
+        where: {
+          userId: session.user.id,
+          ...(data.detectedContentId && { id: data.detectedContentId })
+        },
+        include: { brandProfile: true, dmcaContactInfo: true },
+        orderBy: { detectedAt: 'desc' }
+      })
+    ])
+
+    if (!user) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 })
+    }
+    if (!detectedContent) {
+      return NextResponse.json(
+        { error: data.detectedContentId ? 'Conteúdo não encontrado' : 'Nenhum conteúdo detectado para pré-visualizar' },
+        { status: 404 }
+      )
+    }
+
+    const evidence = await evidencePackageService.findLatestForContent(detectedContent.id)
+    const context = buildTemplateContext(
+      language,
+      { user, content: detectedContent, contactEmail: detectedContent.dmcaContactInfo?.email, evidence },
+      { takedownType, legalFramework }
+    )
+
+    return NextResponse.json({
+      ...dmcaTemplateService.preview(source, context, { takedownType, legalFramework }),
+      detectedContentId: detectedContent.id,
+      context
+    })
+  } catch (error: any) {
+    console.error('Erro ao pré-visualizar template DMCA:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
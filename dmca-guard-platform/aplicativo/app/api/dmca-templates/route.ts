@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LegalFramework, TakedownType } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { createDmcaTemplateSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { dmcaTemplateService } from '@/lib/services/dmca-template.service'
+import { TEMPLATE_VARIABLES } from '@/lib/dmca-template-engine'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const templates = await dmcaTemplateService.list(session.user.id, {
+      takedownType: (searchParams.get('takedownType') as TakedownType | null) || undefined,
+      legalFramework: (searchParams.get('legalFramework') as LegalFramework | null) || undefined,
+      language: searchParams.get('language') || undefined
+    })
+
+    return NextResponse.json({
+      data: templates.map(template => ({ ...template, isSystem: template.userId === null })),
+      variables: TEMPLATE_VARIABLES
+    })
+  } catch (error) {
+    console.error('Erro ao buscar templates DMCA:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { isSystem, ...input } = createDmcaTemplateSchema.parse(await request.json())
+
+    if (isSystem && session.user.planType !== 'SUPER_USER') {
+      return NextResponse.json({ error: 'Apenas administradores podem criar templates do sistema' }, { status: 403 })
+    }
+
+    const template = await dmcaTemplateService.create(isSystem ? null : session.user.id, input, session.user.id)
+
+    await createAuditLog(
+      session.user.id,
+      'dmca_template_create',
+      'dmca_template',
+      {
+        templateId: template.id,
+        name: template.name,
+        takedownType: template.takedownType,
+        legalFramework: template.legalFramework,
+        isSystem: !!isSystem
+      },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error: any) {
+    console.error('Erro ao criar template DMCA:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+    if (error.name === 'TemplateSyntaxError') {
+      return NextResponse.json({ error: 'Template inválido', details: error.errors }, { status: 400 })
+    }
+    if (error.code === 'P2002') {
+      return NextResponse.json({ error: 'Já existe um template com este nome e idioma' }, { status: 409 })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
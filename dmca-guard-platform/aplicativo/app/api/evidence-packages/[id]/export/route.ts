@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+
+/**
+ * ZIP assinado com manifesto e artefatos
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evidencePackage = await evidencePackageService.findForUser(id, session.user.id)
+
+    if (!evidencePackage) {
+      return NextResponse.json({ error: 'Pacote de evidências não encontrado' }, { status: 404 })
+    }
+    if (!evidencePackage.manifest) {
+      return NextResponse.json({ error: 'Pacote de evidências ainda não foi capturado' }, { status: 409 })
+    }
+
+    const zip = await evidencePackageService.exportZip(evidencePackage)
+
+    await createAuditLog(
+      session.user.id,
+      'evidence_package_export',
+      'evidence_package',
+      { evidencePackageId: id, manifestHash: evidencePackage.manifestHash },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="evidencias-${id}.zip"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Erro ao exportar pacote de evidências:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Detalhes do pacote com a verificação dos hashes e da assinatura
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evidencePackage = await evidencePackageService.findForUser(id, session.user.id)
+
+    if (!evidencePackage) {
+      return NextResponse.json({ error: 'Pacote de evidências não encontrado' }, { status: 404 })
+    }
+
+    const { artifacts, ...rest } = evidencePackage
+    const verification = evidencePackage.manifest ? await evidencePackageService.verify(evidencePackage) : null
+
+    return NextResponse.json({
+      ...rest,
+      artifacts: artifacts.map(({ storagePath, ...artifact }) => artifact),
+      verification
+    })
+
+  } catch (error) {
+    console.error('Erro ao buscar pacote de evidências:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
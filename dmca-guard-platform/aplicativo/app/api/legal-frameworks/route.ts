@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LegalFramework, TakedownType } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { LEGAL_FRAMEWORKS, NOTICE_FIELD_LABELS } from '@/lib/legal-frameworks'
+import { jurisdictionService } from '@/lib/services/jurisdiction.service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Regimes jurídicos disponíveis e, com ?url=, o regime detectado para a URL
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const url = searchParams.get('url')
+    const override = searchParams.get('legalFramework') as LegalFramework | null
+    const takedownType = (searchParams.get('takedownType') || 'DMCA') as TakedownType
+
+    if (override && !(override in LEGAL_FRAMEWORKS)) {
+      return NextResponse.json({ error: 'Regime jurídico inválido' }, { status: 400 })
+    }
+
+    const frameworks = Object.values(LEGAL_FRAMEWORKS).map(framework => ({
+      id: framework.id,
+      name: framework.name,
+      legalBasis: framework.legalBasis,
+      requiredFields: framework.requiredFields(takedownType).map(key => ({ key, label: NOTICE_FIELD_LABELS[key] }))
+    }))
+
+    const jurisdiction = url ? await jurisdictionService.detect(url, override) : null
+
+    return NextResponse.json({ data: frameworks, jurisdiction })
+  } catch (error) {
+    console.error('Erro ao buscar regimes jurídicos:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
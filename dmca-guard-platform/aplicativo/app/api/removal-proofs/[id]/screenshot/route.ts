@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getObjectStorage } from '@/lib/services/object-storage'
+
+/**
+ * Imagem do screenshot da prova (?size=thumbnail para a miniatura)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const proof = await prisma.removalProof.findUnique({
+      where: { id },
+      select: {
+        screenshotPath: true,
+        screenshotThumbnailPath: true,
+        takedownRequest: { select: { userId: true } }
+      }
+    })
+
+    if (!proof || proof.takedownRequest?.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Prova de remoção não encontrada' }, { status: 404 })
+    }
+
+    const thumbnail = new URL(request.url).searchParams.get('size') === 'thumbnail'
+    const key = thumbnail ? proof.screenshotThumbnailPath : proof.screenshotPath
+    const image = key ? await getObjectStorage().get(key) : null
+
+    if (!image) {
+      return NextResponse.json({ error: 'Screenshot não disponível' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': key!.endsWith('.jpg') ? 'image/jpeg' : 'image/png',
+        'Cache-Control': 'private, max-age=86400, immutable'
+      }
+    })
+  } catch (error) {
+    console.error('Erro ao buscar screenshot da prova:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -5,6 +5,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
 import SearchEngineService from '@/lib/search-engines';
+import { contentFingerprintService } from '@/lib/services/content-fingerprint.service';
+import { referenceImageService } from '@/lib/services/reference-image.service';
+import { referenceVideoService } from '@/lib/services/reference-video.service';
+import { contentClusterService } from '@/lib/services/content-cluster.service';
+import { confidenceCalibrationService } from '@/lib/services/confidence-calibration.service';
 
 interface SearchRequestBody {
   brandProfileId: string;
@@ -168,7 +173,7 @@ export async function POST(request: NextRequest) {
             }
     
             console.log(`✅ Salvando: ${result.title} (${result.confidence}%)`);
-            await prisma.detectedContent.create({
+            const detected = await prisma.detectedContent.create({
               data: {
                 userId: session.user.id,
                 brandProfileId: brandProfileId,
@@ -186,6 +191,11 @@ export async function POST(request: NextRequest) {
                 detectedAt: result.detectedAt
               }
             });
+            contentFingerprintService.enqueueCapture(detected.id);
+            referenceImageService.enqueueMatch(detected.id);
+            referenceVideoService.enqueueMatch(detected.id);
+            contentClusterService.enqueueFingerprint(detected.id);
+            confidenceCalibrationService.enqueueCalibration(detected.id);
             keywordSavedCount++;
             totalSavedCount++;
             
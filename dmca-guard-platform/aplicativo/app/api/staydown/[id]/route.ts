@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { updateStaydownWatchSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { staydownService } from '@/lib/services/staydown.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { status } = updateStaydownWatchSchema.parse(await request.json())
+
+    const watch = await staydownService.setStatus(session.user.id, id, status)
+    if (!watch) {
+      return NextResponse.json({ error: 'Vigilância não encontrada ou encerrada' }, { status: 404 })
+    }
+
+    await createAuditLog(
+      session.user.id,
+      status === 'PAUSED' ? 'staydown_pause' : 'staydown_resume',
+      'staydown_watch',
+      { watchId: id, detectedContentId: watch.detectedContentId },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(watch)
+  } catch (error: any) {
+    console.error('Erro ao atualizar staydown:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Dados inválidos', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { StaydownStatus } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { staydownService } from '@/lib/services/staydown.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const status = request.nextUrl.searchParams.get('status')
+    if (status && !Object.values(StaydownStatus).includes(status as StaydownStatus)) {
+      return NextResponse.json({ error: 'Status inválido' }, { status: 400 })
+    }
+
+    const watches = await staydownService.findForUser(session.user.id, (status as StaydownStatus) || undefined)
+
+    return NextResponse.json(watches)
+  } catch (error) {
+    console.error('Erro ao buscar conteúdos em staydown:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
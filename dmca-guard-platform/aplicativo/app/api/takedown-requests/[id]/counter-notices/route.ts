@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createCounterNoticeSchema } from '@/lib/validations'
+import { counterNoticeService, getRestoreCountdown } from '@/lib/services/counter-notice.service'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const takedownRequest = await prisma.takedownRequest.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true }
+    })
+
+    if (!takedownRequest) {
+      return NextResponse.json({ error: 'Solicitação de takedown não encontrada' }, { status: 404 })
+    }
+
+    const counterNotices = await prisma.counterNotice.findMany({
+      where: { takedownRequestId: id },
+      orderBy: { receivedAt: 'desc' }
+    })
+
+    return NextResponse.json(counterNotices.map(notice => ({
+      ...notice,
+      countdown: getRestoreCountdown(notice)
+    })))
+
+  } catch (error) {
+    console.error('Erro ao buscar contranotificações:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const intake = createCounterNoticeSchema.parse(body)
+
+    const takedownRequest = await prisma.takedownRequest.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, userId: true, sentAt: true }
+    })
+
+    if (!takedownRequest) {
+      return NextResponse.json({ error: 'Solicitação de takedown não encontrada' }, { status: 404 })
+    }
+
+    if (!takedownRequest.sentAt) {
+      return NextResponse.json(
+        { error: 'Contranotificações só podem ser registradas para takedowns enviados' },
+        { status: 409 }
+      )
+    }
+
+    const openNotice = await prisma.counterNotice.findFirst({
+      where: { takedownRequestId: id, status: { in: ['RECEIVED', 'AWAITING_DECISION'] } },
+      select: { id: true }
+    })
+
+    if (openNotice) {
+      return NextResponse.json(
+        { error: 'Já existe uma contranotificação em aberto para este takedown', counterNoticeId: openNotice.id },
+        { status: 409 }
+      )
+    }
+
+    const counterNotice = await counterNoticeService.create(takedownRequest, intake)
+
+    await createAuditLog(
+      session.user.id,
+      'counter_notice_create',
+      'counter_notice',
+      { counterNoticeId: counterNotice.id, takedownRequestId: id, isValid: counterNotice.isValid },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json(
+      { ...counterNotice, countdown: getRestoreCountdown(counterNotice) },
+      { status: 201 }
+    )
+
+  } catch (error: any) {
+    console.error('Erro ao registrar contranotificação:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { updateTakedownItemsSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { groupedTakedownService } from '@/lib/services/grouped-takedown.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const takedownRequest = await prisma.takedownRequest.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, status: true, scope: true, groupKey: true }
+    })
+
+    if (!takedownRequest) {
+      return NextResponse.json({ error: 'Solicitação de Takedown não encontrada.' }, { status: 404 })
+    }
+
+    const items = await prisma.takedownRequestItem.findMany({
+      where: { takedownRequestId: id },
+      include: {
+        detectedContent: {
+          select: { id: true, title: true, platform: true, status: true }
+        },
+        removalProofs: {
+          orderBy: { verificationDate: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const summary = items.reduce<Record<string, number>>((acc, item) => {
+      acc[item.status] = (acc[item.status] || 0) + 1
+      return acc
+    }, {})
+
+    return NextResponse.json({ takedownRequest, items, summary: { total: items.length, byStatus: summary } })
+  } catch (error) {
+    console.error('Erro ao buscar URLs do takedown:', error)
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateTakedownItemsSchema.parse(body)
+
+    const takedownRequest = await prisma.takedownRequest.findFirst({
+      where: { id, userId: session.user.id },
+      select: { id: true, scope: true }
+    })
+
+    if (!takedownRequest) {
+      return NextResponse.json({ error: 'Solicitação de Takedown não encontrada.' }, { status: 404 })
+    }
+
+    if (takedownRequest.scope === 'SINGLE') {
+      return NextResponse.json({ error: 'Takedown individual não possui URLs agrupadas' }, { status: 400 })
+    }
+
+    const summary = await groupedTakedownService.updateItemStatus(id, validatedData.itemIds, validatedData.status)
+
+    await createAuditLog(
+      session.user.id,
+      'takedown_items_update',
+      'takedown_request',
+      { takedownRequestId: id, itemIds: validatedData.itemIds, status: validatedData.status },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ summary })
+  } catch (error: any) {
+    console.error('Erro ao atualizar URLs do takedown:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
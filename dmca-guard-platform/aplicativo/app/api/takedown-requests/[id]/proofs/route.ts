@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Provas de remoção do takedown, com links para os screenshots
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const takedownRequest = await prisma.takedownRequest.findUnique({
+      where: { id },
+      select: { userId: true }
+    });
+
+    if (!takedownRequest || takedownRequest.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Solicitação de Takedown não encontrada.' }, { status: 404 });
+    }
+
+    const proofs = await prisma.removalProof.findMany({
+      where: { takedownRequestId: id },
+      orderBy: { verificationDate: 'desc' }
+    });
+
+    // Caminhos do storage ficam no servidor; a imagem é servida pela rota da prova
+    return NextResponse.json({
+      proofs: proofs.map(({ screenshotPath, screenshotThumbnailPath, ...proof }) => ({
+        ...proof,
+        screenshotUrl: screenshotPath ? `/api/removal-proofs/${proof.id}/screenshot` : null,
+        thumbnailUrl: screenshotPath
+          ? `/api/removal-proofs/${proof.id}/screenshot${screenshotThumbnailPath ? '?size=thumbnail' : ''}`
+          : null
+      }))
+    });
+  } catch (error) {
+    console.error('Erro ao buscar provas de remoção:', error);
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 });
+  }
+}
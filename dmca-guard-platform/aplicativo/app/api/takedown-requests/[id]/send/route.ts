@@ -1,17 +1,16 @@
 import { NextResponse } from 'next/server';
-import { Resend } from 'resend';
 import { prisma } from '@/lib/prisma';
-
-const resend = new Resend(process.env.RESEND_API_KEY);
+import { sendTrackedTakedownEmail } from '@/lib/services/takedown-correspondence.service';
+import { sendTakedownEmail } from '@/lib/services/takedown-mailer';
+import { emailOutboxService } from '@/lib/services/email-outbox.service';
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service';
+import { buildNoticeFields } from '@/lib/services/dmca-template.service';
+import { DmcaTemplateLanguage } from '@/lib/dmca-templates';
+import { LEGAL_FRAMEWORKS, NoticeFields, validateNoticeFields } from '@/lib/legal-frameworks';
 
 export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
   console.log("--- [SEND API] Nova requisição recebida ---");
 
-  if (!process.env.RESEND_SENDER_FROM_EMAIL) {
-    console.error("!!! ERRO CRÍTICO: Variável RESEND_SENDER_FROM_EMAIL não definida.");
-    return NextResponse.json({ error: "Resend config missing" }, { status: 500 });
-  }
-
   try {
     const { id } = await params;
     const takedown = await prisma.takedownRequest.findUnique({
@@ -19,8 +18,15 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       include: {
         detectedContent: {
           include: {
-            dmcaContactInfo: true
+            dmcaContactInfo: true,
+            brandProfile: true
           }
+        },
+        user: {
+          select: { name: true, email: true, phone: true, address: true }
+        },
+        items: {
+          select: { url: true }
         }
       }
     });
@@ -29,32 +35,100 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       return NextResponse.json({ error: "TakedownRequest não encontrada" }, { status: 404 });
     }
 
+    // Sem os elementos obrigatórios do regime jurídico a notificação não tem validade: não enviar
+    const noticeFields = (takedown.noticeFields as unknown as NoticeFields | null)
+      ?? buildNoticeFields(takedown.language as DmcaTemplateLanguage, takedown.requestType, {
+        user: takedown.user,
+        content: takedown.detectedContent,
+        infringingUrls: takedown.items.map(item => item.url)
+      });
+    const noticeValidation = validateNoticeFields(takedown.legalFramework, takedown.requestType, noticeFields);
+    if (!noticeValidation.valid) {
+      return NextResponse.json({
+        error: `Notificação incompleta para ${LEGAL_FRAMEWORKS[takedown.legalFramework].name}`,
+        legalFramework: takedown.legalFramework,
+        missing: noticeValidation.missing,
+        details: noticeValidation.errors
+      }, { status: 422 });
+    }
+
     const recipientEmail = takedown.detectedContent?.dmcaContactInfo?.email;
     if (!recipientEmail) {
       return NextResponse.json({ error: "Destinatário não informado ou não encontrado" }, { status: 400 });
     }
 
-    // Envia o e-mail
-    const result = await resend.emails.send({
-      from: process.env.RESEND_SENDER_FROM_EMAIL,
-      to: recipientEmail,
-      subject: takedown.subject || "Notificação DMCA",
-      html: takedown.message || "<p>Segue sua notificação DMCA.</p>",
-    });
+    // Chave derivada só do que este envio não altera: duplo clique e retry do cliente reaproveitam a linha do outbox
+    const explicitKey = req.headers.get('Idempotency-Key');
+    let idempotencyKey = explicitKey || `takedown:${id}:notice`;
+    if (!explicitKey) {
+      const previous = await prisma.emailOutbox.findFirst({
+        where: { takedownRequestId: id, category: 'TAKEDOWN_NOTICE' },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, idempotencyKey: true, status: true }
+      });
 
-    console.log("[SEND API] Resposta do Resend:", result);
+      // Notificação já entregue (ou possivelmente entregue): reenviar só com chave explícita
+      if (previous?.status === 'SENT' || previous?.status === 'NEEDS_REVIEW') {
+        return NextResponse.json({
+          error: "Notificação já enviada. Para reenviar, informe um cabeçalho Idempotency-Key.",
+          outboxId: previous.id,
+          deliveryStatus: previous.status
+        }, { status: 409 });
+      }
 
-    if (result.error) {
-      throw new Error(`Erro ao enviar e-mail via Resend: ${result.error}`);
+      // Entrega anterior desistiu: nova linha com chave estável derivada da que falhou
+      idempotencyKey = previous?.status === 'DEAD'
+        ? `takedown:${id}:notice:after:${previous.id}`
+        : previous?.idempotencyKey ?? idempotencyKey;
     }
 
-    // Atualiza o status para SENT
-    await prisma.takedownRequest.update({
-      where: { id },
-      data: { status: 'SENT', sentAt: new Date() },
+    // Grava no outbox e marca SENT na mesma transação; a entrega acontece após o commit
+    const sentAt = new Date();
+    const result = await prisma.$transaction(async (tx) => {
+      const queued = await sendTrackedTakedownEmail(takedown, {
+        to: recipientEmail,
+        subject: takedown.subject || "Notificação DMCA",
+        html: takedown.message || "<p>Segue sua notificação DMCA.</p>",
+        replyTo: takedown.user.email,
+        category: 'TAKEDOWN_NOTICE',
+        idempotencyKey,
+      }, sendTakedownEmail, tx);
+
+      await tx.takedownRequest.update({
+        where: { id },
+        data: {
+          status: 'SENT',
+          sentAt,
+          escalationTier: 0,
+          tierContactedAt: sentAt,
+          followUpSentAt: null,
+          escalationStoppedAt: null
+        },
+      });
+
+      return queued;
+    });
+
+    const deliveryStatus = await emailOutboxService.dispatch(result.id!).catch((error) => {
+      console.error("[SEND API] Erro ao despachar e-mail do outbox:", error);
+      return null;
+    });
+    console.log("[SEND API] E-mail no outbox:", result, deliveryStatus);
+
+    await recordTimelineEvent(id, 'SENT', {
+      tier: 0,
+      recipients: [recipientEmail],
+      message: takedown.subject,
+      metadata: {
+        outboxId: result.id,
+        messageId: result.messageId,
+        deliveryStatus,
+        legalFramework: takedown.legalFramework,
+        jurisdictionCountry: takedown.jurisdictionCountry
+      }
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, outboxId: result.id, deliveryStatus });
   } catch (err) {
     console.error("[SEND API] ERRO:", err);
     return NextResponse.json({ error: err instanceof Error ? err.message : "Erro desconhecido" }, { status: 500 });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient, TakedownStatus } from '@prisma/client'
+import { recordTimelineEvent, stopEscalationChain, getTakedownTimeline } from '@/lib/services/takedown-timeline.service'
 
 const prisma = new PrismaClient()
 
@@ -86,6 +87,16 @@ export async function PATCH(
       }
     })
 
+    await recordTimelineEvent(id, 'STATUS_CHANGED', {
+      message: responseMessage,
+      metadata: { from: existingRequest.status, to: status }
+    })
+
+    // Resposta ou remoção encerram a cadeia de follow-up/escalonamento
+    if (status !== 'SENT' && status !== 'PENDING') {
+      await stopEscalationChain(id, `Status alterado para ${status}`)
+    }
+
     // Se foi removido com sucesso, verificar se o conteúdo ainda existe na URL
     if (['REMOVED', 'DELISTED', 'CONTENT_REMOVED'].includes(status) && verificationUrl) {
       // Aqui poderia implementar verificação automática da URL
@@ -160,7 +171,8 @@ export async function GET(
         timeToResolution: timeToResolution ? Math.floor(timeToResolution / (1000 * 60 * 60 * 24)) : null, // dias
         isOverdue: timeSinceSent ? timeSinceSent > (7 * 24 * 60 * 60 * 1000) : false, // > 7 dias
         statusHistory: await getStatusHistory(id)
-      }
+      },
+      timeline: await getTakedownTimeline(id)
     }
 
     return NextResponse.json(response)
@@ -184,7 +196,8 @@ function getStatusLabel(status: string): string {
     'FAILED': 'Falhou',
     'DELISTED': 'Delisted',
     'CONTENT_REMOVED': 'Conteúdo Removido',
-    'IN_REVIEW': 'Em Revisão'
+    'IN_REVIEW': 'Em Revisão',
+    'RESTORED': 'Restaurado'
   }
   return statusLabels[status] || status
 }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getTakedownTimeline } from '@/lib/services/takedown-timeline.service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const takedownRequest = await prisma.takedownRequest.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        status: true,
+        escalationTier: true,
+        tierContactedAt: true,
+        followUpSentAt: true,
+        escalationStoppedAt: true,
+        trackingToken: true
+      }
+    });
+
+    if (!takedownRequest || takedownRequest.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Solicitação de Takedown não encontrada.' }, { status: 404 });
+    }
+
+    const { userId, ...escalation } = takedownRequest;
+    const timeline = await getTakedownTimeline(id);
+    const messages = await prisma.takedownEmailMessage.findMany({
+      where: { takedownRequestId: id },
+      orderBy: { occurredAt: 'asc' }
+    });
+
+    return NextResponse.json({ escalation, timeline, messages });
+  } catch (error) {
+    console.error('Erro ao buscar timeline do takedown:', error);
+    return NextResponse.json({ error: 'Erro interno do servidor' }, { status: 500 });
+  }
+}
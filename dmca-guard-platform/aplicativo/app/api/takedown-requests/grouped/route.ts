@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { createGroupedTakedownSchema } from '@/lib/validations'
+import { createAuditLog, getClientIP } from '@/lib/audit'
+import { canPerformAction, getPlanLimits } from '@/lib/plans'
+import { groupedTakedownService } from '@/lib/services/grouped-takedown.service'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Não autorizado' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = createGroupedTakedownSchema.parse(body)
+
+    // Verificar limites do plano (cada notificação agrupada conta como um takedown)
+    const currentMonth = new Date()
+    currentMonth.setDate(1)
+    currentMonth.setHours(0, 0, 0, 0)
+
+    const takedownsThisMonth = await prisma.takedownRequest.count({
+      where: {
+        userId: session.user.id,
+        createdAt: {
+          gte: currentMonth
+        }
+      }
+    })
+
+    if (!canPerformAction(session.user.planType, 'sendTakedown', takedownsThisMonth)) {
+      return NextResponse.json(
+        { error: 'Limite de takedowns mensais atingido. Faça upgrade do seu plano.' },
+        { status: 403 }
+      )
+    }
+
+    // Criar só as notificações que ainda cabem no limite mensal
+    const { takedownsPerMonth } = getPlanLimits(session.user.planType)
+    const maxTakedowns = session.user.planType === 'SUPER_USER' || takedownsPerMonth === -1
+      ? undefined
+      : takedownsPerMonth - takedownsThisMonth
+
+    const takedownRequests = await groupedTakedownService.createGroupedTakedowns(session.user.id, {
+      ...validatedData,
+      maxTakedowns
+    })
+
+    if (takedownRequests.length === 0) {
+      return NextResponse.json(
+        { error: 'Nenhum host com URLs suficientes para uma notificação agrupada' },
+        { status: 404 }
+      )
+    }
+
+    // Enviar cada notificação agrupada pelo mesmo endpoint dos takedowns individuais
+    for (const takedownRequest of takedownRequests) {
+      try {
+        const sendRes = await fetch(`${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/takedown-requests/${takedownRequest.id}/send`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' }
+        })
+        const sendData = await sendRes.json()
+        if (!sendRes.ok) {
+          console.error('Erro ao enviar notificação agrupada:', sendData)
+        }
+      } catch (sendErr) {
+        console.error('Erro ao chamar endpoint de envio:', sendErr)
+      }
+    }
+
+    await createAuditLog(
+      session.user.id,
+      'takedown_request_create_grouped',
+      'takedown_request',
+      {
+        scope: validatedData.scope,
+        takedownRequestIds: takedownRequests.map(takedown => takedown.id),
+        groups: takedownRequests.map(takedown => takedown.groupKey)
+      },
+      {
+        ip: getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined
+      }
+    )
+
+    return NextResponse.json({ data: takedownRequests, total: takedownRequests.length })
+
+  } catch (error: any) {
+    console.error('Erro ao criar takedowns agrupados:', error)
+
+    if (error.name === 'GroupedNoticeValidationError') {
+      return NextResponse.json(
+        {
+          error: error.message,
+          groupKey: error.groupKey,
+          legalFramework: error.legalFramework,
+          missing: error.missing,
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { takedownRequestSchema } from '@/lib/validations'
-import { generateDmcaNotice } from '@/lib/dmca-templates'
+import { dmcaTemplateService } from '@/lib/services/dmca-template.service'
+import { jurisdictionService } from '@/lib/services/jurisdiction.service'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+import { LEGAL_FRAMEWORKS, validateNoticeFields } from '@/lib/legal-frameworks'
 import { createAuditLog, getClientIP } from '@/lib/audit'
 import { canPerformAction } from '@/lib/plans'
 
@@ -46,6 +50,9 @@ export async function GET(request: NextRequest) {
                 }
               }
             }
+          },
+          _count: {
+            select: { items: true }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -135,15 +142,50 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Gerar notificação DMCA
-    const dmcaNotice = generateDmcaNotice('pt', {
-      userName: user.name,
-      userEmail: user.email,
-      userPhone: user.phone || undefined,
-      infringingUrl: detectedContent.infringingUrl,
-      contentDescription: detectedContent.title,
-      originalUrl: detectedContent.brandProfile.officialUrls[0]
-    })
+    if (validatedData.templateId && !(await dmcaTemplateService.findAccessible(validatedData.templateId, session.user.id))) {
+      return NextResponse.json(
+        { error: 'Template não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Regime jurídico pelo TLD/país da hospedagem, salvo escolha manual
+    const requestType = validatedData.requestType ?? 'DMCA'
+    const jurisdiction = await jurisdictionService.detect(detectedContent.infringingUrl, validatedData.legalFramework)
+    const evidence = await evidencePackageService.findLatestForContent(detectedContent.id)
+
+    // Gerar notificação com o template escolhido ou o padrão para o tipo de solicitação e regime
+    const dmcaNotice = await dmcaTemplateService.renderNotice(
+      session.user.id,
+      {
+        takedownType: requestType,
+        legalFramework: jurisdiction.framework,
+        language: validatedData.language,
+        templateId: validatedData.templateId
+      },
+      {
+        user,
+        content: detectedContent,
+        contactEmail: validatedData.recipientEmail,
+        customMessage: validatedData.customMessage,
+        noticeFields: validatedData.noticeFields,
+        evidence
+      }
+    )
+
+    const noticeValidation = validateNoticeFields(jurisdiction.framework, requestType, dmcaNotice.noticeFields)
+    if (!noticeValidation.valid) {
+      return NextResponse.json(
+        {
+          error: `Notificação incompleta para ${LEGAL_FRAMEWORKS[jurisdiction.framework].name}`,
+          legalFramework: jurisdiction.framework,
+          jurisdiction,
+          missing: noticeValidation.missing,
+          details: noticeValidation.errors
+        },
+        { status: 400 }
+      )
+    }
 
     // Criar solicitação de takedown e atualizar status do conteúdo em uma transação
     const takedownRequest = await prisma.$transaction(async (tx) => {
@@ -154,6 +196,15 @@ export async function POST(request: NextRequest) {
           detectedContentId: validatedData.detectedContentId,
           subject: dmcaNotice.subject,
           message: validatedData.customMessage || dmcaNotice.body,
+          requestType,
+          dmcaTemplateId: dmcaNotice.templateId,
+          templateVersion: dmcaNotice.templateVersion,
+          language: dmcaNotice.language,
+          legalFramework: jurisdiction.framework,
+          jurisdictionCountry: jurisdiction.country,
+          jurisdictionSource: jurisdiction.source,
+          evidencePackageId: evidence?.id,
+          noticeFields: dmcaNotice.noticeFields as unknown as Prisma.InputJsonValue,
           status: 'PENDING'
         }
       })
@@ -180,10 +231,10 @@ export async function POST(request: NextRequest) {
       });
       const sendData = await sendRes.json();
       if (!sendRes.ok) {
-        console.error('Erro ao enviar e-mail via Resend:', sendData);
+        console.error('Erro ao enviar notificação de takedown:', sendData);
       }
     } catch (sendErr) {
-      console.error('Erro ao chamar endpoint de envio de e-mail:', sendErr);
+      console.error('Erro ao chamar endpoint de envio:', sendErr);
     }
 
     // Log de auditoria
@@ -194,7 +245,11 @@ export async function POST(request: NextRequest) {
       { 
         takedownRequestId: takedownRequest.id,
         detectedContentId: validatedData.detectedContentId,
-        platform: validatedData.platform
+        platform: validatedData.platform,
+        dmcaTemplateId: dmcaNotice.templateId,
+        templateVersion: dmcaNotice.templateVersion,
+        legalFramework: jurisdiction.framework,
+        jurisdictionSource: jurisdiction.source
       },
       {
         ip: getClientIP(request),
@@ -214,6 +269,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (error.name === 'TemplateSyntaxError') {
+      return NextResponse.json(
+        { error: 'Template inválido', details: error.errors },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Erro interno do servidor' },
       { status: 500 }
@@ -21,6 +21,8 @@ import {
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
+import type { ScoreBreakdown } from '@/lib/detection/violation-scoring'
+import { ScoreBreakdownView } from './ScoreBreakdownView'
 
 interface KnownSitesControllerProps {
   brandProfileId: string
@@ -62,6 +64,7 @@ interface ScanSession {
       confidence: number
       detectedAt: string
       site: string
+      scoreBreakdown?: ScoreBreakdown | null
     }>
   }
   performance: {
@@ -83,6 +86,7 @@ export function KnownSitesController({ brandProfileId, brandProfileName }: Known
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [knownSitesCount, setKnownSitesCount] = useState(0)
+  const [expandedViolationId, setExpandedViolationId] = useState<string | null>(null)
 
   // Buscar contagem de sites conhecidos
   useEffect(() => {
@@ -433,21 +437,36 @@ export function KnownSitesController({ brandProfileId, brandProfileName }: Known
                 <div className="space-y-3">
                   {currentSession.violations.recent.length > 0 ? (
                     currentSession.violations.recent.map((violation) => (
-                      <div key={violation.id} className="flex items-start justify-between p-3 border rounded">
-                        <div className="space-y-1 flex-1">
-                          <div className="font-medium truncate">{violation.title}</div>
-                          <div className="text-sm text-muted-foreground truncate">{violation.url}</div>
-                          <div className="flex items-center gap-2 text-xs">
-                            <Badge variant={getRiskBadgeVariant(violation.riskLevel)} className="text-xs">
-                              {violation.riskLevel}
-                            </Badge>
-                            <span>{violation.confidence}% confiança</span>
-                            <span>{violation.site}</span>
+                      <div key={violation.id} className="p-3 border rounded space-y-3">
+                        <div className="flex items-start justify-between">
+                          <div className="space-y-1 flex-1">
+                            <div className="font-medium truncate">{violation.title}</div>
+                            <div className="text-sm text-muted-foreground truncate">{violation.url}</div>
+                            <div className="flex items-center gap-2 text-xs">
+                              <Badge variant={getRiskBadgeVariant(violation.riskLevel)} className="text-xs">
+                                {violation.riskLevel}
+                              </Badge>
+                              <span>{violation.confidence}% confiança</span>
+                              <span>{violation.site}</span>
+                              {violation.scoreBreakdown && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs"
+                                  onClick={() => setExpandedViolationId(expandedViolationId === violation.id ? null : violation.id)}
+                                >
+                                  {expandedViolationId === violation.id ? 'Ocultar pontuação' : 'Por que esse risco?'}
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(violation.detectedAt), { locale: ptBR, addSuffix: true })}
                           </div>
                         </div>
-                        <div className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(violation.detectedAt), { locale: ptBR, addSuffix: true })}
-                        </div>
+                        {violation.scoreBreakdown && expandedViolationId === violation.id && (
+                          <ScoreBreakdownView breakdown={violation.scoreBreakdown} />
+                        )}
                       </div>
                     ))
                   ) : (
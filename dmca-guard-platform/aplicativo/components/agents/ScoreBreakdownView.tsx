@@ -0,0 +1,83 @@
+'use client'
+
+import { Progress } from '@/components/ui/progress'
+import type { FiredRule } from '@/lib/detection/detection-rules'
+import type { ScoreBreakdown } from '@/lib/detection/violation-scoring'
+
+interface ScoreBreakdownViewProps {
+  breakdown: ScoreBreakdown
+}
+
+const RULE_ACTION_LABELS: Record<FiredRule['action'], string> = {
+  BOOST: 'aumenta',
+  SUPPRESS: 'reduz',
+  AUTO_CONFIRM: 'confirma automaticamente',
+  AUTO_IGNORE: 'ignora automaticamente'
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })
+}
+
+function describeRule(rule: FiredRule) {
+  const action = RULE_ACTION_LABELS[rule.action]
+  return rule.amount !== undefined ? `${action} ${rule.amount} pontos` : action
+}
+
+/**
+ * Sinais da pontuação do detector: valor bruto, peso e quanto cada um somou ao score final
+ */
+export function ScoreBreakdownView({ breakdown }: ScoreBreakdownViewProps) {
+  const signals = [...breakdown.signals].sort((a, b) => b.contribution - a.contribution)
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-muted-foreground">
+        <span>
+          Pontuação <span className="font-semibold text-foreground">{formatNumber(breakdown.score)}/100</span> ({breakdown.riskLevel})
+        </span>
+        <span>
+          Limiares: médio {breakdown.thresholds.medium} · alto {breakdown.thresholds.high} · crítico {breakdown.thresholds.critical}
+        </span>
+      </div>
+
+      {breakdown.overriddenBy === 'referenceImages' && (
+        <div className="rounded-md bg-amber-500/10 p-2 text-amber-600">
+          Imagem de referência reconhecida: a similaridade define a pontuação, acima da soma ponderada dos sinais.
+        </div>
+      )}
+
+      {breakdown.rules && breakdown.rules.length > 0 && (
+        <div className="space-y-1 rounded-md bg-muted p-2">
+          <span className="font-medium">Regras do perfil que dispararam</span>
+          {breakdown.rules.map(rule => (
+            <div key={rule.ruleId} className="flex items-center justify-between gap-2">
+              <span>{rule.name}</span>
+              <span className="text-muted-foreground">{describeRule(rule)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {signals.map(signal => (
+          <div key={signal.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{signal.label}</span>
+              <span className="text-muted-foreground">
+                {formatNumber(signal.rawValue)} × {formatNumber(signal.weight)} ={' '}
+                <span className="font-semibold text-foreground">{formatNumber(signal.contribution)}</span>
+              </span>
+            </div>
+            <Progress value={signal.rawValue} className="h-1.5" />
+            {signal.details.length > 0 && (
+              <div className="truncate text-muted-foreground" title={signal.details.join(', ')}>
+                {signal.details.join(', ')}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -16,7 +16,7 @@ interface QueueStatus {
 
 interface QueueUpdate {
   queueId: string
-  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'CANCELLED'
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'CANCELLED' | 'FAILED'
   position?: number
   estimatedStartTime?: string
 }
@@ -47,7 +47,7 @@ export function QueueStatusWidget() {
         })
 
         // Update counts based on status changes
-        if (update.status === 'COMPLETED' || update.status === 'CANCELLED') {
+        if (update.status === 'COMPLETED' || update.status === 'CANCELLED' || update.status === 'FAILED') {
           fetchQueueStatus()
         }
       }
@@ -158,7 +158,7 @@ export function QueueStatusWidget() {
                     <Badge variant={
                       queue.status === 'COMPLETED' ? 'default' :
                       queue.status === 'PROCESSING' ? 'secondary' :
-                      queue.status === 'CANCELLED' ? 'destructive' :
+                      queue.status === 'CANCELLED' || queue.status === 'FAILED' ? 'destructive' :
                       'secondary'
                     }>
                       {queue.status}
@@ -13,7 +13,8 @@ import {
   Settings, 
   LogOut,
   Crown,
-  Zap
+  Zap,
+  FileText
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { LanguageSwitcher } from '@/components/language-switcher'
@@ -117,6 +118,13 @@ export function Header() {
                         <Settings className="h-4 w-4 mr-2" />
                         {t('navigation.settings')}
                       </Link>
+                      <Link
+                        href="/dmca-templates"
+                        className="flex items-center px-4 py-2 text-sm hover:bg-accent"
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        {t('navigation.templates')}
+                      </Link>
                       <Link
                         href="/subscription/cancel"
                         className="flex items-center px-4 py-2 text-sm hover:bg-accent text-red-600"
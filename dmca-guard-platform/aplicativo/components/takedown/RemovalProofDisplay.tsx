@@ -26,7 +26,8 @@ interface RemovalProof {
   status: RemovalStatus
   proofType: ProofType
   verificationDate: Date
-  screenshotPath?: string
+  screenshotUrl: string | null
+  thumbnailUrl: string | null
   httpStatusCode?: number
   responseBody?: string
   errorMessage?: string
@@ -73,6 +74,11 @@ type ProofType =
   | 'SITE_OFFLINE'
   | 'MANUAL_VERIFICATION'
   | 'SCREENSHOT_EVIDENCE'
+  | 'REDIRECTED_TO_LANDING_PAGE'
+  | 'CONTENT_FINGERPRINT_MISMATCH'
+  | 'CONTENT_FINGERPRINT_MATCH'
+  | 'FILE_HOST_REMOVED'
+  | 'FILE_HOST_AVAILABLE'
 
 interface RemovalProofDisplayProps {
   takedownRequestId: string
@@ -92,18 +98,23 @@ export function RemovalProofDisplay({
 
   useEffect(() => {
     loadVerificationHistory()
-  }, [url])
+  }, [takedownRequestId, url])
 
   const loadVerificationHistory = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`/api/takedown/verify-removal?url=${encodeURIComponent(url)}`)
+      const response = await fetch(`/api/takedown-requests/${takedownRequestId}/proofs`)
       const data = await response.json()
 
-      if (data.success) {
-        setProofs(data.data.verificationHistory)
-        if (data.data.verificationHistory.length > 0) {
-          setSelectedProof(data.data.verificationHistory[0])
+      if (response.ok) {
+        // Em takedowns agrupados as provas cobrem várias URLs; a URL informada vem primeiro
+        const history: RemovalProof[] = [
+          ...data.proofs.filter((proof: RemovalProof) => proof.url === url),
+          ...data.proofs.filter((proof: RemovalProof) => proof.url !== url)
+        ]
+        setProofs(history)
+        if (history.length > 0) {
+          setSelectedProof(history[0])
         }
       }
     } catch (error) {
@@ -192,7 +203,12 @@ export function RemovalProofDisplay({
       'DMCA_TAKEDOWN_NOTICE': 'Aviso DMCA',
       'SITE_OFFLINE': 'Site Offline',
       'MANUAL_VERIFICATION': 'Verificação Manual',
-      'SCREENSHOT_EVIDENCE': 'Evidência por Screenshot'
+      'SCREENSHOT_EVIDENCE': 'Evidência por Screenshot',
+      'REDIRECTED_TO_LANDING_PAGE': 'Redirecionada para Home/Busca',
+      'CONTENT_FINGERPRINT_MISMATCH': 'Conteúdo Detectado Ausente',
+      'CONTENT_FINGERPRINT_MATCH': 'Conteúdo Detectado Presente',
+      'FILE_HOST_REMOVED': 'Arquivo Removido no File Host',
+      'FILE_HOST_AVAILABLE': 'Arquivo Disponível no File Host'
     }
     return labels[proofType] || proofType
   }
@@ -226,6 +242,7 @@ export function RemovalProofDisplay({
             Verificação de Remoção
           </CardTitle>
           <Button 
+            type="button"
             onClick={initiateVerification}
             disabled={verifying}
             size="sm"
@@ -381,26 +398,31 @@ export function RemovalProofDisplay({
               <TabsContent value="evidence">
                 {selectedProof && (
                   <div className="space-y-4">
-                    {selectedProof.screenshotPath && (
+                    {selectedProof.screenshotUrl && (
                       <div className="p-4 border rounded-lg">
                         <div className="flex items-center justify-between mb-3">
                           <h4 className="font-medium flex items-center gap-2">
                             <Camera className="h-4 w-4" />
                             Screenshot de Evidência
                           </h4>
-                          <Button size="sm" variant="outline">
-                            <Download className="h-4 w-4 mr-2" />
-                            Download
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={selectedProof.screenshotUrl} download={`prova-${selectedProof.id}.png`}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Download
+                            </a>
                           </Button>
                         </div>
-                        <div className="bg-gray-100 rounded p-4">
-                          <p className="text-sm text-muted-foreground">
-                            Screenshot capturado em: {new Date(selectedProof.verificationDate).toLocaleString('pt-BR')}
-                          </p>
-                          <p className="text-sm font-mono mt-1">
-                            {selectedProof.screenshotPath}
-                          </p>
-                        </div>
+                        <a href={selectedProof.screenshotUrl} target="_blank" rel="noopener noreferrer" className="block">
+                          <img
+                            src={selectedProof.thumbnailUrl ?? selectedProof.screenshotUrl}
+                            alt={`Screenshot de ${selectedProof.url}`}
+                            className="w-full max-h-80 object-cover object-top rounded border bg-gray-100"
+                            loading="lazy"
+                          />
+                        </a>
+                        <p className="text-sm text-muted-foreground mt-2">
+                          Screenshot capturado em: {new Date(selectedProof.verificationDate).toLocaleString('pt-BR')}
+                        </p>
                       </div>
                     )}
 
@@ -447,7 +469,7 @@ export function RemovalProofDisplay({
             <p className="text-muted-foreground mb-4">
               Ainda não foram realizadas verificações de remoção para esta URL.
             </p>
-            <Button onClick={initiateVerification} disabled={verifying}>
+            <Button type="button" onClick={initiateVerification} disabled={verifying}>
               {verifying ? (
                 <>
                   <RefreshCw className="h-4 w-4 animate-spin mr-2" />
@@ -0,0 +1,353 @@
+import { promises as dns } from 'dns'
+import { LRUCache } from 'lru-cache'
+
+export type AbuseContactRole = 'SITE' | 'HOSTING' | 'REGISTRAR'
+
+export type AbuseContactSource = 'RDAP_IP' | 'RDAP_AUTNUM' | 'RDAP_DOMAIN' | 'DOMAIN_GUESS'
+
+export interface AbuseContactCandidate {
+  email: string
+  role: AbuseContactRole
+  source: AbuseContactSource
+  organization: string | null
+  confidence: number
+}
+
+export interface AbuseContactResolution {
+  domain: string
+  ip: string | null
+  asn: number | null
+  hostingOrganization: string | null
+  hostingCountry: string | null // ISO 3166-1 alfa-2 da rede IP (RDAP)
+  registrar: string | null
+  registrarIanaId: string | null
+  candidates: AbuseContactCandidate[] // ordenados por confiança
+  resolvedAt: Date
+}
+
+/**
+ * Busca um documento RDAP; retorna null quando o objeto não existe
+ */
+export type RdapFetcher = (url: string) => Promise<any | null>
+
+/**
+ * Subconjunto de dns.promises usado pelo resolver
+ */
+export interface DnsLookup {
+  resolve4(hostname: string): Promise<string[]>
+  resolveTxt(hostname: string): Promise<string[][]>
+}
+
+export interface AbuseContactResolverOptions {
+  fetcher?: RdapFetcher
+  dns?: DnsLookup
+  rdapBaseUrl?: string
+  cacheTtlMs?: number
+  failureCacheTtlMs?: number // resoluções com consulta que falhou; 0 desliga o cache delas
+  cacheSize?: number
+}
+
+// Confiança atribuída por origem; o palpite abuse@dominio fica em 30
+const SOURCE_CONFIDENCE: Record<Exclude<AbuseContactSource, 'DOMAIN_GUESS'>, number> = {
+  RDAP_IP: 70,
+  RDAP_AUTNUM: 60,
+  RDAP_DOMAIN: 55
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Fetcher padrão via HTTP (rdap.org redireciona para o RDAP autoritativo)
+ */
+export const httpRdapFetcher: RdapFetcher = async (url) => {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/rdap+json, application/json' },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(10000)
+  })
+
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`RDAP ${url} respondeu HTTP ${response.status}`)
+  }
+
+  return response.json()
+}
+
+interface RdapContact {
+  roles: string[]
+  parentRoles: string[]
+  name: string | null
+  emails: string[]
+  publicIds: { type: string; identifier: string }[]
+}
+
+/**
+ * Achatar entidades RDAP (inclusive aninhadas) em contatos simples
+ */
+export function extractRdapContacts(rdap: any, parentRoles: string[] = []): RdapContact[] {
+  const contacts: RdapContact[] = []
+
+  for (const entity of rdap?.entities ?? []) {
+    const roles: string[] = Array.isArray(entity.roles) ? entity.roles : []
+    const properties: any[] = Array.isArray(entity.vcardArray?.[1]) ? entity.vcardArray[1] : []
+
+    const name = properties.find(property => property[0] === 'fn')?.[3] || null
+    const emails = properties
+      .filter(property => property[0] === 'email' && typeof property[3] === 'string')
+      .map(property => property[3].trim().toLowerCase())
+      .filter(email => EMAIL_PATTERN.test(email))
+
+    contacts.push({
+      roles,
+      parentRoles,
+      name,
+      emails,
+      publicIds: Array.isArray(entity.publicIds) ? entity.publicIds : []
+    })
+
+    contacts.push(...extractRdapContacts(entity, [...parentRoles, ...roles]))
+  }
+
+  return contacts
+}
+
+export class AbuseContactResolver {
+  private readonly fetcher: RdapFetcher
+  private readonly dns: DnsLookup
+  private readonly rdapBaseUrl: string
+  private readonly cache: LRUCache<string, AbuseContactResolution>
+  private readonly failureCacheTtlMs: number
+  private readonly pending = new Map<string, Promise<AbuseContactResolution>>()
+
+  constructor(options: AbuseContactResolverOptions = {}) {
+    this.fetcher = options.fetcher ?? httpRdapFetcher
+    this.dns = options.dns ?? dns
+    this.rdapBaseUrl = (options.rdapBaseUrl ?? process.env.RDAP_BASE_URL ?? 'https://rdap.org').replace(/\/$/, '')
+    this.cache = new LRUCache<string, AbuseContactResolution>({
+      max: options.cacheSize ?? 1000,
+      ttl: options.cacheTtlMs ?? 24 * 60 * 60 * 1000 // 24 horas
+    })
+    this.failureCacheTtlMs = options.failureCacheTtlMs ?? 5 * 60 * 1000
+  }
+
+  /**
+   * Resolver IP, ASN, hospedagem e registrar de uma URL (cache por domínio)
+   */
+  async resolve(urlOrDomain: string): Promise<AbuseContactResolution> {
+    const domain = normalizeDomain(urlOrDomain)
+
+    const cached = this.cache.get(domain)
+    if (cached) return cached
+
+    const inFlight = this.pending.get(domain)
+    if (inFlight) return inFlight
+
+    const lookup = this.lookup(domain)
+      .then(({ resolution, failures }) => {
+        // Falha ou timeout de RDAP/DNS é passageira: não guardar o resultado incompleto por 24h
+        if (failures.length === 0) {
+          this.cache.set(domain, resolution)
+        } else if (this.failureCacheTtlMs > 0) {
+          this.cache.set(domain, resolution, { ttl: this.failureCacheTtlMs })
+        }
+        return resolution
+      })
+      .finally(() => {
+        this.pending.delete(domain)
+      })
+
+    this.pending.set(domain, lookup)
+    return lookup
+  }
+
+  /**
+   * E-mails de abuso da hospedagem (rede IP ou ASN)
+   */
+  async findHostingAbuseContacts(domain: string): Promise<string[]> {
+    const resolution = await this.resolve(domain)
+    return resolution.candidates.filter(c => c.role === 'HOSTING').map(c => c.email)
+  }
+
+  /**
+   * E-mails de abuso do registrar do domínio
+   */
+  async findRegistrarAbuseContacts(domain: string): Promise<string[]> {
+    const resolution = await this.resolve(domain)
+    return resolution.candidates.filter(c => c.role === 'REGISTRAR').map(c => c.email)
+  }
+
+  clearCache() {
+    this.cache.clear()
+  }
+
+  private async lookup(domain: string): Promise<{ resolution: AbuseContactResolution; failures: string[] }> {
+    const resolution: AbuseContactResolution = {
+      domain,
+      ip: null,
+      asn: null,
+      hostingOrganization: null,
+      hostingCountry: null,
+      registrar: null,
+      registrarIanaId: null,
+      candidates: [],
+      resolvedAt: new Date()
+    }
+
+    // Cada etapa é independente: uma falha não impede as demais
+    const failures: string[] = []
+    await Promise.all([
+      this.lookupHosting(domain, resolution, failures),
+      this.lookupRegistrar(domain, resolution, failures)
+    ])
+
+    resolution.candidates = rankCandidates(resolution.candidates)
+    return { resolution, failures }
+  }
+
+  private async lookupHosting(domain: string, resolution: AbuseContactResolution, failures: string[]) {
+    try {
+      const [ip] = await this.dns.resolve4(domain)
+      if (!ip) return
+      resolution.ip = ip
+    } catch (error) {
+      console.log(`⚠️ Não foi possível resolver IP de ${domain}:`, error instanceof Error ? error.message : error)
+      failures.push(`dns/${domain}`)
+      return
+    }
+
+    const [network, asn] = await Promise.all([
+      this.fetchRdap(`ip/${resolution.ip}`, failures),
+      this.lookupAsn(resolution.ip)
+    ])
+
+    resolution.asn = asn ?? firstOriginAutnum(network)
+
+    if (network) {
+      const contacts = extractRdapContacts(network)
+      resolution.hostingOrganization =
+        contacts.find(c => c.roles.includes('registrant'))?.name ?? network.name ?? null
+      resolution.hostingCountry = typeof network.country === 'string' ? network.country.toUpperCase() : null
+
+      const abuseEmails = contacts
+        .filter(c => c.roles.includes('abuse'))
+        .flatMap(c => c.emails)
+
+      for (const email of abuseEmails) {
+        resolution.candidates.push({
+          email,
+          role: 'HOSTING',
+          source: 'RDAP_IP',
+          organization: resolution.hostingOrganization,
+          confidence: SOURCE_CONFIDENCE.RDAP_IP
+        })
+      }
+
+      if (abuseEmails.length > 0) return
+    }
+
+    // Sem contato de abuso na rede: tentar o registro do ASN
+    if (resolution.asn) {
+      const autnum = await this.fetchRdap(`autnum/${resolution.asn}`, failures)
+      const contacts = extractRdapContacts(autnum)
+      const organization = contacts.find(c => c.roles.includes('registrant'))?.name ?? autnum?.name ?? null
+      resolution.hostingOrganization = resolution.hostingOrganization ?? organization
+
+      for (const email of contacts.filter(c => c.roles.includes('abuse')).flatMap(c => c.emails)) {
+        resolution.candidates.push({
+          email,
+          role: 'HOSTING',
+          source: 'RDAP_AUTNUM',
+          organization,
+          confidence: SOURCE_CONFIDENCE.RDAP_AUTNUM
+        })
+      }
+    }
+  }
+
+  private async lookupRegistrar(domain: string, resolution: AbuseContactResolution, failures: string[]) {
+    // Subdomínios não têm registro próprio: subir até encontrar o domínio registrado
+    const labels = domain.split('.')
+    let rdap: any = null
+    for (let i = 0; i <= labels.length - 2 && !rdap; i++) {
+      rdap = await this.fetchRdap(`domain/${labels.slice(i).join('.')}`, failures)
+    }
+    if (!rdap) return
+
+    const contacts = extractRdapContacts(rdap)
+    const registrar = contacts.find(c => c.roles.includes('registrar'))
+    resolution.registrar = registrar?.name ?? null
+    resolution.registrarIanaId = registrar?.publicIds
+      .find(id => id.type === 'IANA Registrar ID')?.identifier ?? null
+
+    const abuseEmails = contacts
+      .filter(c => c.roles.includes('abuse') && (c.parentRoles.includes('registrar') || c.parentRoles.length === 0))
+      .flatMap(c => c.emails)
+
+    for (const email of abuseEmails) {
+      resolution.candidates.push({
+        email,
+        role: 'REGISTRAR',
+        source: 'RDAP_DOMAIN',
+        organization: resolution.registrar,
+        confidence: SOURCE_CONFIDENCE.RDAP_DOMAIN
+      })
+    }
+  }
+
+  /**
+   * ASN de origem via Team Cymru (TXT em origin.asn.cymru.com)
+   */
+  private async lookupAsn(ip: string): Promise<number | null> {
+    try {
+      const reversed = ip.split('.').reverse().join('.')
+      const records = await this.dns.resolveTxt(`${reversed}.origin.asn.cymru.com`)
+      const asn = parseInt(records[0]?.join('').split('|')[0]?.trim().split(' ')[0] ?? '')
+      return Number.isFinite(asn) ? asn : null
+    } catch {
+      return null
+    }
+  }
+
+  private async fetchRdap(path: string, failures: string[]): Promise<any | null> {
+    try {
+      return await this.fetcher(`${this.rdapBaseUrl}/${path}`)
+    } catch (error) {
+      console.log(`⚠️ Falha na consulta RDAP ${path}:`, error instanceof Error ? error.message : error)
+      failures.push(path)
+      return null
+    }
+  }
+}
+
+/**
+ * Ordenar por confiança e remover e-mails repetidos (mantendo o mais confiável)
+ */
+export function rankCandidates(candidates: AbuseContactCandidate[]): AbuseContactCandidate[] {
+  const seen = new Set<string>()
+  return [...candidates]
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter(candidate => {
+      if (seen.has(candidate.email)) return false
+      seen.add(candidate.email)
+      return true
+    })
+}
+
+function firstOriginAutnum(network: any): number | null {
+  const autnums = network?.arin_originas0_originautnums
+  return Array.isArray(autnums) && typeof autnums[0] === 'number' ? autnums[0] : null
+}
+
+function normalizeDomain(urlOrDomain: string): string {
+  let hostname = urlOrDomain.trim().toLowerCase()
+  try {
+    hostname = new URL(hostname.includes('://') ? hostname : `http://${hostname}`).hostname
+  } catch {
+    // Mantém o valor original se não for uma URL válida
+  }
+  return hostname.replace(/^www\./, '').replace(/\.$/, '')
+}
+
+// Export singleton instance
+export const abuseContactResolver = new AbuseContactResolver()
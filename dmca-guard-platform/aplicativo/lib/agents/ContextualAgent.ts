@@ -1,12 +1,29 @@
 import { PrismaClient } from '@prisma/client'
+import { z } from 'zod'
 import { BrandProfile } from './types'
-import { GeminiClient, TextAnalysisResult, ImageAnalysisResult } from '../integrations/gemini-client'
+import { llmService, LlmObjectResponse, TextAnalysisResult, TextAnalysisSchema } from '../services/llm.service'
 import { ContentExtractor, ExtractedContent } from '../extraction/content-extractor'
 import { PatternMatcher } from '../analysis/pattern-matcher'
 import { SessionManager } from './session-manager'
 
 const prisma = new PrismaClient()
 
+const ImageAnalysisSchema = z.object({
+  containsBrandContent: z.boolean().default(false),
+  isUnauthorizedUse: z.boolean().default(false),
+  certaintyLevel: z.coerce.number().min(0).max(100).catch(0).default(0),
+  description: z.string().default(''),
+  violationElements: z.array(z.string()).default([])
+})
+
+export type ImageAnalysis = z.infer<typeof ImageAnalysisSchema> & { imageUrl: string }
+
+export interface ImageAnalysisResult {
+  hasRelevantImages: boolean
+  analyses: ImageAnalysis[]
+  totalImagesAnalyzed: number
+}
+
 export type ViolationType = 
   | 'COPYRIGHT_INFRINGEMENT'
   | 'TRADEMARK_VIOLATION'
@@ -90,7 +107,6 @@ export interface ContextualSession {
 }
 
 export interface ContextualConfig {
-  model: 'gemini-1.5-flash-8b' | 'gemini-1.5-flash' | 'gemini-1.5-pro'
   temperature: number
   enableImageAnalysis: boolean
   enableDeepContextAnalysis: boolean
@@ -103,7 +119,6 @@ export class ContextualAgent {
   private userId: string
   private brandProfileId: string
   private brandProfile: BrandProfile | null = null
-  private geminiClient: GeminiClient
   private contentExtractor: ContentExtractor
   private patternMatcher: PatternMatcher
   private sessionManager: SessionManager
@@ -113,13 +128,11 @@ export class ContextualAgent {
   constructor(userId: string, brandProfileId: string, config?: Partial<ContextualConfig>) {
     this.userId = userId
     this.brandProfileId = brandProfileId
-    this.geminiClient = new GeminiClient()
     this.contentExtractor = new ContentExtractor()
     this.patternMatcher = new PatternMatcher()
     this.sessionManager = new SessionManager()
     
     this.config = {
-      model: 'gemini-1.5-flash-8b',
       temperature: 0.1,
       enableImageAnalysis: true,
       enableDeepContextAnalysis: true,
@@ -171,7 +184,7 @@ export class ContextualAgent {
       await this.emitEvent('contextual_analysis_started', {
         totalUrls: limitedUrls.length,
         brandProfile: this.brandProfile.name,
-        model: this.config.model
+        providers: llmService.getProviders().map(provider => provider.name)
       })
 
       return sessionId
@@ -206,7 +219,7 @@ export class ContextualAgent {
         
         await this.updateAnalysisProgress(url, analysis)
         
-        // Delay entre análises para respeitar rate limits do Gemini
+        // Delay entre análises para respeitar rate limits dos provedores de LLM
         await this.sleep(1000)
         
       } catch (error) {
@@ -219,7 +232,7 @@ export class ContextualAgent {
   }
 
   /**
-   * Análise multi-dimensional com Gemini
+   * Análise multi-dimensional com LLM
    */
   private async performContextualAnalysis(content: ExtractedContent): Promise<ContextualAnalysis> {
     const startTime = Date.now()
@@ -241,7 +254,7 @@ export class ContextualAgent {
       // Consolidar análises
       const consolidatedAnalysis = await this.consolidateAnalyses(
         content.url, 
-        textAnalysis, 
+        textAnalysis.data, 
         imageAnalysis, 
         structuralAnalysis, 
         contextualClues
@@ -251,8 +264,8 @@ export class ContextualAgent {
         ...consolidatedAnalysis,
         metadata: {
           processingTime: Date.now() - startTime,
-          modelUsed: this.config.model,
-          cacheHit: false, // Será atualizado pelo cache
+          modelUsed: `${textAnalysis.provider}/${textAnalysis.model}`,
+          cacheHit: textAnalysis.cached,
           errorCount: 0,
           warningCount: 0
         },
@@ -266,9 +279,9 @@ export class ContextualAgent {
   }
 
   /**
-   * Análise de texto via Gemini com verificação forense inteligente
+   * Análise de texto via LLM com verificação forense inteligente
    */
-  private async analyzeTextContent(content: ExtractedContent): Promise<TextAnalysisResult> {
+  private async analyzeTextContent(content: ExtractedContent): Promise<LlmObjectResponse<TextAnalysisResult>> {
     const prompt = `
     Você é um especialista forense em análise de violações DMCA. Sua tarefa é determinar se o CONTEÚDO PRINCIPAL e EM DESTAQUE da página está diretamente associado à marca protegida.
     
@@ -335,21 +348,23 @@ export class ContextualAgent {
     }
     `;
     
-    return await this.geminiClient.analyzeText(prompt, {
+    // Sem provedor disponível o erro sobe para handleAnalysisError em vez de virar uma análise vazia
+    return await llmService.generateObject(TextAnalysisSchema, prompt, {
+      userId: this.userId,
       temperature: this.config.temperature,
-      model: this.config.model
+      maxOutputTokens: 2000
     })
   }
 
   /**
-   * Análise de imagens via Gemini
+   * Análise de imagens via LLM
    */
   private async analyzeImages(content: ExtractedContent): Promise<ImageAnalysisResult | null> {
     if (!content.images || content.images.length === 0) {
       return { hasRelevantImages: false, analyses: [], totalImagesAnalyzed: 0 }
     }
 
-    const imageAnalyses = []
+    const imageAnalyses: ImageAnalysis[] = []
     const imagesToAnalyze = content.images.slice(0, 5) // Limitar a 5 imagens
 
     for (const imageUrl of imagesToAnalyze) {
@@ -370,9 +385,12 @@ export class ContextualAgent {
         Responda em formato JSON com as chaves: containsBrandContent, isUnauthorizedUse, certaintyLevel, description, violationElements.
         `
 
-        const analysis = await this.geminiClient.analyzeImage(imageUrl, prompt, {
-          temperature: this.config.temperature
-        })
+        // Os provedores recebem só texto: a avaliação se baseia na URL e no contexto da imagem
+        const { data: analysis } = await llmService.generateObject(
+          ImageAnalysisSchema,
+          `${prompt}\n\nImagem: ${imageUrl}\n\nNOTA: Análise visual não implementada ainda, avalie baseado na URL e contexto.`,
+          { userId: this.userId, temperature: this.config.temperature, maxOutputTokens: 800 }
+        )
         
         imageAnalyses.push({
           ...analysis,
@@ -539,7 +557,7 @@ export class ContextualAgent {
       },
       metadata: {
         processingTime: 0, // Será preenchido posteriormente
-        modelUsed: this.config.model,
+        modelUsed: '',
         cacheHit: false,
         errorCount: 0,
         warningCount: 0
@@ -557,7 +575,7 @@ export class ContextualAgent {
     contextualClues: ContextualClue[]
   ): ViolationType {
     
-    // Verificar se há análise específica do Gemini
+    // Verificar se há análise específica do LLM
     if (textAnalysis.violationType) {
       return textAnalysis.violationType as ViolationType
     }
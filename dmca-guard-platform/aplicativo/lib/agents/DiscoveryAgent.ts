@@ -4,6 +4,7 @@ import { SearchClient, SearchQuery, SearchResult } from '../integrations/search-
 import { HistoricalAnalyzer, ViolationPattern } from '../analysis/historical-analyzer'
 import { DuplicateFilter, FilterResult } from '../filtering/duplicate-filter'
 import { SessionManager } from './session-manager'
+import { LinkCrawlResult, LinkGraphCrawler } from '../scraping/link-graph-crawler'
 
 const prisma = new PrismaClient()
 
@@ -45,6 +46,9 @@ export interface DiscoveryConfig {
   searchProviders?: string[]
   concurrency?: number
   respectRateLimits?: boolean
+  enableLinkCrawl?: boolean
+  linkCrawlDepth?: number // saltos a partir das páginas confirmadas
+  linkCrawlDomainBudget?: number // domínios distintos visitados por execução
 }
 
 export class DiscoveryAgent {
@@ -55,6 +59,7 @@ export class DiscoveryAgent {
   private historicalAnalyzer: HistoricalAnalyzer
   private duplicateFilter: DuplicateFilter
   private sessionManager: SessionManager
+  private linkCrawler: LinkGraphCrawler
   private config: DiscoveryConfig
   private session: DiscoverySession | null = null
 
@@ -62,9 +67,10 @@ export class DiscoveryAgent {
     this.userId = userId
     this.brandProfileId = brandProfileId
     this.searchClient = new SearchClient()
-    this.historicalAnalyzer = new HistoricalAnalyzer()
+    this.historicalAnalyzer = new HistoricalAnalyzer(userId)
     this.duplicateFilter = new DuplicateFilter()
     this.sessionManager = new SessionManager()
+    this.linkCrawler = new LinkGraphCrawler()
     
     this.config = {
       maxQueriesPerSession: 100,
@@ -73,6 +79,9 @@ export class DiscoveryAgent {
       searchProviders: ['serper', 'google', 'bing'],
       concurrency: 3,
       respectRateLimits: true,
+      enableLinkCrawl: true,
+      linkCrawlDepth: 2,
+      linkCrawlDomainBudget: 20,
       ...config
     }
   }
@@ -161,6 +170,36 @@ export class DiscoveryAgent {
     return this.deduplicate(results)
   }
 
+  /**
+   * Seguir os links das violações confirmadas até espelhos, file hosts e encurtadores
+   */
+  async crawlViolationLinks(): Promise<LinkCrawlResult> {
+    if (!this.brandProfile) {
+      throw new Error('Perfil da marca não carregado')
+    }
+
+    const result = await this.linkCrawler.crawlFromConfirmed(
+      this.userId,
+      this.brandProfileId,
+      { name: this.brandProfile.name, variations: this.brandProfile.variations },
+      {
+        maxDepth: this.config.linkCrawlDepth,
+        maxDomains: this.config.linkCrawlDomainBudget,
+        delayMs: this.config.respectRateLimits ? 1000 : 0
+      }
+    )
+
+    await this.emitEvent('link_crawl_completed', {
+      seeds: result.seeds,
+      pagesVisited: result.pagesVisited,
+      domainsVisited: result.domainsVisited,
+      childrenCreated: result.childrenCreated,
+      blockedByRobots: result.blockedByRobots
+    })
+
+    return result
+  }
+
   /**
    * Geração de queries baseada em análise dos 17k URLs históricos
    */
@@ -246,6 +285,15 @@ export class DiscoveryAgent {
     const queries: SearchQuery[] = []
     
     for (const pattern of patterns.slice(0, 20)) { // Limitar a 20 padrões mais relevantes
+      // N-gramas comuns nos nomes de domínio de sites infratores
+      if (pattern.kind === 'ngram') {
+        queries.push({
+          terms: [this.brandProfile!.name, `inurl:${pattern.urlPattern}`],
+          maxResults: 20,
+          priority: 'MEDIUM'
+        })
+      }
+      
       if (pattern.commonKeywords.length > 0) {
         queries.push({
           terms: [this.brandProfile!.name, ...pattern.commonKeywords.slice(0, 2)],
@@ -275,6 +323,10 @@ export class DiscoveryAgent {
     const queries: SearchQuery[] = []
     const brandName = this.brandProfile!.name.toLowerCase()
     
+    // TLDs onde as violações do usuário se concentram; sem histórico, os mais comuns em sites de leak
+    const minedTlds = this.config.enableHistoricalAnalysis ? await this.historicalAnalyzer.topTlds(3) : []
+    const tlds = minedTlds.length > 0 ? minedTlds : ['com', 'to', 'cc']
+    
     // Variações comuns de domínios
     const domainVariations = [
       `${brandName}leaked`,
@@ -288,7 +340,7 @@ export class DiscoveryAgent {
     
     for (const variation of domainVariations) {
       queries.push({
-        terms: [`site:${variation}.com OR site:${variation}.to OR site:${variation}.cc`],
+        terms: [tlds.map(tld => `site:${variation}.${tld}`).join(' OR ')],
         maxResults: 15,
         priority: 'LOW'
       })
@@ -587,6 +639,14 @@ export class DiscoveryAgent {
         await this.saveDiscoveredSite(result)
       }
       
+      if (this.config.enableLinkCrawl) {
+        try {
+          await this.crawlViolationLinks()
+        } catch (error) {
+          console.error('Erro ao seguir links das violações:', error)
+        }
+      }
+      
       if (this.session) {
         this.session.status = 'COMPLETED'
         this.session.newSitesFound = results.length
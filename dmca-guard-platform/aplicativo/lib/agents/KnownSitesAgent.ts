@@ -1,4 +1,4 @@
-import { PrismaClient, KnownSite, SiteCategory } from '@prisma/client'
+import { Prisma, PrismaClient, KnownSite, SiteCategory } from '@prisma/client'
 import { 
   ScanSession, 
   ViolationResult, 
@@ -6,7 +6,8 @@ import {
   BrandProfile, 
   ProgressUpdate,
   ScanReport,
-  AgentEvent
+  AgentEvent,
+  PageContent
 } from './types'
 import { SmartScraper } from '../scraping/smart-scraper'
 import { ViolationDetector } from '../detection/violation-detector'
@@ -206,6 +207,9 @@ export class KnownSitesAgent {
     const violations: ViolationResult[] = []
 
     for (const searchUrl of searchUrls) {
+      // Regras de auto-ignorar que dependem só da URL dispensam o scraping
+      if (this.detector.isIgnoredUrl(searchUrl)) continue
+
       try {
         // Respeitar crawl delay
         await this.respectCrawlDelay(site)
@@ -264,6 +268,46 @@ export class KnownSitesAgent {
     return violations
   }
 
+  /**
+   * Buscar termos específicos em um site (ex.: título ou arquivo de um conteúdo já removido)
+   * e devolver as páginas de resultado raspadas
+   */
+  async searchSite(site: KnownSite, queries: string[]): Promise<PageContent[]> {
+    const pages: PageContent[] = []
+    const searchUrls = queries
+      .flatMap(query => this.generateQueryUrls(site, query))
+      .slice(0, 5) // Mesmo limite da varredura por marca
+
+    for (const searchUrl of searchUrls) {
+      try {
+        await this.respectCrawlDelay(site)
+
+        const content = await this.scraper.scrapePage(searchUrl, {
+          timeout: this.options.timeout,
+          respectRobots: this.options.respectRobots,
+          userAgent: 'DMCA-Guard/1.0 (+https://dmca-guard.com/bot)',
+          maxRetries: 2,
+          delay: 1000,
+          screenshot: false,
+          followRedirects: true,
+          headers: {}
+        })
+
+        if (content) pages.push(content)
+
+      } catch (error) {
+        console.warn(`Erro ao processar ${searchUrl}:`, error)
+      }
+    }
+
+    await prisma.knownSite.update({
+      where: { id: site.id },
+      data: { lastChecked: new Date() }
+    })
+
+    return pages
+  }
+
   /**
    * Obter sites priorizados para scan
    */
@@ -328,6 +372,18 @@ export class KnownSitesAgent {
     return urls.slice(0, 5) // Limitar a 5 URLs por site
   }
 
+  /**
+   * URLs de busca de um termo: busca do site e a busca padrão do WordPress
+   */
+  private generateQueryUrls(site: KnownSite, query: string): string[] {
+    const encoded = encodeURIComponent(query)
+
+    if (site.category === SiteCategory.FORUM) {
+      return [`${site.baseUrl}/search?q=${encoded}`, `${site.baseUrl}/search?search=${encoded}`]
+    }
+    return [`${site.baseUrl}/search?q=${encoded}`, `${site.baseUrl}/?s=${encoded}`]
+  }
+
   /**
    * Verificar se site foi escaneado recentemente
    */
@@ -417,6 +473,12 @@ export class KnownSitesAgent {
       where: {
         id: brandProfileId,
         userId: this.userId
+      },
+      include: {
+        detectionRules: {
+          where: { isActive: true },
+          orderBy: { priority: 'desc' }
+        }
       }
     })
 
@@ -442,7 +504,10 @@ export class KnownSitesAgent {
           riskLevel: violation.riskLevel as any,
           aiConfidence: violation.confidence,
           detectionMethod: violation.detectionMethod as any,
-          knownSiteId: violation.knownSiteId
+          knownSiteId: violation.knownSiteId,
+          ...(violation.scoreBreakdown && {
+            scoreBreakdown: violation.scoreBreakdown as unknown as Prisma.InputJsonValue
+          })
         }
       })
     }
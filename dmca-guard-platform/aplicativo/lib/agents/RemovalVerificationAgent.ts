@@ -1,7 +1,14 @@
 import 'server-only'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, TakedownRequest, TakedownRequestItem } from '@prisma/client'
 import { ContentExtractor } from '../extraction/content-extractor'
 import { SessionManager } from './session-manager'
+import { stopEscalationChain } from '../services/takedown-timeline.service'
+import { groupedTakedownService } from '../services/grouped-takedown.service'
+import { screenshotRenderer, StoredScreenshot, ViewportPreset } from '../services/screenshot-renderer.service'
+import { contentFingerprintService } from '../services/content-fingerprint.service'
+import { staydownService } from '../services/staydown.service'
+import { FingerprintComparison } from '../content-fingerprint/fingerprint'
+import { fileHostResolver, FileHostResolution } from '../file-host-resolver'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +19,7 @@ export interface RemovalProof {
   proofType: ProofType
   verificationDate: Date
   screenshotPath?: string
+  screenshotThumbnailPath?: string
   httpStatusCode?: number
   responseBody?: string
   errorMessage?: string
@@ -28,6 +36,8 @@ export interface RemovalMetadata {
   automatedChecks: number
   manualReviews: number
   confidenceLevel: number // 0-100
+  contentComparison?: FingerprintComparison // comparação com a página no momento da detecção
+  fileHost?: FileHostResolution // status lido do próprio file host
 }
 
 export interface VerificationAttempt {
@@ -58,12 +68,20 @@ export type ProofType =
   | 'SITE_OFFLINE'
   | 'MANUAL_VERIFICATION'
   | 'SCREENSHOT_EVIDENCE'
+  | 'REDIRECTED_TO_LANDING_PAGE'
+  | 'CONTENT_FINGERPRINT_MISMATCH'
+  | 'CONTENT_FINGERPRINT_MATCH'
+  | 'FILE_HOST_REMOVED'
+  | 'FILE_HOST_AVAILABLE'
 
 export interface VerificationConfig {
   waitTimeAfterDMCA: number      // Tempo de espera após DMCA (horas)
   maxRetryAttempts: number       // Máximo de tentativas de verificação
   retryInterval: number          // Intervalo entre tentativas (horas)
   enableScreenshots: boolean     // Capturar screenshots como prova
+  screenshotViewport: ViewportPreset
+  screenshotFullPage: boolean
+  screenshotBlurSelectors: string[] // Elementos borrados no screenshot (ex.: mídia íntima)
   enableFullPageScan: boolean    // Verificar se conteúdo foi apenas movido
   userAgent: string             // User agent para requests
   timeout: number               // Timeout para verificações
@@ -73,7 +91,6 @@ export class RemovalVerificationAgent {
   private config: VerificationConfig
   private sessionManager: SessionManager
   private contentExtractor: ContentExtractor
-  private screenshotsDir: string
 
   constructor(config?: Partial<VerificationConfig>) {
     this.config = {
@@ -81,6 +98,9 @@ export class RemovalVerificationAgent {
       maxRetryAttempts: 5,          // Máximo 5 tentativas
       retryInterval: 24,            // Verificar a cada 24 horas
       enableScreenshots: true,      // Screenshots habilitados
+      screenshotViewport: 'laptop',
+      screenshotFullPage: true,
+      screenshotBlurSelectors: [],
       enableFullPageScan: true,     // Scan completo habilitado
       userAgent: 'Mozilla/5.0 (compatible; DMCA-Guard-Verifier/1.0; +https://dmca-guard.com/verifier)',
       timeout: 30000,               // 30 segundos de timeout
@@ -89,7 +109,6 @@ export class RemovalVerificationAgent {
 
     this.sessionManager = new SessionManager()
     this.contentExtractor = new ContentExtractor()
-    this.screenshotsDir = '/tmp/dmca-guard/removal-proofs' // Using temp directory for server-only operation
   }
 
   /**
@@ -139,8 +158,9 @@ export class RemovalVerificationAgent {
 
   /**
    * Verificar remoção de conteúdo específico
+   * (em takedowns agrupados, takedownRequestItemId identifica a URL dentro do grupo)
    */
-  async verifyContentRemoval(url: string, takedownRequestId?: string): Promise<RemovalProof> {
+  async verifyContentRemoval(url: string, takedownRequestId?: string, takedownRequestItemId?: string): Promise<RemovalProof> {
     console.log(`🔍 Iniciando verificação de remoção para: ${url}`)
     
     const verificationAttempt: VerificationAttempt = {
@@ -152,18 +172,25 @@ export class RemovalVerificationAgent {
     }
 
     try {
+      // 0. File hosts respondem 200 mesmo sem o arquivo: o status vem da página/API do host
+      const fileHost = await this.checkFileHost(url)
+      if (fileHost) {
+        verificationAttempt.evidence.push(...fileHost.evidence)
+      }
+
       // 1. Verificação HTTP básica
       const httpResult = await this.performHttpCheck(url)
       verificationAttempt.evidence.push(`HTTP Status: ${httpResult.statusCode}`)
 
       // 2. Capturar screenshot se necessário
-      let screenshotPath: string | undefined
+      let screenshot: StoredScreenshot | undefined
       if (this.config.enableScreenshots && httpResult.requiresScreenshot) {
-        screenshotPath = await this.captureScreenshot(url, takedownRequestId)
-        if (screenshotPath) {
-          verificationAttempt.evidence.push(`Screenshot capturado: ${screenshotPath}`)
+        screenshot = await this.captureScreenshot(url, takedownRequestId)
+        if (screenshot) {
+          verificationAttempt.evidence.push(`Screenshot capturado: ${screenshot.path}`)
         }
       }
+      const screenshotPath = screenshot?.path
 
       // 3. Análise do conteúdo da página (se ainda acessível)
       let contentAnalysis
@@ -172,13 +199,22 @@ export class RemovalVerificationAgent {
         verificationAttempt.evidence.push(...contentAnalysis.evidence)
       }
 
-      // 4. Determinar status e prova de remoção
-      const removalResult = this.determineRemovalStatus(httpResult, contentAnalysis, screenshotPath)
+      // 4. Comparar com a impressão digital da detecção (texto, imagens, redirecionamentos)
+      let contentComparison: FingerprintComparison | undefined
+      if (httpResult.statusCode && ![403, 404, 410, 451].includes(httpResult.statusCode)) {
+        contentComparison = await this.compareWithFingerprint(url, takedownRequestId, takedownRequestItemId)
+        if (contentComparison) {
+          verificationAttempt.evidence.push(...contentComparison.signals)
+        }
+      }
+
+      // 5. Determinar status e prova de remoção
+      const removalResult = this.determineRemovalStatus(httpResult, contentAnalysis, screenshotPath, contentComparison, fileHost)
       
       verificationAttempt.status = removalResult.status
       verificationAttempt.confidence = removalResult.confidence
 
-      // 5. Criar prova de remoção
+      // 6. Criar prova de remoção
       const removalProof: RemovalProof = {
         id: this.generateProofId(),
         url,
@@ -186,6 +222,7 @@ export class RemovalVerificationAgent {
         proofType: removalResult.proofType,
         verificationDate: new Date(),
         screenshotPath,
+        screenshotThumbnailPath: screenshot?.thumbnailPath,
         httpStatusCode: httpResult.statusCode,
         responseBody: httpResult.responseSnippet,
         errorMessage: httpResult.error,
@@ -198,12 +235,14 @@ export class RemovalVerificationAgent {
           verificationHistory: [verificationAttempt],
           automatedChecks: 1,
           manualReviews: 0,
-          confidenceLevel: removalResult.confidence
+          confidenceLevel: removalResult.confidence,
+          contentComparison,
+          fileHost
         }
       }
 
-      // 6. Salvar prova no banco de dados
-      await this.saveRemovalProof(removalProof, takedownRequestId)
+      // 7. Salvar prova no banco de dados
+      await this.saveRemovalProof(removalProof, takedownRequestId, takedownRequestItemId)
 
       console.log(`✅ Verificação concluída para ${url} - Status: ${removalResult.status}`)
       return removalProof
@@ -361,23 +400,32 @@ export class RemovalVerificationAgent {
   }
 
   /**
-   * Capturar screenshot como evidência
+   * Capturar screenshot como evidência (imagem e miniatura no storage de objetos)
    */
-  private async captureScreenshot(url: string, takedownRequestId?: string): Promise<string | undefined> {
+  private async captureScreenshot(url: string, takedownRequestId?: string): Promise<StoredScreenshot | undefined> {
     if (!this.config.enableScreenshots) return undefined
 
+    if (!screenshotRenderer.isAvailable()) {
+      console.log(`📸 Screenshot ignorado para ${url}: Chromium não configurado (CHROMIUM_EXECUTABLE_PATH)`)
+      return undefined
+    }
+
     try {
-      // Screenshot functionality disabled during build
-      // This would be implemented using a server-side screenshot service in production
-      console.log(`📸 Screenshot placeholder for: ${url}`)
-      
-      // Gerar nome do arquivo para referência
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-      const filename = `${takedownRequestId || 'verification'}_${timestamp}.png`
-      const screenshotPath = `${this.screenshotsDir}/${filename}`
-      
-      // Return placeholder path
-      return screenshotPath
+      const screenshot = await screenshotRenderer.renderToStorage(
+        url,
+        `removal-proofs/${takedownRequestId || 'verification'}/${timestamp}`,
+        {
+          viewport: this.config.screenshotViewport,
+          fullPage: this.config.screenshotFullPage,
+          blurSelectors: this.config.screenshotBlurSelectors,
+          timeoutMs: this.config.timeout,
+          userAgent: this.config.userAgent
+        }
+      )
+
+      console.log(`📸 Screenshot capturado para ${url}: ${screenshot.path} (${screenshot.width}x${screenshot.height})`)
+      return screenshot
 
     } catch (error) {
       console.error('Erro ao capturar screenshot:', error)
@@ -385,19 +433,88 @@ export class RemovalVerificationAgent {
     }
   }
 
+  /**
+   * Recapturar a página e comparar com a impressão digital gravada na detecção
+   */
+  private async compareWithFingerprint(
+    url: string,
+    takedownRequestId?: string,
+    takedownRequestItemId?: string
+  ): Promise<FingerprintComparison | undefined> {
+    try {
+      let detectedContentId: string | undefined
+      if (takedownRequestItemId) {
+        const item = await prisma.takedownRequestItem.findUnique({
+          where: { id: takedownRequestItemId },
+          select: { detectedContentId: true }
+        })
+        detectedContentId = item?.detectedContentId
+      } else if (takedownRequestId) {
+        const takedownRequest = await prisma.takedownRequest.findUnique({
+          where: { id: takedownRequestId },
+          select: { detectedContentId: true }
+        })
+        detectedContentId = takedownRequest?.detectedContentId
+      }
+
+      const fingerprint = await contentFingerprintService.findForUrl(url, detectedContentId)
+      if (!fingerprint) return undefined
+
+      return await contentFingerprintService.compare(fingerprint)
+
+    } catch (error) {
+      console.error(`Erro ao comparar ${url} com a impressão digital da detecção:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Consultar o adaptador do file host (seguindo encurtadores); undefined para outros sites
+   */
+  private async checkFileHost(url: string): Promise<FileHostResolution | undefined> {
+    if (!fileHostResolver.adapterFor(url)) return undefined
+
+    try {
+      const resolution = await fileHostResolver.resolve(url)
+      return resolution.kind === 'file_host' ? resolution : undefined
+    } catch (error) {
+      console.error(`Erro ao consultar file host de ${url}:`, error)
+      return undefined
+    }
+  }
+
   /**
    * Determinar status de remoção baseado nas evidências
    */
   private determineRemovalStatus(
     httpResult: any,
     contentAnalysis?: any,
-    screenshotPath?: string
+    screenshotPath?: string,
+    contentComparison?: FingerprintComparison,
+    fileHost?: FileHostResolution
   ): {
     status: RemovalStatus
     proofType: ProofType
     confidence: number
   } {
     
+    // Status informado pelo próprio file host
+    if (fileHost?.availability === 'REMOVED' || fileHost?.availability === 'REMOVED_DMCA') {
+      return {
+        status: 'CONTENT_REMOVED',
+        proofType: fileHost.availability === 'REMOVED_DMCA' ? 'DMCA_TAKEDOWN_NOTICE' : 'FILE_HOST_REMOVED',
+        confidence: 95
+      }
+    }
+
+    if (fileHost?.availability === 'AVAILABLE') {
+      return {
+        status: 'CONTENT_STILL_ONLINE',
+        proofType: 'FILE_HOST_AVAILABLE',
+        confidence: 90
+      }
+    }
+    
     // Remoção confirmada por HTTP 404/410
     if (httpResult.statusCode === 404) {
       return {
@@ -433,6 +550,27 @@ export class RemovalVerificationAgent {
       }
     }
 
+    // Comparação com a página detectada (mais confiável que os indicadores por palavra-chave)
+    if (contentComparison?.verdict === 'REMOVED') {
+      return {
+        status: 'CONTENT_REMOVED',
+        proofType: contentComparison.reason === 'HTTP_GONE'
+          ? (contentComparison.currentHttpStatus === 410 ? 'HTTP_410_GONE' : 'HTTP_404_NOT_FOUND')
+          : contentComparison.reason === 'REDIRECT_TO_LANDING' ? 'REDIRECTED_TO_LANDING_PAGE' : 'CONTENT_FINGERPRINT_MISMATCH',
+        confidence: contentAnalysis?.hasRemovalNotice
+          ? Math.min(99, contentComparison.confidence + 5)
+          : contentComparison.confidence
+      }
+    }
+
+    if (contentComparison?.verdict === 'STILL_ONLINE') {
+      return {
+        status: 'CONTENT_STILL_ONLINE',
+        proofType: 'CONTENT_FINGERPRINT_MATCH',
+        confidence: contentComparison.confidence
+      }
+    }
+
     // Análise de conteúdo (se página ainda acessível)
     if (contentAnalysis) {
       if (contentAnalysis.hasRemovalNotice && !contentAnalysis.hasOriginalContent) {
@@ -443,7 +581,8 @@ export class RemovalVerificationAgent {
         }
       }
 
-      if (contentAnalysis.hasOriginalContent) {
+      // Palavras genéricas ("download", "premium") só contam sem impressão digital para comparar
+      if (contentAnalysis.hasOriginalContent && !contentComparison) {
         return {
           status: 'CONTENT_STILL_ONLINE',
           proofType: screenshotPath ? 'SCREENSHOT_EVIDENCE' : 'MANUAL_VERIFICATION',
@@ -463,18 +602,20 @@ export class RemovalVerificationAgent {
   /**
    * Salvar prova de remoção no banco de dados
    */
-  private async saveRemovalProof(proof: RemovalProof, takedownRequestId?: string): Promise<void> {
+  private async saveRemovalProof(proof: RemovalProof, takedownRequestId?: string, takedownRequestItemId?: string): Promise<void> {
     try {
       // Salvar prova na tabela de evidências
       await prisma.removalProof.create({
         data: {
           id: proof.id,
           takedownRequestId,
+          takedownRequestItemId,
           url: proof.url,
           status: proof.status,
           proofType: proof.proofType,
           verificationDate: proof.verificationDate,
           screenshotPath: proof.screenshotPath,
+          screenshotThumbnailPath: proof.screenshotThumbnailPath,
           httpStatusCode: proof.httpStatusCode,
           responseBody: proof.responseBody,
           errorMessage: proof.errorMessage,
@@ -485,6 +626,22 @@ export class RemovalVerificationAgent {
         }
       })
 
+      // Takedown agrupado: status por URL e status agregado do takedown
+      if (takedownRequestItemId) {
+        const summary = await groupedTakedownService.recordItemVerification(takedownRequestItemId, proof.status)
+        const item = await prisma.takedownRequestItem.findUnique({
+          where: { id: takedownRequestItemId },
+          select: { detectedContentId: true }
+        })
+
+        if (item) {
+          await this.updateDetectedContentStatus(item.detectedContentId, proof.status, takedownRequestId)
+        }
+
+        console.log(`📊 Takedown agrupado ${takedownRequestId}: ${summary?.removed ?? 0}/${summary?.total ?? 0} URLs removidas`)
+        return
+      }
+
       // Atualizar status do takedown request se fornecido
       if (takedownRequestId) {
         await this.updateTakedownRequestStatus(takedownRequestId, proof.status)
@@ -497,28 +654,7 @@ export class RemovalVerificationAgent {
         })
 
         if (takedownRequest) {
-          let newContentStatus: string
-          
-          switch (proof.status) {
-            case 'CONTENT_REMOVED':
-            case 'CONTENT_BLOCKED':
-              newContentStatus = 'DELISTED'
-              break
-            case 'CONTENT_STILL_ONLINE':
-              newContentStatus = 'REJECTED'
-              break
-            default:
-              newContentStatus = 'PENDING_REVIEW'
-          }
-
-          await prisma.detectedContent.update({
-            where: { id: takedownRequest.detectedContentId },
-            data: {
-              status: newContentStatus as any,
-              reviewedAt: new Date(),
-              reviewedBy: 'REMOVAL_VERIFICATION_AGENT'
-            }
-          })
+          await this.updateDetectedContentStatus(takedownRequest.detectedContentId, proof.status, takedownRequestId)
         }
       }
 
@@ -528,6 +664,47 @@ export class RemovalVerificationAgent {
     }
   }
 
+  /**
+   * Atualizar status do detected content conforme o resultado da verificação
+   */
+  private async updateDetectedContentStatus(
+    detectedContentId: string,
+    removalStatus: RemovalStatus,
+    takedownRequestId?: string
+  ): Promise<void> {
+    let newContentStatus: string
+
+    switch (removalStatus) {
+      case 'CONTENT_REMOVED':
+      case 'CONTENT_BLOCKED':
+        newContentStatus = 'DELISTED'
+        break
+      case 'CONTENT_STILL_ONLINE':
+        newContentStatus = 'REJECTED'
+        break
+      default:
+        newContentStatus = 'PENDING_REVIEW'
+    }
+
+    await prisma.detectedContent.update({
+      where: { id: detectedContentId },
+      data: {
+        status: newContentStatus as any,
+        reviewedAt: new Date(),
+        reviewedBy: 'REMOVAL_VERIFICATION_AGENT'
+      }
+    })
+
+    // Conteúdo removido passa a ser vigiado contra republicação no mesmo host
+    if (removalStatus === 'CONTENT_REMOVED' && takedownRequestId) {
+      try {
+        await staydownService.watch(detectedContentId, takedownRequestId)
+      } catch (error) {
+        console.error(`Erro ao iniciar staydown do conteúdo ${detectedContentId}:`, error)
+      }
+    }
+  }
+
   /**
    * Atualizar status do takedown request
    */
@@ -559,6 +736,13 @@ export class RemovalVerificationAgent {
         updatedAt: new Date()
       }
     })
+
+    // Remoção confirmada encerra follow-ups e escalonamentos pendentes
+    if (removalStatus === 'CONTENT_REMOVED' || removalStatus === 'CONTENT_BLOCKED') {
+      await stopEscalationChain(takedownRequestId, 'Remoção confirmada pela verificação automática', {
+        removalStatus
+      })
+    }
   }
 
   /**
@@ -577,7 +761,8 @@ export class RemovalVerificationAgent {
       const takedownRequest = await prisma.takedownRequest.findUnique({
         where: { id: takedownRequestId },
         include: {
-          detectedContent: true
+          detectedContent: true,
+          items: true
         }
       })
 
@@ -585,11 +770,9 @@ export class RemovalVerificationAgent {
         throw new Error('Takedown request não encontrado')
       }
 
-      // Verificar remoção
-      const proof = await this.verifyContentRemoval(
-        takedownRequest.detectedContent.infringingUrl,
-        takedownRequestId
-      )
+      // Verificar remoção (uma verificação por URL em takedowns agrupados)
+      const proofs = await this.verifyTakedownUrls(takedownRequest)
+      const proof = proofs.find(p => p.status !== 'CONTENT_REMOVED' && p.status !== 'CONTENT_BLOCKED') || proofs[0]
 
       // Emitir evento de conclusão
       await this.sessionManager.emitEvent({
@@ -598,10 +781,11 @@ export class RemovalVerificationAgent {
         timestamp: new Date(),
         data: {
           takedownRequestId,
-          removalStatus: proof.status,
-          proofType: proof.proofType,
-          confidence: proof.metadata.confidenceLevel,
-          screenshotPath: proof.screenshotPath,
+          removalStatus: proof?.status,
+          proofType: proof?.proofType,
+          confidence: proof?.metadata.confidenceLevel,
+          screenshotPath: proof?.screenshotPath,
+          urls: proofs.map(p => ({ url: p.url, status: p.status })),
           action: 'removal_verification'
         }
       })
@@ -630,13 +814,14 @@ export class RemovalVerificationAgent {
       // Buscar takedown requests que precisam de verificação
       const takedownsToVerify = await prisma.takedownRequest.findMany({
         where: {
-          status: { in: ['SENT', 'ACKNOWLEDGED', 'IN_REVIEW'] },
+          status: { in: ['SENT', 'ACKNOWLEDGED', 'IN_REVIEW', 'PARTIALLY_REMOVED'] },
           sentAt: {
             lte: new Date(Date.now() - (this.config.waitTimeAfterDMCA * 60 * 60 * 1000))
           }
         },
         include: {
-          detectedContent: true
+          detectedContent: true,
+          items: true
         }
       })
 
@@ -644,10 +829,7 @@ export class RemovalVerificationAgent {
 
       for (const takedown of takedownsToVerify) {
         try {
-          await this.verifyContentRemoval(
-            takedown.detectedContent.infringingUrl,
-            takedown.id
-          )
+          await this.verifyTakedownUrls(takedown)
 
           // Delay entre verificações para não sobrecarregar
           await this.sleep(2000)
@@ -662,16 +844,29 @@ export class RemovalVerificationAgent {
     }
   }
 
-  // Métodos utilitários
-  private async ensureScreenshotsDir(): Promise<void> {
-    try {
-      // Directory creation would be handled by the deployment environment
-      console.log(`Directory placeholder: ${this.screenshotsDir}`)
-    } catch (error) {
-      console.error('Erro ao criar diretório de screenshots:', error)
+  /**
+   * Verificar as URLs de um takedown: a URL única ou, em takedowns agrupados, cada URL ainda não removida
+   */
+  private async verifyTakedownUrls(
+    takedown: TakedownRequest & { detectedContent: { infringingUrl: string }; items: TakedownRequestItem[] }
+  ): Promise<RemovalProof[]> {
+    if (takedown.items.length === 0) {
+      return [await this.verifyContentRemoval(takedown.detectedContent.infringingUrl, takedown.id)]
+    }
+
+    const proofs: RemovalProof[] = []
+    for (const item of takedown.items.filter(item => item.status !== 'REMOVED')) {
+      try {
+        proofs.push(await this.verifyContentRemoval(item.url, takedown.id, item.id))
+        await this.sleep(1000)
+      } catch (error) {
+        console.error(`Erro ao verificar URL ${item.url} do takedown ${takedown.id}:`, error)
+      }
     }
+    return proofs
   }
 
+  // Métodos utilitários
   private generateProofId(): string {
     return `proof_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -1,3 +1,6 @@
+import type { DetectionRuleDefinition } from '../detection/detection-rules'
+import type { ScoreBreakdown } from '../detection/violation-scoring'
+
 export interface ScanSession {
   sessionId: string
   userId: string
@@ -26,6 +29,7 @@ export interface ViolationResult {
   detectedAt: Date
   brandProfileId: string
   knownSiteId: string
+  scoreBreakdown?: ScoreBreakdown
 }
 
 export interface ProgressUpdate {
@@ -75,6 +79,8 @@ export interface BrandProfile {
   variations: string[]
   excludeKeywords: string[]
   riskThreshold: number
+  scoringConfig?: unknown // BrandProfile.scoringConfig, lido por resolveScoringConfig
+  detectionRules?: DetectionRuleDefinition[] // regras ativas do perfil, compiladas pelo ViolationDetector
   industries: string[]
   contentTypes: string[]
   protectedContent: string[]
@@ -99,6 +105,10 @@ export interface MatchResult {
   density: number
   context: string[]
   riskScore: number
+  brandTerms?: string[]
+  brandScore?: number // 0-100, só nome, variações e keywords do perfil
+  suspiciousTerms?: string[]
+  suspiciousScore?: number // 0-100, só padrões suspeitos
 }
 
 export interface ImageAnalysisResult {
@@ -106,6 +116,15 @@ export interface ImageAnalysisResult {
   imageUrls: string[]
   metadata: Record<string, any>
   riskScore: number
+  referenceMatches?: ReferenceImageMatch[]
+}
+
+export interface ReferenceImageMatch {
+  imageUrl: string
+  referenceImageId: string
+  pHashDistance: number
+  dHashDistance: number
+  similarity: number // 0-1
 }
 
 export interface ContextResult {
@@ -113,6 +132,8 @@ export interface ContextResult {
   descriptionMatch: boolean
   structureRisk: number
   pageType: string
+  pageTypeRisk?: number // 0-100
+  factors?: string[]
   riskScore: number
 }
 
@@ -1,6 +1,20 @@
+import { promises as dns } from 'dns';
+import { Prisma, ViolationPatternSet } from '@prisma/client';
+import { prisma } from '../prisma';
+import { CONFIRMED_STATUSES } from '../detection/content-status';
+import {
+  HistoricalViolation,
+  MinedPatternSet,
+  minePatternSet,
+  MiningOptions,
+  scoreUrl,
+  UrlPatternMatch
+} from './pattern-mining';
+
 export interface ViolationPattern {
+  kind: UrlPatternMatch['kind'];
   urlPattern: string;
-  platformType: string;
+  platformType: string; // restrição de site para as buscas (domínio, plataforma ou TLD), quando houver
   commonKeywords: string[];
   pathStructure: string;
   frequency: number;
@@ -12,84 +26,263 @@ export interface PredictionResult {
   similarity: { score: number };
   riskLevel: string;
   confidence: number;
+  matches: UrlPatternMatch[];
+}
+
+export interface HistoricalAnalyzerOptions extends MiningOptions {
+  maxAgeMs?: number; // idade do conjunto ativo a partir da qual ele é minerado de novo
+  maxHistory?: number; // URLs lidas por origem
+}
+
+const GENERIC_TLDS = ['com', 'net', 'org'];
+const RESOLVE_TIMEOUT_MS = 2000;
+const PREDICTION_THRESHOLD = 0.7;
+
+async function resolveIPv4(host: string): Promise<string | null> {
+  const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), RESOLVE_TIMEOUT_MS));
+  const lookup = dns.lookup(host, { family: 4 }).then(result => result.address).catch(() => null);
+  return Promise.race([lookup, timeout]);
 }
 
+/**
+ * Padrões das violações já confirmadas do usuário (ViolationHistory, DetectedContent e importações),
+ * minerados em conjuntos versionados que alimentam as buscas do DiscoveryAgent e o risco de URLs novas
+ */
 export class HistoricalAnalyzer {
-  private violationDatabase: ViolationPattern[];
+  private readonly userId: string;
+  private readonly options: HistoricalAnalyzerOptions;
+  private patternSet: Promise<MinedPatternSet> | null = null;
 
-  constructor() {
-    this.violationDatabase = this.loadViolationDatabase();
+  constructor(userId: string, options: HistoricalAnalyzerOptions = {}) {
+    this.userId = userId;
+    this.options = { resolveHost: resolveIPv4, ...options };
   }
 
-  // Carregar base de 17k URLs derrubados
-  private loadViolationDatabase(): ViolationPattern[] {
-    // Implementar lógica para carregar os 17k URLs
-    return [];
+  // Violações confirmadas nas três origens, mais recentes primeiro
+  async loadHistory(): Promise<HistoricalViolation[]> {
+    const take = this.options.maxHistory ?? 20000;
+
+    const [violations, detections] = await Promise.all([
+      prisma.violationHistory.findMany({
+        where: { knownSite: { userId: this.userId } },
+        select: { url: true, title: true, detectedAt: true },
+        orderBy: { detectedAt: 'desc' },
+        take
+      }),
+      prisma.detectedContent.findMany({
+        where: { userId: this.userId, OR: [{ status: { in: CONFIRMED_STATUSES } }, { isConfirmed: true }] },
+        select: { infringingUrl: true, title: true, keywordSource: true, platform: true, detectedAt: true },
+        orderBy: { detectedAt: 'desc' },
+        take
+      })
+    ]);
+
+    return [
+      ...violations.map((violation): HistoricalViolation => ({
+        url: violation.url,
+        title: violation.title,
+        source: 'violation_history',
+        detectedAt: violation.detectedAt
+      })),
+      ...detections.map((detection): HistoricalViolation => ({
+        url: detection.infringingUrl,
+        title: detection.platform === 'csv_import' ? null : detection.title,
+        keywords: detection.keywordSource && detection.keywordSource !== 'staydown' ? [detection.keywordSource] : [],
+        source: detection.platform === 'csv_import' ? 'import' : 'detected_content',
+        detectedAt: detection.detectedAt
+      }))
+    ];
+  }
+
+  /**
+   * Minerar o histórico e gravar como nova versão ativa
+   */
+  async mine(): Promise<ViolationPatternSet> {
+    const patterns = await minePatternSet(await this.loadHistory(), this.options);
+    const saved = await this.saveVersion(patterns);
+    this.patternSet = Promise.resolve(patterns);
+    return saved;
   }
 
-  // Análise de padrões nos 17k URLs históricos
+  private saveVersion(patterns: MinedPatternSet): Promise<ViolationPatternSet> {
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.violationPatternSet.findFirst({
+        where: { userId: this.userId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      await tx.violationPatternSet.updateMany({ where: { userId: this.userId, isActive: true }, data: { isActive: false } });
+      return tx.violationPatternSet.create({
+        data: {
+          userId: this.userId,
+          version: (latest?.version ?? 0) + 1,
+          isActive: true,
+          totalUrls: patterns.totalUrls,
+          patterns: patterns as unknown as Prisma.InputJsonValue
+        }
+      });
+    });
+  }
+
+  // Análise de padrões nas violações históricas
   async analyzePatterns(): Promise<ViolationPattern[]> {
+    const set = await this.getPatternSet();
     const patterns = await Promise.all([
-      this.analyzeDomainPatterns(),
-      this.analyzePathPatterns(),
-      this.analyzeKeywordPatterns(),
-      this.analyzePlatformPatterns()
+      this.analyzeDomainPatterns(set),
+      this.analyzePathPatterns(set),
+      this.analyzeKeywordPatterns(set),
+      this.analyzePlatformPatterns(set)
     ]);
-    
+
     return this.consolidatePatterns(patterns);
   }
 
-  private async analyzeDomainPatterns(): Promise<ViolationPattern[]> {
-    // Analisar TLDs mais comuns (.com, .to, .cc, etc.)
-    // Implementação da lógica
-    return [];
+  // N-gramas recorrentes nos nomes de domínio
+  private async analyzeDomainPatterns(set: MinedPatternSet): Promise<ViolationPattern[]> {
+    return set.domainNgrams.map(ngram => ({
+      kind: 'ngram',
+      urlPattern: ngram.ngram,
+      platformType: '',
+      commonKeywords: [],
+      pathStructure: '',
+      frequency: ngram.domains,
+      lastSeen: new Date(set.minedAt)
+    }));
   }
 
-  private async analyzePathPatterns(): Promise<ViolationPattern[]> {
-    // Identificar estruturas de diretório comuns
-    return [];
+  // Estruturas de diretório frequentes; restritas ao site quando só aparecem nele
+  private async analyzePathPatterns(set: MinedPatternSet): Promise<ViolationPattern[]> {
+    return set.pathTemplates.map(path => ({
+      kind: 'path',
+      urlPattern: path.template,
+      platformType: path.domains === 1 ? path.topDomains[0] : '',
+      commonKeywords: path.keywords,
+      pathStructure: path.template,
+      frequency: path.urls,
+      lastSeen: new Date(path.lastSeen)
+    }));
   }
 
-  private async analyzeKeywordPatterns(): Promise<ViolationPattern[]> {
-    // Analisar convenções de nomenclatura de arquivos
-    return [];
+  // Pares de termos que aparecem juntos nos títulos, keywords e caminhos
+  private async analyzeKeywordPatterns(set: MinedPatternSet): Promise<ViolationPattern[]> {
+    return set.keywordPairs.map(pair => ({
+      kind: 'keyword',
+      urlPattern: pair.terms.join(' '),
+      platformType: '',
+      commonKeywords: [...pair.terms],
+      pathStructure: '',
+      frequency: pair.support,
+      lastSeen: new Date(set.minedAt)
+    }));
   }
 
-  private async analyzePlatformPatterns(): Promise<ViolationPattern[]> {
-    // Detectar uso de CDNs e proxies comuns
-    return [];
+  // TLDs e hospedagens onde as violações se concentram
+  private async analyzePlatformPatterns(set: MinedPatternSet): Promise<ViolationPattern[]> {
+    const tlds = set.tlds
+      .filter(tld => tld.share >= 0.05 && !GENERIC_TLDS.includes(tld.tld))
+      .map((tld): ViolationPattern => ({
+        kind: 'tld',
+        urlPattern: `.${tld.tld}`,
+        platformType: `.${tld.tld}`,
+        commonKeywords: [],
+        pathStructure: '',
+        frequency: tld.urls,
+        lastSeen: new Date(set.minedAt)
+      }));
+
+    const hosting = set.hostingClusters.map((cluster): ViolationPattern => ({
+      kind: 'hosting',
+      urlPattern: cluster.key,
+      platformType: cluster.kind === 'platform' ? cluster.key : '',
+      commonKeywords: [],
+      pathStructure: '',
+      frequency: cluster.urls,
+      lastSeen: new Date(set.minedAt)
+    }));
+
+    return [...tlds, ...hosting];
   }
 
+  // Intercalar os tipos para que os primeiros padrões não sejam todos do mesmo tipo
   private consolidatePatterns(patterns: ViolationPattern[][]): ViolationPattern[] {
-    // Consolidação de padrões
-    return patterns.flat();
+    const groups = patterns.map(group => [...group].sort((a, b) => b.frequency - a.frequency));
+    const consolidated: ViolationPattern[] = [];
+    for (let index = 0; groups.some(group => index < group.length); index++) {
+      for (const group of groups) {
+        if (index < group.length) consolidated.push(group[index]);
+      }
+    }
+    return consolidated;
   }
 
   async calculateSimilarity(url: string): Promise<number> {
-    // Implementação da lógica de cálculo de similaridade
-    return Math.random(); // Exemplo de retorno
+    return scoreUrl(url, await this.getPatternSet()).score;
   }
 
   async findMatchingPatterns(url: string): Promise<ViolationPattern[]> {
-    // Encontrar padrões que correspondem ao URL
-    return this.violationDatabase.filter(pattern => url.includes(pattern.urlPattern));
+    const set = await this.getPatternSet();
+    return scoreUrl(url, set).matches.map(match => ({
+      kind: match.kind,
+      urlPattern: match.pattern,
+      platformType: '',
+      commonKeywords: [],
+      pathStructure: match.kind === 'path' ? match.pattern : '',
+      frequency: 0,
+      lastSeen: new Date(set.minedAt)
+    }));
   }
 
   async predictLikelyDomains(newUrls: string[]): Promise<PredictionResult[]> {
+    const set = await this.getPatternSet();
     const predictions: PredictionResult[] = [];
-    
+
     for (const url of newUrls) {
-      const similarity = await this.calculateSimilarity(url);
-      if (similarity > 0.7) {
+      const { score, matches } = scoreUrl(url, set);
+      if (score >= PREDICTION_THRESHOLD) {
         predictions.push({
           url,
-          similarity: { score: similarity },
-          riskLevel: 'HIGH',
-          confidence: similarity
+          similarity: { score },
+          riskLevel: score >= 0.9 ? 'CRITICAL' : 'HIGH',
+          confidence: score,
+          matches
         });
       }
     }
-    
-    return predictions;
+
+    return predictions.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // TLDs mais frequentes nas violações, para as buscas por domínios parecidos
+  async topTlds(limit = 3): Promise<string[]> {
+    const set = await this.getPatternSet();
+    return set.tlds.slice(0, limit).map(tld => tld.tld);
+  }
+
+  // Conjunto ativo; minera de novo quando não existe ou passou de maxAgeMs
+  private getPatternSet(): Promise<MinedPatternSet> {
+    if (!this.patternSet) {
+      this.patternSet = this.loadActiveSet().catch(error => {
+        this.patternSet = null;
+        throw error;
+      });
+    }
+    return this.patternSet;
+  }
+
+  private async loadActiveSet(): Promise<MinedPatternSet> {
+    const active = await prisma.violationPatternSet.findFirst({
+      where: { userId: this.userId, isActive: true },
+      orderBy: { version: 'desc' }
+    });
+    const maxAgeMs = this.options.maxAgeMs ?? 24 * 60 * 60 * 1000;
+    if (active && Date.now() - active.createdAt.getTime() < maxAgeMs) {
+      return active.patterns as unknown as MinedPatternSet;
+    }
+
+    const patterns = await minePatternSet(await this.loadHistory(), this.options);
+    if (patterns.totalUrls > 0) {
+      await this.saveVersion(patterns);
+    }
+    return patterns;
   }
 }
@@ -0,0 +1,440 @@
+/**
+ * Mineração de padrões em URLs de violações já confirmadas: modelos de caminho, n-gramas de domínio,
+ * TLDs, agrupamento por hospedagem e coocorrência de palavras. O resultado é serializado em ViolationPatternSet.
+ */
+
+export type HistorySource = 'violation_history' | 'detected_content' | 'import';
+
+export interface HistoricalViolation {
+  url: string;
+  title?: string | null;
+  keywords?: string[];
+  source: HistorySource;
+  detectedAt: Date;
+}
+
+export interface PathTemplatePattern {
+  template: string;
+  urls: number;
+  domains: number;
+  topDomains: string[];
+  keywords: string[]; // segmentos literais do modelo
+  lastSeen: string;
+}
+
+export interface DomainNgramPattern {
+  ngram: string;
+  domains: number;
+  examples: string[];
+}
+
+export interface TldPattern {
+  tld: string;
+  domains: number;
+  urls: number;
+  share: number;
+}
+
+export interface HostingCluster {
+  key: string; // sufixo da plataforma (ex.: blogspot.com) ou rede /24
+  kind: 'platform' | 'network';
+  domains: string[];
+  urls: number;
+}
+
+export interface KeywordPair {
+  terms: [string, string];
+  support: number;
+  lift: number;
+}
+
+export interface MinedPatternSet {
+  minedAt: string;
+  totalUrls: number;
+  sources: Record<HistorySource, number>;
+  domains: Array<{ domain: string; urls: number }>;
+  pathTemplates: PathTemplatePattern[];
+  domainNgrams: DomainNgramPattern[];
+  tlds: TldPattern[];
+  hostingClusters: HostingCluster[];
+  keywords: Array<{ term: string; support: number }>;
+  keywordPairs: KeywordPair[];
+}
+
+export interface MiningOptions {
+  minSupport?: number;
+  maxPatterns?: number;
+  maxDomains?: number;
+  // Resolve o IPv4 do host para agrupar domínios na mesma rede; sem resolver, só plataformas conhecidas
+  resolveHost?: (host: string) => Promise<string | null>;
+  maxResolvedDomains?: number;
+}
+
+export interface UrlPatternMatch {
+  kind: 'domain' | 'hosting' | 'path' | 'ngram' | 'tld' | 'keyword';
+  pattern: string;
+  score: number;
+}
+
+export interface UrlRiskScore {
+  score: number; // 0-1
+  matches: UrlPatternMatch[];
+}
+
+// Sufixos de hospedagem gratuita tratados como sufixo público: cada subdomínio é um site diferente
+export const HOSTING_SUFFIXES = [
+  'blogspot.com', 'wordpress.com', 'tumblr.com', 'netlify.app', 'vercel.app', 'pages.dev', 'github.io',
+  'weebly.com', 'wixsite.com', 'carrd.co', 'webflow.io', 'neocities.org', '000webhostapp.com'
+];
+
+const TWO_LEVEL_SUFFIXES = ['com.br', 'net.br', 'org.br', 'co.uk', 'org.uk', 'com.au', 'co.jp', 'com.ar', 'com.mx', 'co.in'];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'www', 'com', 'net', 'org', 'http', 'https', 'html', 'htm', 'php', 'asp', 'aspx',
+  'index', 'page', 'amp', 'que', 'para', 'uma', 'dos', 'das', 'por', 'mais', 'você', 'this', 'that', 'are', 'you'
+]);
+
+const MAX_TEMPLATE_DEPTH = 4;
+const MAX_KEYWORD_TERMS = 200;
+const MAX_DOC_TERMS = 30;
+const RESOLVE_BATCH = 10;
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseHost(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function publicSuffixOf(host: string): string {
+  const suffix = [...HOSTING_SUFFIXES, ...TWO_LEVEL_SUFFIXES].find(candidate => host === candidate || host.endsWith(`.${candidate}`));
+  return suffix ?? host.split('.').slice(-1)[0];
+}
+
+/**
+ * Domínio registrável (um rótulo antes do sufixo público); subdomínios do mesmo site contam como um só
+ */
+export function registrableDomain(url: string): string {
+  const host = url.includes('://') ? parseHost(url) : url.toLowerCase().replace(/^www\./, '');
+  if (!host) return '';
+  const suffix = publicSuffixOf(host);
+  if (host === suffix) return host;
+  const label = host.slice(0, -(suffix.length + 1)).split('.').pop();
+  return `${label}.${suffix}`;
+}
+
+function domainLabel(domain: string): string {
+  const suffix = publicSuffixOf(domain);
+  return domain === suffix ? domain : domain.slice(0, -(suffix.length + 1));
+}
+
+function normalizeSegment(segment: string): string {
+  const decoded = (() => {
+    try {
+      return decodeURIComponent(segment).toLowerCase();
+    } catch {
+      return segment.toLowerCase();
+    }
+  })();
+
+  const threadId = decoded.match(/^(.+)\.(\d+)$/);
+  if (threadId) return `${normalizeSegment(threadId[1])}.{n}`;
+
+  const file = decoded.match(/^(.+)\.([a-z0-9]{2,5})$/);
+  if (file && /[a-z]/.test(file[2])) return `${normalizeSegment(file[1])}.${file[2]}`;
+
+  if (/^\d+$/.test(decoded)) return '{n}';
+  if (/^[0-9a-f]{8,}$/.test(decoded) || (decoded.length >= 6 && /\d/.test(decoded) && /[a-z]/.test(decoded) && !/[-_]/.test(decoded))) {
+    return '{id}';
+  }
+  if ((decoded.match(/[-_ ]/g) ?? []).length >= 2 || decoded.length > 24) return '{slug}';
+  return decoded.replace(/\d+/g, '{n}');
+}
+
+/**
+ * Modelo do caminho com números, ids e slugs trocados por marcadores (ex.: /threads/lara-vox-pack.123/page-2 → /threads/{slug}.{n}/page-{n})
+ */
+export function pathTemplate(url: string): string {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return '';
+  }
+  const segments = pathname.split('/').filter(Boolean);
+  const template = segments.slice(0, MAX_TEMPLATE_DEPTH).map(normalizeSegment);
+  return `/${template.join('/')}${segments.length > MAX_TEMPLATE_DEPTH ? '/*' : ''}`;
+}
+
+function templateKeywords(template: string): string[] {
+  return template
+    .split(/[/.]/)
+    .filter(part => part && !part.startsWith('{') && part !== '*' && /^[a-z][a-z0-9-]{2,}$/.test(part) && !STOPWORDS.has(part));
+}
+
+// Modelos só com marcadores e um nível (/{slug}, /{n}) casam com qualquer site
+function isInformativeTemplate(template: string): boolean {
+  const parts = template.split('/').filter(Boolean);
+  return parts.length > 1 || templateKeywords(template).length > 0;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9à-ÿ]+/)
+    .filter(token => token.length >= 3 && !/^\d+$/.test(token) && !STOPWORDS.has(token));
+}
+
+function minePathTemplates(history: HistoricalViolation[], minSupport: number, limit: number): PathTemplatePattern[] {
+  const templates = new Map<string, { urls: number; domains: Map<string, number>; lastSeen: Date }>();
+  for (const violation of history) {
+    const template = pathTemplate(violation.url);
+    if (!template || !isInformativeTemplate(template)) continue;
+    const entry = templates.get(template) ?? { urls: 0, domains: new Map(), lastSeen: violation.detectedAt };
+    const domain = registrableDomain(violation.url);
+    entry.urls++;
+    entry.domains.set(domain, (entry.domains.get(domain) ?? 0) + 1);
+    if (violation.detectedAt > entry.lastSeen) entry.lastSeen = violation.detectedAt;
+    templates.set(template, entry);
+  }
+
+  return [...templates.entries()]
+    .filter(([, entry]) => entry.urls >= minSupport)
+    .sort((a, b) => b[1].domains.size - a[1].domains.size || b[1].urls - a[1].urls)
+    .slice(0, limit)
+    .map(([template, entry]) => ({
+      template,
+      urls: entry.urls,
+      domains: entry.domains.size,
+      topDomains: [...entry.domains.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([domain]) => domain),
+      keywords: templateKeywords(template),
+      lastSeen: entry.lastSeen.toISOString()
+    }));
+}
+
+/**
+ * N-gramas de caracteres do nome dos domínios presentes em vários sites; descarta os contidos em um maior com o mesmo suporte
+ */
+function mineDomainNgrams(domains: string[], minSupport: number, limit: number): DomainNgramPattern[] {
+  const ngrams = new Map<string, Set<string>>();
+  for (const domain of domains) {
+    const label = domainLabel(domain).replace(/[^a-z0-9]/g, '');
+    const seen = new Set<string>();
+    for (let size = 4; size <= Math.min(10, label.length); size++) {
+      for (let start = 0; start + size <= label.length; start++) {
+        const gram = label.slice(start, start + size);
+        if (/^\d+$/.test(gram) || seen.has(gram)) continue;
+        seen.add(gram);
+        const set = ngrams.get(gram) ?? new Set<string>();
+        set.add(domain);
+        ngrams.set(gram, set);
+      }
+    }
+  }
+
+  const frequent = [...ngrams.entries()]
+    .filter(([, set]) => set.size >= minSupport)
+    .sort((a, b) => b[1].size - a[1].size || b[0].length - a[0].length);
+
+  const closed = frequent.filter(([gram, set]) =>
+    !frequent.some(([other, otherSet]) => other !== gram && other.includes(gram) && otherSet.size === set.size)
+  );
+
+  return closed.slice(0, limit).map(([ngram, set]) => ({ ngram, domains: set.size, examples: [...set].slice(0, 5) }));
+}
+
+function mineTlds(domainUrls: Map<string, number>, totalUrls: number): TldPattern[] {
+  const tlds = new Map<string, { domains: number; urls: number }>();
+  for (const [domain, urls] of domainUrls) {
+    const suffix = publicSuffixOf(domain);
+    if (HOSTING_SUFFIXES.includes(suffix)) continue;
+    const entry = tlds.get(suffix) ?? { domains: 0, urls: 0 };
+    entry.domains++;
+    entry.urls += urls;
+    tlds.set(suffix, entry);
+  }
+
+  return [...tlds.entries()]
+    .map(([tld, entry]) => ({ tld, ...entry, share: round(entry.urls / Math.max(1, totalUrls)) }))
+    .sort((a, b) => b.urls - a.urls)
+    .slice(0, 30);
+}
+
+async function mineHostingClusters(domainUrls: Map<string, number>, options: MiningOptions): Promise<HostingCluster[]> {
+  const clusters: HostingCluster[] = [];
+
+  const platforms = new Map<string, { domains: string[]; urls: number }>();
+  for (const [domain, urls] of domainUrls) {
+    const suffix = publicSuffixOf(domain);
+    if (!HOSTING_SUFFIXES.includes(suffix)) continue;
+    const entry = platforms.get(suffix) ?? { domains: [], urls: 0 };
+    entry.domains.push(domain);
+    entry.urls += urls;
+    platforms.set(suffix, entry);
+  }
+  for (const [key, entry] of platforms) {
+    if (entry.domains.length >= 2) clusters.push({ key, kind: 'platform', domains: entry.domains.slice(0, 50), urls: entry.urls });
+  }
+
+  if (options.resolveHost) {
+    const candidates = [...domainUrls.entries()]
+      .filter(([domain]) => !HOSTING_SUFFIXES.includes(publicSuffixOf(domain)))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.maxResolvedDomains ?? 100);
+
+    const networks = new Map<string, { domains: string[]; urls: number }>();
+    for (let start = 0; start < candidates.length; start += RESOLVE_BATCH) {
+      const batch = candidates.slice(start, start + RESOLVE_BATCH);
+      const addresses = await Promise.all(batch.map(([domain]) => options.resolveHost!(domain).catch(() => null)));
+      batch.forEach(([domain, urls], index) => {
+        const ip = addresses[index];
+        if (!ip || !/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return;
+        const network = `${ip.split('.').slice(0, 3).join('.')}.0/24`;
+        const entry = networks.get(network) ?? { domains: [], urls: 0 };
+        entry.domains.push(domain);
+        entry.urls += urls;
+        networks.set(network, entry);
+      });
+    }
+    for (const [key, entry] of networks) {
+      if (entry.domains.length >= 2) clusters.push({ key, kind: 'network', domains: entry.domains, urls: entry.urls });
+    }
+  }
+
+  return clusters.sort((a, b) => b.domains.length - a.domains.length);
+}
+
+/**
+ * Termos frequentes (título, keywords e caminho) e pares que aparecem juntos acima do acaso (lift > 1)
+ */
+function mineKeywords(
+  history: HistoricalViolation[],
+  minSupport: number,
+  limit: number
+): { keywords: Array<{ term: string; support: number }>; keywordPairs: KeywordPair[] } {
+  const documents = history.map(violation => {
+    const pathTokens = (() => {
+      try {
+        return tokenize(decodeURIComponent(new URL(violation.url).pathname));
+      } catch {
+        return [];
+      }
+    })();
+    return new Set([...tokenize(violation.title ?? ''), ...(violation.keywords ?? []).flatMap(tokenize), ...pathTokens].slice(0, MAX_DOC_TERMS));
+  });
+
+  const termSupport = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of document) termSupport.set(term, (termSupport.get(term) ?? 0) + 1);
+  }
+
+  const frequentTerms = [...termSupport.entries()]
+    .filter(([, support]) => support >= minSupport)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_KEYWORD_TERMS);
+  const frequent = new Set(frequentTerms.map(([term]) => term));
+
+  const pairs = new Map<string, number>();
+  for (const document of documents) {
+    const terms = [...document].filter(term => frequent.has(term)).sort();
+    for (let i = 0; i < terms.length; i++) {
+      for (let j = i + 1; j < terms.length; j++) {
+        const key = `${terms[i]}\u0000${terms[j]}`;
+        pairs.set(key, (pairs.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const total = Math.max(1, documents.length);
+  const keywordPairs = [...pairs.entries()]
+    .filter(([, support]) => support >= minSupport)
+    .map(([key, support]) => {
+      const [a, b] = key.split('\u0000');
+      const lift = (support / total) / ((termSupport.get(a)! / total) * (termSupport.get(b)! / total));
+      return { terms: [a, b] as [string, string], support, lift: round(lift, 2) };
+    })
+    .filter(pair => pair.lift > 1)
+    .sort((a, b) => b.support - a.support || b.lift - a.lift)
+    .slice(0, limit);
+
+  return {
+    keywords: frequentTerms.slice(0, limit).map(([term, support]) => ({ term, support })),
+    keywordPairs
+  };
+}
+
+export async function minePatternSet(history: HistoricalViolation[], options: MiningOptions = {}): Promise<MinedPatternSet> {
+  const minSupport = options.minSupport ?? 3;
+  const limit = options.maxPatterns ?? 50;
+
+  const unique = new Map<string, HistoricalViolation>();
+  for (const violation of history) {
+    if (registrableDomain(violation.url) && !unique.has(violation.url)) unique.set(violation.url, violation);
+  }
+  const violations = [...unique.values()];
+
+  const sources: Record<HistorySource, number> = { violation_history: 0, detected_content: 0, import: 0 };
+  const domainUrls = new Map<string, number>();
+  for (const violation of violations) {
+    sources[violation.source]++;
+    const domain = registrableDomain(violation.url);
+    domainUrls.set(domain, (domainUrls.get(domain) ?? 0) + 1);
+  }
+
+  const { keywords, keywordPairs } = mineKeywords(violations, minSupport, limit);
+
+  return {
+    minedAt: new Date().toISOString(),
+    totalUrls: violations.length,
+    sources,
+    domains: [...domainUrls.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.maxDomains ?? 2000)
+      .map(([domain, urls]) => ({ domain, urls })),
+    pathTemplates: minePathTemplates(violations, minSupport, limit),
+    domainNgrams: mineDomainNgrams([...domainUrls.keys()], minSupport, limit),
+    tlds: mineTlds(domainUrls, violations.length),
+    hostingClusters: await mineHostingClusters(domainUrls, options),
+    keywords,
+    keywordPairs
+  };
+}
+
+/**
+ * Risco de uma URL nova pelos padrões minerados; cada padrão que casa soma como evidência independente (noisy-or)
+ */
+export function scoreUrl(url: string, set: MinedPatternSet): UrlRiskScore {
+  const domain = registrableDomain(url);
+  if (!domain) return { score: 0, matches: [] };
+  const matches: UrlPatternMatch[] = [];
+
+  const known = set.domains.find(entry => entry.domain === domain);
+  if (known) matches.push({ kind: 'domain', pattern: domain, score: round(0.7 + 0.3 * Math.min(1, known.urls / 10)) });
+
+  const cluster = set.hostingClusters.find(entry => entry.domains.includes(domain) || (entry.kind === 'platform' && domain.endsWith(`.${entry.key}`)));
+  if (cluster && !known) matches.push({ kind: 'hosting', pattern: cluster.key, score: cluster.kind === 'network' ? 0.6 : 0.3 });
+
+  const template = pathTemplate(url);
+  const path = set.pathTemplates.find(entry => entry.template === template);
+  if (path) matches.push({ kind: 'path', pattern: path.template, score: round(0.4 + 0.4 * Math.min(1, path.domains / 5)) });
+
+  const label = domainLabel(domain);
+  const ngram = set.domainNgrams.find(entry => label.includes(entry.ngram));
+  if (ngram) matches.push({ kind: 'ngram', pattern: ngram.ngram, score: round(0.3 + 0.3 * Math.min(1, ngram.domains / 10)) });
+
+  const tld = set.tlds.find(entry => entry.tld === publicSuffixOf(domain));
+  if (tld && tld.share >= 0.05) matches.push({ kind: 'tld', pattern: tld.tld, score: round(0.3 * tld.share) });
+
+  const urlTerms = new Set(tokenize(url));
+  const pair = set.keywordPairs.find(entry => urlTerms.has(entry.terms[0]) && urlTerms.has(entry.terms[1]));
+  if (pair) matches.push({ kind: 'keyword', pattern: pair.terms.join(' + '), score: 0.3 });
+
+  const score = 1 - matches.reduce((remaining, match) => remaining * (1 - match.score), 1);
+  return { score: round(score), matches };
+}
@@ -0,0 +1,209 @@
+import * as cheerio from 'cheerio/slim'
+
+export interface ImageHash {
+  url: string
+  sha256: string
+}
+
+/**
+ * Estado de uma página: gravado na detecção e recapturado na verificação
+ */
+export interface PageSnapshot {
+  url: string
+  finalUrl: string
+  httpStatus: number
+  title: string | null
+  normalizedText: string
+  imageHashes: ImageHash[]
+}
+
+export type RedirectKind = 'HOME' | 'SEARCH' | 'OTHER_PAGE'
+
+export type FingerprintVerdict = 'REMOVED' | 'STILL_ONLINE' | 'INCONCLUSIVE'
+
+export type FingerprintReason =
+  | 'HTTP_GONE'
+  | 'REDIRECT_TO_LANDING'
+  | 'CONTENT_CHANGED'
+  | 'CONTENT_MATCH'
+  | 'INSUFFICIENT_SIGNAL'
+
+export interface FingerprintComparison {
+  verdict: FingerprintVerdict
+  reason: FingerprintReason
+  confidence: number // 0-100
+  textSimilarity: number | null // fração do texto original ainda presente; null sem texto suficiente
+  matchedImages: number
+  originalImages: number
+  redirect: RedirectKind | null
+  currentUrl: string
+  currentHttpStatus: number
+  signals: string[]
+}
+
+export const MAX_FINGERPRINT_TEXT_LENGTH = 20000
+
+const SHINGLE_SIZE = 3
+const MIN_ORIGINAL_SHINGLES = 20
+const STILL_ONLINE_SIMILARITY = 0.6
+const REMOVED_SIMILARITY = 0.2
+
+const BOILERPLATE_SELECTORS = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form'
+const SEARCH_PATH = /\/(search|busca|pesquisa|buscar|results?)(\/|$)/i
+const SEARCH_PARAMS = ['s', 'q', 'query', 'search', 'busca', 'keyword']
+const INDEX_PATH = /^\/(index|default|home|inicio)(\.(html?|php|aspx?))?$/i
+
+/**
+ * Minúsculas, sem acentos e pontuação, espaços colapsados
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+/**
+ * Título e texto principal do HTML, sem scripts, menus e rodapés
+ */
+export function extractPageText(html: string): { title: string | null; normalizedText: string } {
+  const $ = cheerio.load(html)
+  const title = $('title').first().text().trim() || null
+  $(BOILERPLATE_SELECTORS).remove()
+
+  const body = $('body').length > 0 ? $('body').text() : $.root().text()
+  return {
+    title,
+    normalizedText: normalizeText(`${title ?? ''} ${body}`).slice(0, MAX_FINGERPRINT_TEXT_LENGTH)
+  }
+}
+
+export function textShingles(normalizedText: string, size = SHINGLE_SIZE): Set<string> {
+  const words = normalizedText.split(' ').filter(Boolean)
+  const shingles = new Set<string>()
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '))
+  }
+  return shingles
+}
+
+/**
+ * Fração dos shingles do texto original presentes no atual (tolera anúncios e blocos novos na página)
+ */
+export function textContainment(original: Set<string>, current: Set<string>): number {
+  if (original.size === 0) return 0
+  let shared = 0
+  original.forEach(shingle => {
+    if (current.has(shingle)) shared++
+  })
+  return shared / original.size
+}
+
+function comparableUrl(url: URL): string {
+  const path = url.pathname.replace(/\/+$/, '') || '/'
+  return `${url.hostname.replace(/^www\./, '')}${path}${url.search}`
+}
+
+/**
+ * Tipo de redirecionamento entre a URL detectada e a atual; null quando é a mesma página
+ */
+export function classifyRedirect(originalUrl: string, currentUrl: string): RedirectKind | null {
+  let original: URL
+  let current: URL
+  try {
+    original = new URL(originalUrl)
+    current = new URL(currentUrl)
+  } catch {
+    return null
+  }
+
+  if (comparableUrl(original) === comparableUrl(current)) return null
+
+  if (SEARCH_PATH.test(current.pathname) || SEARCH_PARAMS.some(param => current.searchParams.has(param))) {
+    return 'SEARCH'
+  }
+
+  const currentPath = current.pathname.replace(/\/+$/, '') || '/'
+  const originalPath = original.pathname.replace(/\/+$/, '') || '/'
+  if ((currentPath === '/' || INDEX_PATH.test(currentPath)) && originalPath !== currentPath) {
+    return 'HOME'
+  }
+
+  return 'OTHER_PAGE'
+}
+
+/**
+ * Comparar a página atual com a impressão digital da detecção e emitir um veredito com confiança
+ */
+export function compareFingerprints(original: PageSnapshot, current: PageSnapshot): FingerprintComparison {
+  const originalShingles = textShingles(original.normalizedText)
+  const textSimilarity = originalShingles.size >= MIN_ORIGINAL_SHINGLES
+    ? textContainment(originalShingles, textShingles(current.normalizedText))
+    : null
+
+  const currentHashes = new Set(current.imageHashes.map(image => image.sha256))
+  const matchedImages = original.imageHashes.filter(image => currentHashes.has(image.sha256)).length
+  const originalImages = original.imageHashes.length
+  const redirect = classifyRedirect(original.finalUrl, current.finalUrl)
+
+  const signals: string[] = []
+  if (current.finalUrl !== original.finalUrl) {
+    signals.push(`URL final mudou: ${original.finalUrl} → ${current.finalUrl}${redirect ? ` (${redirect})` : ''}`)
+  }
+  if (textSimilarity !== null) {
+    signals.push(`Similaridade de texto com a detecção: ${Math.round(textSimilarity * 100)}%`)
+  } else {
+    signals.push('Texto original insuficiente para comparação')
+  }
+  if (originalImages > 0) {
+    signals.push(`Imagens detectadas ainda presentes: ${matchedImages}/${originalImages}`)
+  }
+
+  const result = (verdict: FingerprintVerdict, reason: FingerprintReason, confidence: number): FingerprintComparison => ({
+    verdict,
+    reason,
+    confidence: Math.max(0, Math.min(99, Math.round(confidence))),
+    textSimilarity,
+    matchedImages,
+    originalImages,
+    redirect,
+    currentUrl: current.finalUrl,
+    currentHttpStatus: current.httpStatus,
+    signals
+  })
+
+  if (current.httpStatus === 404 || current.httpStatus === 410) {
+    signals.push(`Página atual respondeu HTTP ${current.httpStatus}`)
+    return result('REMOVED', 'HTTP_GONE', current.httpStatus === 410 ? 98 : 95)
+  }
+
+  // Home/busca podem exibir miniaturas do conteúdo: só o texto original na página mantém o conteúdo online
+  if ((redirect === 'HOME' || redirect === 'SEARCH') && (textSimilarity === null || textSimilarity < STILL_ONLINE_SIMILARITY)) {
+    return result('REMOVED', 'REDIRECT_TO_LANDING', textSimilarity !== null && textSimilarity < REMOVED_SIMILARITY ? 92 : 85)
+  }
+
+  if (matchedImages > 0) {
+    return result('STILL_ONLINE', 'CONTENT_MATCH', 80 + 15 * (matchedImages / originalImages))
+  }
+
+  if (textSimilarity !== null && textSimilarity >= STILL_ONLINE_SIMILARITY) {
+    return result('STILL_ONLINE', 'CONTENT_MATCH', 70 + 25 * textSimilarity)
+  }
+
+  if (current.httpStatus >= 400) {
+    signals.push(`Página atual respondeu HTTP ${current.httpStatus}`)
+    return result('INCONCLUSIVE', 'INSUFFICIENT_SIGNAL', 50)
+  }
+
+  if (textSimilarity !== null && textSimilarity <= REMOVED_SIMILARITY) {
+    return result('REMOVED', 'CONTENT_CHANGED', 80 - textSimilarity * 50 + (originalImages > 0 ? 10 : 0))
+  }
+
+  if (textSimilarity === null && originalImages > 0) {
+    return result('REMOVED', 'CONTENT_CHANGED', 75)
+  }
+
+  return result('INCONCLUSIVE', 'INSUFFICIENT_SIGNAL', 50)
+}
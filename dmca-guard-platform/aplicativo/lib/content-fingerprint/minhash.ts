@@ -0,0 +1,67 @@
+import { createHash } from 'crypto'
+import { normalizeText, textShingles } from '@/lib/content-fingerprint/fingerprint'
+import { hammingDistance, simhash } from '@/lib/content-fingerprint/simhash'
+
+export interface TextFingerprint {
+  simhash: string | null
+  minhash: number[] | null
+}
+
+const MINHASH_SIZE = 64
+const MIN_SHINGLES = 8
+
+// Mesmo post com outro cabeçalho, rodapé ou anúncios: poucos bits de SimHash ou metade dos shingles em comum
+export const SIMHASH_DUPLICATE_DISTANCE = 3
+export const MINHASH_DUPLICATE_SIMILARITY = 0.5
+
+/**
+ * Assinatura MinHash de 64 posições sobre shingles de 3 palavras; null para textos curtos demais
+ *
+ * Cada posição é o menor valor de h1 + i·h2 (mod 2³²) entre os shingles; a fração de posições
+ * iguais entre duas assinaturas estima a similaridade de Jaccard dos textos.
+ */
+export function minhash(normalizedText: string, size = MINHASH_SIZE): number[] | null {
+  const shingles = textShingles(normalizedText)
+  if (shingles.size < MIN_SHINGLES) return null
+
+  const signature = new Array<number>(size).fill(0xffffffff)
+  shingles.forEach(shingle => {
+    const digest = createHash('md5').update(shingle).digest()
+    const h1 = digest.readUInt32BE(0)
+    const h2 = digest.readUInt32BE(4) | 1
+    for (let i = 0; i < size; i++) {
+      const value = (h1 + Math.imul(i, h2)) >>> 0
+      if (value < signature[i]) signature[i] = value
+    }
+  })
+  return signature
+}
+
+/**
+ * Similaridade de Jaccard estimada entre duas assinaturas (0-1)
+ */
+export function minhashSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let equal = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++
+  }
+  return equal / a.length
+}
+
+/**
+ * SimHash e MinHash do texto de uma página (título e corpo)
+ */
+export function computeTextFingerprint(text: string): TextFingerprint {
+  const normalized = normalizeText(text)
+  return { simhash: simhash(normalized), minhash: minhash(normalized) }
+}
+
+/**
+ * Textos quase idênticos pelo SimHash ou pela MinHash
+ */
+export function isNearDuplicate(a: TextFingerprint, b: TextFingerprint): boolean {
+  if (a.simhash && b.simhash && hammingDistance(a.simhash, b.simhash) <= SIMHASH_DUPLICATE_DISTANCE) return true
+  if (a.minhash && b.minhash) return minhashSimilarity(a.minhash, b.minhash) >= MINHASH_DUPLICATE_SIMILARITY
+  return false
+}
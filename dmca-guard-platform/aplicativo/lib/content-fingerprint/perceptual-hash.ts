@@ -0,0 +1,183 @@
+import sharp from 'sharp'
+import { hammingDistance } from '@/lib/content-fingerprint/simhash'
+
+export interface PerceptualHashes {
+  pHash: string // 64 bits em hex
+  dHash: string // 64 bits em hex
+}
+
+// Região em frações da imagem (0-1)
+export interface CropRegion {
+  name: string
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface CropHashes extends PerceptualHashes {
+  crop: string // nome da região recortada
+}
+
+export interface ImageFingerprint extends PerceptualHashes {
+  width: number
+  height: number
+  crops: CropHashes[]
+}
+
+export interface PerceptualMatch {
+  pHashDistance: number
+  dHashDistance: number
+  crop: string // 'full' ou o nome do recorte da referência
+  similarity: number // 0-1
+}
+
+const DCT_SIZE = 32
+const HASH_SIZE = 8
+
+// Recortes gravados da referência: cópias com bordas ou uma faixa cortada (marca d'água) casam com um deles
+export const REFERENCE_CROPS: CropRegion[] = [
+  { name: 'center-90', left: 0.05, top: 0.05, width: 0.9, height: 0.9 },
+  { name: 'center-80', left: 0.1, top: 0.1, width: 0.8, height: 0.8 },
+  { name: 'trim-top', left: 0, top: 0.1, width: 1, height: 0.9 },
+  { name: 'trim-bottom', left: 0, top: 0, width: 1, height: 0.9 },
+  { name: 'trim-left', left: 0.1, top: 0, width: 0.9, height: 1 },
+  { name: 'trim-right', left: 0, top: 0, width: 0.9, height: 1 }
+]
+
+// Redimensionar e recomprimir mudam poucos bits; imagens diferentes ficam perto de 32
+export const PHASH_MATCH_DISTANCE = 10
+export const DHASH_MATCH_DISTANCE = 14
+
+const COSINES: number[][] = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+)
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = ''
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16)
+  }
+  return hex
+}
+
+/**
+ * dHash: gradiente horizontal de uma grade 9x8 em tons de cinza
+ */
+export function dHashFromPixels(pixels: ArrayLike<number>): string {
+  const width = HASH_SIZE + 1
+  const bits: boolean[] = []
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      bits.push(pixels[y * width + x] > pixels[y * width + x + 1])
+    }
+  }
+  return bitsToHex(bits)
+}
+
+/**
+ * pHash: coeficientes 8x8 de baixa frequência da DCT de uma grade 32x32, comparados à mediana
+ */
+export function pHashFromPixels(pixels: ArrayLike<number>): string {
+  // DCT separável: linhas primeiro, só as 8 primeiras frequências interessam
+  const rows: number[][] = []
+  for (let y = 0; y < DCT_SIZE; y++) {
+    rows.push(COSINES.map(cosines => {
+      let sum = 0
+      for (let x = 0; x < DCT_SIZE; x++) sum += pixels[y * DCT_SIZE + x] * cosines[x]
+      return sum
+    }))
+  }
+
+  const coefficients: number[] = []
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y][u] * COSINES[v][y]
+      coefficients.push(sum)
+    }
+  }
+
+  // O termo DC (brilho médio) fica fora da mediana
+  const sorted = coefficients.slice(1).sort((a, b) => a - b)
+  const median = (sorted[31] + sorted[32]) / 2
+  return bitsToHex(coefficients.map(value => value > median))
+}
+
+async function hashRegion(
+  gray: Buffer,
+  info: { width: number; height: number; channels: number },
+  crop?: CropRegion
+): Promise<PerceptualHashes> {
+  const region = () => {
+    const image = sharp(gray, { raw: { width: info.width, height: info.height, channels: info.channels as 1 } })
+    if (!crop) return image
+
+    const left = Math.floor(info.width * crop.left)
+    const top = Math.floor(info.height * crop.top)
+    return image.extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(info.width - left, Math.round(info.width * crop.width))),
+      height: Math.max(1, Math.min(info.height - top, Math.round(info.height * crop.height)))
+    })
+  }
+
+  const [dct, gradient] = await Promise.all([
+    region().resize(DCT_SIZE, DCT_SIZE, { fit: 'fill' }).raw().toBuffer(),
+    region().resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' }).raw().toBuffer()
+  ])
+
+  return { pHash: pHashFromPixels(dct), dHash: dHashFromPixels(gradient) }
+}
+
+/**
+ * pHash e dHash de pixels em tons de cinza (1 byte por pixel), ex.: quadros de vídeo do ffmpeg
+ */
+export function hashGrayPixels(gray: Buffer, width: number, height: number): Promise<PerceptualHashes> {
+  return hashRegion(gray, { width, height, channels: 1 })
+}
+
+/**
+ * pHash e dHash da imagem inteira e dos recortes pedidos
+ */
+export async function computeImageFingerprint(image: Buffer, crops: CropRegion[] = []): Promise<ImageFingerprint> {
+  // Orientação EXIF aplicada e transparência sobre branco antes de ir para tons de cinza
+  const { data, info } = await sharp(image)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const full = await hashRegion(data, info)
+  const cropHashes: CropHashes[] = []
+  for (const crop of crops) {
+    cropHashes.push({ crop: crop.name, ...await hashRegion(data, info, crop) })
+  }
+
+  return { ...full, width: info.width, height: info.height, crops: cropHashes }
+}
+
+/**
+ * Melhor correspondência entre a referência (inteira ou recortada) e a imagem candidata; null se distante
+ */
+export function comparePerceptualHashes(
+  reference: PerceptualHashes & { crops?: CropHashes[] },
+  candidate: PerceptualHashes
+): PerceptualMatch | null {
+  let best: PerceptualMatch | null = null
+
+  for (const variant of [{ crop: 'full', pHash: reference.pHash, dHash: reference.dHash }, ...(reference.crops ?? [])]) {
+    const pHashDistance = hammingDistance(variant.pHash, candidate.pHash)
+    const dHashDistance = hammingDistance(variant.dHash, candidate.dHash)
+    if (pHashDistance > PHASH_MATCH_DISTANCE || dHashDistance > DHASH_MATCH_DISTANCE) continue
+
+    const similarity = Math.round((1 - (pHashDistance + dHashDistance) / 128) * 100) / 100
+    if (!best || similarity > best.similarity) {
+      best = { pHashDistance, dHashDistance, crop: variant.crop, similarity }
+    }
+  }
+
+  return best
+}
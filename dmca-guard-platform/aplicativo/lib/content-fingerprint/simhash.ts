@@ -0,0 +1,47 @@
+import { createHash } from 'crypto'
+import { textShingles } from '@/lib/content-fingerprint/fingerprint'
+
+const SIMHASH_BITS = 64
+const MIN_SHINGLES = 8
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+/**
+ * SimHash de 64 bits (16 dígitos hex) sobre shingles de 3 palavras; null para textos curtos demais
+ *
+ * Textos quase iguais (mesmo post com outro cabeçalho ou anúncios) ficam a poucos bits de distância.
+ */
+export function simhash(normalizedText: string): string | null {
+  const shingles = textShingles(normalizedText)
+  if (shingles.size < MIN_SHINGLES) return null
+
+  const weights = new Array<number>(SIMHASH_BITS).fill(0)
+  shingles.forEach(shingle => {
+    const digest = createHash('md5').update(shingle).digest()
+    for (let bit = 0; bit < SIMHASH_BITS; bit++) {
+      const set = (digest[bit >> 3] >> (7 - (bit & 7))) & 1
+      weights[bit] += set ? 1 : -1
+    }
+  })
+
+  const bytes = Buffer.alloc(SIMHASH_BITS / 8)
+  weights.forEach((weight, bit) => {
+    if (weight > 0) bytes[bit >> 3] |= 1 << (7 - (bit & 7))
+  })
+  return bytes.toString('hex')
+}
+
+/**
+ * Bits diferentes entre dois hashes hex de mesmo tamanho
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Hashes de tamanhos diferentes')
+  }
+
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)]
+  }
+  return distance
+}
@@ -0,0 +1,255 @@
+import { spawn } from 'child_process'
+import { comparePerceptualHashes, hashGrayPixels, PerceptualHashes } from '@/lib/content-fingerprint/perceptual-hash'
+
+export interface VideoFrameHash extends PerceptualHashes {
+  t: number // segundos desde o início
+}
+
+export interface ExtractedKeyframes {
+  durationSeconds: number | null
+  frameInterval: number
+  frames: VideoFrameHash[]
+}
+
+export interface FfmpegResult {
+  stdout: Buffer
+  stderr: string
+}
+
+export type FfmpegRunner = (args: string[], options: { timeoutMs: number; maxOutputBytes: number }) => Promise<FfmpegResult>
+
+export interface KeyframeOptions {
+  runner?: FfmpegRunner
+  intervalSeconds?: number
+  maxFrames?: number
+  timeoutMs?: number
+  userAgent?: string
+}
+
+export interface VideoSegment {
+  referenceStart: number
+  referenceEnd: number
+  candidateStart: number
+  candidateEnd: number
+  frames: number
+}
+
+export interface VideoSequenceMatch {
+  score: number // 0-1, fração dos quadros do trecho mais curto que casaram em sequência
+  matchedFrames: number
+  segments: VideoSegment[]
+}
+
+export interface ThumbnailMatch {
+  t: number // instante do quadro da referência
+  pHashDistance: number
+  dHashDistance: number
+  similarity: number
+}
+
+const FRAME_SIZE = 64
+// Quadros quase uniformes (tela preta, fade) têm pHash instável e casariam com qualquer vídeo
+const FLAT_FRAME_STDDEV = 8
+const MIN_SEGMENT_FRAMES = 3
+
+export class FfmpegUnavailableError extends Error {
+  constructor() {
+    super('ffmpeg não encontrado (instale ou configure FFMPEG_PATH)')
+    this.name = 'FfmpegUnavailableError'
+  }
+}
+
+export const spawnFfmpeg: FfmpegRunner = (args, { timeoutMs, maxOutputBytes }) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(process.env.FFMPEG_PATH || 'ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    const chunks: Buffer[] = []
+    let size = 0
+    let stderr = ''
+    let truncated = false
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL')
+      reject(new Error(`ffmpeg excedeu ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (truncated) return
+      size += chunk.length
+      if (size > maxOutputBytes) {
+        truncated = true
+        child.kill('SIGKILL')
+        return
+      }
+      chunks.push(chunk)
+    })
+    // O cabeçalho (com a duração) vem no começo do stderr
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderr.length < 20000) stderr += chunk.toString()
+    })
+    child.on('error', error => {
+      clearTimeout(timer)
+      reject((error as NodeJS.ErrnoException).code === 'ENOENT' ? new FfmpegUnavailableError() : error)
+    })
+    child.on('close', code => {
+      clearTimeout(timer)
+      if (code === 0 || truncated) {
+        resolve({ stdout: Buffer.concat(chunks), stderr })
+      } else {
+        const lastLine = stderr.trim().split('\n').pop() ?? ''
+        reject(new Error(`ffmpeg terminou com código ${code}: ${lastLine}`))
+      }
+    })
+  })
+
+export function parseDuration(stderr: string): number | null {
+  const match = stderr.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/)
+  if (!match) return null
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3])
+}
+
+function standardDeviation(pixels: Buffer): number {
+  let sum = 0
+  let squares = 0
+  for (const value of pixels) {
+    sum += value
+    squares += value * value
+  }
+  const mean = sum / pixels.length
+  return Math.sqrt(Math.max(0, squares / pixels.length - mean * mean))
+}
+
+/**
+ * Amostrar um quadro a cada intervalo (arquivo local ou URL) e calcular pHash/dHash de cada um
+ */
+export async function extractKeyframes(input: string, options: KeyframeOptions = {}): Promise<ExtractedKeyframes> {
+  const runner = options.runner ?? spawnFfmpeg
+  const interval = options.intervalSeconds ?? 2
+  const maxFrames = options.maxFrames ?? 300
+  const timeoutMs = options.timeoutMs ?? 120000
+  const remote = /^https?:\/\//i.test(input)
+
+  const { stdout, stderr } = await runner([
+    '-hide_banner',
+    '-nostdin',
+    ...(remote ? ['-user_agent', options.userAgent ?? 'Mozilla/5.0 (compatible; DMCA-Guard-VideoMatch/1.0)', '-rw_timeout', String(timeoutMs * 1000)] : []),
+    '-i', input,
+    '-an',
+    '-t', String(maxFrames * interval),
+    '-vf', `fps=1/${interval},scale=${FRAME_SIZE}:${FRAME_SIZE},format=gray`,
+    '-frames:v', String(maxFrames),
+    '-f', 'rawvideo',
+    '-pix_fmt', 'gray',
+    'pipe:1'
+  ], { timeoutMs, maxOutputBytes: FRAME_SIZE * FRAME_SIZE * maxFrames })
+
+  const frameBytes = FRAME_SIZE * FRAME_SIZE
+  const frames: VideoFrameHash[] = []
+  for (let index = 0; (index + 1) * frameBytes <= stdout.length; index++) {
+    const pixels = stdout.subarray(index * frameBytes, (index + 1) * frameBytes)
+    if (standardDeviation(pixels) < FLAT_FRAME_STDDEV) continue
+
+    frames.push({ t: index * interval, ...await hashGrayPixels(Buffer.from(pixels), FRAME_SIZE, FRAME_SIZE) })
+  }
+
+  return { durationSeconds: parseDuration(stderr), frameInterval: interval, frames }
+}
+
+/**
+ * Trechos do candidato que repetem a referência na mesma ordem e ritmo
+ *
+ * Pares de quadros parecidos votam no deslocamento de tempo entre os vídeos; só sequências
+ * ao longo de um mesmo deslocamento contam, o que descarta quadros soltos parecidos (aberturas, telas fixas).
+ */
+export function matchFrameSequences(
+  reference: VideoFrameHash[],
+  candidate: VideoFrameHash[],
+  options: { frameInterval?: number; minSegmentFrames?: number } = {}
+): VideoSequenceMatch | null {
+  const interval = options.frameInterval ?? 2
+  const minSegmentFrames = options.minSegmentFrames ?? MIN_SEGMENT_FRAMES
+  if (reference.length === 0 || candidate.length === 0) return null
+
+  const pairs: Array<{ reference: VideoFrameHash; candidate: VideoFrameHash; similarity: number; offset: number }> = []
+  for (const candidateFrame of candidate) {
+    for (const referenceFrame of reference) {
+      const match = comparePerceptualHashes(referenceFrame, candidateFrame)
+      if (match) {
+        pairs.push({
+          reference: referenceFrame,
+          candidate: candidateFrame,
+          similarity: match.similarity,
+          offset: Math.round((referenceFrame.t - candidateFrame.t) / interval)
+        })
+      }
+    }
+  }
+
+  const votes = new Map<number, number>()
+  pairs.forEach(pair => votes.set(pair.offset, (votes.get(pair.offset) ?? 0) + 1))
+  const offsets = Array.from(votes.entries())
+    .filter(([, count]) => count >= minSegmentFrames)
+    .sort((a, b) => b[1] - a[1])
+    .map(([offset]) => offset)
+
+  const usedCandidateFrames = new Set<number>()
+  const segments: VideoSegment[] = []
+
+  for (const offset of offsets) {
+    // Tolerância de um quadro para a amostragem desalinhada entre os dois vídeos
+    const best = new Map<number, { reference: VideoFrameHash; candidate: VideoFrameHash; similarity: number }>()
+    for (const pair of pairs) {
+      if (Math.abs(pair.offset - offset) > 1 || usedCandidateFrames.has(pair.candidate.t)) continue
+      const current = best.get(pair.candidate.t)
+      if (!current || pair.similarity > current.similarity) best.set(pair.candidate.t, pair)
+    }
+
+    const aligned = Array.from(best.values()).sort((a, b) => a.candidate.t - b.candidate.t)
+    let run: typeof aligned = []
+    const closeRun = () => {
+      if (run.length >= minSegmentFrames) {
+        segments.push({
+          referenceStart: run[0].reference.t,
+          referenceEnd: run[run.length - 1].reference.t,
+          candidateStart: run[0].candidate.t,
+          candidateEnd: run[run.length - 1].candidate.t,
+          frames: run.length
+        })
+        run.forEach(pair => usedCandidateFrames.add(pair.candidate.t))
+      }
+      run = []
+    }
+
+    for (const pair of aligned) {
+      const previous = run[run.length - 1]
+      // Um quadro perdido no meio do trecho não quebra a sequência
+      if (previous && (pair.candidate.t - previous.candidate.t > 2 * interval || pair.reference.t <= previous.reference.t)) {
+        closeRun()
+      }
+      run.push(pair)
+    }
+    closeRun()
+  }
+
+  if (segments.length === 0) return null
+
+  const matchedFrames = segments.reduce((total, segment) => total + segment.frames, 0)
+  return {
+    score: Math.round(Math.min(1, matchedFrames / Math.min(reference.length, candidate.length)) * 100) / 100,
+    matchedFrames,
+    segments: segments.sort((a, b) => a.candidateStart - b.candidateStart)
+  }
+}
+
+/**
+ * Quadro da referência mais parecido com uma miniatura/prévia; null se nenhum casa
+ */
+export function matchThumbnail(reference: VideoFrameHash[], thumbnail: PerceptualHashes): ThumbnailMatch | null {
+  let best: ThumbnailMatch | null = null
+  for (const frame of reference) {
+    const match = comparePerceptualHashes(frame, thumbnail)
+    if (match && (!best || match.similarity > best.similarity)) {
+      best = { t: frame.t, pHashDistance: match.pHashDistance, dHashDistance: match.dHashDistance, similarity: match.similarity }
+    }
+  }
+  return best
+}
@@ -0,0 +1,7 @@
+import { ContentStatus } from '@prisma/client'
+
+/**
+ * Detecções que o usuário confirmou como violação, inclusive as já removidas ou com takedown recusado
+ * (os links importados de CSV são gravados como confirmados)
+ */
+export const CONFIRMED_STATUSES: ContentStatus[] = ['REVIEWED', 'DMCA_SENT', 'PENDING_REVIEW', 'DELISTED', 'REJECTED']
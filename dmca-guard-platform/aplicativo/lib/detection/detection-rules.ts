@@ -0,0 +1,440 @@
+import { riskLevelFor, ScoreBreakdown } from './violation-scoring'
+
+/**
+ * Linguagem de regras de detecção por perfil de marca
+ *
+ *   domain endsWith "leaks.example" and path contains "/vip/"
+ *   text contains "cosplay tutorial" or title matches "tutorial|review"
+ *   not (imageCount > 10) and linkUrl contains "mega.nz"
+ *
+ * Campos de texto: domain, path, url, title, description, text, imageUrl, linkUrl
+ * (imageUrl e linkUrl valem se qualquer imagem/link casar). Campos numéricos: imageCount, linkCount.
+ * Operadores: is, contains, startsWith, endsWith, matches (regex), in [..] e >, >=, <, <=, = para números.
+ * Comparações de texto ignoram maiúsculas/minúsculas. Regex de matches tem no máximo MAX_PATTERN_LENGTH
+ * caracteres e não aceita quantificadores aninhados nem referências (backtracking exponencial no texto da página).
+ */
+
+export type RuleAction = 'BOOST' | 'SUPPRESS' | 'AUTO_CONFIRM' | 'AUTO_IGNORE'
+
+export const TEXT_FIELDS = ['domain', 'path', 'url', 'title', 'description', 'text', 'imageUrl', 'linkUrl'] as const
+export const NUMBER_FIELDS = ['imageCount', 'linkCount'] as const
+export const URL_FIELDS = ['domain', 'path', 'url']
+
+type TextField = typeof TEXT_FIELDS[number]
+type NumberField = typeof NUMBER_FIELDS[number]
+type TextOperator = 'is' | 'contains' | 'startsWith' | 'endsWith' | 'matches' | 'in'
+type NumberOperator = '>' | '>=' | '<' | '<=' | '='
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { field: TextField; op: TextOperator; value: string | string[]; pattern?: RegExp }
+  | { field: NumberField; op: NumberOperator; value: number }
+
+export interface RuleSubject {
+  url: string
+  title: string
+  description: string
+  text: string
+  images: string[]
+  links: string[]
+}
+
+export interface DetectionRuleDefinition {
+  id: string
+  name: string
+  expression: string
+  action: RuleAction
+  amount?: number | null
+}
+
+export interface CompiledRule extends DetectionRuleDefinition {
+  condition: RuleCondition
+}
+
+export interface FiredRule {
+  ruleId: string
+  name: string
+  action: RuleAction
+  amount?: number
+}
+
+export type RuleDecision = 'CONFIRM' | 'IGNORE'
+
+export const DEFAULT_RULE_AMOUNT = 20
+export const MAX_PATTERN_LENGTH = 200
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (posição ${position + 1})`)
+    this.name = 'RuleSyntaxError'
+  }
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'symbol'; value: string; position: number }
+
+const TEXT_OPERATORS: TextOperator[] = ['is', 'contains', 'startsWith', 'endsWith', 'matches', 'in']
+const NUMBER_OPERATORS: NumberOperator[] = ['>=', '<=', '>', '<', '=']
+
+/**
+ * Motivo para recusar a regex, ou null se ela é segura: (a+)+, (a*){2,}, (a|aa)+ e \1 podem levar
+ * o backtracking a tempo exponencial
+ */
+function unsafePatternReason(pattern: string): string | null {
+  // Para cada grupo aberto: se já contém um quantificador ilimitado e as alternativas vistas até aqui
+  const groups: { repeatedInside: boolean; branchStart: number; branches: string[] }[] = []
+  let inClass = false
+
+  const closeBranch = (end: number) => {
+    const group = groups[groups.length - 1]
+    group.branches.push(pattern.slice(group.branchStart, end))
+    group.branchStart = end + 1
+  }
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) return 'referências a grupos não são permitidas'
+      i++
+      continue
+    }
+    if (inClass) {
+      if (char === ']') inClass = false
+      continue
+    }
+    if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      const prefix = pattern.slice(i + 1).match(/^\?(?:[:=!]|<[=!]|<[^>]*>)/)?.[0] ?? ''
+      groups.push({ repeatedInside: false, branchStart: i + 1 + prefix.length, branches: [] })
+      i += prefix.length
+    } else if (char === '|' && groups.length > 0) {
+      closeBranch(i)
+    } else if (char === ')') {
+      if (groups.length > 0) closeBranch(i)
+      const { repeatedInside, branches } = groups.pop() ?? { repeatedInside: false, branches: [] }
+      const quantifier = pattern.slice(i + 1).match(/^(?:[*+]|\{\d*,\d*\}|\{\d+\})/)
+      const repeated = quantifier !== null && quantifier[0] !== '{0}' && quantifier[0] !== '{1}'
+      if (repeatedInside && repeated) return 'quantificadores aninhados não são permitidos'
+      if (repeated && branches.length > 1 && !distinctLiterals(branches)) {
+        return 'alternativas em grupo repetido só podem ser caracteres distintos'
+      }
+      if (groups.length > 0 && (repeatedInside || repeated)) groups[groups.length - 1].repeatedInside = true
+    } else if ((char === '*' || char === '+' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1].repeatedInside = true
+    }
+  }
+  return null
+}
+
+/**
+ * Alternativas que são cada uma um único caractere literal, sem repetição (a regex ignora maiúsculas)
+ */
+function distinctLiterals(branches: string[]): boolean {
+  const literals = branches.map(branch => branch.match(/^(?:[^\\^$.|?*+()[\]{}]|\\[^\w])$/)?.[0].slice(-1).toLowerCase())
+  return literals.every(Boolean) && new Set(literals).size === literals.length
+}
+
+function compilePattern(value: string, position: number): RegExp {
+  if (value.length > MAX_PATTERN_LENGTH) {
+    throw new RuleSyntaxError(`Expressão regular com mais de ${MAX_PATTERN_LENGTH} caracteres`, position)
+  }
+  const reason = unsafePatternReason(value)
+  if (reason) throw new RuleSyntaxError(`Expressão regular insegura "${value}": ${reason}`, position)
+
+  try {
+    return new RegExp(value, 'i')
+  } catch {
+    throw new RuleSyntaxError(`Expressão regular inválida "${value}"`, position)
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expression.length) {
+    const char = expression[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '"' || char === "'") {
+      const start = i
+      let value = ''
+      i++
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) i++
+        value += expression[i]
+        i++
+      }
+      if (i >= expression.length) throw new RuleSyntaxError('Texto sem aspas de fechamento', start)
+      i++
+      tokens.push({ type: 'string', value, position: start })
+    } else if (/[0-9]/.test(char)) {
+      const start = i
+      while (i < expression.length && /[0-9.]/.test(expression[i])) i++
+      tokens.push({ type: 'number', value: parseFloat(expression.slice(start, i)), position: start })
+    } else if (/[A-Za-z_]/.test(char)) {
+      const start = i
+      while (i < expression.length && /[A-Za-z_]/.test(expression[i])) i++
+      tokens.push({ type: 'word', value: expression.slice(start, i), position: start })
+    } else if (char === '>' || char === '<') {
+      const value = expression[i + 1] === '=' ? `${char}=` : char
+      tokens.push({ type: 'symbol', value, position: i })
+      i += value.length
+    } else if ('()[],='.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position: i })
+      i++
+    } else {
+      throw new RuleSyntaxError(`Caractere inesperado "${char}"`, i)
+    }
+  }
+
+  return tokens
+}
+
+class RuleParser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): RuleCondition {
+    if (this.tokens.length === 0) throw new RuleSyntaxError('Regra vazia', 0)
+    const condition = this.parseOr()
+    const extra = this.peek()
+    if (extra) throw new RuleSyntaxError(`Trecho inesperado "${extra.value}"`, extra.position)
+    return condition
+  }
+
+  private parseOr(): RuleCondition {
+    const conditions = [this.parseAnd()]
+    while (this.acceptWord('or')) conditions.push(this.parseAnd())
+    return conditions.length === 1 ? conditions[0] : { any: conditions }
+  }
+
+  private parseAnd(): RuleCondition {
+    const conditions = [this.parseUnary()]
+    while (this.acceptWord('and')) conditions.push(this.parseUnary())
+    return conditions.length === 1 ? conditions[0] : { all: conditions }
+  }
+
+  private parseUnary(): RuleCondition {
+    if (this.acceptWord('not')) return { not: this.parseUnary() }
+    if (this.acceptSymbol('(')) {
+      const condition = this.parseOr()
+      this.expectSymbol(')')
+      return condition
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): RuleCondition {
+    const field = this.next('campo')
+    if (field.type !== 'word') throw new RuleSyntaxError('Esperado nome de campo', field.position)
+
+    if ((NUMBER_FIELDS as readonly string[]).includes(field.value)) {
+      const op = this.next('operador')
+      if (op.type !== 'symbol' || !NUMBER_OPERATORS.includes(op.value as NumberOperator)) {
+        throw new RuleSyntaxError(`Operador inválido para ${field.value}; use >, >=, <, <= ou =`, op.position)
+      }
+      const value = this.next('número')
+      if (value.type !== 'number') throw new RuleSyntaxError('Esperado número', value.position)
+      return { field: field.value as NumberField, op: op.value as NumberOperator, value: value.value }
+    }
+
+    if (!(TEXT_FIELDS as readonly string[]).includes(field.value)) {
+      throw new RuleSyntaxError(
+        `Campo desconhecido "${field.value}"; use ${[...TEXT_FIELDS, ...NUMBER_FIELDS].join(', ')}`,
+        field.position
+      )
+    }
+
+    const op = this.next('operador')
+    if (op.type !== 'word' || !TEXT_OPERATORS.includes(op.value as TextOperator)) {
+      throw new RuleSyntaxError(`Operador inválido para ${field.value}; use ${TEXT_OPERATORS.join(', ')}`, op.position)
+    }
+
+    if (op.value === 'in') {
+      this.expectSymbol('[')
+      const values: string[] = []
+      do {
+        values.push(this.expectString())
+      } while (this.acceptSymbol(','))
+      this.expectSymbol(']')
+      return { field: field.value as TextField, op: 'in', value: values }
+    }
+
+    const value = this.expectString()
+    if (op.value === 'matches') {
+      // Compilada uma vez aqui; a avaliação roda em todo o texto de cada página
+      return { field: field.value as TextField, op: 'matches', value, pattern: compilePattern(value, op.position) }
+    }
+    return { field: field.value as TextField, op: op.value as TextOperator, value }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++]
+    if (!token) throw new RuleSyntaxError(`Esperado ${expected} no fim da regra`, this.length)
+    return token
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'word' && token.value.toLowerCase() === word) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek()
+    if (token?.type === 'symbol' && token.value === symbol) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.next(`"${symbol}"`)
+    if (token.type !== 'symbol' || token.value !== symbol) {
+      throw new RuleSyntaxError(`Esperado "${symbol}"`, token.position)
+    }
+  }
+
+  private expectString(): string {
+    const token = this.next('texto entre aspas')
+    if (token.type !== 'string') throw new RuleSyntaxError('Esperado texto entre aspas', token.position)
+    return token.value
+  }
+}
+
+export function parseRuleExpression(expression: string): RuleCondition {
+  return new RuleParser(tokenize(expression), expression.length).parse()
+}
+
+/**
+ * Regra decidível só pela URL (usada para pular sites inteiros antes do scraping)
+ */
+export function usesOnlyUrlFields(condition: RuleCondition): boolean {
+  if ('all' in condition) return condition.all.every(usesOnlyUrlFields)
+  if ('any' in condition) return condition.any.every(usesOnlyUrlFields)
+  if ('not' in condition) return usesOnlyUrlFields(condition.not)
+  return URL_FIELDS.includes(condition.field)
+}
+
+/**
+ * Compilar as regras do perfil; regras com sintaxe inválida são ignoradas com aviso
+ */
+export function compileRules(definitions: DetectionRuleDefinition[]): CompiledRule[] {
+  const compiled: CompiledRule[] = []
+  for (const definition of definitions) {
+    try {
+      compiled.push({ ...definition, condition: parseRuleExpression(definition.expression) })
+    } catch (error) {
+      console.warn(`Regra de detecção "${definition.name}" ignorada:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return compiled
+}
+
+function urlParts(url: string): { domain: string; path: string } {
+  try {
+    const parsed = new URL(url)
+    return { domain: parsed.hostname.toLowerCase().replace(/^www\./, ''), path: `${parsed.pathname}${parsed.search}`.toLowerCase() }
+  } catch {
+    return { domain: '', path: url.toLowerCase() }
+  }
+}
+
+function matchText(candidate: string, op: TextOperator, value: string | string[], pattern?: RegExp): boolean {
+  const text = candidate.toLowerCase()
+  if (op === 'in') return (value as string[]).some(option => text === option.toLowerCase())
+
+  const expected = (value as string).toLowerCase()
+  switch (op) {
+    case 'is': return text === expected
+    case 'contains': return text.includes(expected)
+    case 'startsWith': return text.startsWith(expected)
+    case 'endsWith': return text.endsWith(expected)
+    case 'matches': return (pattern ?? compilePattern(value as string, 0)).test(candidate)
+  }
+}
+
+export function evaluateCondition(condition: RuleCondition, subject: RuleSubject): boolean {
+  if ('all' in condition) return condition.all.every(child => evaluateCondition(child, subject))
+  if ('any' in condition) return condition.any.some(child => evaluateCondition(child, subject))
+  if ('not' in condition) return !evaluateCondition(condition.not, subject)
+
+  if (condition.field === 'imageCount' || condition.field === 'linkCount') {
+    const count = condition.field === 'imageCount' ? subject.images.length : subject.links.length
+    switch (condition.op) {
+      case '>': return count > condition.value
+      case '>=': return count >= condition.value
+      case '<': return count < condition.value
+      case '<=': return count <= condition.value
+      case '=': return count === condition.value
+    }
+  }
+
+  const { field, op, value, pattern } = condition as Extract<RuleCondition, { field: TextField }>
+  switch (field) {
+    case 'imageUrl': return subject.images.some(image => matchText(image, op, value, pattern))
+    case 'linkUrl': return subject.links.some(link => matchText(link, op, value, pattern))
+    case 'domain': return matchText(urlParts(subject.url).domain, op, value, pattern)
+    case 'path': return matchText(urlParts(subject.url).path, op, value, pattern)
+    case 'url': return matchText(subject.url, op, value, pattern)
+    default: return matchText(subject[field], op, value, pattern)
+  }
+}
+
+export function evaluateRules(rules: CompiledRule[], subject: RuleSubject): FiredRule[] {
+  return rules
+    .filter(rule => evaluateCondition(rule.condition, subject))
+    .map(rule => ({
+      ruleId: rule.id,
+      name: rule.name,
+      action: rule.action,
+      ...((rule.action === 'BOOST' || rule.action === 'SUPPRESS') && { amount: rule.amount ?? DEFAULT_RULE_AMOUNT })
+    }))
+}
+
+/**
+ * Decisão das regras disparadas: ignorar prevalece sobre confirmar
+ */
+export function ruleDecision(fired: FiredRule[]): RuleDecision | null {
+  if (fired.some(rule => rule.action === 'AUTO_IGNORE')) return 'IGNORE'
+  if (fired.some(rule => rule.action === 'AUTO_CONFIRM')) return 'CONFIRM'
+  return null
+}
+
+/**
+ * Somar os ajustes das regras à pontuação e registrar as regras disparadas no detalhamento
+ */
+export function applyRulesToBreakdown(breakdown: ScoreBreakdown, fired: FiredRule[]): ScoreBreakdown {
+  if (fired.length === 0) return breakdown
+
+  const adjustment = fired.reduce((sum, rule) => {
+    if (rule.action === 'BOOST') return sum + (rule.amount ?? 0)
+    if (rule.action === 'SUPPRESS') return sum - (rule.amount ?? 0)
+    return sum
+  }, 0)
+  const score = Math.round(Math.max(0, Math.min(100, breakdown.score + adjustment)) * 100) / 100
+
+  return {
+    ...breakdown,
+    score,
+    riskLevel: riskLevelFor(score, breakdown.thresholds),
+    rules: fired,
+    decision: ruleDecision(fired)
+  }
+}
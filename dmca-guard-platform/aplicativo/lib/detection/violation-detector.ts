@@ -1,17 +1,21 @@
 import { BrandProfile, PageContent, ViolationResult, MatchResult, ImageAnalysisResult, ContextResult } from '../agents/types'
-import { GeminiClient } from '../integrations/gemini-client'
+import { referenceImageService } from '../services/reference-image.service'
+import { computeScoreBreakdown, resolveScoringConfig, ScoreBreakdown, ScoringConfig } from './violation-scoring'
+import { applyRulesToBreakdown, CompiledRule, compileRules, evaluateCondition, evaluateRules, usesOnlyUrlFields } from './detection-rules'
 
 export class ViolationDetector {
   private brandProfile: BrandProfile
   private keywords: string[]
-  private geminiClient: GeminiClient
+  private scoring: ScoringConfig
+  private rules: CompiledRule[]
   private suspiciousPatterns: RegExp[]
   private contextPatterns: RegExp[]
 
   constructor(brandProfile: BrandProfile) {
     this.brandProfile = brandProfile
     this.keywords = [...brandProfile.keywords, ...brandProfile.variations]
-    this.geminiClient = new GeminiClient()
+    this.scoring = resolveScoringConfig(brandProfile.scoringConfig)
+    this.rules = compileRules(brandProfile.detectionRules ?? [])
     
     // Inicializar padrões suspeitos
     this.suspiciousPatterns = this.buildSuspiciousPatterns()
@@ -37,8 +41,14 @@ export class ViolationDetector {
         contextResults
       ])
 
-      // Verificar se atinge o threshold de risco
-      if (aggregatedResult && aggregatedResult.confidence >= this.brandProfile.riskThreshold) {
+      // Regras do perfil: auto-ignorar descarta, auto-confirmar dispensa a pontuação mínima
+      const decision = aggregatedResult?.scoreBreakdown?.decision
+      if (decision === 'IGNORE') {
+        return null
+      }
+
+      // Verificar se atinge a pontuação mínima configurada no perfil
+      if (aggregatedResult && (decision === 'CONFIRM' || aggregatedResult.confidence >= this.scoring.minScore)) {
         return aggregatedResult
       }
 
@@ -50,6 +60,16 @@ export class ViolationDetector {
     }
   }
 
+  /**
+   * URL descartada por regra de auto-ignorar que não depende do conteúdo da página
+   */
+  isIgnoredUrl(url: string): boolean {
+    const subject = { url, title: '', description: '', text: '', images: [], links: [] }
+    return this.rules.some(rule =>
+      rule.action === 'AUTO_IGNORE' && usesOnlyUrlFields(rule.condition) && evaluateCondition(rule.condition, subject)
+    )
+  }
+
   /**
    * Detecção baseada em keywords
    */
@@ -83,6 +103,9 @@ export class ViolationDetector {
       }
     }
 
+    const brandMatches = totalMatches
+    const matchedBrandTerms = [...matches]
+
     // Verificar padrões suspeitos
     const suspiciousMatches = this.checkSuspiciousPatterns(text)
     matches.push(...suspiciousMatches.keywords)
@@ -91,6 +114,7 @@ export class ViolationDetector {
     // Calcular densidade de keywords
     const textWords = text.split(/\s+/).length
     const density = textWords > 0 ? (totalMatches / textWords) * 100 : 0
+    const brandDensity = textWords > 0 ? (brandMatches / textWords) * 100 : 0
 
     // Calcular score de risco baseado em matches
     const baseScore = Math.min(totalMatches * 10, 70)
@@ -99,12 +123,22 @@ export class ViolationDetector {
     
     const riskScore = Math.min(baseScore + densityBonus + varietyBonus, 100)
 
+    // Mesma fórmula restrita aos termos da marca, para o sinal separado dos padrões suspeitos
+    const brandScore = Math.min(
+      Math.min(brandMatches * 10, 70) + Math.min(brandDensity * 5, 20) + Math.min(matchedBrandTerms.length * 5, 10),
+      100
+    )
+
     return {
       matches: totalMatches,
       keywords: matches,
       density,
       context: this.extractContext(text, matches),
-      riskScore
+      riskScore,
+      brandTerms: matchedBrandTerms,
+      brandScore,
+      suspiciousTerms: Array.from(new Set(suspiciousMatches.keywords.map(keyword => keyword.toLowerCase()))),
+      suspiciousScore: Math.min(suspiciousMatches.count * 10, 100)
     }
   }
 
@@ -148,16 +182,39 @@ export class ViolationDetector {
       }
     }
 
+    // Comparar com as imagens de referência do perfil (pHash/dHash)
+    const referenceMatches = await referenceImageService
+      .matchImages(this.brandProfile.id, content.images)
+      .catch(error => {
+        console.warn('Erro ao comparar imagens com as referências:', error)
+        return []
+      })
+
+    for (const match of referenceMatches) {
+      if (!suspiciousImages.includes(match.imageUrl)) {
+        suspiciousImages.push(match.imageUrl)
+      }
+      imageMetadata[match.imageUrl] = {
+        ...imageMetadata[match.imageUrl],
+        suspicious: true,
+        referenceImageId: match.referenceImageId,
+        similarity: match.similarity
+      }
+    }
+
     // Calcular score de risco
     const totalImages = content.images.length
     const suspiciousCount = suspiciousImages.length
-    const riskScore = totalImages > 0 ? (suspiciousCount / totalImages) * 100 : 0
+    const riskScore = referenceMatches.length > 0
+      ? 100
+      : totalImages > 0 ? (suspiciousCount / totalImages) * 100 : 0
 
     return {
       suspiciousImages: suspiciousCount,
       imageUrls: suspiciousImages,
       metadata: imageMetadata,
-      riskScore
+      riskScore,
+      referenceMatches
     }
   }
 
@@ -232,10 +289,9 @@ export class ViolationDetector {
       factors.push('estrutura suspeita')
     }
 
-    // Detectar tipo de página
+    // Detectar tipo de página (sinal próprio na pontuação)
     const pageType = this.detectPageType(content)
     const pageTypeRisk = this.getPageTypeRisk(pageType)
-    riskScore += pageTypeRisk
     if (pageTypeRisk > 0) {
       factors.push(`página tipo: ${pageType}`)
     }
@@ -245,6 +301,8 @@ export class ViolationDetector {
       descriptionMatch,
       structureRisk,
       pageType,
+      pageTypeRisk,
+      factors,
       riskScore: Math.min(riskScore, 100)
     }
   }
@@ -338,17 +396,17 @@ export class ViolationDetector {
   }
 
   /**
-   * Obter risco baseado no tipo de página
+   * Obter risco (0-100) baseado no tipo de página
    */
   private getPageTypeRisk(pageType: string): number {
     const risks: Record<string, number> = {
-      'leak': 40,
-      'premium': 30,
-      'download': 25,
-      'gallery': 20,
-      'video': 15,
-      'profile': 10,
-      'forum': 5,
+      'leak': 100,
+      'premium': 75,
+      'download': 60,
+      'gallery': 50,
+      'video': 40,
+      'profile': 25,
+      'forum': 10,
       'general': 0
     }
 
@@ -364,18 +422,24 @@ export class ViolationDetector {
   ): ViolationResult | null {
     const [keywordResult, imageResult, contextResult] = results
 
-    // Calcular score final
-    const keywordWeight = 0.5
-    const imageWeight = 0.3
-    const contextWeight = 0.2
-
-    const finalScore = 
-      (keywordResult.riskScore * keywordWeight) +
-      (imageResult.riskScore * imageWeight) +
-      (contextResult.riskScore * contextWeight)
+    const referenceMatches = imageResult.referenceMatches ?? []
+    const imageSimilarity = referenceMatches[0]?.similarity ?? 0
 
-    // Determinar nível de risco
-    const riskLevel = this.calculateRiskLevel(finalScore)
+    // Pontuação explicável com os pesos e limiares do perfil, ajustada pelas regras que dispararam
+    const firedRules = evaluateRules(this.rules, {
+      url: content.url,
+      title: content.title,
+      description: content.description,
+      text: content.bodyText,
+      images: content.images,
+      links: content.links
+    })
+    const scoreBreakdown = applyRulesToBreakdown(
+      this.scoreSignals(content, keywordResult, imageResult, contextResult),
+      firedRules
+    )
+    const finalScore = scoreBreakdown.score
+    const riskLevel = scoreBreakdown.riskLevel
 
     // Gerar descrição detalhada
     const description = this.generateViolationDescription(keywordResult, imageResult, contextResult)
@@ -384,7 +448,9 @@ export class ViolationDetector {
     const detectionMethods = []
     if (keywordResult.matches > 0) detectionMethods.push('keyword-match')
     if (imageResult.suspiciousImages > 0) detectionMethods.push('image-analysis')
+    if (referenceMatches.length > 0) detectionMethods.push('image-fingerprint')
     if (contextResult.riskScore > 20) detectionMethods.push('context-analysis')
+    if (firedRules.length > 0) detectionMethods.push('detection-rules')
 
     return {
       id: this.generateViolationId(),
@@ -398,7 +464,12 @@ export class ViolationDetector {
         keywordMatches: keywordResult.matches,
         keywords: keywordResult.keywords,
         suspiciousImages: imageResult.suspiciousImages,
+        ...(referenceMatches.length > 0 && {
+          similarity: imageSimilarity,
+          imagesFound: referenceMatches.map(match => match.imageUrl)
+        }),
         pageType: contextResult.pageType,
+        ...(firedRules.length > 0 && { rulesFired: firedRules.map(rule => rule.name) }),
         analysis: {
           keyword: keywordResult,
           image: imageResult,
@@ -407,18 +478,55 @@ export class ViolationDetector {
       },
       detectedAt: new Date(),
       brandProfileId: this.brandProfile.id,
-      knownSiteId: '' // Será preenchido pelo agente
+      knownSiteId: '', // Será preenchido pelo agente
+      scoreBreakdown
     }
   }
 
   /**
-   * Calcular nível de risco
+   * Valor bruto (0-100) e evidências de cada sinal antes da ponderação
    */
-  private calculateRiskLevel(score: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (score >= 80) return 'CRITICAL'
-    if (score >= 60) return 'HIGH'
-    if (score >= 40) return 'MEDIUM'
-    return 'LOW'
+  private scoreSignals(
+    content: PageContent,
+    keyword: MatchResult,
+    image: ImageAnalysisResult,
+    context: ContextResult
+  ): ScoreBreakdown {
+    const referenceMatches = image.referenceMatches ?? []
+    const referenceUrls = new Set(referenceMatches.map(match => match.imageUrl))
+    const suspiciousByName = image.imageUrls.filter(url => !referenceUrls.has(url))
+    const pageContextDetails = [
+      ...(context.titleMatch ? ['título suspeito'] : []),
+      ...(context.descriptionMatch ? ['descrição suspeita'] : []),
+      ...(context.structureRisk > 0 ? [`estrutura: ${context.structureRisk} pontos`] : [])
+    ]
+
+    return computeScoreBreakdown({
+      brandMentions: {
+        value: keyword.brandScore ?? keyword.riskScore,
+        details: keyword.brandTerms ?? keyword.keywords
+      },
+      suspiciousTerms: {
+        value: keyword.suspiciousScore ?? 0,
+        details: (keyword.suspiciousTerms ?? []).slice(0, 10)
+      },
+      suspiciousImages: {
+        value: content.images.length > 0 ? (suspiciousByName.length / content.images.length) * 100 : 0,
+        details: suspiciousByName.slice(0, 5).map(url => this.extractFilename(url))
+      },
+      referenceImages: {
+        value: (referenceMatches[0]?.similarity ?? 0) * 100,
+        details: referenceMatches.map(match => `${this.extractFilename(match.imageUrl)} (${Math.round(match.similarity * 100)}%)`)
+      },
+      pageContext: {
+        value: context.riskScore,
+        details: pageContextDetails
+      },
+      pageType: {
+        value: context.pageTypeRisk ?? 0,
+        details: context.pageType !== 'general' ? [context.pageType] : []
+      }
+    }, this.scoring)
   }
 
   /**
@@ -438,6 +546,10 @@ export class ViolationDetector {
       }
     }
 
+    if (image.referenceMatches?.length) {
+      parts.push(`${image.referenceMatches.length} imagens correspondem às imagens de referência`)
+    }
+
     if (image.suspiciousImages > 0) {
       parts.push(`${image.suspiciousImages} imagens suspeitas detectadas`)
     }
@@ -0,0 +1,172 @@
+import { z } from 'zod'
+import type { FiredRule, RuleDecision } from './detection-rules'
+
+export type ScoreSignalKey =
+  | 'brandMentions'
+  | 'suspiciousTerms'
+  | 'suspiciousImages'
+  | 'referenceImages'
+  | 'pageContext'
+  | 'pageType'
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+
+export interface ScoringThresholds {
+  medium: number
+  high: number
+  critical: number
+}
+
+export interface ScoringConfig {
+  weights: Record<ScoreSignalKey, number>
+  thresholds: ScoringThresholds
+  minScore: number // abaixo disso o detector não reporta a página
+  referenceImageOverride: boolean // imagem de referência reconhecida vale por si só, mesmo sem menção à marca
+}
+
+export interface SignalInput {
+  value: number // 0-100
+  details: string[]
+}
+
+export interface ScoreSignal {
+  key: ScoreSignalKey
+  label: string
+  rawValue: number
+  weight: number
+  contribution: number
+  details: string[]
+}
+
+export interface ScoreBreakdown {
+  score: number
+  riskLevel: RiskLevel
+  signals: ScoreSignal[]
+  thresholds: ScoringThresholds
+  minScore: number
+  overriddenBy: ScoreSignalKey | null
+  rules?: FiredRule[] // regras do perfil que dispararam nesta página
+  decision?: RuleDecision | null
+}
+
+export const SIGNAL_LABELS: Record<ScoreSignalKey, string> = {
+  brandMentions: 'Menções à marca',
+  suspiciousTerms: 'Termos suspeitos',
+  suspiciousImages: 'Imagens suspeitas',
+  referenceImages: 'Imagens de referência',
+  pageContext: 'Título, descrição e estrutura',
+  pageType: 'Tipo de página'
+}
+
+export const SIGNAL_KEYS = Object.keys(SIGNAL_LABELS) as ScoreSignalKey[]
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    brandMentions: 0.35,
+    suspiciousTerms: 0.15,
+    suspiciousImages: 0.15,
+    referenceImages: 0.15,
+    pageContext: 0.12,
+    pageType: 0.08
+  },
+  thresholds: { medium: 40, high: 60, critical: 80 },
+  minScore: 40,
+  referenceImageOverride: true
+}
+
+const weightSchema = z.number().min(0).max(1)
+
+// Configuração parcial gravada no BrandProfile; o que faltar vem de DEFAULT_SCORING_CONFIG
+export const scoringConfigSchema = z.object({
+  weights: z.object({
+    brandMentions: weightSchema,
+    suspiciousTerms: weightSchema,
+    suspiciousImages: weightSchema,
+    referenceImages: weightSchema,
+    pageContext: weightSchema,
+    pageType: weightSchema
+  }).partial().strict().optional(),
+  thresholds: z.object({
+    medium: z.number().min(0).max(100),
+    high: z.number().min(0).max(100),
+    critical: z.number().min(0).max(100)
+  }).partial().strict().optional(),
+  minScore: z.number().min(0).max(100).optional(),
+  referenceImageOverride: z.boolean().optional()
+}).strict().refine(config => {
+  const thresholds = { ...DEFAULT_SCORING_CONFIG.thresholds, ...config.thresholds }
+  return thresholds.medium <= thresholds.high && thresholds.high <= thresholds.critical
+}, { message: 'Limiares devem respeitar medium <= high <= critical', path: ['thresholds'] })
+
+/**
+ * Configuração efetiva do perfil; valores inválidos no banco caem nos padrões
+ */
+export function resolveScoringConfig(raw: unknown): ScoringConfig {
+  if (raw === null || raw === undefined) return DEFAULT_SCORING_CONFIG
+
+  const parsed = scoringConfigSchema.safeParse(raw)
+  if (!parsed.success) {
+    console.warn('Configuração de pontuação inválida no perfil, usando padrões:', parsed.error.issues)
+    return DEFAULT_SCORING_CONFIG
+  }
+
+  return {
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, ...parsed.data.weights },
+    thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...parsed.data.thresholds },
+    minScore: parsed.data.minScore ?? DEFAULT_SCORING_CONFIG.minScore,
+    referenceImageOverride: parsed.data.referenceImageOverride ?? DEFAULT_SCORING_CONFIG.referenceImageOverride
+  }
+}
+
+export function riskLevelFor(score: number, thresholds: ScoringThresholds): RiskLevel {
+  if (score >= thresholds.critical) return 'CRITICAL'
+  if (score >= thresholds.high) return 'HIGH'
+  if (score >= thresholds.medium) return 'MEDIUM'
+  return 'LOW'
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Soma ponderada dos sinais com a contribuição de cada um, na ordem de SIGNAL_KEYS
+ */
+export function computeScoreBreakdown(
+  inputs: Partial<Record<ScoreSignalKey, SignalInput>>,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): ScoreBreakdown {
+  const signals: ScoreSignal[] = SIGNAL_KEYS.map(key => {
+    const input = inputs[key]
+    const rawValue = round(Math.max(0, Math.min(100, input?.value ?? 0)))
+    const weight = config.weights[key]
+    return {
+      key,
+      label: SIGNAL_LABELS[key],
+      rawValue,
+      weight,
+      contribution: round(rawValue * weight),
+      details: input?.details ?? []
+    }
+  })
+
+  let score = Math.min(100, signals.reduce((sum, signal) => sum + signal.contribution, 0))
+  let overriddenBy: ScoreSignalKey | null = null
+
+  const reference = signals.find(signal => signal.key === 'referenceImages')!
+  if (config.referenceImageOverride && reference.rawValue > score) {
+    score = reference.rawValue
+    overriddenBy = 'referenceImages'
+  }
+
+  score = round(score)
+  return {
+    score,
+    riskLevel: riskLevelFor(score, config.thresholds),
+    signals,
+    thresholds: config.thresholds,
+    minScore: config.minScore,
+    overriddenBy
+  }
+}
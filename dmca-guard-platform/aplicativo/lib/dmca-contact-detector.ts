@@ -1,5 +1,7 @@
 import axios from 'axios'
 import * as cheerio from 'cheerio'
+import { abuseContactResolver, AbuseContactCandidate, AbuseContactResolver } from './abuse-contact-resolver'
+import { fileHostResolver, FileHostResolver } from './file-host-resolver'
 
 interface DmcaContactInfo {
   email: string | null
@@ -8,9 +10,15 @@ interface DmcaContactInfo {
   detectedMethod: string
   confidence: number
   additionalEmails: string[]
+  candidates?: AbuseContactCandidate[] // contatos ranqueados quando o site não expõe um e-mail
 }
 
 export class DmcaContactDetector {
+  constructor(
+    private readonly abuseResolver: AbuseContactResolver = abuseContactResolver,
+    private readonly fileHosts: FileHostResolver = fileHostResolver
+  ) {}
+
   private readonly commonPages = [
     '/dmca',
     '/copyright', 
@@ -42,6 +50,12 @@ export class DmcaContactDetector {
 
   async findDmcaContact(url: string): Promise<DmcaContactInfo> {
     try {
+      // File hosts e encurtadores conhecidos: contato publicado pelo host que guarda o arquivo
+      const fileHostContact = await this.findFileHostContact(url)
+      if (fileHostContact) {
+        return fileHostContact
+      }
+
       const domain = new URL(url).origin
       console.log(`🔍 Scanning ${domain} for DMCA contacts...`)
 
@@ -75,14 +89,17 @@ export class DmcaContactDetector {
         }
       }
 
-      // No contact found
+      // Página sem contato: contatos de abuso da hospedagem/registrar (RDAP)
+      const candidates = await this.resolveAbuseCandidates(url)
+      const [best, ...rest] = candidates
       return {
-        email: null,
+        email: best.email,
         isCompliant: false,
         contactPage: null,
-        detectedMethod: 'No method found',
-        confidence: 0,
-        additionalEmails: []
+        detectedMethod: best.source === 'DOMAIN_GUESS' ? 'Domain guess' : 'RDAP abuse contact',
+        confidence: best.confidence,
+        additionalEmails: rest.map(candidate => candidate.email),
+        candidates
       }
 
     } catch (error) {
@@ -98,6 +115,40 @@ export class DmcaContactDetector {
     }
   }
 
+  /**
+   * Contato do registro de file hosts; encurtadores são seguidos até o host do arquivo
+   */
+  private async findFileHostContact(url: string): Promise<DmcaContactInfo | null> {
+    let adapter = this.fileHosts.adapterFor(url)
+    if (!adapter) return null
+
+    let via = ''
+    if (adapter.kind === 'shortener') {
+      try {
+        const { finalUrl } = await this.fileHosts.followShorteners(url)
+        const target = this.fileHosts.adapterFor(finalUrl)
+        if (target?.kind === 'file_host') {
+          via = ` (via ${adapter.name})`
+          adapter = target
+        }
+      } catch (error) {
+        console.log(`⚠️ Falha ao seguir encurtador ${url}:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    const { contact } = adapter
+    if (!contact.email && !contact.formUrl) return null
+
+    return {
+      email: contact.email,
+      isCompliant: true,
+      contactPage: contact.formUrl,
+      detectedMethod: `File host registry: ${adapter.name}${via}`,
+      confidence: contact.email ? 90 : 60,
+      additionalEmails: []
+    }
+  }
+
   private async scanPage(pageUrl: string): Promise<Omit<DmcaContactInfo, 'contactPage' | 'detectedMethod'>> {
     try {
       const response = await axios.get(pageUrl, {
@@ -114,7 +165,7 @@ export class DmcaContactDetector {
       // Se for 403 ou 404, retorna resultado padrão baseado no domínio
       if (response.status === 403 || response.status === 404) {
         console.log(`⚠️ Acesso negado (${response.status}) para ${pageUrl}, usando contatos padrão`);
-        return this.getDefaultContactForDomain(pageUrl);
+        return await this.getDefaultContactForDomain(pageUrl);
       }
 
       const $ = cheerio.load(response.data)
@@ -142,7 +193,7 @@ export class DmcaContactDetector {
 
     } catch (error) {
       console.log(`⚠️ Erro escaneando ${pageUrl}, usando contatos padrão:`, error instanceof Error ? error.message : error);
-      return this.getDefaultContactForDomain(pageUrl);
+      return await this.getDefaultContactForDomain(pageUrl);
     }
   }
 
@@ -252,7 +303,7 @@ export class DmcaContactDetector {
     return Math.min(confidence, 100)
   }
 
-  private getDefaultContactForDomain(pageUrl: string): Omit<DmcaContactInfo, 'contactPage' | 'detectedMethod'> {
+  private async getDefaultContactForDomain(pageUrl: string): Promise<Omit<DmcaContactInfo, 'contactPage' | 'detectedMethod'>> {
     const domain = new URL(pageUrl).hostname;
     
     // Contatos padrão conhecidos para sites que bloqueiam acesso
@@ -266,16 +317,45 @@ export class DmcaContactDetector {
       'xvideos.com': 'abuse@xvideos.com'
     };
     
-    const email = knownContacts[domain] || `abuse@${domain}`;
+    if (knownContacts[domain]) {
+      return {
+        email: knownContacts[domain],
+        isCompliant: false, // Assume não compliance se bloqueou acesso
+        confidence: 30, // Baixa confiança para contatos padrão
+        additionalEmails: [`contact@${domain}`, `legal@${domain}`]
+      };
+    }
+
+    const candidates = await this.resolveAbuseCandidates(pageUrl);
+    const [best, ...rest] = candidates;
     
     return {
-      email,
+      email: best.email,
       isCompliant: false, // Assume não compliance se bloqueou acesso
-      confidence: 30, // Baixa confiança para contatos padrão
-      additionalEmails: [`contact@${domain}`, `legal@${domain}`]
+      confidence: best.confidence,
+      additionalEmails: rest.map(candidate => candidate.email),
+      candidates
     };
   }
 
+  /**
+   * Contatos de abuso da hospedagem/registrar (RDAP), ranqueados acima do palpite abuse@dominio
+   */
+  private async resolveAbuseCandidates(pageUrl: string): Promise<AbuseContactCandidate[]> {
+    const domain = new URL(pageUrl).hostname;
+    const guessed: AbuseContactCandidate[] = [`abuse@${domain}`, `contact@${domain}`, `legal@${domain}`]
+      .map(email => ({ email, role: 'SITE', source: 'DOMAIN_GUESS', organization: null, confidence: 30 }));
+
+    let resolved: AbuseContactCandidate[] = [];
+    try {
+      resolved = (await this.abuseResolver.resolve(pageUrl)).candidates;
+    } catch (error) {
+      console.log(`⚠️ Falha ao resolver contatos de abuso para ${domain}:`, error instanceof Error ? error.message : error);
+    }
+
+    return [...resolved, ...guessed.filter(g => !resolved.some(r => r.email === g.email))];
+  }
+
   // Utility method to get domain from URL
   getDomainFromUrl(url: string): string {
     try {
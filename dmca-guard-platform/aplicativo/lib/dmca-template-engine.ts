@@ -0,0 +1,172 @@
+/**
+ * Linguagem de placeholders dos templates de notificação
+ *
+ * - {variavel}                 valor da variável (apenas as listadas em TEMPLATE_VARIABLES)
+ * - {#if variavel}...{/if}     bloco exibido quando a variável tem valor
+ * - {#if !variavel}...{/if}    bloco exibido quando a variável está vazia
+ * - {#else}                    alternativa dentro de um bloco {#if}
+ *
+ * Não há expressões nem chamadas: o template só consegue ler as variáveis abaixo.
+ */
+
+export const TEMPLATE_VARIABLES = {
+  userName: 'Nome do titular dos direitos',
+  userEmail: 'E-mail do titular',
+  userPhone: 'Telefone do titular',
+  userAddress: 'Endereço do titular',
+  infringingUrl: 'URL infratora principal',
+  infringingUrlList: 'Lista de todas as URLs infratoras',
+  urlCount: 'Quantidade de URLs na notificação',
+  domain: 'Domínio do site infrator',
+  platform: 'Plataforma onde o conteúdo foi detectado',
+  contentTitle: 'Título do conteúdo detectado',
+  contentDescription: 'Descrição do conteúdo original',
+  originalUrl: 'URL do conteúdo original',
+  brandName: 'Nome da marca/perfil',
+  detectedAt: 'Data da detecção',
+  contactName: 'Nome do destinatário (ex.: DMCA Team)',
+  customMessage: 'Mensagem adicional informada no envio',
+  evidenceReference: 'Referência ao pacote de evidências capturado (data e hash do manifesto)',
+  repeatInfringementReference: 'Reincidência: notificação anterior do mesmo conteúdo (data e URL)',
+  explanation: 'Justificativa da ilicitude do conteúdo (DSA, Reino Unido)',
+  affectedPersonName: 'Pessoa retratada no conteúdo íntimo (Marco Civil art. 21)',
+  requesterRole: 'Legitimidade do solicitante (vítima ou representante legal)',
+  legalBasis: 'Base legal da notificação',
+  currentDate: 'Data atual'
+} as const
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES
+
+export type TemplateContext = Partial<Record<TemplateVariable, string | number | null | undefined>>
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: TemplateVariable }
+  | { type: 'if'; name: TemplateVariable; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+
+export interface TemplateValidationResult {
+  valid: boolean
+  errors: string[]
+  variables: TemplateVariable[]
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Template inválido: ${errors.join('; ')}`)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+// Chaves que não casam com a sintaxe (ex.: "{ }" em texto livre) ficam como texto
+const TOKEN_PATTERN = /\{(#if\s+!?\s*[a-zA-Z]\w*|#else|\/if|[a-zA-Z]\w*)\}/g
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name)
+}
+
+function parse(source: string): { nodes: TemplateNode[]; errors: string[] } {
+  const errors: string[] = []
+  const root: TemplateNode[] = []
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }> = []
+  const current = () => {
+    const top = stack[stack.length - 1]
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root
+  }
+
+  let lastIndex = 0
+  for (const match of Array.from(source.matchAll(TOKEN_PATTERN))) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) })
+    }
+    lastIndex = index + match[0].length
+
+    const token = match[1]
+    if (token.startsWith('#if')) {
+      const expression = token.slice(3).replace(/\s+/g, '')
+      const negate = expression.startsWith('!')
+      const name = negate ? expression.slice(1) : expression
+      if (!isTemplateVariable(name)) {
+        errors.push(`Variável desconhecida em {#if}: ${name}`)
+      }
+      const node = { type: 'if' as const, name: name as TemplateVariable, negate, then: [], otherwise: [] }
+      current().push(node)
+      stack.push({ node, inElse: false })
+    } else if (token === '#else') {
+      const top = stack[stack.length - 1]
+      if (!top || top.inElse) {
+        errors.push('{#else} fora de um bloco {#if}')
+      } else {
+        top.inElse = true
+      }
+    } else if (token === '/if') {
+      if (!stack.pop()) {
+        errors.push('{/if} sem {#if} correspondente')
+      }
+    } else if (isTemplateVariable(token)) {
+      current().push({ type: 'variable', name: token })
+    } else {
+      errors.push(`Variável desconhecida: {${token}}`)
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) })
+  }
+  if (stack.length > 0) {
+    errors.push(`${stack.length} bloco(s) {#if} sem {/if}`)
+  }
+
+  return { nodes: root, errors }
+}
+
+function collectVariables(nodes: TemplateNode[], into: Set<TemplateVariable>) {
+  for (const node of nodes) {
+    if (node.type === 'variable') into.add(node.name)
+    if (node.type === 'if') {
+      into.add(node.name)
+      collectVariables(node.then, into)
+      collectVariables(node.otherwise, into)
+    }
+  }
+}
+
+function hasValue(value: TemplateContext[TemplateVariable]): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value
+      case 'variable':
+        return hasValue(context[node.name]) ? String(context[node.name]) : ''
+      case 'if':
+        return hasValue(context[node.name]) !== node.negate
+          ? renderNodes(node.then, context)
+          : renderNodes(node.otherwise, context)
+    }
+  }).join('')
+}
+
+/**
+ * Validar sintaxe e variáveis de um template
+ */
+export function validateTemplate(source: string): TemplateValidationResult {
+  const { nodes, errors } = parse(source)
+  const variables = new Set<TemplateVariable>()
+  collectVariables(nodes, variables)
+  return { valid: errors.length === 0, errors, variables: Array.from(variables) }
+}
+
+/**
+ * Renderizar template com o contexto; lança TemplateSyntaxError se o template for inválido
+ */
+export function renderTemplate(source: string, context: TemplateContext): string {
+  const { nodes, errors } = parse(source)
+  if (errors.length > 0) {
+    throw new TemplateSyntaxError(errors)
+  }
+  return renderNodes(nodes, context)
+}
@@ -172,6 +172,74 @@ This notice is sent in good faith and is not intended to harass or intimidate. I
     return templates
   }
 
+  // Generate a single notice covering several leaks on the same host
+  generateGroupedTemplate(
+    leaks: DetectedContent[],
+    dmcaContact: string,
+    userInfo: UserInfo,
+    customMessage?: string
+  ): DmcaTemplateData {
+    if (leaks.length === 1) {
+      return this.generateDmcaTemplate(leaks[0], dmcaContact, userInfo, customMessage)
+    }
+
+    const domain = this.extractDomain(leaks[0].infringingUrl)
+    const contactName = this.extractContactName(dmcaContact)
+    const isUrgent = leaks.some(leak => leak.priority === 'URGENT' || leak.priority === 'HIGH')
+    const currentDate = new Date().toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })
+
+    const urlList = leaks
+      .map((leak, index) => `${index + 1}. ${leak.infringingUrl} (detected ${new Date(leak.createdAt).toLocaleDateString()})`)
+      .join('\n')
+
+    const body = `Dear ${contactName},
+
+I am writing to notify you of ${leaks.length} instances of copyright infringement on ${domain}, and to request the removal of each of them under the Digital Millennium Copyright Act (DMCA). They are grouped in a single notice for your convenience; please treat every URL below as a separate item.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+🔗 INFRINGING CONTENT URLS (${leaks.length} total):
+
+${urlList}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+👤 COPYRIGHT HOLDER INFORMATION
+
+Name: ${userInfo.name}
+Email: ${userInfo.email}${userInfo.phone ? `\nPhone: ${userInfo.phone}` : ''}${userInfo.address ? `\nAddress: ${userInfo.address}` : ''}
+
+I am the copyright owner (or authorized representative) of the original content being infringed upon. The material at each URL above is being used without my permission.
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+📝 DMCA COMPLIANCE STATEMENT
+
+I have a good faith belief that the use of the copyrighted material described above is not authorized by the copyright owner, its agent, or the law.
+
+I swear, under penalty of perjury, that the information in this notification is accurate and that I am the copyright owner or am authorized to act on behalf of the copyright owner of an exclusive right that is allegedly infringed.
+${customMessage ? `\n📄 ADDITIONAL MESSAGE\n\n${customMessage}\n` : ''}
+Please remove or disable access to all of the URLs listed above and let me know if any of them cannot be actioned.
+
+Best regards,
+
+${userInfo.name}
+${userInfo.email}
+
+Date: ${currentDate}`
+
+    return {
+      subject: `${isUrgent ? '[URGENT] ' : ''}DMCA Takedown Notice - ${leaks.length} Copyright Infringements on ${domain}`,
+      body,
+      isUrgent,
+      legalReferences: this.getLegalReferences()
+    }
+  }
+
   // Generate template for specific platform with custom content
   generatePlatformSpecificTemplate(
     platform: string,
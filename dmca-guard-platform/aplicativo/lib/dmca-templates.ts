@@ -1,3 +1,4 @@
+import { renderTemplate } from '@/lib/dmca-template-engine'
 
 export const dmcaTemplates = {
   pt: {
@@ -7,7 +8,7 @@ export const dmcaTemplates = {
 Eu, {userName}, na qualidade de proprietário dos direitos autorais do conteúdo abaixo, notifico que o material localizado na(s) seguinte(s) URL(s) infringe meus direitos autorais:
 
 URLs do conteúdo infrator:
-- {infringingUrl}
+{infringingUrlList}
 
 Descrição do conteúdo original:
 - Título/Descrição: {contentDescription}
@@ -21,7 +22,11 @@ Declaro, sob pena de perjúrio, que:
 
 Solicito a remoção ou desativação imediata do acesso ao conteúdo infrator.
 
-Meus dados de contato:
+{#if repeatInfringementReference}{repeatInfringementReference}
+
+{/if}{#if evidenceReference}{evidenceReference}
+
+{/if}Meus dados de contato:
 Nome: {userName}
 E-mail: {userEmail}
 Telefone: {userPhone}
@@ -37,7 +42,7 @@ Data: {currentDate}`
 My name is {userName} and I am the copyright owner of the content described below. This is a notice in compliance with Section 512 of the Digital Millennium Copyright Act ("DMCA") requesting the cessation of access to copyrighted material.
 
 Identification of Infringing Content:
-- URL(s) of infringing content: {infringingUrl}
+- URL(s) of infringing content: {infringingUrlList}
 - Description of infringing material: {contentDescription}
 
 Original Content Details:
@@ -50,7 +55,11 @@ I have a good faith belief that the use of the copyrighted material described ab
 Legal Declaration:
 I swear, under penalty of perjury, that the information in this notice is accurate, and I am authorized to act on behalf of the copyright owner.
 
-Contact Information:
+{#if repeatInfringementReference}{repeatInfringementReference}
+
+{/if}{#if evidenceReference}{evidenceReference}
+
+{/if}Contact Information:
 Name: {userName}
 Email: {userEmail}
 Phone: {userPhone}
@@ -62,31 +71,52 @@ Date: {currentDate}`
   }
 }
 
+export type DmcaTemplateLanguage = keyof typeof dmcaTemplates
+
 export function generateDmcaNotice(
-  template: 'pt' | 'en',
+  template: DmcaTemplateLanguage,
   data: {
     userName: string
     userEmail: string
     userPhone?: string
     infringingUrl: string
+    infringingUrls?: string[] // Notificação agrupada: todas as URLs do mesmo host
     contentDescription: string
     originalUrl?: string
+    evidenceReference?: string
+    repeatInfringementReference?: string
   }
 ) {
   const tmpl = dmcaTemplates[template]
-  const currentDate = new Date().toLocaleDateString('pt-BR')
-  
-  let body = tmpl.body
-    .replace(/{userName}/g, data.userName)
-    .replace(/{userEmail}/g, data.userEmail)
-    .replace(/{userPhone}/g, data.userPhone || 'Não informado')
-    .replace(/{infringingUrl}/g, data.infringingUrl)
-    .replace(/{contentDescription}/g, data.contentDescription)
-    .replace(/{originalUrl}/g, data.originalUrl || 'Conteúdo original privado')
-    .replace(/{currentDate}/g, currentDate)
+  const urls = data.infringingUrls?.length ? data.infringingUrls : [data.infringingUrl]
+
+  const body = renderTemplate(tmpl.body, {
+    userName: data.userName,
+    userEmail: data.userEmail,
+    userPhone: data.userPhone || 'Não informado',
+    infringingUrl: data.infringingUrl,
+    infringingUrlList: formatInfringingUrlList(template, urls),
+    contentDescription: data.contentDescription,
+    originalUrl: data.originalUrl || 'Conteúdo original privado',
+    evidenceReference: data.evidenceReference,
+    repeatInfringementReference: data.repeatInfringementReference,
+    currentDate: new Date().toLocaleDateString('pt-BR')
+  })
 
   return {
-    subject: tmpl.subject,
+    subject: urls.length > 1 ? `${tmpl.subject} (${urls.length} URLs)` : tmpl.subject,
     body
   }
 }
+
+/**
+ * Lista de URLs infratoras no formato de cada template
+ */
+export function formatInfringingUrlList(template: DmcaTemplateLanguage, urls: string[]): string {
+  if (template === 'en') {
+    return urls.length === 1
+      ? urls[0]
+      : '\n' + urls.map((url, index) => `  ${index + 1}. ${url}`).join('\n')
+  }
+  return urls.map(url => `- ${url}`).join('\n')
+}
@@ -0,0 +1,216 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, sign, verify } from 'crypto'
+import { EvidenceArtifactKind } from '@prisma/client'
+
+export const GENESIS_HASH = '0'.repeat(64)
+export const MANIFEST_VERSION = 1
+
+export interface ArtifactInput {
+  kind: EvidenceArtifactKind
+  fileName: string
+  mimeType: string
+  content: Buffer
+  capturedAt: Date
+  sourceUrl?: string | null
+}
+
+export interface ChainedArtifact {
+  sequence: number
+  kind: EvidenceArtifactKind
+  fileName: string
+  mimeType: string
+  size: number
+  sha256: string
+  capturedAt: string
+  sourceUrl: string | null
+  previousHash: string
+  chainHash: string
+}
+
+export interface EvidenceManifest {
+  version: number
+  packageId: string
+  detectedContentId: string
+  url: string
+  finalUrl: string | null
+  capturedAt: string
+  hashAlgorithm: 'sha256'
+  chain: {
+    genesis: string
+    rootHash: string
+    formula: string
+  }
+  artifacts: ChainedArtifact[]
+}
+
+export interface ManifestSignature {
+  algorithm: string
+  signature: string
+  publicKey: string
+  ephemeralKey: boolean
+}
+
+export interface ChainVerification {
+  valid: boolean
+  brokenAt: number | null
+  reason?: string
+}
+
+export function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function linkHash(previousHash: string, artifact: Pick<ChainedArtifact, 'sha256' | 'capturedAt' | 'fileName'>): string {
+  return sha256Hex(`${previousHash}:${artifact.sha256}:${artifact.capturedAt}:${artifact.fileName}`)
+}
+
+/**
+ * Encadear os artefatos na ordem de captura: cada elo inclui o hash do anterior
+ */
+export function chainArtifacts(inputs: ArtifactInput[]): ChainedArtifact[] {
+  const chained: ChainedArtifact[] = []
+  let previousHash = GENESIS_HASH
+
+  inputs.forEach((input, index) => {
+    const link = {
+      sequence: index + 1,
+      kind: input.kind,
+      fileName: input.fileName,
+      mimeType: input.mimeType,
+      size: input.content.length,
+      sha256: sha256Hex(input.content),
+      capturedAt: input.capturedAt.toISOString(),
+      sourceUrl: input.sourceUrl ?? null,
+      previousHash
+    }
+    const chainHash = linkHash(previousHash, link)
+    chained.push({ ...link, chainHash })
+    previousHash = chainHash
+  })
+
+  return chained
+}
+
+/**
+ * Conferir o encadeamento e, quando informado, o conteúdo de cada arquivo
+ */
+export function verifyChain(
+  artifacts: ChainedArtifact[],
+  contents?: Map<string, Buffer>
+): ChainVerification {
+  let previousHash = GENESIS_HASH
+  const ordered = [...artifacts].sort((a, b) => a.sequence - b.sequence)
+
+  for (const artifact of ordered) {
+    if (artifact.previousHash !== previousHash) {
+      return { valid: false, brokenAt: artifact.sequence, reason: 'Elo anterior não confere' }
+    }
+    if (linkHash(previousHash, artifact) !== artifact.chainHash) {
+      return { valid: false, brokenAt: artifact.sequence, reason: 'Hash do elo não confere' }
+    }
+    if (contents) {
+      const content = contents.get(artifact.fileName)
+      if (!content) {
+        return { valid: false, brokenAt: artifact.sequence, reason: `Arquivo ausente: ${artifact.fileName}` }
+      }
+      if (sha256Hex(content) !== artifact.sha256) {
+        return { valid: false, brokenAt: artifact.sequence, reason: `Conteúdo alterado: ${artifact.fileName}` }
+      }
+    }
+    previousHash = artifact.chainHash
+  }
+
+  return { valid: true, brokenAt: null }
+}
+
+export function buildManifest(params: {
+  packageId: string
+  detectedContentId: string
+  url: string
+  finalUrl?: string | null
+  capturedAt: Date
+  artifacts: ChainedArtifact[]
+}): EvidenceManifest {
+  return {
+    version: MANIFEST_VERSION,
+    packageId: params.packageId,
+    detectedContentId: params.detectedContentId,
+    url: params.url,
+    finalUrl: params.finalUrl ?? null,
+    capturedAt: params.capturedAt.toISOString(),
+    hashAlgorithm: 'sha256',
+    chain: {
+      genesis: GENESIS_HASH,
+      rootHash: params.artifacts.length ? params.artifacts[params.artifacts.length - 1].chainHash : GENESIS_HASH,
+      formula: 'sha256(previousHash:sha256:capturedAt:fileName)'
+    },
+    artifacts: params.artifacts
+  }
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize)
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key])
+        return sorted
+      }, {})
+  }
+  return value
+}
+
+/**
+ * JSON com chaves ordenadas, para que o hash não dependa da ordem devolvida pelo banco
+ */
+export function serializeManifest(manifest: EvidenceManifest): string {
+  return JSON.stringify(canonicalize(manifest), null, 2)
+}
+
+export function hashManifest(manifest: EvidenceManifest): string {
+  return sha256Hex(serializeManifest(manifest))
+}
+
+let ephemeralKey: KeyObject | null = null
+
+function signingKey(): { key: KeyObject; ephemeral: boolean } {
+  const pem = process.env.EVIDENCE_SIGNING_PRIVATE_KEY
+  if (pem) {
+    return { key: createPrivateKey(pem.replace(/\\n/g, '\n')), ephemeral: false }
+  }
+
+  if (!ephemeralKey) {
+    console.warn('⚠️ EVIDENCE_SIGNING_PRIVATE_KEY não configurada: pacotes de evidência serão assinados com chave temporária')
+    ephemeralKey = generateKeyPairSync('ed25519').privateKey
+  }
+  return { key: ephemeralKey, ephemeral: true }
+}
+
+// Ed25519 assina a mensagem inteira; RSA/ECDSA precisam do algoritmo de digest
+function digestFor(key: KeyObject): string | null {
+  return key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256'
+}
+
+/**
+ * Assinar o manifesto serializado com a chave da plataforma
+ */
+export function signManifest(manifest: EvidenceManifest): ManifestSignature {
+  const { key, ephemeral } = signingKey()
+  const digest = digestFor(key)
+
+  return {
+    algorithm: digest ? `${key.asymmetricKeyType}-${digest}` : key.asymmetricKeyType!,
+    signature: sign(digest, Buffer.from(serializeManifest(manifest), 'utf8'), key).toString('base64'),
+    publicKey: createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString(),
+    ephemeralKey: ephemeral
+  }
+}
+
+export function verifyManifestSignature(manifest: EvidenceManifest, signature: Pick<ManifestSignature, 'signature' | 'publicKey'>): boolean {
+  try {
+    const key = createPublicKey(signature.publicKey)
+    return verify(digestFor(key), Buffer.from(serializeManifest(manifest), 'utf8'), key, Buffer.from(signature.signature, 'base64'))
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,108 @@
+import { createHash, randomUUID } from 'crypto'
+
+export interface WarcExchange {
+  url: string
+  method?: string
+  requestHeaders: Record<string, string>
+  status: number
+  statusText: string
+  responseHeaders: Array<[string, string]>
+  body: Buffer
+  capturedAt: Date
+  ipAddress?: string
+}
+
+const CRLF = '\r\n'
+
+// O corpo é gravado já decodificado pelo fetch; manter esses cabeçalhos faria o leitor tentar decodificar de novo
+const DECODED_HEADERS = new Set(['content-encoding', 'transfer-encoding', 'content-length'])
+
+function blockDigest(block: Buffer): string {
+  return `sha256:${createHash('sha256').update(block).digest('hex')}`
+}
+
+function warcRecord(headers: Array<[string, string]>, block: Buffer): Buffer {
+  const head = ['WARC/1.1', ...headers.map(([name, value]) => `${name}: ${value}`)]
+  head.push(`WARC-Block-Digest: ${blockDigest(block)}`)
+  head.push(`Content-Length: ${block.length}`)
+  return Buffer.concat([
+    Buffer.from(head.join(CRLF) + CRLF + CRLF, 'utf8'),
+    block,
+    Buffer.from(CRLF + CRLF, 'utf8')
+  ])
+}
+
+/**
+ * Registro warcinfo com a identificação da ferramenta de captura
+ */
+export function buildWarcInfo(fileName: string, capturedAt: Date, software: string): Buffer {
+  const block = Buffer.from(
+    [`software: ${software}`, 'format: WARC File Format 1.1', 'conformsTo: https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/'].join(CRLF) + CRLF,
+    'utf8'
+  )
+  return warcRecord(
+    [
+      ['WARC-Type', 'warcinfo'],
+      ['WARC-Record-ID', `<urn:uuid:${randomUUID()}>`],
+      ['WARC-Date', capturedAt.toISOString()],
+      ['WARC-Filename', fileName],
+      ['Content-Type', 'application/warc-fields']
+    ],
+    block
+  )
+}
+
+/**
+ * Par de registros request/response de uma troca HTTP
+ */
+export function buildWarcExchange(exchange: WarcExchange): Buffer {
+  const target = new URL(exchange.url)
+  const date = exchange.capturedAt.toISOString()
+
+  const requestBlock = Buffer.from(
+    [
+      `${exchange.method ?? 'GET'} ${target.pathname}${target.search} HTTP/1.1`,
+      `Host: ${target.host}`,
+      ...Object.entries(exchange.requestHeaders).map(([name, value]) => `${name}: ${value}`)
+    ].join(CRLF) + CRLF + CRLF,
+    'utf8'
+  )
+
+  const responseHead = [
+    `HTTP/1.1 ${exchange.status} ${exchange.statusText}`.trimEnd(),
+    ...exchange.responseHeaders
+      .filter(([name]) => !DECODED_HEADERS.has(name.toLowerCase()))
+      .map(([name, value]) => `${name}: ${value}`),
+    `Content-Length: ${exchange.body.length}`
+  ]
+  const responseBlock = Buffer.concat([Buffer.from(responseHead.join(CRLF) + CRLF + CRLF, 'utf8'), exchange.body])
+
+  const responseId = `<urn:uuid:${randomUUID()}>`
+  const ip: Array<[string, string]> = exchange.ipAddress ? [['WARC-IP-Address', exchange.ipAddress]] : []
+
+  const response = warcRecord(
+    [
+      ['WARC-Type', 'response'],
+      ['WARC-Record-ID', responseId],
+      ['WARC-Date', date],
+      ['WARC-Target-URI', exchange.url],
+      ...ip,
+      ['WARC-Payload-Digest', blockDigest(exchange.body)],
+      ['Content-Type', 'application/http; msgtype=response']
+    ],
+    responseBlock
+  )
+  const request = warcRecord(
+    [
+      ['WARC-Type', 'request'],
+      ['WARC-Record-ID', `<urn:uuid:${randomUUID()}>`],
+      ['WARC-Date', date],
+      ['WARC-Target-URI', exchange.url],
+      ['WARC-Concurrent-To', responseId],
+      ['Content-Type', 'application/http; msgtype=request']
+    ],
+    requestBlock
+  )
+
+  return Buffer.concat([request, response])
+}
@@ -1,6 +1,7 @@
 import 'server-only'
 import { JSDOM } from 'jsdom'
 import fetch from 'node-fetch'
+import { computeTextFingerprint, TextFingerprint } from '@/lib/content-fingerprint/minhash'
 
 export interface ExtractedContent {
   url: string
@@ -18,6 +19,7 @@ export interface ExtractedContent {
     contentType?: string
   }
   structuralElements?: StructuralElement[]
+  textFingerprint?: TextFingerprint // SimHash/MinHash do corpo, para agrupar páginas espelhadas
   rawHtml?: string
 }
 
@@ -96,7 +98,9 @@ export class ContentExtractor {
         images,
         links,
         metadata,
-        structuralElements
+        structuralElements,
+        // Só o corpo: o título costuma levar o nome de cada site espelho
+        textFingerprint: computeTextFingerprint(bodyText)
       }
       
       // Incluir HTML raw se solicitado
@@ -0,0 +1,158 @@
+import { defaultAdapters } from './file-hosts/adapters'
+import {
+  FetchedPage,
+  FileAvailability,
+  HostAdapter,
+  HostAdapterKind,
+  HostDmcaContact,
+  PageFetcher,
+  ParsedHostPage
+} from './file-hosts/types'
+
+export type { FileAvailability, HostAdapter, HostDmcaContact, PageFetcher } from './file-hosts/types'
+
+export interface FileHostResolution {
+  url: string
+  finalUrl: string // depois dos encurtadores
+  chain: string[] // encurtadores atravessados, na ordem
+  adapter: string | null
+  kind: HostAdapterKind | null
+  fileId: string | null
+  fileName: string | null
+  sizeBytes: number | null
+  availability: FileAvailability
+  evidence: string[]
+  contact: HostDmcaContact | null
+  resolvedAt: Date
+}
+
+export interface FileHostResolverOptions {
+  adapters?: HostAdapter[]
+  fetchPage?: PageFetcher
+  maxHops?: number // encurtadores encadeados seguidos
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; DMCA-Guard/1.0; +https://dmca-guard.com/bot)'
+
+/**
+ * Fetcher padrão: não segue redirecionamentos, para que os adaptadores vejam o Location
+ */
+export const httpPageFetcher: PageFetcher = async (request) => {
+  const response = await fetch(request.url, {
+    redirect: 'manual',
+    ...request.init,
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/json;q=0.9,*/*;q=0.8', ...request.init?.headers },
+    signal: AbortSignal.timeout(15000)
+  })
+  const redirected = response.status >= 300 && response.status < 400
+  return {
+    url: request.url,
+    status: response.status,
+    location: response.headers.get('location'),
+    body: redirected ? '' : (await response.text()).slice(0, 500000)
+  }
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Registro de adaptadores de file hosts e encurtadores: segue encurtadores até o host que
+ * guarda o arquivo e lê ID, nome, tamanho, disponibilidade e contato DMCA da página pública
+ */
+export class FileHostResolver {
+  private readonly adapters: HostAdapter[]
+  private readonly fetchPage: PageFetcher
+  private readonly maxHops: number
+
+  constructor(options: FileHostResolverOptions = {}) {
+    this.adapters = options.adapters ?? defaultAdapters
+    this.fetchPage = options.fetchPage ?? httpPageFetcher
+    this.maxHops = options.maxHops ?? 5
+  }
+
+  adapterFor(url: string): HostAdapter | null {
+    const host = hostnameOf(url)
+    if (!host) return null
+    return this.adapters.find(adapter => adapter.pattern.test(host)) ?? null
+  }
+
+  contactFor(url: string): HostDmcaContact | null {
+    return this.adapterFor(url)?.contact ?? null
+  }
+
+  /**
+   * Seguir a cadeia de encurtadores; para no primeiro host que não é encurtador
+   */
+  async followShorteners(url: string): Promise<{ finalUrl: string; chain: string[]; evidence: string[]; deadEnd?: ParsedHostPage }> {
+    const chain: string[] = []
+    const evidence: string[] = []
+    let current = url
+
+    for (let hop = 0; hop < this.maxHops; hop++) {
+      const adapter = this.adapterFor(current)
+      if (adapter?.kind !== 'shortener') break
+
+      const parsed = await this.inspect(adapter, current)
+      evidence.push(...parsed.evidence)
+      if (!parsed.target || parsed.target === current) {
+        return { finalUrl: current, chain, evidence, deadEnd: parsed }
+      }
+      chain.push(current)
+      current = parsed.target
+    }
+
+    return { finalUrl: current, chain, evidence }
+  }
+
+  async resolve(url: string): Promise<FileHostResolution> {
+    const { finalUrl, chain, evidence, deadEnd } = await this.followShorteners(url)
+    const adapter = this.adapterFor(finalUrl)
+    const resolution: FileHostResolution = {
+      url,
+      finalUrl,
+      chain,
+      adapter: adapter?.name ?? null,
+      kind: adapter?.kind ?? null,
+      fileId: adapter ? adapter.fileId(new URL(finalUrl)) : null,
+      fileName: null,
+      sizeBytes: null,
+      availability: deadEnd?.availability ?? 'UNKNOWN',
+      evidence,
+      contact: adapter?.contact ?? null,
+      resolvedAt: new Date()
+    }
+    if (!adapter || adapter.kind === 'shortener') return resolution
+
+    const parsed = await this.inspect(adapter, finalUrl)
+    return {
+      ...resolution,
+      fileName: parsed.fileName ?? null,
+      sizeBytes: parsed.sizeBytes ?? null,
+      availability: parsed.availability,
+      evidence: [...evidence, ...parsed.evidence]
+    }
+  }
+
+  private async inspect(adapter: HostAdapter, url: string): Promise<ParsedHostPage> {
+    const parsedUrl = new URL(url)
+    try {
+      const fileId = adapter.fileId(parsedUrl)
+      const request = adapter.request ? adapter.request(parsedUrl, fileId) : { url }
+      const page: FetchedPage = request ? await this.fetchPage(request) : { url, status: 0, location: null, body: '' }
+      return adapter.parse(page, parsedUrl)
+    } catch (error) {
+      return {
+        availability: 'UNKNOWN',
+        evidence: [`${adapter.name}: falha ao consultar (${error instanceof Error ? error.message : 'erro desconhecido'})`]
+      }
+    }
+  }
+}
+
+export const fileHostResolver = new FileHostResolver()
@@ -0,0 +1,31 @@
+import { HostAdapter } from '../types'
+import { loadHtml, pageText, parseSize, pathId, removalFromText, statusVerdict } from '../page'
+
+/**
+ * Bunkr (muda de TLD com frequência): /f, /v e /i são arquivos, /a são álbuns
+ */
+export const bunkrAdapter: HostAdapter = {
+  name: 'bunkr',
+  kind: 'file_host',
+  pattern: /(^|\.)bunkrr?\.[a-z]{2,3}$/,
+  contact: { organization: 'Bunkr', email: null, formUrl: null },
+
+  fileId(url) {
+    return pathId(url, ['f', 'v', 'i', 'd', 'a'])
+  },
+
+  parse(page) {
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const removal = removalFromText(pageText(page.body))
+    if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+
+    const $ = loadHtml(page.body)
+    const fileName = $('h1').first().text().trim() || $('meta[property="og:title"]').attr('content')?.trim() || null
+    if (!fileName) return { availability: 'UNKNOWN', evidence: ['Bunkr: página sem título do arquivo'] }
+
+    const sizeText = $('h1').first().parent().text() || $('body').text()
+    return { availability: 'AVAILABLE', fileName, sizeBytes: parseSize(sizeText), evidence: [`Bunkr: "${fileName}" disponível`] }
+  }
+}
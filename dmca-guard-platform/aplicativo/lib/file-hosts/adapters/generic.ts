@@ -0,0 +1,77 @@
+import { HostAdapter, HostDmcaContact } from '../types'
+import { loadHtml, pageText, parseSize, removalFromText, statusVerdict } from '../page'
+
+/**
+ * File host sem adaptador dedicado: título via og:title, tamanho pelo texto e remoção pelos
+ * avisos conhecidos. idPattern captura o ID no caminho (com a query string)
+ */
+export function genericFileHost(name: string, pattern: RegExp, contact: HostDmcaContact, idPattern: RegExp): HostAdapter {
+  return {
+    name,
+    kind: 'file_host',
+    pattern,
+    contact,
+
+    fileId(url) {
+      return `${url.pathname}${url.search}`.match(idPattern)?.[1] ?? null
+    },
+
+    parse(page) {
+      const verdict = statusVerdict(page)
+      if (verdict) return verdict
+
+      const text = pageText(page.body)
+      const removal = removalFromText(text)
+      if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+
+      const $ = loadHtml(page.body)
+      const fileName = $('meta[property="og:title"]').attr('content')?.trim() || null
+      if (page.status >= 300 || !fileName) {
+        return { availability: 'UNKNOWN', evidence: [`${name}: HTTP ${page.status}, sem dados do arquivo`] }
+      }
+      return { availability: 'AVAILABLE', fileName, sizeBytes: parseSize(text), evidence: [`${name}: "${fileName}" disponível`] }
+    }
+  }
+}
+
+/**
+ * Encurtador: destino pelo Location, meta refresh, window.location ou botão "pular anúncio"
+ */
+export function genericShortener(name: string, pattern: RegExp, contact: HostDmcaContact): HostAdapter {
+  return {
+    name,
+    kind: 'shortener',
+    pattern,
+    contact,
+
+    fileId(url) {
+      return url.pathname.split('/').filter(Boolean)[0] ?? null
+    },
+
+    parse(page, url) {
+      const verdict = statusVerdict(page)
+      if (verdict) return verdict
+
+      // Links desativados por abuso redirecionam para uma página de aviso do próprio encurtador
+      if (page.location && /\/(warning|blocked|banned|disabled)/.test(page.location) && pattern.test(new URL(page.location, url).hostname)) {
+        return { availability: 'REMOVED_DMCA', evidence: [`${name}: link desativado (${page.location})`] }
+      }
+      if (page.location) {
+        return { availability: 'AVAILABLE', target: new URL(page.location, url).href, evidence: [`${name}: redireciona para ${page.location}`] }
+      }
+
+      const $ = loadHtml(page.body)
+      const refresh = $('meta[http-equiv="refresh" i]').attr('content')?.match(/url=['"]?([^'"]+)/i)?.[1]
+      const script = page.body.match(/(?:window\.)?location(?:\.href)?\s*=\s*["']([^"']+)["']/)?.[1]
+      const button = $('a#skip_button, a.skip-ad, a#btn-main, a.get-link').attr('href')
+      const target = [refresh, script, button].find(candidate => candidate && /^https?:\/\//.test(candidate))
+      if (target) {
+        return { availability: 'AVAILABLE', target, evidence: [`${name}: destino extraído da página intermediária`] }
+      }
+
+      const removal = removalFromText(pageText(page.body))
+      if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+      return { availability: 'UNKNOWN', evidence: [`${name}: destino não encontrado na página`] }
+    }
+  }
+}
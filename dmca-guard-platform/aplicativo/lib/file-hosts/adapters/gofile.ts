@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { HostAdapter } from '../types'
+import { parseJsonAs, pathId, statusVerdict } from '../page'
+
+const gofileItemSchema = z.object({
+  type: z.string().nullish(),
+  name: z.string().nullish(),
+  size: z.number().nullish()
+})
+const gofileResponseSchema = z.object({
+  status: z.string(),
+  data: gofileItemSchema.extend({ children: z.record(gofileItemSchema).nullish() }).nullish()
+})
+
+/**
+ * Gofile: a página /d/{id} é um app JS; nome, tamanho e status vêm da API de conteúdos
+ */
+export const gofileAdapter: HostAdapter = {
+  name: 'gofile',
+  kind: 'file_host',
+  pattern: /(^|\.)gofile\.io$/,
+  contact: { organization: 'Gofile', email: 'abuse@gofile.io', formUrl: 'https://gofile.io/contact' },
+
+  fileId(url) {
+    return pathId(url, ['d'])
+  },
+
+  request(url, fileId) {
+    return fileId ? { url: `https://api.gofile.io/contents/${fileId}` } : null
+  },
+
+  parse(page) {
+    const data = parseJsonAs(page.body, gofileResponseSchema)
+    if (!data) return statusVerdict(page) ?? { availability: 'UNKNOWN', evidence: [`API do Gofile: HTTP ${page.status}`] }
+
+    if (data.status === 'error-notFound') {
+      return { availability: 'REMOVED', evidence: ['API do Gofile: conteúdo inexistente'] }
+    }
+    if (data.status === 'error-disabled' || data.status === 'error-blocked') {
+      return { availability: 'REMOVED_DMCA', evidence: [`API do Gofile: conteúdo desativado (${data.status})`] }
+    }
+    if (data.status !== 'ok' || !data.data) {
+      return { availability: 'UNKNOWN', evidence: [`API do Gofile: ${data.status}`] }
+    }
+
+    const files = Object.values(data.data.children || {}).filter(child => child.type === 'file')
+    const single = data.data.type === 'file' ? data.data : files.length === 1 ? files[0] : null
+    return {
+      availability: 'AVAILABLE',
+      fileName: single?.name ?? data.data.name ?? null,
+      sizeBytes: single?.size ?? (files.reduce((total, file) => total + (file.size || 0), 0) || null),
+      evidence: [`API do Gofile: ${files.length || 1} arquivo(s) disponível(is)`]
+    }
+  }
+}
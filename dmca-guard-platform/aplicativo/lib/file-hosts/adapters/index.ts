@@ -0,0 +1,49 @@
+import { HostAdapter } from '../types'
+import { megaAdapter } from './mega'
+import { gofileAdapter } from './gofile'
+import { mediafireAdapter } from './mediafire'
+import { pixeldrainAdapter } from './pixeldrain'
+import { bunkrAdapter } from './bunkr'
+import { krakenfilesAdapter } from './krakenfiles'
+import { ouoAdapter } from './ouo'
+import { linkvertiseAdapter } from './linkvertise'
+import { shortestAdapter } from './shortest'
+import { genericFileHost, genericShortener } from './generic'
+
+export { genericFileHost, genericShortener }
+
+const noContact = (organization: string) => ({ organization, email: null, formUrl: null })
+
+/**
+ * Adaptadores registrados por padrão; os dedicados vêm antes dos genéricos
+ */
+export const defaultAdapters: HostAdapter[] = [
+  megaAdapter,
+  gofileAdapter,
+  mediafireAdapter,
+  pixeldrainAdapter,
+  bunkrAdapter,
+  krakenfilesAdapter,
+  genericFileHost('cyberdrop', /(^|\.)cyberdrop\.(me|to|cc)$/, noContact('Cyberdrop'), /^\/(?:a|f|e)\/([\w-]+)/),
+  genericFileHost('rapidgator', /(^|\.)(rapidgator\.net|rg\.to)$/, { organization: 'Rapidgator', email: 'abuse@rapidgator.net', formUrl: null }, /^\/file\/(\w+)/),
+  genericFileHost('1fichier', /(^|\.)1fichier\.com$/, { organization: '1fichier', email: 'abuse@1fichier.com', formUrl: null }, /^\/\?(\w+)/),
+  genericFileHost('workupload', /(^|\.)workupload\.com$/, { organization: 'workupload', email: 'abuse@workupload.com', formUrl: null }, /^\/(?:file|archive)\/(\w+)/),
+  genericFileHost('zippyshare', /(^|\.)zippyshare\.com$/, noContact('Zippyshare'), /^\/v\/(\w+)/),
+  genericFileHost('dropbox', /(^|\.)dropbox\.com$/, { organization: 'Dropbox, Inc.', email: 'copyright@dropbox.com', formUrl: 'https://www.dropbox.com/copyright_complaint' }, /^\/(?:s|sh|scl\/fi)\/(\w+)/),
+  genericFileHost('google-drive', /^drive\.google\.com$/, { organization: 'Google LLC', email: null, formUrl: 'https://support.google.com/legal/answer/3110420' }, /(?:\/file\/d\/|[?&]id=)([\w-]+)/),
+  genericFileHost('uploadhaven', /(^|\.)uploadhaven\.com$/, noContact('UploadHaven'), /^\/download\/(\w+)/),
+  genericFileHost('send.cm', /(^|\.)send\.cm$/, noContact('Send.cm'), /^\/(?:d\/)?(\w+)/),
+
+  ouoAdapter,
+  linkvertiseAdapter,
+  shortestAdapter,
+  genericShortener('bit.ly', /(^|\.)(bit\.ly|bitly\.com)$/, { organization: 'Bitly, Inc.', email: 'abuse@bitly.com', formUrl: null }),
+  genericShortener('tinyurl', /(^|\.)tinyurl\.com$/, { organization: 'TinyURL LLC', email: 'abuse@tinyurl.com', formUrl: null }),
+  genericShortener('adfly', /(^|\.)(adf\.ly|j\.gs|q\.gs)$/, noContact('AdFly')),
+  genericShortener('cutt.ly', /(^|\.)cutt\.ly$/, noContact('Cuttly')),
+  genericShortener('is.gd', /(^|\.)(is\.gd|v\.gd)$/, noContact('is.gd')),
+  genericShortener('shrinkme', /(^|\.)shrinkme\.io$/, noContact('ShrinkMe')),
+  genericShortener('exe.io', /(^|\.)(exe\.io|exey\.io)$/, noContact('exe.io')),
+  genericShortener('bc.vc', /(^|\.)bc\.vc$/, noContact('bc.vc')),
+  genericShortener('rebrandly', /(^|\.)rebrand\.ly$/, noContact('Rebrandly'))
+]
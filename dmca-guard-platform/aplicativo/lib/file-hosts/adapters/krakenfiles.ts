@@ -0,0 +1,36 @@
+import { HostAdapter } from '../types'
+import { loadHtml, pageText, parseSize, pathId, removalFromText, statusVerdict } from '../page'
+
+/**
+ * KrakenFiles: /view/{id}/file.html, com nome e tamanho nos blocos de detalhes
+ */
+export const krakenfilesAdapter: HostAdapter = {
+  name: 'krakenfiles',
+  kind: 'file_host',
+  pattern: /(^|\.)krakenfiles\.com$/,
+  contact: { organization: 'KrakenFiles', email: 'abuse@krakenfiles.com', formUrl: null },
+
+  fileId(url) {
+    return pathId(url, ['view'])
+  },
+
+  parse(page) {
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const $ = loadHtml(page.body)
+    const fileName = $('.coin-name h5').first().text().trim() || null
+    if (!fileName) {
+      const removal = removalFromText(pageText(page.body))
+      if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+      return { availability: 'UNKNOWN', evidence: ['KrakenFiles: página sem nome do arquivo'] }
+    }
+
+    const sizeBlock = $('.sub-text')
+      .filter((_, element) => /file size/i.test($(element).text()))
+      .first()
+      .next('.lead-text')
+      .text()
+    return { availability: 'AVAILABLE', fileName, sizeBytes: parseSize(sizeBlock), evidence: [`KrakenFiles: "${fileName}" disponível`] }
+  }
+}
@@ -0,0 +1,38 @@
+import { HostAdapter } from '../types'
+import { pageText, removalFromText, statusVerdict } from '../page'
+
+/**
+ * Linkvertise: links dinâmicos (/{id}/dynamic?r=base64) trazem o destino na URL;
+ * os estáticos só revelam o destino depois dos anúncios
+ */
+export const linkvertiseAdapter: HostAdapter = {
+  name: 'linkvertise',
+  kind: 'shortener',
+  pattern: /(^|\.)(linkvertise\.com|link-to\.net|up-to-down\.net|direct-link\.net)$/,
+  contact: { organization: 'Linkvertise GmbH', email: 'abuse@linkvertise.com', formUrl: 'https://linkvertise.com/report' },
+
+  fileId(url) {
+    return url.pathname.split('/').filter(Boolean)[0] ?? null
+  },
+
+  request(url) {
+    return url.searchParams.get('r') ? null : { url: url.href }
+  },
+
+  parse(page, url) {
+    const encoded = url.searchParams.get('r')
+    if (encoded) {
+      const target = Buffer.from(encoded, 'base64').toString('utf8')
+      if (/^https?:\/\//.test(target)) {
+        return { availability: 'AVAILABLE', target, evidence: ['Linkvertise: destino decodificado do parâmetro r'] }
+      }
+    }
+
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const removal = removalFromText(pageText(page.body))
+    if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+    return { availability: 'UNKNOWN', evidence: ['Linkvertise: destino liberado só após os anúncios'] }
+  }
+}
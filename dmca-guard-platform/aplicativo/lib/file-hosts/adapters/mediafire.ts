@@ -0,0 +1,44 @@
+import { HostAdapter } from '../types'
+import { loadHtml, parseSize, pathId, removalFromText, statusVerdict } from '../page'
+
+// error.php?errno=: 378 removido por violação, 380/386/388 bloqueado por denúncia de copyright
+const DMCA_ERRNOS = ['378', '380', '386', '388']
+
+/**
+ * MediaFire: arquivos removidos redirecionam para /error.php?errno=N; os demais mostram nome e
+ * tamanho no botão de download
+ */
+export const mediafireAdapter: HostAdapter = {
+  name: 'mediafire',
+  kind: 'file_host',
+  pattern: /(^|\.)mediafire\.com$/,
+  contact: { organization: 'MediaFire, LLC', email: 'abuse@mediafire.com', formUrl: 'https://www.mediafire.com/policies/dmca_notice.php' },
+
+  fileId(url) {
+    return pathId(url, ['file', 'view', 'folder', 'download']) ?? (url.search.match(/^\?([a-z0-9]{10,})/i)?.[1] || null)
+  },
+
+  parse(page) {
+    if (page.location?.includes('error.php')) {
+      const errno = page.location.match(/errno=(\d+)/)?.[1] ?? ''
+      return DMCA_ERRNOS.includes(errno)
+        ? { availability: 'REMOVED_DMCA', evidence: [`MediaFire redirecionou para error.php?errno=${errno} (removido por violação)`] }
+        : { availability: 'REMOVED', evidence: [`MediaFire redirecionou para error.php?errno=${errno || '?'}`] }
+    }
+
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const $ = loadHtml(page.body)
+    const fileName = $('.dl-btn-label').attr('title') || $('.filename').first().text().trim() || null
+    const sizeText = $('#downloadButton').text() || $('.details li:contains("File size") span').text()
+
+    if (!fileName) {
+      const removal = removalFromText($('body').text().toLowerCase())
+      if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+      return { availability: 'UNKNOWN', evidence: ['MediaFire: página sem botão de download'] }
+    }
+
+    return { availability: 'AVAILABLE', fileName, sizeBytes: parseSize(sizeText), evidence: [`MediaFire: arquivo "${fileName}" disponível`] }
+  }
+}
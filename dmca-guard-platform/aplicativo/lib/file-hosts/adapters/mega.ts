@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { HostAdapter } from '../types'
+import { parseJsonAs, pathId } from '../page'
+
+const API_URL = 'https://g.api.mega.co.nz/cs'
+
+// Códigos de erro da API: -9 inexistente, -16 bloqueado (ToS/copyright), -18 indisponível no momento
+const ERROR_CODES: Record<number, { availability: 'REMOVED' | 'REMOVED_DMCA' | 'UNKNOWN'; evidence: string }> = {
+  [-9]: { availability: 'REMOVED', evidence: 'API do MEGA: arquivo inexistente (-9)' },
+  [-16]: { availability: 'REMOVED_DMCA', evidence: 'API do MEGA: arquivo bloqueado por violação (-16)' },
+  [-18]: { availability: 'UNKNOWN', evidence: 'API do MEGA: indisponível no momento (-18)' }
+}
+
+// Resposta do comando: código de erro, arquivo (s = tamanho) ou pasta (f = nós, t 0 = arquivo)
+const megaResultSchema = z.union([
+  z.number(),
+  z.object({ s: z.number() }),
+  z.object({ f: z.array(z.object({ t: z.number(), s: z.number().nullish() })) })
+])
+const megaResponseSchema = z.union([z.array(megaResultSchema).nonempty(), megaResultSchema])
+
+/**
+ * MEGA: a página é um app JS, então o status vem da API pública. O nome do arquivo
+ * é cifrado com a chave do link e não é extraído
+ */
+export const megaAdapter: HostAdapter = {
+  name: 'mega',
+  kind: 'file_host',
+  pattern: /(^|\.)mega\.(nz|co\.nz|io)$/,
+  contact: { organization: 'MEGA Limited', email: 'copyright@mega.nz', formUrl: 'https://mega.io/copyrightnotice' },
+
+  fileId(url) {
+    const id = pathId(url, ['file', 'folder'])
+    if (id) return id
+    // Links antigos: /#!{id}!{chave} e /#F!{id}!{chave}
+    return url.hash.match(/^#F?!([\w-]{8})!/)?.[1] ?? null
+  },
+
+  request(url, fileId) {
+    if (!fileId) return null
+    const folder = url.pathname.startsWith('/folder/') || url.hash.startsWith('#F!')
+    return folder
+      ? { url: `${API_URL}?id=0&n=${fileId}`, init: { method: 'POST', body: JSON.stringify([{ a: 'f', c: 1, r: 1 }]) } }
+      : { url: `${API_URL}?id=0`, init: { method: 'POST', body: JSON.stringify([{ a: 'g', p: fileId }]) } }
+  },
+
+  parse(page) {
+    const data = parseJsonAs(page.body, megaResponseSchema)
+    const result = Array.isArray(data) ? data[0] : data
+
+    if (typeof result === 'number') {
+      const error = ERROR_CODES[result]
+      return error
+        ? { availability: error.availability, evidence: [error.evidence] }
+        : { availability: 'UNKNOWN', evidence: [`API do MEGA: código ${result}`] }
+    }
+
+    if (result && 's' in result) {
+      return { availability: 'AVAILABLE', sizeBytes: result.s, evidence: [`API do MEGA: arquivo disponível (${result.s} bytes)`] }
+    }
+
+    if (result) {
+      const files = result.f.filter(node => node.t === 0)
+      const sizeBytes = files.reduce((total, node) => total + (node.s || 0), 0)
+      return { availability: 'AVAILABLE', sizeBytes, evidence: [`API do MEGA: pasta disponível com ${files.length} arquivos`] }
+    }
+
+    return { availability: 'UNKNOWN', evidence: ['API do MEGA: resposta não reconhecida'] }
+  }
+}
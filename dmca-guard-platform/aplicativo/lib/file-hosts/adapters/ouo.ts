@@ -0,0 +1,36 @@
+import { HostAdapter } from '../types'
+import { loadHtml, statusVerdict } from '../page'
+
+/**
+ * ouo.io: links rápidos (/qs/{id}?s=destino) trazem o destino na URL; os demais passam por captcha
+ */
+export const ouoAdapter: HostAdapter = {
+  name: 'ouo',
+  kind: 'shortener',
+  pattern: /(^|\.)ouo\.(io|press)$/,
+  contact: { organization: 'ouo.io', email: 'abuse@ouo.io', formUrl: null },
+
+  fileId(url) {
+    return url.pathname.split('/').filter(segment => segment && segment !== 'qs')[0] ?? null
+  },
+
+  request(url) {
+    return url.searchParams.get('s') ? null : { url: url.href }
+  },
+
+  parse(page, url) {
+    const quickTarget = url.searchParams.get('s')
+    if (quickTarget && /^https?:\/\//.test(quickTarget)) {
+      return { availability: 'AVAILABLE', target: quickTarget, evidence: ['ouo.io: destino no parâmetro s do link rápido'] }
+    }
+
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const $ = loadHtml(page.body)
+    if ($('form#form-captcha').length > 0) {
+      return { availability: 'UNKNOWN', evidence: ['ouo.io: destino protegido por captcha'] }
+    }
+    return { availability: 'UNKNOWN', evidence: [`ouo.io: HTTP ${page.status}, destino não encontrado`] }
+  }
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+import { HostAdapter } from '../types'
+import { parseJsonAs, pathId, statusVerdict } from '../page'
+
+// Mesmo formato para informações de arquivo, listas e erros (success false + value)
+const pixeldrainResponseSchema = z.object({
+  success: z.boolean().nullish(),
+  value: z.string().nullish(),
+  abuse_type: z.string().nullish(),
+  name: z.string().nullish(),
+  title: z.string().nullish(),
+  size: z.number().nullish(),
+  files: z.array(z.object({ size: z.number().nullish() })).nullish()
+})
+
+/**
+ * Pixeldrain: /u/{id} (arquivo) e /l/{id} (lista), consultados pela API pública de informações
+ */
+export const pixeldrainAdapter: HostAdapter = {
+  name: 'pixeldrain',
+  kind: 'file_host',
+  pattern: /(^|\.)pixeldrain\.com$/,
+  contact: { organization: 'Pixeldrain', email: 'abuse@pixeldrain.com', formUrl: 'https://pixeldrain.com/abuse' },
+
+  fileId(url) {
+    return pathId(url, ['u', 'l'])
+  },
+
+  request(url, fileId) {
+    if (!fileId) return null
+    return url.pathname.startsWith('/l/')
+      ? { url: `https://pixeldrain.com/api/list/${fileId}` }
+      : { url: `https://pixeldrain.com/api/file/${fileId}/info` }
+  },
+
+  parse(page) {
+    const data = parseJsonAs(page.body, pixeldrainResponseSchema)
+
+    if (data?.value === 'file_blocked' || data?.abuse_type) {
+      return { availability: 'REMOVED_DMCA', evidence: [`API do Pixeldrain: bloqueado por denúncia (${data.abuse_type || data.value})`] }
+    }
+    if (data?.value === 'not_found') {
+      return { availability: 'REMOVED', evidence: ['API do Pixeldrain: arquivo inexistente'] }
+    }
+
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    if (data?.success === false || !data) {
+      return { availability: 'UNKNOWN', evidence: [`API do Pixeldrain: ${data?.value || `HTTP ${page.status}`}`] }
+    }
+
+    // Listas: soma dos arquivos
+    if (Array.isArray(data.files)) {
+      return {
+        availability: data.files.length > 0 ? 'AVAILABLE' : 'REMOVED',
+        fileName: data.title ?? null,
+        sizeBytes: data.files.reduce((total, file) => total + (file.size || 0), 0),
+        evidence: [`API do Pixeldrain: lista com ${data.files.length} arquivos`]
+      }
+    }
+
+    return { availability: 'AVAILABLE', fileName: data.name ?? null, sizeBytes: data.size ?? null, evidence: ['API do Pixeldrain: arquivo disponível'] }
+  }
+}
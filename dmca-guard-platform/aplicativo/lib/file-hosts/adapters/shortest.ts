@@ -0,0 +1,30 @@
+import { HostAdapter } from '../types'
+import { pageText, removalFromText, statusVerdict } from '../page'
+
+/**
+ * Shorte.st: a página intermediária traz o destino na configuração do script (destinationUrl)
+ */
+export const shortestAdapter: HostAdapter = {
+  name: 'shorte.st',
+  kind: 'shortener',
+  pattern: /(^|\.)(shorte\.st|sh\.st|gestyy\.com)$/,
+  contact: { organization: 'Shorte.st', email: 'abuse@shorte.st', formUrl: null },
+
+  fileId(url) {
+    return url.pathname.split('/').filter(Boolean)[0] ?? null
+  },
+
+  parse(page) {
+    const verdict = statusVerdict(page)
+    if (verdict) return verdict
+
+    const destination = page.body.match(/destinationUrl['"]?\s*[:=]\s*['"]([^'"]+)['"]/)?.[1]?.replace(/\\\//g, '/')
+    if (destination && /^https?:\/\//.test(destination)) {
+      return { availability: 'AVAILABLE', target: destination, evidence: ['Shorte.st: destino em destinationUrl'] }
+    }
+
+    const removal = removalFromText(pageText(page.body))
+    if (removal) return { availability: removal.availability, evidence: [removal.evidence] }
+    return { availability: 'UNKNOWN', evidence: ['Shorte.st: destino não encontrado na página'] }
+  }
+}
@@ -0,0 +1,104 @@
+import * as cheerio from 'cheerio/slim'
+import { z } from 'zod'
+import { FetchedPage, FileAvailability, ParsedHostPage } from './types'
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4
+}
+
+// Frases de páginas de arquivo removido; as de copyright indicam remoção por notificação
+const REMOVED_PHRASES = [
+  'file not found',
+  'file does not exist',
+  'file has been removed',
+  'file was removed',
+  'file was deleted',
+  'has been deleted',
+  'no longer available',
+  'album not found',
+  'link has been disabled',
+  'arquivo não encontrado'
+]
+const DMCA_PHRASES = [
+  'copyright',
+  'dmca',
+  'terms of service violation',
+  'violation of our terms',
+  'removed for violation',
+  'abuse report'
+]
+
+/**
+ * Tamanho legível ("1.5 GB", "12,3MB", "900 KiB") em bytes
+ */
+export function parseSize(text: string | null | undefined): number | null {
+  const match = text?.match(/(\d+(?:[.,]\d+)?)\s*([KMGT]?i?B)\b/i)
+  if (!match) return null
+  const unit = match[2].toUpperCase().replace('IB', 'B')
+  const factor = SIZE_UNITS[unit]
+  return factor ? Math.round(parseFloat(match[1].replace(',', '.')) * factor) : null
+}
+
+export function loadHtml(body: string) {
+  return cheerio.load(body)
+}
+
+export function pageText(body: string): string {
+  const $ = cheerio.load(body)
+  $('script, style, noscript').remove()
+  return $('body').text().replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Remoção indicada pelo texto da página; null quando não há aviso de remoção
+ */
+export function removalFromText(text: string): { availability: FileAvailability; evidence: string } | null {
+  const removed = REMOVED_PHRASES.find(phrase => text.includes(phrase))
+  const dmca = DMCA_PHRASES.find(phrase => text.includes(phrase))
+  if (!removed && !(dmca && /remov|disabled|blocked|taken down/.test(text))) return null
+  return dmca
+    ? { availability: 'REMOVED_DMCA', evidence: `Aviso de remoção por violação: "${dmca}"` }
+    : { availability: 'REMOVED', evidence: `Aviso de arquivo removido: "${removed}"` }
+}
+
+/**
+ * Respostas HTTP que já bastam para o status (404/410 removido, 451 bloqueado por ordem legal)
+ */
+export function statusVerdict(page: FetchedPage): ParsedHostPage | null {
+  if (page.status === 404 || page.status === 410) {
+    return { availability: 'REMOVED', evidence: [`HTTP ${page.status} no host`] }
+  }
+  if (page.status === 451) {
+    return { availability: 'REMOVED_DMCA', evidence: ['HTTP 451 - bloqueado por motivo legal'] }
+  }
+  return null
+}
+
+export function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resposta JSON de API validada pelo schema do adaptador; null se não é JSON ou mudou de formato
+ */
+export function parseJsonAs<T extends z.ZodTypeAny>(body: string, schema: T): z.infer<T> | null {
+  const result = schema.safeParse(parseJson(body))
+  return result.success ? result.data : null
+}
+
+/**
+ * Primeiro segmento do caminho depois de um dos prefixos (ex.: /file/{id})
+ */
+export function pathId(url: URL, prefixes: string[]): string | null {
+  const segments = url.pathname.split('/').filter(Boolean)
+  const index = segments.findIndex(segment => prefixes.includes(segment))
+  return index >= 0 && segments[index + 1] ? segments[index + 1] : null
+}
@@ -0,0 +1,49 @@
+export type FileAvailability = 'AVAILABLE' | 'REMOVED' | 'REMOVED_DMCA' | 'UNKNOWN'
+
+export type HostAdapterKind = 'file_host' | 'shortener'
+
+export interface HostDmcaContact {
+  organization: string
+  email: string | null
+  formUrl: string | null // hosts que só aceitam notificações pelo formulário
+}
+
+/**
+ * Resposta da página (ou API) pública do host, sem seguir redirecionamentos
+ */
+export interface FetchedPage {
+  url: string
+  status: number
+  location: string | null
+  body: string
+}
+
+export interface ParsedHostPage {
+  availability: FileAvailability
+  fileName?: string | null
+  sizeBytes?: number | null
+  target?: string | null // destino de encurtadores
+  evidence: string[]
+}
+
+export interface HostRequest {
+  url: string
+  init?: RequestInit
+}
+
+/**
+ * Um adaptador por file host ou encurtador: reconhece a URL, extrai o ID do arquivo
+ * e interpreta a página pública
+ */
+export interface HostAdapter {
+  name: string
+  kind: HostAdapterKind
+  pattern: RegExp // hostname sem www.
+  contact: HostDmcaContact
+  fileId(url: URL): string | null
+  // Página ou API consultada; por padrão a própria URL
+  request?(url: URL, fileId: string | null): HostRequest | null
+  parse(page: FetchedPage, url: URL): ParsedHostPage
+}
+
+export type PageFetcher = (request: HostRequest) => Promise<FetchedPage>
@@ -1,6 +1,11 @@
 import { initializeSchedulerFromEnv } from '../scheduler/removal-verification-scheduler'
+import { initializeMonitoringSchedulerFromEnv } from '../scheduler/monitoring-scan-scheduler'
+import { initializeEscalationSchedulerFromEnv } from '../scheduler/takedown-escalation-scheduler'
+import { initializeEmailOutboxSchedulerFromEnv } from '../scheduler/email-outbox-scheduler'
+import { initializeStaydownSchedulerFromEnv } from '../scheduler/staydown-scheduler'
+import { fairQueueManager } from '../services/security/fair-queue-manager'
 
-// Inicializar o scheduler quando o módulo for carregado
+// Inicializar os schedulers quando o módulo for carregado
 // Só será executado no servidor
 if (typeof window === 'undefined') {
   // Aguardar um pouco para que a aplicação seja inicializada
@@ -11,6 +16,39 @@ if (typeof window === 'undefined') {
     } catch (error) {
       console.error('❌ Erro ao inicializar scheduler de verificação:', error)
     }
+
+    // Retomar scans persistidos na fila antes do deploy/crash
+    fairQueueManager.resume().catch(error => {
+      console.error('❌ Erro ao retomar fila de scans:', error)
+    })
+
+    try {
+      initializeMonitoringSchedulerFromEnv()
+      console.log('🔧 Sistema de scans recorrentes inicializado')
+    } catch (error) {
+      console.error('❌ Erro ao inicializar scheduler de monitoramento:', error)
+    }
+
+    try {
+      initializeEscalationSchedulerFromEnv()
+      console.log('🔧 Sistema de escalonamento de takedowns inicializado')
+    } catch (error) {
+      console.error('❌ Erro ao inicializar scheduler de escalonamento:', error)
+    }
+
+    try {
+      initializeEmailOutboxSchedulerFromEnv()
+      console.log('🔧 Dispatcher do outbox de e-mails inicializado')
+    } catch (error) {
+      console.error('❌ Erro ao inicializar dispatcher do outbox de e-mails:', error)
+    }
+
+    try {
+      initializeStaydownSchedulerFromEnv()
+      console.log('🔧 Sistema de staydown inicializado')
+    } catch (error) {
+      console.error('❌ Erro ao inicializar scheduler de staydown:', error)
+    }
   }, 5000) // 5 segundos de delay
 }
 
@@ -0,0 +1,229 @@
+export interface LlmRequest {
+  prompt: string
+  system?: string
+  temperature?: number
+  maxOutputTokens?: number
+  json?: boolean // pedir resposta em JSON quando o provedor suporta
+}
+
+export interface LlmUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LlmCompletion {
+  text: string
+  provider: string
+  model: string
+  usage: LlmUsage
+}
+
+export interface LlmProvider {
+  readonly name: string
+  readonly model: string
+  complete(request: LlmRequest): Promise<LlmCompletion>
+}
+
+export type LlmFetch = (url: string, init: RequestInit & { signal?: AbortSignal }) => Promise<Response>
+
+export interface HttpProviderOptions {
+  model?: string
+  timeoutMs?: number
+  fetch?: LlmFetch
+}
+
+/**
+ * Falha do provedor; retryable indica que outro provedor (ou nova tentativa depois) pode resolver
+ */
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly provider: string, readonly retryable: boolean = true, readonly status?: number) {
+    super(message)
+    this.name = 'LlmProviderError'
+  }
+}
+
+/**
+ * Estimativa grosseira (~4 caracteres por token) para provedores que não informam o consumo
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: { timeoutMs: number; fetch: LlmFetch }
+): Promise<any> {
+  let response: Response
+  try {
+    response = await options.fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(options.timeoutMs)
+    })
+  } catch (error) {
+    throw new LlmProviderError(`${provider} inacessível: ${error instanceof Error ? error.message : String(error)}`, provider)
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 300)
+    // 400/401/403: requisição ou chave inválida, outra tentativa no mesmo provedor não resolve
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500
+    throw new LlmProviderError(`${provider} respondeu ${response.status}: ${detail}`, provider, retryable, response.status)
+  }
+
+  return response.json()
+}
+
+/**
+ * Google Gemini (generateContent)
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini'
+  readonly model: string
+  private readonly timeoutMs: number
+  private readonly fetch: LlmFetch
+
+  constructor(private readonly apiKey: string, options: HttpProviderOptions = {}) {
+    this.model = options.model ?? 'gemini-1.5-flash-8b'
+    this.timeoutMs = options.timeoutMs ?? 30000
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init))
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`
+    const data = await postJson(this.name, url, {}, {
+      ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature ?? 0.3,
+        maxOutputTokens: request.maxOutputTokens ?? 1000,
+        topP: 0.8,
+        topK: 40,
+        ...(request.json && { responseMimeType: 'application/json' })
+      }
+    }, { timeoutMs: this.timeoutMs, fetch: this.fetch })
+
+    const text = data.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text ?? '').join('')
+    if (!text) {
+      // Sem candidato: bloqueio de segurança ou cota; o próximo provedor pode responder
+      throw new LlmProviderError(`Resposta vazia do Gemini (${data.promptFeedback?.blockReason ?? data.candidates?.[0]?.finishReason ?? 'sem motivo'})`, this.name)
+    }
+
+    const promptTokens = data.usageMetadata?.promptTokenCount ?? estimateTokens(request.prompt)
+    const completionTokens = data.usageMetadata?.candidatesTokenCount ?? estimateTokens(text)
+    return { text, provider: this.name, model: this.model, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } }
+  }
+}
+
+/**
+ * Qualquer endpoint compatível com a API de chat da OpenAI (OpenAI, Ollama, llama.cpp, vLLM, LM Studio)
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string
+  readonly model: string
+  private readonly timeoutMs: number
+  private readonly fetch: LlmFetch
+  private readonly jsonMode: boolean
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    options: HttpProviderOptions & { name?: string; jsonMode?: boolean } = {}
+  ) {
+    this.name = options.name ?? 'openai-compatible'
+    this.model = options.model ?? 'gpt-4o-mini'
+    this.timeoutMs = options.timeoutMs ?? 60000
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init))
+    // Alguns servidores locais rejeitam response_format
+    this.jsonMode = options.jsonMode ?? true
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const data = await postJson(this.name, `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+    }, {
+      model: this.model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: request.temperature ?? 0.3,
+      max_tokens: request.maxOutputTokens ?? 1000,
+      ...(request.json && this.jsonMode && { response_format: { type: 'json_object' } })
+    }, { timeoutMs: this.timeoutMs, fetch: this.fetch })
+
+    const text = data.choices?.[0]?.message?.content
+    if (!text) {
+      throw new LlmProviderError(`Resposta vazia de ${this.name} (${data.choices?.[0]?.finish_reason ?? 'sem motivo'})`, this.name)
+    }
+
+    const promptTokens = data.usage?.prompt_tokens ?? estimateTokens(request.prompt)
+    const completionTokens = data.usage?.completion_tokens ?? estimateTokens(text)
+    return { text, provider: this.name, model: this.model, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } }
+  }
+}
+
+export interface FixtureRule {
+  match: string | RegExp // trecho ou padrão procurado no prompt
+  response: string | object
+}
+
+/**
+ * Provedor determinístico para testes e desenvolvimento sem chave: responde pela primeira regra que casa com o prompt
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture'
+  readonly model = 'fixture'
+  readonly requests: LlmRequest[] = []
+
+  constructor(private readonly rules: FixtureRule[] = [], private readonly fallback: string | object | null = null) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    this.requests.push(request)
+    const rule = this.rules.find(candidate => typeof candidate.match === 'string'
+      ? request.prompt.includes(candidate.match)
+      : candidate.match.test(request.prompt))
+    const response = rule ? rule.response : this.fallback
+    if (response === null) {
+      throw new LlmProviderError('Nenhuma resposta de fixture para o prompt', this.name, false)
+    }
+
+    const text = typeof response === 'string' ? response : JSON.stringify(response)
+    const promptTokens = estimateTokens(`${request.system ?? ''}${request.prompt}`)
+    const completionTokens = estimateTokens(text)
+    return { text, provider: this.name, model: this.model, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } }
+  }
+}
+
+/**
+ * Provedores na ordem de LLM_PROVIDERS (ex.: "gemini,openai"); os sem configuração ficam de fora
+ */
+export function createProvidersFromEnv(env: NodeJS.ProcessEnv = process.env): LlmProvider[] {
+  const order = (env.LLM_PROVIDERS || 'gemini,openai').split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+  const providers: LlmProvider[] = []
+
+  for (const name of order) {
+    if (name === 'gemini') {
+      const apiKey = env.GEMINI_API_KEY || env.GOOGLE_GEMINI_API_KEY
+      if (apiKey) providers.push(new GeminiProvider(apiKey, { model: env.GEMINI_MODEL || undefined }))
+    } else if (name === 'openai') {
+      if (env.OPENAI_COMPATIBLE_BASE_URL) {
+        providers.push(new OpenAICompatibleProvider(env.OPENAI_COMPATIBLE_BASE_URL, env.OPENAI_COMPATIBLE_API_KEY || undefined, {
+          model: env.OPENAI_COMPATIBLE_MODEL || undefined,
+          jsonMode: env.OPENAI_COMPATIBLE_JSON_MODE !== 'false'
+        }))
+      }
+    } else if (name === 'fixture') {
+      providers.push(new FixtureProvider([], {}))
+    } else {
+      console.warn(`[LLM] Provedor desconhecido em LLM_PROVIDERS: ${name}`)
+    }
+  }
+
+  return providers
+}
@@ -28,6 +28,28 @@ export const SearchOptionsSchema = z.object({
 export type SearchResult = z.infer<typeof SearchResultSchema>
 export type SearchOptions = z.infer<typeof SearchOptionsSchema>
 
+/**
+ * Normalizar URL para comparação: ignora protocolo, www, barra final, fragmento,
+ * codificação do caminho e ordem dos parâmetros da query
+ */
+export function normalizeUrlForComparison(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const hostname = parsed.hostname.toLowerCase().replace(/^www\./, '')
+    let pathname = parsed.pathname.replace(/\/+$/, '')
+    try {
+      pathname = decodeURI(pathname)
+    } catch {
+      // Mantém o caminho codificado se a sequência for inválida
+    }
+    parsed.searchParams.sort()
+    const search = parsed.searchParams.toString()
+    return `${hostname}${pathname}${search ? `?${search}` : ''}`
+  } catch {
+    return url.toLowerCase()
+  }
+}
+
 // Interfaces para DiscoveryAgent
 export interface SearchQuery {
   terms: string[]
@@ -613,6 +635,29 @@ export class SearchClient {
     }
   }
 
+  /**
+   * Verificar se uma URL específica ainda é retornada pelo buscador. O site: restringe ao
+   * caminho e a busca cobre várias páginas de resultados, para que uma URL fora do top 10
+   * não seja dada como removida
+   */
+  async isUrlIndexed(url: string, engine: 'google' | 'bing'): Promise<boolean> {
+    const { hostname, pathname } = new URL(url)
+    let results: SearchResult[]
+
+    if (engine === 'bing') {
+      results = await this.searchWithBing(`url:${url}`, { limit: 50, safeSearch: false })
+    } else {
+      // Serper reflete o índice do google.com; Custom Search é o fallback e devolve no máximo 10
+      const query = `site:${hostname}${pathname}`
+      results = this.serperApiKey
+        ? await this.searchWithSerper(query, { limit: 100, safeSearch: false })
+        : await this.searchWithGoogle(query, { limit: 10, safeSearch: false })
+    }
+
+    const target = normalizeUrlForComparison(url)
+    return results.some(result => normalizeUrlForComparison(result.url) === target)
+  }
+
   /**
    * Busca inteligente com múltiplos provedores
    */
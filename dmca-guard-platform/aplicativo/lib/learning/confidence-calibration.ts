@@ -0,0 +1,271 @@
+/**
+ * Calibração da confiança por regressão logística treinada com as decisões de revisão
+ * (REVIEWED e demais status de confirmação = 1, FALSE_POSITIVE = 0).
+ */
+
+export interface CalibrationSample {
+  id: string;
+  url: string;
+  confidence: number; // confiança original do detector, 0-100
+  similarity: number | null;
+  faceMatchConfidence: number | null;
+  imageCount: number;
+  platform: string;
+  contentType: string;
+  keywordSource: string | null;
+  detectedAt: Date;
+}
+
+export interface LabeledSample extends CalibrationSample {
+  label: 0 | 1;
+}
+
+export interface HistoryStats {
+  confirmed: number;
+  dismissed: number;
+}
+
+// Decisões anteriores para o mesmo domínio e a mesma keyword de origem
+export interface SampleHistory {
+  domain: HistoryStats;
+  keyword: HistoryStats;
+}
+
+export interface ClassificationMetrics {
+  precision: number;
+  recall: number;
+  accuracy: number;
+  f1: number;
+  support: number;
+}
+
+export interface CalibrationMetrics {
+  threshold: number;
+  model: ClassificationMetrics;
+  baseline: ClassificationMetrics; // confiança original >= 50 como previsão
+  positiveRate: number;
+}
+
+export interface TrainedCalibration {
+  features: string[];
+  weights: number[];
+  metrics: CalibrationMetrics;
+  trainingSize: number;
+  holdoutSize: number;
+}
+
+export interface TrainingOptions {
+  iterations?: number;
+  learningRate?: number;
+  l2?: number;
+  holdoutRatio?: number;
+}
+
+const BASE_FEATURES = [
+  'bias',
+  'confidence',
+  'similarity',
+  'faceMatch',
+  'hasImages',
+  'domainConfirmRate',
+  'domainHistory',
+  'keywordConfirmRate',
+  'keywordHistory',
+  'staydown'
+];
+
+const MAX_PLATFORMS = 10;
+const MIN_PLATFORM_SAMPLES = 3;
+const DECISION_THRESHOLD = 0.5;
+
+export const EMPTY_HISTORY: SampleHistory = {
+  domain: { confirmed: 0, dismissed: 0 },
+  keyword: { confirmed: 0, dismissed: 0 }
+};
+
+export function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function toUnit(value: number | null): number {
+  if (value === null || !Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value > 1 ? value / 100 : value));
+}
+
+// Taxa de confirmação suavizada: sem histórico fica em 0,5
+function confirmRate(stats: HistoryStats): number {
+  return (stats.confirmed + 1) / (stats.confirmed + stats.dismissed + 2);
+}
+
+function historyWeight(stats: HistoryStats): number {
+  return Math.min(1, Math.log1p(stats.confirmed + stats.dismissed) / Math.log(51));
+}
+
+/**
+ * Atributos do modelo: base fixa mais plataformas e tipos de conteúdo frequentes no treino
+ */
+export function buildFeatureNames(samples: CalibrationSample[]): string[] {
+  const platforms = new Map<string, number>();
+  const contentTypes = new Set<string>();
+  for (const sample of samples) {
+    const platform = sample.platform.toLowerCase();
+    platforms.set(platform, (platforms.get(platform) ?? 0) + 1);
+    contentTypes.add(sample.contentType);
+  }
+
+  const frequentPlatforms = [...platforms.entries()]
+    .filter(([, count]) => count >= MIN_PLATFORM_SAMPLES)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_PLATFORMS)
+    .map(([platform]) => `platform:${platform}`);
+
+  return [...BASE_FEATURES, ...frequentPlatforms, ...[...contentTypes].sort().map(type => `contentType:${type}`)];
+}
+
+export function featureVector(features: string[], sample: CalibrationSample, history: SampleHistory): number[] {
+  return features.map(feature => {
+    switch (feature) {
+      case 'bias': return 1;
+      case 'confidence': return toUnit(sample.confidence / 100);
+      case 'similarity': return toUnit(sample.similarity);
+      case 'faceMatch': return toUnit(sample.faceMatchConfidence);
+      case 'hasImages': return sample.imageCount > 0 ? 1 : 0;
+      case 'domainConfirmRate': return confirmRate(history.domain);
+      case 'domainHistory': return historyWeight(history.domain);
+      case 'keywordConfirmRate': return confirmRate(history.keyword);
+      case 'keywordHistory': return historyWeight(history.keyword);
+      case 'staydown': return sample.keywordSource === 'staydown' ? 1 : 0;
+    }
+    if (feature.startsWith('platform:')) return sample.platform.toLowerCase() === feature.slice(9) ? 1 : 0;
+    if (feature.startsWith('contentType:')) return sample.contentType === feature.slice(12) ? 1 : 0;
+    return 0;
+  });
+}
+
+/**
+ * Histórico de cada amostra formado só pelas decisões anteriores a ela (mesma visão da inferência)
+ */
+export function withRunningHistory(samples: LabeledSample[]): Array<{ sample: LabeledSample; history: SampleHistory }> {
+  const domains = new Map<string, HistoryStats>();
+  const keywords = new Map<string, HistoryStats>();
+  const read = (map: Map<string, HistoryStats>, key: string): HistoryStats => ({ ...(map.get(key) ?? { confirmed: 0, dismissed: 0 }) });
+  const record = (map: Map<string, HistoryStats>, key: string, label: 0 | 1) => {
+    const stats = map.get(key) ?? { confirmed: 0, dismissed: 0 };
+    if (label === 1) stats.confirmed++; else stats.dismissed++;
+    map.set(key, stats);
+  };
+
+  return [...samples]
+    .sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime())
+    .map(sample => {
+      const domain = domainOf(sample.url);
+      const keyword = sample.keywordSource?.toLowerCase() ?? '';
+      const history = {
+        domain: domain ? read(domains, domain) : { confirmed: 0, dismissed: 0 },
+        keyword: keyword ? read(keywords, keyword) : { confirmed: 0, dismissed: 0 }
+      };
+      if (domain) record(domains, domain, sample.label);
+      if (keyword) record(keywords, keyword, sample.label);
+      return { sample, history };
+    });
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+export function predictProbability(weights: number[], x: number[]): number {
+  return sigmoid(weights.reduce((sum, weight, index) => sum + weight * (x[index] ?? 0), 0));
+}
+
+/**
+ * Descida de gradiente em lote com regularização L2 (o viés não é regularizado)
+ */
+export function trainLogisticRegression(rows: number[][], labels: number[], options: TrainingOptions = {}): number[] {
+  const iterations = options.iterations ?? 500;
+  const learningRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 0.001;
+  const size = rows[0]?.length ?? 0;
+  const weights = new Array<number>(size).fill(0);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = new Array<number>(size).fill(0);
+    for (let i = 0; i < rows.length; i++) {
+      const error = predictProbability(weights, rows[i]) - labels[i];
+      for (let j = 0; j < size; j++) gradient[j] += error * rows[i][j];
+    }
+    for (let j = 0; j < size; j++) {
+      const penalty = j === 0 ? 0 : l2 * weights[j];
+      weights[j] -= learningRate * (gradient[j] / rows.length + penalty);
+    }
+  }
+
+  return weights.map(weight => Math.round(weight * 1e6) / 1e6);
+}
+
+export function classificationMetrics(predictions: boolean[], labels: number[]): ClassificationMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+
+  predictions.forEach((predicted, index) => {
+    const actual = labels[index] === 1;
+    if (predicted === actual) correct++;
+    if (predicted && actual) truePositives++;
+    if (predicted && !actual) falsePositives++;
+    if (!predicted && actual) falseNegatives++;
+  });
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  return {
+    precision: round(precision),
+    recall: round(recall),
+    accuracy: labels.length > 0 ? round(correct / labels.length) : 0,
+    f1: precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : 0,
+    support: labels.length
+  };
+}
+
+/**
+ * Treinar com as amostras mais antigas e medir nas mais recentes (validação temporal)
+ */
+export function trainCalibrationModel(samples: LabeledSample[], options: TrainingOptions = {}): TrainedCalibration {
+  const ordered = withRunningHistory(samples);
+  const holdoutSize = Math.max(1, Math.round(ordered.length * (options.holdoutRatio ?? 0.2)));
+  const training = ordered.slice(0, ordered.length - holdoutSize);
+  const holdout = ordered.slice(ordered.length - holdoutSize);
+
+  const features = buildFeatureNames(training.map(({ sample }) => sample));
+  const weights = trainLogisticRegression(
+    training.map(({ sample, history }) => featureVector(features, sample, history)),
+    training.map(({ sample }) => sample.label),
+    options
+  );
+
+  const holdoutLabels = holdout.map(({ sample }) => sample.label);
+  const modelPredictions = holdout.map(({ sample, history }) =>
+    predictProbability(weights, featureVector(features, sample, history)) >= DECISION_THRESHOLD
+  );
+  const baselinePredictions = holdout.map(({ sample }) => sample.confidence >= DECISION_THRESHOLD * 100);
+
+  return {
+    features,
+    weights,
+    metrics: {
+      threshold: DECISION_THRESHOLD,
+      model: classificationMetrics(modelPredictions, holdoutLabels),
+      baseline: classificationMetrics(baselinePredictions, holdoutLabels),
+      positiveRate: Math.round((samples.filter(sample => sample.label === 1).length / samples.length) * 1000) / 1000
+    },
+    trainingSize: training.length,
+    holdoutSize
+  };
+}
@@ -1,4 +1,4 @@
-import { GeminiClient } from '../integrations/gemini-client'
+import { llmService, TextAnalysisSchema } from '../services/llm.service'
 import { UserFeedback, FeedbackProcessor } from './feedback-processor'
 
 export interface LearningData {
@@ -100,13 +100,11 @@ export class ContinuousLearner {
   private patternAnalyzer: PatternAnalyzer;
   private feedbackProcessor: FeedbackProcessor;
   private modelOptimizer: ModelOptimizer;
-  private geminiClient: GeminiClient;
   
   constructor() {
     this.patternAnalyzer = new PatternAnalyzer();
     this.feedbackProcessor = new FeedbackProcessor();
     this.modelOptimizer = new ModelOptimizer();
-    this.geminiClient = new GeminiClient();
   }
   
   // Análise contínua de padrões emergentes
@@ -117,7 +115,7 @@ export class ContinuousLearner {
     const emergingPatterns: EmergingPattern[] = [];
     
     for (const pattern of patterns) {
-      const analysis = await this.analyzePatternWithGemini(pattern);
+      const analysis = await this.analyzePatternWithLlm(pattern);
       
       if (analysis.isSignificant && analysis.confidence > 0.7) {
         emergingPatterns.push({
@@ -135,8 +133,8 @@ export class ContinuousLearner {
     return emergingPatterns;
   }
   
-  // Análise de padrões via Gemini para insights mais profundos
-  private async analyzePatternWithGemini(pattern: DetectedPattern): Promise<PatternAnalysis> {
+  // Análise de padrões via LLM para insights mais profundos
+  private async analyzePatternWithLlm(pattern: DetectedPattern): Promise<PatternAnalysis> {
     const prompt = `
     Analise este padrão emergente detectado no sistema DMCA Guard:
     
@@ -155,9 +153,9 @@ export class ContinuousLearner {
     Foque em insights acionáveis para melhorar a detecção automática.
     `;
     
-    const result = await this.geminiClient.analyzeText(prompt);
+    const { data: result } = await llmService.generateObject(TextAnalysisSchema, prompt);
     
-    // Transformar resultado do Gemini em PatternAnalysis
+    // Transformar resultado do LLM em PatternAnalysis
     return {
       isSignificant: (result.riskScore || 0) > 70,
       confidence: result.confidence || 0.5,
@@ -241,7 +239,7 @@ export class ContinuousLearner {
     Forneça score de confiança (0-1) e justificativa detalhada.
     `;
     
-    const result = await this.geminiClient.analyzeText(prompt);
+    const { data: result } = await llmService.generateObject(TextAnalysisSchema, prompt);
     
     return {
       confidence: result.confidence || 0.5,
@@ -1,4 +1,8 @@
-import { GeminiClient } from '../integrations/gemini-client'
+import { CalibrationModel } from '@prisma/client'
+import { prisma } from '../prisma'
+import { llmService, TextAnalysisSchema } from '../services/llm.service'
+import { CalibrationError, confidenceCalibrationService } from '../services/confidence-calibration.service'
+import { CalibrationMetrics } from './confidence-calibration'
 
 export interface UserFeedback {
   sessionId: string;
@@ -83,12 +87,10 @@ export interface PriorityLevel {
 export class FeedbackProcessor {
   private feedbackAnalyzer: FeedbackAnalyzer;
   private improvementEngine: ImprovementEngine;
-  private geminiClient: GeminiClient;
   
   constructor() {
     this.feedbackAnalyzer = new FeedbackAnalyzer();
     this.improvementEngine = new ImprovementEngine();
-    this.geminiClient = new GeminiClient();
   }
   
   // Processamento de feedback de usuários
@@ -130,7 +132,7 @@ export class FeedbackProcessor {
     return patterns;
   }
   
-  // Análise de grupo de feedback via Gemini
+  // Análise de grupo de feedback via LLM
   private async analyzeFeedbackGroup(type: string, feedbacks: UserFeedback[]): Promise<FeedbackPattern> {
     const prompt = `
     Analise este grupo de feedback do sistema DMCA Guard:
@@ -151,7 +153,7 @@ export class FeedbackProcessor {
     Foque em soluções práticas e implementáveis.
     `;
     
-    const analysis = await this.geminiClient.analyzeText(prompt);
+    const { data: analysis } = await llmService.generateObject(TextAnalysisSchema, prompt);
     
     return {
       type,
@@ -181,6 +183,23 @@ export class FeedbackProcessor {
       }
     }
     
+    // Falsos positivos viram rótulos: retreinar a calibração de confiança de quem os reportou
+    const usersWithFalsePositives = new Set(
+      feedback.filter(item => item.feedbackType === 'FALSE_POSITIVE' && item.specificUrl).map(item => item.userId)
+    );
+    for (const userId of usersWithFalsePositives) {
+      const model = await this.improvementEngine.recalibrate(userId);
+      if (model) {
+        const metrics = model.metrics as unknown as CalibrationMetrics;
+        corrections.push({
+          type: 'CONFIDENCE_RECALIBRATION',
+          description: `Modelo de calibração v${model.version} treinado com ${model.trainingSize} revisões`,
+          appliedAt: model.createdAt,
+          expectedImpact: `Precisão ${metrics.model.precision} (antes ${metrics.baseline.precision}), recall ${metrics.model.recall} (antes ${metrics.baseline.recall})`
+        });
+      }
+    }
+    
     return {
       correctionsApplied: corrections.length,
       corrections,
@@ -206,10 +225,10 @@ export class FeedbackProcessor {
     Forneça correção específica e implementável.
     `;
     
-    const analysis = await this.geminiClient.analyzeText(analysisPrompt);
+    const { data: analysis } = await llmService.generateObject(TextAnalysisSchema, analysisPrompt);
     
     // Implementar correção baseada na análise
-    await this.implementFalsePositiveCorrection(feedback.specificUrl!, analysis);
+    await this.implementFalsePositiveCorrection(feedback);
     
     return {
       type: 'FALSE_POSITIVE_CORRECTION',
@@ -237,7 +256,7 @@ export class FeedbackProcessor {
     Forneça estratégia para capturar este tipo de violação no futuro.
     `;
     
-    const analysis = await this.geminiClient.analyzeText(analysisPrompt);
+    const { data: analysis } = await llmService.generateObject(TextAnalysisSchema, analysisPrompt);
     
     // Implementar melhoria na detecção
     await this.implementDetectionImprovement(feedback.specificUrl!, analysis);
@@ -297,7 +316,7 @@ export class FeedbackProcessor {
     Foque em melhorias práticas e mensuráveis.
     `;
     
-    const analysis = await this.geminiClient.analyzeText(prompt);
+    const { data: analysis } = await llmService.generateObject(TextAnalysisSchema, prompt);
     
     return {
       component: pattern.affectedComponent,
@@ -337,19 +356,28 @@ export class FeedbackProcessor {
     };
   }
   
-  // Métodos de implementação (stubs para implementação futura)
-  private async implementFalsePositiveCorrection(url: string, analysis: any): Promise<void> {
-    console.log(`Implementando correção de falso positivo para ${url}`);
-    // Implementar lógica específica
+  // Registrar o falso positivo nas detecções da URL ainda não encaminhadas, como rótulo para a calibração
+  private async implementFalsePositiveCorrection(feedback: UserFeedback): Promise<void> {
+    const now = new Date();
+    await prisma.detectedContent.updateMany({
+      where: {
+        userId: feedback.userId,
+        infringingUrl: feedback.specificUrl,
+        status: { in: ['DETECTED', 'REVIEWED'] }
+      },
+      data: { status: 'FALSE_POSITIVE', isConfirmed: false, reviewedAt: now, reviewedBy: feedback.userId }
+    });
   }
   
+  // Métodos de implementação (stub para implementação futura)
+  
   private async implementDetectionImprovement(url: string, analysis: any): Promise<void> {
     console.log(`Implementando melhoria de detecção baseada em ${url}`);
     // Implementar lógica específica
   }
 }
 
-// Classes auxiliares (stubs)
+// Classes auxiliares
 class FeedbackAnalyzer {
   async analyze(feedback: UserFeedback[]): Promise<any> {
     const averageRating = feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length;
@@ -369,5 +397,15 @@ class FeedbackAnalyzer {
 }
 
 class ImprovementEngine {
-  // Implementação futura
+  // Nova versão do modelo de calibração do usuário; sem revisões suficientes mantém a versão atual
+  async recalibrate(userId: string): Promise<CalibrationModel | null> {
+    try {
+      return await confidenceCalibrationService.train(userId);
+    } catch (error) {
+      if (error instanceof CalibrationError && error.status === 422) {
+        return null;
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,454 @@
+import { JurisdictionSource, LegalFramework, TakedownType } from '@prisma/client'
+import { DmcaTemplateLanguage, dmcaTemplates } from '@/lib/dmca-templates'
+import { TemplateVariable, validateTemplate } from '@/lib/dmca-template-engine'
+
+/**
+ * Regimes jurídicos de notificação de remoção
+ *
+ * - US_DMCA: 17 U.S.C. §512(c)(3)
+ * - EU_DSA: Regulamento (UE) 2022/2065, art. 16
+ * - BR_MARCO_CIVIL: Lei 12.965/2014, art. 19 (direitos autorais via Lei 9.610/1998) e art. 21 (conteúdo íntimo)
+ * - UK_ECOMMERCE: Electronic Commerce (EC Directive) Regulations 2002, reg. 22
+ */
+
+export type RequesterRole = 'VICTIM' | 'LEGAL_REPRESENTATIVE'
+
+export interface NoticeFields {
+  senderName?: string | null
+  senderEmail?: string | null
+  senderPhone?: string | null
+  senderAddress?: string | null
+  workDescription?: string | null
+  originalUrl?: string | null
+  infringingUrls: string[]
+  explanation?: string | null
+  affectedPersonName?: string | null
+  requesterRole?: RequesterRole | null
+}
+
+export type NoticeFieldKey = Exclude<keyof NoticeFields, 'senderPhone' | 'originalUrl'>
+
+export const NOTICE_FIELD_LABELS: Record<NoticeFieldKey, string> = {
+  senderName: 'Nome completo do notificante',
+  senderEmail: 'E-mail do notificante',
+  senderAddress: 'Endereço do notificante',
+  workDescription: 'Identificação da obra protegida',
+  infringingUrls: 'URL(s) exata(s) do conteúdo',
+  explanation: 'Justificativa da ilicitude do conteúdo',
+  affectedPersonName: 'Nome da pessoa retratada',
+  requesterRole: 'Legitimidade do solicitante (vítima ou representante legal)'
+}
+
+// Variáveis que exibem cada campo no texto; basta uma delas estar no template
+const FIELD_VARIABLES: Record<NoticeFieldKey, TemplateVariable[]> = {
+  senderName: ['userName'],
+  senderEmail: ['userEmail'],
+  senderAddress: ['userAddress'],
+  workDescription: ['contentDescription', 'contentTitle'],
+  infringingUrls: ['infringingUrl', 'infringingUrlList'],
+  explanation: ['explanation'],
+  affectedPersonName: ['affectedPersonName'],
+  requesterRole: ['requesterRole']
+}
+
+export interface NoticeText {
+  subject: string
+  body: string
+}
+
+export interface LegalFrameworkDefinition {
+  id: LegalFramework
+  name: string
+  legalBasis: Record<DmcaTemplateLanguage, string>
+  requiredFields: (takedownType: TakedownType) => NoticeFieldKey[]
+  notices: Record<DmcaTemplateLanguage, NoticeText>
+}
+
+const dsaNotices: Record<DmcaTemplateLanguage, NoticeText> = {
+  pt: {
+    subject: 'Notificação de conteúdo ilegal - Artigo 16.º do Regulamento dos Serviços Digitais (UE) 2022/2065',
+    body: `Prezado(a) {contactName},
+
+Apresento esta notificação nos termos do artigo 16.º do Regulamento (UE) 2022/2065 (Regulamento dos Serviços Digitais) relativamente a conteúdo armazenado no vosso serviço que considero ilegal.
+
+1. Localização eletrónica exata da informação (art. 16.º, n.º 2, alínea b)):
+{infringingUrlList}
+
+2. Explicação dos motivos pelos quais a informação é ilegal (art. 16.º, n.º 2, alínea a)):
+{explanation}
+{#if contentDescription}
+Obra protegida: {contentDescription}{#if originalUrl} ({originalUrl}){/if}
+{/if}
+3. Identificação do notificante (art. 16.º, n.º 2, alínea c)):
+Nome: {userName}
+E-mail: {userEmail}{#if userAddress}
+Endereço: {userAddress}{/if}{#if userPhone}
+Telefone: {userPhone}{/if}
+
+4. Declaração (art. 16.º, n.º 2, alínea d)):
+Declaro estar convicto(a), de boa-fé, de que as informações e alegações constantes desta notificação são exatas e completas.
+{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+Nos termos do artigo 16.º, n.os 4 e 5, solicito a confirmação de receção desta notificação e a comunicação da decisão tomada, com indicação das vias de recurso disponíveis.
+
+{userName}
+{currentDate}`
+  },
+  en: {
+    subject: 'Notice of illegal content - Article 16 of the Digital Services Act (EU) 2022/2065',
+    body: `Dear {contactName},
+
+I am submitting this notice under Article 16 of Regulation (EU) 2022/2065 (Digital Services Act) regarding content hosted on your service that I consider to be illegal.
+
+1. Exact electronic location of the information (Art. 16(2)(b)):
+{infringingUrlList}
+
+2. Explanation of the reasons why the information is illegal (Art. 16(2)(a)):
+{explanation}
+{#if contentDescription}
+Protected work: {contentDescription}{#if originalUrl} ({originalUrl}){/if}
+{/if}
+3. Notifier (Art. 16(2)(c)):
+Name: {userName}
+Email: {userEmail}{#if userAddress}
+Address: {userAddress}{/if}{#if userPhone}
+Phone: {userPhone}{/if}
+
+4. Statement (Art. 16(2)(d)):
+I confirm my bona fide belief that the information and allegations contained in this notice are accurate and complete.
+{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+In accordance with Article 16(4) and (5), please confirm receipt of this notice and inform me of your decision, including the available possibilities for redress.
+
+{userName}
+{currentDate}`
+  }
+}
+
+const marcoCivilNotices: Record<DmcaTemplateLanguage, NoticeText> = {
+  pt: {
+    subject: '{#if affectedPersonName}Notificação - Indisponibilização de conteúdo íntimo (art. 21 da Lei 12.965/2014){#else}Notificação extrajudicial - Remoção de conteúdo (Lei 12.965/2014 e Lei 9.610/1998){/if}',
+    body: `Prezado(a) {contactName},
+{#if affectedPersonName}
+Na qualidade de {requesterRole}, notifico-os, nos termos do art. 21 da Lei 12.965/2014 (Marco Civil da Internet), para que promovam de forma diligente a indisponibilização de imagens, vídeos ou outros materiais contendo cenas de nudez ou de atos sexuais de caráter privado de {affectedPersonName}, divulgados sem autorização.
+
+Identificação específica do material (art. 21, parágrafo único):
+{infringingUrlList}
+
+Legitimidade para o pedido (art. 21, parágrafo único):
+- Pessoa retratada: {affectedPersonName}
+- Solicitante: {userName}, {requesterRole}
+
+Declaro que a pessoa retratada não autorizou a divulgação do material. O descumprimento desta notificação sujeita o provedor à responsabilidade subsidiária prevista no art. 21.
+{#else}
+Eu, {userName}, titular dos direitos autorais sobre a obra abaixo, notifico-os para que removam o conteúdo indicado, reproduzido sem autorização em violação à Lei 9.610/1998 (Lei de Direitos Autorais), com a identificação clara e específica exigida pelo art. 19, §1º, da Lei 12.965/2014.
+
+Identificação específica do conteúdo:
+{infringingUrlList}
+
+Obra protegida:
+- Descrição: {contentDescription}{#if originalUrl}
+- Localização original: {originalUrl}{/if}
+
+Motivo da ilicitude:
+{explanation}
+
+Declaro que as informações aqui prestadas são verdadeiras e que sou titular dos direitos ou autorizado a agir em seu nome.
+{/if}{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+Dados de contato:
+Nome: {userName}
+E-mail: {userEmail}{#if userPhone}
+Telefone: {userPhone}{/if}{#if userAddress}
+Endereço: {userAddress}{/if}
+
+Atenciosamente,
+{userName}
+Data: {currentDate}`
+  },
+  en: {
+    subject: '{#if affectedPersonName}Notice - Removal of intimate content (Art. 21, Brazilian Law 12,965/2014){#else}Notice - Removal of infringing content (Brazilian Laws 12,965/2014 and 9,610/1998){/if}',
+    body: `Dear {contactName},
+{#if affectedPersonName}
+As {requesterRole}, I hereby notify you under Article 21 of Brazilian Law 12,965/2014 (Marco Civil da Internet) to diligently make unavailable images, videos or other materials containing nudity or private sexual acts of {affectedPersonName}, disclosed without authorization.
+
+Specific identification of the material (Art. 21, sole paragraph):
+{infringingUrlList}
+
+Standing to submit this request (Art. 21, sole paragraph):
+- Person depicted: {affectedPersonName}
+- Requester: {userName}, {requesterRole}
+
+I declare that the person depicted did not authorize the disclosure of this material. Failure to act on this notice makes the provider secondarily liable under Article 21.
+{#else}
+I, {userName}, copyright owner of the work described below, request the removal of the content identified here, reproduced without authorization in violation of Brazilian Law 9,610/1998 (Copyright Act), with the clear and specific identification required by Article 19, §1 of Law 12,965/2014.
+
+Specific identification of the content:
+{infringingUrlList}
+
+Protected work:
+- Description: {contentDescription}{#if originalUrl}
+- Original location: {originalUrl}{/if}
+
+Reason the content is unlawful:
+{explanation}
+
+I declare that the information in this notice is accurate and that I am the rights holder or authorized to act on their behalf.
+{/if}{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+Contact information:
+Name: {userName}
+Email: {userEmail}{#if userPhone}
+Phone: {userPhone}{/if}{#if userAddress}
+Address: {userAddress}{/if}
+
+Sincerely,
+{userName}
+Date: {currentDate}`
+  }
+}
+
+const ukNotices: Record<DmcaTemplateLanguage, NoticeText> = {
+  pt: {
+    subject: 'Notificação nos termos do Regulamento 22 das Electronic Commerce (EC Directive) Regulations 2002',
+    body: `Prezado(a) {contactName},
+
+Esta notificação é enviada nos termos dos Regulamentos 19 e 22 das Electronic Commerce (EC Directive) Regulations 2002. A partir do seu recebimento, V. Sas. têm conhecimento efetivo da atividade ilícita descrita abaixo.
+
+Nome completo e endereço do notificante (reg. 22(b)(i)):
+{userName}
+{userAddress}
+E-mail: {userEmail}{#if userPhone}
+Telefone: {userPhone}{/if}
+
+Localização da informação (reg. 22(b)(ii)):
+{infringingUrlList}
+
+Natureza ilícita da informação (reg. 22(b)(iii)):
+{explanation}{#if contentDescription}
+Obra protegida (Copyright, Designs and Patents Act 1988): {contentDescription}{#if originalUrl} ({originalUrl}){/if}{/if}
+
+Declaro que as informações desta notificação são exatas e que sou titular dos direitos ou autorizado a agir em seu nome. Solicito a remoção ou o bloqueio do acesso ao conteúdo sem demora.
+{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+Atenciosamente,
+{userName}
+Data: {currentDate}`
+  },
+  en: {
+    subject: 'Notice under Regulation 22 of the Electronic Commerce (EC Directive) Regulations 2002',
+    body: `Dear {contactName},
+
+This notice is given under Regulations 19 and 22 of the Electronic Commerce (EC Directive) Regulations 2002. Upon receipt you have actual knowledge of the unlawful activity described below.
+
+Full name and address of the sender (reg. 22(b)(i)):
+{userName}
+{userAddress}
+Email: {userEmail}{#if userPhone}
+Phone: {userPhone}{/if}
+
+Location of the information (reg. 22(b)(ii)):
+{infringingUrlList}
+
+Unlawful nature of the information (reg. 22(b)(iii)):
+{explanation}{#if contentDescription}
+Protected work (Copyright, Designs and Patents Act 1988): {contentDescription}{#if originalUrl} ({originalUrl}){/if}{/if}
+
+I confirm that the information in this notice is accurate and that I am the rights holder or authorized to act on their behalf. Please remove or disable access to the content expeditiously.
+{#if repeatInfringementReference}
+{repeatInfringementReference}
+{/if}{#if evidenceReference}
+{evidenceReference}
+{/if}{#if customMessage}
+{customMessage}
+{/if}
+Sincerely,
+{userName}
+Date: {currentDate}`
+  }
+}
+
+export const LEGAL_FRAMEWORKS: Record<LegalFramework, LegalFrameworkDefinition> = {
+  US_DMCA: {
+    id: 'US_DMCA',
+    name: 'DMCA (Estados Unidos)',
+    legalBasis: {
+      pt: '17 U.S.C. §512(c)(3) (Digital Millennium Copyright Act)',
+      en: '17 U.S.C. §512(c)(3) (Digital Millennium Copyright Act)'
+    },
+    requiredFields: () => ['senderName', 'senderEmail', 'workDescription', 'infringingUrls'],
+    notices: dmcaTemplates
+  },
+  EU_DSA: {
+    id: 'EU_DSA',
+    name: 'Regulamento dos Serviços Digitais (União Europeia)',
+    legalBasis: {
+      pt: 'Artigo 16.º do Regulamento (UE) 2022/2065',
+      en: 'Article 16 of Regulation (EU) 2022/2065'
+    },
+    requiredFields: () => ['senderName', 'senderEmail', 'infringingUrls', 'explanation'],
+    notices: dsaNotices
+  },
+  BR_MARCO_CIVIL: {
+    id: 'BR_MARCO_CIVIL',
+    name: 'Marco Civil da Internet (Brasil)',
+    legalBasis: {
+      pt: 'Lei 12.965/2014 (Marco Civil da Internet), arts. 19 e 21',
+      en: 'Brazilian Law 12,965/2014 (Marco Civil da Internet), Articles 19 and 21'
+    },
+    // Art. 21: a notificação é nula sem identificar o material e a legitimidade do pedido
+    requiredFields: (takedownType) => takedownType === 'PRIVACY_VIOLATION'
+      ? ['senderName', 'senderEmail', 'infringingUrls', 'affectedPersonName', 'requesterRole']
+      : ['senderName', 'senderEmail', 'infringingUrls', 'workDescription', 'explanation'],
+    notices: marcoCivilNotices
+  },
+  UK_ECOMMERCE: {
+    id: 'UK_ECOMMERCE',
+    name: 'Electronic Commerce Regulations 2002 (Reino Unido)',
+    legalBasis: {
+      pt: 'Electronic Commerce (EC Directive) Regulations 2002, reg. 22',
+      en: 'Electronic Commerce (EC Directive) Regulations 2002, reg. 22'
+    },
+    requiredFields: () => ['senderName', 'senderAddress', 'infringingUrls', 'explanation'],
+    notices: ukNotices
+  }
+}
+
+const EU_MEMBER_STATES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK'
+]
+
+/**
+ * País indicado pelo TLD (ccTLD); null para TLDs genéricos
+ */
+export function countryFromHostname(hostname: string): string | null {
+  const tld = hostname.toLowerCase().replace(/\.$/, '').split('.').pop() ?? ''
+  if (tld === 'uk') return 'GB'
+  if (tld === 'eu') return 'EU'
+  return /^[a-z]{2}$/.test(tld) ? tld.toUpperCase() : null
+}
+
+/**
+ * Regime aplicável a um país; null quando não há regime específico
+ */
+export function frameworkForCountry(country: string | null | undefined): LegalFramework | null {
+  if (!country) return null
+  const code = country.toUpperCase()
+  if (code === 'US') return 'US_DMCA'
+  if (code === 'BR') return 'BR_MARCO_CIVIL'
+  if (code === 'GB' || code === 'UK') return 'UK_ECOMMERCE'
+  if (code === 'EU' || EU_MEMBER_STATES.includes(code)) return 'EU_DSA'
+  return null
+}
+
+export interface JurisdictionResult {
+  framework: LegalFramework
+  country: string | null
+  source: JurisdictionSource
+}
+
+/**
+ * Escolher o regime: escolha manual, depois ccTLD, depois país da hospedagem; DMCA como padrão
+ *
+ * O ccTLD vem antes da hospedagem porque sites atrás de CDN resolvem para o país da CDN.
+ */
+export function detectJurisdiction(
+  url: string,
+  options: { hostingCountry?: string | null; override?: LegalFramework | null } = {}
+): JurisdictionResult {
+  let hostname = url
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    // Domínio informado sem esquema
+  }
+
+  const tldCountry = countryFromHostname(hostname)
+  const hostingCountry = options.hostingCountry?.toUpperCase() || null
+
+  if (options.override) {
+    return { framework: options.override, country: tldCountry ?? hostingCountry, source: 'MANUAL' }
+  }
+
+  const tldFramework = frameworkForCountry(tldCountry)
+  if (tldFramework) {
+    return { framework: tldFramework, country: tldCountry, source: 'TLD' }
+  }
+
+  const hostingFramework = frameworkForCountry(hostingCountry)
+  if (hostingFramework) {
+    return { framework: hostingFramework, country: hostingCountry, source: 'HOSTING_COUNTRY' }
+  }
+
+  return { framework: 'US_DMCA', country: tldCountry ?? hostingCountry, source: 'DEFAULT' }
+}
+
+export interface NoticeFieldsValidation {
+  valid: boolean
+  missing: NoticeFieldKey[]
+  errors: string[]
+}
+
+function hasField(fields: NoticeFields, key: NoticeFieldKey): boolean {
+  const value = fields[key]
+  if (Array.isArray(value)) return value.length > 0
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+/**
+ * Verificar se a notificação tem todos os elementos exigidos pelo regime
+ */
+export function validateNoticeFields(
+  framework: LegalFramework,
+  takedownType: TakedownType,
+  fields: NoticeFields
+): NoticeFieldsValidation {
+  const missing = LEGAL_FRAMEWORKS[framework].requiredFields(takedownType).filter(key => !hasField(fields, key))
+  return {
+    valid: missing.length === 0,
+    missing,
+    errors: missing.map(key => `${NOTICE_FIELD_LABELS[key]} é obrigatório(a) em ${LEGAL_FRAMEWORKS[framework].name}`)
+  }
+}
+
+/**
+ * Verificar se um template exibe todos os campos obrigatórios do regime
+ */
+export function validateTemplateForFramework(
+  framework: LegalFramework,
+  takedownType: TakedownType,
+  subject: string,
+  body: string
+): string[] {
+  const used = new Set([...validateTemplate(subject).variables, ...validateTemplate(body).variables])
+
+  return LEGAL_FRAMEWORKS[framework].requiredFields(takedownType)
+    .filter(key => !FIELD_VARIABLES[key].some(variable => used.has(variable)))
+    .map(key => `${NOTICE_FIELD_LABELS[key]} precisa constar no template (use {${FIELD_VARIABLES[key].join('} ou {')}})`)
+}
@@ -1,4 +1,4 @@
-import { GeminiClient } from '../integrations/gemini-client'
+import { llmService } from '../services/llm.service'
 
 export interface PromptPerformance {
   promptId: string;
@@ -47,11 +47,9 @@ export interface PerformanceMetrics {
 }
 
 export class PromptOptimizer {
-  private geminiClient: GeminiClient;
   private performanceTracker: PerformanceTracker;
   
   constructor() {
-    this.geminiClient = new GeminiClient();
     this.performanceTracker = new PerformanceTracker();
   }
   
@@ -112,7 +110,7 @@ export class PromptOptimizer {
     Retorne apenas o prompt otimizado, sem explicações adicionais.
     `;
     
-    const optimizedText = await this.geminiClient.generateText(optimizationPrompt);
+    const { text: optimizedText } = await llmService.generateText(optimizationPrompt);
     
     return {
       text: optimizedText,
@@ -15,7 +15,8 @@ export const plans = {
       brandProfiles: 5,
       monitoringSessions: 3,
       takedownsPerMonth: 10,
-      scanFrequency: 1 // 1 semana em horas
+      scanFrequency: 168, // 1 semana em horas
+      llmTokensPerMonth: 50000
     }
   },
   BASIC: {
@@ -34,7 +35,8 @@ export const plans = {
       brandProfiles: 15,
       monitoringSessions: 10,
       takedownsPerMonth: 50,
-      scanFrequency: 24 // 1 dia em horas
+      scanFrequency: 24, // 1 dia em horas
+      llmTokensPerMonth: 250000
     }
   },
   PREMIUM: {
@@ -54,7 +56,8 @@ export const plans = {
       brandProfiles: -1, // ilimitado
       monitoringSessions: -1,
       takedownsPerMonth: -1,
-      scanFrequency: 1 // 1 hora
+      scanFrequency: 1, // 1 hora
+      llmTokensPerMonth: 1000000
     }
   },
   ENTERPRISE: {
@@ -73,7 +76,8 @@ export const plans = {
       brandProfiles: -1,
       monitoringSessions: -1,
       takedownsPerMonth: -1,
-      scanFrequency: 1
+      scanFrequency: 1,
+      llmTokensPerMonth: -1
     }
   },
   SUPER_USER: {
@@ -90,7 +94,8 @@ export const plans = {
       brandProfiles: -1,
       monitoringSessions: -1,
       takedownsPerMonth: -1,
-      scanFrequency: 1
+      scanFrequency: 1,
+      llmTokensPerMonth: -1
     }
   }
 }
@@ -119,6 +124,8 @@ export function canPerformAction(
       return limits.monitoringSessions === -1 || currentUsage < limits.monitoringSessions
     case 'sendTakedown':
       return limits.takedownsPerMonth === -1 || currentUsage < limits.takedownsPerMonth
+    case 'llmTokens':
+      return limits.llmTokensPerMonth === -1 || currentUsage < limits.llmTokensPerMonth
     case 'dmcaContactDetection':
       // DMCA contact detection limits per month
       const dmcaLimits = {
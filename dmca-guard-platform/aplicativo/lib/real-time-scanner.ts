@@ -3,6 +3,11 @@ import { dmcaContactDetector } from './dmca-contact-detector'
 import { prisma } from './prisma'
 import { emitToRoom } from './socket-server'
 import SearchEngineService from './search-engines'
+import { contentFingerprintService } from './services/content-fingerprint.service'
+import { referenceImageService } from './services/reference-image.service'
+import { referenceVideoService } from './services/reference-video.service'
+import { contentClusterService } from './services/content-cluster.service'
+import { confidenceCalibrationService } from './services/confidence-calibration.service'
 
 export interface ScanProgress {
   scanId: string
@@ -266,7 +271,7 @@ class RealTimeScanner extends EventEmitter {
                 })
                 
                 if (!existing && result.confidence >= 50) {
-                  await prisma.detectedContent.create({
+                  const detected = await prisma.detectedContent.create({
                     data: {
                       user: { connect: { id: profile.userId } },
                       brandProfile: { connect: { id: profile.id } },
@@ -282,6 +287,11 @@ class RealTimeScanner extends EventEmitter {
                       detectedAt: result.detectedAt || new Date()
                     }
                   })
+                  contentFingerprintService.enqueueCapture(detected.id)
+                  referenceImageService.enqueueMatch(detected.id)
+                  referenceVideoService.enqueueMatch(detected.id)
+                  contentClusterService.enqueueFingerprint(detected.id)
+                  confidenceCalibrationService.enqueueCalibration(detected.id)
                 }
               } catch (error) {
                 console.error(`Error saving result: ${error}`)
@@ -450,7 +460,7 @@ class RealTimeScanner extends EventEmitter {
                   })
                   
                   if (!existing) {
-                    await prisma.detectedContent.create({
+                    const detected = await prisma.detectedContent.create({
                       data: {
                         user: { connect: { id: profile.userId } },
                         brandProfile: { connect: { id: profile.id } },
@@ -466,6 +476,11 @@ class RealTimeScanner extends EventEmitter {
                         detectedAt: new Date()
                       }
                     })
+                    contentFingerprintService.enqueueCapture(detected.id)
+                    referenceImageService.enqueueMatch(detected.id)
+                    referenceVideoService.enqueueMatch(detected.id)
+                    contentClusterService.enqueueFingerprint(detected.id)
+                    confidenceCalibrationService.enqueueCalibration(detected.id)
                   }
                 } catch (error) {
                   console.error(`Error saving result from ${site}:`, error)
@@ -0,0 +1,121 @@
+import { emailOutboxService, EmailOutboxService, OutboxCycleResult } from '@/lib/services/email-outbox.service'
+
+export class EmailOutboxScheduler {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isCycleRunning = false
+  private lastCycle: OutboxCycleResult | null = null
+
+  constructor(private readonly outbox: EmailOutboxService = emailOutboxService) {}
+
+  /**
+   * Iniciar agendamento automático
+   */
+  start(intervalSeconds: number = 30) {
+    if (this.isRunning) {
+      console.log('⚠️ Dispatcher do outbox de e-mails já está em execução')
+      return
+    }
+
+    console.log(`🚀 Iniciando dispatcher do outbox de e-mails (intervalo: ${intervalSeconds}s)`)
+
+    this.isRunning = true
+    this.runCycle()
+
+    this.intervalId = setInterval(() => {
+      this.runCycle()
+    }, intervalSeconds * 1000)
+  }
+
+  /**
+   * Parar agendamento
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.isRunning = false
+    console.log('🛑 Dispatcher do outbox de e-mails parado')
+  }
+
+  /**
+   * Entregar os e-mails vencidos do outbox
+   */
+  async runCycle(now: Date = new Date()): Promise<OutboxCycleResult | null> {
+    if (this.isCycleRunning) {
+      console.log('⚠️ Ciclo anterior do outbox ainda em andamento, ignorando')
+      return null
+    }
+
+    this.isCycleRunning = true
+    try {
+      const result = await this.outbox.processDue(now)
+      this.lastCycle = result
+
+      if (result.processed > 0 || result.throttled > 0 || result.stalled > 0) {
+        console.log(
+          `✉️ Outbox: ${result.sent} enviados, ${result.retried} reagendados, ` +
+          `${result.dead} descartados, ${result.throttled} limitados por domínio, ` +
+          `${result.stalled} para revisão`
+        )
+      }
+
+      return result
+    } catch (error) {
+      console.error('❌ Erro durante ciclo do outbox de e-mails:', error)
+      return null
+    } finally {
+      this.isCycleRunning = false
+    }
+  }
+
+  /**
+   * Obter status do scheduler
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isCycleRunning: this.isCycleRunning,
+      lastCycle: this.lastCycle
+    }
+  }
+}
+
+// Instância singleton do scheduler
+let schedulerInstance: EmailOutboxScheduler | null = null
+
+/**
+ * Obter instância do scheduler (singleton)
+ */
+export function getEmailOutboxScheduler(): EmailOutboxScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new EmailOutboxScheduler()
+  }
+  return schedulerInstance
+}
+
+/**
+ * Configurar e iniciar scheduler se variável de ambiente estiver definida
+ */
+export function initializeEmailOutboxSchedulerFromEnv() {
+  if (process.env.ENABLE_EMAIL_OUTBOX_DISPATCHER === 'true') {
+    const intervalSeconds = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_SECONDS || '30')
+    getEmailOutboxScheduler().start(intervalSeconds)
+
+    console.log(`🚀 Dispatcher do outbox de e-mails iniciado automaticamente (${intervalSeconds}s)`)
+  }
+}
+
+// Cleanup quando o processo terminar
+process.on('SIGINT', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
+
+process.on('SIGTERM', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
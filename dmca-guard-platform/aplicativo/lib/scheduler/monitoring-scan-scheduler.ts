@@ -0,0 +1,382 @@
+import { PlanType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getPlanLimits } from '@/lib/plans'
+import { fairQueueManager } from '@/lib/services/security/fair-queue-manager'
+
+const HOUR_MS = 60 * 60 * 1000
+const SCHEDULER_SESSION_ID = 'monitoring_scan_scheduler'
+
+export type ScheduledRunAction = 'ENQUEUE' | 'SKIP'
+
+export type ScheduledRunSkipReason =
+  | 'PLAN_MIN_FREQUENCY'
+  | 'ALREADY_RUNNING'
+  | 'PAUSED'
+
+export interface ScheduledRunDecision {
+  action: ScheduledRunAction
+  reason?: ScheduledRunSkipReason
+  effectiveFrequency: number // horas
+  missedRuns: number
+  nextScanAt: Date
+}
+
+export interface SchedulableSession {
+  status: string
+  scanFrequency: number
+  lastScanAt: Date | null
+  nextScanAt: Date | null
+}
+
+export interface SchedulerCycleResult {
+  dueSessions: number
+  enqueued: number
+  queued: number
+  skipped: number
+  missedRuns: number
+  errors: number
+  duration: number
+}
+
+/**
+ * Frequência efetiva de uma sessão: nunca menor que o mínimo do plano
+ */
+export function getEffectiveScanFrequency(scanFrequency: number, planType: PlanType | string): number {
+  const planMinimum = getPlanLimits(planType).scanFrequency
+  return Math.max(scanFrequency || planMinimum, planMinimum)
+}
+
+/**
+ * Decide o que fazer com uma sessão cujo nextScanAt já passou
+ */
+export function planScheduledRun(
+  session: SchedulableSession,
+  planType: PlanType | string,
+  now: Date = new Date()
+): ScheduledRunDecision {
+  const effectiveFrequency = getEffectiveScanFrequency(session.scanFrequency, planType)
+  const frequencyMs = effectiveFrequency * HOUR_MS
+  const dueAt = session.nextScanAt ?? now
+
+  // Execuções que deveriam ter acontecido entre o nextScanAt e agora
+  const overdueMs = now.getTime() - dueAt.getTime()
+  const missedRuns = overdueMs >= frequencyMs ? Math.floor(overdueMs / frequencyMs) : 0
+
+  if (session.status === 'RUNNING') {
+    return {
+      action: 'SKIP',
+      reason: 'ALREADY_RUNNING',
+      effectiveFrequency,
+      missedRuns,
+      nextScanAt: new Date(now.getTime() + frequencyMs)
+    }
+  }
+
+  if (session.status === 'PAUSED') {
+    return {
+      action: 'SKIP',
+      reason: 'PAUSED',
+      effectiveFrequency,
+      missedRuns,
+      nextScanAt: new Date(now.getTime() + frequencyMs)
+    }
+  }
+
+  // Scan manual recente ou frequência abaixo do mínimo do plano
+  if (session.lastScanAt) {
+    const earliestAllowed = session.lastScanAt.getTime() + frequencyMs
+    if (earliestAllowed > now.getTime()) {
+      return {
+        action: 'SKIP',
+        reason: 'PLAN_MIN_FREQUENCY',
+        effectiveFrequency,
+        missedRuns: 0,
+        nextScanAt: new Date(earliestAllowed)
+      }
+    }
+  }
+
+  return {
+    action: 'ENQUEUE',
+    effectiveFrequency,
+    missedRuns,
+    nextScanAt: new Date(now.getTime() + frequencyMs)
+  }
+}
+
+export class MonitoringScanScheduler {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isCycleRunning = false
+  private lastCycle: SchedulerCycleResult | null = null
+
+  /**
+   * Iniciar agendamento automático
+   */
+  start(intervalMinutes: number = 5) {
+    if (this.isRunning) {
+      console.log('⚠️ Scheduler de monitoramento já está em execução')
+      return
+    }
+
+    console.log(`🚀 Iniciando scheduler de scans recorrentes (intervalo: ${intervalMinutes}min)`)
+
+    this.isRunning = true
+
+    // Executar imediatamente
+    this.runDueScans()
+
+    // Agendar execuções futuras
+    this.intervalId = setInterval(() => {
+      this.runDueScans()
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  /**
+   * Parar agendamento
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.isRunning = false
+    console.log('🛑 Scheduler de scans recorrentes parado')
+  }
+
+  /**
+   * Enfileirar todas as sessões ativas com nextScanAt vencido
+   */
+  async runDueScans(now: Date = new Date()): Promise<SchedulerCycleResult> {
+    const result: SchedulerCycleResult = {
+      dueSessions: 0,
+      enqueued: 0,
+      queued: 0,
+      skipped: 0,
+      missedRuns: 0,
+      errors: 0,
+      duration: 0
+    }
+
+    if (this.isCycleRunning) {
+      console.log('⚠️ Ciclo anterior do scheduler ainda em andamento, ignorando')
+      return result
+    }
+
+    this.isCycleRunning = true
+    const startTime = Date.now()
+
+    try {
+      const dueSessions = await prisma.monitoringSession.findMany({
+        where: {
+          isActive: true,
+          nextScanAt: { lte: now },
+          user: { status: 'ACTIVE' },
+          brandProfile: { isActive: true }
+        },
+        include: {
+          user: { select: { planType: true } }
+        },
+        orderBy: { nextScanAt: 'asc' }
+      })
+
+      result.dueSessions = dueSessions.length
+
+      if (dueSessions.length === 0) {
+        return result
+      }
+
+      const knownSites = await prisma.knownSite.findMany({
+        where: { isActive: true },
+        select: { id: true }
+      })
+      const siteIds = knownSites.map(site => site.id)
+
+      for (const session of dueSessions) {
+        try {
+          const decision = planScheduledRun(session, session.user.planType, now)
+
+          // Reivindicar a execução: outra instância pode ter avançado o nextScanAt
+          const claimed = await prisma.monitoringSession.updateMany({
+            where: { id: session.id, nextScanAt: session.nextScanAt },
+            data: decision.action === 'ENQUEUE'
+              ? { nextScanAt: decision.nextScanAt, lastScanAt: now }
+              : { nextScanAt: decision.nextScanAt }
+          })
+
+          if (claimed.count === 0) {
+            continue
+          }
+
+          if (decision.missedRuns > 0) {
+            result.missedRuns += decision.missedRuns
+            await this.logRunEvent('SCHEDULED_SCAN_MISSED', session.id, {
+              userId: session.userId,
+              missedRuns: decision.missedRuns,
+              dueAt: session.nextScanAt?.toISOString(),
+              effectiveFrequency: decision.effectiveFrequency
+            })
+          }
+
+          if (decision.action === 'SKIP') {
+            result.skipped++
+            await this.logRunEvent('SCHEDULED_SCAN_SKIPPED', session.id, {
+              userId: session.userId,
+              reason: decision.reason,
+              dueAt: session.nextScanAt?.toISOString(),
+              nextScanAt: decision.nextScanAt.toISOString(),
+              effectiveFrequency: decision.effectiveFrequency
+            })
+            continue
+          }
+
+          const queueResponse = await fairQueueManager.enqueueScan({
+            userId: session.userId,
+            userPlan: session.user.planType,
+            siteIds,
+            metadata: {
+              brandProfileId: session.brandProfileId,
+              monitoringSessionId: session.id,
+              source: 'scheduler'
+            }
+          })
+
+          result.enqueued++
+          if (queueResponse.status === 'QUEUED') {
+            result.queued++
+          }
+
+          await this.logRunEvent('SCHEDULED_SCAN_ENQUEUED', session.id, {
+            userId: session.userId,
+            queueStatus: queueResponse.status,
+            queueId: queueResponse.queueId,
+            position: queueResponse.position,
+            nextScanAt: decision.nextScanAt.toISOString(),
+            effectiveFrequency: decision.effectiveFrequency
+          })
+        } catch (error) {
+          result.errors++
+          console.error(`❌ Erro ao agendar scan da sessão ${session.id}:`, error)
+          await this.logRunEvent('SCHEDULER_ERROR', SCHEDULER_SESSION_ID, {
+            monitoringSessionId: session.id,
+            error: (error as Error).message
+          })
+        }
+      }
+
+      console.log(
+        `✅ Scheduler de monitoramento: ${result.enqueued} enfileirados, ` +
+        `${result.skipped} ignorados, ${result.missedRuns} execuções perdidas`
+      )
+
+      return result
+    } catch (error) {
+      result.errors++
+      console.error('❌ Erro durante ciclo do scheduler de monitoramento:', error)
+      await this.logRunEvent('SCHEDULER_ERROR', SCHEDULER_SESSION_ID, {
+        error: (error as Error).message,
+        stack: (error as Error).stack
+      })
+      return result
+    } finally {
+      result.duration = Date.now() - startTime
+      this.lastCycle = result
+      this.isCycleRunning = false
+      await this.logSchedulerMetrics(result)
+    }
+  }
+
+  /**
+   * Registrar evento de execução (enfileirada, ignorada ou perdida)
+   */
+  private async logRunEvent(type: string, sessionId: string, data: Record<string, any>) {
+    try {
+      await prisma.agentEvent.create({
+        data: {
+          type,
+          sessionId,
+          timestamp: new Date(),
+          data: {
+            ...data,
+            source: SCHEDULER_SESSION_ID
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Erro ao registrar evento do scheduler de monitoramento:', error)
+    }
+  }
+
+  /**
+   * Registrar métricas do ciclo
+   */
+  private async logSchedulerMetrics(result: SchedulerCycleResult) {
+    if (result.dueSessions === 0 && result.errors === 0) return
+
+    try {
+      await prisma.agentMetric.create({
+        data: {
+          agentType: 'MONITORING_SCHEDULER',
+          metricType: 'PERFORMANCE',
+          name: 'scheduler_cycle_duration',
+          value: result.duration,
+          unit: 'milliseconds',
+          timestamp: new Date(),
+          metadata: { ...result }
+        }
+      })
+    } catch (error) {
+      console.error('Erro ao registrar métricas do scheduler de monitoramento:', error)
+    }
+  }
+
+  /**
+   * Obter status do scheduler
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isCycleRunning: this.isCycleRunning,
+      lastCycle: this.lastCycle
+    }
+  }
+}
+
+// Instância singleton do scheduler
+let schedulerInstance: MonitoringScanScheduler | null = null
+
+/**
+ * Obter instância do scheduler (singleton)
+ */
+export function getMonitoringScanScheduler(): MonitoringScanScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new MonitoringScanScheduler()
+  }
+  return schedulerInstance
+}
+
+/**
+ * Configurar e iniciar scheduler se variável de ambiente estiver definida
+ */
+export function initializeMonitoringSchedulerFromEnv() {
+  if (process.env.ENABLE_MONITORING_SCAN_SCHEDULER === 'true') {
+    const intervalMinutes = parseInt(process.env.MONITORING_SCHEDULER_INTERVAL_MINUTES || '5')
+    const scheduler = getMonitoringScanScheduler()
+    scheduler.start(intervalMinutes)
+
+    console.log(`🚀 Scheduler de scans recorrentes iniciado automaticamente (${intervalMinutes}min)`)
+  }
+}
+
+// Cleanup quando o processo terminar
+process.on('SIGINT', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
+
+process.on('SIGTERM', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
@@ -0,0 +1,120 @@
+import { staydownService, StaydownService, StaydownCycleResult } from '@/lib/services/staydown.service'
+
+export class StaydownScheduler {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isCycleRunning = false
+  private lastCycle: StaydownCycleResult | null = null
+
+  constructor(private readonly staydown: StaydownService = staydownService) {}
+
+  /**
+   * Iniciar agendamento automático
+   */
+  start(intervalMinutes: number = 60) {
+    if (this.isRunning) {
+      console.log('⚠️ Scheduler de staydown já está em execução')
+      return
+    }
+
+    console.log(`🚀 Iniciando scheduler de staydown (intervalo: ${intervalMinutes}min)`)
+
+    this.isRunning = true
+    this.runCycle()
+
+    this.intervalId = setInterval(() => {
+      this.runCycle()
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  /**
+   * Parar agendamento
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.isRunning = false
+    console.log('🛑 Scheduler de staydown parado')
+  }
+
+  /**
+   * Procurar republicações dos conteúdos removidos com varredura vencida
+   */
+  async runCycle(now: Date = new Date()): Promise<StaydownCycleResult | null> {
+    if (this.isCycleRunning) {
+      console.log('⚠️ Ciclo anterior de staydown ainda em andamento, ignorando')
+      return null
+    }
+
+    this.isCycleRunning = true
+    try {
+      const result = await this.staydown.scanDue(now)
+      this.lastCycle = result
+
+      if (result.scanned > 0 || result.failed > 0) {
+        console.log(
+          `🔁 Staydown: ${result.scanned} conteúdos verificados, ${result.reuploads} republicações, ` +
+          `${result.failed} falhas, ${result.expired} vigilâncias encerradas`
+        )
+      }
+
+      return result
+    } catch (error) {
+      console.error('❌ Erro durante ciclo de staydown:', error)
+      return null
+    } finally {
+      this.isCycleRunning = false
+    }
+  }
+
+  /**
+   * Obter status do scheduler
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isCycleRunning: this.isCycleRunning,
+      lastCycle: this.lastCycle
+    }
+  }
+}
+
+// Instância singleton do scheduler
+let schedulerInstance: StaydownScheduler | null = null
+
+/**
+ * Obter instância do scheduler (singleton)
+ */
+export function getStaydownScheduler(): StaydownScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new StaydownScheduler()
+  }
+  return schedulerInstance
+}
+
+/**
+ * Configurar e iniciar scheduler se variável de ambiente estiver definida
+ */
+export function initializeStaydownSchedulerFromEnv() {
+  if (process.env.ENABLE_STAYDOWN_SCHEDULER === 'true') {
+    const intervalMinutes = parseInt(process.env.STAYDOWN_SCHEDULER_INTERVAL_MINUTES || '60')
+    getStaydownScheduler().start(intervalMinutes)
+
+    console.log(`🚀 Scheduler de staydown iniciado automaticamente (${intervalMinutes}min)`)
+  }
+}
+
+// Cleanup quando o processo terminar
+process.on('SIGINT', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
+
+process.on('SIGTERM', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
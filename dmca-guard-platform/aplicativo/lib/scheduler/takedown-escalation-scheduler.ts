@@ -0,0 +1,623 @@
+import { DmcaContactInfo, TakedownStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { abuseContactResolver } from '@/lib/abuse-contact-resolver'
+import { sendTakedownEmail, TakedownEmailSender } from '@/lib/services/takedown-mailer'
+import { sendTrackedTakedownEmail } from '@/lib/services/takedown-correspondence.service'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Camadas de contato, na ordem em que são acionadas
+ */
+export const ESCALATION_TIERS = [
+  'PRIMARY',
+  'ADDITIONAL_EMAILS',
+  'HOSTING_ABUSE',
+  'REGISTRAR'
+] as const
+
+export type EscalationTierName = typeof ESCALATION_TIERS[number]
+
+const LAST_TIER = ESCALATION_TIERS.length - 1
+
+export interface EscalationPolicy {
+  followUpAfterDays: number   // N: dias sem resposta até o follow-up
+  escalateAfterDays: number   // M: dias sem resposta até a próxima camada
+  activeStatuses: TakedownStatus[]
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  followUpAfterDays: 7,
+  escalateAfterDays: 14,
+  activeStatuses: ['SENT']
+}
+
+export type EscalationAction = 'NONE' | 'FOLLOW_UP' | 'ESCALATE' | 'EXHAUSTED'
+
+export interface EscalationDecision {
+  action: EscalationAction
+  daysSinceContact: number
+}
+
+export interface EscalationState {
+  status: TakedownStatus | string
+  sentAt: Date | null
+  escalationTier: number
+  tierContactedAt: Date | null
+  followUpSentAt: Date | null
+  escalationStoppedAt: Date | null
+}
+
+/**
+ * Resolve contatos de abuso da hospedagem e do registrar de um domínio
+ */
+export interface EscalationContactResolver {
+  findHostingAbuseContacts(domain: string): Promise<string[]>
+  findRegistrarAbuseContacts(domain: string): Promise<string[]>
+}
+
+export interface EscalationCycleResult {
+  candidates: number
+  followUps: number
+  escalations: number
+  exhausted: number
+  sendFailures: number
+  errors: number
+  duration: number
+}
+
+type EscalatableTakedown = EscalationState & {
+  id: string
+  userId: string
+  subject: string
+  message: string
+  trackingToken?: string | null
+  user?: { email: string } | null
+  detectedContent: {
+    title: string
+    infringingUrl: string
+    dmcaContactInfo: DmcaContactInfo | null
+  }
+}
+
+/**
+ * Política a partir das variáveis de ambiente
+ */
+export function getEscalationPolicyFromEnv(): EscalationPolicy {
+  const followUpAfterDays = parseInt(process.env.TAKEDOWN_FOLLOW_UP_DAYS || '') || DEFAULT_ESCALATION_POLICY.followUpAfterDays
+  const escalateAfterDays = parseInt(process.env.TAKEDOWN_ESCALATION_DAYS || '') || DEFAULT_ESCALATION_POLICY.escalateAfterDays
+
+  return {
+    ...DEFAULT_ESCALATION_POLICY,
+    followUpAfterDays,
+    escalateAfterDays: Math.max(escalateAfterDays, followUpAfterDays)
+  }
+}
+
+/**
+ * Decide o próximo passo da cadeia para um takedown sem resposta
+ */
+export function planEscalationStep(
+  state: EscalationState,
+  policy: EscalationPolicy,
+  now: Date = new Date()
+): EscalationDecision {
+  const contactedAt = state.tierContactedAt ?? state.sentAt
+
+  if (
+    state.escalationStoppedAt ||
+    !contactedAt ||
+    !policy.activeStatuses.includes(state.status as TakedownStatus)
+  ) {
+    return { action: 'NONE', daysSinceContact: 0 }
+  }
+
+  const daysSinceContact = (now.getTime() - contactedAt.getTime()) / DAY_MS
+
+  if (daysSinceContact >= policy.escalateAfterDays) {
+    return {
+      action: state.escalationTier >= LAST_TIER ? 'EXHAUSTED' : 'ESCALATE',
+      daysSinceContact
+    }
+  }
+
+  if (daysSinceContact >= policy.followUpAfterDays && !state.followUpSentAt) {
+    return { action: 'FOLLOW_UP', daysSinceContact }
+  }
+
+  return { action: 'NONE', daysSinceContact }
+}
+
+export class TakedownEscalationScheduler {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private isCycleRunning = false
+  private lastCycle: EscalationCycleResult | null = null
+
+  constructor(
+    private readonly policy: EscalationPolicy = getEscalationPolicyFromEnv(),
+    private readonly contactResolver: EscalationContactResolver = abuseContactResolver,
+    private readonly sendEmail: TakedownEmailSender = sendTakedownEmail
+  ) {}
+
+  /**
+   * Iniciar agendamento automático
+   */
+  start(intervalMinutes: number = 60) {
+    if (this.isRunning) {
+      console.log('⚠️ Scheduler de escalonamento já está em execução')
+      return
+    }
+
+    console.log(`🚀 Iniciando scheduler de escalonamento de takedowns (intervalo: ${intervalMinutes}min)`)
+
+    this.isRunning = true
+
+    // Executar imediatamente
+    this.runEscalations()
+
+    // Agendar execuções futuras
+    this.intervalId = setInterval(() => {
+      this.runEscalations()
+    }, intervalMinutes * 60 * 1000)
+  }
+
+  /**
+   * Parar agendamento
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.isRunning = false
+    console.log('🛑 Scheduler de escalonamento de takedowns parado')
+  }
+
+  /**
+   * Enviar follow-ups e escalonar takedowns sem resposta
+   */
+  async runEscalations(now: Date = new Date()): Promise<EscalationCycleResult> {
+    const result: EscalationCycleResult = {
+      candidates: 0,
+      followUps: 0,
+      escalations: 0,
+      exhausted: 0,
+      sendFailures: 0,
+      errors: 0,
+      duration: 0
+    }
+
+    if (this.isCycleRunning) {
+      console.log('⚠️ Ciclo anterior de escalonamento ainda em andamento, ignorando')
+      return result
+    }
+
+    this.isCycleRunning = true
+    const startTime = Date.now()
+
+    try {
+      const takedowns = await prisma.takedownRequest.findMany({
+        where: {
+          status: { in: this.policy.activeStatuses },
+          sentAt: { not: null },
+          escalationStoppedAt: null
+        },
+        include: {
+          detectedContent: {
+            include: { dmcaContactInfo: true }
+          },
+          user: { select: { email: true } }
+        },
+        orderBy: { sentAt: 'asc' }
+      })
+
+      for (const takedown of takedowns) {
+        const decision = planEscalationStep(takedown, this.policy, now)
+        if (decision.action === 'NONE') continue
+
+        result.candidates++
+
+        try {
+          switch (decision.action) {
+            case 'FOLLOW_UP':
+              await this.sendFollowUp(takedown, now, result)
+              break
+            case 'ESCALATE':
+              await this.escalate(takedown, now, result)
+              break
+            case 'EXHAUSTED':
+              await this.markExhausted(takedown, now, result)
+              break
+          }
+        } catch (error) {
+          result.errors++
+          console.error(`❌ Erro ao escalonar takedown ${takedown.id}:`, error)
+        }
+      }
+
+      if (result.candidates > 0) {
+        console.log(
+          `✅ Escalonamento de takedowns: ${result.followUps} follow-ups, ` +
+          `${result.escalations} escalonamentos, ${result.exhausted} cadeias esgotadas`
+        )
+      }
+
+      return result
+    } catch (error) {
+      result.errors++
+      console.error('❌ Erro durante ciclo de escalonamento de takedowns:', error)
+      return result
+    } finally {
+      result.duration = Date.now() - startTime
+      this.lastCycle = result
+      this.isCycleRunning = false
+      await this.logCycleMetrics(result)
+    }
+  }
+
+  /**
+   * Reenviar a notificação para a camada atual
+   */
+  private async sendFollowUp(takedown: EscalatableTakedown, now: Date, result: EscalationCycleResult) {
+    const tier = takedown.escalationTier
+    const recipients = await this.resolveTierContacts(takedown, tier)
+
+    if (recipients.length === 0) {
+      // Contato da camada atual não existe mais; seguir direto para a próxima
+      await this.escalate(takedown, now, result)
+      return
+    }
+
+    // Reivindicar o passo: outra instância pode ter enviado o follow-up
+    const claimed = await prisma.takedownRequest.updateMany({
+      where: { id: takedown.id, escalationTier: tier, followUpSentAt: null, escalationStoppedAt: null },
+      data: { followUpSentAt: now }
+    })
+    if (claimed.count === 0) return
+
+    try {
+      const email = buildFollowUpEmail(takedown)
+      const sent = await sendTrackedTakedownEmail(
+        takedown,
+        {
+          to: recipients,
+          replyTo: takedown.user?.email,
+          category: 'TAKEDOWN_FOLLOW_UP',
+          idempotencyKey: `takedown:${takedown.id}:follow-up:${tier}:${(takedown.tierContactedAt ?? takedown.sentAt)?.getTime()}`,
+          ...email
+        },
+        this.sendEmail
+      )
+
+      result.followUps++
+      await recordTimelineEvent(takedown.id, 'FOLLOW_UP_SENT', {
+        tier,
+        recipients,
+        message: email.subject,
+        metadata: { tierName: ESCALATION_TIERS[tier], emailId: sent.id }
+      })
+    } catch (error) {
+      result.sendFailures++
+      await prisma.takedownRequest.updateMany({
+        where: { id: takedown.id, followUpSentAt: now },
+        data: { followUpSentAt: null }
+      })
+      await recordTimelineEvent(takedown.id, 'SEND_FAILED', {
+        tier,
+        recipients,
+        message: (error as Error).message,
+        metadata: { step: 'FOLLOW_UP' }
+      })
+    }
+  }
+
+  /**
+   * Acionar a próxima camada com contatos disponíveis
+   */
+  private async escalate(takedown: EscalatableTakedown, now: Date, result: EscalationCycleResult) {
+    const skippedTiers: number[] = []
+    let nextTier = takedown.escalationTier + 1
+    let recipients: string[] = []
+
+    while (nextTier <= LAST_TIER) {
+      recipients = await this.resolveTierContacts(takedown, nextTier)
+      if (recipients.length > 0) break
+      skippedTiers.push(nextTier)
+      nextTier++
+    }
+
+    if (nextTier > LAST_TIER) {
+      await this.markExhausted(takedown, now, result, skippedTiers)
+      return
+    }
+
+    const claimed = await prisma.takedownRequest.updateMany({
+      where: { id: takedown.id, escalationTier: takedown.escalationTier, escalationStoppedAt: null },
+      data: { escalationTier: nextTier, tierContactedAt: now, followUpSentAt: null }
+    })
+    if (claimed.count === 0) return
+
+    await this.recordSkippedTiers(takedown.id, skippedTiers)
+
+    try {
+      const email = buildEscalationEmail(takedown, nextTier)
+      const sent = await sendTrackedTakedownEmail(
+        takedown,
+        {
+          to: recipients,
+          replyTo: takedown.user?.email,
+          category: 'TAKEDOWN_FOLLOW_UP',
+          idempotencyKey: `takedown:${takedown.id}:escalation:${nextTier}:${now.getTime()}`,
+          ...email
+        },
+        this.sendEmail
+      )
+
+      result.escalations++
+      await recordTimelineEvent(takedown.id, 'ESCALATED', {
+        tier: nextTier,
+        recipients,
+        message: email.subject,
+        metadata: {
+          tierName: ESCALATION_TIERS[nextTier],
+          previousTier: takedown.escalationTier,
+          emailId: sent.id
+        }
+      })
+
+      await this.notifyUser(
+        takedown,
+        'Takedown escalonado',
+        `Sem resposta para "${takedown.detectedContent.title}". A notificação foi encaminhada para ${describeTier(nextTier)}.`
+      )
+    } catch (error) {
+      result.sendFailures++
+      // Voltar à camada anterior para nova tentativa no próximo ciclo
+      await prisma.takedownRequest.updateMany({
+        where: { id: takedown.id, escalationTier: nextTier, tierContactedAt: now },
+        data: {
+          escalationTier: takedown.escalationTier,
+          tierContactedAt: takedown.tierContactedAt,
+          followUpSentAt: takedown.followUpSentAt
+        }
+      })
+      await recordTimelineEvent(takedown.id, 'SEND_FAILED', {
+        tier: nextTier,
+        recipients,
+        message: (error as Error).message,
+        metadata: { step: 'ESCALATE' }
+      })
+    }
+  }
+
+  /**
+   * Encerrar a cadeia quando não há mais camadas a acionar
+   */
+  private async markExhausted(
+    takedown: EscalatableTakedown,
+    now: Date,
+    result: EscalationCycleResult,
+    skippedTiers: number[] = []
+  ) {
+    const stopped = await prisma.takedownRequest.updateMany({
+      where: { id: takedown.id, escalationStoppedAt: null },
+      data: { escalationStoppedAt: now }
+    })
+    if (stopped.count === 0) return
+
+    await this.recordSkippedTiers(takedown.id, skippedTiers)
+
+    result.exhausted++
+    await recordTimelineEvent(takedown.id, 'ESCALATION_EXHAUSTED', {
+      tier: takedown.escalationTier,
+      message: 'Todas as camadas de contato foram acionadas sem resposta'
+    })
+
+    await this.notifyUser(
+      takedown,
+      'Escalonamento esgotado',
+      `Nenhum contato respondeu ao takedown de "${takedown.detectedContent.title}". Considere uma ação manual.`
+    )
+  }
+
+  private async recordSkippedTiers(takedownRequestId: string, tiers: number[]) {
+    for (const tier of tiers) {
+      await recordTimelineEvent(takedownRequestId, 'TIER_SKIPPED', {
+        tier,
+        message: `Nenhum contato encontrado para ${describeTier(tier)}`,
+        metadata: { tierName: ESCALATION_TIERS[tier] }
+      })
+    }
+  }
+
+  /**
+   * Contatos de uma camada, sem repetir endereços das camadas anteriores
+   */
+  private async resolveTierContacts(takedown: EscalatableTakedown, tier: number): Promise<string[]> {
+    const contactInfo = takedown.detectedContent.dmcaContactInfo
+    const primary = normalizeEmails(contactInfo?.email ? [contactInfo.email] : [])
+    const additional = normalizeEmails(contactInfo?.additionalEmails ?? [])
+      .filter(email => !primary.includes(email))
+
+    switch (ESCALATION_TIERS[tier]) {
+      case 'PRIMARY':
+        return primary
+      case 'ADDITIONAL_EMAILS':
+        return additional
+      case 'HOSTING_ABUSE':
+      case 'REGISTRAR': {
+        const domain = getDomain(takedown.detectedContent.infringingUrl)
+        if (!domain) return []
+
+        const contacts = ESCALATION_TIERS[tier] === 'HOSTING_ABUSE'
+          ? await this.contactResolver.findHostingAbuseContacts(domain)
+          : await this.contactResolver.findRegistrarAbuseContacts(domain)
+
+        const alreadyContacted = new Set([...primary, ...additional])
+        return normalizeEmails(contacts).filter(email => !alreadyContacted.has(email))
+      }
+      default:
+        return []
+    }
+  }
+
+  private async notifyUser(takedown: EscalatableTakedown, title: string, message: string) {
+    try {
+      await prisma.notification.create({
+        data: {
+          userId: takedown.userId,
+          takedownRequestId: takedown.id,
+          title,
+          message,
+          type: 'takedown_escalation'
+        }
+      })
+    } catch (error) {
+      console.error('Erro ao notificar usuário sobre escalonamento:', error)
+    }
+  }
+
+  /**
+   * Registrar métricas do ciclo
+   */
+  private async logCycleMetrics(result: EscalationCycleResult) {
+    if (result.candidates === 0 && result.errors === 0) return
+
+    try {
+      await prisma.agentMetric.create({
+        data: {
+          agentType: 'TAKEDOWN_ESCALATION',
+          metricType: 'PERFORMANCE',
+          name: 'escalation_cycle_duration',
+          value: result.duration,
+          unit: 'milliseconds',
+          timestamp: new Date(),
+          metadata: { ...result }
+        }
+      })
+    } catch (error) {
+      console.error('Erro ao registrar métricas do escalonamento:', error)
+    }
+  }
+
+  /**
+   * Obter status do scheduler
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      isCycleRunning: this.isCycleRunning,
+      policy: this.policy,
+      lastCycle: this.lastCycle
+    }
+  }
+}
+
+function normalizeEmails(emails: string[]): string[] {
+  return Array.from(new Set(
+    emails.map(email => email.trim().toLowerCase()).filter(email => email.includes('@'))
+  ))
+}
+
+function getDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+function describeTier(tier: number): string {
+  switch (ESCALATION_TIERS[tier]) {
+    case 'ADDITIONAL_EMAILS':
+      return 'os contatos adicionais do site'
+    case 'HOSTING_ABUSE':
+      return 'o contato de abuso da hospedagem'
+    case 'REGISTRAR':
+      return 'o registrar do domínio'
+    default:
+      return 'o contato principal do site'
+  }
+}
+
+function formatSentDate(takedown: EscalatableTakedown): string {
+  return (takedown.sentAt ?? new Date()).toISOString().split('T')[0]
+}
+
+function buildFollowUpEmail(takedown: EscalatableTakedown) {
+  const preface = `<p>This is a follow-up to the copyright notice sent on ${formatSentDate(takedown)} ` +
+    `regarding ${takedown.detectedContent.infringingUrl}. We have not received a response and the ` +
+    `material remains available. Please act on the notice below.</p><hr/>`
+
+  return {
+    subject: `Follow-up: ${takedown.subject}`,
+    html: preface + takedown.message
+  }
+}
+
+function buildEscalationEmail(takedown: EscalatableTakedown, tier: number) {
+  const url = takedown.detectedContent.infringingUrl
+  const domain = getDomain(url) ?? url
+  const sentDate = formatSentDate(takedown)
+
+  let reason: string
+  switch (ESCALATION_TIERS[tier]) {
+    case 'HOSTING_ABUSE':
+      reason = `You are receiving this notice as the hosting provider for ${domain}. ` +
+        `The site operator has not responded to the notice below, first sent on ${sentDate}.`
+      break
+    case 'REGISTRAR':
+      reason = `You are receiving this notice as the registrar of ${domain}. Neither the site operator ` +
+        `nor its hosting provider has responded to the notice below, first sent on ${sentDate}.`
+      break
+    default:
+      reason = `We are forwarding the notice below, first sent on ${sentDate} to the designated ` +
+        `contact of ${domain}, which remains unanswered.`
+  }
+
+  return {
+    subject: `Escalation: ${takedown.subject}`,
+    html: `<p>${reason} The infringing material is still available at ${url}.</p><hr/>` + takedown.message
+  }
+}
+
+// Instância singleton do scheduler
+let schedulerInstance: TakedownEscalationScheduler | null = null
+
+/**
+ * Obter instância do scheduler (singleton)
+ */
+export function getTakedownEscalationScheduler(): TakedownEscalationScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new TakedownEscalationScheduler()
+  }
+  return schedulerInstance
+}
+
+/**
+ * Configurar e iniciar scheduler se variável de ambiente estiver definida
+ */
+export function initializeEscalationSchedulerFromEnv() {
+  if (process.env.ENABLE_TAKEDOWN_ESCALATION_SCHEDULER === 'true') {
+    const intervalMinutes = parseInt(process.env.TAKEDOWN_ESCALATION_INTERVAL_MINUTES || '60')
+    const scheduler = getTakedownEscalationScheduler()
+    scheduler.start(intervalMinutes)
+
+    console.log(`🚀 Scheduler de escalonamento de takedowns iniciado automaticamente (${intervalMinutes}min)`)
+  }
+}
+
+// Cleanup quando o processo terminar
+process.on('SIGINT', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
+
+process.on('SIGTERM', () => {
+  if (schedulerInstance) {
+    schedulerInstance.stop()
+  }
+})
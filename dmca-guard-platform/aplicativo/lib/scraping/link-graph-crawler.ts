@@ -0,0 +1,330 @@
+import { ContentStatus, DetectedContent } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { CONFIRMED_STATUSES } from '@/lib/detection/content-status'
+import { ContentExtractor, ExtractedContent } from '@/lib/extraction/content-extractor'
+import { PatternMatcher } from '@/lib/analysis/pattern-matcher'
+import { registrableDomain } from '@/lib/analysis/pattern-mining'
+import { fileHostResolver } from '@/lib/file-host-resolver'
+import { SmartScraper } from './smart-scraper'
+import { contentFingerprintService } from '@/lib/services/content-fingerprint.service'
+import { contentClusterService } from '@/lib/services/content-cluster.service'
+import { confidenceCalibrationService } from '@/lib/services/confidence-calibration.service'
+
+export type LinkKind = 'mirror' | 'file_host' | 'shortener'
+
+export interface LinkClassification {
+  kind: 'file_host' | 'shortener' | 'page'
+  host?: string // nome do serviço (mega, gofile, bit.ly...)
+}
+
+export interface LinkCrawlOptions {
+  maxDepth?: number // saltos a partir da página confirmada
+  maxDomains?: number // domínios distintos visitados por execução
+  maxPagesPerDomain?: number
+  maxPages?: number
+  maxSeeds?: number
+  recrawlAfterMs?: number // intervalo mínimo para seguir de novo os links de uma página
+  respectRobots?: boolean
+  delayMs?: number // pausa entre requisições
+}
+
+export interface LinkCrawlBrand {
+  name: string
+  variations?: string[]
+}
+
+export interface LinkCrawlResult {
+  seeds: number
+  pagesVisited: number
+  domainsVisited: number
+  blockedByRobots: number
+  skippedByBudget: number
+  shortenersResolved: number
+  childrenCreated: number
+  children: Array<{ id: string; url: string; kind: LinkKind; parentContentId: string; depth: number }>
+}
+
+export interface LinkGraphCrawlerDeps {
+  extractor?: Pick<ContentExtractor, 'extractContent'>
+  scraper?: Pick<SmartScraper, 'checkRobotsPermission'>
+  resolveRedirect?: (url: string) => Promise<string | null>
+}
+
+type CrawlParent = Pick<DetectedContent, 'id' | 'userId' | 'brandProfileId' | 'monitoringSessionId' | 'infringingUrl' | 'confidence'>
+
+interface CrawlLink {
+  url: string
+  depth: number
+  parent: CrawlParent
+  via?: string // encurtador pelo qual o link chegou
+}
+
+// Confirmadas e ainda sem desfecho do takedown: páginas removidas ou recusadas não são revisitadas
+const CRAWL_SEED_STATUSES: ContentStatus[] = CONFIRMED_STATUSES.filter(status => status !== 'DELISTED' && status !== 'REJECTED')
+
+/**
+ * Classificar link pelo registro de file hosts e encurtadores
+ */
+export function classifyLink(url: string): LinkClassification {
+  const adapter = fileHostResolver.adapterFor(url)
+  return adapter ? { kind: adapter.kind, host: adapter.name } : { kind: 'page' }
+}
+
+/**
+ * Destino de um encurtador pelos adaptadores; null quando não foi possível chegar a outro host (ad-gates com captcha)
+ */
+async function followShorteners(url: string): Promise<string | null> {
+  const { finalUrl } = await fileHostResolver.followShorteners(url)
+  return finalUrl !== url ? finalUrl : null
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Crawl limitado a partir das páginas de violação confirmadas: segue os links externos até maxDepth,
+ * dentro do orçamento de domínios e páginas, e grava espelhos, file hosts e encurtadores como
+ * DetectedContent filhos da página onde foram encontrados
+ */
+export class LinkGraphCrawler {
+  private extractor: Pick<ContentExtractor, 'extractContent'>
+  private scraper: Pick<SmartScraper, 'checkRobotsPermission'>
+  private resolveRedirect: (url: string) => Promise<string | null>
+  private patternMatcher = new PatternMatcher()
+
+  constructor(deps: LinkGraphCrawlerDeps = {}) {
+    this.extractor = deps.extractor || new ContentExtractor({ includeImages: false, includeLinks: true })
+    this.scraper = deps.scraper || new SmartScraper()
+    this.resolveRedirect = deps.resolveRedirect || followShorteners
+  }
+
+  async crawlFromConfirmed(
+    userId: string,
+    brandProfileId: string,
+    brand: LinkCrawlBrand,
+    options: LinkCrawlOptions = {}
+  ): Promise<LinkCrawlResult> {
+    const settings = {
+      maxDepth: options.maxDepth ?? 2,
+      maxDomains: options.maxDomains ?? 20,
+      maxPagesPerDomain: options.maxPagesPerDomain ?? 5,
+      maxPages: options.maxPages ?? 60,
+      maxSeeds: options.maxSeeds ?? 25,
+      recrawlAfterMs: options.recrawlAfterMs ?? 7 * 24 * 60 * 60 * 1000,
+      respectRobots: options.respectRobots !== false,
+      delayMs: options.delayMs ?? 1000
+    }
+    const brandTerms = [brand.name, ...(brand.variations || [])].map(compact).filter(term => term.length >= 3)
+
+    const seeds = await prisma.detectedContent.findMany({
+      where: {
+        userId,
+        brandProfileId,
+        AND: [
+          { OR: [{ status: { in: CRAWL_SEED_STATUSES } }, { isConfirmed: true }] },
+          { OR: [{ linksCrawledAt: null }, { linksCrawledAt: { lt: new Date(Date.now() - settings.recrawlAfterMs) } }] },
+          // File hosts e encurtadores não têm links a seguir
+          { OR: [{ linkKind: null }, { linkKind: 'mirror' }] }
+        ]
+      },
+      select: { id: true, userId: true, brandProfileId: true, monitoringSessionId: true, infringingUrl: true, confidence: true },
+      orderBy: { detectedAt: 'desc' },
+      take: settings.maxSeeds
+    })
+
+    const result: LinkCrawlResult = {
+      seeds: seeds.length,
+      pagesVisited: 0,
+      domainsVisited: 0,
+      blockedByRobots: 0,
+      skippedByBudget: 0,
+      shortenersResolved: 0,
+      childrenCreated: 0,
+      children: []
+    }
+    const seen = new Set<string>(seeds.map(seed => seed.infringingUrl))
+    const pagesPerDomain = new Map<string, number>()
+
+    // Reserva o orçamento do domínio; false quando a visita estouraria algum limite
+    const reserveVisit = (url: string): boolean => {
+      const domain = registrableDomain(url)
+      const pages = pagesPerDomain.get(domain)
+      if (
+        result.pagesVisited >= settings.maxPages ||
+        (pages === undefined && pagesPerDomain.size >= settings.maxDomains) ||
+        (pages ?? 0) >= settings.maxPagesPerDomain
+      ) {
+        result.skippedByBudget++
+        return false
+      }
+      pagesPerDomain.set(domain, (pages ?? 0) + 1)
+      result.pagesVisited++
+      result.domainsVisited = pagesPerDomain.size
+      return true
+    }
+
+    const visit = async (url: string): Promise<ExtractedContent | null> => {
+      if (settings.respectRobots && !(await this.scraper.checkRobotsPermission(url))) {
+        result.blockedByRobots++
+        return null
+      }
+      if (!reserveVisit(url)) return null
+      if (result.pagesVisited > 1 && settings.delayMs > 0) await this.sleep(settings.delayMs)
+
+      const content = await this.extractor.extractContent(url)
+      return content.bodyText || content.links.length > 0 ? content : null
+    }
+
+    const mentionsBrand = (text: string) => {
+      const normalized = compact(text)
+      return brandTerms.some(term => normalized.includes(term))
+    }
+
+    // Só páginas externas com cara de espelho: citam a marca na URL ou são links de download
+    const isMirrorCandidate = (url: string, fromUrl: string) =>
+      registrableDomain(url) !== registrableDomain(fromUrl) &&
+      (mentionsBrand(url) || this.patternMatcher.checkForDownloadTriggers('', [url]).length > 0)
+
+    for (const seed of seeds) {
+      try {
+        const queue: Array<{ content: ExtractedContent; parent: CrawlParent; depth: number }> = []
+        const page = await visit(seed.infringingUrl)
+        if (page) queue.push({ content: page, parent: seed, depth: 0 })
+
+        while (queue.length > 0) {
+          const { content, parent, depth } = queue.shift()!
+          const links = content.links.map(url => ({ url, depth: depth + 1, parent }))
+
+          for (const link of links) {
+            // Falha em um link não descarta os demais nem os filhos já na fila
+            try {
+              const child = await this.followLink(link, seen, result, {
+                visit,
+                isMirrorCandidate: url => isMirrorCandidate(url, content.url),
+                mentionsBrand
+              })
+              if (child && child.kind === 'mirror' && child.content && link.depth < settings.maxDepth) {
+                queue.push({ content: child.content, parent: child.record, depth: link.depth })
+              }
+            } catch (error) {
+              console.error(`Erro ao seguir ${link.url} a partir de ${content.url}:`, error)
+            }
+          }
+        }
+
+        await prisma.detectedContent.update({ where: { id: seed.id }, data: { linksCrawledAt: new Date() } })
+      } catch (error) {
+        console.error(`Erro ao seguir links de ${seed.infringingUrl}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Tratar um link de uma página de leak: resolve encurtadores, grava file hosts sem precisar visitá-los
+   * e visita candidatos a espelho, gravando os que citam a marca
+   */
+  private async followLink(
+    link: CrawlLink,
+    seen: Set<string>,
+    result: LinkCrawlResult,
+    helpers: {
+      visit: (url: string) => Promise<ExtractedContent | null>
+      isMirrorCandidate: (url: string) => boolean
+      mentionsBrand: (text: string) => boolean
+    }
+  ): Promise<{ kind: LinkKind; record: CrawlParent; content?: ExtractedContent } | null> {
+    if (seen.has(link.url)) return null
+    seen.add(link.url)
+
+    let classification = classifyLink(link.url)
+    if (classification.kind === 'shortener') {
+      const target = await this.resolveRedirect(link.url).catch(() => null)
+      if (!target) {
+        // Ad-gate sem redirecionamento: grava o próprio encurtador para resolução posterior
+        return this.recordChild(link, 'shortener', classification.host!, result)
+      }
+      if (seen.has(target)) return null
+      result.shortenersResolved++
+      seen.add(target)
+      link = { ...link, url: target, via: link.url }
+      classification = classifyLink(target)
+    }
+
+    if (classification.kind === 'file_host') {
+      return this.recordChild(link, 'file_host', classification.host!, result)
+    }
+
+    if (classification.kind !== 'page' || !helpers.isMirrorCandidate(link.url)) return null
+
+    const content = await helpers.visit(link.url)
+    if (!content || !helpers.mentionsBrand(`${content.title} ${content.description} ${content.bodyText}`)) return null
+
+    return this.recordChild(link, 'mirror', registrableDomain(link.url), result, content)
+  }
+
+  private async recordChild(
+    link: CrawlLink,
+    kind: LinkKind,
+    platform: string,
+    result: LinkCrawlResult,
+    content?: ExtractedContent
+  ): Promise<{ kind: LinkKind; record: CrawlParent; content?: ExtractedContent } | null> {
+    const record = await this.createChild(link, kind, platform, content)
+    if (!record) return null
+    result.childrenCreated++
+    result.children.push({ id: record.id, url: link.url, kind, parentContentId: link.parent.id, depth: link.depth })
+    return { kind, record, content }
+  }
+
+  /**
+   * Gravar o link como DetectedContent filho da página onde foi encontrado; null se a URL já era conhecida
+   */
+  private async createChild(
+    link: CrawlLink,
+    kind: LinkKind,
+    platform: string,
+    content?: ExtractedContent
+  ): Promise<CrawlParent | null> {
+    const existing = await prisma.detectedContent.findFirst({
+      where: { brandProfileId: link.parent.brandProfileId, infringingUrl: link.url },
+      select: { id: true }
+    })
+    if (existing) return null
+
+    const detected = await prisma.detectedContent.create({
+      data: {
+        userId: link.parent.userId,
+        brandProfileId: link.parent.brandProfileId,
+        monitoringSessionId: link.parent.monitoringSessionId,
+        title: content?.title || `${platform}: ${link.url}`,
+        description: link.via
+          ? `Link encontrado em ${link.parent.infringingUrl} via ${link.via}`
+          : `Link encontrado em ${link.parent.infringingUrl}`,
+        contentType: 'OTHER',
+        infringingUrl: link.url,
+        platform,
+        platformType: kind === 'mirror' ? 'website' : kind,
+        priority: 'HIGH',
+        confidence: link.parent.confidence,
+        parentContentId: link.parent.id,
+        linkKind: kind,
+        crawlDepth: link.depth
+      },
+      select: { id: true, userId: true, brandProfileId: true, monitoringSessionId: true, infringingUrl: true, confidence: true }
+    })
+
+    // Impressão digital para a verificação de remoção; espelhos também entram no agrupamento
+    contentFingerprintService.enqueueCapture(detected.id)
+    if (kind === 'mirror') contentClusterService.enqueueFingerprint(detected.id)
+    confidenceCalibrationService.enqueueCalibration(detected.id)
+
+    return detected
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+}
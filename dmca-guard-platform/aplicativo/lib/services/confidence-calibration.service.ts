@@ -0,0 +1,280 @@
+import { CalibrationModel, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { CONFIRMED_STATUSES } from '@/lib/detection/content-status'
+import {
+  CalibrationSample,
+  domainOf,
+  featureVector,
+  HistoryStats,
+  LabeledSample,
+  predictProbability,
+  SampleHistory,
+  trainCalibrationModel,
+  TrainingOptions
+} from '@/lib/learning/confidence-calibration'
+
+export interface ConfidenceCalibrationServiceOptions {
+  minSamples?: number
+  minPerClass?: number
+  maxSamples?: number
+  cacheTtlMs?: number
+  training?: TrainingOptions
+}
+
+const MAX_HISTORY_ROWS = 500
+
+const SAMPLE_SELECT = Prisma.validator<Prisma.DetectedContentSelect>()({
+  id: true,
+  userId: true,
+  brandProfileId: true,
+  infringingUrl: true,
+  confidence: true,
+  rawConfidence: true,
+  similarity: true,
+  faceMatchConfidence: true,
+  imagesFound: true,
+  platform: true,
+  contentType: true,
+  keywordSource: true,
+  detectedAt: true,
+  status: true,
+  isConfirmed: true
+})
+
+type SampleRow = Prisma.DetectedContentGetPayload<{ select: typeof SAMPLE_SELECT }>
+
+export class CalibrationError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message)
+    this.name = 'CalibrationError'
+  }
+}
+
+function toSample(row: SampleRow): CalibrationSample {
+  return {
+    id: row.id,
+    url: row.infringingUrl,
+    confidence: row.rawConfidence ?? row.confidence ?? 0,
+    similarity: row.similarity,
+    faceMatchConfidence: row.faceMatchConfidence,
+    imageCount: row.imagesFound.length,
+    platform: row.platform,
+    contentType: row.contentType,
+    keywordSource: row.keywordSource,
+    detectedAt: row.detectedAt
+  }
+}
+
+function labelOf(row: Pick<SampleRow, 'status' | 'isConfirmed'>): 0 | 1 | null {
+  if (row.status === 'FALSE_POSITIVE') return 0
+  if (row.isConfirmed || CONFIRMED_STATUSES.includes(row.status)) return 1
+  return null
+}
+
+const labeledWhere: Prisma.DetectedContentWhereInput = {
+  OR: [{ status: { in: [...CONFIRMED_STATUSES, 'FALSE_POSITIVE'] } }, { isConfirmed: true }]
+}
+
+/**
+ * Modelos de calibração versionados por usuário ou marca: treino com as revisões, recalibração de novas detecções e rollback
+ */
+export class ConfidenceCalibrationService {
+  private readonly minSamples: number
+  private readonly minPerClass: number
+  private readonly maxSamples: number
+  private readonly cacheTtlMs: number
+  private readonly training: TrainingOptions
+  private readonly activeModels = new Map<string, { loadedAt: number; model: CalibrationModel | null }>()
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: ConfidenceCalibrationServiceOptions = {}) {
+    this.minSamples = options.minSamples ?? 30
+    this.minPerClass = options.minPerClass ?? 5
+    this.maxSamples = options.maxSamples ?? 5000
+    this.cacheTtlMs = options.cacheTtlMs ?? 5 * 60 * 1000
+    this.training = options.training ?? {}
+  }
+
+  /**
+   * Treinar nova versão com as detecções revisadas e ativá-la no lugar da anterior
+   */
+  async train(userId: string, brandProfileId: string | null = null): Promise<CalibrationModel> {
+    if (brandProfileId) {
+      const profile = await prisma.brandProfile.findFirst({ where: { id: brandProfileId, userId }, select: { id: true } })
+      if (!profile) {
+        throw new CalibrationError('Perfil de marca não encontrado', 404)
+      }
+    }
+
+    const rows = await prisma.detectedContent.findMany({
+      where: { userId, ...(brandProfileId && { brandProfileId }), ...labeledWhere },
+      select: SAMPLE_SELECT,
+      orderBy: { detectedAt: 'desc' },
+      take: this.maxSamples
+    })
+
+    const samples: LabeledSample[] = rows.map(row => ({ ...toSample(row), label: labelOf(row) ?? 1 }))
+    const confirmed = samples.filter(sample => sample.label === 1).length
+    const dismissed = samples.length - confirmed
+    if (samples.length < this.minSamples || confirmed < this.minPerClass || dismissed < this.minPerClass) {
+      throw new CalibrationError(
+        `Revisões insuficientes para treinar: são necessárias ${this.minSamples} detecções revisadas, ` +
+        `com ao menos ${this.minPerClass} confirmadas e ${this.minPerClass} falsos positivos ` +
+        `(há ${confirmed} confirmadas e ${dismissed} falsos positivos)`,
+        422
+      )
+    }
+
+    const trained = trainCalibrationModel(samples, this.training)
+    const scope = { userId, brandProfileId }
+
+    const model = await prisma.$transaction(async (tx) => {
+      const latest = await tx.calibrationModel.findFirst({ where: scope, orderBy: { version: 'desc' }, select: { version: true } })
+      await tx.calibrationModel.updateMany({ where: { ...scope, isActive: true }, data: { isActive: false } })
+      return tx.calibrationModel.create({
+        data: {
+          ...scope,
+          version: (latest?.version ?? 0) + 1,
+          isActive: true,
+          features: trained.features,
+          weights: trained.weights,
+          metrics: trained.metrics as unknown as Prisma.InputJsonValue,
+          trainingSize: trained.trainingSize,
+          holdoutSize: trained.holdoutSize
+        }
+      })
+    })
+
+    this.activeModels.clear()
+    return model
+  }
+
+  listVersions(userId: string, brandProfileId: string | null = null): Promise<CalibrationModel[]> {
+    return prisma.calibrationModel.findMany({
+      where: { userId, brandProfileId },
+      orderBy: { version: 'desc' }
+    })
+  }
+
+  /**
+   * Reativar a versão indicada ou, sem versão, a anterior à ativa
+   */
+  async rollback(userId: string, brandProfileId: string | null = null, version?: number): Promise<CalibrationModel> {
+    const scope = { userId, brandProfileId }
+    const active = await prisma.calibrationModel.findFirst({ where: { ...scope, isActive: true } })
+
+    const target = version !== undefined
+      ? await prisma.calibrationModel.findFirst({ where: { ...scope, version } })
+      : active && await prisma.calibrationModel.findFirst({
+        where: { ...scope, version: { lt: active.version } },
+        orderBy: { version: 'desc' }
+      })
+
+    if (!target) {
+      throw new CalibrationError(
+        version !== undefined ? `Versão ${version} não encontrada` : 'Não há versão anterior para restaurar',
+        404
+      )
+    }
+    if (target.id === active?.id) {
+      return target
+    }
+
+    const [, restored] = await prisma.$transaction([
+      prisma.calibrationModel.updateMany({ where: { ...scope, isActive: true }, data: { isActive: false } }),
+      prisma.calibrationModel.update({ where: { id: target.id }, data: { isActive: true } })
+    ])
+
+    this.activeModels.clear()
+    return restored
+  }
+
+  /**
+   * Recalibrar a confiança de uma detecção com o modelo ativo da marca (ou do usuário); guarda a original em rawConfidence
+   */
+  async calibrateDetectedContent(detectedContentId: string): Promise<number | null> {
+    const content = await prisma.detectedContent.findUnique({ where: { id: detectedContentId }, select: SAMPLE_SELECT })
+    if (!content) return null
+
+    const model = await this.getActiveModel(content.userId, content.brandProfileId)
+    if (!model) return null
+
+    const sample = toSample(content)
+    const history = await this.loadHistory(content, model.brandProfileId)
+    const confidence = Math.round(predictProbability(model.weights, featureVector(model.features, sample, history)) * 100)
+
+    await prisma.detectedContent.update({
+      where: { id: detectedContentId },
+      data: { rawConfidence: sample.confidence, confidence, calibrationModelId: model.id }
+    })
+
+    return confidence
+  }
+
+  /**
+   * Recalibrar em segundo plano, logo após salvar a detecção
+   */
+  enqueueCalibration(detectedContentId: string): void {
+    this.queue = this.queue
+      .then(() => this.calibrateDetectedContent(detectedContentId))
+      .then(
+        () => undefined,
+        error => console.error(`Erro ao recalibrar a confiança de ${detectedContentId}:`, error)
+      )
+  }
+
+  private async getActiveModel(userId: string, brandProfileId: string): Promise<CalibrationModel | null> {
+    for (const scopeId of [brandProfileId, null]) {
+      const key = `${userId}:${scopeId ?? ''}`
+      let cached = this.activeModels.get(key)
+      if (!cached || Date.now() - cached.loadedAt > this.cacheTtlMs) {
+        const model = await prisma.calibrationModel.findFirst({ where: { userId, brandProfileId: scopeId, isActive: true } })
+        cached = { loadedAt: Date.now(), model }
+        this.activeModels.set(key, cached)
+      }
+      if (cached.model) return cached.model
+    }
+    return null
+  }
+
+  // Decisões anteriores no mesmo domínio e keyword, no escopo em que o modelo foi treinado
+  private async loadHistory(content: SampleRow, brandProfileId: string | null): Promise<SampleHistory> {
+    const domain = domainOf(content.infringingUrl)
+    const base: Prisma.DetectedContentWhereInput = {
+      userId: content.userId,
+      ...(brandProfileId && { brandProfileId }),
+      id: { not: content.id },
+      detectedAt: { lt: content.detectedAt },
+      ...labeledWhere
+    }
+
+    const [domainRows, keywordRows] = await Promise.all([
+      domain
+        ? prisma.detectedContent.findMany({
+          where: { ...base, infringingUrl: { contains: domain, mode: 'insensitive' } },
+          select: { infringingUrl: true, status: true, isConfirmed: true },
+          take: MAX_HISTORY_ROWS
+        })
+        : [],
+      content.keywordSource
+        ? prisma.detectedContent.findMany({
+          where: { ...base, keywordSource: { equals: content.keywordSource, mode: 'insensitive' } },
+          select: { infringingUrl: true, status: true, isConfirmed: true },
+          take: MAX_HISTORY_ROWS
+        })
+        : []
+    ])
+
+    const count = (rows: Array<Pick<SampleRow, 'status' | 'isConfirmed'>>): HistoryStats => ({
+      confirmed: rows.filter(row => labelOf(row) === 1).length,
+      dismissed: rows.filter(row => labelOf(row) === 0).length
+    })
+
+    return {
+      domain: count(domainRows.filter(row => domainOf(row.infringingUrl) === domain)),
+      keyword: count(keywordRows)
+    }
+  }
+}
+
+export const confidenceCalibrationService = new ConfidenceCalibrationService()
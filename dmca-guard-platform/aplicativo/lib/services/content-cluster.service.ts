@@ -0,0 +1,229 @@
+import { ContentStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ContentExtractor } from '@/lib/extraction/content-extractor'
+import { computeTextFingerprint, isNearDuplicate, TextFingerprint } from '@/lib/content-fingerprint/minhash'
+
+export interface ContentClusterServiceOptions {
+  extractor?: Pick<ContentExtractor, 'extractContent'>
+  lookbackDays?: number
+  maxCandidates?: number
+}
+
+export type ClusterReviewAction = 'CONFIRM' | 'DISMISS'
+
+export interface ClusterReviewResult {
+  clusterId: string
+  action: ClusterReviewAction
+  detectedContentIds: string[]
+}
+
+// Conteúdos que já seguiram adiante não voltam para revisão junto com o grupo
+const SETTLED_STATUSES: ContentStatus[] = ['DMCA_SENT', 'PENDING_REVIEW', 'DELISTED']
+
+const MEMBER_SELECT = Prisma.validator<Prisma.DetectedContentSelect>()({
+  id: true,
+  title: true,
+  infringingUrl: true,
+  platform: true,
+  status: true,
+  isConfirmed: true,
+  similarity: true,
+  detectedAt: true,
+  takedownRequests: { select: { id: true, status: true }, take: 1 },
+  takedownItems: { select: { takedownRequestId: true, status: true }, take: 1 }
+})
+
+export class ContentClusterError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message)
+    this.name = 'ContentClusterError'
+  }
+}
+
+/**
+ * Agrupamento de detecções quase idênticas (mesmo post espelhado em vários fóruns) por SimHash/MinHash do texto
+ */
+export class ContentClusterService {
+  private readonly extractor: Pick<ContentExtractor, 'extractContent'>
+  private readonly lookbackDays: number
+  private readonly maxCandidates: number
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: ContentClusterServiceOptions = {}) {
+    this.extractor = options.extractor ?? new ContentExtractor({ includeImages: false, includeLinks: false })
+    this.lookbackDays = options.lookbackDays ?? parseInt(process.env.CONTENT_CLUSTER_LOOKBACK_DAYS || '90')
+    this.maxCandidates = options.maxCandidates ?? 2000
+  }
+
+  /**
+   * Calcular as impressões do texto da página detectada e colocá-la no grupo dos seus espelhos
+   */
+  async fingerprintDetectedContent(detectedContentId: string): Promise<string | null> {
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      select: { id: true, userId: true, brandProfileId: true, infringingUrl: true, title: true, description: true }
+    })
+    if (!content) return null
+
+    const page = await this.extractor.extractContent(content.infringingUrl, { includeImages: false, includeLinks: false })
+    let fingerprint = page.textFingerprint ?? computeTextFingerprint(page.bodyText)
+    // Página fora do ar ou bloqueada: o trecho do resultado de busca ainda agrupa cópias do mesmo post
+    if (!fingerprint.simhash && !fingerprint.minhash) {
+      fingerprint = computeTextFingerprint(`${content.title} ${content.description ?? ''}`)
+    }
+
+    await prisma.detectedContent.update({
+      where: { id: detectedContentId },
+      data: {
+        textSimhash: fingerprint.simhash,
+        textMinhash: fingerprint.minhash ?? Prisma.DbNull
+      }
+    })
+
+    if (!fingerprint.simhash && !fingerprint.minhash) return null
+    return this.assignCluster(content, fingerprint)
+  }
+
+  /**
+   * Entrar no grupo das detecções quase idênticas do mesmo perfil; grupos ligados pela nova detecção são unidos
+   */
+  async assignCluster(
+    content: { id: string; userId: string; brandProfileId: string; title: string },
+    fingerprint: TextFingerprint
+  ): Promise<string | null> {
+    const since = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000)
+    const candidates = await prisma.detectedContent.findMany({
+      where: {
+        userId: content.userId,
+        brandProfileId: content.brandProfileId,
+        id: { not: content.id },
+        detectedAt: { gte: since },
+        OR: [{ textSimhash: { not: null } }, { textMinhash: { not: Prisma.DbNull } }]
+      },
+      select: { id: true, clusterId: true, textSimhash: true, textMinhash: true },
+      orderBy: { detectedAt: 'desc' },
+      take: this.maxCandidates
+    })
+
+    const duplicates = candidates.filter(candidate => isNearDuplicate(fingerprint, {
+      simhash: candidate.textSimhash,
+      minhash: Array.isArray(candidate.textMinhash) ? candidate.textMinhash as number[] : null
+    }))
+    if (duplicates.length === 0) return null
+
+    const clusterIds = Array.from(new Set(duplicates.map(duplicate => duplicate.clusterId).filter((id): id is string => !!id)))
+    let clusterId: string
+    if (clusterIds.length === 0) {
+      const cluster = await prisma.contentCluster.create({
+        data: { userId: content.userId, brandProfileId: content.brandProfileId, title: content.title }
+      })
+      clusterId = cluster.id
+    } else {
+      // O grupo mais antigo absorve os demais
+      const clusters = await prisma.contentCluster.findMany({
+        where: { id: { in: clusterIds } },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' }
+      })
+      clusterId = clusters[0]?.id ?? clusterIds[0]
+      const merged = clusterIds.filter(id => id !== clusterId)
+      if (merged.length > 0) {
+        await prisma.detectedContent.updateMany({ where: { clusterId: { in: merged } }, data: { clusterId } })
+        await prisma.contentCluster.deleteMany({ where: { id: { in: merged } } })
+      }
+    }
+
+    const unassigned = duplicates.filter(duplicate => !duplicate.clusterId).map(duplicate => duplicate.id)
+    await prisma.detectedContent.updateMany({
+      where: { id: { in: [content.id, ...unassigned] } },
+      data: { clusterId }
+    })
+
+    return clusterId
+  }
+
+  /**
+   * Grupos do usuário com ao menos dois conteúdos, maiores primeiro
+   */
+  async listClusters(userId: string, options: { brandProfileId?: string; take?: number } = {}) {
+    const clusters = await prisma.contentCluster.findMany({
+      where: { userId, ...(options.brandProfileId && { brandProfileId: options.brandProfileId }) },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        updatedAt: true,
+        brandProfile: { select: { id: true, brandName: true } },
+        members: { select: MEMBER_SELECT, orderBy: { detectedAt: 'asc' } }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: options.take ?? 50
+    })
+
+    return clusters
+      .filter(cluster => cluster.members.length > 1)
+      .map(cluster => ({ ...cluster, size: cluster.members.length }))
+      .sort((a, b) => b.size - a.size)
+  }
+
+  async getCluster(userId: string, clusterId: string) {
+    const cluster = await prisma.contentCluster.findFirst({
+      where: { id: clusterId, userId },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        updatedAt: true,
+        brandProfile: { select: { id: true, brandName: true } },
+        members: { select: MEMBER_SELECT, orderBy: { detectedAt: 'asc' } }
+      }
+    })
+    if (!cluster) {
+      throw new ContentClusterError('Grupo não encontrado', 404)
+    }
+    return { ...cluster, size: cluster.members.length }
+  }
+
+  /**
+   * Confirmar ou descartar de uma vez todos os conteúdos do grupo ainda em revisão
+   */
+  async reviewCluster(userId: string, clusterId: string, action: ClusterReviewAction): Promise<ClusterReviewResult> {
+    const cluster = await prisma.contentCluster.findFirst({ where: { id: clusterId, userId }, select: { id: true } })
+    if (!cluster) {
+      throw new ContentClusterError('Grupo não encontrado', 404)
+    }
+
+    const members = await prisma.detectedContent.findMany({
+      where: { clusterId, userId, status: { notIn: SETTLED_STATUSES } },
+      select: { id: true }
+    })
+    const detectedContentIds = members.map(member => member.id)
+    if (detectedContentIds.length === 0) {
+      return { clusterId, action, detectedContentIds }
+    }
+
+    const now = new Date()
+    await prisma.detectedContent.updateMany({
+      where: { id: { in: detectedContentIds } },
+      data: action === 'CONFIRM'
+        ? { isConfirmed: true, confirmedAt: now, status: 'REVIEWED', reviewedAt: now, reviewedBy: userId }
+        : { isConfirmed: false, status: 'FALSE_POSITIVE', reviewedAt: now, reviewedBy: userId }
+    })
+
+    return { clusterId, action, detectedContentIds }
+  }
+
+  /**
+   * Agrupar em segundo plano, uma detecção por vez (evita dois grupos para espelhos que chegam juntos)
+   */
+  enqueueFingerprint(detectedContentId: string): void {
+    this.queue = this.queue
+      .then(() => this.fingerprintDetectedContent(detectedContentId))
+      .then(
+        () => undefined,
+        error => console.error(`Erro ao agrupar ${detectedContentId} com conteúdos semelhantes:`, error)
+      )
+  }
+}
+
+export const contentClusterService = new ContentClusterService()
@@ -0,0 +1,192 @@
+import { ContentFingerprint, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sha256Hex } from '@/lib/evidence-package/manifest'
+import { extractImageUrls } from '@/lib/services/evidence-package.service'
+import {
+  compareFingerprints,
+  extractPageText,
+  FingerprintComparison,
+  ImageHash,
+  PageSnapshot
+} from '@/lib/content-fingerprint/fingerprint'
+
+export type FingerprintResponse = Pick<Response, 'status' | 'url' | 'headers' | 'arrayBuffer'>
+
+/**
+ * Busca HTTP seguindo redirecionamentos (response.url é a URL final)
+ */
+export type FingerprintFetcher = (
+  url: string,
+  init: { headers: Record<string, string>; timeoutMs: number }
+) => Promise<FingerprintResponse>
+
+export interface ContentFingerprintServiceOptions {
+  fetcher?: FingerprintFetcher
+  maxImages?: number
+  minImageBytes?: number
+  maxImageBytes?: number
+  timeoutMs?: number
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; DMCA-Guard-Fingerprint/1.0)'
+
+// Logos, ícones e sprites se repetem em todas as páginas do site e não identificam o conteúdo
+export const DECORATIVE_IMAGE = /(logo|icon|favicon|sprite|avatar|emoji|badge|pixel)/i
+
+export const httpFingerprintFetcher: FingerprintFetcher = (url, init) =>
+  fetch(url, {
+    headers: init.headers,
+    redirect: 'follow',
+    signal: AbortSignal.timeout(init.timeoutMs)
+  })
+
+function toSnapshot(fingerprint: ContentFingerprint): PageSnapshot {
+  return {
+    url: fingerprint.url,
+    finalUrl: fingerprint.finalUrl,
+    httpStatus: fingerprint.httpStatus,
+    title: fingerprint.title,
+    normalizedText: fingerprint.normalizedText,
+    imageHashes: fingerprint.imageHashes as unknown as ImageHash[]
+  }
+}
+
+export class ContentFingerprintService {
+  private readonly fetcher: FingerprintFetcher
+  private readonly maxImages: number
+  private readonly minImageBytes: number
+  private readonly maxImageBytes: number
+  private readonly timeoutMs: number
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: ContentFingerprintServiceOptions = {}) {
+    this.fetcher = options.fetcher ?? httpFingerprintFetcher
+    this.maxImages = options.maxImages ?? 8
+    this.minImageBytes = options.minImageBytes ?? 4096
+    this.maxImageBytes = options.maxImageBytes ?? 5 * 1024 * 1024
+    this.timeoutMs = options.timeoutMs ?? 20000
+  }
+
+  /**
+   * Texto normalizado, imagens (sha256) e URL final da página atual
+   */
+  async snapshot(url: string): Promise<PageSnapshot> {
+    const response = await this.fetcher(url, {
+      headers: this.requestHeaders('text/html,application/xhtml+xml,*/*;q=0.8'),
+      timeoutMs: this.timeoutMs
+    })
+    const finalUrl = response.url || url
+    const contentType = (response.headers.get('content-type') ?? '').toLowerCase()
+    const body = Buffer.from(await response.arrayBuffer())
+
+    // Link direto para a mídia: o próprio arquivo é a impressão digital
+    if (contentType.startsWith('image/')) {
+      return {
+        url,
+        finalUrl,
+        httpStatus: response.status,
+        title: null,
+        normalizedText: '',
+        imageHashes: response.status < 400 ? [{ url: finalUrl, sha256: sha256Hex(body) }] : []
+      }
+    }
+
+    const html = body.toString('utf8')
+    const { title, normalizedText } = extractPageText(html)
+    const imageHashes = response.status < 400 ? await this.hashImages(extractImageUrls(html, finalUrl)) : []
+
+    return { url, finalUrl, httpStatus: response.status, title, normalizedText, imageHashes }
+  }
+
+  /**
+   * Gravar a impressão digital da URL detectada (substitui a anterior)
+   */
+  async capture(detectedContentId: string): Promise<ContentFingerprint | null> {
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      select: { infringingUrl: true }
+    })
+    if (!content) return null
+
+    const snapshot = await this.snapshot(content.infringingUrl)
+    if (snapshot.httpStatus >= 400) {
+      console.warn(`⚠️ Impressão digital ignorada para ${content.infringingUrl}: HTTP ${snapshot.httpStatus}`)
+      return null
+    }
+
+    const data = {
+      url: snapshot.url,
+      finalUrl: snapshot.finalUrl,
+      httpStatus: snapshot.httpStatus,
+      title: snapshot.title,
+      normalizedText: snapshot.normalizedText,
+      textHash: sha256Hex(snapshot.normalizedText),
+      imageHashes: snapshot.imageHashes as unknown as Prisma.InputJsonValue,
+      capturedAt: new Date()
+    }
+
+    return prisma.contentFingerprint.upsert({
+      where: { detectedContentId },
+      create: { detectedContentId, ...data },
+      update: data
+    })
+  }
+
+  /**
+   * Capturar em segundo plano, uma por vez (varreduras gravam muitas detecções de uma vez)
+   */
+  enqueueCapture(detectedContentId: string): void {
+    this.queue = this.queue
+      .then(() => this.capture(detectedContentId))
+      .then(
+        () => undefined,
+        error => console.error(`Erro ao capturar impressão digital de ${detectedContentId}:`, error)
+      )
+  }
+
+  /**
+   * Impressão digital da detecção; sem detecção conhecida, a mais recente da URL
+   */
+  findForUrl(url: string, detectedContentId?: string): Promise<ContentFingerprint | null> {
+    return prisma.contentFingerprint.findFirst({
+      where: detectedContentId ? { detectedContentId } : { url },
+      orderBy: { capturedAt: 'desc' }
+    })
+  }
+
+  /**
+   * Recapturar a página e comparar com a impressão digital gravada
+   */
+  async compare(fingerprint: ContentFingerprint): Promise<FingerprintComparison> {
+    const current = await this.snapshot(fingerprint.url)
+    return compareFingerprints(toSnapshot(fingerprint), current)
+  }
+
+  private requestHeaders(accept: string): Record<string, string> {
+    return { 'User-Agent': USER_AGENT, Accept: accept, 'Accept-Language': 'pt-BR,en;q=0.8' }
+  }
+
+  private async hashImages(urls: string[]): Promise<ImageHash[]> {
+    const hashes: ImageHash[] = []
+
+    for (const url of urls.filter(url => !DECORATIVE_IMAGE.test(url))) {
+      if (hashes.length >= this.maxImages) break
+      try {
+        const response = await this.fetcher(url, { headers: this.requestHeaders('image/*'), timeoutMs: this.timeoutMs })
+        const mimeType = (response.headers.get('content-type') ?? '').toLowerCase()
+        if (response.status !== 200 || !mimeType.startsWith('image/')) continue
+
+        const body = Buffer.from(await response.arrayBuffer())
+        if (body.length < this.minImageBytes || body.length > this.maxImageBytes) continue
+
+        hashes.push({ url, sha256: sha256Hex(body) })
+      } catch {
+        // Imagem inacessível não entra na impressão digital
+      }
+    }
+
+    return hashes
+  }
+}
+
+export const contentFingerprintService = new ContentFingerprintService()
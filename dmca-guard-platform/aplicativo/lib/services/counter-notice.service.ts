@@ -0,0 +1,376 @@
+import { CounterNotice, CounterNoticeDecision, CounterNoticeStatus, TakedownRequest } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { notificationService, NotificationType } from '@/lib/services/notification.service'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 17 U.S.C. §512(g)(2)(C): restauração entre 10 e 14 dias úteis após o recebimento
+export const RESTORE_MIN_BUSINESS_DAYS = 10
+export const RESTORE_MAX_BUSINESS_DAYS = 14
+
+/**
+ * Elementos obrigatórios da contranotificação (§512(g)(3))
+ */
+export const COUNTER_NOTICE_ELEMENTS = [
+  { key: 'SIGNATURE', label: 'Assinatura física ou eletrônica do remetente' },
+  { key: 'MATERIAL_IDENTIFICATION', label: 'Identificação do material removido e do local onde estava' },
+  { key: 'GOOD_FAITH_STATEMENT', label: 'Declaração, sob pena de perjúrio, de que a remoção foi erro ou identificação equivocada' },
+  { key: 'CONTACT_INFORMATION', label: 'Nome, endereço e telefone do remetente' },
+  { key: 'JURISDICTION_CONSENT', label: 'Consentimento com a jurisdição do tribunal federal competente' },
+  { key: 'SERVICE_OF_PROCESS', label: 'Aceite de citação do autor da notificação original' }
+] as const
+
+export type CounterNoticeElement = typeof COUNTER_NOTICE_ELEMENTS[number]['key']
+export type CounterNoticeChecklist = Record<CounterNoticeElement, boolean>
+
+export const OPEN_COUNTER_NOTICE_STATUSES: CounterNoticeStatus[] = ['RECEIVED', 'AWAITING_DECISION']
+
+export interface CounterNoticeIntake {
+  senderName: string
+  senderEmail?: string
+  senderAddress?: string
+  senderPhone?: string
+  signature?: string
+  noticeText: string
+  materialDescription?: string
+  receivedAt?: Date
+  checklist?: Partial<CounterNoticeChecklist>
+}
+
+export interface DecisionDetails {
+  notes?: string
+  lawsuitReference?: string
+}
+
+export interface CounterNoticeDeadlineResult {
+  reminders: number
+  restored: number
+}
+
+/**
+ * Somar dias úteis (segunda a sexta) a uma data
+ */
+export function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  let added = 0
+  while (added < days) {
+    result.setUTCDate(result.getUTCDate() + 1)
+    const weekday = result.getUTCDay()
+    if (weekday !== 0 && weekday !== 6) added++
+  }
+  return result
+}
+
+/**
+ * Dias úteis restantes de `from` até `to` (0 se já passou)
+ */
+export function businessDaysUntil(from: Date, to: Date): number {
+  let days = 0
+  const cursor = new Date(from)
+  while (cursor.getTime() + DAY_MS <= to.getTime()) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+    const weekday = cursor.getUTCDay()
+    if (weekday !== 0 && weekday !== 6) days++
+  }
+  return days
+}
+
+/**
+ * Janela legal de restauração a partir do recebimento
+ */
+export function computeRestoreWindow(receivedAt: Date): { restoreEarliestAt: Date; restoreDeadlineAt: Date } {
+  return {
+    restoreEarliestAt: addBusinessDays(receivedAt, RESTORE_MIN_BUSINESS_DAYS),
+    restoreDeadlineAt: addBusinessDays(receivedAt, RESTORE_MAX_BUSINESS_DAYS)
+  }
+}
+
+/**
+ * Pré-preencher o checklist a partir dos campos e do texto; ajustes manuais prevalecem
+ */
+export function evaluateCounterNoticeChecklist(
+  intake: Omit<CounterNoticeIntake, 'checklist' | 'receivedAt'>,
+  overrides: Partial<CounterNoticeChecklist> = {}
+): CounterNoticeChecklist {
+  const text = intake.noticeText
+
+  const detected: CounterNoticeChecklist = {
+    SIGNATURE: !!intake.signature?.trim() || /(^|\s)\/s\/\s*\S|\bsigned\b|\bassinad[oa]\b/i.test(text),
+    MATERIAL_IDENTIFICATION: !!intake.materialDescription?.trim() || /https?:\/\/\S+/i.test(text),
+    GOOD_FAITH_STATEMENT: /(penalty of perjury|pena de perj[uú]rio)/i.test(text) &&
+      /(mistake|misidentification|erro|equivocad)/i.test(text),
+    CONTACT_INFORMATION: !!(intake.senderName?.trim() && intake.senderAddress?.trim() && intake.senderPhone?.trim()),
+    JURISDICTION_CONSENT: /(consent to the jurisdiction|federal district court|jurisdi[cç][aã]o (do|da) (tribunal|justi[cç]a))/i.test(text),
+    SERVICE_OF_PROCESS: /(service of process|cita[cç][aã]o)/i.test(text)
+  }
+
+  return { ...detected, ...overrides }
+}
+
+export function isChecklistComplete(checklist: CounterNoticeChecklist): boolean {
+  return COUNTER_NOTICE_ELEMENTS.every(element => checklist[element.key])
+}
+
+/**
+ * Contagem regressiva exibida ao usuário
+ */
+export function getRestoreCountdown(
+  notice: Pick<CounterNotice, 'status' | 'restoreEarliestAt' | 'restoreDeadlineAt'>,
+  now: Date = new Date()
+) {
+  if (notice.status !== 'AWAITING_DECISION' || !notice.restoreEarliestAt || !notice.restoreDeadlineAt) {
+    return null
+  }
+
+  return {
+    restoreEarliestAt: notice.restoreEarliestAt,
+    restoreDeadlineAt: notice.restoreDeadlineAt,
+    businessDaysUntilEarliest: businessDaysUntil(now, notice.restoreEarliestAt),
+    businessDaysUntilDeadline: businessDaysUntil(now, notice.restoreDeadlineAt)
+  }
+}
+
+export class CounterNoticeService {
+  constructor(
+    // Dias úteis antes da data mínima de restauração em que o usuário é lembrado
+    private readonly reminderBusinessDays: number = 3
+  ) {}
+
+  /**
+   * Registrar uma contranotificação recebida para o takedown
+   */
+  async create(
+    takedown: Pick<TakedownRequest, 'id' | 'userId'>,
+    intake: CounterNoticeIntake
+  ): Promise<CounterNotice> {
+    const receivedAt = intake.receivedAt ?? new Date()
+    const checklist = evaluateCounterNoticeChecklist(intake, intake.checklist)
+    const isValid = isChecklistComplete(checklist)
+
+    const notice = await prisma.counterNotice.create({
+      data: {
+        takedownRequestId: takedown.id,
+        userId: takedown.userId,
+        status: isValid ? 'AWAITING_DECISION' : 'RECEIVED',
+        senderName: intake.senderName,
+        senderEmail: intake.senderEmail,
+        senderAddress: intake.senderAddress,
+        senderPhone: intake.senderPhone,
+        signature: intake.signature,
+        noticeText: intake.noticeText,
+        materialDescription: intake.materialDescription,
+        checklist,
+        isValid,
+        receivedAt,
+        ...(isValid && computeRestoreWindow(receivedAt))
+      }
+    })
+
+    await recordTimelineEvent(takedown.id, 'COUNTER_NOTICE_RECEIVED', {
+      recipients: intake.senderEmail ? [intake.senderEmail] : [],
+      message: `Contranotificação de ${intake.senderName}`,
+      metadata: { counterNoticeId: notice.id, isValid, restoreDeadlineAt: notice.restoreDeadlineAt?.toISOString() }
+    })
+
+    // A disputa substitui follow-ups/escalonamento do takedown original
+    await stopEscalationChain(takedown.id, 'Contranotificação recebida', { counterNoticeId: notice.id })
+
+    await notificationService.create({
+      userId: takedown.userId,
+      type: NotificationType.COUNTER_NOTICE_RECEIVED,
+      title: 'Contranotificação recebida',
+      message: isValid
+        ? `${intake.senderName} contestou o takedown. Sem ação judicial, o conteúdo pode ser restaurado a partir de ` +
+          `${formatDate(notice.restoreEarliestAt)} e até ${formatDate(notice.restoreDeadlineAt)}.`
+        : `${intake.senderName} contestou o takedown, mas a contranotificação não contém todos os elementos do §512(g)(3).`,
+      takedownRequestId: takedown.id,
+      metadata: { counterNoticeId: notice.id }
+    })
+
+    return notice
+  }
+
+  /**
+   * Atualizar o checklist; a contagem começa (ou é suspensa) conforme a validade
+   */
+  async updateChecklist(notice: CounterNotice, overrides: Partial<CounterNoticeChecklist>): Promise<CounterNotice> {
+    if (!OPEN_COUNTER_NOTICE_STATUSES.includes(notice.status)) {
+      throw new Error(`Contranotificação já encerrada (${notice.status})`)
+    }
+
+    const checklist = { ...(notice.checklist as CounterNoticeChecklist), ...overrides }
+    const isValid = isChecklistComplete(checklist)
+
+    return prisma.counterNotice.update({
+      where: { id: notice.id },
+      data: isValid
+        ? {
+            checklist,
+            isValid,
+            status: 'AWAITING_DECISION',
+            ...computeRestoreWindow(notice.receivedAt)
+          }
+        : {
+            checklist,
+            isValid,
+            status: 'RECEIVED',
+            restoreEarliestAt: null,
+            restoreDeadlineAt: null,
+            deadlineNotifiedAt: null
+          }
+    })
+  }
+
+  /**
+   * Registrar a decisão do titular: ação judicial, retirada ou restauração
+   */
+  async decide(
+    notice: CounterNotice,
+    decision: CounterNoticeDecision,
+    details: DecisionDetails = {},
+    now: Date = new Date()
+  ): Promise<CounterNotice | null> {
+    if (decision === 'FILE_SUIT' && !details.lawsuitReference) {
+      throw new Error('Informe o número do processo para registrar a ação judicial')
+    }
+
+    const status: CounterNoticeStatus = decision === 'FILE_SUIT'
+      ? 'SUIT_FILED'
+      : decision === 'WITHDRAW' ? 'WITHDRAWN' : 'RESTORED'
+
+    return this.resolve(notice, {
+      status,
+      decision,
+      decisionNotes: details.notes,
+      lawsuitReference: details.lawsuitReference,
+      decidedAt: now,
+      ...(status !== 'SUIT_FILED' && { restoredAt: now })
+    }, now)
+  }
+
+  /**
+   * Lembrar prazos próximos e restaurar contranotificações cujo prazo máximo venceu
+   */
+  async processDeadlines(now: Date = new Date()): Promise<CounterNoticeDeadlineResult> {
+    const result: CounterNoticeDeadlineResult = { reminders: 0, restored: 0 }
+
+    const pending = await prisma.counterNotice.findMany({
+      where: { status: 'AWAITING_DECISION', restoreDeadlineAt: { not: null } },
+      orderBy: { restoreDeadlineAt: 'asc' }
+    })
+
+    for (const notice of pending) {
+      try {
+        if (notice.restoreDeadlineAt! <= now) {
+          const resolved = await this.resolve(notice, {
+            status: 'RESTORED',
+            decision: 'ALLOW_RESTORE',
+            decisionNotes: 'Prazo de restauração encerrado sem ação judicial',
+            decidedAt: now,
+            restoredAt: now
+          }, now)
+
+          if (resolved) {
+            result.restored++
+            await notificationService.create({
+              userId: notice.userId,
+              type: NotificationType.COUNTER_NOTICE_DEADLINE,
+              title: 'Conteúdo restaurado após contranotificação',
+              message: `O prazo de ${RESTORE_MAX_BUSINESS_DAYS} dias úteis terminou sem registro de ação judicial.`,
+              takedownRequestId: notice.takedownRequestId,
+              metadata: { counterNoticeId: notice.id }
+            })
+          }
+          continue
+        }
+
+        if (notice.deadlineNotifiedAt || !notice.restoreEarliestAt) continue
+        const daysLeft = businessDaysUntil(now, notice.restoreEarliestAt)
+        if (daysLeft > this.reminderBusinessDays) continue
+
+        const claimed = await prisma.counterNotice.updateMany({
+          where: { id: notice.id, deadlineNotifiedAt: null },
+          data: { deadlineNotifiedAt: now }
+        })
+        if (claimed.count === 0) continue
+
+        result.reminders++
+        await notificationService.create({
+          userId: notice.userId,
+          type: NotificationType.COUNTER_NOTICE_DEADLINE,
+          title: 'Prazo de contranotificação se aproximando',
+          message: daysLeft > 0
+            ? `Faltam ${daysLeft} dia(s) útil(eis) para que o conteúdo possa ser restaurado. ` +
+              'Registre a ação judicial, retire a reclamação ou autorize a restauração.'
+            : `O conteúdo pode ser restaurado a qualquer momento até ${formatDate(notice.restoreDeadlineAt)}.`,
+          takedownRequestId: notice.takedownRequestId,
+          metadata: { counterNoticeId: notice.id, businessDaysLeft: daysLeft }
+        })
+      } catch (error) {
+        console.error(`Erro ao processar prazo da contranotificação ${notice.id}:`, error)
+      }
+    }
+
+    if (result.reminders > 0 || result.restored > 0) {
+      console.log(`⚖️ Contranotificações: ${result.reminders} lembretes, ${result.restored} restaurações`)
+    }
+
+    return result
+  }
+
+  private async resolve(
+    notice: CounterNotice,
+    data: {
+      status: CounterNoticeStatus
+      decision: CounterNoticeDecision
+      decisionNotes?: string
+      lawsuitReference?: string
+      decidedAt: Date
+      restoredAt?: Date
+    },
+    now: Date
+  ): Promise<CounterNotice | null> {
+    // Condicionar ao status aberto para não registrar duas decisões
+    const claimed = await prisma.counterNotice.updateMany({
+      where: { id: notice.id, status: { in: OPEN_COUNTER_NOTICE_STATUSES } },
+      data
+    })
+    if (claimed.count === 0) return null
+
+    if (data.restoredAt) {
+      const takedown = await prisma.takedownRequest.findUnique({
+        where: { id: notice.takedownRequestId },
+        select: { status: true }
+      })
+
+      await prisma.takedownRequest.update({
+        where: { id: notice.takedownRequestId },
+        data: { status: 'RESTORED', resolvedAt: now }
+      })
+
+      await recordTimelineEvent(notice.takedownRequestId, 'STATUS_CHANGED', {
+        message: `${takedown?.status} → RESTORED`,
+        metadata: { from: takedown?.status, to: 'RESTORED', source: 'COUNTER_NOTICE', counterNoticeId: notice.id }
+      })
+    }
+
+    await recordTimelineEvent(notice.takedownRequestId, 'COUNTER_NOTICE_RESOLVED', {
+      message: data.decisionNotes,
+      metadata: {
+        counterNoticeId: notice.id,
+        decision: data.decision,
+        status: data.status,
+        lawsuitReference: data.lawsuitReference
+      }
+    })
+
+    return prisma.counterNotice.findUnique({ where: { id: notice.id } })
+  }
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().split('T')[0] : '-'
+}
+
+export const counterNoticeService = new CounterNoticeService()
@@ -0,0 +1,379 @@
+import { DelistingRequest, DelistingRequestStatus, Prisma, SearchEngine } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { SearchClient } from '@/lib/integrations/search-client'
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface DelistingFormSpec {
+  formUrl: string
+  maxUrlsPerBatch: number
+  csvHeader: string[]
+}
+
+/**
+ * Formulários de remoção por direitos autorais de cada buscador
+ */
+export const DELISTING_FORMS: Record<SearchEngine, DelistingFormSpec> = {
+  GOOGLE: {
+    formUrl: 'https://reportcontent.google.com/forms/dmca_search',
+    maxUrlsPerBatch: 1000,
+    csvHeader: [
+      'Location of infringing material',
+      'Where can we see an authorized example of the work',
+      'Identify and describe the copyrighted work'
+    ]
+  },
+  BING: {
+    formUrl: 'https://www.microsoft.com/en-us/concern/bing',
+    maxUrlsPerBatch: 1000,
+    csvHeader: [
+      'Infringing URL',
+      'Title of copyrighted work',
+      'URL of original work'
+    ]
+  }
+}
+
+const ACTIVE_BATCH_STATUSES: DelistingRequestStatus[] = ['PENDING', 'SUBMITTED', 'PARTIALLY_DELISTED']
+const VERIFIABLE_BATCH_STATUSES: DelistingRequestStatus[] = ['SUBMITTED', 'PARTIALLY_DELISTED']
+
+// Transições permitidas a partir de ações do usuário
+const ALLOWED_TRANSITIONS: Partial<Record<DelistingRequestStatus, DelistingRequestStatus[]>> = {
+  PENDING: ['SUBMITTED', 'CANCELLED'],
+  SUBMITTED: ['REJECTED', 'CANCELLED'],
+  PARTIALLY_DELISTED: ['REJECTED', 'CANCELLED']
+}
+
+export interface DelistingOwner {
+  name: string
+  email: string
+  phone?: string | null
+}
+
+export interface DelistingWork {
+  title: string
+  description: string
+  authorizedUrls: string[]
+}
+
+export interface DelistingPayload {
+  engine: SearchEngine
+  formUrl: string
+  formFields: Record<string, string>
+  copyrightOwner: DelistingOwner
+  work: DelistingWork
+  infringingUrls: string[]
+  generatedAt: string
+}
+
+export interface CreateDelistingOptions {
+  engines: SearchEngine[]
+  brandProfileId?: string
+  detectedContentIds?: string[]
+}
+
+export interface DelistingVerificationResult {
+  batches: number
+  checked: number
+  delisted: number
+  errors: number
+}
+
+/**
+ * Verificar se a mudança de status pedida pelo usuário é permitida
+ */
+export function canTransitionDelisting(from: DelistingRequestStatus, to: DelistingRequestStatus): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Montar os campos do formulário de remoção do buscador
+ */
+export function buildDelistingPayload(
+  engine: SearchEngine,
+  owner: DelistingOwner,
+  work: DelistingWork,
+  infringingUrls: string[],
+  now: Date = new Date()
+): DelistingPayload {
+  const signedOn = now.toISOString().split('T')[0]
+  const authorizedUrls = work.authorizedUrls.join('\n')
+  const urls = infringingUrls.join('\n')
+
+  const formFields: Record<string, string> = engine === 'GOOGLE'
+    ? {
+        'Full legal name': owner.name,
+        'Copyright holder you represent': owner.name,
+        'Contact email address': owner.email,
+        'Identify and describe the copyrighted work': work.description,
+        'Where can we see an authorized example of the work?': authorizedUrls,
+        'Location of infringing material': urls,
+        'Signature': owner.name,
+        'Signed on this date of': signedOn
+      }
+    : {
+        'Your name': owner.name,
+        'Copyright owner name': owner.name,
+        'Email address': owner.email,
+        'Title of copyrighted work': work.title,
+        'Description of copyrighted work': work.description,
+        'URL of original work': authorizedUrls,
+        'Infringing URLs': urls,
+        'Electronic signature': owner.name
+      }
+
+  return {
+    engine,
+    formUrl: DELISTING_FORMS[engine].formUrl,
+    formFields,
+    copyrightOwner: owner,
+    work,
+    infringingUrls,
+    generatedAt: now.toISOString()
+  }
+}
+
+/**
+ * Gerar CSV no formato de envio em lote do buscador
+ */
+export function buildDelistingCsv(engine: SearchEngine, work: DelistingWork, infringingUrls: string[]): string {
+  const authorizedUrl = work.authorizedUrls[0] ?? ''
+  const rows = infringingUrls.map(url => engine === 'GOOGLE'
+    ? [url, authorizedUrl, work.description]
+    : [url, work.title, authorizedUrl]
+  )
+
+  return [DELISTING_FORMS[engine].csvHeader, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\n')
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export class DelistingService {
+  constructor(
+    private readonly searchClient: Pick<SearchClient, 'isUrlIndexed'> = new SearchClient(),
+    private readonly options: { minHoursBeforeCheck: number; checkIntervalHours: number } = {
+      minHoursBeforeCheck: 24,
+      checkIntervalHours: 24
+    }
+  ) {}
+
+  /**
+   * Agrupar conteúdo confirmado em lotes por buscador e perfil de marca
+   */
+  async createBatches(userId: string, options: CreateDelistingOptions): Promise<DelistingRequest[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true, phone: true }
+    })
+    if (!user) {
+      throw new Error('Usuário não encontrado')
+    }
+
+    const contents = await prisma.detectedContent.findMany({
+      where: {
+        userId,
+        isConfirmed: true,
+        status: { notIn: ['DELISTED', 'FALSE_POSITIVE', 'IGNORED'] },
+        ...(options.brandProfileId && { brandProfileId: options.brandProfileId }),
+        ...(options.detectedContentIds && { id: { in: options.detectedContentIds } })
+      },
+      include: {
+        brandProfile: true,
+        delistingItems: {
+          where: { delistingRequest: { status: { in: ACTIVE_BATCH_STATUSES } } },
+          select: { delistingRequest: { select: { engine: true } } }
+        }
+      },
+      orderBy: { detectedAt: 'asc' }
+    })
+
+    const created: DelistingRequest[] = []
+    const now = new Date()
+
+    for (const engine of Array.from(new Set(options.engines))) {
+      // URLs que já estão em um lote ativo para este buscador ficam de fora
+      const pending = contents.filter(content =>
+        !content.delistingItems.some(item => item.delistingRequest.engine === engine)
+      )
+
+      const byBrand = new Map<string, typeof pending>()
+      for (const content of pending) {
+        byBrand.set(content.brandProfileId, [...(byBrand.get(content.brandProfileId) ?? []), content])
+      }
+
+      for (const brandContents of Array.from(byBrand.values())) {
+        const brand = brandContents[0].brandProfile
+        const work: DelistingWork = {
+          title: brand.brandName,
+          description: brand.description || `Conteúdo original de ${brand.brandName}`,
+          authorizedUrls: brand.officialUrls
+        }
+
+        for (const batch of chunk(brandContents, DELISTING_FORMS[engine].maxUrlsPerBatch)) {
+          const urls = batch.map(content => content.infringingUrl)
+
+          const request = await prisma.delistingRequest.create({
+            data: {
+              userId,
+              brandProfileId: brand.id,
+              engine,
+              payload: buildDelistingPayload(engine, user, work, urls, now) as unknown as Prisma.InputJsonValue,
+              csv: buildDelistingCsv(engine, work, urls),
+              items: {
+                create: batch.map(content => ({
+                  detectedContentId: content.id,
+                  url: content.infringingUrl
+                }))
+              }
+            }
+          })
+
+          created.push(request)
+        }
+      }
+    }
+
+    return created
+  }
+
+  /**
+   * Registrar envio, rejeição ou cancelamento do lote
+   */
+  async updateStatus(
+    request: DelistingRequest,
+    status: DelistingRequestStatus,
+    externalReference?: string
+  ): Promise<DelistingRequest> {
+    if (!canTransitionDelisting(request.status, status)) {
+      throw new Error(`Transição inválida: ${request.status} → ${status}`)
+    }
+
+    return prisma.delistingRequest.update({
+      where: { id: request.id },
+      data: {
+        status,
+        ...(externalReference !== undefined && { externalReference }),
+        ...(status === 'SUBMITTED' && { submittedAt: new Date() }),
+        ...((status === 'REJECTED' || status === 'CANCELLED') && { completedAt: new Date() })
+      }
+    })
+  }
+
+  /**
+   * Verificar os lotes enviados cujo intervalo de checagem venceu
+   */
+  async verifySubmittedBatches(now: Date = new Date()): Promise<DelistingVerificationResult> {
+    const result: DelistingVerificationResult = { batches: 0, checked: 0, delisted: 0, errors: 0 }
+
+    const batches = await prisma.delistingRequest.findMany({
+      where: {
+        status: { in: VERIFIABLE_BATCH_STATUSES },
+        submittedAt: { lte: new Date(now.getTime() - this.options.minHoursBeforeCheck * HOUR_MS) },
+        OR: [
+          { lastCheckedAt: null },
+          { lastCheckedAt: { lte: new Date(now.getTime() - this.options.checkIntervalHours * HOUR_MS) } }
+        ]
+      },
+      orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } }
+    })
+
+    for (const batch of batches) {
+      const batchResult = await this.verifyBatch(batch, now)
+      result.batches++
+      result.checked += batchResult.checked
+      result.delisted += batchResult.delisted
+      result.errors += batchResult.errors
+    }
+
+    if (result.batches > 0) {
+      console.log(`✅ Verificação de delisting: ${result.delisted}/${result.checked} URLs removidas do índice`)
+    }
+
+    return result
+  }
+
+  /**
+   * Buscar cada URL pendente; as que não aparecem mais são marcadas como DELISTED
+   */
+  async verifyBatch(batch: DelistingRequest, now: Date = new Date()): Promise<DelistingVerificationResult> {
+    const result: DelistingVerificationResult = { batches: 1, checked: 0, delisted: 0, errors: 0 }
+    const engine = batch.engine === 'BING' ? 'bing' : 'google'
+
+    const items = await prisma.delistingItem.findMany({
+      where: { delistingRequestId: batch.id, status: 'PENDING' }
+    })
+
+    for (const item of items) {
+      try {
+        const indexed = await this.searchClient.isUrlIndexed(item.url, engine)
+        result.checked++
+
+        if (indexed) {
+          await prisma.delistingItem.update({
+            where: { id: item.id },
+            data: { checkCount: { increment: 1 }, lastCheckedAt: now, lastError: null }
+          })
+          continue
+        }
+
+        result.delisted++
+        await prisma.$transaction([
+          prisma.delistingItem.update({
+            where: { id: item.id },
+            data: {
+              status: 'DELISTED',
+              delistedAt: now,
+              checkCount: { increment: 1 },
+              lastCheckedAt: now,
+              lastError: null
+            }
+          }),
+          prisma.detectedContent.updateMany({
+            where: { id: item.detectedContentId, status: { notIn: ['DELISTED', 'FALSE_POSITIVE'] } },
+            data: { status: 'DELISTED' }
+          })
+        ])
+      } catch (error) {
+        result.errors++
+        await prisma.delistingItem.update({
+          where: { id: item.id },
+          data: { lastCheckedAt: now, lastError: (error as Error).message }
+        })
+      }
+    }
+
+    const [total, delisted] = await Promise.all([
+      prisma.delistingItem.count({ where: { delistingRequestId: batch.id } }),
+      prisma.delistingItem.count({ where: { delistingRequestId: batch.id, status: 'DELISTED' } })
+    ])
+
+    const status: DelistingRequestStatus = delisted === total
+      ? 'DELISTED'
+      : delisted > 0 ? 'PARTIALLY_DELISTED' : batch.status
+
+    await prisma.delistingRequest.update({
+      where: { id: batch.id },
+      data: {
+        status,
+        lastCheckedAt: now,
+        ...(status === 'DELISTED' && { completedAt: now })
+      }
+    })
+
+    return result
+  }
+}
+
+export const delistingService = new DelistingService()
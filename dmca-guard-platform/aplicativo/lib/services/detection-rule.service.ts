@@ -0,0 +1,163 @@
+import { ContentStatus, DetectionRule, DetectionRuleAction } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { CONFIRMED_STATUSES } from '@/lib/detection/content-status'
+import { evaluateCondition, parseRuleExpression, RuleCondition, RuleSyntaxError } from '@/lib/detection/detection-rules'
+
+export interface DetectionRuleInput {
+  name: string
+  description?: string
+  expression: string
+  action: DetectionRuleAction
+  amount?: number
+  priority?: number
+  isActive?: boolean
+}
+
+export interface RuleHistorySample {
+  id: string
+  url: string
+  title: string
+  status: ContentStatus
+}
+
+export interface RuleHistoryReport {
+  evaluated: number
+  matched: number
+  confirmed: number // detecções que o usuário confirmou ou que seguiram para takedown
+  falsePositives: number // marcadas como falso positivo ou ignoradas
+  unreviewed: number
+  samples: RuleHistorySample[]
+}
+
+const DISMISSED_STATUSES: ContentStatus[] = ['FALSE_POSITIVE', 'IGNORED']
+const MAX_SAMPLES = 20
+
+export class DetectionRuleError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message)
+    this.name = 'DetectionRuleError'
+  }
+}
+
+/**
+ * Regras de detecção do perfil de marca: cadastro e simulação contra as detecções já revisadas
+ */
+export class DetectionRuleService {
+  list(userId: string, brandProfileId: string): Promise<DetectionRule[]> {
+    return prisma.detectionRule.findMany({
+      where: { userId, brandProfileId },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    })
+  }
+
+  async create(userId: string, brandProfileId: string, input: DetectionRuleInput): Promise<DetectionRule> {
+    await this.assertProfile(userId, brandProfileId)
+    this.compile(input.expression)
+
+    return prisma.detectionRule.create({
+      data: {
+        userId,
+        brandProfileId,
+        name: input.name,
+        description: input.description ?? null,
+        expression: input.expression,
+        action: input.action,
+        amount: input.amount ?? null,
+        priority: input.priority ?? 0,
+        isActive: input.isActive ?? true
+      }
+    })
+  }
+
+  async update(
+    userId: string,
+    brandProfileId: string,
+    id: string,
+    input: Partial<DetectionRuleInput>
+  ): Promise<DetectionRule> {
+    const rule = await prisma.detectionRule.findFirst({ where: { id, userId, brandProfileId } })
+    if (!rule) {
+      throw new DetectionRuleError('Regra de detecção não encontrada', 404)
+    }
+    if (input.expression !== undefined) {
+      this.compile(input.expression)
+    }
+
+    return prisma.detectionRule.update({ where: { id }, data: input })
+  }
+
+  async remove(userId: string, brandProfileId: string, id: string): Promise<boolean> {
+    const deleted = await prisma.detectionRule.deleteMany({ where: { id, userId, brandProfileId } })
+    return deleted.count > 0
+  }
+
+  /**
+   * Avaliar a expressão contra as detecções anteriores do perfil, separando confirmadas e falsos positivos.
+   * O histórico guarda só URL, título, descrição e imagens; condições sobre texto e links da página não disparam aqui.
+   */
+  async testAgainstHistory(
+    userId: string,
+    brandProfileId: string,
+    expression: string,
+    limit = 1000
+  ): Promise<RuleHistoryReport> {
+    await this.assertProfile(userId, brandProfileId)
+    const condition = this.compile(expression)
+
+    const history = await prisma.detectedContent.findMany({
+      where: { userId, brandProfileId },
+      select: { id: true, infringingUrl: true, title: true, description: true, imagesFound: true, status: true, isConfirmed: true },
+      orderBy: { detectedAt: 'desc' },
+      take: limit
+    })
+
+    const report: RuleHistoryReport = { evaluated: history.length, matched: 0, confirmed: 0, falsePositives: 0, unreviewed: 0, samples: [] }
+
+    for (const content of history) {
+      const fired = evaluateCondition(condition, {
+        url: content.infringingUrl,
+        title: content.title,
+        description: content.description ?? '',
+        text: '',
+        images: content.imagesFound,
+        links: []
+      })
+      if (!fired) continue
+
+      report.matched++
+      if (DISMISSED_STATUSES.includes(content.status)) {
+        report.falsePositives++
+      } else if (content.isConfirmed || CONFIRMED_STATUSES.includes(content.status)) {
+        report.confirmed++
+      } else {
+        report.unreviewed++
+      }
+
+      if (report.samples.length < MAX_SAMPLES) {
+        report.samples.push({ id: content.id, url: content.infringingUrl, title: content.title, status: content.status })
+      }
+    }
+
+    return report
+  }
+
+  private compile(expression: string): RuleCondition {
+    try {
+      return parseRuleExpression(expression)
+    } catch (error) {
+      if (error instanceof RuleSyntaxError) {
+        throw new DetectionRuleError(`Expressão inválida: ${error.message}`)
+      }
+      throw error
+    }
+  }
+
+  private async assertProfile(userId: string, brandProfileId: string): Promise<void> {
+    const profile = await prisma.brandProfile.findFirst({ where: { id: brandProfileId, userId }, select: { id: true } })
+    if (!profile) {
+      throw new DetectionRuleError('Perfil de marca não encontrado', 404)
+    }
+  }
+}
+
+export const detectionRuleService = new DetectionRuleService()
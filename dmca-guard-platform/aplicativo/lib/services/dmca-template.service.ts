@@ -0,0 +1,492 @@
+import { DetectedContent, DmcaTemplate, DmcaTemplateVersion, LegalFramework, Prisma, TakedownType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { DmcaTemplateLanguage, formatInfringingUrlList, generateDmcaNotice } from '@/lib/dmca-templates'
+import {
+  TemplateContext,
+  TemplateSyntaxError,
+  TemplateValidationResult,
+  renderTemplate,
+  validateTemplate
+} from '@/lib/dmca-template-engine'
+import { LEGAL_FRAMEWORKS, NoticeFields, RequesterRole, validateTemplateForFramework } from '@/lib/legal-frameworks'
+
+export interface DmcaTemplateInput {
+  name: string
+  description?: string
+  language: DmcaTemplateLanguage
+  takedownType: TakedownType
+  legalFramework?: LegalFramework
+  subject: string
+  body: string
+  isDefault?: boolean
+}
+
+export type DmcaTemplateChanges = Partial<DmcaTemplateInput> & { changeNote?: string }
+
+export interface NoticeData {
+  user: { name: string; email: string; phone?: string | null; address?: string | null }
+  content: Pick<DetectedContent, 'title' | 'infringingUrl' | 'platform' | 'detectedAt'> & {
+    brandProfile?: { brandName: string; description: string | null; officialUrls: string[] } | null
+  }
+  infringingUrls?: string[]
+  contactEmail?: string | null
+  customMessage?: string | null
+  // Campos informados pelo usuário que não existem no cadastro (ex.: pessoa retratada)
+  noticeFields?: Partial<Omit<NoticeFields, 'infringingUrls'>>
+  // Pacote de evidências capturado na confirmação do conteúdo
+  evidence?: { id: string; capturedAt: Date | null; manifestHash: string | null } | null
+  // Notificação anterior do mesmo conteúdo, removido e republicado (staydown)
+  repeatOf?: { takedownRequestId: string; url: string; sentAt: Date } | null
+}
+
+export interface RenderNoticeOptions {
+  takedownType?: TakedownType
+  legalFramework?: LegalFramework
+  language?: DmcaTemplateLanguage
+  templateId?: string
+}
+
+export interface RenderedNotice {
+  subject: string
+  body: string
+  templateId: string | null
+  templateVersion: number | null
+  legalFramework: LegalFramework
+  language: DmcaTemplateLanguage // do template escolhido, quando houver
+  noticeFields: NoticeFields
+}
+
+export interface TemplatePreview {
+  subject: string
+  body: string
+  validation: { subject: TemplateValidationResult; body: TemplateValidationResult }
+  frameworkErrors: string[]
+}
+
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+function contactNameFromEmail(email?: string | null): string {
+  const localPart = email?.split('@')[0]?.toLowerCase()
+  if (!localPart) return 'Copyright Team'
+  if (localPart.includes('dmca')) return 'DMCA Team'
+  if (localPart.includes('abuse')) return 'Abuse Team'
+  if (localPart.includes('legal')) return 'Legal Team'
+  return 'Copyright Team'
+}
+
+/**
+ * Frase citando o pacote de evidências no corpo da notificação
+ */
+function formatEvidenceReference(language: DmcaTemplateLanguage, evidence?: NoticeData['evidence']): string | null {
+  if (!evidence?.capturedAt || !evidence.manifestHash) return null
+
+  const capturedAt = evidence.capturedAt.toISOString().replace('T', ' ').slice(0, 16)
+  if (language === 'en') {
+    return `Evidence: the infringing page was captured on ${capturedAt} UTC (evidence package ${evidence.id}, ` +
+      `manifest SHA-256 ${evidence.manifestHash}). The signed archive is available upon request.`
+  }
+  return `Evidência: a página infratora foi capturada em ${capturedAt} UTC (pacote de evidências ${evidence.id}, ` +
+    `SHA-256 do manifesto ${evidence.manifestHash}). O arquivo assinado está disponível mediante solicitação.`
+}
+
+/**
+ * Frase citando a notificação anterior em notificações de reincidência
+ */
+function formatRepeatInfringementReference(language: DmcaTemplateLanguage, repeatOf?: NoticeData['repeatOf']): string | null {
+  if (!repeatOf) return null
+
+  const sentAt = repeatOf.sentAt.toISOString().slice(0, 10)
+  if (language === 'en') {
+    return `Repeat infringement: this same material was the subject of our notice of ${sentAt} (reference ${repeatOf.takedownRequestId}) ` +
+      `concerning ${repeatOf.url}. It was removed after that notice and has since been uploaded again to your service. ` +
+      'Please remove it and apply your repeat infringer policy to the account responsible.'
+  }
+  return `Reincidência: este mesmo material foi objeto de nossa notificação de ${sentAt} (referência ${repeatOf.takedownRequestId}) ` +
+    `relativa a ${repeatOf.url}. Ele foi removido após aquela notificação e voltou a ser publicado em seu serviço. ` +
+    'Solicitamos a remoção e a aplicação da sua política para infratores reincidentes à conta responsável.'
+}
+
+const REQUESTER_ROLE_LABELS: Record<DmcaTemplateLanguage, Record<RequesterRole, string>> = {
+  pt: { VICTIM: 'pessoa retratada no material', LEGAL_REPRESENTATIVE: 'representante legal da pessoa retratada' },
+  en: { VICTIM: 'the person depicted', LEGAL_REPRESENTATIVE: 'legal representative of the person depicted' }
+}
+
+function defaultExplanation(language: DmcaTemplateLanguage, workDescription: string, originalUrl?: string | null): string {
+  if (language === 'en') {
+    return `The content at the location(s) above reproduces, without the rights holder's authorization, the protected work "${workDescription}"` +
+      `${originalUrl ? `, originally published at ${originalUrl}` : ''}, infringing copyright.`
+  }
+  return `O conteúdo no(s) endereço(s) acima reproduz, sem autorização do titular, a obra protegida "${workDescription}"` +
+    `${originalUrl ? `, publicada originalmente em ${originalUrl}` : ''}, em violação de direitos autorais.`
+}
+
+/**
+ * Campos exigidos pelos regimes jurídicos a partir do cadastro e dos dados informados no envio
+ */
+export function buildNoticeFields(
+  language: DmcaTemplateLanguage,
+  takedownType: TakedownType,
+  data: NoticeData
+): NoticeFields {
+  const brandProfile = data.content.brandProfile
+  const overrides = data.noticeFields ?? {}
+  const workDescription = overrides.workDescription ?? (brandProfile?.description || data.content.title)
+  const originalUrl = overrides.originalUrl ?? brandProfile?.officialUrls[0] ?? null
+
+  return {
+    senderName: overrides.senderName ?? data.user.name,
+    senderEmail: overrides.senderEmail ?? data.user.email,
+    senderPhone: overrides.senderPhone ?? data.user.phone ?? null,
+    senderAddress: overrides.senderAddress ?? data.user.address ?? null,
+    workDescription,
+    originalUrl,
+    infringingUrls: data.infringingUrls?.length ? data.infringingUrls : [data.content.infringingUrl],
+    // Conteúdo íntimo não tem obra protegida: a justificativa é a falta de consentimento
+    explanation: overrides.explanation
+      ?? (takedownType !== 'PRIVACY_VIOLATION' && workDescription ? defaultExplanation(language, workDescription, originalUrl) : null),
+    affectedPersonName: overrides.affectedPersonName ?? null,
+    requesterRole: overrides.requesterRole ?? null
+  }
+}
+
+/**
+ * Variáveis do template a partir do conteúdo detectado e do titular
+ */
+export function buildTemplateContext(
+  language: DmcaTemplateLanguage,
+  data: NoticeData,
+  options: { takedownType?: TakedownType; legalFramework?: LegalFramework } = {}
+): TemplateContext {
+  const locale = language === 'en' ? 'en-US' : 'pt-BR'
+  const fields = buildNoticeFields(language, options.takedownType ?? 'DMCA', data)
+  const brandProfile = data.content.brandProfile
+
+  return {
+    userName: fields.senderName,
+    userEmail: fields.senderEmail,
+    userPhone: fields.senderPhone,
+    userAddress: fields.senderAddress,
+    infringingUrl: data.content.infringingUrl,
+    infringingUrlList: formatInfringingUrlList(language, fields.infringingUrls),
+    urlCount: fields.infringingUrls.length,
+    domain: getDomain(data.content.infringingUrl),
+    platform: data.content.platform,
+    contentTitle: data.content.title,
+    contentDescription: fields.workDescription,
+    originalUrl: fields.originalUrl,
+    brandName: brandProfile?.brandName,
+    detectedAt: data.content.detectedAt.toLocaleDateString(locale),
+    contactName: contactNameFromEmail(data.contactEmail),
+    customMessage: data.customMessage,
+    evidenceReference: formatEvidenceReference(language, data.evidence),
+    repeatInfringementReference: formatRepeatInfringementReference(language, data.repeatOf),
+    explanation: fields.explanation,
+    affectedPersonName: fields.affectedPersonName,
+    requesterRole: fields.requesterRole ? REQUESTER_ROLE_LABELS[language][fields.requesterRole] : null,
+    legalBasis: LEGAL_FRAMEWORKS[options.legalFramework ?? 'US_DMCA'].legalBasis[language],
+    currentDate: new Date().toLocaleDateString(locale)
+  }
+}
+
+function assertValidTemplate(
+  subject: string,
+  body: string,
+  legalFramework: LegalFramework,
+  takedownType: TakedownType
+) {
+  const errors = [
+    ...validateTemplate(subject).errors.map(error => `Assunto: ${error}`),
+    ...validateTemplate(body).errors.map(error => `Corpo: ${error}`)
+  ]
+  if (errors.length === 0) {
+    errors.push(...validateTemplateForFramework(legalFramework, takedownType, subject, body))
+  }
+  if (errors.length > 0) {
+    throw new TemplateSyntaxError(errors)
+  }
+}
+
+export class DmcaTemplateService {
+  /**
+   * Templates do usuário e do sistema, ativos
+   */
+  async list(
+    userId: string,
+    filters: { takedownType?: TakedownType; legalFramework?: LegalFramework; language?: string } = {}
+  ): Promise<DmcaTemplate[]> {
+    return prisma.dmcaTemplate.findMany({
+      where: {
+        isActive: true,
+        OR: [{ userId }, { userId: null }],
+        ...(filters.takedownType && { takedownType: filters.takedownType }),
+        ...(filters.legalFramework && { legalFramework: filters.legalFramework }),
+        ...(filters.language && { language: filters.language })
+      },
+      orderBy: [{ legalFramework: 'asc' }, { takedownType: 'asc' }, { isDefault: 'desc' }, { name: 'asc' }]
+    })
+  }
+
+  /**
+   * Template ativo que o usuário pode usar (próprio ou do sistema)
+   */
+  async findAccessible(id: string, userId: string): Promise<DmcaTemplate | null> {
+    return prisma.dmcaTemplate.findFirst({
+      where: { id, isActive: true, OR: [{ userId }, { userId: null }] }
+    })
+  }
+
+  /**
+   * Templates do sistema só podem ser alterados por administradores
+   */
+  canEdit(template: DmcaTemplate, user: { id: string; planType?: string }): boolean {
+    return template.userId === null ? user.planType === 'SUPER_USER' : template.userId === user.id
+  }
+
+  async listVersions(templateId: string): Promise<DmcaTemplateVersion[]> {
+    return prisma.dmcaTemplateVersion.findMany({
+      where: { templateId },
+      orderBy: { version: 'desc' }
+    })
+  }
+
+  /**
+   * Criar template (ownerId nulo = template do sistema) com a versão 1
+   */
+  async create(ownerId: string | null, input: DmcaTemplateInput, createdById: string): Promise<DmcaTemplate> {
+    const legalFramework = input.legalFramework ?? 'US_DMCA'
+    assertValidTemplate(input.subject, input.body, legalFramework, input.takedownType)
+
+    return prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await this.clearDefault(tx, ownerId, input.takedownType, legalFramework, input.language)
+      }
+
+      return tx.dmcaTemplate.create({
+        data: {
+          userId: ownerId,
+          name: input.name,
+          description: input.description,
+          language: input.language,
+          takedownType: input.takedownType,
+          legalFramework,
+          subject: input.subject,
+          body: input.body,
+          isDefault: input.isDefault ?? false,
+          version: 1,
+          versions: {
+            create: { version: 1, subject: input.subject, body: input.body, createdById }
+          }
+        }
+      })
+    })
+  }
+
+  /**
+   * Atualizar template; mudanças no assunto ou corpo geram nova versão
+   */
+  async update(template: DmcaTemplate, changes: DmcaTemplateChanges, editorId: string): Promise<DmcaTemplate> {
+    const subject = changes.subject ?? template.subject
+    const body = changes.body ?? template.body
+    const takedownType = changes.takedownType ?? template.takedownType
+    const legalFramework = changes.legalFramework ?? template.legalFramework
+    const language = changes.language ?? template.language
+    assertValidTemplate(subject, body, legalFramework, takedownType)
+
+    const contentChanged = subject !== template.subject || body !== template.body
+
+    return prisma.$transaction(async (tx) => {
+      if (changes.isDefault) {
+        await this.clearDefault(tx, template.userId, takedownType, legalFramework, language, template.id)
+      }
+
+      // Incremento condicional: duas edições simultâneas não geram a mesma versão
+      const updated = await tx.dmcaTemplate.updateMany({
+        where: { id: template.id, version: template.version },
+        data: {
+          name: changes.name,
+          description: changes.description,
+          language,
+          takedownType,
+          legalFramework,
+          subject,
+          body,
+          isDefault: changes.isDefault,
+          ...(contentChanged && { version: { increment: 1 } })
+        }
+      })
+      if (updated.count === 0) {
+        throw new Error('Template alterado por outra edição; recarregue e tente novamente')
+      }
+
+      if (contentChanged) {
+        await tx.dmcaTemplateVersion.create({
+          data: {
+            templateId: template.id,
+            version: template.version + 1,
+            subject,
+            body,
+            changeNote: changes.changeNote,
+            createdById: editorId
+          }
+        })
+      }
+
+      return tx.dmcaTemplate.findUniqueOrThrow({ where: { id: template.id } })
+    })
+  }
+
+  /**
+   * Restaurar uma versão anterior como nova versão
+   */
+  async restoreVersion(template: DmcaTemplate, version: number, editorId: string): Promise<DmcaTemplate | null> {
+    const previous = await prisma.dmcaTemplateVersion.findUnique({
+      where: { templateId_version: { templateId: template.id, version } }
+    })
+    if (!previous) return null
+
+    return this.update(
+      template,
+      { subject: previous.subject, body: previous.body, changeNote: `Restaurado da versão ${version}` },
+      editorId
+    )
+  }
+
+  /**
+   * Desativar template; notificações já geradas mantêm a referência
+   */
+  async archive(template: DmcaTemplate): Promise<void> {
+    await prisma.dmcaTemplate.update({
+      where: { id: template.id },
+      data: { isActive: false, isDefault: false }
+    })
+  }
+
+  /**
+   * Template a usar: o escolhido, o padrão do usuário ou o padrão do sistema para o tipo, regime e idioma
+   */
+  async resolve(
+    userId: string,
+    takedownType: TakedownType,
+    language: DmcaTemplateLanguage,
+    templateId?: string,
+    legalFramework: LegalFramework = 'US_DMCA'
+  ): Promise<DmcaTemplate | null> {
+    if (templateId) {
+      const selected = await this.findAccessible(templateId, userId)
+      if (!selected) {
+        throw new Error('Template DMCA não encontrado')
+      }
+      return selected
+    }
+
+    const defaults = await prisma.dmcaTemplate.findMany({
+      where: {
+        takedownType,
+        legalFramework,
+        language,
+        isActive: true,
+        isDefault: true,
+        OR: [{ userId }, { userId: null }]
+      }
+    })
+
+    return defaults.find(template => template.userId === userId)
+      ?? defaults.find(template => template.userId === null)
+      ?? null
+  }
+
+  /**
+   * Gerar assunto e corpo da notificação; sem template cadastrado usa o texto embutido do regime
+   */
+  async renderNotice(userId: string, options: RenderNoticeOptions, data: NoticeData): Promise<RenderedNotice> {
+    const requestedLanguage = options.language ?? 'pt'
+    const takedownType = options.takedownType ?? 'DMCA'
+    const legalFramework = options.legalFramework ?? 'US_DMCA'
+    const template = await this.resolve(userId, takedownType, requestedLanguage, options.templateId, legalFramework)
+    // Template escolhido explicitamente define o idioma de todo o texto gerado
+    const language = (template?.language as DmcaTemplateLanguage | undefined) ?? requestedLanguage
+    const noticeFields = buildNoticeFields(language, takedownType, data)
+
+    if (!template && legalFramework === 'US_DMCA') {
+      const notice = generateDmcaNotice(language, {
+        userName: data.user.name,
+        userEmail: data.user.email,
+        userPhone: data.user.phone || undefined,
+        infringingUrl: data.content.infringingUrl,
+        infringingUrls: data.infringingUrls,
+        contentDescription: data.content.brandProfile?.description || data.content.title,
+        originalUrl: data.content.brandProfile?.officialUrls[0],
+        evidenceReference: formatEvidenceReference(language, data.evidence) ?? undefined,
+        repeatInfringementReference: formatRepeatInfringementReference(language, data.repeatOf) ?? undefined
+      })
+      return { ...notice, templateId: null, templateVersion: null, legalFramework, language, noticeFields }
+    }
+
+    const context = buildTemplateContext(language, data, { takedownType, legalFramework })
+    const source = template ?? LEGAL_FRAMEWORKS[legalFramework].notices[language]
+    const subject = renderTemplate(source.subject, context).trim()
+    const urlCount = noticeFields.infringingUrls.length
+
+    return {
+      subject: !template && urlCount > 1 ? `${subject} (${urlCount} URLs)` : subject,
+      body: renderTemplate(source.body, context),
+      templateId: template?.id ?? null,
+      templateVersion: template?.version ?? null,
+      legalFramework,
+      language,
+      noticeFields
+    }
+  }
+
+  /**
+   * Pré-visualizar um template (salvo ou em edição) sem lançar erro de sintaxe
+   */
+  preview(
+    source: { subject: string; body: string },
+    context: TemplateContext,
+    options: { takedownType?: TakedownType; legalFramework?: LegalFramework } = {}
+  ): TemplatePreview {
+    const validation = { subject: validateTemplate(source.subject), body: validateTemplate(source.body) }
+
+    return {
+      subject: validation.subject.valid ? renderTemplate(source.subject, context).trim() : source.subject,
+      body: validation.body.valid ? renderTemplate(source.body, context) : source.body,
+      validation,
+      frameworkErrors: validateTemplateForFramework(
+        options.legalFramework ?? 'US_DMCA',
+        options.takedownType ?? 'DMCA',
+        source.subject,
+        source.body
+      )
+    }
+  }
+
+  private async clearDefault(
+    tx: Prisma.TransactionClient,
+    ownerId: string | null,
+    takedownType: TakedownType,
+    legalFramework: LegalFramework,
+    language: string,
+    exceptId?: string
+  ) {
+    await tx.dmcaTemplate.updateMany({
+      where: {
+        userId: ownerId,
+        takedownType,
+        legalFramework,
+        language,
+        isDefault: true,
+        ...(exceptId && { id: { not: exceptId } })
+      },
+      data: { isDefault: false }
+    })
+  }
+}
+
+export const dmcaTemplateService = new DmcaTemplateService()
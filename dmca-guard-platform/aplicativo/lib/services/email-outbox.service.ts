@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto'
+import {
+  EmailCategory,
+  EmailDeliveryStatus,
+  EmailOutbox,
+  EmailOutboxStatus,
+  EmailTransportType,
+  Prisma
+} from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+import {
+  EmailTransport,
+  EmailTransportError,
+  TransportSendResult,
+  getEmailTransport,
+  resolveTransportType
+} from '@/lib/services/email-transports'
+
+const MINUTE_MS = 60 * 1000
+
+export interface EnqueueEmailInput {
+  idempotencyKey?: string
+  category: EmailCategory
+  to: string | string[]
+  subject: string
+  html: string
+  text?: string
+  from?: string
+  replyTo?: string | null
+  headers?: Record<string, string>
+  userId?: string | null
+  takedownRequestId?: string | null
+  transport?: EmailTransportType
+  maxAttempts?: number
+  availableAt?: Date
+}
+
+export interface EmailOutboxOptions {
+  batchSize: number
+  domainLimit: number          // envios por domínio destinatário dentro da janela
+  domainWindowMs: number
+  baseRetryDelayMs: number
+  maxRetryDelayMs: number
+  staleLockMs: number          // SENDING sem conclusão após esse tempo é tratado como envio interrompido
+  transportResolver: (type: EmailTransportType) => EmailTransport
+}
+
+export interface OutboxCycleResult {
+  processed: number
+  sent: number
+  retried: number
+  dead: number
+  throttled: number
+  stalled: number              // envios interrompidos enviados para revisão manual
+  errors: number
+}
+
+// Cliente mínimo para gravar no outbox dentro da transação de quem chama
+export type OutboxClient = Pick<Prisma.TransactionClient, 'emailOutbox'>
+
+const DISPATCHABLE_STATUSES: EmailOutboxStatus[] = ['PENDING', 'FAILED']
+
+export function getEmailOutboxOptionsFromEnv(): Partial<EmailOutboxOptions> {
+  return {
+    domainLimit: parseInt(process.env.EMAIL_DOMAIN_RATE_LIMIT || '10'),
+    batchSize: parseInt(process.env.EMAIL_OUTBOX_BATCH_SIZE || '50')
+  }
+}
+
+/**
+ * Domínio usado para throttling: o do primeiro destinatário
+ */
+export function getRecipientDomain(to: string[]): string {
+  const address = to[0]?.trim().toLowerCase() ?? ''
+  return address.split('@')[1]?.replace(/>$/, '') || 'unknown'
+}
+
+/**
+ * Espera antes da tentativa seguinte: 1, 2, 4, 8... minutos, até o teto
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseMs: number = MINUTE_MS,
+  maxMs: number = 6 * 60 * MINUTE_MS
+): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempt - 1)), maxMs)
+}
+
+export class EmailOutboxService {
+  private readonly options: EmailOutboxOptions
+
+  constructor(options: Partial<EmailOutboxOptions> = {}) {
+    this.options = {
+      batchSize: 50,
+      domainLimit: 10,
+      domainWindowMs: MINUTE_MS,
+      baseRetryDelayMs: MINUTE_MS,
+      maxRetryDelayMs: 6 * 60 * MINUTE_MS,
+      staleLockMs: 10 * MINUTE_MS,
+      transportResolver: getEmailTransport,
+      ...options
+    }
+  }
+
+  /**
+   * Gravar e-mail no outbox; a mesma idempotencyKey devolve a linha já existente
+   */
+  async enqueue(input: EnqueueEmailInput, db: OutboxClient = prisma): Promise<EmailOutbox> {
+    const to = Array.isArray(input.to) ? input.to : [input.to]
+    const idempotencyKey = input.idempotencyKey || `email:${randomUUID()}`
+
+    return db.emailOutbox.upsert({
+      where: { idempotencyKey },
+      create: {
+        idempotencyKey,
+        category: input.category,
+        transport: input.transport ?? resolveTransportType(input.category),
+        userId: input.userId ?? undefined,
+        takedownRequestId: input.takedownRequestId ?? undefined,
+        fromAddress: input.from,
+        toAddresses: to,
+        recipientDomain: getRecipientDomain(to),
+        replyTo: input.replyTo ?? undefined,
+        subject: input.subject,
+        html: input.html,
+        text: input.text,
+        headers: input.headers,
+        maxAttempts: input.maxAttempts ?? parseInt(process.env.EMAIL_OUTBOX_MAX_ATTEMPTS || '6'),
+        nextAttemptAt: input.availableAt ?? new Date()
+      },
+      update: {}
+    })
+  }
+
+  /**
+   * Tentar entregar uma linha imediatamente (ex.: logo após o commit de quem enfileirou)
+   */
+  async dispatch(outboxId: string, now: Date = new Date()): Promise<EmailOutboxStatus | null> {
+    const entry = await prisma.emailOutbox.findUnique({ where: { id: outboxId } })
+    if (!entry) return null
+    if (!DISPATCHABLE_STATUSES.includes(entry.status) || entry.nextAttemptAt > now) return entry.status
+
+    if (await this.isThrottled(entry, now, new Map())) {
+      await this.defer(entry, now)
+      return entry.status
+    }
+
+    return this.claimAndDeliver(entry, now)
+  }
+
+  /**
+   * Entregar as linhas vencidas, respeitando o limite por domínio
+   */
+  async processDue(now: Date = new Date()): Promise<OutboxCycleResult> {
+    const result: OutboxCycleResult = { processed: 0, sent: 0, retried: 0, dead: 0, throttled: 0, stalled: 0, errors: 0 }
+    result.stalled = await this.holdStalledSends(now)
+
+    const entries = await prisma.emailOutbox.findMany({
+      where: this.dueFilter(now),
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.options.batchSize
+    })
+
+    // Envios feitos neste ciclo, somados à contagem do banco
+    const sentThisCycle = new Map<string, number>()
+
+    for (const entry of entries) {
+      try {
+        if (await this.isThrottled(entry, now, sentThisCycle)) {
+          await this.defer(entry, now)
+          result.throttled++
+          continue
+        }
+
+        const status = await this.claimAndDeliver(entry, now)
+        if (!status) continue
+
+        result.processed++
+        if (status === 'SENT') {
+          result.sent++
+          sentThisCycle.set(entry.recipientDomain, (sentThisCycle.get(entry.recipientDomain) ?? 0) + 1)
+        } else if (status === 'DEAD') {
+          result.dead++
+        } else {
+          result.retried++
+        }
+      } catch (error) {
+        result.errors++
+        console.error(`Erro ao processar e-mail ${entry.id} do outbox:`, error)
+      }
+    }
+
+    return result
+  }
+
+  private dueFilter(now: Date): Prisma.EmailOutboxWhereInput {
+    return {
+      OR: [
+        { status: { in: DISPATCHABLE_STATUSES }, nextAttemptAt: { lte: now } },
+        // Dispatcher caiu no meio do envio: só volta para a fila se o provedor deduplica pela idempotencyKey
+        { status: 'SENDING', lockedAt: { lt: this.staleBefore(now) }, transport: { in: this.deduplicatingTransports() } }
+      ]
+    }
+  }
+
+  private staleBefore(now: Date): Date {
+    return new Date(now.getTime() - this.options.staleLockMs)
+  }
+
+  private deduplicatingTransports(): EmailTransportType[] {
+    return Object.values(EmailTransportType).filter(type => this.options.transportResolver(type).deduplicates)
+  }
+
+  /**
+   * SENDING interrompido em transporte sem deduplicação pode já ter saído: reenviar duplicaria a
+   * notificação, então a linha vai para NEEDS_REVIEW
+   */
+  private async holdStalledSends(now: Date): Promise<number> {
+    const stalled = await prisma.emailOutbox.updateMany({
+      where: {
+        status: 'SENDING',
+        lockedAt: { lt: this.staleBefore(now) },
+        transport: { notIn: this.deduplicatingTransports() }
+      },
+      data: {
+        status: 'NEEDS_REVIEW',
+        lockedAt: null,
+        lastError: 'Envio interrompido sem confirmação; verifique se o e-mail saiu antes de reenviar'
+      }
+    })
+    if (stalled.count > 0) {
+      console.warn(`✉️ ${stalled.count} e-mail(s) interrompido(s) no envio movido(s) para revisão manual`)
+    }
+    return stalled.count
+  }
+
+  private async isThrottled(entry: EmailOutbox, now: Date, sentThisCycle: Map<string, number>): Promise<boolean> {
+    const recent = await prisma.emailOutbox.count({
+      where: {
+        recipientDomain: entry.recipientDomain,
+        status: 'SENT',
+        sentAt: { gte: new Date(now.getTime() - this.options.domainWindowMs) }
+      }
+    })
+    return recent + (sentThisCycle.get(entry.recipientDomain) ?? 0) >= this.options.domainLimit
+  }
+
+  private async defer(entry: EmailOutbox, now: Date) {
+    await prisma.emailOutbox.updateMany({
+      where: { id: entry.id, status: entry.status },
+      data: { nextAttemptAt: new Date(now.getTime() + this.options.domainWindowMs) }
+    })
+    await this.logDelivery(entry, entry.attempts, 'THROTTLED', {
+      error: `Limite de ${this.options.domainLimit} envios por janela para ${entry.recipientDomain}`
+    })
+  }
+
+  /**
+   * Reivindicar a linha (outra instância pode estar enviando) e entregar
+   */
+  private async claimAndDeliver(entry: EmailOutbox, now: Date): Promise<EmailOutboxStatus | null> {
+    const claimed = await prisma.emailOutbox.updateMany({
+      where: { id: entry.id, ...this.dueFilter(now) },
+      data: { status: 'SENDING', lockedAt: now, attempts: { increment: 1 } }
+    })
+    if (claimed.count === 0) return null
+
+    const attempt = entry.attempts + 1
+    const startedAt = Date.now()
+
+    let sent: TransportSendResult
+    try {
+      const transport = this.options.transportResolver(entry.transport)
+      sent = await transport.send({
+        from: entry.fromAddress,
+        to: entry.toAddresses,
+        subject: entry.subject,
+        html: entry.html,
+        text: entry.text,
+        replyTo: entry.replyTo,
+        headers: (entry.headers as Record<string, string> | null) ?? undefined,
+        idempotencyKey: entry.idempotencyKey,
+        userId: entry.userId
+      })
+    } catch (error) {
+      return this.recordSendFailure(entry, attempt, now, startedAt, error)
+    }
+
+    // O e-mail já saiu: erro daqui em diante nunca pode levar a FAILED/DEAD (e a um reenvio)
+    try {
+      await prisma.emailOutbox.update({
+        where: { id: entry.id },
+        data: {
+          status: 'SENT',
+          sentAt: now,
+          lockedAt: null,
+          providerMessageId: sent.providerMessageId,
+          lastError: null
+        }
+      })
+    } catch (error) {
+      console.error(`Erro ao marcar e-mail ${entry.id} como SENT após o envio (${sent.providerMessageId ?? 'sem id'}):`, error)
+    }
+    await this.logDelivery(entry, attempt, 'SENT', {
+      providerMessageId: sent.providerMessageId,
+      durationMs: Date.now() - startedAt
+    })
+
+    return 'SENT'
+  }
+
+  /**
+   * Falha do transporte: nova tentativa com backoff ou dead-letter
+   */
+  private async recordSendFailure(
+    entry: EmailOutbox,
+    attempt: number,
+    now: Date,
+    startedAt: number,
+    error: unknown
+  ): Promise<EmailOutboxStatus> {
+    const message = error instanceof Error ? error.message : String(error)
+    const permanent = error instanceof EmailTransportError && error.permanent
+    const status: EmailOutboxStatus = permanent || attempt >= entry.maxAttempts ? 'DEAD' : 'FAILED'
+
+    await prisma.emailOutbox.update({
+      where: { id: entry.id },
+      data: {
+        status,
+        lockedAt: null,
+        lastError: message,
+        ...(status === 'FAILED' && {
+          nextAttemptAt: new Date(now.getTime() + computeRetryDelay(
+            attempt,
+            this.options.baseRetryDelayMs,
+            this.options.maxRetryDelayMs
+          ))
+        })
+      }
+    })
+    await this.logDelivery(entry, attempt, 'FAILED', { error: message, durationMs: Date.now() - startedAt })
+
+    if (status === 'DEAD') {
+      await this.handleDeadLetter(entry, attempt, message)
+    }
+
+    return status
+  }
+
+  /**
+   * Entrega desistida: registrar na timeline e marcar a notificação inicial como FAILED
+   */
+  private async handleDeadLetter(entry: EmailOutbox, attempts: number, error: string) {
+    console.error(`✉️ E-mail ${entry.id} (${entry.category}) descartado após ${attempts} tentativas: ${error}`)
+    if (!entry.takedownRequestId) return
+
+    await recordTimelineEvent(entry.takedownRequestId, 'SEND_FAILED', {
+      recipients: entry.toAddresses,
+      message: error,
+      metadata: { outboxId: entry.id, category: entry.category, attempts, transport: entry.transport }
+    })
+
+    if (entry.category === 'TAKEDOWN_NOTICE') {
+      await prisma.takedownRequest.updateMany({
+        where: { id: entry.takedownRequestId, status: 'SENT' },
+        data: { status: 'FAILED' }
+      })
+    }
+  }
+
+  private async logDelivery(
+    entry: EmailOutbox,
+    attempt: number,
+    status: EmailDeliveryStatus,
+    details: { providerMessageId?: string; error?: string; durationMs?: number }
+  ) {
+    try {
+      await prisma.emailDeliveryLog.create({
+        data: {
+          outboxId: entry.id,
+          attempt,
+          transport: entry.transport,
+          status,
+          ...details
+        }
+      })
+    } catch (error) {
+      console.error(`Erro ao registrar entrega do e-mail ${entry.id}:`, error)
+    }
+  }
+}
+
+export const emailOutboxService = new EmailOutboxService(getEmailOutboxOptionsFromEnv())
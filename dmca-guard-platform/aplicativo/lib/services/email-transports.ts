@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { EmailCategory, EmailTransportType } from '@prisma/client'
+import type { Resend } from 'resend'
+import nodemailer, { Transporter } from 'nodemailer'
+import MailComposer from 'nodemailer/lib/mail-composer'
+
+export interface OutboundEmail {
+  from?: string | null
+  to: string[]
+  subject: string
+  html: string
+  text?: string | null
+  replyTo?: string | null
+  headers?: Record<string, string>
+  idempotencyKey?: string
+  userId?: string | null
+}
+
+export interface TransportSendResult {
+  providerMessageId?: string
+}
+
+export interface EmailTransport {
+  readonly type: EmailTransportType
+  // O provedor descarta reenvios com a mesma idempotencyKey (seguro repetir um envio interrompido)
+  readonly deduplicates?: boolean
+  send(email: OutboundEmail): Promise<TransportSendResult>
+}
+
+/**
+ * Falha de entrega; permanent indica que uma nova tentativa não resolve (ex.: endereço inválido)
+ */
+export class EmailTransportError extends Error {
+  constructor(message: string, readonly permanent: boolean = false) {
+    super(message)
+    this.name = 'EmailTransportError'
+  }
+}
+
+// Erros do Resend que não mudam com retry
+const RESEND_PERMANENT_ERRORS = new Set([
+  'missing_required_field',
+  'invalid_parameter',
+  'validation_error',
+  'invalid_from_address',
+  'invalid_idempotent_request'
+])
+
+export function defaultFromAddress(): string | undefined {
+  return process.env.EMAIL_FROM || process.env.RESEND_SENDER_FROM_EMAIL
+}
+
+function requireFrom(email: OutboundEmail): string {
+  const from = email.from || defaultFromAddress()
+  if (!from) {
+    throw new EmailTransportError('Remetente não configurado (EMAIL_FROM ou RESEND_SENDER_FROM_EMAIL)')
+  }
+  return from
+}
+
+/**
+ * Montar a mensagem MIME completa (Gmail API e gravação em arquivo)
+ */
+export async function buildMimeMessage(email: OutboundEmail): Promise<Buffer> {
+  const { 'Message-ID': messageId, ...headers } = email.headers ?? {}
+  const composer = new MailComposer({
+    from: email.from || defaultFromAddress(),
+    to: email.to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text || undefined,
+    replyTo: email.replyTo || undefined,
+    messageId,
+    headers
+  })
+  return composer.compile().build()
+}
+
+export class ResendTransport implements EmailTransport {
+  readonly type = 'RESEND' as const
+  readonly deduplicates = true
+  private client: Resend | null = null
+
+  async send(email: OutboundEmail): Promise<TransportSendResult> {
+    if (!this.client) {
+      const { Resend } = await import('resend')
+      this.client = new Resend(process.env.RESEND_API_KEY)
+    }
+
+    const result = await this.client.emails.send({
+      from: requireFrom(email),
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text || undefined,
+      replyTo: email.replyTo || undefined,
+      headers: email.headers
+    }, { idempotencyKey: email.idempotencyKey })
+
+    if (result.error) {
+      throw new EmailTransportError(
+        `Resend: ${result.error.message}`,
+        RESEND_PERMANENT_ERRORS.has(result.error.name)
+      )
+    }
+
+    return { providerMessageId: result.data?.id }
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly type = 'SMTP' as const
+  private transporter: Transporter | null = null
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      if (!process.env.SMTP_HOST) {
+        throw new EmailTransportError('SMTP_HOST não configurado')
+      }
+
+      const port = parseInt(process.env.SMTP_PORT || '587')
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+          : undefined
+      })
+    }
+    return this.transporter
+  }
+
+  async send(email: OutboundEmail): Promise<TransportSendResult> {
+    const { 'Message-ID': messageId, ...headers } = email.headers ?? {}
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: requireFrom(email),
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text || undefined,
+        replyTo: email.replyTo || undefined,
+        messageId,
+        headers
+      })
+      return { providerMessageId: info.messageId }
+    } catch (error: any) {
+      if (error instanceof EmailTransportError) throw error
+      // Respostas 5xx do servidor SMTP são rejeições definitivas
+      const permanent = typeof error?.responseCode === 'number' && error.responseCode >= 500
+      throw new EmailTransportError(`SMTP: ${error?.message || 'falha no envio'}`, permanent)
+    }
+  }
+}
+
+/**
+ * Envia pela conta Gmail conectada do usuário, para que a notificação saia do próprio endereço dele
+ */
+export class GmailApiTransport implements EmailTransport {
+  readonly type = 'GMAIL' as const
+
+  async send(email: OutboundEmail): Promise<TransportSendResult> {
+    if (!email.userId) {
+      throw new EmailTransportError('Envio via Gmail exige o usuário dono da integração', true)
+    }
+
+    // Import dinâmico: o cliente Gmail carrega googleapis e Redis
+    const { gmailService } = await import('./gmail-secure')
+    const raw = await buildMimeMessage(email)
+
+    try {
+      const sent = await gmailService.sendRawMessage(email.userId, raw)
+      return { providerMessageId: sent.id ?? undefined }
+    } catch (error: any) {
+      const status = error?.code ?? error?.response?.status
+      const permanent = status === 400 || /não autenticado/i.test(error?.message || '')
+      throw new EmailTransportError(`Gmail: ${error?.message || 'falha no envio'}`, permanent)
+    }
+  }
+}
+
+/**
+ * Grava cada e-mail como .eml em disco em vez de enviar
+ */
+export class FileSinkTransport implements EmailTransport {
+  readonly type = 'FILE' as const
+
+  constructor(private readonly directory: string = process.env.EMAIL_FILE_SINK_DIR || '/tmp/dmca-guard/outbox') {}
+
+  async send(email: OutboundEmail): Promise<TransportSendResult> {
+    await fs.mkdir(this.directory, { recursive: true })
+
+    const name = `${Date.now()}-${(email.idempotencyKey || 'email').replace(/[^a-zA-Z0-9_-]+/g, '_')}.eml`
+    const filePath = path.join(this.directory, name)
+    await fs.writeFile(filePath, await buildMimeMessage(email))
+
+    return { providerMessageId: `file:${name}` }
+  }
+}
+
+const transports = new Map<EmailTransportType, EmailTransport>()
+
+/**
+ * Registrar (ou substituir) a implementação de um transporte
+ */
+export function registerEmailTransport(transport: EmailTransport): void {
+  transports.set(transport.type, transport)
+}
+
+export function getEmailTransport(type: EmailTransportType): EmailTransport {
+  let transport = transports.get(type)
+  if (!transport) {
+    switch (type) {
+      case 'SMTP':
+        transport = new SmtpTransport()
+        break
+      case 'GMAIL':
+        transport = new GmailApiTransport()
+        break
+      case 'FILE':
+        transport = new FileSinkTransport()
+        break
+      default:
+        transport = new ResendTransport()
+    }
+    transports.set(type, transport)
+  }
+  return transport
+}
+
+function parseTransportType(value: string | undefined): EmailTransportType | null {
+  const normalized = value?.trim().toUpperCase()
+  return normalized && Object.values(EmailTransportType).includes(normalized as EmailTransportType)
+    ? normalized as EmailTransportType
+    : null
+}
+
+/**
+ * Transporte configurado para a categoria (TAKEDOWN_EMAIL_TRANSPORT / NOTIFICATION_EMAIL_TRANSPORT, depois EMAIL_TRANSPORT)
+ */
+export function resolveTransportType(category: EmailCategory): EmailTransportType {
+  const specific = category === 'NOTIFICATION'
+    ? process.env.NOTIFICATION_EMAIL_TRANSPORT
+    : process.env.TAKEDOWN_EMAIL_TRANSPORT
+
+  return parseTransportType(specific) ?? parseTransportType(process.env.EMAIL_TRANSPORT) ?? 'RESEND'
+}
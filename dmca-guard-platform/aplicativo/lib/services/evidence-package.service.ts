@@ -0,0 +1,499 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio/slim'
+import JSZip from 'jszip'
+import { EvidenceArtifact, EvidencePackage, EvidencePackageStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { screenshotRenderer } from '@/lib/services/screenshot-renderer.service'
+import { buildWarcExchange, buildWarcInfo, WarcExchange } from '@/lib/evidence-package/warc'
+import {
+  ArtifactInput,
+  buildManifest,
+  chainArtifacts,
+  ChainVerification,
+  EvidenceManifest,
+  hashManifest,
+  serializeManifest,
+  signManifest,
+  verifyChain,
+  verifyManifestSignature
+} from '@/lib/evidence-package/manifest'
+
+export type EvidenceResponse = Pick<Response, 'status' | 'statusText' | 'headers' | 'arrayBuffer'>
+
+/**
+ * Busca HTTP sem seguir redirecionamentos (cada salto vai para o WARC)
+ */
+export type EvidenceFetcher = (
+  url: string,
+  init: { headers: Record<string, string>; timeoutMs: number }
+) => Promise<EvidenceResponse>
+
+/**
+ * Screenshot da página renderizada; null quando não há navegador disponível
+ */
+export type ScreenshotCapturer = (url: string) => Promise<Buffer | null>
+
+export interface EvidencePackageServiceOptions {
+  fetcher?: EvidenceFetcher
+  screenshot?: ScreenshotCapturer
+  storageDir?: string
+  maxRedirects?: number
+  maxImages?: number
+  maxImageBytes?: number
+  maxPageBytes?: number
+  timeoutMs?: number
+}
+
+export type EvidencePackageWithArtifacts = EvidencePackage & { artifacts: EvidenceArtifact[] }
+
+export interface EvidenceVerification {
+  valid: boolean
+  chain: ChainVerification
+  manifestHashMatches: boolean
+  signatureValid: boolean
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; DMCA-Guard-Evidence/1.0)'
+const SOFTWARE = 'DMCA Guard evidence capture 1.0'
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg'
+}
+
+export const httpEvidenceFetcher: EvidenceFetcher = (url, init) =>
+  fetch(url, {
+    headers: init.headers,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(init.timeoutMs)
+  })
+
+/**
+ * Screenshot da página inteira pelo renderer; sem Chromium configurado o pacote segue sem ele
+ */
+export const rendererScreenshot: ScreenshotCapturer = async (url) => {
+  if (!screenshotRenderer.isAvailable()) return null
+  return (await screenshotRenderer.render(url, { viewport: 'laptop', fullPage: true })).image
+}
+
+function headersToPairs(headers: Headers): Array<[string, string]> {
+  const pairs: Array<[string, string]> = []
+  headers.forEach((value, name) => pairs.push([name, value]))
+  return pairs
+}
+
+/**
+ * URLs absolutas das imagens da página (img, srcset e og:image), sem repetição
+ */
+export function extractImageUrls(html: string, baseUrl: string): string[] {
+  const $ = cheerio.load(html)
+  const candidates: string[] = []
+
+  $('meta[property="og:image"], meta[name="twitter:image"]').each((_, element) => {
+    candidates.push($(element).attr('content') ?? '')
+  })
+  $('img').each((_, element) => {
+    const img = $(element)
+    candidates.push(img.attr('src') ?? img.attr('data-src') ?? '')
+    const srcset = img.attr('srcset')
+    if (srcset) {
+      // Maior resolução declarada costuma ser a última do srcset
+      candidates.push(srcset.split(',').pop()!.trim().split(/\s+/)[0])
+    }
+  })
+
+  const urls = new Set<string>()
+  for (const candidate of candidates) {
+    if (!candidate || candidate.startsWith('data:')) continue
+    try {
+      const url = new URL(candidate, baseUrl)
+      if (url.protocol === 'http:' || url.protocol === 'https:') urls.add(url.toString())
+    } catch {
+      // src inválido
+    }
+  }
+  return Array.from(urls)
+}
+
+export class EvidencePackageService {
+  private readonly fetcher: EvidenceFetcher
+  private readonly screenshot: ScreenshotCapturer
+  private readonly storageDir: string
+  private readonly maxRedirects: number
+  private readonly maxImages: number
+  private readonly maxImageBytes: number
+  private readonly maxPageBytes: number
+  private readonly timeoutMs: number
+
+  constructor(options: EvidencePackageServiceOptions = {}) {
+    this.fetcher = options.fetcher ?? httpEvidenceFetcher
+    this.screenshot = options.screenshot ?? rendererScreenshot
+    this.storageDir = options.storageDir ?? process.env.EVIDENCE_STORAGE_DIR ?? path.join(process.cwd(), 'storage', 'evidence')
+    this.maxRedirects = options.maxRedirects ?? 5
+    this.maxImages = options.maxImages ?? 10
+    this.maxImageBytes = options.maxImageBytes ?? 5 * 1024 * 1024
+    this.maxPageBytes = options.maxPageBytes ?? 500 * 1024
+    this.timeoutMs = options.timeoutMs ?? 20000
+  }
+
+  /**
+   * Registrar a captura de um conteúdo confirmado e executá-la em segundo plano
+   *
+   * Um conteúdo com pacote válido (ou em andamento) não é capturado de novo, a menos que force=true.
+   */
+  async requestCapture(detectedContentId: string, userId: string, options: { force?: boolean } = {}): Promise<EvidencePackage> {
+    if (!options.force) {
+      const existing = await prisma.evidencePackage.findFirst({
+        where: { detectedContentId, status: { not: 'FAILED' } },
+        orderBy: { createdAt: 'desc' }
+      })
+      if (existing) return existing
+    }
+
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      select: { infringingUrl: true }
+    })
+    if (!content) {
+      throw new Error('Conteúdo não encontrado')
+    }
+
+    const evidencePackage = await prisma.evidencePackage.create({
+      data: { detectedContentId, userId, url: content.infringingUrl, status: 'PENDING' }
+    })
+
+    this.capture(evidencePackage.id).catch(error => {
+      console.error(`❌ Falha na captura de evidências ${evidencePackage.id}:`, error)
+    })
+
+    return evidencePackage
+  }
+
+  /**
+   * Capturar página, cabeçalhos, imagens e screenshot, encadear os hashes e assinar o manifesto
+   */
+  async capture(packageId: string): Promise<EvidencePackageWithArtifacts> {
+    const evidencePackage = await prisma.evidencePackage.update({
+      where: { id: packageId },
+      data: { status: 'CAPTURING', errorMessage: null }
+    })
+
+    // Qualquer falha depois daqui precisa sair de CAPTURING, senão o pacote nunca é recapturado
+    try {
+      return await this.runCapture(evidencePackage)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      await prisma.evidencePackage.update({
+        where: { id: packageId },
+        data: { status: 'FAILED', errorMessage: message }
+      })
+      throw error
+    }
+  }
+
+  private async runCapture(evidencePackage: EvidencePackage): Promise<EvidencePackageWithArtifacts> {
+    const packageId = evidencePackage.id
+    const exchanges: WarcExchange[] = []
+    const inputs: ArtifactInput[] = []
+    const warnings: string[] = []
+
+    const page = await this.fetchPage(evidencePackage.url, exchanges)
+    if (page.truncated) {
+      warnings.push(`Página truncada em ${this.maxPageBytes} bytes`)
+    }
+
+    inputs.push({
+      kind: 'HEADERS',
+      fileName: 'headers.json',
+      mimeType: 'application/json',
+      content: Buffer.from(JSON.stringify(
+        exchanges.map(exchange => ({
+          url: exchange.url,
+          status: exchange.status,
+          statusText: exchange.statusText,
+          capturedAt: exchange.capturedAt.toISOString(),
+          headers: exchange.responseHeaders
+        })),
+        null,
+        2
+      )),
+      capturedAt: exchanges[exchanges.length - 1].capturedAt,
+      sourceUrl: page.url
+    })
+
+    if (page.contentType.includes('html')) {
+      const imageUrls = extractImageUrls(page.body.toString('utf8'), page.url).slice(0, this.maxImages)
+      for (const [index, imageUrl] of imageUrls.entries()) {
+        try {
+          const image = await this.fetchImage(imageUrl, exchanges)
+          if (!image) continue
+          inputs.push({
+            kind: 'IMAGE',
+            fileName: `images/${String(index + 1).padStart(2, '0')}.${IMAGE_EXTENSIONS[image.mimeType] ?? 'bin'}`,
+            mimeType: image.mimeType,
+            content: image.body,
+            capturedAt: image.capturedAt,
+            sourceUrl: imageUrl
+          })
+        } catch (error) {
+          warnings.push(`Imagem ${imageUrl}: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+    }
+
+    try {
+      const screenshot = await this.screenshot(page.url)
+      if (screenshot) {
+        inputs.push({
+          kind: 'SCREENSHOT',
+          fileName: 'screenshot.png',
+          mimeType: 'image/png',
+          content: screenshot,
+          capturedAt: new Date(),
+          sourceUrl: page.url
+        })
+      }
+    } catch (error) {
+      warnings.push(`Screenshot: ${error instanceof Error ? error.message : error}`)
+    }
+
+    // O WARC abre a cadeia: contém todas as trocas HTTP, inclusive as das imagens
+    const warcCapturedAt = exchanges[0].capturedAt
+    inputs.unshift({
+      kind: 'WARC',
+      fileName: 'page.warc',
+      mimeType: 'application/warc',
+      content: Buffer.concat([
+        buildWarcInfo('page.warc', warcCapturedAt, SOFTWARE),
+        ...exchanges.map(buildWarcExchange)
+      ]),
+      capturedAt: warcCapturedAt,
+      sourceUrl: evidencePackage.url
+    })
+
+    const artifacts = chainArtifacts(inputs)
+    const packageDir = path.join(this.storageDir, packageId)
+    for (const input of inputs) {
+      const filePath = path.join(packageDir, input.fileName)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, input.content)
+    }
+
+    const manifest = buildManifest({
+      packageId,
+      detectedContentId: evidencePackage.detectedContentId,
+      url: evidencePackage.url,
+      finalUrl: page.url,
+      capturedAt: warcCapturedAt,
+      artifacts
+    })
+    const signature = signManifest(manifest)
+    const status: EvidencePackageStatus = warnings.length > 0 ? 'PARTIAL' : 'COMPLETE'
+
+    return prisma.$transaction(async (tx) => {
+      await tx.evidenceArtifact.createMany({
+        data: artifacts.map(artifact => ({
+          packageId,
+          sequence: artifact.sequence,
+          kind: artifact.kind,
+          fileName: artifact.fileName,
+          mimeType: artifact.mimeType,
+          size: artifact.size,
+          sha256: artifact.sha256,
+          previousHash: artifact.previousHash,
+          chainHash: artifact.chainHash,
+          sourceUrl: artifact.sourceUrl,
+          storagePath: path.join(packageDir, artifact.fileName),
+          capturedAt: new Date(artifact.capturedAt)
+        }))
+      })
+
+      return tx.evidencePackage.update({
+        where: { id: packageId },
+        data: {
+          status,
+          finalUrl: page.url,
+          capturedAt: warcCapturedAt,
+          manifest: manifest as unknown as Prisma.InputJsonValue,
+          manifestHash: hashManifest(manifest),
+          rootHash: manifest.chain.rootHash,
+          signature: signature.signature,
+          signatureAlgorithm: signature.algorithm,
+          signingPublicKey: signature.publicKey,
+          ephemeralKey: signature.ephemeralKey,
+          errorMessage: warnings.length > 0 ? warnings.join('\n') : null
+        },
+        include: { artifacts: { orderBy: { sequence: 'asc' } } }
+      })
+    })
+  }
+
+  /**
+   * Pacote capturado mais recente do conteúdo, para citar na notificação
+   */
+  async findLatestForContent(detectedContentId: string): Promise<EvidencePackage | null> {
+    return prisma.evidencePackage.findFirst({
+      where: { detectedContentId, status: { in: ['COMPLETE', 'PARTIAL'] } },
+      orderBy: { capturedAt: 'desc' }
+    })
+  }
+
+  async findForUser(packageId: string, userId: string): Promise<EvidencePackageWithArtifacts | null> {
+    return prisma.evidencePackage.findFirst({
+      where: { id: packageId, userId },
+      include: { artifacts: { orderBy: { sequence: 'asc' } } }
+    })
+  }
+
+  /**
+   * Recalcular os hashes dos arquivos armazenados e conferir cadeia, manifesto e assinatura
+   */
+  async verify(evidencePackage: EvidencePackageWithArtifacts): Promise<EvidenceVerification> {
+    const manifest = evidencePackage.manifest as unknown as EvidenceManifest | null
+    if (!manifest || !evidencePackage.signature || !evidencePackage.signingPublicKey) {
+      return {
+        valid: false,
+        chain: { valid: false, brokenAt: null, reason: 'Pacote sem manifesto assinado' },
+        manifestHashMatches: false,
+        signatureValid: false
+      }
+    }
+
+    const contents = await this.readArtifacts(evidencePackage.artifacts)
+    const chain = verifyChain(manifest.artifacts, contents)
+    const manifestHashMatches = hashManifest(manifest) === evidencePackage.manifestHash
+    const signatureValid = verifyManifestSignature(manifest, {
+      signature: evidencePackage.signature,
+      publicKey: evidencePackage.signingPublicKey
+    })
+
+    return { valid: chain.valid && manifestHashMatches && signatureValid, chain, manifestHashMatches, signatureValid }
+  }
+
+  /**
+   * ZIP com manifesto, assinatura e artefatos para anexar à notificação ou entregar ao provedor
+   */
+  async exportZip(evidencePackage: EvidencePackageWithArtifacts): Promise<Buffer> {
+    const manifest = evidencePackage.manifest as unknown as EvidenceManifest | null
+    if (!manifest || !evidencePackage.signature) {
+      throw new Error('Pacote de evidências ainda não foi capturado')
+    }
+
+    const zip = new JSZip()
+    zip.file('manifest.json', serializeManifest(manifest))
+    zip.file('manifest.sig.json', JSON.stringify({
+      manifestSha256: evidencePackage.manifestHash,
+      algorithm: evidencePackage.signatureAlgorithm,
+      signature: evidencePackage.signature,
+      publicKey: evidencePackage.signingPublicKey,
+      ephemeralKey: evidencePackage.ephemeralKey
+    }, null, 2))
+
+    const contents = await this.readArtifacts(evidencePackage.artifacts)
+    for (const [fileName, content] of Array.from(contents)) {
+      zip.file(`artifacts/${fileName}`, content)
+    }
+
+    zip.file('README.txt', [
+      `Pacote de evidências ${evidencePackage.id}`,
+      `URL: ${evidencePackage.url}`,
+      `Capturado em: ${manifest.capturedAt}`,
+      '',
+      'Verificação:',
+      '1. O SHA-256 de cada arquivo em artifacts/ deve ser igual ao campo sha256 do manifesto.',
+      `2. Cada chainHash = ${manifest.chain.formula}, começando por ${manifest.chain.genesis}.`,
+      '3. O SHA-256 de manifest.json deve ser igual a manifestSha256 em manifest.sig.json.',
+      '4. A assinatura (base64) de manifest.json é verificada com a chave pública de manifest.sig.json.',
+      ''
+    ].join('\n'))
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  }
+
+  private async readArtifacts(artifacts: EvidenceArtifact[]): Promise<Map<string, Buffer>> {
+    const contents = new Map<string, Buffer>()
+    for (const artifact of artifacts) {
+      try {
+        contents.set(artifact.fileName, await fs.readFile(artifact.storagePath))
+      } catch {
+        // Arquivo ausente: verifyChain aponta o elo
+      }
+    }
+    return contents
+  }
+
+  private requestHeaders(accept: string): Record<string, string> {
+    return { 'User-Agent': USER_AGENT, Accept: accept, 'Accept-Language': 'pt-BR,en;q=0.8' }
+  }
+
+  private async fetchPage(
+    url: string,
+    exchanges: WarcExchange[]
+  ): Promise<{ url: string; body: Buffer; contentType: string; truncated: boolean }> {
+    let currentUrl = url
+
+    for (let hop = 0; hop <= this.maxRedirects; hop++) {
+      const requestHeaders = this.requestHeaders('text/html,application/xhtml+xml,*/*;q=0.8')
+      const response = await this.fetcher(currentUrl, { headers: requestHeaders, timeoutMs: this.timeoutMs })
+      const fullBody = Buffer.from(await response.arrayBuffer())
+      const truncated = fullBody.length > this.maxPageBytes
+      const body = truncated ? fullBody.subarray(0, this.maxPageBytes) : fullBody
+
+      exchanges.push({
+        url: currentUrl,
+        requestHeaders,
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders: headersToPairs(response.headers),
+        body,
+        capturedAt: new Date()
+      })
+
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        currentUrl = new URL(location, currentUrl).toString()
+        continue
+      }
+
+      return { url: currentUrl, body, contentType: response.headers.get('content-type') ?? '', truncated }
+    }
+
+    throw new Error(`Mais de ${this.maxRedirects} redirecionamentos a partir de ${url}`)
+  }
+
+  private async fetchImage(
+    url: string,
+    exchanges: WarcExchange[]
+  ): Promise<{ body: Buffer; mimeType: string; capturedAt: Date } | null> {
+    const requestHeaders = this.requestHeaders('image/*')
+    const response = await this.fetcher(url, { headers: requestHeaders, timeoutMs: this.timeoutMs })
+    const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase()
+    const declaredSize = Number(response.headers.get('content-length') ?? 0)
+
+    if (response.status !== 200 || !mimeType.startsWith('image/') || declaredSize > this.maxImageBytes) {
+      return null
+    }
+
+    const body = Buffer.from(await response.arrayBuffer())
+    if (body.length > this.maxImageBytes) return null
+
+    const capturedAt = new Date()
+    exchanges.push({
+      url,
+      requestHeaders,
+      status: response.status,
+      statusText: response.statusText,
+      responseHeaders: headersToPairs(response.headers),
+      body,
+      capturedAt
+    })
+    return { body, mimeType, capturedAt }
+  }
+}
+
+export const evidencePackageService = new EvidencePackageService()
@@ -4,7 +4,10 @@ import { google } from 'googleapis';
 import { prisma } from '@/lib/prisma';
 import { redis } from '@/lib/redis';
 
-const SCOPES = ['https://www.googleapis.com/auth/gmail.readonly'];
+const SCOPES = [
+  'https://www.googleapis.com/auth/gmail.readonly',
+  'https://www.googleapis.com/auth/gmail.send'
+];
 const TOKEN_CACHE_KEY = 'gmail:oauth:token';
 const TOKEN_CACHE_TTL = 3500; // 58 minutos (token expira em 1h)
 
@@ -14,6 +17,19 @@ export interface GmailCredentials {
   redirect_uri: string;
 }
 
+export interface GmailInboxMessage {
+  id: string;
+  threadId: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: string;
+  to: string[];
+  subject: string;
+  date: Date;
+  text: string;
+}
+
 export class SecureGmailService {
   private static instance: SecureGmailService;
   
@@ -273,6 +289,133 @@ export class SecureGmailService {
     }
   }
 
+  /**
+   * Buscar mensagens recentes da caixa de entrada com cabeçalhos de threading
+   */
+  async fetchRecentMessages(userId: string, options?: {
+    query?: string;
+    maxResults?: number;
+    daysBack?: number;
+  }): Promise<GmailInboxMessage[]> {
+    try {
+      const auth = await this.getAuthenticatedClient(userId);
+      const gmail = google.gmail({ version: 'v1', auth });
+
+      const daysBack = options?.daysBack || 7;
+      const query = [`newer_than:${daysBack}d`, options?.query].filter(Boolean).join(' ');
+
+      const response = await gmail.users.messages.list({
+        userId: 'me',
+        q: query,
+        maxResults: options?.maxResults || 50
+      });
+
+      const messages = response.data.messages || [];
+      const parsed: GmailInboxMessage[] = [];
+
+      for (const message of messages) {
+        try {
+          const msgData = await gmail.users.messages.get({
+            userId: 'me',
+            id: message.id!
+          });
+
+          parsed.push(this.parseInboxMessage(msgData.data));
+        } catch (error) {
+          console.error(`Erro ao processar mensagem ${message.id}:`, error);
+        }
+      }
+
+      return parsed;
+    } catch (error) {
+      console.error('Erro ao buscar mensagens do Gmail:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enviar mensagem MIME já montada pela conta conectada do usuário
+   */
+  async sendRawMessage(userId: string, raw: Buffer): Promise<{ id: string | null; threadId: string | null }> {
+    const auth = await this.getAuthenticatedClient(userId);
+    const gmail = google.gmail({ version: 'v1', auth });
+
+    const response = await gmail.users.messages.send({
+      userId: 'me',
+      requestBody: { raw: raw.toString('base64url') }
+    });
+
+    return {
+      id: response.data.id ?? null,
+      threadId: response.data.threadId ?? null
+    };
+  }
+
+  /**
+   * Parse de mensagem genérica (remetente, threading e corpo em texto)
+   */
+  private parseInboxMessage(message: any): GmailInboxMessage {
+    const headers: any[] = message.payload?.headers || [];
+    const header = (name: string) =>
+      headers.find((h: any) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+
+    const { bodyHtml, bodyText } = this.extractBodies(message.payload || {});
+    const text = bodyText || bodyHtml
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ');
+
+    const dateHeader = header('Date');
+    const date = dateHeader ? new Date(dateHeader) : new Date(Number(message.internalDate) || Date.now());
+
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      messageId: header('Message-ID') || null,
+      inReplyTo: header('In-Reply-To') || null,
+      references: header('References').split(/\s+/).filter(Boolean),
+      from: header('From'),
+      to: header('To').split(',').map((address: string) => address.trim()).filter(Boolean),
+      subject: header('Subject'),
+      date: isNaN(date.getTime()) ? new Date() : date,
+      text
+    };
+  }
+
+  /**
+   * Extrair corpo HTML e texto (suporta estruturas aninhadas)
+   */
+  private extractBodies(payload: any): { bodyHtml: string; bodyText: string } {
+    let bodyHtml = '';
+    let bodyText = '';
+
+    const extractBody = (part: any) => {
+      if (part.mimeType === 'text/html' && part.body?.data) {
+        bodyHtml = Buffer.from(part.body.data, 'base64').toString('utf-8');
+      } else if (part.mimeType === 'text/plain' && part.body?.data) {
+        bodyText = Buffer.from(part.body.data, 'base64').toString('utf-8');
+      } else if (part.parts) {
+        // Recursivamente processar partes aninhadas
+        part.parts.forEach(extractBody);
+      }
+    };
+
+    if (payload.parts) {
+      payload.parts.forEach(extractBody);
+    } else if (payload.body?.data) {
+      // Email simples sem partes
+      const content = Buffer.from(payload.body.data, 'base64').toString('utf-8');
+      if (payload.mimeType === 'text/html') {
+        bodyHtml = content;
+      } else {
+        bodyText = content;
+      }
+    }
+
+    return { bodyHtml, bodyText };
+  }
+
   /**
    * Parse de alerta do Google com extração completa
    */
@@ -289,31 +432,7 @@ export class SecureGmailService {
       const date = dateHeader ? new Date(dateHeader.value) : new Date();
       
       // Extrair corpo do email (suporta estruturas aninhadas)
-      let bodyHtml = '';
-      let bodyText = '';
-      
-      const extractBody = (part: any) => {
-        if (part.mimeType === 'text/html' && part.body?.data) {
-          bodyHtml = Buffer.from(part.body.data, 'base64').toString('utf-8');
-        } else if (part.mimeType === 'text/plain' && part.body?.data) {
-          bodyText = Buffer.from(part.body.data, 'base64').toString('utf-8');
-        } else if (part.parts) {
-          // Recursivamente processar partes aninhadas
-          part.parts.forEach(extractBody);
-        }
-      };
-      
-      if (payload.parts) {
-        payload.parts.forEach(extractBody);
-      } else if (payload.body?.data) {
-        // Email simples sem partes
-        const content = Buffer.from(payload.body.data, 'base64').toString('utf-8');
-        if (payload.mimeType === 'text/html') {
-          bodyHtml = content;
-        } else {
-          bodyText = content;
-        }
-      }
+      const { bodyHtml, bodyText } = this.extractBodies(payload);
 
       // Extrair URLs com regex mais robusto
       const urlRegex = /https?:\/\/(?:www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b(?:[-a-zA-Z0-9()@:%_\+.~#?&\/=]*)/gi;
@@ -0,0 +1,328 @@
+import { DetectedContent, LegalFramework, Prisma, RemovalStatus, TakedownItemStatus, TakedownRequest, TakedownStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { LEGAL_FRAMEWORKS, NoticeFieldKey, validateNoticeFields } from '@/lib/legal-frameworks'
+import { dmcaTemplateService, NoticeData } from '@/lib/services/dmca-template.service'
+import { evidencePackageService } from '@/lib/services/evidence-package.service'
+import { jurisdictionService } from '@/lib/services/jurisdiction.service'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+
+export type GroupingScope = 'HOST' | 'DOMAIN'
+
+// Sufixos de segundo nível comuns, para que "a.site.com.br" e "b.site.com.br" caiam no mesmo domínio
+const MULTI_LABEL_SUFFIXES = new Set([
+  'com.br', 'net.br', 'org.br', 'blog.br', 'co.uk', 'org.uk', 'ac.uk', 'com.au', 'net.au',
+  'co.jp', 'co.kr', 'com.mx', 'com.ar', 'co.in', 'com.tr', 'com.cn', 'co.nz', 'co.za', 'io.vn'
+])
+
+// Status em que o takedown ainda aguarda remoção das URLs
+const OPEN_TAKEDOWN_STATUSES: TakedownStatus[] = ['PENDING', 'SENT', 'ACKNOWLEDGED', 'IN_REVIEW', 'PARTIALLY_REMOVED']
+
+export interface CreateGroupedTakedownOptions {
+  scope: GroupingScope
+  detectedContentIds?: string[]
+  brandProfileId?: string
+  clusterId?: string // espelhos do mesmo post, uma notificação por host
+  minUrls?: number
+  customMessage?: string
+  template?: 'pt' | 'en'
+  legalFramework?: LegalFramework // escolha manual; sem ela o regime é detectado por host
+  noticeFields?: NoticeData['noticeFields']
+  maxTakedowns?: number // saldo do plano; grupos além dele ficam para depois
+}
+
+export class GroupedNoticeValidationError extends Error {
+  constructor(
+    readonly groupKey: string,
+    readonly legalFramework: LegalFramework,
+    readonly missing: NoticeFieldKey[],
+    readonly errors: string[]
+  ) {
+    super(`Notificação incompleta para ${LEGAL_FRAMEWORKS[legalFramework].name}`)
+    this.name = 'GroupedNoticeValidationError'
+  }
+}
+
+export interface ItemStatusSummary {
+  total: number
+  removed: number
+  pending: number
+  status: TakedownStatus
+}
+
+/**
+ * Hostname sem "www."
+ */
+export function getHostKey(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Domínio registrável (ex.: cdn.forum.com.br → forum.com.br)
+ */
+export function getDomainKey(url: string): string | null {
+  const host = getHostKey(url)
+  if (!host) return null
+  if (/^\d+(\.\d+){3}$/.test(host)) return host
+
+  const labels = host.split('.')
+  const suffixLength = MULTI_LABEL_SUFFIXES.has(labels.slice(-2).join('.')) ? 3 : 2
+  return labels.slice(-suffixLength).join('.')
+}
+
+export function getGroupKey(url: string, scope: GroupingScope): string | null {
+  return scope === 'DOMAIN' ? getDomainKey(url) : getHostKey(url)
+}
+
+/**
+ * Agrupar conteúdos por host ou domínio, preservando a ordem de entrada
+ */
+export function groupContentsByHost<T extends Pick<DetectedContent, 'infringingUrl'>>(
+  contents: T[],
+  scope: GroupingScope
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const content of contents) {
+    const key = getGroupKey(content.infringingUrl, scope)
+    if (!key) continue
+    groups.set(key, [...(groups.get(key) ?? []), content])
+  }
+  return groups
+}
+
+/**
+ * Status de cada URL a partir do resultado da verificação de remoção
+ */
+export function itemStatusFromRemoval(removalStatus: RemovalStatus): TakedownItemStatus {
+  switch (removalStatus) {
+    case 'CONTENT_REMOVED':
+    case 'CONTENT_BLOCKED':
+      return 'REMOVED'
+    case 'CONTENT_STILL_ONLINE':
+      return 'STILL_ONLINE'
+    default:
+      return 'NEEDS_REVIEW'
+  }
+}
+
+/**
+ * Status agregado do takedown: todas removidas, parte removida ou sem mudança
+ */
+export function aggregateTakedownStatus(
+  current: TakedownStatus,
+  counts: { total: number; removed: number }
+): TakedownStatus {
+  if (counts.total > 0 && counts.removed === counts.total) return 'REMOVED'
+  if (counts.removed > 0) return 'PARTIALLY_REMOVED'
+  return current
+}
+
+export class GroupedTakedownService {
+  /**
+   * Criar uma notificação por host/domínio com todas as URLs pendentes do usuário
+   */
+  async createGroupedTakedowns(userId: string, options: CreateGroupedTakedownOptions): Promise<TakedownRequest[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true, phone: true, address: true }
+    })
+    if (!user) {
+      throw new Error('Usuário não encontrado')
+    }
+
+    // Conteúdos que já fazem parte de um takedown (individual ou agrupado) ficam de fora
+    const contents = await prisma.detectedContent.findMany({
+      where: {
+        userId,
+        status: { notIn: ['DMCA_SENT', 'DELISTED', 'FALSE_POSITIVE', 'IGNORED'] },
+        takedownRequests: { none: {} },
+        takedownItems: { none: {} },
+        ...(options.brandProfileId && { brandProfileId: options.brandProfileId }),
+        ...(options.clusterId && { clusterId: options.clusterId }),
+        ...(options.detectedContentIds && { id: { in: options.detectedContentIds } })
+      },
+      include: { brandProfile: true },
+      orderBy: { detectedAt: 'asc' }
+    })
+
+    const minUrls = options.minUrls ?? 2
+    const drafts = []
+
+    // Montar e validar todas as notificações antes de gravar qualquer uma
+    for (const [groupKey, group] of Array.from(groupContentsByHost(contents, options.scope))) {
+      if (group.length < minUrls) continue
+      if (options.maxTakedowns !== undefined && drafts.length >= options.maxTakedowns) break
+
+      const [primary] = group
+      const urls = group.map(content => content.infringingUrl)
+      const jurisdiction = await jurisdictionService.detect(primary.infringingUrl, options.legalFramework)
+      const evidence = await evidencePackageService.findLatestForContent(primary.id)
+      const notice = await dmcaTemplateService.renderNotice(
+        userId,
+        { language: options.template ?? 'pt', legalFramework: jurisdiction.framework },
+        {
+          user,
+          content: primary,
+          infringingUrls: urls,
+          customMessage: options.customMessage,
+          noticeFields: options.noticeFields,
+          evidence
+        }
+      )
+
+      const validation = validateNoticeFields(jurisdiction.framework, 'DMCA', notice.noticeFields)
+      if (!validation.valid) {
+        throw new GroupedNoticeValidationError(groupKey, jurisdiction.framework, validation.missing, validation.errors)
+      }
+
+      drafts.push({ groupKey, group, primary, jurisdiction, evidence, notice })
+    }
+
+    const created: TakedownRequest[] = []
+
+    for (const { groupKey, group, primary, jurisdiction, evidence, notice } of drafts) {
+      const takedown = await prisma.$transaction(async (tx) => {
+        const request = await tx.takedownRequest.create({
+          data: {
+            userId,
+            detectedContentId: primary.id,
+            scope: options.scope,
+            groupKey,
+            subject: notice.subject,
+            message: options.customMessage || notice.body,
+            dmcaTemplateId: notice.templateId,
+            templateVersion: notice.templateVersion,
+            language: notice.language,
+            legalFramework: jurisdiction.framework,
+            jurisdictionCountry: jurisdiction.country,
+            jurisdictionSource: jurisdiction.source,
+            evidencePackageId: evidence?.id,
+            noticeFields: notice.noticeFields as unknown as Prisma.InputJsonValue,
+            status: 'PENDING',
+            items: {
+              create: group.map(content => ({
+                detectedContentId: content.id,
+                url: content.infringingUrl
+              }))
+            }
+          }
+        })
+
+        await tx.detectedContent.updateMany({
+          where: { id: { in: group.map(content => content.id) } },
+          data: {
+            status: 'DMCA_SENT',
+            reviewedAt: new Date(),
+            reviewedBy: userId
+          }
+        })
+
+        return request
+      })
+
+      created.push(takedown)
+    }
+
+    return created
+  }
+
+  /**
+   * Registrar o resultado da verificação de uma URL e recalcular o status do takedown
+   */
+  async recordItemVerification(
+    itemId: string,
+    removalStatus: RemovalStatus,
+    now: Date = new Date()
+  ): Promise<ItemStatusSummary | null> {
+    const status = itemStatusFromRemoval(removalStatus)
+
+    const item = await prisma.takedownRequestItem.update({
+      where: { id: itemId },
+      data: {
+        status,
+        lastRemovalStatus: removalStatus,
+        verificationCount: { increment: 1 },
+        lastVerifiedAt: now,
+        ...(status === 'REMOVED' && { removedAt: now })
+      }
+    })
+
+    return this.syncTakedownStatus(item.takedownRequestId, now)
+  }
+
+  /**
+   * Atualizar manualmente o status de URLs do grupo (ex.: host informou remoção parcial)
+   */
+  async updateItemStatus(
+    takedownRequestId: string,
+    itemIds: string[],
+    status: TakedownItemStatus,
+    now: Date = new Date()
+  ): Promise<ItemStatusSummary | null> {
+    await prisma.takedownRequestItem.updateMany({
+      where: { takedownRequestId, id: { in: itemIds } },
+      data: {
+        status,
+        removedAt: status === 'REMOVED' ? now : null
+      }
+    })
+
+    return this.syncTakedownStatus(takedownRequestId, now)
+  }
+
+  /**
+   * Recalcular o status agregado a partir das URLs
+   */
+  async syncTakedownStatus(takedownRequestId: string, now: Date = new Date()): Promise<ItemStatusSummary | null> {
+    const takedown = await prisma.takedownRequest.findUnique({
+      where: { id: takedownRequestId },
+      select: { status: true, acknowledgedAt: true }
+    })
+    if (!takedown) return null
+
+    const [total, removed] = await Promise.all([
+      prisma.takedownRequestItem.count({ where: { takedownRequestId } }),
+      prisma.takedownRequestItem.count({ where: { takedownRequestId, status: 'REMOVED' } })
+    ])
+
+    const summary: ItemStatusSummary = {
+      total,
+      removed,
+      pending: total - removed,
+      status: takedown.status
+    }
+
+    // Decisões finais tomadas fora da verificação (rejeição, restauração) prevalecem
+    if (!OPEN_TAKEDOWN_STATUSES.includes(takedown.status) && takedown.status !== 'REMOVED') {
+      return summary
+    }
+
+    const next = aggregateTakedownStatus(takedown.status, { total, removed })
+    if (next === takedown.status) return summary
+
+    await prisma.takedownRequest.update({
+      where: { id: takedownRequestId },
+      data: {
+        status: next,
+        ...(next === 'REMOVED' ? { resolvedAt: now } : { resolvedAt: null }),
+        ...(!takedown.acknowledgedAt && { acknowledgedAt: now })
+      }
+    })
+
+    await recordTimelineEvent(takedownRequestId, 'STATUS_CHANGED', {
+      message: `${takedown.status} → ${next}`,
+      metadata: { from: takedown.status, to: next, removedUrls: removed, totalUrls: total }
+    })
+
+    if (next === 'REMOVED') {
+      await stopEscalationChain(takedownRequestId, 'Todas as URLs do grupo foram removidas', { totalUrls: total })
+    }
+
+    return { ...summary, status: next }
+  }
+}
+
+export const groupedTakedownService = new GroupedTakedownService()
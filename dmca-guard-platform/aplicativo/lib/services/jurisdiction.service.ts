@@ -0,0 +1,39 @@
+import { LegalFramework } from '@prisma/client'
+import { abuseContactResolver, AbuseContactResolver } from '@/lib/abuse-contact-resolver'
+import { countryFromHostname, detectJurisdiction, frameworkForCountry, JurisdictionResult } from '@/lib/legal-frameworks'
+
+export class JurisdictionService {
+  constructor(private readonly resolver: Pick<AbuseContactResolver, 'resolve'> = abuseContactResolver) {}
+
+  /**
+   * Regime jurídico da notificação para uma URL
+   *
+   * O RDAP só é consultado quando o TLD não define o regime e não há escolha manual.
+   */
+  async detect(url: string, override?: LegalFramework | null): Promise<JurisdictionResult> {
+    if (override) {
+      return detectJurisdiction(url, { override })
+    }
+
+    let hostname = url
+    try {
+      hostname = new URL(url).hostname
+    } catch {
+      // Domínio informado sem esquema
+    }
+    if (frameworkForCountry(countryFromHostname(hostname))) {
+      return detectJurisdiction(url)
+    }
+
+    let hostingCountry: string | null = null
+    try {
+      hostingCountry = (await this.resolver.resolve(url)).hostingCountry
+    } catch (error) {
+      console.log(`⚠️ Não foi possível obter o país da hospedagem de ${url}:`, error instanceof Error ? error.message : error)
+    }
+
+    return detectJurisdiction(url, { hostingCountry })
+  }
+}
+
+export const jurisdictionService = new JurisdictionService()
@@ -1,6 +1,7 @@
 // lib/services/keyword-intelligence.service.ts
+import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
-import { GeminiAIService } from '@/lib/services/gemini-ai'
+import { llmService } from '@/lib/services/llm.service'
 import { emitToRoom } from '@/lib/socket-server'
 
 export interface KeywordClassification {
@@ -28,13 +29,22 @@ export interface KeywordAnalysis {
   recommendations: string[]
 }
 
-export class KeywordIntelligenceService {
-  private geminiService: GeminiAIService
-
-  constructor() {
-    this.geminiService = new GeminiAIService()
-  }
+const KeywordAnalysisResponseSchema = z.object({
+  keywords: z.array(z.object({
+    keyword: z.string(),
+    classification: z.enum(['SAFE', 'MODERATE', 'DANGEROUS']),
+    riskScore: z.coerce.number().min(0).max(100),
+    reasons: z.array(z.string()).default([]),
+    suggestions: z.array(z.string()).optional()
+  })),
+  recommendations: z.array(z.string()).default([])
+})
+
+const KeywordSuggestionsResponseSchema = z.object({
+  suggestions: z.array(z.string())
+})
 
+export class KeywordIntelligenceService {
   /**
    * Sincroniza keywords do perfil com sessões de monitoramento
    */
@@ -268,9 +278,7 @@ export class KeywordIntelligenceService {
     `
 
     try {
-      const geminiResponse = await this.geminiService.generateContent(prompt)
-      const response = geminiResponse.text
-      const analysis = JSON.parse(response)
+      const { data: analysis } = await llmService.generateObject(KeywordAnalysisResponseSchema, prompt)
 
       // Calcular estatísticas
       const statistics = {
@@ -444,14 +452,12 @@ export class KeywordIntelligenceService {
     `
 
     try {
-      const geminiResponse = await this.geminiService.generateContent(prompt)
-      const response = geminiResponse.text
-      const { suggestions } = JSON.parse(response)
+      const { data: { suggestions } } = await llmService.generateObject(KeywordSuggestionsResponseSchema, prompt)
       
       // Filtrar sugestões que já existem
       const existingSet = new Set(currentKeywords.map(k => k.toLowerCase()))
       const newSuggestions = suggestions.filter(
-        (s: string) => !existingSet.has(s.toLowerCase())
+        s => !existingSet.has(s.toLowerCase())
       )
 
       return newSuggestions.slice(0, 15)
@@ -0,0 +1,259 @@
+import { createHash } from 'crypto'
+import NodeCache from 'node-cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { canPerformAction } from '@/lib/plans'
+import {
+  createProvidersFromEnv,
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest
+} from '@/lib/integrations/llm-providers'
+
+export interface LlmServiceOptions {
+  providers?: LlmProvider[]
+  cacheTtlSeconds?: number
+  cooldownMs?: number
+}
+
+export interface LlmCallOptions {
+  userId?: string // cobra o consumo do orçamento mensal do usuário
+  system?: string
+  temperature?: number
+  maxOutputTokens?: number
+  cache?: boolean
+}
+
+export interface LlmResponse extends LlmCompletion {
+  cached: boolean
+}
+
+export interface LlmObjectResponse<T> extends LlmResponse {
+  data: T
+}
+
+// Resultado da análise de texto usada pelos agentes e pelo aprendizado contínuo
+export const TextAnalysisSchema = z.object({
+  riskScore: z.coerce.number().min(0).max(100).catch(0).default(0),
+  violationType: z.string().default('UNKNOWN'),
+  evidences: z.array(z.any()).default([]),
+  recommendedAction: z.string().default('NEEDS_HUMAN_REVIEW'),
+  executiveSummary: z.string().default(''),
+  detailedAnalysis: z.string().default(''),
+  keyFindings: z.array(z.string()).default([]),
+  riskFactors: z.array(z.string()).default([]),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5).default(0.5)
+}).passthrough()
+
+export type TextAnalysisResult = z.infer<typeof TextAnalysisSchema>
+
+export class LlmUnavailableError extends Error {
+  constructor(message: string, readonly failures: string[] = [], readonly status: number = 503) {
+    super(message)
+    this.name = 'LlmUnavailableError'
+  }
+}
+
+export class LlmBudgetExceededError extends Error {
+  constructor(message: string, readonly status: number = 429) {
+    super(message)
+    this.name = 'LlmBudgetExceededError'
+  }
+}
+
+export class LlmOutputError extends Error {
+  constructor(message: string, readonly status: number = 502) {
+    super(message)
+    this.name = 'LlmOutputError'
+  }
+}
+
+/**
+ * Extrair o JSON de respostas com cercas de markdown ou texto em volta
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim()
+  const start = cleaned.search(/[[{]/)
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'))
+  if (start === -1 || end < start) {
+    throw new LlmOutputError('Resposta não contém JSON')
+  }
+  return JSON.parse(cleaned.slice(start, end + 1))
+}
+
+function currentPeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+/**
+ * Camada única de LLM: failover entre provedores, cache por hash do conteúdo,
+ * saídas estruturadas validadas com zod e orçamento mensal de tokens por usuário
+ */
+export class LlmService {
+  private readonly providers: LlmProvider[]
+  private readonly cache: NodeCache
+  private readonly cooldownMs: number
+  private readonly cooldownUntil = new Map<string, number>()
+
+  constructor(options: LlmServiceOptions = {}) {
+    this.providers = options.providers ?? createProvidersFromEnv()
+    this.cache = new NodeCache({
+      stdTTL: options.cacheTtlSeconds ?? parseInt(process.env.LLM_CACHE_TTL_SECONDS || '86400'),
+      useClones: false
+    })
+    this.cooldownMs = options.cooldownMs ?? 60000
+  }
+
+  isConfigured(): boolean {
+    return this.providers.length > 0
+  }
+
+  getProviders(): Array<{ name: string; model: string }> {
+    return this.providers.map(provider => ({ name: provider.name, model: provider.model }))
+  }
+
+  /**
+   * Texto livre do primeiro provedor que responder
+   */
+  async generateText(prompt: string, options: LlmCallOptions = {}): Promise<LlmResponse> {
+    const { completion, cached } = await this.run({ ...this.toRequest(prompt, options), json: false }, options, text => text)
+    return { ...completion, cached }
+  }
+
+  /**
+   * Objeto validado pelo schema; resposta inválida de um provedor passa para o próximo
+   */
+  async generateObject<S extends z.ZodTypeAny>(
+    schema: S,
+    prompt: string,
+    options: LlmCallOptions = {}
+  ): Promise<LlmObjectResponse<z.infer<S>>> {
+    const { completion, cached, result } = await this.run({ ...this.toRequest(prompt, options), json: true }, options, text => {
+      const parsed = schema.safeParse(extractJson(text))
+      if (!parsed.success) {
+        throw new LlmOutputError(`Resposta fora do formato esperado: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`)
+      }
+      return parsed.data as z.infer<S>
+    })
+    return { ...completion, cached, data: result }
+  }
+
+  private toRequest(prompt: string, options: LlmCallOptions): LlmRequest {
+    return {
+      prompt,
+      system: options.system,
+      temperature: options.temperature,
+      maxOutputTokens: options.maxOutputTokens
+    }
+  }
+
+  private cacheKey(request: LlmRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify([request.system ?? '', request.prompt, request.temperature ?? null, request.maxOutputTokens ?? null, !!request.json]))
+      .digest('hex')
+  }
+
+  private async run<T>(
+    request: LlmRequest,
+    options: LlmCallOptions,
+    parse: (text: string) => T
+  ): Promise<{ completion: LlmCompletion; cached: boolean; result: T }> {
+    const useCache = options.cache !== false
+    const key = this.cacheKey(request)
+    const hit = useCache ? this.cache.get<LlmCompletion>(key) : undefined
+    if (hit) {
+      // Respostas em cache não consomem orçamento
+      return { completion: hit, cached: true, result: parse(hit.text) }
+    }
+
+    if (this.providers.length === 0) {
+      throw new LlmUnavailableError('Nenhum provedor de LLM configurado (LLM_PROVIDERS)')
+    }
+    if (options.userId) {
+      await this.assertBudget(options.userId)
+    }
+
+    const failures: string[] = []
+    let invalidOutputs = 0
+    const now = Date.now()
+    // Provedores em espera por falha recente vão para o fim da fila em vez de serem ignorados
+    const ordered = [
+      ...this.providers.filter(provider => (this.cooldownUntil.get(provider.name) ?? 0) <= now),
+      ...this.providers.filter(provider => (this.cooldownUntil.get(provider.name) ?? 0) > now)
+    ]
+
+    for (const provider of ordered) {
+      let completion: LlmCompletion
+      try {
+        completion = await provider.complete(request)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        failures.push(`${provider.name}: ${message}`)
+        if (!(error instanceof LlmProviderError) || error.retryable) {
+          this.cooldownUntil.set(provider.name, Date.now() + this.cooldownMs)
+        }
+        console.warn(`[LLM] Falha no provedor ${provider.name}, tentando o próximo:`, message)
+        continue
+      }
+
+      // O consumo conta mesmo quando a resposta é descartada pela validação
+      if (options.userId) {
+        await this.recordUsage(options.userId, completion)
+      }
+
+      let result: T
+      try {
+        result = parse(completion.text)
+      } catch (error) {
+        failures.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`)
+        invalidOutputs++
+        console.warn(`[LLM] Resposta inválida de ${provider.name}, tentando o próximo`)
+        continue
+      }
+
+      this.cooldownUntil.delete(provider.name)
+      if (useCache) this.cache.set(key, completion)
+      return { completion, cached: false, result }
+    }
+
+    if (invalidOutputs === failures.length) {
+      throw new LlmOutputError(`Nenhum provedor retornou resposta válida (${failures.join(' | ')})`)
+    }
+    throw new LlmUnavailableError(`Todos os provedores de LLM falharam (${failures.join(' | ')})`, failures)
+  }
+
+  private async assertBudget(userId: string): Promise<void> {
+    const period = currentPeriod()
+    const [user, usage] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { planType: true, email: true } }),
+      prisma.llmUsage.findUnique({ where: { userId_period: { userId, period } }, select: { totalTokens: true } })
+    ])
+    if (!user) return
+
+    if (!canPerformAction(user.planType, 'llmTokens', usage?.totalTokens ?? 0, user.email)) {
+      throw new LlmBudgetExceededError(`Limite mensal de tokens de IA do plano ${user.planType} atingido`)
+    }
+  }
+
+  private async recordUsage(userId: string, completion: LlmCompletion): Promise<void> {
+    const { promptTokens, completionTokens, totalTokens } = completion.usage
+    const period = currentPeriod()
+    try {
+      await prisma.llmUsage.upsert({
+        where: { userId_period: { userId, period } },
+        create: { userId, period, promptTokens, completionTokens, totalTokens, requests: 1 },
+        update: {
+          promptTokens: { increment: promptTokens },
+          completionTokens: { increment: completionTokens },
+          totalTokens: { increment: totalTokens },
+          requests: { increment: 1 }
+        }
+      })
+    } catch (error) {
+      console.error('[LLM] Erro ao registrar consumo de tokens:', error)
+    }
+  }
+}
+
+export const llmService = new LlmService()
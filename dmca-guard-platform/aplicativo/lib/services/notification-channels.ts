@@ -1,5 +1,7 @@
 import { Notification, User } from '@prisma/client'
 import { NotificationType } from './notification.service'
+import { emailOutboxService } from './email-outbox.service'
+import { resolveTransportType } from './email-transports'
 
 export interface EmailChannel {
   send(notification: Notification & { user: User }, metadata?: Record<string, any>): Promise<void>
@@ -15,33 +17,33 @@ export interface NotificationChannel {
 }
 
 /**
- * Email notification channel using Resend
+ * Email notification channel backed by the email outbox
  */
-class ResendEmailChannel implements EmailChannel {
+class OutboxEmailChannel implements EmailChannel {
   async send(notification: Notification & { user: User }, metadata?: Record<string, any>): Promise<void> {
-    if (!process.env.RESEND_API_KEY) {
+    if (resolveTransportType('NOTIFICATION') === 'RESEND' && !process.env.RESEND_API_KEY) {
       console.warn('[EmailChannel] Resend API key not configured')
       return
     }
 
     try {
-      // Dynamic import to avoid errors if resend is not installed
-      const { Resend } = await import('resend')
-      const resend = new Resend(process.env.RESEND_API_KEY)
-
       const emailContent = this.generateEmailContent(notification, metadata)
 
-      await resend.emails.send({
+      const entry = await emailOutboxService.enqueue({
+        idempotencyKey: `notification:${notification.id}`,
+        category: 'NOTIFICATION',
         from: 'DMCA Guard <notifications@dmcaguard.com>',
         to: notification.user.email!,
         subject: emailContent.subject,
         html: emailContent.html,
-        text: emailContent.text
+        text: emailContent.text,
+        userId: notification.userId
       })
+      await emailOutboxService.dispatch(entry.id)
 
-      console.log(`[EmailChannel] Email sent to ${notification.user.email} for notification ${notification.id}`)
+      console.log(`[EmailChannel] Email queued to ${notification.user.email} for notification ${notification.id}`)
     } catch (error) {
-      console.error('[EmailChannel] Failed to send email:', error)
+      console.error('[EmailChannel] Failed to queue email:', error)
       // Don't throw - email failure shouldn't break the notification flow
     }
   }
@@ -199,6 +201,6 @@ class WebhookNotificationChannel implements WebhookChannel {
  * Notification channels manager
  */
 export const notificationChannels: NotificationChannel = {
-  email: new ResendEmailChannel(),
+  email: new OutboxEmailChannel(),
   webhook: new WebhookNotificationChannel()
 }
\ No newline at end of file
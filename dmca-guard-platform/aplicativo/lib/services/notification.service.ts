@@ -6,6 +6,9 @@ export enum NotificationType {
   VIOLATION_DETECTED = 'VIOLATION_DETECTED',
   TAKEDOWN_SUCCESS = 'TAKEDOWN_SUCCESS',
   TAKEDOWN_FAILED = 'TAKEDOWN_FAILED',
+  COUNTER_NOTICE_RECEIVED = 'COUNTER_NOTICE_RECEIVED',
+  COUNTER_NOTICE_DEADLINE = 'COUNTER_NOTICE_DEADLINE',
+  STAYDOWN_REUPLOAD = 'STAYDOWN_REUPLOAD',
   SCAN_COMPLETE = 'SCAN_COMPLETE',
   ABUSE_WARNING = 'ABUSE_WARNING',
   PLAN_LIMIT_WARNING = 'PLAN_LIMIT_WARNING',
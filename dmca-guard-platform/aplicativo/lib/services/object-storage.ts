@@ -0,0 +1,238 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, createHmac } from 'crypto'
+
+export type ObjectStorageDriver = 'local' | 's3'
+
+export interface ObjectStorage {
+  readonly driver: ObjectStorageDriver
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  /**
+   * Conteúdo do objeto; null quando não existe
+   */
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
+
+export class ObjectStorageError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message)
+    this.name = 'ObjectStorageError'
+  }
+}
+
+/**
+ * Chaves relativas, sem ".." — impedem escrita fora do diretório/bucket
+ */
+export function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.split('/').some(segment => segment === '..' || segment === '')) {
+    throw new ObjectStorageError(`Chave de armazenamento inválida: ${key}`)
+  }
+}
+
+export class LocalObjectStorage implements ObjectStorage {
+  readonly driver = 'local' as const
+
+  constructor(private readonly baseDir: string = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage', 'objects')) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key)
+    return path.join(this.baseDir, ...key.split('/'))
+  }
+}
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+export interface S3ObjectStorageOptions extends S3Credentials {
+  endpoint: string // ex.: https://s3.us-east-1.amazonaws.com, http://localhost:9000 (MinIO)
+  region: string
+  bucket: string
+  forcePathStyle?: boolean
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+// RFC 3986: encodeURIComponent deixa !'()* sem codificar
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * Assinatura AWS Signature Version 4 de uma requisição S3
+ *
+ * Assina host, x-amz-* e os cabeçalhos informados; devolve os cabeçalhos a enviar (com Authorization).
+ */
+export function signS3Request(params: {
+  method: string
+  url: URL
+  headers?: Record<string, string>
+  payloadHash: string
+  region: string
+  credentials: S3Credentials
+  date?: Date
+}): Record<string, string> {
+  const amzDate = (params.date ?? new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const dateStamp = amzDate.slice(0, 8)
+
+  const headers: Record<string, string> = {
+    ...params.headers,
+    host: params.url.host,
+    'x-amz-content-sha256': params.payloadHash,
+    'x-amz-date': amzDate
+  }
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort()
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]))
+  const signedHeaders = names.join(';')
+
+  const canonicalQuery = Array.from(params.url.searchParams.entries())
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&')
+
+  const canonicalRequest = [
+    params.method,
+    params.url.pathname,
+    canonicalQuery,
+    names.map(name => `${name}:${lowerCased[name]}\n`).join(''),
+    signedHeaders,
+    params.payloadHash
+  ].join('\n')
+
+  const scope = `${dateStamp}/${params.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${params.credentials.secretAccessKey}`, dateStamp), params.region), 's3'), 'aws4_request')
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  const { host, ...rest } = headers
+  return {
+    ...rest,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${params.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  }
+}
+
+/**
+ * Armazenamento compatível com S3 (AWS, MinIO, R2, Spaces) via REST assinado
+ */
+export class S3ObjectStorage implements ObjectStorage {
+  readonly driver = 's3' as const
+
+  constructor(private readonly options: S3ObjectStorageOptions) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType })
+    if (!response.ok) {
+      throw new ObjectStorageError(`S3 PUT ${key} respondeu HTTP ${response.status}`, response.status)
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new ObjectStorageError(`S3 GET ${key} respondeu HTTP ${response.status}`, response.status)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key)
+    if (!response.ok && response.status !== 404) {
+      throw new ObjectStorageError(`S3 DELETE ${key} respondeu HTTP ${response.status}`, response.status)
+    }
+  }
+
+  objectUrl(key: string): URL {
+    assertValidKey(key)
+    const endpoint = new URL(this.options.endpoint)
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.options.bucket}/${encodedKey}`)
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/${encodedKey}`)
+  }
+
+  private request(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const url = this.objectUrl(key)
+    const signed = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: sha256Hex(body ?? ''),
+      region: this.options.region,
+      credentials: this.options
+    })
+
+    return fetch(url, {
+      method,
+      headers: signed,
+      body: body ? new Uint8Array(body) : undefined,
+      signal: AbortSignal.timeout(30000)
+    })
+  }
+}
+
+let objectStorage: ObjectStorage | null = null
+
+/**
+ * Backend configurado em STORAGE_DRIVER (local por padrão)
+ */
+export function getObjectStorage(): ObjectStorage {
+  if (objectStorage) return objectStorage
+
+  if ((process.env.STORAGE_DRIVER || 'local').toLowerCase() === 's3') {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new ObjectStorageError('STORAGE_DRIVER=s3 requer S3_BUCKET, S3_ACCESS_KEY_ID e S3_SECRET_ACCESS_KEY')
+    }
+    const region = S3_REGION || 'us-east-1'
+    objectStorage = new S3ObjectStorage({
+      endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+    })
+  } else {
+    objectStorage = new LocalObjectStorage()
+  }
+
+  return objectStorage
+}
+
+/**
+ * Substituir o backend (testes ou configuração em runtime)
+ */
+export function setObjectStorage(storage: ObjectStorage | null): void {
+  objectStorage = storage
+}
@@ -0,0 +1,247 @@
+import { Prisma, ReferenceImage } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ReferenceImageMatch } from '@/lib/agents/types'
+import { ContentExtractor } from '@/lib/extraction/content-extractor'
+import {
+  comparePerceptualHashes,
+  computeImageFingerprint,
+  CropHashes,
+  PerceptualHashes,
+  REFERENCE_CROPS
+} from '@/lib/content-fingerprint/perceptual-hash'
+import { DECORATIVE_IMAGE, FingerprintFetcher, httpFingerprintFetcher } from '@/lib/services/content-fingerprint.service'
+
+export interface ReferenceImageServiceOptions {
+  fetcher?: FingerprintFetcher
+  extractor?: Pick<ContentExtractor, 'extractContent'>
+  maxImages?: number
+  minImageBytes?: number
+  maxImageBytes?: number
+  timeoutMs?: number
+  cacheTtlMs?: number
+}
+
+export interface ReferenceImageUpload {
+  image: Buffer
+  mimeType: string
+  title?: string | null
+  imageUrl?: string | null
+}
+
+type ReferenceHashes = PerceptualHashes & { id: string; crops: CropHashes[] }
+
+export const REFERENCE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+export const MAX_REFERENCE_IMAGE_BYTES = 10 * 1024 * 1024
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; DMCA-Guard-ImageMatch/1.0)'
+const MAX_CACHED_IMAGES = 1000
+
+export class ReferenceImageError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message)
+    this.name = 'ReferenceImageError'
+  }
+}
+
+/**
+ * Hashes perceptuais das imagens de referência de cada perfil e comparação com imagens encontradas em páginas
+ */
+export class ReferenceImageService {
+  private readonly fetcher: FingerprintFetcher
+  private readonly extractor: Pick<ContentExtractor, 'extractContent'>
+  private readonly maxImages: number
+  private readonly minImageBytes: number
+  private readonly maxImageBytes: number
+  private readonly timeoutMs: number
+  private readonly cacheTtlMs: number
+  private readonly references = new Map<string, { loadedAt: number; hashes: ReferenceHashes[] }>()
+  // Miniaturas e capas se repetem entre páginas do mesmo site
+  private readonly remoteHashes = new Map<string, PerceptualHashes | null>()
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: ReferenceImageServiceOptions = {}) {
+    this.fetcher = options.fetcher ?? httpFingerprintFetcher
+    this.extractor = options.extractor ?? new ContentExtractor({ includeLinks: false })
+    this.maxImages = options.maxImages ?? 20
+    this.minImageBytes = options.minImageBytes ?? 2048
+    this.maxImageBytes = options.maxImageBytes ?? 10 * 1024 * 1024
+    this.timeoutMs = options.timeoutMs ?? 15000
+    this.cacheTtlMs = options.cacheTtlMs ?? 5 * 60 * 1000
+  }
+
+  /**
+   * Cadastrar imagem de referência: grava só os hashes, a imagem enviada é descartada
+   */
+  async register(userId: string, profileId: string, upload: ReferenceImageUpload): Promise<ReferenceImage> {
+    if (!REFERENCE_IMAGE_TYPES.includes(upload.mimeType)) {
+      throw new ReferenceImageError('Formato de imagem não suportado. Use JPEG, PNG ou WebP')
+    }
+    if (upload.image.length > MAX_REFERENCE_IMAGE_BYTES) {
+      throw new ReferenceImageError('Imagem maior que 10MB')
+    }
+
+    const profile = await prisma.brandProfile.findFirst({ where: { id: profileId, userId }, select: { id: true } })
+    if (!profile) {
+      throw new ReferenceImageError('Perfil de marca não encontrado', 404)
+    }
+
+    const fingerprint = await computeImageFingerprint(upload.image, REFERENCE_CROPS).catch(() => {
+      throw new ReferenceImageError('Arquivo não é uma imagem válida')
+    })
+
+    const reference = await prisma.referenceImage.create({
+      data: {
+        userId,
+        profileId,
+        title: upload.title ?? null,
+        imageUrl: upload.imageUrl ?? null,
+        pHash: fingerprint.pHash,
+        dHash: fingerprint.dHash,
+        cropHashes: fingerprint.crops as unknown as Prisma.InputJsonValue,
+        width: fingerprint.width,
+        height: fingerprint.height
+      }
+    })
+
+    this.references.delete(profileId)
+    return reference
+  }
+
+  list(userId: string, profileId: string): Promise<ReferenceImage[]> {
+    return prisma.referenceImage.findMany({
+      where: { userId, profileId },
+      orderBy: { uploadedAt: 'desc' }
+    })
+  }
+
+  async remove(userId: string, profileId: string, id: string): Promise<boolean> {
+    const deleted = await prisma.referenceImage.deleteMany({ where: { id, userId, profileId } })
+    this.references.delete(profileId)
+    return deleted.count > 0
+  }
+
+  /**
+   * Baixar as imagens encontradas e comparar com as referências do perfil (melhor correspondência primeiro)
+   */
+  async matchImages(brandProfileId: string, imageUrls: string[]): Promise<ReferenceImageMatch[]> {
+    const references = await this.loadReferences(brandProfileId)
+    if (references.length === 0) return []
+
+    const candidates = Array.from(new Set(imageUrls))
+      .filter(url => !DECORATIVE_IMAGE.test(url))
+      .slice(0, this.maxImages)
+    const matches: ReferenceImageMatch[] = []
+
+    for (const imageUrl of candidates) {
+      const hashes = await this.hashRemoteImage(imageUrl)
+      if (!hashes) continue
+
+      let best: ReferenceImageMatch | null = null
+      for (const reference of references) {
+        const match = comparePerceptualHashes(reference, hashes)
+        if (match && (!best || match.similarity > best.similarity)) {
+          best = {
+            imageUrl,
+            referenceImageId: reference.id,
+            pHashDistance: match.pHashDistance,
+            dHashDistance: match.dHashDistance,
+            similarity: match.similarity
+          }
+        }
+      }
+      if (best) matches.push(best)
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity)
+  }
+
+  /**
+   * Comparar as imagens da página detectada e gravar similarity/imagesFound
+   */
+  async matchDetectedContent(detectedContentId: string): Promise<ReferenceImageMatch[]> {
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      select: { brandProfileId: true, infringingUrl: true, thumbnailUrl: true, similarity: true }
+    })
+    if (!content) return []
+
+    const references = await this.loadReferences(content.brandProfileId)
+    if (references.length === 0) return []
+
+    const page = await this.extractor.extractContent(content.infringingUrl, { includeImages: true, includeLinks: false })
+    const imageUrls = [content.thumbnailUrl, content.infringingUrl, ...page.images].filter((url): url is string => Boolean(url))
+    const matches = await this.matchImages(content.brandProfileId, imageUrls)
+    if (matches.length === 0) return matches
+
+    await prisma.detectedContent.update({
+      where: { id: detectedContentId },
+      data: {
+        similarity: Math.max(content.similarity ?? 0, matches[0].similarity),
+        imagesFound: matches.map(match => match.imageUrl)
+      }
+    })
+
+    return matches
+  }
+
+  /**
+   * Comparar em segundo plano, uma detecção por vez
+   */
+  enqueueMatch(detectedContentId: string): void {
+    this.queue = this.queue
+      .then(() => this.matchDetectedContent(detectedContentId))
+      .then(
+        () => undefined,
+        error => console.error(`Erro ao comparar imagens de ${detectedContentId} com as referências:`, error)
+      )
+  }
+
+  private async loadReferences(brandProfileId: string): Promise<ReferenceHashes[]> {
+    const cached = this.references.get(brandProfileId)
+    if (cached && Date.now() - cached.loadedAt < this.cacheTtlMs) return cached.hashes
+
+    const images = await prisma.referenceImage.findMany({
+      where: { profileId: brandProfileId, isActive: true, pHash: { not: null }, dHash: { not: null } },
+      select: { id: true, pHash: true, dHash: true, cropHashes: true }
+    })
+    const hashes = images.map(image => ({
+      id: image.id,
+      pHash: image.pHash!,
+      dHash: image.dHash!,
+      crops: (image.cropHashes ?? []) as unknown as CropHashes[]
+    }))
+
+    this.references.set(brandProfileId, { loadedAt: Date.now(), hashes })
+    return hashes
+  }
+
+  private async hashRemoteImage(url: string): Promise<PerceptualHashes | null> {
+    if (this.remoteHashes.has(url)) return this.remoteHashes.get(url)!
+
+    let hashes: PerceptualHashes | null = null
+    try {
+      const response = await this.fetcher(url, {
+        headers: { 'User-Agent': USER_AGENT, Accept: 'image/*' },
+        timeoutMs: this.timeoutMs
+      })
+      const mimeType = (response.headers.get('content-type') ?? '').toLowerCase()
+      if (response.status === 200 && mimeType.startsWith('image/')) {
+        const body = Buffer.from(await response.arrayBuffer())
+        if (body.length >= this.minImageBytes && body.length <= this.maxImageBytes) {
+          const { pHash, dHash } = await computeImageFingerprint(body)
+          hashes = { pHash, dHash }
+        }
+      }
+    } catch {
+      // Imagem inacessível ou corrompida não entra na comparação
+    }
+
+    if (this.remoteHashes.size >= MAX_CACHED_IMAGES) {
+      this.remoteHashes.delete(this.remoteHashes.keys().next().value as string)
+    }
+    this.remoteHashes.set(url, hashes)
+    return hashes
+  }
+}
+
+export const referenceImageService = new ReferenceImageService()
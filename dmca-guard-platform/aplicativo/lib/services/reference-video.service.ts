@@ -0,0 +1,339 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as cheerio from 'cheerio/slim'
+import { Prisma, ReferenceVideo, VideoFingerprintMatch } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { computeImageFingerprint } from '@/lib/content-fingerprint/perceptual-hash'
+import {
+  extractKeyframes,
+  FfmpegRunner,
+  matchFrameSequences,
+  matchThumbnail,
+  spawnFfmpeg,
+  VideoFrameHash,
+  VideoSegment
+} from '@/lib/content-fingerprint/video-keyframes'
+import { DECORATIVE_IMAGE, FingerprintFetcher, httpFingerprintFetcher } from '@/lib/services/content-fingerprint.service'
+
+export interface ReferenceVideoServiceOptions {
+  fetcher?: FingerprintFetcher
+  runner?: FfmpegRunner
+  intervalSeconds?: number
+  maxFrames?: number
+  maxCandidates?: number
+  timeoutMs?: number
+}
+
+export interface ReferenceVideoUpload {
+  video: Buffer
+  mimeType: string
+  title?: string | null
+}
+
+export interface VideoCandidates {
+  videos: string[]
+  thumbnails: string[]
+}
+
+export const REFERENCE_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-matroska', 'video/x-msvideo']
+export const MAX_REFERENCE_VIDEO_BYTES = 200 * 1024 * 1024
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; DMCA-Guard-VideoMatch/1.0)'
+const VIDEO_EXTENSION = /\.(mp4|webm|mov|mkv|avi|m4v|m3u8)(\?|#|$)/i
+// Miniatura isolada é evidência mais fraca que uma sequência de quadros
+const MIN_THUMBNAIL_SIMILARITY = 0.85
+
+export class ReferenceVideoError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message)
+    this.name = 'ReferenceVideoError'
+  }
+}
+
+/**
+ * URLs de vídeo e de prévias (poster, og:image) declaradas na página
+ */
+export function extractVideoCandidates(html: string, baseUrl: string): VideoCandidates {
+  const $ = cheerio.load(html)
+  const videos: string[] = []
+  const thumbnails: string[] = []
+
+  $('video[src], video source[src], source[type^="video/"]').each((_, element) => {
+    videos.push($(element).attr('src') ?? '')
+  })
+  $('meta[property="og:video"], meta[property="og:video:url"], meta[property="og:video:secure_url"], meta[name="twitter:player:stream"]')
+    .each((_, element) => {
+      videos.push($(element).attr('content') ?? '')
+    })
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href') ?? ''
+    if (VIDEO_EXTENSION.test(href)) videos.push(href)
+  })
+
+  $('video[poster]').each((_, element) => {
+    thumbnails.push($(element).attr('poster') ?? '')
+  })
+  $('meta[property="og:image"], meta[name="twitter:image"]').each((_, element) => {
+    thumbnails.push($(element).attr('content') ?? '')
+  })
+
+  const absolute = (candidates: string[]) => {
+    const urls = new Set<string>()
+    for (const candidate of candidates) {
+      if (!candidate || candidate.startsWith('data:') || candidate.startsWith('blob:')) continue
+      try {
+        const url = new URL(candidate, baseUrl)
+        if (url.protocol === 'http:' || url.protocol === 'https:') urls.add(url.toString())
+      } catch {
+        // URL inválida
+      }
+    }
+    return Array.from(urls)
+  }
+
+  return { videos: absolute(videos), thumbnails: absolute(thumbnails).filter(url => !DECORATIVE_IMAGE.test(url)) }
+}
+
+/**
+ * Quadros-chave de vídeos de referência e comparação com vídeos e prévias encontrados em páginas
+ */
+export class ReferenceVideoService {
+  private readonly fetcher: FingerprintFetcher
+  private readonly runner: FfmpegRunner
+  private readonly intervalSeconds: number
+  private readonly maxFrames: number
+  private readonly maxCandidates: number
+  private readonly timeoutMs: number
+  private available: Promise<boolean> | null = null
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: ReferenceVideoServiceOptions = {}) {
+    this.fetcher = options.fetcher ?? httpFingerprintFetcher
+    this.runner = options.runner ?? spawnFfmpeg
+    this.intervalSeconds = options.intervalSeconds ?? parseFloat(process.env.VIDEO_KEYFRAME_INTERVAL_SECONDS || '2')
+    this.maxFrames = options.maxFrames ?? 300
+    this.maxCandidates = options.maxCandidates ?? 3
+    this.timeoutMs = options.timeoutMs ?? 120000
+  }
+
+  /**
+   * ffmpeg instalado (verificado uma vez por processo)
+   */
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.runner(['-version'], { timeoutMs: 10000, maxOutputBytes: 1024 * 1024 })
+        .then(() => true, () => false)
+    }
+    return this.available
+  }
+
+  /**
+   * Cadastrar vídeo de referência: grava só os hashes dos quadros, o vídeo enviado é descartado
+   */
+  async register(userId: string, profileId: string, upload: ReferenceVideoUpload): Promise<ReferenceVideo> {
+    if (!REFERENCE_VIDEO_TYPES.includes(upload.mimeType)) {
+      throw new ReferenceVideoError('Formato de vídeo não suportado. Use MP4, WebM, MOV, MKV ou AVI')
+    }
+    if (upload.video.length > MAX_REFERENCE_VIDEO_BYTES) {
+      throw new ReferenceVideoError('Vídeo maior que 200MB')
+    }
+
+    const profile = await prisma.brandProfile.findFirst({ where: { id: profileId, userId }, select: { id: true } })
+    if (!profile) {
+      throw new ReferenceVideoError('Perfil de marca não encontrado', 404)
+    }
+    if (!await this.isAvailable()) {
+      throw new ReferenceVideoError('Extração de quadros indisponível: ffmpeg não está instalado no servidor', 503)
+    }
+
+    const directory = await mkdtemp(join(tmpdir(), 'dmca-guard-video-'))
+    let keyframes
+    try {
+      const path = join(directory, 'reference')
+      await writeFile(path, upload.video)
+      keyframes = await extractKeyframes(path, this.keyframeOptions())
+    } catch (error) {
+      console.warn('Erro ao extrair quadros do vídeo de referência:', error)
+      throw new ReferenceVideoError('Não foi possível ler o vídeo enviado')
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+
+    if (keyframes.frames.length < 3) {
+      throw new ReferenceVideoError('O vídeo tem poucos quadros utilizáveis para comparação')
+    }
+
+    return prisma.referenceVideo.create({
+      data: {
+        userId,
+        profileId,
+        title: upload.title ?? null,
+        durationSeconds: keyframes.durationSeconds,
+        frameInterval: keyframes.frameInterval,
+        frames: keyframes.frames as unknown as Prisma.InputJsonValue,
+        frameCount: keyframes.frames.length
+      }
+    })
+  }
+
+  list(userId: string, profileId: string) {
+    return prisma.referenceVideo.findMany({
+      where: { userId, profileId },
+      select: {
+        id: true,
+        title: true,
+        durationSeconds: true,
+        frameInterval: true,
+        frameCount: true,
+        isActive: true,
+        uploadedAt: true,
+        _count: { select: { matches: true } }
+      },
+      orderBy: { uploadedAt: 'desc' }
+    })
+  }
+
+  async remove(userId: string, profileId: string, id: string): Promise<boolean> {
+    const deleted = await prisma.referenceVideo.deleteMany({ where: { id, userId, profileId } })
+    return deleted.count > 0
+  }
+
+  /**
+   * Comparar vídeos e prévias da página detectada com os vídeos de referência do perfil
+   * e gravar os trechos correspondentes como evidência
+   */
+  async matchDetectedContent(detectedContentId: string): Promise<VideoFingerprintMatch[]> {
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      select: { brandProfileId: true, infringingUrl: true, thumbnailUrl: true, similarity: true }
+    })
+    if (!content) return []
+
+    const references = await prisma.referenceVideo.findMany({
+      where: { profileId: content.brandProfileId, isActive: true },
+      select: { id: true, frames: true, frameInterval: true }
+    })
+    if (references.length === 0) return []
+
+    const candidates = await this.findCandidates(content.infringingUrl)
+    if (content.thumbnailUrl) candidates.thumbnails.unshift(content.thumbnailUrl)
+
+    const results: VideoFingerprintMatch[] = []
+    const record = async (referenceVideoId: string, candidateUrl: string, source: 'VIDEO' | 'THUMBNAIL', score: number, segments: VideoSegment[]) => {
+      const data = {
+        source,
+        score,
+        matchedFrames: segments.reduce((total, segment) => total + segment.frames, 0),
+        segments: segments as unknown as Prisma.InputJsonValue
+      }
+      results.push(await prisma.videoFingerprintMatch.upsert({
+        where: { detectedContentId_referenceVideoId_candidateUrl: { detectedContentId, referenceVideoId, candidateUrl } },
+        create: { detectedContentId, referenceVideoId, candidateUrl, ...data },
+        update: data
+      }))
+    }
+
+    if (candidates.videos.length > 0 && await this.isAvailable()) {
+      for (const videoUrl of candidates.videos.slice(0, this.maxCandidates)) {
+        let frames: VideoFrameHash[]
+        try {
+          frames = (await extractKeyframes(videoUrl, this.keyframeOptions())).frames
+        } catch (error) {
+          console.warn(`Não foi possível extrair quadros de ${videoUrl}:`, error)
+          continue
+        }
+
+        for (const reference of references) {
+          const match = matchFrameSequences(reference.frames as unknown as VideoFrameHash[], frames, {
+            frameInterval: Math.max(reference.frameInterval, this.intervalSeconds)
+          })
+          if (match) await record(reference.id, videoUrl, 'VIDEO', match.score, match.segments)
+        }
+      }
+    }
+
+    for (const thumbnailUrl of Array.from(new Set(candidates.thumbnails)).slice(0, this.maxCandidates)) {
+      const hashes = await this.hashThumbnail(thumbnailUrl)
+      if (!hashes) continue
+
+      for (const reference of references) {
+        const match = matchThumbnail(reference.frames as unknown as VideoFrameHash[], hashes)
+        if (!match || match.similarity < MIN_THUMBNAIL_SIMILARITY) continue
+        await record(reference.id, thumbnailUrl, 'THUMBNAIL', match.similarity, [
+          { referenceStart: match.t, referenceEnd: match.t, candidateStart: 0, candidateEnd: 0, frames: 1 }
+        ])
+      }
+    }
+
+    if (results.length > 0) {
+      const best = Math.max(...results.map(result => result.score))
+      await prisma.detectedContent.update({
+        where: { id: detectedContentId },
+        data: { similarity: Math.max(content.similarity ?? 0, best) }
+      })
+    }
+
+    return results
+  }
+
+  /**
+   * Comparar em segundo plano, uma detecção por vez (ffmpeg é pesado)
+   */
+  enqueueMatch(detectedContentId: string): void {
+    this.queue = this.queue
+      .then(() => this.matchDetectedContent(detectedContentId))
+      .then(
+        () => undefined,
+        error => console.error(`Erro ao comparar vídeos de ${detectedContentId} com as referências:`, error)
+      )
+  }
+
+  private keyframeOptions() {
+    return {
+      runner: this.runner,
+      intervalSeconds: this.intervalSeconds,
+      maxFrames: this.maxFrames,
+      timeoutMs: this.timeoutMs,
+      userAgent: USER_AGENT
+    }
+  }
+
+  /**
+   * A própria URL quando é um vídeo; senão, vídeos e prévias declarados no HTML
+   */
+  private async findCandidates(url: string): Promise<VideoCandidates> {
+    if (VIDEO_EXTENSION.test(url)) return { videos: [url], thumbnails: [] }
+
+    try {
+      const response = await this.fetcher(url, {
+        headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+        timeoutMs: 20000
+      })
+      const contentType = (response.headers.get('content-type') ?? '').toLowerCase()
+      if (contentType.startsWith('video/')) return { videos: [response.url || url], thumbnails: [] }
+      if (response.status >= 400 || !contentType.includes('html')) return { videos: [], thumbnails: [] }
+
+      const html = Buffer.from(await response.arrayBuffer()).toString('utf8')
+      return extractVideoCandidates(html, response.url || url)
+    } catch (error) {
+      console.warn(`Não foi possível carregar ${url} para comparação de vídeos:`, error)
+      return { videos: [], thumbnails: [] }
+    }
+  }
+
+  private async hashThumbnail(url: string) {
+    try {
+      const response = await this.fetcher(url, { headers: { 'User-Agent': USER_AGENT, Accept: 'image/*' }, timeoutMs: 15000 })
+      const mimeType = (response.headers.get('content-type') ?? '').toLowerCase()
+      if (response.status !== 200 || !mimeType.startsWith('image/')) return null
+
+      const { pHash, dHash } = await computeImageFingerprint(Buffer.from(await response.arrayBuffer()))
+      return { pHash, dHash }
+    } catch {
+      return null
+    }
+  }
+}
+
+export const referenceVideoService = new ReferenceVideoService()
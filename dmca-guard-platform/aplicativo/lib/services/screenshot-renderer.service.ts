@@ -0,0 +1,271 @@
+import sharp from 'sharp'
+import type { Browser, Page, PuppeteerLifeCycleEvent, Viewport } from 'puppeteer-core'
+import { getObjectStorage, ObjectStorage } from '@/lib/services/object-storage'
+
+export type ViewportPreset = 'desktop' | 'laptop' | 'tablet' | 'mobile'
+
+export const VIEWPORT_PRESETS: Record<ViewportPreset, Viewport> = {
+  desktop: { width: 1920, height: 1080, deviceScaleFactor: 1 },
+  laptop: { width: 1366, height: 768, deviceScaleFactor: 1 },
+  tablet: { width: 768, height: 1024, deviceScaleFactor: 2, isMobile: true, hasTouch: true },
+  mobile: { width: 390, height: 844, deviceScaleFactor: 2, isMobile: true, hasTouch: true }
+}
+
+const MOBILE_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+const DESKTOP_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36'
+
+/**
+ * Retângulo em pixels CSS, relativo à página (fullPage) ou à viewport
+ */
+export interface BlurRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface RenderOptions {
+  viewport?: ViewportPreset | Viewport
+  fullPage?: boolean
+  blurRegions?: BlurRegion[]
+  blurSelectors?: string[] // elementos borrados pela posição na página (ex.: 'img', 'video')
+  timeoutMs?: number
+  waitUntil?: PuppeteerLifeCycleEvent
+  userAgent?: string
+}
+
+export interface RenderedScreenshot {
+  image: Buffer
+  width: number
+  height: number
+  finalUrl: string
+  httpStatus: number | null
+  loadTimedOut: boolean
+  capturedAt: Date
+}
+
+export interface StoredScreenshot extends Omit<RenderedScreenshot, 'image'> {
+  path: string
+  thumbnailPath: string
+  size: number
+}
+
+export type BrowserLauncher = () => Promise<Browser>
+
+export interface ScreenshotRendererOptions {
+  executablePath?: string
+  launcher?: BrowserLauncher
+  storage?: () => ObjectStorage
+  navigationTimeoutMs?: number
+  maxFullPageHeight?: number
+  blurSigma?: number
+  thumbnailWidth?: number
+}
+
+/**
+ * Borrar regiões de uma imagem (coordenadas em pixels da imagem)
+ */
+export async function blurImageRegions(image: Buffer, regions: BlurRegion[], sigma = 30): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(image).metadata()
+  const overlays: sharp.OverlayOptions[] = []
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x))
+    const top = Math.max(0, Math.floor(region.y))
+    const right = Math.min(width, Math.ceil(region.x + region.width))
+    const bottom = Math.min(height, Math.ceil(region.y + region.height))
+    if (right - left < 1 || bottom - top < 1) continue
+
+    const blurred = await sharp(image)
+      .extract({ left, top, width: right - left, height: bottom - top })
+      .blur(sigma)
+      .toBuffer()
+    overlays.push({ input: blurred, left, top })
+  }
+
+  if (overlays.length === 0) return image
+  return sharp(image).composite(overlays).png().toBuffer()
+}
+
+export function createThumbnail(image: Buffer, width = 320): Promise<Buffer> {
+  return sharp(image).resize({ width, withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer()
+}
+
+function resolveViewport(viewport: RenderOptions['viewport']): Viewport {
+  if (!viewport) return VIEWPORT_PRESETS.laptop
+  return typeof viewport === 'string' ? VIEWPORT_PRESETS[viewport] : viewport
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), ms)
+    })
+  ]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Renderiza páginas em um Chromium local (puppeteer-core) para screenshots de prova
+ */
+export class ScreenshotRenderer {
+  private readonly executablePath?: string
+  private readonly launcher: BrowserLauncher
+  private readonly storage: () => ObjectStorage
+  private readonly navigationTimeoutMs: number
+  private readonly maxFullPageHeight: number
+  private readonly blurSigma: number
+  private readonly thumbnailWidth: number
+  private readonly hasCustomLauncher: boolean
+  private browser: Promise<Browser> | null = null
+
+  constructor(options: ScreenshotRendererOptions = {}) {
+    this.executablePath = options.executablePath ?? process.env.CHROMIUM_EXECUTABLE_PATH
+    this.launcher = options.launcher ?? (() => this.launchChromium())
+    this.storage = options.storage ?? getObjectStorage
+    this.navigationTimeoutMs = options.navigationTimeoutMs ?? parseInt(process.env.SCREENSHOT_TIMEOUT_MS || '30000')
+    this.maxFullPageHeight = options.maxFullPageHeight ?? 15000
+    this.blurSigma = options.blurSigma ?? 30
+    this.thumbnailWidth = options.thumbnailWidth ?? 320
+    this.hasCustomLauncher = Boolean(options.launcher)
+  }
+
+  /**
+   * Há navegador configurado (CHROMIUM_EXECUTABLE_PATH ou launcher próprio)
+   */
+  isAvailable(): boolean {
+    return this.hasCustomLauncher || Boolean(this.executablePath)
+  }
+
+  async render(url: string, options: RenderOptions = {}): Promise<RenderedScreenshot> {
+    const timeoutMs = options.timeoutMs ?? this.navigationTimeoutMs
+    const browser = await this.getBrowser()
+    const page = await browser.newPage()
+
+    try {
+      // Folga para o screenshot e o blur depois do carregamento
+      return await withTimeout(this.renderPage(page, url, options, timeoutMs), timeoutMs + 15000, `Renderização de ${url} excedeu ${timeoutMs + 15000}ms`)
+    } finally {
+      await page.close().catch(() => undefined)
+    }
+  }
+
+  /**
+   * Renderizar e gravar imagem e miniatura no storage configurado
+   */
+  async renderToStorage(url: string, keyPrefix: string, options: RenderOptions = {}): Promise<StoredScreenshot> {
+    const { image, ...rendered } = await this.render(url, options)
+    const thumbnail = await createThumbnail(image, this.thumbnailWidth)
+    const storage = this.storage()
+    const path = `${keyPrefix}.png`
+    const thumbnailPath = `${keyPrefix}.thumb.jpg`
+
+    await storage.put(path, image, 'image/png')
+    await storage.put(thumbnailPath, thumbnail, 'image/jpeg')
+
+    return { ...rendered, path, thumbnailPath, size: image.length }
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser
+    this.browser = null
+    if (browser) {
+      await (await browser).close().catch(() => undefined)
+    }
+  }
+
+  private async renderPage(page: Page, url: string, options: RenderOptions, timeoutMs: number): Promise<RenderedScreenshot> {
+    const viewport = resolveViewport(options.viewport)
+    const scale = viewport.deviceScaleFactor ?? 1
+
+    await page.setViewport(viewport)
+    await page.setUserAgent(options.userAgent ?? (viewport.isMobile ? MOBILE_USER_AGENT : DESKTOP_USER_AGENT))
+
+    let httpStatus: number | null = null
+    let loadTimedOut = false
+    try {
+      const response = await page.goto(url, { waitUntil: options.waitUntil ?? 'networkidle2', timeout: timeoutMs })
+      httpStatus = response?.status() ?? null
+    } catch (error) {
+      // Página que não termina de carregar (anúncios, long polling) ainda é capturada como está
+      if ((error as Error)?.name !== 'TimeoutError') throw error
+      loadTimedOut = true
+    }
+
+    const fullPage = options.fullPage ?? false
+    const regions = [...(options.blurRegions ?? [])]
+    if (options.blurSelectors?.length) {
+      regions.push(...await page.$$eval(
+        options.blurSelectors.join(','),
+        (elements, relativeToPage) => elements.map(element => {
+          const rect = element.getBoundingClientRect()
+          return {
+            x: rect.left + (relativeToPage ? window.scrollX : 0),
+            y: rect.top + (relativeToPage ? window.scrollY : 0),
+            width: rect.width,
+            height: rect.height
+          }
+        }),
+        fullPage
+      ))
+    }
+
+    let image: Buffer
+    if (fullPage) {
+      const pageHeight = await page.evaluate(() => document.documentElement.scrollHeight)
+      image = Buffer.from(pageHeight > this.maxFullPageHeight
+        ? await page.screenshot({
+            type: 'png',
+            clip: { x: 0, y: 0, width: viewport.width, height: this.maxFullPageHeight },
+            captureBeyondViewport: true
+          })
+        : await page.screenshot({ type: 'png', fullPage: true }))
+    } else {
+      image = Buffer.from(await page.screenshot({ type: 'png' }))
+    }
+
+    if (regions.length > 0) {
+      image = await blurImageRegions(
+        image,
+        regions.map(region => ({ x: region.x * scale, y: region.y * scale, width: region.width * scale, height: region.height * scale })),
+        this.blurSigma
+      )
+    }
+
+    const { width = 0, height = 0 } = await sharp(image).metadata()
+    return { image, width, height, finalUrl: page.url(), httpStatus, loadTimedOut, capturedAt: new Date() }
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('Chromium não configurado (CHROMIUM_EXECUTABLE_PATH)'))
+    }
+
+    if (this.browser) {
+      const current = this.browser
+      return current.then(browser => {
+        if (browser.connected) return browser
+        this.browser = null
+        return this.getBrowser()
+      })
+    }
+
+    this.browser = this.launcher().catch(error => {
+      this.browser = null
+      throw error
+    })
+    return this.browser
+  }
+
+  private async launchChromium(): Promise<Browser> {
+    const puppeteer = await import('puppeteer-core')
+    return puppeteer.launch({
+      executablePath: this.executablePath,
+      headless: true,
+      args: ['--no-sandbox', '--disable-dev-shm-usage', '--disable-gpu', '--hide-scrollbars', '--mute-audio']
+    })
+  }
+}
+
+export const screenshotRenderer = new ScreenshotRenderer()
@@ -1,15 +1,18 @@
 // lib/services/security/anti-flooding.service.ts
 import { PlanType, ViolationType } from '@prisma/client'
+import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
-import { GeminiAIService } from '@/lib/services/gemini-ai'
+import { llmService } from '@/lib/services/llm.service'
 import { notificationService, NotificationType } from '../notification.service'
 
-interface KeywordQualityAnalysis {
-  spamProbability: number
-  quality: 'HIGH' | 'MEDIUM' | 'LOW' | 'SPAM'
-  issues: string[]
-  suggestions?: string[]
-}
+const KeywordQualityAnalysisSchema = z.object({
+  spamProbability: z.coerce.number().min(0).max(1),
+  quality: z.enum(['HIGH', 'MEDIUM', 'LOW', 'SPAM']),
+  issues: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).optional()
+})
+
+type KeywordQualityAnalysis = z.infer<typeof KeywordQualityAnalysisSchema>
 
 interface RateLimitConfig {
   keywords: number
@@ -58,12 +61,6 @@ export class AntiFloodingService {
     }
   }
 
-  private geminiService: GeminiAIService
-
-  constructor() {
-    this.geminiService = new GeminiAIService()
-  }
-
   /**
    * Valida criação de keywords com rate limiting e análise de qualidade
    */
@@ -201,9 +198,8 @@ export class AntiFloodingService {
         }
       `
 
-      const geminiResponse = await this.geminiService.generateContent(prompt)
-      const response = geminiResponse.text
-      return JSON.parse(response)
+      const { data } = await llmService.generateObject(KeywordQualityAnalysisSchema, prompt)
+      return data
     } catch (error) {
       console.error('[Anti-Flooding] Error analyzing keyword quality:', error)
       
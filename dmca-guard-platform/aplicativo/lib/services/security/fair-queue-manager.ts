@@ -1,15 +1,14 @@
 // lib/services/security/fair-queue-manager.ts
+import os from 'os'
 import { PlanType } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { emitQueueUpdate } from '@/lib/socket-server'
+import { ClaimCapacity, PrismaScanQueueStore, ScanJob, ScanQueueStore } from './scan-queue-store'
 
 interface ScanRequest {
-  id: string
   userId: string
   userPlan: PlanType
   siteIds: string[]
-  priority: number
-  queuedAt: Date
   metadata?: any
 }
 
@@ -34,78 +33,71 @@ const CONCURRENT_SCAN_LIMITS = {
   SUPER_USER: Infinity
 }
 
+const GLOBAL_SCAN_LIMIT = 100 // Limite global do sistema
+
+const QUEUE_CONFIG = {
+  leaseMs: 2 * 60 * 1000, // Lease expira se o worker parar de enviar heartbeat
+  heartbeatMs: 30 * 1000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 15 * 60 * 1000,
+  schedulerTickMs: 1000
+}
+
 export class FairQueueManager {
-  // Em produção, usar Redis ou RabbitMQ
-  private static userQueues = new Map<string, ScanRequest[]>()
-  private static activeScans = new Map<string, number>()
-  private static globalQueue: ScanRequest[] = []
+  // Estado da fila fica no store persistente; em memória só o que é local ao processo
   private static isSchedulerRunning = false
+  private static heartbeats = new Map<string, NodeJS.Timeout>()
+  private static readonly workerId = `${os.hostname()}:${process.pid}:${Math.random().toString(36).substr(2, 6)}`
   
   // Métricas de processamento por tipo de plano
   private static processingMetrics = new Map<PlanType, ProcessingMetrics>()
   private static readonly METRICS_WINDOW_SIZE = 50 // Últimos 50 scans
 
+  constructor(private readonly store: ScanQueueStore = new PrismaScanQueueStore()) {}
+
   /**
    * Enfileira ou inicia um scan, respeitando os limites do plano do usuário
    */
-  async enqueueScan(request: Omit<ScanRequest, 'id' | 'queuedAt' | 'priority'>): Promise<QueueResponse> {
-    const scanRequest: ScanRequest = {
+  async enqueueScan(request: ScanRequest): Promise<QueueResponse> {
+    // Persistir antes de qualquer processamento: sobrevive a restart/crash
+    const job = await this.store.create({
       ...request,
-      id: this.generateRequestId(),
-      queuedAt: new Date(),
-      priority: this.calculatePriority(request.userPlan)
-    }
-
-    const limit = CONCURRENT_SCAN_LIMITS[request.userPlan]
-    const activeUserScans = FairQueueManager.activeScans.get(request.userId) || 0
-
-    // Se usuário está no limite, enfileirar
-    if (activeUserScans >= limit && limit !== Infinity) {
-      return this.addToQueue(scanRequest)
-    }
+      priority: this.calculatePriority(request.userPlan),
+      maxAttempts: QUEUE_CONFIG.maxAttempts
+    })
 
-    // Verificar se há recursos globais disponíveis
-    const totalActiveScans = this.getTotalActiveScans()
-    const globalLimit = 100 // Limite global do sistema
+    const canStartNow = await this.canUserProcessMore(request.userId, request.userPlan) &&
+      await this.canProcessMore()
 
-    if (totalActiveScans >= globalLimit) {
-      return this.addToQueue(scanRequest)
+    if (canStartNow) {
+      const claimed = await this.store.claim(job.id, FairQueueManager.workerId, QUEUE_CONFIG.leaseMs, this.capacityFor(request.userPlan))
+      if (claimed) {
+        this.startProcessing(claimed)
+        this.ensureSchedulerRunning()
+        return { status: 'PROCESSING' }
+      }
     }
 
-    // Processar imediatamente
-    this.incrementActiveScans(request.userId)
-    this.processScan(scanRequest)
-    
-    return { status: 'PROCESSING' }
+    return this.reportQueued(job)
   }
 
   /**
-   * Adiciona scan à fila
+   * Informa posição e estimativa de um scan que ficou na fila
    */
-  private async addToQueue(request: ScanRequest): Promise<QueueResponse> {
-    // Adicionar à fila do usuário
-    const userQueue = FairQueueManager.userQueues.get(request.userId) || []
-    userQueue.push(request)
-    FairQueueManager.userQueues.set(request.userId, userQueue)
-
-    // Adicionar à fila global para round-robin
-    FairQueueManager.globalQueue.push(request)
-    FairQueueManager.globalQueue.sort((a, b) => b.priority - a.priority)
-
-    // Iniciar scheduler se não estiver rodando
-    if (!FairQueueManager.isSchedulerRunning) {
-      this.startGlobalScheduler()
-    }
+  private async reportQueued(job: ScanJob): Promise<QueueResponse> {
+    this.ensureSchedulerRunning()
 
-    const position = this.calculateQueuePosition(request)
-    const estimatedStartTime = await this.estimateStartTime(request, position)
+    const ahead = await this.store.findQueuedAhead(job)
+    const position = ahead.length + 1
+    const estimatedStartTime = await this.estimateStartTime(job, ahead)
 
-    console.log(`[Queue] Scan enqueued for user ${request.userId}. Position: ${position}`)
+    console.log(`[Queue] Scan enqueued for user ${job.userId}. Position: ${position}`)
 
     // Emit WebSocket event
     emitQueueUpdate({
-      userId: request.userId,
-      queueId: request.id,
+      userId: job.userId,
+      queueId: job.id,
       status: 'QUEUED',
       position,
       estimatedStartTime
@@ -115,7 +107,7 @@ export class FairQueueManager {
       status: 'QUEUED',
       position,
       estimatedStartTime,
-      queueId: request.id
+      queueId: job.id
     }
   }
 
@@ -133,137 +125,230 @@ export class FairQueueManager {
     return priorities[plan] || 1
   }
 
-  /**
-   * Calcula posição na fila
-   */
-  private calculateQueuePosition(request: ScanRequest): number {
-    let position = 1
-    
-    for (const queued of FairQueueManager.globalQueue) {
-      if (queued.id === request.id) break
-      
-      // Considerar prioridade e tempo de espera
-      if (queued.priority > request.priority) {
-        position++
-      } else if (queued.priority === request.priority && queued.queuedAt < request.queuedAt) {
-        position++
-      }
-    }
-    
-    return position
-  }
-
   /**
    * Estima tempo de início baseado em histórico real
    */
-  private async estimateStartTime(request: ScanRequest, position: number): Promise<Date> {
+  private async estimateStartTime(job: ScanJob, ahead: ScanJob[]): Promise<Date> {
     // Buscar métricas do plano
-    const metrics = await this.getProcessingMetrics(request.userPlan)
+    const metrics = await this.getProcessingMetrics(job.userPlan)
     
     // Se não houver histórico, usar estimativa conservadora
     const baseTimePerScan = metrics.averageTime || 120000 // 2 minutos default
     
     // Ajustar baseado no número de sites
-    const siteFactor = Math.max(1, request.siteIds.length / 10)
+    const siteFactor = Math.max(1, job.siteIds.length / 10)
     const adjustedTime = baseTimePerScan * siteFactor
     
     // Considerar scans na frente com planos diferentes
     let estimatedMs = 0
-    let scansBefore = 0
     
-    for (const queued of FairQueueManager.globalQueue) {
-      if (queued.id === request.id) break
-      
-      if (queued.priority >= request.priority || 
-          (queued.priority === request.priority && queued.queuedAt < request.queuedAt)) {
-        const queuedMetrics = await this.getProcessingMetrics(queued.userPlan)
-        const queuedTime = queuedMetrics.averageTime || 120000
-        estimatedMs += queuedTime * Math.max(1, queued.siteIds.length / 10)
-        scansBefore++
-      }
+    for (const queued of ahead) {
+      const queuedMetrics = await this.getProcessingMetrics(queued.userPlan)
+      const queuedTime = queuedMetrics.averageTime || 120000
+      estimatedMs += queuedTime * Math.max(1, queued.siteIds.length / 10)
     }
     
     // Se não há scans na frente, usar tempo médio do plano
-    if (scansBefore === 0) {
+    if (ahead.length === 0) {
       estimatedMs = adjustedTime
     }
-    
-    return new Date(Date.now() + estimatedMs)
+
+    // Retentativas só podem começar depois do backoff
+    const earliest = Math.max(Date.now() + estimatedMs, job.availableAt.getTime())
+    return new Date(earliest)
+  }
+
+  /**
+   * Limites aplicados atomicamente no claim; as checagens anteriores só evitam claims inúteis
+   */
+  private capacityFor(plan: PlanType): ClaimCapacity {
+    return { perUser: CONCURRENT_SCAN_LIMITS[plan], global: GLOBAL_SCAN_LIMIT }
+  }
+
+  /**
+   * Dispara o scan sem bloquear o chamador; erros fora do try do processScan marcam o job como falho
+   */
+  private startProcessing(job: ScanJob) {
+    this.processScan(job).catch(async (error) => {
+      console.error(`[Queue] Unhandled error processing scan ${job.id}:`, error)
+      this.stopHeartbeat(job.id)
+      await this.handleFailure(job, FairQueueManager.workerId, error instanceof Error ? error.message : String(error))
+        .catch(failError => console.error(`[Queue] Failed to mark scan ${job.id} as failed:`, failError))
+    })
   }
 
   /**
    * Processa scan
    */
-  private async processScan(request: ScanRequest) {
-    console.log(`[Queue] Processing scan for user ${request.userId}...`)
+  private async processScan(job: ScanJob) {
+    console.log(`[Queue] Processing scan for user ${job.userId} (attempt ${job.attempts}/${job.maxAttempts})...`)
     const startTime = Date.now()
+    let monitoringSessionId: string | undefined
+
+    this.startHeartbeat(job.id)
     
     try {
       // Emit WebSocket event
       emitQueueUpdate({
-        userId: request.userId,
-        queueId: request.id,
+        userId: job.userId,
+        queueId: job.id,
         status: 'PROCESSING',
         startedAt: new Date()
       })
 
-      // Criar sessão de monitoramento
-      const session = await prisma.monitoringSession.create({
-        data: {
-          userId: request.userId,
-          brandProfileId: request.metadata?.brandProfileId,
-          status: 'RUNNING',
-          name: `Known Sites Scan - ${new Date().toISOString()}`,
-          targetPlatforms: request.siteIds || [],
-          startedAt: new Date()
-        }
-      })
+      // Reutilizar a sessão agendada ou criar uma nova sessão de monitoramento
+      const session = job.metadata?.monitoringSessionId
+        ? await prisma.monitoringSession.update({
+            where: { id: job.metadata.monitoringSessionId },
+            data: {
+              status: 'RUNNING',
+              startedAt: new Date()
+            }
+          })
+        : await prisma.monitoringSession.create({
+            data: {
+              userId: job.userId,
+              brandProfileId: job.metadata?.brandProfileId,
+              status: 'RUNNING',
+              name: `Known Sites Scan - ${new Date().toISOString()}`,
+              targetPlatforms: job.siteIds || [],
+              startedAt: new Date()
+            }
+          })
+      monitoringSessionId = session.id
 
       // Import KnownSitesAgent dynamically to avoid circular dependencies
       const { KnownSitesAgent } = await import('@/lib/agents/KnownSitesAgent')
-      const agent = new KnownSitesAgent(request.userId)
+      const agent = new KnownSitesAgent(job.userId)
       
       // Execute scan with the created session
-      await agent.scanKnownSites(request.metadata?.brandProfileId || '')
+      await agent.scanKnownSites(job.metadata?.brandProfileId || '')
 
       // Atualizar métricas de processamento
       const processingTime = Date.now() - startTime
-      await this.updateProcessingMetrics(request.userPlan, processingTime)
+      await this.updateProcessingMetrics(job.userPlan, processingTime)
       
       // Atualizar sessão com tempo de processamento
       await prisma.monitoringSession.update({
         where: { id: session.id },
         data: {
           completedAt: new Date(),
-          processingTime
+          processingTime,
+          // Sessões agendadas voltam para IDLE para a próxima execução
+          ...(job.metadata?.monitoringSessionId && { status: 'IDLE' as const })
         }
       })
 
-      this.onScanComplete(request.userId, request.id)
+      this.stopHeartbeat(job.id)
+      await this.store.complete(job.id, FairQueueManager.workerId)
+      this.onScanComplete(job.userId, job.id)
 
     } catch (error) {
       console.error(`[Queue] Error processing scan:`, error)
       
       // Ainda atualizar métricas mesmo em caso de erro
       const processingTime = Date.now() - startTime
-      await this.updateProcessingMetrics(request.userPlan, processingTime)
-      
-      this.onScanComplete(request.userId, request.id)
+      await this.updateProcessingMetrics(job.userPlan, processingTime)
+
+      if (monitoringSessionId) {
+        await prisma.monitoringSession.update({
+          where: { id: monitoringSessionId },
+          data: { status: 'ERROR', completedAt: new Date(), processingTime }
+        }).catch(updateError => {
+          console.error(`[Queue] Failed to mark session ${monitoringSessionId} as errored:`, updateError)
+        })
+      }
+
+      this.stopHeartbeat(job.id)
+      await this.handleFailure(job, FairQueueManager.workerId, error instanceof Error ? error.message : String(error))
     }
   }
 
   /**
-   * Callback quando scan completa
+   * Reagenda com backoff exponencial ou envia para a dead-letter
    */
-  private onScanComplete(userId: string, requestId: string) {
-    // Decrementar contador de scans ativos
-    this.decrementActiveScans(userId)
+  private async handleFailure(job: ScanJob, owner: string, errorMessage: string) {
+    const exhausted = job.attempts >= job.maxAttempts
+    const retryAt = exhausted ? null : new Date(Date.now() + this.calculateBackoff(job.attempts))
 
-    // Remover da fila global se ainda estiver lá
-    FairQueueManager.globalQueue = FairQueueManager.globalQueue.filter(
-      r => r.id !== requestId
-    )
+    const updated = await this.store.fail(job.id, owner, { error: errorMessage, retryAt })
+    if (!updated) return
+
+    await this.releaseScheduledSession(job, retryAt ? 'IDLE' : 'ERROR')
+
+    if (retryAt) {
+      console.warn(`[Queue] Scan ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${retryAt.toISOString()}`)
+      emitQueueUpdate({
+        userId: job.userId,
+        queueId: job.id,
+        status: 'QUEUED',
+        estimatedStartTime: retryAt
+      })
+    } else {
+      console.error(`[Queue] Scan ${job.id} moved to dead-letter after ${job.attempts} attempts`)
+      emitQueueUpdate({
+        userId: job.userId,
+        queueId: job.id,
+        status: 'FAILED',
+        completedAt: new Date()
+      })
+    }
 
+    this.ensureSchedulerRunning()
+  }
+
+  /**
+   * Sessão agendada que ficou em RUNNING (worker morto, lease expirado) volta para o scheduler;
+   * o catch do processScan já a marca como ERROR, então só sessões ainda em RUNNING mudam
+   */
+  private async releaseScheduledSession(job: ScanJob, status: 'IDLE' | 'ERROR') {
+    const monitoringSessionId = job.metadata?.monitoringSessionId
+    if (!monitoringSessionId) return
+
+    await prisma.monitoringSession.updateMany({
+      where: { id: monitoringSessionId, status: 'RUNNING' },
+      data: { status, ...(status === 'ERROR' && { completedAt: new Date() }) }
+    }).catch(error => {
+      console.error(`[Queue] Failed to release session ${monitoringSessionId} of scan ${job.id}:`, error)
+    })
+  }
+
+  private calculateBackoff(attempts: number): number {
+    const delay = QUEUE_CONFIG.retryBaseDelayMs * Math.pow(2, Math.max(0, attempts - 1))
+    return Math.min(delay, QUEUE_CONFIG.retryMaxDelayMs)
+  }
+
+  /**
+   * Heartbeat renova o lease enquanto o scan está rodando neste processo
+   */
+  private startHeartbeat(jobId: string) {
+    const timer = setInterval(async () => {
+      try {
+        const renewed = await this.store.heartbeat(jobId, FairQueueManager.workerId, QUEUE_CONFIG.leaseMs)
+        if (!renewed) {
+          console.warn(`[Queue] Lost lease for scan ${jobId}`)
+          this.stopHeartbeat(jobId)
+        }
+      } catch (error) {
+        console.error(`[Queue] Heartbeat failed for scan ${jobId}:`, error)
+      }
+    }, QUEUE_CONFIG.heartbeatMs)
+
+    FairQueueManager.heartbeats.set(jobId, timer)
+  }
+
+  private stopHeartbeat(jobId: string) {
+    const timer = FairQueueManager.heartbeats.get(jobId)
+    if (timer) {
+      clearInterval(timer)
+      FairQueueManager.heartbeats.delete(jobId)
+    }
+  }
+
+  /**
+   * Callback quando scan completa
+   */
+  private onScanComplete(userId: string, requestId: string) {
     console.log(`[Queue] Scan completed for user ${userId}`)
 
     // Emit WebSocket event
@@ -275,7 +360,21 @@ export class FairQueueManager {
     })
 
     // Processar próximo da fila
-    this.processNextInQueue()
+    this.ensureSchedulerRunning()
+  }
+
+  /**
+   * Retoma a fila persistida (ex.: após deploy ou crash)
+   */
+  async resume() {
+    await this.recoverExpiredLeases()
+    this.ensureSchedulerRunning()
+  }
+
+  private ensureSchedulerRunning() {
+    if (!FairQueueManager.isSchedulerRunning) {
+      this.startGlobalScheduler()
+    }
   }
 
   /**
@@ -287,124 +386,79 @@ export class FairQueueManager {
     FairQueueManager.isSchedulerRunning = true
     console.log('[Queue] Global scheduler started')
 
-    while (FairQueueManager.globalQueue.length > 0 || this.hasActiveScans()) {
-      await this.schedulerTick()
-      await this.sleep(1000) // Check a cada segundo
+    try {
+      while (await this.hasPendingWork()) {
+        await this.schedulerTick()
+        await this.sleep(QUEUE_CONFIG.schedulerTickMs) // Check a cada segundo
+      }
+    } catch (error) {
+      console.error('[Queue] Global scheduler error:', error)
+    } finally {
+      FairQueueManager.isSchedulerRunning = false
+      console.log('[Queue] Global scheduler stopped')
     }
+  }
 
-    FairQueueManager.isSchedulerRunning = false
-    console.log('[Queue] Global scheduler stopped')
+  private async hasPendingWork(): Promise<boolean> {
+    const counts = await this.store.countByStatus()
+    return (counts.QUEUED || 0) > 0 || (counts.PROCESSING || 0) > 0
   }
 
   /**
    * Tick do scheduler
    */
   private async schedulerTick() {
+    await this.recoverExpiredLeases()
+
     // Round-robin entre usuários para fairness
-    const usersWithQueues = Array.from(FairQueueManager.userQueues.keys())
+    const usersWithQueues = await this.store.findUsersWithReadyJobs(new Date())
     
-    for (const userId of usersWithQueues) {
-      const userQueue = FairQueueManager.userQueues.get(userId) || []
-      const userPlan = userQueue[0]?.userPlan || 'FREE'
-      const limit = CONCURRENT_SCAN_LIMITS[userPlan as keyof typeof CONCURRENT_SCAN_LIMITS]
-      const activeScans = FairQueueManager.activeScans.get(userId) || 0
-
+    for (const { userId, userPlan } of usersWithQueues) {
       // Se usuário tem espaço para mais scans
-      if (activeScans < limit && userQueue.length > 0) {
-        const canProcess = this.canProcessMore()
-        
-        if (canProcess) {
-          const request = userQueue.shift()!
-          FairQueueManager.userQueues.set(userId, userQueue)
-          
-          // Remover da fila global
-          FairQueueManager.globalQueue = FairQueueManager.globalQueue.filter(
-            r => r.id !== request.id
-          )
-          
-          this.incrementActiveScans(userId)
-          this.processScan(request)
-        }
-      }
+      if (!await this.canUserProcessMore(userId, userPlan)) continue
+      if (!await this.canProcessMore()) break
+
+      const next = await this.store.findNextQueued(userId, new Date())
+      if (!next) continue
 
-      // Limpar fila vazia
-      if (userQueue.length === 0) {
-        FairQueueManager.userQueues.delete(userId)
+      // Outra instância pode ter reivindicado o mesmo job ou ocupado a capacidade
+      const claimed = await this.store.claim(next.id, FairQueueManager.workerId, QUEUE_CONFIG.leaseMs, this.capacityFor(userPlan))
+      if (claimed) {
+        this.startProcessing(claimed)
       }
     }
   }
 
   /**
-   * Processa próximo da fila
+   * Jobs cujo worker parou de enviar heartbeat contam como falha
    */
-  private processNextInQueue() {
-    if (FairQueueManager.globalQueue.length === 0) return
-    
-    // Pegar próximo respeitando prioridade
-    const next = FairQueueManager.globalQueue[0]
-    
-    if (next && this.canUserProcessMore(next.userId, next.userPlan)) {
-      FairQueueManager.globalQueue.shift()
-      
-      // Remover da fila do usuário
-      const userQueue = FairQueueManager.userQueues.get(next.userId) || []
-      const index = userQueue.findIndex(r => r.id === next.id)
-      if (index !== -1) {
-        userQueue.splice(index, 1)
-        FairQueueManager.userQueues.set(next.userId, userQueue)
-      }
-      
-      this.incrementActiveScans(next.userId)
-      this.processScan(next)
+  private async recoverExpiredLeases() {
+    const expired = await this.store.findExpiredLeases(new Date())
+
+    for (const job of expired) {
+      console.warn(`[Queue] Lease expired for scan ${job.id} (owner ${job.leaseOwner})`)
+      await this.handleFailure(job, job.leaseOwner || '', 'Lease expired: worker stopped sending heartbeats')
     }
   }
 
   /**
    * Verifica se pode processar mais globalmente
    */
-  private canProcessMore(): boolean {
-    const total = this.getTotalActiveScans()
-    return total < 100 // Limite global
+  private async canProcessMore(): Promise<boolean> {
+    const total = await this.store.countActive()
+    return total < GLOBAL_SCAN_LIMIT
   }
 
   /**
    * Verifica se usuário pode processar mais
    */
-  private canUserProcessMore(userId: string, plan: PlanType): boolean {
-    const active = FairQueueManager.activeScans.get(userId) || 0
+  private async canUserProcessMore(userId: string, plan: PlanType): Promise<boolean> {
     const limit = CONCURRENT_SCAN_LIMITS[plan]
+    if (limit === Infinity) return true
+    const active = await this.store.countActive(userId)
     return active < limit
   }
 
-  /**
-   * Helpers para contadores
-   */
-  private incrementActiveScans(userId: string) {
-    const current = FairQueueManager.activeScans.get(userId) || 0
-    FairQueueManager.activeScans.set(userId, current + 1)
-  }
-
-  private decrementActiveScans(userId: string) {
-    const current = FairQueueManager.activeScans.get(userId) || 1
-    FairQueueManager.activeScans.set(userId, Math.max(0, current - 1))
-  }
-
-  private getTotalActiveScans(): number {
-    let total = 0
-    for (const count of FairQueueManager.activeScans.values()) {
-      total += count
-    }
-    return total
-  }
-
-  private hasActiveScans(): boolean {
-    return this.getTotalActiveScans() > 0
-  }
-
-  private generateRequestId(): string {
-    return `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  }
-
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
@@ -417,17 +471,24 @@ export class FairQueueManager {
     queuedScans: number
     position?: number
   }> {
-    const activeScans = FairQueueManager.activeScans.get(userId) || 0
-    const userQueue = FairQueueManager.userQueues.get(userId) || []
+    const [activeScans, queuedScans] = await Promise.all([
+      this.store.countActive(userId),
+      this.store.countQueued(userId)
+    ])
     
     let position: number | undefined
-    if (userQueue.length > 0) {
-      position = this.calculateQueuePosition(userQueue[0])
+    if (queuedScans > 0) {
+      // Data máxima: inclui jobs que ainda aguardam o backoff de retentativa
+      const next = await this.store.findNextQueued(userId, new Date(8640000000000000))
+      if (next) {
+        const ahead = await this.store.findQueuedAhead(next)
+        position = ahead.length + 1
+      }
     }
     
     return {
       activeScans,
-      queuedScans: userQueue.length,
+      queuedScans,
       position
     }
   }
@@ -436,19 +497,9 @@ export class FairQueueManager {
    * Cancela scan na fila
    */
   async cancelQueuedScan(userId: string, queueId: string): Promise<boolean> {
-    // Remover da fila do usuário
-    const userQueue = FairQueueManager.userQueues.get(userId) || []
-    const index = userQueue.findIndex(r => r.id === queueId)
+    const cancelled = await this.store.cancel(userId, queueId)
     
-    if (index !== -1) {
-      userQueue.splice(index, 1)
-      FairQueueManager.userQueues.set(userId, userQueue)
-      
-      // Remover da fila global
-      FairQueueManager.globalQueue = FairQueueManager.globalQueue.filter(
-        r => r.id !== queueId
-      )
-      
+    if (cancelled) {
       // Emit WebSocket event
       emitQueueUpdate({
         userId,
@@ -456,11 +507,27 @@ export class FairQueueManager {
         status: 'CANCELLED',
         cancelledAt: new Date()
       })
-      
-      return true
     }
     
-    return false
+    return cancelled
+  }
+
+  /**
+   * Lista scans que esgotaram as retentativas
+   */
+  async getDeadLetterScans(limit: number = 50): Promise<ScanJob[]> {
+    return this.store.findDeadLetter(limit)
+  }
+
+  /**
+   * Recoloca um scan da dead-letter na fila
+   */
+  async retryDeadLetterScan(queueId: string): Promise<boolean> {
+    const requeued = await this.store.requeue(queueId)
+    if (requeued) {
+      this.ensureSchedulerRunning()
+    }
+    return requeued
   }
 
   /**
@@ -473,29 +540,15 @@ export class FairQueueManager {
     failed: number
     cancelled: number
   }> {
-    const stats = await prisma.monitoringSession.groupBy({
-      by: ['status'],
-      _count: {
-        status: true
-      }
-    })
+    const counts = await this.store.countByStatus()
 
-    const result = {
-      pending: 0,
-      processing: 0,
-      completed: 0,
-      failed: 0,
-      cancelled: 0
+    return {
+      pending: counts.QUEUED || 0,
+      processing: counts.PROCESSING || 0,
+      completed: counts.COMPLETED || 0,
+      failed: counts.DEAD_LETTER || 0,
+      cancelled: counts.CANCELLED || 0
     }
-
-    stats.forEach(stat => {
-      const status = stat.status.toLowerCase()
-      if (status in result) {
-        result[status as keyof typeof result] = stat._count.status
-      }
-    })
-
-    return result
   }
 
   /**
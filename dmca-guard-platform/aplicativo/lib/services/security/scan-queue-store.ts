@@ -0,0 +1,425 @@
+// lib/services/security/scan-queue-store.ts
+import { PlanType, Prisma, ScanJobStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface ScanJob {
+  id: string
+  userId: string
+  userPlan: PlanType
+  siteIds: string[]
+  priority: number
+  status: ScanJobStatus
+  attempts: number
+  maxAttempts: number
+  availableAt: Date
+  lastError: string | null
+  leaseOwner: string | null
+  leaseExpiresAt: Date | null
+  metadata?: any
+  queuedAt: Date
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+export interface NewScanJob {
+  userId: string
+  userPlan: PlanType
+  siteIds: string[]
+  priority: number
+  maxAttempts: number
+  metadata?: any
+}
+
+export interface ClaimCapacity {
+  // Máximo de scans PROCESSING do dono do job e do sistema; Infinity/ausente = sem limite
+  perUser?: number
+  global?: number
+}
+
+export interface ScanJobFailure {
+  error: string
+  // null = esgotou as tentativas, vai para a dead-letter
+  retryAt: Date | null
+}
+
+function isLimited(limit: number | undefined): limit is number {
+  return limit !== undefined && Number.isFinite(limit)
+}
+
+/**
+ * Backend de persistência da fila de scans.
+ * Todas as transições de estado são condicionais (compare-and-set) para que
+ * várias instâncias possam compartilhar a mesma fila sem processar o mesmo job duas vezes.
+ */
+export interface ScanQueueStore {
+  create(job: NewScanJob): Promise<ScanJob>
+  findById(jobId: string): Promise<ScanJob | null>
+  claim(jobId: string, owner: string, leaseMs: number, capacity?: ClaimCapacity): Promise<ScanJob | null>
+  heartbeat(jobId: string, owner: string, leaseMs: number): Promise<boolean>
+  complete(jobId: string, owner: string): Promise<boolean>
+  fail(jobId: string, owner: string, failure: ScanJobFailure): Promise<boolean>
+  cancel(userId: string, jobId: string): Promise<boolean>
+  requeue(jobId: string): Promise<boolean>
+  countActive(userId?: string): Promise<number>
+  countQueued(userId: string): Promise<number>
+  findNextQueued(userId: string, now: Date): Promise<ScanJob | null>
+  findUsersWithReadyJobs(now: Date): Promise<Array<{ userId: string; userPlan: PlanType }>>
+  findQueuedAhead(job: ScanJob): Promise<ScanJob[]>
+  findExpiredLeases(now: Date): Promise<ScanJob[]>
+  findDeadLetter(limit: number): Promise<ScanJob[]>
+  countByStatus(): Promise<Partial<Record<ScanJobStatus, number>>>
+}
+
+/**
+ * Implementação em PostgreSQL via Prisma (padrão)
+ */
+export class PrismaScanQueueStore implements ScanQueueStore {
+  async create(job: NewScanJob): Promise<ScanJob> {
+    return prisma.scanQueueJob.create({
+      data: {
+        userId: job.userId,
+        userPlan: job.userPlan,
+        siteIds: job.siteIds,
+        priority: job.priority,
+        maxAttempts: job.maxAttempts,
+        metadata: job.metadata ?? undefined
+      }
+    })
+  }
+
+  async findById(jobId: string): Promise<ScanJob | null> {
+    return prisma.scanQueueJob.findUnique({ where: { id: jobId } })
+  }
+
+  /**
+   * A capacidade faz parte da condição do UPDATE; o lock consultivo serializa as reivindicações
+   * para que duas instâncias não passem pela mesma contagem de ativos ao mesmo tempo
+   */
+  async claim(jobId: string, owner: string, leaseMs: number, capacity: ClaimCapacity = {}): Promise<ScanJob | null> {
+    const now = new Date()
+    const leaseExpiresAt = new Date(now.getTime() + leaseMs)
+    const userLimit = isLimited(capacity.perUser)
+      ? Prisma.sql`AND (SELECT count(*) FROM "scan_queue_jobs" active WHERE active."userId" = "scan_queue_jobs"."userId" AND active.status = 'PROCESSING') < ${capacity.perUser}`
+      : Prisma.empty
+    const globalLimit = isLimited(capacity.global)
+      ? Prisma.sql`AND (SELECT count(*) FROM "scan_queue_jobs" active WHERE active.status = 'PROCESSING') < ${capacity.global}`
+      : Prisma.empty
+
+    const claimed = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('scan_queue_jobs:claim'))`
+      return tx.$executeRaw`
+        UPDATE "scan_queue_jobs"
+        SET status = 'PROCESSING',
+            "leaseOwner" = ${owner},
+            "leaseExpiresAt" = ${leaseExpiresAt},
+            "heartbeatAt" = ${now},
+            "startedAt" = ${now},
+            attempts = attempts + 1,
+            "updatedAt" = ${now}
+        WHERE id = ${jobId} AND status = 'QUEUED' ${userLimit} ${globalLimit}
+      `
+    })
+
+    if (claimed === 0) return null
+    return prisma.scanQueueJob.findUnique({ where: { id: jobId } })
+  }
+
+  async heartbeat(jobId: string, owner: string, leaseMs: number): Promise<boolean> {
+    const now = new Date()
+    const result = await prisma.scanQueueJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+      data: {
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs)
+      }
+    })
+    return result.count > 0
+  }
+
+  async complete(jobId: string, owner: string): Promise<boolean> {
+    const result = await prisma.scanQueueJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null
+      }
+    })
+    return result.count > 0
+  }
+
+  async fail(jobId: string, owner: string, failure: ScanJobFailure): Promise<boolean> {
+    const result = await prisma.scanQueueJob.updateMany({
+      where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+      data: failure.retryAt
+        ? {
+            status: 'QUEUED',
+            availableAt: failure.retryAt,
+            lastError: failure.error,
+            leaseOwner: null,
+            leaseExpiresAt: null
+          }
+        : {
+            status: 'DEAD_LETTER',
+            completedAt: new Date(),
+            lastError: failure.error,
+            leaseOwner: null,
+            leaseExpiresAt: null
+          }
+    })
+    return result.count > 0
+  }
+
+  async cancel(userId: string, jobId: string): Promise<boolean> {
+    const result = await prisma.scanQueueJob.updateMany({
+      where: { id: jobId, userId, status: 'QUEUED' },
+      data: { status: 'CANCELLED', completedAt: new Date() }
+    })
+    return result.count > 0
+  }
+
+  async requeue(jobId: string): Promise<boolean> {
+    const result = await prisma.scanQueueJob.updateMany({
+      where: { id: jobId, status: 'DEAD_LETTER' },
+      data: {
+        status: 'QUEUED',
+        attempts: 0,
+        availableAt: new Date(),
+        completedAt: null
+      }
+    })
+    return result.count > 0
+  }
+
+  async countActive(userId?: string): Promise<number> {
+    return prisma.scanQueueJob.count({
+      where: { status: 'PROCESSING', ...(userId && { userId }) }
+    })
+  }
+
+  async countQueued(userId: string): Promise<number> {
+    return prisma.scanQueueJob.count({
+      where: { status: 'QUEUED', userId }
+    })
+  }
+
+  async findNextQueued(userId: string, now: Date): Promise<ScanJob | null> {
+    return prisma.scanQueueJob.findFirst({
+      where: { userId, status: 'QUEUED', availableAt: { lte: now } },
+      orderBy: [{ priority: 'desc' }, { queuedAt: 'asc' }]
+    })
+  }
+
+  async findUsersWithReadyJobs(now: Date): Promise<Array<{ userId: string; userPlan: PlanType }>> {
+    const rows = await prisma.scanQueueJob.findMany({
+      where: { status: 'QUEUED', availableAt: { lte: now } },
+      distinct: ['userId'],
+      orderBy: [{ priority: 'desc' }, { queuedAt: 'asc' }],
+      select: { userId: true, userPlan: true }
+    })
+    return rows
+  }
+
+  async findQueuedAhead(job: ScanJob): Promise<ScanJob[]> {
+    return prisma.scanQueueJob.findMany({
+      where: {
+        status: 'QUEUED',
+        id: { not: job.id },
+        OR: [
+          { priority: { gt: job.priority } },
+          { priority: job.priority, queuedAt: { lt: job.queuedAt } }
+        ]
+      },
+      orderBy: [{ priority: 'desc' }, { queuedAt: 'asc' }]
+    })
+  }
+
+  async findExpiredLeases(now: Date): Promise<ScanJob[]> {
+    return prisma.scanQueueJob.findMany({
+      where: { status: 'PROCESSING', leaseExpiresAt: { lt: now } }
+    })
+  }
+
+  async findDeadLetter(limit: number): Promise<ScanJob[]> {
+    return prisma.scanQueueJob.findMany({
+      where: { status: 'DEAD_LETTER' },
+      orderBy: { completedAt: 'desc' },
+      take: limit
+    })
+  }
+
+  async countByStatus(): Promise<Partial<Record<ScanJobStatus, number>>> {
+    const groups = await prisma.scanQueueJob.groupBy({
+      by: ['status'],
+      _count: { status: true }
+    })
+
+    return groups.reduce((acc, group) => {
+      acc[group.status] = group._count.status
+      return acc
+    }, {} as Partial<Record<ScanJobStatus, number>>)
+  }
+}
+
+/**
+ * Implementação em memória para testes e desenvolvimento local sem banco.
+ * NÃO sobrevive a restarts - nunca usar em produção.
+ */
+export class InMemoryScanQueueStore implements ScanQueueStore {
+  private jobs = new Map<string, ScanJob>()
+  // Ordem de inserção, para desempatar jobs enfileirados no mesmo milissegundo
+  private order = new Map<string, number>()
+  private sequence = 0
+
+  async create(job: NewScanJob): Promise<ScanJob> {
+    const now = new Date()
+    const created: ScanJob = {
+      ...job,
+      id: `scan_${now.getTime()}_${++this.sequence}`,
+      status: 'QUEUED',
+      attempts: 0,
+      availableAt: now,
+      lastError: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      queuedAt: now,
+      startedAt: null,
+      completedAt: null
+    }
+    this.jobs.set(created.id, created)
+    this.order.set(created.id, this.sequence)
+    return { ...created }
+  }
+
+  async findById(jobId: string): Promise<ScanJob | null> {
+    const job = this.jobs.get(jobId)
+    return job ? { ...job } : null
+  }
+
+  async claim(jobId: string, owner: string, leaseMs: number, capacity: ClaimCapacity = {}): Promise<ScanJob | null> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'QUEUED') return null
+    // Sem await entre a contagem e a transição: a checagem é atômica no event loop
+    const active = Array.from(this.jobs.values()).filter(candidate => candidate.status === 'PROCESSING')
+    if (isLimited(capacity.perUser) && active.filter(candidate => candidate.userId === job.userId).length >= capacity.perUser) return null
+    if (isLimited(capacity.global) && active.length >= capacity.global) return null
+
+    const now = new Date()
+    job.status = 'PROCESSING'
+    job.leaseOwner = owner
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs)
+    job.startedAt = now
+    job.attempts++
+    return { ...job }
+  }
+
+  async heartbeat(jobId: string, owner: string, leaseMs: number): Promise<boolean> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'PROCESSING' || job.leaseOwner !== owner) return false
+    job.leaseExpiresAt = new Date(Date.now() + leaseMs)
+    return true
+  }
+
+  async complete(jobId: string, owner: string): Promise<boolean> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'PROCESSING' || job.leaseOwner !== owner) return false
+    job.status = 'COMPLETED'
+    job.completedAt = new Date()
+    job.leaseOwner = null
+    job.leaseExpiresAt = null
+    return true
+  }
+
+  async fail(jobId: string, owner: string, failure: ScanJobFailure): Promise<boolean> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'PROCESSING' || job.leaseOwner !== owner) return false
+    job.lastError = failure.error
+    job.leaseOwner = null
+    job.leaseExpiresAt = null
+    if (failure.retryAt) {
+      job.status = 'QUEUED'
+      job.availableAt = failure.retryAt
+    } else {
+      job.status = 'DEAD_LETTER'
+      job.completedAt = new Date()
+    }
+    return true
+  }
+
+  async cancel(userId: string, jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.userId !== userId || job.status !== 'QUEUED') return false
+    job.status = 'CANCELLED'
+    job.completedAt = new Date()
+    return true
+  }
+
+  async requeue(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'DEAD_LETTER') return false
+    job.status = 'QUEUED'
+    job.attempts = 0
+    job.availableAt = new Date()
+    job.completedAt = null
+    return true
+  }
+
+  async countActive(userId?: string): Promise<number> {
+    return this.filter(job => job.status === 'PROCESSING' && (!userId || job.userId === userId)).length
+  }
+
+  async countQueued(userId: string): Promise<number> {
+    return this.filter(job => job.status === 'QUEUED' && job.userId === userId).length
+  }
+
+  async findNextQueued(userId: string, now: Date): Promise<ScanJob | null> {
+    return this.sortedQueued().find(job => job.userId === userId && job.availableAt <= now) || null
+  }
+
+  async findUsersWithReadyJobs(now: Date): Promise<Array<{ userId: string; userPlan: PlanType }>> {
+    const seen = new Set<string>()
+    const users: Array<{ userId: string; userPlan: PlanType }> = []
+    for (const job of this.sortedQueued()) {
+      if (job.availableAt > now || seen.has(job.userId)) continue
+      seen.add(job.userId)
+      users.push({ userId: job.userId, userPlan: job.userPlan })
+    }
+    return users
+  }
+
+  async findQueuedAhead(job: ScanJob): Promise<ScanJob[]> {
+    return this.sortedQueued().filter(candidate => candidate.id !== job.id && this.compare(candidate, job) < 0)
+  }
+
+  async findExpiredLeases(now: Date): Promise<ScanJob[]> {
+    return this.filter(job => job.status === 'PROCESSING' && !!job.leaseExpiresAt && job.leaseExpiresAt < now)
+  }
+
+  async findDeadLetter(limit: number): Promise<ScanJob[]> {
+    return this.filter(job => job.status === 'DEAD_LETTER').slice(0, limit)
+  }
+
+  async countByStatus(): Promise<Partial<Record<ScanJobStatus, number>>> {
+    const counts: Partial<Record<ScanJobStatus, number>> = {}
+    for (const job of this.jobs.values()) {
+      counts[job.status] = (counts[job.status] || 0) + 1
+    }
+    return counts
+  }
+
+  private filter(predicate: (job: ScanJob) => boolean): ScanJob[] {
+    return Array.from(this.jobs.values()).filter(predicate).map(job => ({ ...job }))
+  }
+
+  // Ordem de processamento: maior prioridade primeiro, depois FIFO
+  private compare(a: ScanJob, b: ScanJob): number {
+    if (a.priority !== b.priority) return b.priority - a.priority
+    if (a.queuedAt.getTime() !== b.queuedAt.getTime()) return a.queuedAt.getTime() - b.queuedAt.getTime()
+    return (this.order.get(a.id) || 0) - (this.order.get(b.id) || 0)
+  }
+
+  private sortedQueued(): ScanJob[] {
+    return this.filter(job => job.status === 'QUEUED').sort((a, b) => this.compare(a, b))
+  }
+}
@@ -0,0 +1,480 @@
+import { DetectedContent, KnownSite, Prisma, StaydownStatus, StaydownWatch, TakedownRequest } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { KnownSitesAgent } from '@/lib/agents/KnownSitesAgent'
+import { PageContent } from '@/lib/agents/types'
+import { DmcaTemplateLanguage } from '@/lib/dmca-templates'
+import { classifyRedirect, ImageHash, normalizeText, PageSnapshot } from '@/lib/content-fingerprint/fingerprint'
+import { hammingDistance, simhash } from '@/lib/content-fingerprint/simhash'
+import { contentFingerprintService, ContentFingerprintService } from '@/lib/services/content-fingerprint.service'
+import { dmcaTemplateService, NoticeData } from '@/lib/services/dmca-template.service'
+import { notificationService, NotificationType } from '@/lib/services/notification.service'
+import { recordTimelineEvent } from '@/lib/services/takedown-timeline.service'
+
+/**
+ * Páginas de busca de um site para os termos do conteúdo vigiado
+ */
+export type SiteSearcher = (userId: string, site: KnownSite, queries: string[]) => Promise<PageContent[]>
+
+export interface StaydownServiceOptions {
+  searcher?: SiteSearcher
+  fingerprints?: ContentFingerprintService
+  watchDays?: number
+  scanIntervalHours?: number
+  maxCandidates?: number
+  batchSize?: number
+}
+
+/**
+ * O que identifica um conteúdo: gravado no StaydownWatch e calculado para cada URL candidata
+ */
+export interface StaydownFingerprint {
+  title: string | null
+  textSimhash: string | null
+  imageHashes: ImageHash[]
+  fileNames: string[]
+}
+
+export interface ReuploadCandidate extends StaydownFingerprint {
+  url: string
+}
+
+export interface ReuploadScore {
+  score: number // 0-1
+  signals: string[]
+}
+
+export interface StaydownCycleResult {
+  scanned: number
+  reuploads: number
+  failed: number
+  expired: number
+}
+
+type WatchWithRelations = StaydownWatch & { detectedContent: DetectedContent; takedownRequest: TakedownRequest }
+
+export const REUPLOAD_THRESHOLD = 0.75
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Segmentos de URL que não identificam um arquivo
+const GENERIC_FILE_NAMES = new Set([
+  'index', 'video', 'videos', 'watch', 'download', 'file', 'files', 'post', 'view',
+  'embed', 'image', 'photo', 'default', 'home', 'search', 'page'
+])
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
+
+/**
+ * Nome de arquivo/slug do último segmento da URL; null quando genérico ou curto demais
+ */
+export function fileNameFromUrl(url: string): string | null {
+  let segment: string
+  try {
+    segment = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '').toLowerCase()
+  } catch {
+    return null
+  }
+
+  const stem = segment.replace(/\.[a-z0-9]{2,5}$/, '')
+  if (stem.length < 6 || /^\d+$/.test(stem) || GENERIC_FILE_NAMES.has(stem)) return null
+  return segment
+}
+
+function titleSimilarity(a: string | null, b: string | null): number {
+  const wordsA = new Set(normalizeText(a ?? '').split(' ').filter(word => word.length > 1))
+  const wordsB = new Set(normalizeText(b ?? '').split(' ').filter(word => word.length > 1))
+  if (wordsA.size < 3 || wordsB.size < 3) return 0
+
+  let shared = 0
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++
+  })
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+export function candidateFromSnapshot(snapshot: PageSnapshot): ReuploadCandidate {
+  return {
+    url: snapshot.url,
+    title: snapshot.title,
+    textSimhash: simhash(snapshot.normalizedText),
+    imageHashes: snapshot.imageHashes,
+    fileNames: unique([snapshot.url, ...snapshot.imageHashes.map(image => image.url)]
+      .map(fileNameFromUrl)
+      .filter((name): name is string => Boolean(name)))
+  }
+}
+
+/**
+ * Probabilidade de a URL candidata ser o conteúdo removido republicado
+ *
+ * Vale o sinal mais forte; cada sinal adicional soma um pouco de confiança.
+ */
+export function scoreReupload(original: StaydownFingerprint, candidate: ReuploadCandidate): ReuploadScore {
+  const scores: number[] = []
+  const signals: string[] = []
+
+  const candidateHashes = new Set(candidate.imageHashes.map(image => image.sha256))
+  const matchedImages = original.imageHashes.filter(image => candidateHashes.has(image.sha256)).length
+  if (matchedImages > 0) {
+    scores.push(0.95)
+    signals.push(`Imagens idênticas às do conteúdo removido: ${matchedImages}/${original.imageHashes.length}`)
+  }
+
+  if (original.textSimhash && candidate.textSimhash) {
+    const distance = hammingDistance(original.textSimhash, candidate.textSimhash)
+    if (distance <= 3) {
+      scores.push(0.9)
+      signals.push(`Texto quase idêntico (SimHash a ${distance} bits)`)
+    } else if (distance <= 8) {
+      scores.push(0.75)
+      signals.push(`Texto semelhante (SimHash a ${distance} bits)`)
+    }
+  }
+
+  const sharedFileName = candidate.fileNames.find(name => original.fileNames.includes(name))
+  if (sharedFileName) {
+    scores.push(0.8)
+    signals.push(`Mesmo nome de arquivo: ${sharedFileName}`)
+  }
+
+  const similarity = titleSimilarity(original.title, candidate.title)
+  if (similarity >= 0.8) {
+    scores.push(0.6)
+    signals.push(`Título semelhante (${Math.round(similarity * 100)}%)`)
+  }
+
+  if (scores.length === 0) return { score: 0, signals }
+
+  const score = Math.min(0.99, Math.max(...scores) + 0.05 * (scores.length - 1))
+  return { score: Math.round(score * 100) / 100, signals }
+}
+
+function watchFingerprint(watch: StaydownWatch): StaydownFingerprint {
+  return {
+    title: watch.title,
+    textSimhash: watch.textSimhash,
+    imageHashes: watch.imageHashes as unknown as ImageHash[],
+    fileNames: watch.fileNames
+  }
+}
+
+/**
+ * Termos de busca no host: título e nome do arquivo do conteúdo removido
+ */
+function searchQueries(watch: StaydownWatch): string[] {
+  const fileStems = watch.fileNames.map(name => name.replace(/\.[a-z0-9]{2,5}$/, '').replace(/[-_.+]+/g, ' '))
+  return unique([watch.title ?? '', ...fileStems].map(query => query.trim().slice(0, 80)).filter(Boolean)).slice(0, 2)
+}
+
+export class StaydownService {
+  private readonly searcher: SiteSearcher
+  private readonly fingerprints: ContentFingerprintService
+  private readonly watchDays: number
+  private readonly scanIntervalHours: number
+  private readonly maxCandidates: number
+  private readonly batchSize: number
+
+  constructor(options: StaydownServiceOptions = {}) {
+    this.searcher = options.searcher ?? ((userId, site, queries) => new KnownSitesAgent(userId).searchSite(site, queries))
+    this.fingerprints = options.fingerprints ?? contentFingerprintService
+    this.watchDays = options.watchDays ?? parseInt(process.env.STAYDOWN_WATCH_DAYS || '90')
+    this.scanIntervalHours = options.scanIntervalHours ?? parseInt(process.env.STAYDOWN_SCAN_INTERVAL_HOURS || '24')
+    this.maxCandidates = options.maxCandidates ?? 10
+    this.batchSize = options.batchSize ?? 20
+  }
+
+  /**
+   * Passar a vigiar um conteúdo removido (refaz o prazo se já vigiado)
+   */
+  async watch(detectedContentId: string, takedownRequestId: string, now: Date = new Date()): Promise<StaydownWatch | null> {
+    const content = await prisma.detectedContent.findUnique({
+      where: { id: detectedContentId },
+      include: { contentFingerprint: true }
+    })
+    const host = content && hostOf(content.infringingUrl)
+    if (!content || !host) return null
+
+    const fingerprint = content.contentFingerprint
+    const imageHashes = fingerprint ? fingerprint.imageHashes as unknown as ImageHash[] : []
+    const data = {
+      userId: content.userId,
+      takedownRequestId,
+      host,
+      title: fingerprint?.title ?? content.title,
+      textSimhash: fingerprint ? simhash(fingerprint.normalizedText) : null,
+      imageHashes: imageHashes as unknown as Prisma.InputJsonValue,
+      fileNames: unique([content.infringingUrl, ...imageHashes.map(image => image.url)]
+        .map(fileNameFromUrl)
+        .filter((name): name is string => Boolean(name))),
+      status: StaydownStatus.ACTIVE,
+      expiresAt: new Date(now.getTime() + this.watchDays * DAY),
+      nextScanAt: new Date(now.getTime() + this.scanIntervalHours * HOUR)
+    }
+
+    return prisma.staydownWatch.upsert({
+      where: { detectedContentId },
+      create: { detectedContentId, ...data },
+      update: data
+    })
+  }
+
+  /**
+   * Varrer os hosts dos conteúdos vigiados com verificação vencida
+   */
+  async scanDue(now: Date = new Date()): Promise<StaydownCycleResult> {
+    const expired = await prisma.staydownWatch.updateMany({
+      where: { status: StaydownStatus.ACTIVE, expiresAt: { lte: now } },
+      data: { status: StaydownStatus.EXPIRED }
+    })
+
+    const watches = await prisma.staydownWatch.findMany({
+      where: { status: StaydownStatus.ACTIVE, nextScanAt: { lte: now } },
+      include: { detectedContent: true, takedownRequest: true },
+      orderBy: { nextScanAt: 'asc' },
+      take: this.batchSize
+    })
+
+    const result: StaydownCycleResult = { scanned: 0, reuploads: 0, failed: 0, expired: expired.count }
+    // Vários conteúdos do mesmo host costumam levar às mesmas páginas
+    const candidates = new Map<string, Promise<ReuploadCandidate | null>>()
+
+    for (const watch of watches) {
+      // Reagendar antes de varrer: outra instância que leu o mesmo nextScanAt perde a disputa
+      const claimed = await prisma.staydownWatch.updateMany({
+        where: { id: watch.id, status: StaydownStatus.ACTIVE, nextScanAt: watch.nextScanAt },
+        data: { lastScannedAt: now, nextScanAt: new Date(now.getTime() + this.scanIntervalHours * HOUR) }
+      })
+      if (claimed.count === 0) continue
+
+      try {
+        result.reuploads += await this.scanWatch(watch, candidates, now)
+        result.scanned++
+      } catch (error) {
+        result.failed++
+        console.error(`Erro no staydown do conteúdo ${watch.detectedContentId} em ${watch.host}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Conteúdos vigiados do usuário com as republicações encontradas
+   */
+  findForUser(userId: string, status?: StaydownStatus) {
+    return prisma.staydownWatch.findMany({
+      where: { userId, ...(status && { status }) },
+      include: {
+        detectedContent: { select: { id: true, title: true, infringingUrl: true } },
+        matches: {
+          orderBy: { createdAt: 'desc' },
+          include: { takedownRequest: { select: { id: true, status: true, subject: true } } }
+        }
+      },
+      orderBy: { updatedAt: 'desc' }
+    })
+  }
+
+  /**
+   * Pausar ou retomar a vigilância (retomar agenda uma varredura imediata)
+   */
+  async setStatus(userId: string, watchId: string, status: 'ACTIVE' | 'PAUSED'): Promise<StaydownWatch | null> {
+    const updated = await prisma.staydownWatch.updateMany({
+      where: { id: watchId, userId, status: { not: StaydownStatus.EXPIRED } },
+      data: { status, ...(status === 'ACTIVE' && { nextScanAt: new Date() }) }
+    })
+    if (updated.count === 0) return null
+
+    return prisma.staydownWatch.findUnique({ where: { id: watchId } })
+  }
+
+  private async scanWatch(
+    watch: WatchWithRelations,
+    cache: Map<string, Promise<ReuploadCandidate | null>>,
+    now: Date
+  ): Promise<number> {
+    const site = await this.resolveSite(watch.userId, watch.host)
+    const pages = await this.searcher(watch.userId, site, searchQueries(watch))
+
+    // Só páginas de conteúdo do mesmo host: fora a URL removida, home e buscas
+    const originalUrl = watch.detectedContent.infringingUrl
+    const links = unique(pages.flatMap(page => page.links))
+      .filter(link => hostOf(link) === watch.host && classifyRedirect(originalUrl, link) === 'OTHER_PAGE')
+    if (links.length === 0) return 0
+
+    const known = await prisma.detectedContent.findMany({
+      where: { userId: watch.userId, infringingUrl: { in: links } },
+      select: { infringingUrl: true }
+    })
+    const knownUrls = new Set(known.map(content => content.infringingUrl))
+
+    let reuploads = 0
+    for (const url of links.filter(link => !knownUrls.has(link)).slice(0, this.maxCandidates)) {
+      if (!cache.has(url)) cache.set(url, this.loadCandidate(url))
+      const candidate = await cache.get(url)
+      if (!candidate) continue
+
+      const match = scoreReupload(watchFingerprint(watch), candidate)
+      if (match.score < REUPLOAD_THRESHOLD) continue
+
+      await this.recordReupload(watch, candidate, match, now)
+      reuploads++
+    }
+
+    return reuploads
+  }
+
+  private async loadCandidate(url: string): Promise<ReuploadCandidate | null> {
+    try {
+      const snapshot = await this.fingerprints.snapshot(url)
+      return snapshot.httpStatus < 400 ? candidateFromSnapshot(snapshot) : null
+    } catch (error) {
+      console.warn(`Staydown: não foi possível carregar ${url}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Site conhecido do host (criado na primeira varredura de staydown)
+   */
+  private async resolveSite(userId: string, host: string): Promise<KnownSite> {
+    const baseUrl = `https://${host}`
+    const existing = await prisma.knownSite.findFirst({
+      where: { OR: [{ userId, domain: host }, { baseUrl }] }
+    })
+    if (existing) return existing
+
+    return prisma.knownSite.create({
+      data: { baseUrl, domain: host, category: 'UNKNOWN', userId }
+    })
+  }
+
+  /**
+   * Registrar a republicação: nova detecção, vínculo com o takedown original e rascunho de reincidência
+   */
+  private async recordReupload(watch: WatchWithRelations, candidate: ReuploadCandidate, match: ReuploadScore, now: Date) {
+    const original = watch.detectedContent
+    const previous = watch.takedownRequest
+
+    const detected = await prisma.detectedContent.create({
+      data: {
+        userId: watch.userId,
+        brandProfileId: original.brandProfileId,
+        monitoringSessionId: original.monitoringSessionId,
+        title: candidate.title ?? original.title,
+        description: `Republicação de ${original.infringingUrl}`,
+        contentType: original.contentType,
+        infringingUrl: candidate.url,
+        platform: original.platform,
+        similarity: match.score,
+        confidence: Math.round(match.score * 100),
+        keywordSource: 'staydown',
+        priority: 'HIGH',
+        detectedAt: now
+      },
+      include: { brandProfile: true }
+    })
+    this.fingerprints.enqueueCapture(detected.id)
+
+    const draft = await this.draftRepeatNotice(watch, detected).catch(error => {
+      console.error(`Erro ao gerar notificação de reincidência para ${candidate.url}:`, error)
+      return null
+    })
+
+    await prisma.staydownMatch.create({
+      data: {
+        watchId: watch.id,
+        detectedContentId: detected.id,
+        takedownRequestId: draft?.id,
+        url: candidate.url,
+        score: match.score,
+        signals: match.signals as unknown as Prisma.InputJsonValue
+      }
+    })
+
+    await prisma.staydownWatch.update({
+      where: { id: watch.id },
+      data: { reuploadCount: { increment: 1 }, lastReuploadAt: now }
+    })
+
+    await recordTimelineEvent(previous.id, 'REUPLOAD_DETECTED', {
+      message: `Conteúdo republicado em ${candidate.url}`,
+      metadata: { url: candidate.url, score: match.score, signals: match.signals, draftTakedownRequestId: draft?.id ?? null }
+    })
+
+    await notificationService.create({
+      userId: watch.userId,
+      type: NotificationType.STAYDOWN_REUPLOAD,
+      title: 'Conteúdo removido foi republicado',
+      message: `"${original.title}" voltou a ser publicado em ${candidate.url}. ` +
+        (draft ? 'Uma notificação de reincidência foi preparada para revisão.' : 'Revise a nova detecção para enviar a notificação.'),
+      takedownRequestId: draft?.id ?? previous.id,
+      metadata: { staydownWatchId: watch.id, score: match.score }
+    })
+  }
+
+  /**
+   * Rascunho (PENDING, não enviado) citando a notificação anterior e sua data
+   */
+  private async draftRepeatNotice(
+    watch: WatchWithRelations,
+    detected: DetectedContent & { brandProfile: { brandName: string; description: string | null; officialUrls: string[] } }
+  ): Promise<TakedownRequest | null> {
+    const previous = watch.takedownRequest
+    const user = await prisma.user.findUnique({ where: { id: watch.userId } })
+    if (!user) return null
+
+    const notice = await dmcaTemplateService.renderNotice(
+      watch.userId,
+      {
+        takedownType: previous.requestType,
+        legalFramework: previous.legalFramework,
+        language: previous.language as DmcaTemplateLanguage,
+        templateId: previous.dmcaTemplateId ?? undefined
+      },
+      {
+        user,
+        content: detected,
+        noticeFields: previous.noticeFields as unknown as NoticeData['noticeFields'],
+        repeatOf: {
+          takedownRequestId: previous.id,
+          url: watch.detectedContent.infringingUrl,
+          sentAt: previous.sentAt ?? previous.createdAt
+        }
+      }
+    )
+
+    return prisma.takedownRequest.create({
+      data: {
+        userId: watch.userId,
+        detectedContentId: detected.id,
+        subject: notice.subject,
+        message: notice.body,
+        requestType: previous.requestType,
+        priority: previous.priority,
+        dmcaTemplateId: notice.templateId,
+        templateVersion: notice.templateVersion,
+        legalFramework: notice.legalFramework,
+        language: notice.language,
+        jurisdictionCountry: previous.jurisdictionCountry,
+        jurisdictionSource: previous.jurisdictionSource,
+        noticeFields: notice.noticeFields as unknown as Prisma.InputJsonValue,
+        reuploadOfId: previous.id,
+        status: 'PENDING'
+      }
+    })
+  }
+}
+
+export const staydownService = new StaydownService()
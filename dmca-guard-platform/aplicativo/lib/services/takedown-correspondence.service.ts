@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendTakedownEmail, TakedownEmail, TakedownEmailSender } from '@/lib/services/takedown-mailer'
+
+// Sem 0/O/1/I para evitar confusão quando o token é digitado
+const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const TOKEN_PATTERN = /\bDG-([A-HJ-NP-Z2-9]{8})\b/i
+
+export interface TrackedEmailResult {
+  id?: string
+  messageId: string
+}
+
+/**
+ * Gerar token de rastreamento (ex.: DG-7KQ2M9XA)
+ */
+export function generateTrackingToken(): string {
+  const bytes = randomBytes(8)
+  let token = ''
+  for (const byte of Array.from(bytes)) {
+    token += TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]
+  }
+  return `DG-${token}`
+}
+
+/**
+ * Acrescentar o token ao assunto, se ainda não estiver presente
+ */
+export function formatTrackedSubject(subject: string, token: string): string {
+  return subject.toUpperCase().includes(token.toUpperCase())
+    ? subject
+    : `${subject} [Ref: ${token}]`
+}
+
+/**
+ * Extrair token de rastreamento de um assunto ou corpo de e-mail
+ */
+export function extractTrackingToken(text: string | null | undefined): string | null {
+  const match = text?.match(TOKEN_PATTERN)
+  return match ? `DG-${match[1].toUpperCase()}` : null
+}
+
+/**
+ * Message-ID próprio para que respostas possam ser associadas via In-Reply-To/References
+ * (com seed, o mesmo envio repetido gera o mesmo Message-ID)
+ */
+export function buildMessageId(takedownRequestId: string, seed?: string): string {
+  const domain = process.env.RESEND_DOMAIN || 'dmca-guard.local'
+  const suffix = seed
+    ? createHash('sha256').update(seed).digest('hex').slice(0, 12)
+    : randomBytes(6).toString('hex')
+  return `<takedown.${takedownRequestId}.${suffix}@${domain}>`
+}
+
+/**
+ * Obter (ou criar) o token de rastreamento do takedown
+ */
+export async function ensureTrackingToken(
+  takedownRequestId: string,
+  current?: string | null,
+  db: Prisma.TransactionClient = prisma
+): Promise<string> {
+  if (current) return current
+
+  const token = generateTrackingToken()
+  const updated = await db.takedownRequest.updateMany({
+    where: { id: takedownRequestId, trackingToken: null },
+    data: { trackingToken: token }
+  })
+
+  if (updated.count > 0) return token
+
+  // Outro envio gerou o token primeiro
+  const existing = await db.takedownRequest.findUnique({
+    where: { id: takedownRequestId },
+    select: { trackingToken: true }
+  })
+  return existing?.trackingToken ?? token
+}
+
+/**
+ * Enviar e-mail do takedown (via outbox) com token no assunto e Message-ID registrado no histórico
+ *
+ * Com db (transação), a linha do outbox e o histórico entram no mesmo commit de quem chama.
+ */
+export async function sendTrackedTakedownEmail(
+  takedown: { id: string; userId?: string; trackingToken?: string | null },
+  email: TakedownEmail,
+  sender: TakedownEmailSender = sendTakedownEmail,
+  db?: Prisma.TransactionClient
+): Promise<TrackedEmailResult> {
+  const client = db ?? prisma
+  const token = await ensureTrackingToken(takedown.id, takedown.trackingToken, client)
+  const messageId = buildMessageId(takedown.id, email.idempotencyKey)
+  const subject = formatTrackedSubject(email.subject, token)
+
+  const result = await sender({
+    ...email,
+    subject,
+    headers: { ...email.headers, 'Message-ID': messageId },
+    takedownRequestId: takedown.id,
+    userId: email.userId ?? takedown.userId
+  }, db)
+
+  const toAddresses = Array.isArray(email.to) ? email.to : [email.to]
+  const record = () => client.takedownEmailMessage.upsert({
+    where: { messageId },
+    create: {
+      takedownRequestId: takedown.id,
+      direction: 'OUTBOUND',
+      messageId,
+      toAddresses,
+      subject,
+      occurredAt: new Date()
+    },
+    update: {}
+  })
+
+  if (db) {
+    // Na transação, falha no histórico desfaz também a linha do outbox
+    await record()
+  } else {
+    try {
+      await record()
+    } catch (error) {
+      // O e-mail já está no outbox; falha no histórico não deve gerar reenvio
+      console.error(`Erro ao registrar e-mail enviado do takedown ${takedown.id}:`, error)
+    }
+  }
+
+  return { id: result.id, messageId }
+}
@@ -0,0 +1,50 @@
+import { EmailCategory } from '@prisma/client'
+import { emailOutboxService, OutboxClient } from '@/lib/services/email-outbox.service'
+
+export interface TakedownEmail {
+  to: string | string[]
+  subject: string
+  html: string
+  replyTo?: string
+  headers?: Record<string, string>
+  idempotencyKey?: string
+  category?: EmailCategory
+  takedownRequestId?: string
+  userId?: string
+}
+
+export interface TakedownEmailResult {
+  id?: string
+}
+
+export type TakedownEmailSender = (email: TakedownEmail, db?: OutboxClient) => Promise<TakedownEmailResult>
+
+/**
+ * Enviar notificação de takedown pelo outbox
+ *
+ * Dentro de uma transação (db informado) apenas grava a linha; quem chama dispara após o commit.
+ */
+export const sendTakedownEmail: TakedownEmailSender = async (email, db) => {
+  const entry = await emailOutboxService.enqueue({
+    idempotencyKey: email.idempotencyKey,
+    category: email.category ?? 'TAKEDOWN_NOTICE',
+    to: email.to,
+    subject: email.subject,
+    html: email.html,
+    replyTo: email.replyTo,
+    headers: email.headers,
+    takedownRequestId: email.takedownRequestId,
+    userId: email.userId
+  }, db)
+
+  if (!db) {
+    try {
+      await emailOutboxService.dispatch(entry.id)
+    } catch (error) {
+      // Continua no outbox; o dispatcher tenta de novo
+      console.error(`Erro ao despachar e-mail ${entry.id} do outbox:`, error)
+    }
+  }
+
+  return { id: entry.id }
+}
@@ -0,0 +1,436 @@
+import { TakedownReplyCategory, TakedownStatus } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { llmService } from '@/lib/services/llm.service'
+import { gmailService, GmailInboxMessage, SecureGmailService } from '@/lib/services/gmail-secure'
+import { extractTrackingToken } from '@/lib/services/takedown-correspondence.service'
+import { recordTimelineEvent, stopEscalationChain } from '@/lib/services/takedown-timeline.service'
+
+const AI_CONFIDENCE_THRESHOLD = 0.8
+// REMOVED/REJECTED encerram o takedown: abaixo disso (e sem concordância do LLM) vai para IN_REVIEW
+const FINAL_STATUS_CONFIDENCE = 0.85
+const FINAL_CATEGORIES: TakedownReplyCategory[] = ['REMOVED', 'REJECTED']
+const MAX_BODY_LENGTH = 20000
+
+export interface ReplyClassification {
+  category: TakedownReplyCategory
+  confidence: number
+  classifiedBy: 'RULES' | 'LLM'
+  matchedRule?: string
+  llmAgreed?: boolean // regras e LLM chegaram à mesma categoria
+}
+
+export interface ReplyClassifier {
+  classify(subject: string, text: string): Promise<ReplyClassification | null>
+}
+
+export type ReplyProcessingOutcome = 'UNMATCHED' | 'DUPLICATE' | 'STORED' | 'STATUS_UPDATED'
+
+export interface ReplyIngestionResult {
+  fetched: number
+  matched: number
+  duplicates: number
+  statusUpdates: number
+  errors: number
+}
+
+interface ReplyRule {
+  category: TakedownReplyCategory
+  name: string
+  pattern: RegExp
+  weak?: boolean // frase que aparece fora de contexto (políticas, prazos); só decide sem outros sinais
+  vetoes?: TakedownReplyCategory // descarta as regras dessa categoria quando casa (ex.: remoção negada)
+}
+
+// A ordem importa: respostas automáticas e recusas antes de "removido",
+// para que "will not be removed" não seja lido como remoção
+const REPLY_RULES: ReplyRule[] = [
+  { category: 'AUTO_REPLY', name: 'out-of-office', pattern: /\b(out of (the )?office|auto(matic)?[- ]?reply|vacation|on leave|away from (the )?office)\b/i },
+  { category: 'AUTO_REPLY', name: 'ausente', pattern: /\b(resposta autom[aá]tica|fora do escrit[oó]rio|estou de f[eé]rias|ausente at[eé])\b/i },
+  { category: 'REJECTED', name: 'refuse', pattern: /\b(declin(e|ed|ing) (to|your)|unable to (comply|remove|take)|(will not|won't) (be )?(remov|tak|disabl)\w*|cannot (remove|comply|take)|does not (infringe|violate))\b/i },
+  { category: 'REJECTED', name: 'recusa', pattern: /\b(recusad[ao]|n[aã]o (ser[aá]|iremos|vamos|podemos) (remov|retir|atend)|n[aã]o configura (viola|infra)|solicita[cç][aã]o (foi )?negada)\b/i },
+  { category: 'REJECTED', name: 'fair-use', pattern: /\b(fair use|uso leg[ií]timo|not (be )?removed)\b/i, weak: true },
+  // "has not been removed yet" também casa com "been removed": a negação anula a remoção
+  {
+    category: 'IN_REVIEW',
+    name: 'not-removed',
+    pattern: /(\bnot|n't|\bnever)( yet)?( been)? (removed|taken down|disabled)\b|\b(yet|unable) to (be )?(remov|tak|disabl)\w*|\bn[aã]o (foi|foram) (removid|retirad|desativad)[oa]s?|\bn[aã]o (removemos|retiramos|desativamos)/i,
+    weak: true,
+    vetoes: 'REMOVED'
+  },
+  { category: 'REMOVED', name: 'removed', pattern: /\b((has|have|had) (been )?(removed|taken down|disabled)|(been|was|were) (removed|taken down|disabled)|access (has been |was )?disabled|no longer (available|accessible))\b/i },
+  { category: 'REMOVED', name: 'removido', pattern: /\b((foi|foram) (removid|retirad|desativad)[oa]s?|(removemos|retiramos|desativamos)|n[aã]o est[aá] mais (dispon[ií]vel|no ar))/i },
+  { category: 'IN_REVIEW', name: 'review', pattern: /\b(under (review|investigation)|(are|is) (reviewing|investigating)|need (more|additional) information|please provide|insufficient|incomplete notice)\b/i },
+  { category: 'IN_REVIEW', name: 'analise', pattern: /\b(em an[aá]lise|analisando|estamos (verificando|avaliando)|informa[cç][oõ]es adicionais|por favor,? (envie|informe|forne[cç]a))/i },
+  { category: 'ACKNOWLEDGED', name: 'received', pattern: /\b(we (have )?received|acknowledg(e|ed|ing)|receipt of|ticket (#|number|id)|case (#|number|id)|thank you for (your|contacting))\b/i },
+  { category: 'ACKNOWLEDGED', name: 'recebido', pattern: /\b(recebemos|recebid[ao]|protocolo|chamado (n[uú]mero|#)|obrigad[oa] pelo contato)/i }
+]
+
+// Posição de cada status no ciclo do takedown; respostas nunca fazem o status regredir
+const STATUS_PROGRESSION: Partial<Record<TakedownStatus, number>> = {
+  PENDING: 0,
+  SENT: 1,
+  ACKNOWLEDGED: 2,
+  IN_REVIEW: 3
+}
+
+const CATEGORY_TO_STATUS: Partial<Record<TakedownReplyCategory, TakedownStatus>> = {
+  ACKNOWLEDGED: 'ACKNOWLEDGED',
+  IN_REVIEW: 'IN_REVIEW',
+  REJECTED: 'REJECTED',
+  REMOVED: 'REMOVED'
+}
+
+const CATEGORY_LABELS: Record<TakedownReplyCategory, string> = {
+  ACKNOWLEDGED: 'confirmou o recebimento',
+  IN_REVIEW: 'está analisando a notificação',
+  REJECTED: 'recusou a remoção',
+  REMOVED: 'informou que o conteúdo foi removido',
+  AUTO_REPLY: 'enviou uma resposta automática',
+  UNKNOWN: 'respondeu à notificação'
+}
+
+/**
+ * Remover o histórico citado ("On ... wrote:", linhas com ">") do corpo da resposta
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const kept: string[] = []
+
+  for (const line of lines) {
+    if (/^\s*(On .+ wrote:|Em .+ escreveu:|-{2,}\s*(Original Message|Mensagem original)\s*-{2,}|From:\s.+|De:\s.+)\s*$/i.test(line)) {
+      break
+    }
+    if (/^\s*>/.test(line)) continue
+    kept.push(line)
+  }
+
+  return kept.join('\n').trim()
+}
+
+/**
+ * Classificar a resposta com regras de palavras-chave (EN/PT)
+ */
+export function classifyReplyByRules(subject: string, text: string): ReplyClassification {
+  const content = `${subject}\n${stripQuotedReply(text)}`
+  const matched = REPLY_RULES.filter(rule => rule.pattern.test(content))
+  const vetoed = new Set(matched.map(rule => rule.vetoes).filter(Boolean))
+  const matches = matched.filter(rule => !vetoed.has(rule.category))
+
+  if (matches.length === 0) {
+    return { category: 'UNKNOWN', confidence: 0, classifiedBy: 'RULES' }
+  }
+
+  const strong = matches.filter(rule => !rule.weak)
+  if (strong.length === 0) {
+    return { category: matches[0].category, confidence: 0.5, classifiedBy: 'RULES', matchedRule: matches[0].name }
+  }
+
+  const [first] = strong
+  const categories = new Set(strong.map(rule => rule.category))
+
+  return {
+    category: first.category,
+    // Sinais conflitantes (ex.: "recebemos" + "em análise") reduzem a confiança
+    confidence: categories.size === 1 ? 0.9 : 0.6,
+    classifiedBy: 'RULES',
+    matchedRule: first.name
+  }
+}
+
+/**
+ * Próximo status do takedown para a categoria da resposta (null = manter)
+ */
+export function nextStatusForReply(current: TakedownStatus, category: TakedownReplyCategory): TakedownStatus | null {
+  const currentRank = STATUS_PROGRESSION[current]
+  if (currentRank === undefined) return null // status final
+
+  const target = CATEGORY_TO_STATUS[category]
+  if (!target) return null
+
+  const targetRank = STATUS_PROGRESSION[target]
+  if (targetRank !== undefined && targetRank <= currentRank) return null
+
+  return target
+}
+
+/**
+ * Categoria usada para o status: REMOVED/REJECTED ambíguos viram IN_REVIEW para revisão manual
+ */
+export function statusCategoryForReply(classification: ReplyClassification): TakedownReplyCategory {
+  if (!FINAL_CATEGORIES.includes(classification.category)) return classification.category
+  if (classification.confidence >= FINAL_STATUS_CONFIDENCE || classification.llmAgreed) return classification.category
+  return 'IN_REVIEW'
+}
+
+/**
+ * Extrair o endereço de um cabeçalho "Nome <email>"
+ */
+export function parseEmailAddress(header: string): string {
+  const match = header.match(/<([^>]+)>/)
+  return (match ? match[1] : header).trim().toLowerCase()
+}
+
+const LlmReplySchema = z.object({
+  category: z.enum(['ACKNOWLEDGED', 'IN_REVIEW', 'REJECTED', 'REMOVED', 'AUTO_REPLY', 'UNKNOWN']),
+  confidence: z.coerce.number().min(0).max(1)
+})
+
+/**
+ * Classificador opcional via LLM, usado quando as regras têm baixa confiança
+ */
+export class LlmReplyClassifier implements ReplyClassifier {
+  async classify(subject: string, text: string): Promise<ReplyClassification | null> {
+    try {
+      const prompt = `You are classifying a reply to a DMCA takedown notice.
+Categories:
+- ACKNOWLEDGED: the notice was received, no decision yet
+- IN_REVIEW: the recipient is reviewing it or asks for more information
+- REJECTED: the recipient refuses to remove the content
+- REMOVED: the content was removed or access was disabled
+- AUTO_REPLY: out-of-office or other automatic message without a decision
+- UNKNOWN: none of the above
+
+Subject: ${subject}
+Body:
+${stripQuotedReply(text).slice(0, 4000)}
+
+Answer only with JSON: {"category": "<CATEGORY>", "confidence": <0..1>}`
+
+      const { data } = await llmService.generateObject(LlmReplySchema, prompt, { temperature: 0 })
+      return { ...data, classifiedBy: 'LLM' }
+    } catch (error) {
+      console.error('Erro ao classificar resposta de takedown com LLM:', error)
+      return null
+    }
+  }
+}
+
+function createDefaultAiClassifier(): ReplyClassifier | null {
+  return process.env.TAKEDOWN_REPLY_AI_CLASSIFICATION === 'true' && llmService.isConfigured()
+    ? new LlmReplyClassifier()
+    : null
+}
+
+export class TakedownReplyIngestionService {
+  constructor(
+    private readonly gmail: Pick<SecureGmailService, 'fetchRecentMessages'> = gmailService,
+    private readonly aiClassifier: ReplyClassifier | null = createDefaultAiClassifier()
+  ) {}
+
+  /**
+   * Classificar com regras e, se a confiança for baixa, com o classificador de IA
+   */
+  async classify(subject: string, text: string): Promise<ReplyClassification> {
+    const byRules = classifyReplyByRules(subject, text)
+    if (byRules.confidence >= AI_CONFIDENCE_THRESHOLD || !this.aiClassifier) {
+      return byRules
+    }
+
+    const byAi = await this.aiClassifier.classify(subject, text)
+    if (byAi && byAi.category === byRules.category) {
+      return { ...byRules, confidence: Math.max(byRules.confidence, byAi.confidence), llmAgreed: true }
+    }
+    return byAi && byAi.confidence > byRules.confidence ? byAi : byRules
+  }
+
+  /**
+   * Ler respostas de todos os usuários com Gmail conectado
+   */
+  async ingestAll(options?: { daysBack?: number }): Promise<ReplyIngestionResult> {
+    const total: ReplyIngestionResult = { fetched: 0, matched: 0, duplicates: 0, statusUpdates: 0, errors: 0 }
+
+    const integrations = await prisma.userIntegration.findMany({
+      where: { provider: 'GMAIL', status: 'ACTIVE' },
+      select: { userId: true }
+    })
+
+    for (const { userId } of integrations) {
+      try {
+        const result = await this.ingestForUser(userId, options)
+        total.fetched += result.fetched
+        total.matched += result.matched
+        total.duplicates += result.duplicates
+        total.statusUpdates += result.statusUpdates
+        total.errors += result.errors
+      } catch (error) {
+        total.errors++
+        console.error(`Erro ao ler respostas de takedown do usuário ${userId}:`, error)
+      }
+    }
+
+    if (total.matched > 0) {
+      console.log(`📬 Respostas de takedown: ${total.matched} associadas, ${total.statusUpdates} status atualizados`)
+    }
+
+    return total
+  }
+
+  /**
+   * Ler a caixa de entrada do usuário e processar respostas a notificações
+   */
+  async ingestForUser(userId: string, options?: { daysBack?: number }): Promise<ReplyIngestionResult> {
+    const result: ReplyIngestionResult = { fetched: 0, matched: 0, duplicates: 0, statusUpdates: 0, errors: 0 }
+
+    const messages = await this.gmail.fetchRecentMessages(userId, {
+      query: '-from:me',
+      daysBack: options?.daysBack || 7,
+      maxResults: 100
+    })
+    result.fetched = messages.length
+
+    for (const message of messages) {
+      try {
+        const outcome = await this.processReply(userId, message)
+        if (outcome === 'DUPLICATE') result.duplicates++
+        if (outcome === 'STORED' || outcome === 'STATUS_UPDATED') result.matched++
+        if (outcome === 'STATUS_UPDATED') result.statusUpdates++
+      } catch (error) {
+        result.errors++
+        console.error(`Erro ao processar resposta ${message.id}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Associar a mensagem a um takedown, registrar no histórico e atualizar o status
+   */
+  async processReply(userId: string, message: GmailInboxMessage): Promise<ReplyProcessingOutcome> {
+    const match = await this.findTakedown(userId, message)
+    if (!match) return 'UNMATCHED'
+
+    const existing = await prisma.takedownEmailMessage.findFirst({
+      where: {
+        OR: [
+          { gmailMessageId: message.id },
+          ...(message.messageId ? [{ messageId: message.messageId }] : [])
+        ]
+      },
+      select: { id: true }
+    })
+    if (existing) return 'DUPLICATE'
+
+    const { takedown, matchedBy } = match
+    const classification = await this.classify(message.subject, message.text)
+    const statusCategory = statusCategoryForReply(classification)
+    const fromAddress = parseEmailAddress(message.from)
+
+    await prisma.takedownEmailMessage.create({
+      data: {
+        takedownRequestId: takedown.id,
+        direction: 'INBOUND',
+        messageId: message.messageId,
+        gmailMessageId: message.id,
+        inReplyTo: message.inReplyTo,
+        fromAddress,
+        toAddresses: message.to,
+        subject: message.subject,
+        bodyText: message.text.slice(0, MAX_BODY_LENGTH),
+        category: classification.category,
+        classificationConfidence: classification.confidence,
+        classifiedBy: classification.classifiedBy,
+        matchedBy,
+        occurredAt: message.date
+      }
+    })
+
+    await recordTimelineEvent(takedown.id, 'REPLY_RECEIVED', {
+      recipients: [fromAddress],
+      message: message.subject,
+      metadata: {
+        category: classification.category,
+        confidence: classification.confidence,
+        classifiedBy: classification.classifiedBy,
+        matchedRule: classification.matchedRule,
+        llmAgreed: classification.llmAgreed,
+        heldForReview: statusCategory !== classification.category,
+        matchedBy
+      }
+    })
+
+    // Qualquer resposta humana interrompe follow-ups e escalonamento
+    if (classification.category !== 'AUTO_REPLY') {
+      await stopEscalationChain(takedown.id, `Resposta recebida de ${fromAddress}`, {
+        category: classification.category
+      })
+    }
+
+    const nextStatus = nextStatusForReply(takedown.status, statusCategory)
+    const updated = nextStatus
+      ? await this.transitionStatus(takedown.id, takedown.status, nextStatus, message)
+      : false
+
+    if (classification.category !== 'AUTO_REPLY') {
+      await prisma.notification.create({
+        data: {
+          userId,
+          takedownRequestId: takedown.id,
+          title: 'Resposta ao takedown recebida',
+          message: `${fromAddress} ${CATEGORY_LABELS[classification.category]}` +
+            (statusCategory !== classification.category ? ' (classificação incerta, confirme manualmente)' : '') +
+            (updated ? `. Status atualizado para ${nextStatus}.` : '.'),
+          type: 'takedown_reply'
+        }
+      })
+    }
+
+    return updated ? 'STATUS_UPDATED' : 'STORED'
+  }
+
+  private async findTakedown(userId: string, message: GmailInboxMessage) {
+    const token = extractTrackingToken(message.subject) ?? extractTrackingToken(message.text)
+    if (token) {
+      const takedown = await prisma.takedownRequest.findFirst({
+        where: { trackingToken: token, userId },
+        select: { id: true, status: true }
+      })
+      if (takedown) return { takedown, matchedBy: 'TOKEN' as const }
+    }
+
+    const referencedIds = [message.inReplyTo, ...message.references].filter((id): id is string => !!id)
+    if (referencedIds.length === 0) return null
+
+    const outbound = await prisma.takedownEmailMessage.findFirst({
+      where: {
+        direction: 'OUTBOUND',
+        messageId: { in: referencedIds },
+        takedownRequest: { userId }
+      },
+      select: { takedownRequest: { select: { id: true, status: true } } }
+    })
+
+    return outbound ? { takedown: outbound.takedownRequest, matchedBy: 'MESSAGE_ID' as const } : null
+  }
+
+  private async transitionStatus(
+    takedownRequestId: string,
+    from: TakedownStatus,
+    to: TakedownStatus,
+    message: GmailInboxMessage
+  ): Promise<boolean> {
+    const now = new Date()
+    const isFinal = to === 'REMOVED' || to === 'REJECTED'
+
+    // Condicionar ao status lido para não sobrescrever uma mudança manual concorrente
+    const updated = await prisma.takedownRequest.updateMany({
+      where: { id: takedownRequestId, status: from },
+      data: {
+        status: to,
+        ...(to !== 'REJECTED' && (from === 'PENDING' || from === 'SENT') && { acknowledgedAt: now }),
+        ...(isFinal && { resolvedAt: now })
+      }
+    })
+    if (updated.count === 0) return false
+
+    await recordTimelineEvent(takedownRequestId, 'STATUS_CHANGED', {
+      message: `${from} → ${to}`,
+      metadata: { from, to, source: 'EMAIL_REPLY', gmailMessageId: message.id }
+    })
+
+    return true
+  }
+}
+
+export const takedownReplyIngestionService = new TakedownReplyIngestionService()
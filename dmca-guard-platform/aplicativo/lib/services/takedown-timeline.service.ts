@@ -0,0 +1,71 @@
+import { Prisma, TakedownTimelineEvent, TakedownTimelineEventType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface TimelineEventInput {
+  tier?: number
+  recipients?: string[]
+  message?: string
+  metadata?: Record<string, any>
+}
+
+/**
+ * Registrar um passo na timeline do takedown
+ */
+export async function recordTimelineEvent(
+  takedownRequestId: string,
+  type: TakedownTimelineEventType,
+  input: TimelineEventInput = {}
+): Promise<TakedownTimelineEvent | null> {
+  try {
+    return await prisma.takedownTimelineEvent.create({
+      data: {
+        takedownRequestId,
+        type,
+        tier: input.tier,
+        recipients: input.recipients ?? [],
+        message: input.message,
+        metadata: input.metadata as Prisma.InputJsonValue | undefined
+      }
+    })
+  } catch (error) {
+    console.error(`Erro ao registrar evento ${type} na timeline do takedown ${takedownRequestId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Obter timeline do takedown em ordem cronológica
+ */
+export async function getTakedownTimeline(takedownRequestId: string): Promise<TakedownTimelineEvent[]> {
+  return prisma.takedownTimelineEvent.findMany({
+    where: { takedownRequestId },
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+/**
+ * Interromper a cadeia de follow-up/escalonamento de um takedown
+ *
+ * Retorna false se a cadeia já estava interrompida.
+ */
+export async function stopEscalationChain(
+  takedownRequestId: string,
+  reason: string,
+  metadata?: Record<string, any>
+): Promise<boolean> {
+  const stopped = await prisma.takedownRequest.updateMany({
+    where: { id: takedownRequestId, escalationStoppedAt: null },
+    data: { escalationStoppedAt: new Date() }
+  })
+
+  if (stopped.count === 0) {
+    return false
+  }
+
+  await recordTimelineEvent(takedownRequestId, 'CHAIN_STOPPED', {
+    message: reason,
+    metadata
+  })
+
+  return true
+}
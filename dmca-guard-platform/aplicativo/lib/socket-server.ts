@@ -94,7 +94,7 @@ export function emitAgentStatus(agentId: string, status: string, data?: any) {
 export function emitQueueUpdate(data: {
   userId: string
   queueId: string
-  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'CANCELLED'
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'CANCELLED' | 'FAILED'
   position?: number
   estimatedStartTime?: Date
   startedAt?: Date
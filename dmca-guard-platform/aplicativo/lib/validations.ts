@@ -76,11 +76,35 @@ export const sessionActionSchema = z.object({
   action: z.enum(['start', 'pause', 'stop', 'reset'])
 })
 
+const TAKEDOWN_TYPES = [
+  'DMCA',
+  'CEASE_AND_DESIST',
+  'COPYRIGHT_CLAIM',
+  'TRADEMARK_INFRINGEMENT',
+  'PRIVACY_VIOLATION',
+  'OTHER'
+] as const
+
+const LEGAL_FRAMEWORKS = ['US_DMCA', 'EU_DSA', 'BR_MARCO_CIVIL', 'UK_ECOMMERCE'] as const
+
+// Campos exigidos por alguns regimes que não estão no cadastro do usuário
+const noticeFieldsSchema = z.object({
+  senderAddress: z.string().max(500).optional(),
+  explanation: z.string().min(20, 'Justificativa deve ter pelo menos 20 caracteres').max(5000).optional(),
+  affectedPersonName: z.string().min(2).max(255).optional(),
+  requesterRole: z.enum(['VICTIM', 'LEGAL_REPRESENTATIVE']).optional()
+});
+
 export const takedownRequestSchema = z.object({
   detectedContentId: z.string(),
   platform: z.string(),
   recipientEmail: z.string().email('Email inválido'),
-  customMessage: z.string().optional()
+  customMessage: z.string().optional(),
+  requestType: z.enum(TAKEDOWN_TYPES).optional(),
+  templateId: z.string().optional(),
+  language: z.enum(['pt', 'en']).optional(),
+  legalFramework: z.enum(LEGAL_FRAMEWORKS).optional(),
+  noticeFields: noticeFieldsSchema.optional()
 })
 
 export const domainWhitelistSchema = z.object({
@@ -109,3 +133,134 @@ export const updateTakedownRequestSchema = z.object({
   subject: z.string().min(5, 'Assunto deve ter pelo menos 5 caracteres').max(255, 'Assunto muito longo'),
   message: z.string().min(20, 'Mensagem deve ter pelo menos 20 caracteres').max(10000, 'Mensagem muito longa')
 });
+
+export const createDelistingRequestSchema = z.object({
+  engines: z.array(z.enum(['GOOGLE', 'BING'])).min(1, 'Selecione ao menos um buscador'),
+  brandProfileId: z.string().optional(),
+  detectedContentIds: z.array(z.string()).min(1).optional()
+});
+
+export const updateDelistingRequestSchema = z.object({
+  status: z.enum(['SUBMITTED', 'REJECTED', 'CANCELLED']),
+  externalReference: z.string().max(255).optional()
+});
+
+const counterNoticeChecklistSchema = z.object({
+  SIGNATURE: z.boolean(),
+  MATERIAL_IDENTIFICATION: z.boolean(),
+  GOOD_FAITH_STATEMENT: z.boolean(),
+  CONTACT_INFORMATION: z.boolean(),
+  JURISDICTION_CONSENT: z.boolean(),
+  SERVICE_OF_PROCESS: z.boolean()
+}).partial();
+
+export const createCounterNoticeSchema = z.object({
+  senderName: z.string().min(2, 'Nome do remetente é obrigatório'),
+  senderEmail: z.string().email('Email inválido').optional(),
+  senderAddress: z.string().optional(),
+  senderPhone: z.string().optional(),
+  signature: z.string().optional(),
+  noticeText: z.string().min(20, 'Texto da contranotificação é obrigatório'),
+  materialDescription: z.string().optional(),
+  receivedAt: z.coerce.date().optional(),
+  checklist: counterNoticeChecklistSchema.optional()
+});
+
+export const updateCounterNoticeSchema = z.object({
+  checklist: counterNoticeChecklistSchema
+});
+
+export const counterNoticeDecisionSchema = z.object({
+  decision: z.enum(['FILE_SUIT', 'WITHDRAW', 'ALLOW_RESTORE']),
+  notes: z.string().max(2000).optional(),
+  lawsuitReference: z.string().max(255).optional()
+}).refine(data => data.decision !== 'FILE_SUIT' || !!data.lawsuitReference, {
+  message: 'Informe o número do processo',
+  path: ['lawsuitReference']
+});
+
+export const createGroupedTakedownSchema = z.object({
+  scope: z.enum(['HOST', 'DOMAIN']).default('HOST'),
+  detectedContentIds: z.array(z.string()).min(2).optional(),
+  brandProfileId: z.string().optional(),
+  clusterId: z.string().optional(),
+  minUrls: z.number().int().min(1).max(500).optional(),
+  customMessage: z.string().optional(),
+  legalFramework: z.enum(LEGAL_FRAMEWORKS).optional(),
+  noticeFields: noticeFieldsSchema.optional()
+});
+
+export const updateTakedownItemsSchema = z.object({
+  itemIds: z.array(z.string()).min(1, 'Selecione ao menos uma URL'),
+  status: z.enum(['PENDING', 'REMOVED', 'STILL_ONLINE', 'NEEDS_REVIEW'])
+});
+
+export const createDmcaTemplateSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter pelo menos 2 caracteres').max(100, 'Nome muito longo'),
+  description: z.string().max(500).optional(),
+  language: z.enum(['pt', 'en']),
+  takedownType: z.enum(TAKEDOWN_TYPES).default('DMCA'),
+  legalFramework: z.enum(LEGAL_FRAMEWORKS).default('US_DMCA'),
+  subject: z.string().min(5, 'Assunto deve ter pelo menos 5 caracteres').max(255, 'Assunto muito longo'),
+  body: z.string().min(20, 'Corpo deve ter pelo menos 20 caracteres').max(20000, 'Corpo muito longo'),
+  isDefault: z.boolean().optional(),
+  isSystem: z.boolean().optional()
+});
+
+export const updateDmcaTemplateSchema = createDmcaTemplateSchema
+  .omit({ isSystem: true })
+  .partial()
+  .extend({ changeNote: z.string().max(255).optional() });
+
+export const restoreDmcaTemplateVersionSchema = z.object({
+  version: z.number().int().min(1)
+});
+
+export const previewDmcaTemplateSchema = z.object({
+  templateId: z.string().optional(),
+  subject: z.string().max(255).optional(),
+  body: z.string().max(20000).optional(),
+  detectedContentId: z.string().optional(),
+  language: z.enum(['pt', 'en']).optional(),
+  takedownType: z.enum(TAKEDOWN_TYPES).optional(),
+  legalFramework: z.enum(LEGAL_FRAMEWORKS).optional()
+}).refine(data => !!data.templateId || (data.subject !== undefined && data.body !== undefined), {
+  message: 'Informe o template salvo ou o assunto e o corpo',
+  path: ['templateId']
+});
+
+export const updateStaydownWatchSchema = z.object({
+  status: z.enum(['ACTIVE', 'PAUSED'])
+});
+
+export const reviewContentClusterSchema = z.object({
+  action: z.enum(['CONFIRM', 'DISMISS'])
+});
+
+export const DETECTION_RULE_ACTIONS = ['BOOST', 'SUPPRESS', 'AUTO_CONFIRM', 'AUTO_IGNORE'] as const;
+
+export const createDetectionRuleSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter pelo menos 2 caracteres').max(100, 'Nome muito longo'),
+  description: z.string().max(500).optional(),
+  expression: z.string().min(3, 'Expressão obrigatória').max(2000, 'Expressão muito longa'),
+  action: z.enum(DETECTION_RULE_ACTIONS),
+  amount: z.number().int().min(1).max(100).optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional()
+});
+
+export const updateDetectionRuleSchema = createDetectionRuleSchema.partial();
+
+export const testDetectionRuleSchema = z.object({
+  expression: z.string().min(3, 'Expressão obrigatória').max(2000, 'Expressão muito longa'),
+  limit: z.number().int().min(1).max(5000).optional()
+});
+
+export const trainCalibrationSchema = z.object({
+  brandProfileId: z.string().optional()
+});
+
+export const rollbackCalibrationSchema = z.object({
+  brandProfileId: z.string().optional(),
+  version: z.number().int().min(1).optional()
+});
@@ -12,6 +12,7 @@ import {
   SessionStatus
 } from '@prisma/client'
 import { CommonSchemas, SecurityValidators } from '@/lib/middleware/validation'
+import { scoringConfigSchema } from '@/lib/detection/violation-scoring'
 
 // ===================================================================
 // USER SCHEMAS
@@ -92,7 +93,9 @@ export const BrandProfileSchemas = {
       youtube: z.string().optional()
     }).optional(),
     keywords: z.array(z.string().min(1).max(50)).optional(),
-    isActive: z.boolean().optional()
+    isActive: z.boolean().optional(),
+    // Pesos e limiares da pontuação de violações; {} volta aos padrões
+    scoringConfig: scoringConfigSchema.optional()
   }),
   
   // Safe keywords management
@@ -69,7 +69,11 @@ Declaro, sob pena de perjúrio, que:
 
 Solicito a remoção ou desativação imediata do acesso ao conteúdo infrator.
 
-Meus dados de contato:
+{#if repeatInfringementReference}{repeatInfringementReference}
+
+{/if}{#if evidenceReference}{evidenceReference}
+
+{/if}Meus dados de contato:
 Nome: {userName}
 E-mail: {userEmail}
 Telefone: {userPhone}
@@ -102,7 +106,11 @@ I have a good faith belief that the use of the copyrighted material described ab
 Legal Declaration:
 I swear, under penalty of perjury, that the information in this notice is accurate, and I am authorized to act on behalf of the copyright owner.
 
-Contact Information:
+{#if repeatInfringementReference}{repeatInfringementReference}
+
+{/if}{#if evidenceReference}{evidenceReference}
+
+{/if}Contact Information:
 Name: {userName}
 Email: {userEmail}
 Phone: {userPhone}
@@ -116,20 +124,36 @@ Date: {currentDate}`,
     }
   ]
 
+  // Templates do sistema (userId nulo); alterações no texto geram nova versão
   for (const template of dmcaTemplates) {
-    await prisma.dmcaTemplate.upsert({
-      where: { 
-        name_language: {
-          name: template.name,
-          language: template.language
+    const existing = await prisma.dmcaTemplate.findFirst({
+      where: { userId: null, name: template.name, language: template.language }
+    })
+
+    if (!existing) {
+      await prisma.dmcaTemplate.create({
+        data: {
+          ...template,
+          versions: { create: { version: 1, subject: template.subject, body: template.body } }
         }
-      },
-      update: { 
+      })
+      continue
+    }
+
+    const contentChanged = existing.subject !== template.subject || existing.body !== template.body
+    await prisma.dmcaTemplate.update({
+      where: { id: existing.id },
+      data: {
         subject: template.subject,
         body: template.body,
-        isActive: template.isActive
-      },
-      create: template
+        isActive: template.isActive,
+        ...(contentChanged && {
+          version: existing.version + 1,
+          versions: {
+            create: { version: existing.version + 1, subject: template.subject, body: template.body, changeNote: 'Atualizado pelo seed' }
+          }
+        })
+      }
     })
   }
 